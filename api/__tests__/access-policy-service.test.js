@@ -0,0 +1,83 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const AccessPolicyService = require('../core/AccessPolicyService');
+
+describe('AccessPolicyService', () => {
+  const tenant = {
+    id: 'tenant-123',
+    settings: {
+      accessControl: {
+        policies: [
+          {
+            id: 'office-network-only',
+            effect: 'deny',
+            permissions: ['inspection.*'],
+            condition: { not: { field: 'request.ipAddress', operator: 'ipInRange', value: '10.0.0.0/8' } }
+          },
+          {
+            id: 'site-leads-read-assets',
+            effect: 'allow',
+            permissions: ['asset.read'],
+            condition: { field: 'user.roleNames', operator: 'in', value: ['site_lead'] }
+          }
+        ],
+        permissionConditions: {
+          'inspection.approve': [
+            { field: 'user.siteIds', operator: 'contains', value: { ref: 'resource.metadata.siteId' } }
+          ]
+        }
+      }
+    }
+  };
+
+  const context = (overrides = {}) => ({
+    user: { userId: 'u1', tenantId: 'tenant-123', roles: ['inspector'], siteIds: ['site-a'] },
+    ipAddress: '10.1.2.3',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    AccessPolicyService.clear();
+    AccessPolicyService.register(tenant);
+  });
+
+  it('lets deny policies override granted permissions', async () => {
+    const decision = await AccessPolicyService.checkPermission(
+      context({ action: 'write', resource: { type: 'inspection' }, ipAddress: '192.168.1.5' }),
+      ['inspection.*']
+    );
+
+    expect(decision).toMatchObject({
+      granted: false,
+      reason: "Access denied: Policy 'office-network-only'",
+      matchedPolicy: { id: 'office-network-only', effect: 'deny' }
+    });
+  });
+
+  it('evaluates the conditions of a granted permission', async () => {
+    const approve = siteId => AccessPolicyService.checkPermission(
+      context({ action: 'approve', resource: { type: 'inspection', metadata: { siteId } } }),
+      ['inspection.approve']
+    );
+
+    expect((await approve('site-a')).granted).toBe(true);
+    await expect(approve('site-b')).resolves.toMatchObject({
+      granted: false,
+      reason: "Access denied: Condition on 'user.siteIds' not met",
+      conditions: [expect.objectContaining({ field: 'user.siteIds' })]
+    });
+  });
+
+  it('grants through allow policies only when their condition holds', async () => {
+    const read = roles => AccessPolicyService.checkPermission(
+      context({ user: { userId: 'u1', tenantId: 'tenant-123', roles }, action: 'read', resource: { type: 'asset' } }),
+      []
+    );
+
+    await expect(read(['site_lead'])).resolves.toMatchObject({
+      granted: true,
+      matchedPolicy: { id: 'site-leads-read-assets', effect: 'allow' }
+    });
+    expect((await read(['inspector'])).granted).toBe(false);
+  });
+});
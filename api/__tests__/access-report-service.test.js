@@ -0,0 +1,80 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const AccessReportService = require('../services/AccessReportService');
+const AccessPolicyService = require('../core/AccessPolicyService');
+const { resolveEffectivePermissions } = require('../core/PermissionResolver');
+
+describe('AccessReportService', () => {
+  const tenantRoles = [
+    { id: 'r1', name: 'viewer', permissions: ['asset.read'], inherits: [], excludes: [] },
+    { id: 'r2', name: 'inspector', permissions: ['inspection.*'], inherits: ['viewer'], excludes: [] },
+    { id: 'r3', name: 'contractor', permissions: [], inherits: ['inspector'], excludes: ['inspection.delete'] }
+  ];
+
+  it('resolves inherited permissions with their origin', () => {
+    const report = resolveEffectivePermissions([tenantRoles[1]], tenantRoles);
+
+    expect(report.permissions).toEqual([
+      { permission: 'asset.read', origins: [{ role: 'inspector', roleId: 'r2', via: ['inspector', 'viewer'] }] },
+      { permission: 'inspection.*', origins: [{ role: 'inspector', roleId: 'r2', via: ['inspector'] }] }
+    ]);
+  });
+
+  beforeEach(() => {
+    AccessPolicyService.clear();
+  });
+
+  it('evaluates checks like RBACService', async () => {
+    const base = { user: { tenantId: 't1' }, permissions: ['inspection.*'], isExternalCustomer: false };
+
+    expect((await AccessReportService.evaluate({ ...base, action: 'write', resource: { type: 'inspection' } })).granted).toBe(true);
+    expect((await AccessReportService.evaluate({ ...base, action: 'read', resource: { type: 'asset' } })).reason)
+      .toBe("Access denied: Missing permission 'asset.read'");
+    expect((await AccessReportService.evaluate({
+      ...base,
+      action: 'write',
+      resource: { type: 'inspection', tenantId: 't2' }
+    })).granted).toBe(false);
+    expect((await AccessReportService.evaluate({
+      ...base,
+      isExternalCustomer: true,
+      action: 'write',
+      resource: { type: 'inspection' },
+      route: '/admin'
+    })).reason).toBe('Access denied: Route restricted for external customers');
+  });
+
+  it('simulates with the tenant access policies and tolerates a missing draft list', async () => {
+    AccessPolicyService.register({
+      id: 't1',
+      settings: {
+        accessControl: {
+          policies: [{
+            id: 'own-sites-only',
+            effect: 'deny',
+            permissions: ['inspection.*'],
+            condition: { not: { field: 'resource.metadata.siteId', operator: 'in', value: { ref: 'user.siteIds' } } }
+          }]
+        }
+      }
+    });
+    jest.spyOn(AccessReportService, 'loadUserAccess').mockResolvedValue({
+      user: { _id: 'u1', userId: 'jdoe', siteIds: ['site-a'] },
+      assignedRoles: [tenantRoles[1]],
+      tenantRoles
+    });
+    const simulate = siteId => AccessReportService.simulate({
+      userId: 'jdoe',
+      tenantId: 't1',
+      action: 'write',
+      resource: { type: 'inspection', tenantId: 't1', metadata: { siteId } },
+      roleDrafts: null
+    });
+
+    expect((await simulate('site-a')).decision).toMatchObject({ granted: true, evaluatedPolicies: ['own-sites-only'] });
+    expect((await simulate('site-b')).decision).toMatchObject({
+      granted: false,
+      matchedPolicy: { id: 'own-sites-only', effect: 'deny' }
+    });
+  });
+});
@@ -0,0 +1,156 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const AIGatewayService = require('../services/AIGatewayService');
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
+const AIUsage = require('../models/AIUsage');
+const { TenantUsageMonitor } = require('../core/TenantUsageMonitoring');
+
+describe('AIGatewayService', () => {
+  const user = { userId: 'u1', tenantId: 't1', tenantSlug: 'acme' };
+  const policy = {
+    features: ['wizard', 'chatbot'],
+    defaults: { allowedModels: ['gpt-4o-mini', 'gpt-5*'], monthlyTokenLimit: 1000, requestsPerMinute: 2, maxImagesPerRequest: 1 },
+    tenants: { acme: { allowedModels: ['gpt-4o-mini'] } },
+    redaction: {
+      fields: ['password'],
+      patterns: [{ name: 'email', pattern: '[a-z.]+@[a-z.]+\\.[a-z]{2,}', replacement: '[REDACTED_EMAIL]' }]
+    }
+  };
+
+  let usage;
+
+  beforeEach(() => {
+    AIGatewayService.setPolicyConfig(policy);
+    usage = { tokens: 0, requests: 0 };
+    jest.spyOn(AIGatewayService, 'getMonthlyUsage').mockImplementation(async () => usage);
+    jest.spyOn(AIUsage, 'create').mockResolvedValue({});
+    jest.spyOn(TenantUsageMonitor, 'trackAIUsage').mockResolvedValue();
+  });
+
+  afterAll(() => {
+    AIGatewayService.setPolicyConfig(null);
+  });
+
+  it('applies tenant overrides to the model allow-list, image limit and request rate', async () => {
+    expect(AIGatewayService.isModelAllowed(AIGatewayService.getTenantPolicy({ tenantId: 'other' }), 'gpt-5-nano')).toBe(true);
+    await expect(AIGatewayService.prepare(user, { model: 'gpt-5-nano' })).rejects.toMatchObject({ statusCode: 403 });
+
+    const twoImages = { model: 'gpt-4o-mini', input: [{ role: 'user', content: [{ type: 'input_image' }, { type: 'input_image' }] }] };
+    await expect(AIGatewayService.prepare(user, twoImages)).rejects.toMatchObject({ statusCode: 400 });
+
+    await AIGatewayService.prepare(user, { model: 'gpt-4o-mini' });
+    await AIGatewayService.prepare(user, { model: 'gpt-4o-mini' });
+    await expect(AIGatewayService.prepare(user, { model: 'gpt-4o-mini' })).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+
+    usage = { tokens: 1000, requests: 3 };
+    AIGatewayService.setPolicyConfig(policy);
+    await expect(AIGatewayService.prepare(user, { model: 'gpt-4o-mini' })).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED', details: { used: 1000, limit: 1000 } });
+  });
+
+  it('redacts sensitive fields and patterns without touching images or model names', () => {
+    const { value, count } = AIGatewayService.redact({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'user', content: 'Mail ina@example.com the report. Data: {"password": "hunter2", "asset": "V-101"}' },
+        { role: 'user', content: [{ type: 'input_image', image_url: 'data:image/png;base64,ina@example.com' }] }
+      ],
+      context: { password: 'hunter2', inspector: 'Ina' }
+    });
+
+    expect(count).toBe(3);
+    expect(value.messages[0].content).toBe('Mail [REDACTED_EMAIL] the report. Data: {"password": "[REDACTED]", "asset": "V-101"}');
+    expect(value.messages[1].content[0].image_url).toBe('data:image/png;base64,ina@example.com');
+    expect(value.context).toEqual({ password: '[REDACTED]', inspector: 'Ina' });
+  });
+
+  it('forwards the redacted payload and records token usage per tenant and user', async () => {
+    const create = jest.fn(async () => ({ choices: [{ message: { content: 'ok' } }], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } }));
+    jest.spyOn(AIProviderRegistry, 'getProvider').mockReturnValue({ chat: create });
+
+    const result = await AIGatewayService.chatCompletion(user, {
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Contact ina@example.com' }]
+    }, { feature: 'wizard' });
+
+    expect(result.choices[0].message.content).toBe('ok');
+    expect(create).toHaveBeenCalledWith({
+      model: 'gpt-4o-mini',
+      stream: false,
+      messages: [{ role: 'user', content: 'Contact [REDACTED_EMAIL]' }]
+    });
+    expect(AIUsage.create).toHaveBeenCalledWith(expect.objectContaining({
+      tenantId: 't1',
+      userId: 'u1',
+      endpoint: 'chat/completions',
+      model: 'gpt-4o-mini',
+      feature: 'wizard',
+      promptTokens: 12,
+      completionTokens: 3,
+      totalTokens: 15,
+      redactions: 1,
+      status: 'success'
+    }));
+    expect(TenantUsageMonitor.trackAIUsage).toHaveBeenCalledWith('t1', { feature: 'wizard', model: 'gpt-4o-mini', totalTokens: 15 });
+
+    await AIGatewayService.chatCompletion(user, { model: 'gpt-4o-mini', messages: [] }, { feature: 'unknown' });
+    expect(AIUsage.create).toHaveBeenLastCalledWith(expect.objectContaining({ feature: 'other' }));
+  });
+
+  it('warns past the budget warning threshold and stops at the hard-stop threshold', async () => {
+    AIGatewayService.setPolicyConfig({
+      ...policy,
+      defaults: { ...policy.defaults, monthlyRequestLimit: 100, budget: { warningPercent: 80, hardStopPercent: 110 } }
+    });
+    const onBudget = jest.fn();
+    jest.spyOn(AIProviderRegistry, 'getProvider').mockReturnValue({ chat: async () => ({ choices: [], usage: {} }) });
+
+    usage = { tokens: 500, requests: 10 };
+    await AIGatewayService.chatCompletion(user, { model: 'gpt-4o-mini', messages: [] }, { onBudget });
+    expect(onBudget).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'ok', percent: 50 }));
+
+    usage = { tokens: 850, requests: 10 };
+    await AIGatewayService.chatCompletion(user, { model: 'gpt-4o-mini', messages: [] }, { onBudget });
+    expect(onBudget).toHaveBeenLastCalledWith(expect.objectContaining({
+      status: 'warning',
+      percent: 85,
+      tokens: { used: 850, limit: 1000, percent: 85 },
+      requests: { used: 10, limit: 100, percent: 10 }
+    }));
+
+    // Over the limit but under the hard stop: still allowed
+    usage = { tokens: 1050, requests: 10 };
+    await expect(AIGatewayService.checkBudget(user)).resolves.toMatchObject({ status: 'warning', percent: 105 });
+
+    usage = { tokens: 10, requests: 110 };
+    await expect(AIGatewayService.chatCompletion(user, { model: 'gpt-4o-mini', messages: [] }, { onBudget })).rejects.toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      message: 'Monthly AI request budget reached for this tenant',
+      details: { used: 110, limit: 100, budget: { status: 'exceeded' } }
+    });
+    expect(onBudget).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports usage per tenant, user, feature and model for billing export', async () => {
+    const aggregate = jest.spyOn(AIUsage, 'aggregate').mockResolvedValue([
+      { _id: { tenantId: 't1', userId: 'u1', feature: 'wizard', model: 'gpt-5' }, requests: 3, errors: 1, promptTokens: 90, completionTokens: 30, totalTokens: 120 },
+      { _id: { tenantId: 't1', feature: 'column-mapping', model: 'gpt-4o-mini' }, requests: 1, errors: 0, promptTokens: 8, completionTokens: 2, totalTokens: 10 }
+    ]);
+
+    const rows = await AIGatewayService.getUsageReport({ period: '2026-02', tenantId: 't1' });
+
+    expect(aggregate.mock.calls[0][0][0].$match).toEqual({
+      tenantId: 't1',
+      createdAt: { $gte: new Date('2026-02-01T00:00:00.000Z'), $lt: new Date('2026-03-01T00:00:00.000Z') }
+    });
+    expect(rows[1]).toEqual({
+      period: '2026-02', tenantId: 't1', userId: '', feature: 'column-mapping', model: 'gpt-4o-mini',
+      requests: 1, errors: 0, promptTokens: 8, completionTokens: 2, totalTokens: 10
+    });
+    expect(AIGatewayService.toCsv(rows).split('\n')).toEqual([
+      '"period","tenantId","userId","feature","model","requests","errors","promptTokens","completionTokens","totalTokens"',
+      '"2026-02","t1","u1","wizard","gpt-5",3,1,90,30,120',
+      '"2026-02","t1","","column-mapping","gpt-4o-mini",1,0,8,2,10'
+    ]);
+    await expect(AIGatewayService.getUsageReport({ period: '2026-13' })).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,99 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
+const MockAIProvider = require('../providers/MockAIProvider');
+const OpenAIProvider = require('../providers/OpenAIProvider');
+
+describe('AI providers', () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  beforeEach(() => {
+    delete process.env.AI_PROVIDER;
+    AIProviderRegistry.setConfig({
+      default: 'openai',
+      definitions: { openai: { type: 'openai' }, mock: { type: 'mock' } },
+      tenants: { acme: 'mock' }
+    });
+  });
+
+  afterAll(() => {
+    if (originalProvider === undefined) delete process.env.AI_PROVIDER;
+    else process.env.AI_PROVIDER = originalProvider;
+    AIProviderRegistry.setConfig(null);
+  });
+
+  it('selects the provider per tenant, with AI_PROVIDER overriding every tenant', () => {
+    expect(AIProviderRegistry.getProvider({ tenantSlug: 'acme' })).toBeInstanceOf(MockAIProvider);
+    expect(AIProviderRegistry.getProvider({ tenantSlug: 'other' })).toBeInstanceOf(OpenAIProvider);
+    expect(AIProviderRegistry.getProvider({ tenantSlug: 'acme' })).toBe(AIProviderRegistry.getProvider({ tenantSlug: 'acme' }));
+
+    process.env.AI_PROVIDER = 'mock';
+    expect(AIProviderRegistry.getProvider({ tenantSlug: 'other' })).toBeInstanceOf(MockAIProvider);
+
+    process.env.AI_PROVIDER = 'missing';
+    expect(() => AIProviderRegistry.getProvider()).toThrow('Unknown AI provider type: missing');
+  });
+
+  it('answers chat, vision and JSON requests from recorded fixtures deterministically', async () => {
+    const provider = new MockAIProvider({ name: 'mock' });
+    const chatParams = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'How is the vessel?' }] };
+
+    const first = await provider.chat(chatParams);
+    const second = await provider.chat(chatParams);
+    expect(first).toEqual(second);
+    expect(first.id).toMatch(/^mock_/);
+    expect(first.choices[0].message.content).toMatch(/fair condition/);
+    expect(first.usage).toEqual({ prompt_tokens: 5, completion_tokens: expect.any(Number), total_tokens: expect.any(Number) });
+
+    const vision = await provider.respond({
+      model: 'gpt-5',
+      input: [{ role: 'user', content: [{ type: 'input_text', text: 'Describe' }, { type: 'input_image', image_url: 'data:image/png;base64,AA' }] }]
+    });
+    expect(vision.output_text).toMatch(/surface corrosion/);
+
+    const populate = await provider.respond({ model: 'gpt-5', input: 'Fill the form', text: { format: { type: 'json_object' } } });
+    expect(JSON.parse(populate.output_text).overallCondition).toBe('Fair');
+
+    const rows = await provider.chat({
+      model: 'gpt-4o-mini',
+      response_format: { type: 'json_object' },
+      messages: [{ role: 'user', content: 'Build rows from selected_recommendations' }]
+    });
+    expect(JSON.parse(rows.choices[0].message.content).rows).toHaveLength(2);
+
+    expect(await provider.transcribe({ model: 'whisper-1', file: { filename: 'a.webm' }, response_format: 'text' })).toMatch(/^Inspection of vessel/);
+
+    provider.setFixtures({ fixtures: [] });
+    await expect(provider.chat(chatParams)).rejects.toThrow('No mock AI fixture matches this chat request');
+  });
+
+  it('streams fixture text and returns similarity-preserving embeddings', async () => {
+    const provider = new MockAIProvider({ name: 'mock', embeddingDimensions: 64 });
+
+    const events = [];
+    for await (const event of await provider.respondStream({ model: 'gpt-5', input: 'Summarize' })) {
+      events.push(event);
+    }
+    expect(events[0].type).toBe('response.created');
+    expect(events[events.length - 1].type).toBe('response.completed');
+    const text = events.filter(event => event.type === 'response.output_text.delta').map(event => event.delta).join('');
+    expect(text).toBe(events[events.length - 1].response.output_text);
+    expect(events[events.length - 1].response.usage.total_tokens).toBeGreaterThan(0);
+
+    const chunks = [];
+    for await (const chunk of await provider.chatStream({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] })) {
+      chunks.push(chunk);
+    }
+    expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('stop');
+
+    const { data } = await provider.embed({
+      model: 'text-embedding-3-small',
+      input: ['corrosion on the bottom head', 'bottom head corrosion', 'pump seal leak']
+    });
+    const dot = (a, b) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+    expect(data[0].embedding).toHaveLength(64);
+    expect(dot(data[0].embedding, data[0].embedding)).toBeCloseTo(1);
+    expect(dot(data[0].embedding, data[1].embedding)).toBeGreaterThan(dot(data[0].embedding, data[2].embedding));
+    expect((await provider.embed({ input: 'bottom head corrosion' })).data[0].embedding).toEqual(data[1].embedding);
+  });
+});
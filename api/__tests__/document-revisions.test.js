@@ -0,0 +1,57 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const DocumentRepository = require('../repositories/DocumentRepository');
+const TenantContext = require('../core/TenantContext');
+
+const query = (value) => ({ lean: () => ({ exec: async () => value }) });
+
+/**
+ * Minimal in-memory stand-in for the Document model (findOne / findOneAndUpdate)
+ */
+const createModel = (stored) => ({
+  modelName: 'Document',
+  findOne: jest.fn(() => query(stored.current)),
+  findOneAndUpdate: jest.fn((filter, change) => {
+    const revision = stored.current.revision ?? null;
+    if (filter.revision !== revision) return query(null);
+    stored.current = { ...stored.current, ...change.$set, revision: (stored.current.revision || 0) + change.$inc.revision };
+    return query(stored.current);
+  })
+});
+
+describe('DocumentRepository revisions', () => {
+  const context = new TenantContext({ userId: 'u1', tenantId: 't1' });
+
+  const createRepository = (current) => {
+    const stored = { current };
+    const repository = new DocumentRepository(context, 'inspection');
+    repository.model = createModel(stored);
+    return { repository, stored };
+  };
+
+  it('increments the revision on every update and ignores client-supplied revisions', async () => {
+    const { repository } = createRepository({ id: 'd1', type: 'inspection', name: 'A', revision: 3 });
+
+    const updated = await repository.update('d1', { name: 'B', revision: 99 }, { expectedRevision: 3 });
+
+    expect(updated).toMatchObject({ name: 'B', revision: 4 });
+  });
+
+  it('rejects a stale revision with the current copy', async () => {
+    const { repository } = createRepository({ id: 'd1', type: 'inspection', name: 'Server', revision: 5 });
+
+    await expect(repository.update('d1', { name: 'Local' }, { expectedRevision: 4 })).rejects.toMatchObject({
+      statusCode: 409,
+      details: { expectedRevision: 4, currentRevision: 5, current: { name: 'Server' } }
+    });
+  });
+
+  it('treats documents saved before revisions as revision 0', async () => {
+    const { repository, stored } = createRepository({ id: 'd1', type: 'inspection', name: 'Legacy' });
+
+    await expect(repository.update('d1', { name: 'New' }, { expectedRevision: 0 })).resolves.toMatchObject({ revision: 1 });
+    expect(stored.current.revision).toBe(1);
+    // Without an expected revision the update is unconditional
+    await expect(repository.update('d1', { name: 'Newer' })).resolves.toMatchObject({ revision: 2 });
+  });
+});
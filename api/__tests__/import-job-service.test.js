@@ -0,0 +1,161 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+jest.mock('../core/SchemaValidator', () => ({
+  validateDocumentWithContext: jest.fn(async (type, data) => data)
+}));
+
+const { validateDocumentWithContext } = require('../core/SchemaValidator');
+const ImportJobService = require('../services/ImportJobService');
+const DocumentRepository = require('../repositories/DocumentRepository');
+const ImportJobRepository = require('../repositories/ImportJobRepository');
+const TenantContext = require('../core/TenantContext');
+
+describe('ImportJobService', () => {
+  const tenantContext = new TenantContext({ userId: 'u1', tenantId: 't1' });
+
+  const input = {
+    documentType: 'asset',
+    updateKey: 'asset_tag',
+    rows: [
+      { company_name: 'Acme', site_name: 'North Plant', asset_group_name: 'Unit 1', asset_name: 'Feed pump', asset_type: 'Pump' },
+      { company_name: 'Acme', site_name: 'North Plant', asset_group_name: 'Unit 1', asset_name: 'Spare pump', asset_type: 'Pump' },
+      { site_id: 'site_1', asset_tag: 'P-100', asset_name: 'Renamed' }
+    ]
+  };
+
+  const existingAsset = { id: 'asset_1', asset_tag: 'P-100', name: 'Old name' };
+
+  beforeEach(() => {
+    validateDocumentWithContext.mockImplementation(async (type, data) => data);
+    jest.spyOn(DocumentRepository.prototype, 'findOne')
+      .mockImplementation(async filters => (filters.asset_tag === 'P-100' ? existingAsset : null));
+    jest.spyOn(DocumentRepository.prototype, 'find').mockResolvedValue([]);
+  });
+
+  it('plans creates, updates and row errors in a dry run without writing', async () => {
+    const create = jest.spyOn(DocumentRepository.prototype, 'create');
+    const update = jest.spyOn(DocumentRepository.prototype, 'update');
+    validateDocumentWithContext.mockImplementation(async (type, data) => {
+      if (data.name === 'Renamed') {
+        throw Object.assign(new Error('Invalid'), { errors: [{ path: ['name'], message: 'Expected string' }] });
+      }
+      return data;
+    });
+
+    const plan = await ImportJobService.dryRun(tenantContext, input);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+    expect(plan).toMatchObject({
+      total: 3,
+      created: 2,
+      updated: 0,
+      skipped: 0,
+      failed: 1,
+      related: { company: 1, site: 1, asset_group: 1 }
+    });
+    expect(plan.actions.map(({ row, action, type, label }) => [row, action, type, label])).toEqual([
+      [2, 'create', 'company', 'Acme'],
+      [2, 'create', 'site', 'North Plant'],
+      [2, 'create', 'asset_group', 'Unit 1'],
+      [2, 'create', 'asset', 'Feed pump'],
+      [3, 'create', 'asset', 'Spare pump']
+    ]);
+    expect(validateDocumentWithContext).toHaveBeenCalledWith('asset', expect.objectContaining({
+      asset_tag: 'ACME-NORTH_PLAN-UNIT-1-PUMP-0002',
+      company_id: expect.stringMatching(/^comp_/),
+      asset_group_id: expect.any(String)
+    }), {});
+    expect(plan.errors).toEqual([
+      { row: 4, column: 'asset_name', error: 'Expected string', value: 'Renamed', severity: 'error' }
+    ]);
+  });
+
+  it('stamps created documents with the batch id, keeps overwritten values and publishes progress', async () => {
+    const create = jest.spyOn(DocumentRepository.prototype, 'create').mockImplementation(async data => data);
+    const update = jest.spyOn(DocumentRepository.prototype, 'update')
+      .mockImplementation(async (id, changes) => ({ id, ...changes }));
+    const saveProgress = jest.spyOn(ImportJobRepository.prototype, 'saveProgress').mockResolvedValue();
+    const events = [];
+    const unsubscribe = ImportJobService.subscribe('import_1', event => events.push(event));
+
+    const request = ImportJobService.normalize(input);
+    await ImportJobService.execute(tenantContext, { id: 'import_1', documentType: 'asset', total: 3 }, request);
+    unsubscribe();
+
+    expect(create).toHaveBeenCalledTimes(5);
+    create.mock.calls.forEach(([doc]) => expect(doc.importBatchId).toBe('import_1'));
+    expect(update).toHaveBeenCalledWith('asset_1', { asset_tag: 'P-100', name: 'Renamed', site_id: 'site_1' });
+    expect(saveProgress).toHaveBeenLastCalledWith('import_1', expect.objectContaining({
+      status: 'completed',
+      created: 2,
+      updated: 1,
+      updates: [{ type: 'asset', id: 'asset_1', previous: { asset_tag: 'P-100', name: 'Old name', site_id: null } }]
+    }));
+    expect(events.map(event => [event.type, event.job.processed])).toEqual([
+      ['progress', 1], ['progress', 2], ['progress', 3], ['completed', 3]
+    ]);
+  });
+
+  it('rolls back a finished import for the user who started it', async () => {
+    const job = {
+      id: 'import_1',
+      userId: 'u1',
+      documentType: 'asset',
+      status: 'completed',
+      updates: [{ type: 'asset', id: 'asset_1', previous: { name: 'Old name' } }]
+    };
+    const findById = jest.spyOn(ImportJobRepository.prototype, 'findById').mockResolvedValue(job);
+    const saveProgress = jest.spyOn(ImportJobRepository.prototype, 'saveProgress').mockResolvedValue();
+    DocumentRepository.prototype.find.mockImplementation(async function (filters) {
+      expect(filters).toEqual({ importBatchId: 'import_1' });
+      return this.documentType === 'asset' ? [{ id: 'asset_2' }, { id: 'asset_3' }] : [{ id: `${this.documentType}_1` }];
+    });
+    const deleted = [];
+    jest.spyOn(DocumentRepository.prototype, 'delete').mockImplementation(async id => deleted.push(id));
+    const update = jest.spyOn(DocumentRepository.prototype, 'update').mockResolvedValue({});
+
+    const result = await ImportJobService.rollback(tenantContext, 'import_1');
+
+    expect(deleted).toEqual(['asset_2', 'asset_3', 'asset_group_1', 'site_1', 'company_1']);
+    expect(update).toHaveBeenCalledWith('asset_1', { name: 'Old name' });
+    expect(result).toMatchObject({ status: 'rolled_back', rollback: { deleted: 5, restored: 1, by: 'u1' } });
+    expect(saveProgress).toHaveBeenCalledWith('import_1', expect.objectContaining({ status: 'rolled_back' }));
+
+    findById.mockResolvedValueOnce({ ...job, status: 'rolled_back' });
+    await expect(ImportJobService.rollback(tenantContext, 'import_1')).rejects.toMatchObject({ statusCode: 409 });
+    findById.mockResolvedValueOnce({ ...job, userId: 'u2' });
+    await expect(ImportJobService.rollback(tenantContext, 'import_1')).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('fails a running job that stopped saving progress so it can be rolled back', async () => {
+    const job = {
+      id: 'import_2',
+      userId: 'u1',
+      documentType: 'asset',
+      status: 'running',
+      last_updated: new Date(Date.now() - 60 * 60 * 1000),
+      updates: [{ type: 'asset', id: 'asset_1', previous: { name: 'Old name' } }]
+    };
+    const findById = jest.spyOn(ImportJobRepository.prototype, 'findById').mockResolvedValue(job);
+    const saveProgress = jest.spyOn(ImportJobRepository.prototype, 'saveProgress').mockResolvedValue();
+    jest.spyOn(DocumentRepository.prototype, 'delete').mockResolvedValue(true);
+    const update = jest.spyOn(DocumentRepository.prototype, 'update').mockResolvedValue({});
+
+    await expect(ImportJobService.getJob(tenantContext, 'import_2')).resolves.toMatchObject({ status: 'failed' });
+    expect(saveProgress).toHaveBeenCalledWith('import_2', expect.objectContaining({ status: 'failed' }));
+
+    const result = await ImportJobService.rollback(tenantContext, 'import_2');
+    expect(update).toHaveBeenCalledWith('asset_1', { name: 'Old name' });
+    expect(result.status).toBe('rolled_back');
+
+    // Progress saved recently: the job is still running somewhere
+    findById.mockResolvedValueOnce({ ...job, last_updated: new Date() });
+    await expect(ImportJobService.rollback(tenantContext, 'import_2')).rejects.toThrow('The import is still running');
+  });
+
+  it('rejects malformed import requests', () => {
+    expect(() => ImportJobService.normalize({ rows: [{}] })).toThrow('documentType is required');
+    expect(() => ImportJobService.normalize({ documentType: 'asset', rows: [] })).toThrow('rows must be a non-empty array');
+    expect(() => ImportJobService.normalize({ documentType: 'asset', rows: [['a']] })).toThrow('Each row must be an object');
+  });
+});
@@ -0,0 +1,85 @@
+const Fastify = require('fastify');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const mockFindById = jest.fn();
+const mockUpdate = jest.fn();
+
+jest.mock('../repositories/DocumentRepository', () => {
+  return jest.fn().mockImplementation(() => ({
+    findById: mockFindById,
+    update: mockUpdate
+  }));
+});
+
+jest.mock('../core/SchemaValidator', () => ({
+  validateDocumentWithContext: jest.fn(async (type, data) => data)
+}));
+
+describe('PUT /api/documents/:id for inspections', () => {
+  let app;
+  let token;
+  let InspectionLifecycleService;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+    InspectionLifecycleService = require('../services/InspectionLifecycleService');
+    const registerDocumentRoutes = require('../routes/documents');
+
+    app = Fastify();
+    await app.register(async (instance) => {
+      await registerDocumentRoutes(instance);
+    }, { prefix: '/api' });
+    await app.ready();
+
+    token = jwt.sign({ userId: 'user-123', tenantId: 'tenant-123', roles: ['inspector'] }, process.env.JWT_SECRET);
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(() => {
+    mockFindById.mockReset();
+    mockUpdate.mockReset();
+    jest.spyOn(InspectionLifecycleService, 'resolveActor').mockResolvedValue({
+      userId: 'user-123',
+      roles: ['inspector'],
+      permissions: ['inspection.write']
+    });
+  });
+
+  const put = (body) => request(app.server)
+    .put('/api/documents/i1')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ type: 'inspection', ...body });
+
+  it('drops lifecycle fields and guards the write with the revision that was read', async () => {
+    mockFindById.mockResolvedValue({ id: 'i1', type: 'inspection', status: 'in_progress', revision: 4 });
+    mockUpdate.mockImplementation(async (id, changes) => ({ id, ...changes, revision: 5 }));
+
+    const response = await put({
+      notes: 'Shell thickness checked',
+      status: 'approved',
+      locked: true,
+      statusHistory: [{ to: 'approved' }]
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockUpdate).toHaveBeenCalledWith('i1', { notes: 'Shell thickness checked' }, { expectedRevision: 4 });
+  });
+
+  it('rejects updates to a locked inspection', async () => {
+    mockFindById.mockResolvedValue({ id: 'i1', type: 'inspection', status: 'approved', locked: true, revision: 7 });
+
+    const response = await put({ notes: 'Late edit', revision: 7 });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({ success: false, code: 'CONFLICT' });
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
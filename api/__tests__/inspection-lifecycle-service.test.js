@@ -0,0 +1,62 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const InspectionLifecycleService = require('../services/InspectionLifecycleService');
+
+describe('InspectionLifecycleService', () => {
+  const lifecycle = InspectionLifecycleService.getLifecycle('pressure_vessel');
+  const inspector = { userId: 'u1', name: 'Ina', roles: ['inspector'], permissions: ['inspection.write'] };
+  const reviewer = { userId: 'u2', name: 'Rex', roles: ['reviewer'], permissions: ['inspection.*'] };
+  const completed = {
+    id: 'i1',
+    status: 'completed',
+    inspectionDate: '2026-01-10',
+    inspectorName: 'Ina',
+    formData: { assetId: 'V-101' }
+  };
+
+  it('selects the lifecycle by inspection type and lists the transitions a user can run', () => {
+    expect(lifecycle.id).toBe('api-510');
+    expect(InspectionLifecycleService.getLifecycle('unknown').id).toBe('standard');
+
+    expect(InspectionLifecycleService.getAvailableTransitions(lifecycle, completed, inspector)).toEqual([]);
+    expect(InspectionLifecycleService.getAvailableTransitions(lifecycle, completed, reviewer).map(t => t.id))
+      .toEqual(['return', 'request_engineering_review', 'approve']);
+    // Required fields hide submit until they are filled in
+    expect(InspectionLifecycleService.getAvailableTransitions(lifecycle, { status: 'in_progress' }, inspector))
+      .toEqual([]);
+  });
+
+  it('records the transition, applies the lock and rejects invalid requests', () => {
+    const { entry, updates } = InspectionLifecycleService.applyTransition(lifecycle, completed, 'approve', reviewer, {
+      comment: ' Looks good ',
+      signature: 'Rex'
+    });
+
+    expect(entry).toMatchObject({ transition: 'approve', from: 'completed', to: 'approved', by: 'u2', byName: 'Rex', comment: 'Looks good', signature: 'Rex' });
+    expect(updates).toMatchObject({ status: 'approved', lifecycleId: 'api-510', locked: true, lockedBy: 'u2' });
+    expect(updates.statusHistory).toEqual([entry]);
+
+    expect(() => InspectionLifecycleService.applyTransition(lifecycle, completed, 'approve', reviewer, {}))
+      .toThrow('A signature is required');
+    expect(() => InspectionLifecycleService.applyTransition(lifecycle, completed, 'approve', inspector, { signature: 'Ina' }))
+      .toThrow(expect.objectContaining({ statusCode: 403 }));
+    expect(() => InspectionLifecycleService.applyTransition(lifecycle, { ...completed, status: 'draft' }, 'approve', reviewer, { signature: 'Rex' }))
+      .toThrow(expect.objectContaining({ statusCode: 409 }));
+  });
+
+  it('applies automatic transitions from regular updates and protects locked documents', () => {
+    const inProgress = { ...completed, status: 'in_progress', statusHistory: [] };
+    const submitted = InspectionLifecycleService.prepareUpdate(lifecycle, inProgress, { status: 'completed', locked: false, progress: 100 }, inspector);
+
+    expect(submitted.transition.id).toBe('submit');
+    expect(submitted.updates).toMatchObject({ status: 'completed', progress: 100 });
+    expect(submitted.updates.statusHistory).toHaveLength(1);
+    expect(submitted.updates.locked).toBeUndefined();
+
+    // No automatic transition leads back to in_progress, so the status is left alone
+    expect(InspectionLifecycleService.prepareUpdate(lifecycle, completed, { status: 'in_progress', progress: 90 }, inspector))
+      .toEqual({ updates: { progress: 90 }, transition: null });
+    expect(() => InspectionLifecycleService.prepareUpdate(lifecycle, { ...completed, status: 'approved', locked: true }, {}, reviewer))
+      .toThrow('Inspection is locked in Approved');
+  });
+});
@@ -0,0 +1,180 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const fs = require('fs');
+const path = require('path');
+
+const SemanticMetricsService = require('../services/SemanticMetricsService');
+const DocumentRepository = require('../repositories/DocumentRepository');
+const ExecutionRepository = require('../repositories/ExecutionRepository');
+const TenantContext = require('../core/TenantContext');
+
+const WORKSPACES_DIR = path.join(__dirname, '../../public/data/workspaces');
+
+/**
+ * Metric queries made by the KPI and chart gadgets of a workspace definition
+ */
+function workspaceQueries(workspace) {
+  return (workspace.gadgets || []).flatMap(gadget => {
+    const config = gadget.config || {};
+    const kpiMetrics = (config.kpis || []).filter(kpi => kpi.metric).map(kpi => kpi.metric);
+    const charts = (config.charts || []).filter(chart => chart.dataSource?.metrics);
+    return [
+      ...(kpiMetrics.length ? [{ metrics: kpiMetrics }] : []),
+      ...charts.map(({ dataSource: { metrics, dimensions, granularity, sort, limit } }) => ({ metrics, dimensions, granularity, sort, limit }))
+    ];
+  });
+}
+
+function workspaceFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return workspaceFiles(file);
+    return entry.name.endsWith('.json') ? [file] : [];
+  });
+}
+
+describe('SemanticMetricsService', () => {
+  const tenantContext = new TenantContext({ userId: 'u1', tenantId: 't1' });
+
+  it('compiles named metrics, dimensions and declared filters into a pipeline per source', () => {
+    const [inspections, assets] = SemanticMetricsService.compile({
+      metrics: ['inspection_compliance_rate', 'assets_overdue'],
+      dimensions: ['site'],
+      filters: { site_id: ['s1', 's2'], status: 'completed', unknown_filter: 'ignored' }
+    });
+
+    expect(inspections).toMatchObject({ source: 'inspections', documentType: 'inspection', metrics: ['inspection_compliance_rate'] });
+    expect(inspections.pipeline[0]).toEqual({ $match: { $and: [{ 'formData.siteId': { $in: ['s1', 's2'] } }, { status: 'completed' }] } });
+    expect(inspections.pipeline[1].$group).toMatchObject({
+      _id: { site: '$formData.siteId' },
+      m0: { $sum: { $cond: [{ $in: ['$status', ['completed', 'approved']] }, 1, 0] } },
+      m1: { $sum: 1 }
+    });
+    expect(inspections.pipeline[2].$project.inspection_compliance_rate).toEqual({
+      $cond: [{ $gt: ['$m1', 0] }, { $multiply: [{ $divide: ['$m0', '$m1'] }, 100] }, null]
+    });
+
+    expect(assets.documentType).toBe('asset');
+    expect(assets.pipeline[0]).toEqual({ $match: { site_id: { $in: ['s1', 's2'] } } });
+    expect(JSON.stringify(assets.pipeline)).not.toContain('unknown_filter');
+  });
+
+  it('only accepts catalog names and plain filter values', () => {
+    expect(() => SemanticMetricsService.compile({ metrics: [] })).toThrow('At least one metric is required');
+    expect(() => SemanticMetricsService.compile({ metrics: ['$where'] })).toThrow('Unknown metric: $where');
+    expect(() => SemanticMetricsService.compile({ metrics: ['inspection_count'], dimensions: ['asset_group'] }))
+      .toThrow('Dimension asset_group is not available for Inspections');
+    expect(() => SemanticMetricsService.compile({ metrics: ['inspection_count'], filters: { status: { $ne: null } } }))
+      .toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => SemanticMetricsService.compile({ metrics: ['inspection_count'], dimensions: ['month'], granularity: 'hour' }))
+      .toThrow('granularity must be one of');
+  });
+
+  it('runs each source through the tenant-scoped repository and merges rows by dimension', async () => {
+    const aggregate = jest.spyOn(DocumentRepository.prototype, 'aggregate')
+      .mockResolvedValueOnce([{ site: 's1', inspection_count: 4 }, { site: 's2', inspection_count: 1 }])
+      .mockResolvedValueOnce([{ site: 's1', assets_overdue: 2 }]);
+
+    const result = await SemanticMetricsService.query(tenantContext, {
+      metrics: ['inspection_count', 'assets_overdue'],
+      dimensions: ['site']
+    });
+
+    expect(aggregate).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      metrics: ['inspection_count', 'assets_overdue'],
+      dimensions: ['site'],
+      rows: [
+        { site: 's1', inspection_count: 4, assets_overdue: 2 },
+        { site: 's2', inspection_count: 1, assets_overdue: null }
+      ]
+    });
+
+    aggregate.mockResolvedValueOnce([]);
+    expect((await SemanticMetricsService.query(tenantContext, { metrics: ['inspection_count', 'inspection_avg_progress'] })).rows)
+      .toEqual([{ inspection_count: 0, inspection_avg_progress: null }]);
+  });
+
+  it('unwinds line items, looks up related documents of the tenant and buckets values', () => {
+    const [lines] = SemanticMetricsService.compile({
+      metrics: ['voc_emissions', 'paint_quantity'],
+      dimensions: ['voc_level'],
+      filters: { paint_spec_id: 'spec-1' }
+    });
+
+    expect(lines).toMatchObject({ source: 'paint_invoice_lines', documentType: 'paintInvoice' });
+    expect(lines.pipeline[0]).toEqual({ $unwind: '$lineItems' });
+    expect(lines.pipeline[1]).toEqual({ $match: { 'lineItems.paintSpecId': 'spec-1' } });
+    // Only the lookup the query uses, matched on id within the same tenant
+    expect(lines.pipeline.filter(stage => stage.$lookup)).toHaveLength(1);
+    expect(lines.pipeline[2].$lookup).toMatchObject({
+      from: 'documents',
+      let: { key: '$lineItems.paintSpecId', tenantId: '$tenantId' },
+      as: 'paintSpec'
+    });
+    expect(lines.pipeline[2].$lookup.pipeline[0].$match).toMatchObject({ type: 'paint_specifications', deleted: { $ne: true } });
+    expect(lines.pipeline[3]).toEqual({ $unwind: { path: '$paintSpec', preserveNullAndEmptyArrays: true } });
+
+    const level = lines.pipeline[4].$group._id.voc_level.$switch;
+    expect(level.branches.map(branch => branch.then)).toEqual(['Unknown VOC Content', 'Ultra Low-VOC (≤50 g/L)', 'Low-VOC (≤250 g/L)']);
+    expect(level.default).toBe('Standard VOC (>250 g/L)');
+    expect(JSON.stringify(lines.pipeline[4].$group)).toContain('0.0083444867');
+  });
+
+  it('only sorts by queried names and limits rows to a bounded count', () => {
+    expect(() => SemanticMetricsService.compile({ metrics: ['paint_quantity'], dimensions: ['paint_spec'], sort: { by: 'voc_emissions' } }))
+      .toThrow('sort.by must be one of the queried metrics or dimensions');
+    expect(() => SemanticMetricsService.compile({ metrics: ['paint_quantity'], sort: { by: 'paint_quantity', order: 'up' } }))
+      .toThrow('sort.order must be one of: asc, desc');
+    expect(() => SemanticMetricsService.compile({ metrics: ['paint_quantity'], limit: 5000 }))
+      .toThrow('limit must be a whole number from 1 to 1000');
+  });
+
+  it('sorts and limits rows after computing running totals over all of them', async () => {
+    jest.spyOn(DocumentRepository.prototype, 'aggregate').mockResolvedValueOnce([
+      { paint_spec: 'A', voc_emissions: 10, voc_emissions_cumulative_share: 10 },
+      { paint_spec: 'B', voc_emissions: 30, voc_emissions_cumulative_share: 30 },
+      { paint_spec: 'C', voc_emissions: 60, voc_emissions_cumulative_share: 60 }
+    ]);
+
+    const result = await SemanticMetricsService.query(tenantContext, {
+      metrics: ['voc_emissions', 'voc_emissions_cumulative_share'],
+      dimensions: ['paint_spec'],
+      sort: { by: 'voc_emissions', order: 'desc' },
+      limit: 2
+    });
+
+    expect(result.rows).toEqual([
+      { paint_spec: 'C', voc_emissions: 60, voc_emissions_cumulative_share: 60 },
+      { paint_spec: 'B', voc_emissions: 30, voc_emissions_cumulative_share: 90 }
+    ]);
+  });
+
+  it('reads allow-listed collections through their repository', async () => {
+    const [executions] = SemanticMetricsService.compile({ metrics: ['piping_execution_success_rate'] });
+    expect(executions).toMatchObject({ collection: 'executions', documentType: undefined });
+    expect(executions.pipeline[0]).toEqual({ $match: { $expr: { $eq: ['$workflowId', 'piping-inspection-workflow'] } } });
+
+    const documents = jest.spyOn(DocumentRepository.prototype, 'aggregate');
+    const aggregate = jest.spyOn(ExecutionRepository.prototype, 'aggregate')
+      .mockResolvedValueOnce([{ piping_execution_success_rate: 75 }]);
+
+    const result = await SemanticMetricsService.query(tenantContext, { metrics: ['piping_execution_success_rate'] });
+
+    expect(aggregate).toHaveBeenCalledWith(executions.pipeline);
+    expect(documents).not.toHaveBeenCalled();
+    expect(result.rows).toEqual([{ piping_execution_success_rate: 75 }]);
+  });
+
+  it('compiles every metric query of the shipped workspaces, which send no pipelines', () => {
+    const files = workspaceFiles(WORKSPACES_DIR);
+    const texts = files.map(file => fs.readFileSync(file, 'utf8'));
+    const queries = texts.flatMap(text => workspaceQueries(JSON.parse(text)));
+
+    expect(files.filter((file, index) => /aggregationConfig|\/api\/aggregation/.test(texts[index]))).toEqual([]);
+    expect(queries.length).toBeGreaterThan(40);
+    queries.forEach(query => {
+      expect(() => SemanticMetricsService.compile(query)).not.toThrow();
+    });
+  });
+});
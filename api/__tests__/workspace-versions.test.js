@@ -0,0 +1,126 @@
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'test-uuid') }));
+
+const Fastify = require('fastify');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+
+const registerWorkspaceRoutes = require('../routes/workspaces');
+const WorkspaceVersionRepository = require('../repositories/WorkspaceVersionRepository');
+const TenantContext = require('../core/TenantContext');
+const { DatabaseError } = require('../core/ErrorHandler');
+
+describe('Workspace versions', () => {
+  const duplicateKey = () => new DatabaseError('Failed to create WorkspaceVersion', {
+    originalError: 'E11000 duplicate key error collection: workspace_versions index: tenantId_1_workspaceId_1_version_-1'
+  });
+
+  let latest;
+  let create;
+
+  beforeEach(() => {
+    latest = 1;
+    // Every read sees the version a concurrent save just created
+    jest.spyOn(WorkspaceVersionRepository.prototype, 'find').mockImplementation(async () => [{ version: latest++ }]);
+    create = jest.spyOn(WorkspaceVersionRepository.prototype, 'create').mockImplementation(async data => data);
+  });
+
+  describe('createVersion', () => {
+    const repository = () => new WorkspaceVersionRepository(new TenantContext({ userId: 'u1', tenantId: 't1' }));
+
+    it('retries with the next version number when a concurrent save took it', async () => {
+      create.mockRejectedValueOnce(duplicateKey());
+
+      const created = await repository().createVersion('system-admin/bulk-operations', null);
+
+      expect(create.mock.calls.map(([data]) => data.version)).toEqual([2, 3]);
+      expect(created.version).toBe(3);
+    });
+
+    it('gives up with a conflict and passes other errors through', async () => {
+      create.mockRejectedValue(duplicateKey());
+      await expect(repository().createVersion('system-admin/bulk-operations', null)).rejects.toMatchObject({ statusCode: 409 });
+      expect(create).toHaveBeenCalledTimes(5);
+
+      create.mockReset().mockRejectedValue(new DatabaseError('Failed to create WorkspaceVersion', { originalError: 'timeout' }));
+      await expect(repository().createVersion('system-admin/bulk-operations', null)).rejects.toMatchObject({ statusCode: 503 });
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('routes', () => {
+    let app;
+
+    beforeAll(async () => {
+      app = Fastify();
+      await app.register(registerWorkspaceRoutes, { prefix: '/api/workspaces' });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    const token = () => jwt.sign({ userId: 'u1', tenantId: 't1', roles: ['tenant_admin'] }, process.env.JWT_SECRET);
+
+    it('rejects overrides that produce an invalid workspace', async () => {
+      const save = overrides => request(app.server)
+        .put('/api/workspaces/overrides/system-admin/bulk-operations')
+        .set('Authorization', `Bearer ${token()}`)
+        .send({ overrides });
+
+      const invalid = await save({ gadgets: { update: { 'bulk-operations-help': { position: 30, title: '' } } } });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.details.errors).toEqual([
+        'Gadget at index 1 missing title',
+        'Gadget bulk-operations-help position must be between 1 and 24'
+      ]);
+      expect(create).not.toHaveBeenCalled();
+
+      const valid = await save({ gadgets: { update: { 'bulk-operations-help': { position: 12 } } } });
+      expect(valid.status).toBe(201);
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('saves overrides of shipped workspaces that already fail validation', async () => {
+      // Shipped with gadget positions outside the grid
+      const save = overrides => request(app.server)
+        .put('/api/workspaces/overrides/inspection/piping-inspection-wizard')
+        .set('Authorization', `Bearer ${token()}`)
+        .send({ overrides });
+
+      expect((await save(null)).status).toBe(201);
+      expect((await save({ title: 'Piping Inspection' })).status).toBe(201);
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects overrides of the workspace identity or layout', async () => {
+      const response = await request(app.server)
+        .put('/api/workspaces/overrides/system-admin/bulk-operations')
+        .set('Authorization', `Bearer ${token()}`)
+        .send({ overrides: { id: 'other', layout: 'tabs', title: 42 } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.errors).toEqual([
+        'overrides may only change title, description, settings, gadgets (not id, layout)',
+        'overrides.title must be a string'
+      ]);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('rejects rolling back to overrides that no longer produce a valid workspace', async () => {
+      jest.spyOn(WorkspaceVersionRepository.prototype, 'findOne').mockResolvedValue({
+        version: 1,
+        overrides: { gadgets: { add: [{ id: 'notes', type: 'notes-gadget', title: 'Notes' }] } }
+      });
+
+      const response = await request(app.server)
+        .post('/api/workspaces/rollback/system-admin/bulk-operations')
+        .set('Authorization', `Bearer ${token()}`)
+        .send({ version: 1 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.errors).toEqual(['Gadget notes position must be a number']);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+});
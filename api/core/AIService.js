@@ -15,19 +15,41 @@
  * - GPT-4 Chat Completions API support
  * - Template interpolation with conditionals
  * - Config merging and overrides
+ * - Provider per tenant (config.tenant = { tenantId, tenantSlug }) via AIProviderRegistry
+ * - Calls with a tenant are checked against its AI budget and metered under
+ *   config.feature (AIGatewayService)
  */
 
-const OpenAI = require('openai');
 const { logger } = require('./Logger');
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
+const AIGatewayService = require('../services/AIGatewayService');
 
-// Initialize OpenAI client
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY environment variable is required');
-}
+/**
+ * Run a provider call; with config.tenant the tenant's budget is checked
+ * first and the tokens are recorded under config.feature
+ * @param {object} config - AI configuration ({ tenant, feature })
+ * @param {string} endpoint - Usage record endpoint (responses, chat/completions)
+ * @param {object} requestOptions - Provider payload
+ * @param {function} call - (provider, requestOptions) => Promise<response>
+ */
+async function callProvider(config, endpoint, requestOptions, call) {
+  const provider = AIProviderRegistry.getProvider(config.tenant);
+  if (!config.tenant?.tenantId) {
+    return call(provider, requestOptions);
+  }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+  await AIGatewayService.checkBudget(config.tenant);
+  const startedAt = Date.now();
+  const usageRecord = { endpoint, model: requestOptions.model, feature: config.feature };
+  try {
+    const response = await call(provider, requestOptions);
+    await AIGatewayService.recordUsage(config.tenant, { ...usageRecord, usage: response.usage, durationMs: Date.now() - startedAt });
+    return response;
+  } catch (error) {
+    await AIGatewayService.recordUsage(config.tenant, { ...usageRecord, error, durationMs: Date.now() - startedAt });
+    throw error;
+  }
+}
 
 /**
  * Generic AI text generation using metadata-driven configuration
@@ -61,12 +83,14 @@ async function generateWithAI(config, context = {}) {
       return await generateWithChatCompletions(config, context);
     }
   } catch (error) {
-    logger.error('OpenAI API Error', {
+    logger.error('AI provider error', {
       error: error.message,
       model,
       context
     });
-    throw new Error(`OpenAI API failed: ${error.message}`);
+    // Budget and policy errors keep their status code
+    if (error.isOperational) throw error;
+    throw new Error(`AI provider failed: ${error.message}`);
   }
 }
 
@@ -133,7 +157,7 @@ async function generateWithGPT5(config, context) {
     maxOutputTokens: requestOptions.max_output_tokens
   });
 
-  const response = await openai.responses.create(requestOptions);
+  const response = await callProvider(config, 'responses', requestOptions, (provider, options) => provider.respond(options));
   
   // Debug: Log the FULL raw response from OpenAI
   logger.debug('🔍 OpenAI Raw Response (GPT-5)', {
@@ -237,7 +261,7 @@ async function generateWithChatCompletions(config, context) {
 
   logger.info('Chat Completions request', { model, temperature, messageCount: finalMessages.length });
 
-  const response = await openai.chat.completions.create(requestOptions);
+  const response = await callProvider(config, 'chat/completions', requestOptions, (provider, options) => provider.chat(options));
 
   return response.choices[0].message.content;
 }
@@ -0,0 +1,237 @@
+/**
+ * Access Policy Service
+ *
+ * Attribute-based access policies and permission conditions for the
+ * effective-access report and permission simulator. Both come from tenant metadata (settings.accessControl,
+ * the block RBACService reads on the frontend side):
+ *
+ *   {
+ *     "policies": [{ "id": "night-lock", "effect": "deny", "permissions": ["inspection.*"], "condition": { ... } }],
+ *     "permissionConditions": { "inspection.approve": [{ "field": "user.siteIds", "operator": "contains", "value": { "ref": "resource.metadata.siteId" } }] }
+ *   }
+ *
+ * Tenants are loaded at startup and reloaded when a platform admin updates
+ * them; a tenant that is not loaded yet is read on first use.
+ * checkPermission decides like RBACService.evaluatePermission: tenant
+ * isolation and external customer routes first, then deny policies override
+ * every grant, then the wildcard, then granted permissions and their
+ * conditions, then allow policies.
+ */
+
+const mongoose = require('mongoose');
+const { logger } = require('./Logger');
+const { matchesPermission } = require('./PermissionResolver');
+const { buildPolicyAttributes, evaluateCondition, evaluatePolicies } = require('./PolicyEngine');
+
+const EMPTY_ACCESS_CONTROL = Object.freeze({ policies: [], permissionConditions: {} });
+
+/**
+ * Routes external customers may access (keep in sync with EXTERNAL_CUSTOMER_ROUTES in src/services/rbac.ts)
+ */
+const EXTERNAL_CUSTOMER_ROUTES = [
+  '/dashboard',
+  '/dashboard/*',
+  '/profile',
+  '/profile/*',
+  '/api/auth/me',
+  '/api/auth/logout',
+  '/api/auth/change-password',
+  '/api/dashboard/*'
+];
+
+/**
+ * Access control by tenant id, slug and document id
+ */
+const accessControlByTenant = new Map();
+
+function tenantKeys(tenant) {
+  return [tenant.id, tenant.tenantSlug, tenant.slug, tenant._id].filter(Boolean).map(String);
+}
+
+function normalizeAccessControl(accessControl) {
+  if (!accessControl || typeof accessControl !== 'object') {
+    return EMPTY_ACCESS_CONTROL;
+  }
+  const policies = Array.isArray(accessControl.policies)
+    ? accessControl.policies.filter(policy => policy && policy.id && Array.isArray(policy.permissions))
+    : [];
+  const permissionConditions = accessControl.permissionConditions && typeof accessControl.permissionConditions === 'object'
+    ? accessControl.permissionConditions
+    : {};
+  return { policies, permissionConditions };
+}
+
+const toPolicyMatch = policy => ({ id: policy.id, effect: policy.effect, description: policy.description });
+
+class AccessPolicyService {
+  /**
+   * Register a tenant document's access control metadata
+   *
+   * @param {Object} tenant - Tenant document
+   * @returns {Object} { policies, permissionConditions }
+   */
+  static register(tenant) {
+    const accessControl = normalizeAccessControl(tenant.settings && tenant.settings.accessControl);
+    tenantKeys(tenant).forEach(key => accessControlByTenant.set(key, accessControl));
+    return accessControl;
+  }
+
+  /**
+   * Load the access control metadata of every tenant that defines it; called at startup
+   *
+   * @returns {Promise<Number>} Number of tenants loaded
+   */
+  static async loadAll() {
+    const db = mongoose.connection;
+    if (!db || db.readyState !== 1) {
+      throw new Error('Database not connected');
+    }
+
+    const tenants = await db.collection('tenants')
+      .find({ 'settings.accessControl': { $exists: true } })
+      .toArray();
+    tenants.forEach(tenant => AccessPolicyService.register(tenant));
+    logger.info('Loaded tenant access policies', { tenants: tenants.length });
+    return tenants.length;
+  }
+
+  /**
+   * (Re)load one tenant's access control metadata
+   *
+   * @param {String} tenantId - Tenant id, slug or document id
+   * @returns {Promise<Object>} { policies, permissionConditions }
+   */
+  static async loadTenant(tenantId) {
+    const db = mongoose.connection;
+    if (!db || db.readyState !== 1) {
+      return EMPTY_ACCESS_CONTROL;
+    }
+
+    const key = String(tenantId);
+    const filters = [{ id: key }, { tenantSlug: key }, { slug: key }];
+    if (mongoose.Types.ObjectId.isValid(key)) {
+      filters.push({ _id: new mongoose.Types.ObjectId(key) });
+    }
+
+    const tenant = await db.collection('tenants').findOne({ $or: filters });
+    if (!tenant) {
+      accessControlByTenant.set(key, EMPTY_ACCESS_CONTROL);
+      return EMPTY_ACCESS_CONTROL;
+    }
+    return AccessPolicyService.register(tenant);
+  }
+
+  /**
+   * Access control metadata of a tenant, loading it on first use
+   *
+   * @param {String} tenantId - Tenant id
+   * @returns {Promise<Object>} { policies, permissionConditions }
+   */
+  static async getAccessControl(tenantId) {
+    if (!tenantId) return EMPTY_ACCESS_CONTROL;
+    return accessControlByTenant.get(String(tenantId)) || AccessPolicyService.loadTenant(tenantId);
+  }
+
+  /**
+   * Forget all loaded tenants
+   */
+  static clear() {
+    accessControlByTenant.clear();
+  }
+
+  /**
+   * Decide a permission check against a tenant's access control metadata
+   *
+   * @param {Object} accessControl - { policies, permissionConditions }
+   * @param {Object} context - { user, action, resource, route, ipAddress, userAgent, time }
+   * @param {Array<String>} userPermissions - Effective permissions of the user
+   * @returns {Object} Access decision { granted, reason, permissions, restrictions?, conditions?, matchedPolicy?, evaluatedPolicies? }
+   */
+  static decide(accessControl, context, userPermissions) {
+    const { user = {}, resource, action, route } = context;
+    if (resource && resource.tenantId && String(resource.tenantId) !== String(user.tenantId)) {
+      return { granted: false, reason: 'Access denied: Resource belongs to different tenant', permissions: [] };
+    }
+
+    if (user.isExternalCustomer && route) {
+      const routeAllowed = EXTERNAL_CUSTOMER_ROUTES.some(allowed =>
+        allowed.endsWith('*') ? route.startsWith(allowed.slice(0, -1)) : route === allowed
+      );
+      if (!routeAllowed) {
+        return {
+          granted: false,
+          reason: 'Access denied: Route restricted for external customers',
+          permissions: [],
+          restrictions: EXTERNAL_CUSTOMER_ROUTES
+        };
+      }
+    }
+
+    const required = resource && resource.type ? `${resource.type}.${action}` : action;
+    const attributes = buildPolicyAttributes(context);
+
+    const applicable = accessControl.policies.filter(policy =>
+      policy.permissions.some(pattern => matchesPermission(pattern, required))
+    );
+    const policies = evaluatePolicies(applicable, attributes);
+    const evaluatedPolicies = policies.evaluated.length > 0 ? policies.evaluated : undefined;
+
+    if (policies.deny) {
+      return {
+        granted: false,
+        reason: `Access denied: Policy '${policies.deny.id}'`,
+        permissions: [],
+        matchedPolicy: toPolicyMatch(policies.deny),
+        evaluatedPolicies
+      };
+    }
+
+    if (userPermissions.includes('*')) {
+      return { granted: true, reason: 'Access granted: Wildcard permission', permissions: ['*'], evaluatedPolicies };
+    }
+
+    const matching = userPermissions.filter(permission => matchesPermission(permission, required));
+    if (matching.length > 0) {
+      const conditions = Object.entries(accessControl.permissionConditions)
+        .filter(([pattern]) => matchesPermission(pattern, required))
+        .reduce((all, [, entries]) => all.concat(entries || []), []);
+      const unmet = conditions.find(condition => !evaluateCondition(condition, attributes));
+
+      return {
+        granted: !unmet,
+        reason: unmet
+          ? `Access denied: Condition on '${unmet.field}' not met`
+          : 'Access granted: Permission and conditions satisfied',
+        permissions: matching,
+        conditions: conditions.length > 0 ? conditions : undefined,
+        evaluatedPolicies
+      };
+    }
+
+    if (policies.allow) {
+      return {
+        granted: true,
+        reason: `Access granted: Policy '${policies.allow.id}'`,
+        permissions: [required],
+        matchedPolicy: toPolicyMatch(policies.allow),
+        evaluatedPolicies
+      };
+    }
+
+    return { granted: false, reason: `Access denied: Missing permission '${required}'`, permissions: userPermissions, evaluatedPolicies };
+  }
+
+  /**
+   * Decide a permission check with the policies of the user's tenant
+   *
+   * @param {Object} context - Access context; context.user.tenantId selects the tenant
+   * @param {Array<String>} userPermissions - Effective permissions of the user
+   * @returns {Promise<Object>} Access decision
+   */
+  static async checkPermission(context, userPermissions) {
+    const accessControl = await AccessPolicyService.getAccessControl(context.user && context.user.tenantId);
+    return AccessPolicyService.decide(accessControl, context, userPermissions);
+  }
+}
+
+module.exports = AccessPolicyService;
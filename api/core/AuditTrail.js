@@ -345,7 +345,7 @@ class AuditTrail {
     ]);
     
     for (const key of allKeys) {
-      if (key === '_id' || key === '__v' || key === 'last_updated') {
+      if (key === '_id' || key === '__v' || key === 'last_updated' || key === 'revision') {
         continue; // Skip these fields
       }
       
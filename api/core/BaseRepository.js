@@ -19,7 +19,7 @@
 
 const TenantContext = require('./TenantContext');
 const { AuditTrail } = require('./AuditTrail');
-const { NotFoundError, DatabaseError, ValidationError } = require('./ErrorHandler');
+const { NotFoundError, DatabaseError, ValidationError, ConflictError } = require('./ErrorHandler');
 const { RequestContextManager } = require('./RequestContext');
 
 class BaseRepository {
@@ -40,6 +40,7 @@ class BaseRepository {
     this.model = model;
     this.context = tenantContext;
     this.requestContext = requestContext; // Store for audit logging
+    this.versioned = false; // Track a revision number on every write (see update)
   }
 
   /**
@@ -175,6 +176,10 @@ class BaseRepository {
         last_updated: new Date()
       };
 
+      if (this.versioned) {
+        doc.revision = 1;
+      }
+
       // Assign tenant if not already provided
       if (!doc.tenantId && this.context.tenantId) {
         doc.tenantId = this.context.tenantId;
@@ -223,11 +228,16 @@ class BaseRepository {
   /**
    * Update document with automatic tenant scoping
    * 
+   * Versioned repositories increment `revision` on every update. When
+   * `options.expectedRevision` is given and the stored revision differs, the
+   * update is rejected with a ConflictError whose details carry the current copy.
+   * 
    * @param {string} id - Document ID
    * @param {Object} updates - Update data
+   * @param {Object} options - { expectedRevision }
    * @returns {Promise<Object|null>}
    */
-  async update(id, updates) {
+  async update(id, updates, options = {}) {
     try {
       const query = this.buildBaseQuery({ id });
 
@@ -238,17 +248,31 @@ class BaseRepository {
         throw new NotFoundError(this.model.modelName, id);
       }
 
-      const updated = await this.model.findOneAndUpdate(
-        query,
-        {
-          $set: {
-            ...updates,
-            last_updated: new Date(),
-            last_updated_by: this.context.userId
-          }
-        },
-        { new: true }
-      ).lean().exec();
+      const fields = { ...updates };
+      if (this.versioned) {
+        delete fields.revision; // Managed by the repository
+      }
+      const change = {
+        $set: {
+          ...fields,
+          last_updated: new Date(),
+          last_updated_by: this.context.userId
+        }
+      };
+
+      if (this.versioned) {
+        this.assertRevision(before, options.expectedRevision);
+        // Only write over the revision that was read (guards against concurrent writers)
+        query.revision = before.revision ?? null;
+        change.$inc = { revision: 1 };
+      }
+
+      const updated = await this.model.findOneAndUpdate(query, change, { new: true }).lean().exec();
+
+      if (!updated && this.versioned) {
+        const current = await this.model.findOne(this.buildBaseQuery({ id })).lean().exec();
+        this.assertRevision(current, before.revision || 0);
+      }
 
       // Audit logging (use explicit context or try to get from AsyncLocalStorage)
       const requestContext = this.requestContext || RequestContextManager.getCurrentContext();
@@ -265,7 +289,7 @@ class BaseRepository {
 
       return updated;
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
         throw error;
       }
       throw new DatabaseError(`Failed to update ${this.model.modelName}`, {
@@ -274,6 +298,26 @@ class BaseRepository {
     }
   }
 
+  /**
+   * Reject a write made against an older revision of the document
+   * 
+   * @param {Object|null} current - Current stored document
+   * @param {number} [expectedRevision] - Revision the client edited
+   */
+  assertRevision(current, expectedRevision) {
+    if (expectedRevision === undefined || expectedRevision === null || !current) {
+      return;
+    }
+    const currentRevision = current.revision || 0;
+    if (Number(expectedRevision) !== currentRevision) {
+      throw new ConflictError(`${this.model.modelName} was changed by someone else (revision ${currentRevision})`, {
+        expectedRevision: Number(expectedRevision),
+        currentRevision,
+        current
+      });
+    }
+  }
+
   /**
    * Soft delete document with automatic tenant scoping
    * 
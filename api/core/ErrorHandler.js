@@ -95,6 +95,15 @@ class RateLimitError extends AppError {
   }
 }
 
+/**
+ * Quota Exceeded Error (429)
+ */
+class QuotaExceededError extends AppError {
+  constructor(message = 'Usage quota exceeded', details = {}) {
+    super(message, 'QUOTA_EXCEEDED', 429, details);
+  }
+}
+
 /**
  * Internal Server Error (500)
  */
@@ -354,6 +363,7 @@ const ErrorTypes = {
   DATABASE: 'DATABASE_ERROR',
   CONFLICT: 'CONFLICT',
   RATE_LIMIT: 'RATE_LIMIT_EXCEEDED',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   SYSTEM: 'INTERNAL_ERROR'
 };
 
@@ -419,6 +429,7 @@ module.exports = {
   NotFoundError,
   ConflictError,
   RateLimitError,
+  QuotaExceededError,
   InternalServerError,
   DatabaseError,
   
@@ -0,0 +1,84 @@
+/**
+ * Permission Resolver
+ *
+ * Effective permissions with their origins, mirroring src/services/permissionResolver.ts
+ * so the API and the UI agree on what a user holds. Resolves the permission set
+ * of assigned roles through the role hierarchy (inherits/excludes), recording
+ * for every permission which assigned role grants it and through which chain
+ * of inherited roles.
+ */
+
+/**
+ * Check if a permission pattern matches the required permission ("*", "user.*", "*.read")
+ *
+ * @param {String} pattern - Granted permission pattern
+ * @param {String} required - Required permission
+ * @returns {Boolean}
+ */
+function matchesPermission(pattern, required) {
+  if (pattern === '*' || pattern === required) return true;
+
+  const patternParts = pattern.split('.');
+  const requiredParts = required.split('.');
+  if (patternParts.length !== requiredParts.length) return false;
+  return patternParts.every((part, index) => part === '*' || part === requiredParts[index]);
+}
+
+/**
+ * Resolve effective permissions of assigned roles, recording each permission's origin
+ *
+ * @param {Array} assignedRoles - Roles assigned to the user
+ * @param {Array} tenantRoles - Roles that may be inherited
+ * @returns {Object} { permissions: [{ permission, origins }], excluded: [...] }
+ */
+function resolveEffectivePermissions(assignedRoles, tenantRoles = []) {
+  const rolesByName = new Map();
+  // Assigned roles win over stored roles of the same name, so drafts can be simulated
+  [...tenantRoles, ...assignedRoles].forEach(role => rolesByName.set(role.name, role));
+
+  const collectGrants = (role, via, excluded) => {
+    const path = [...via, role.name];
+    const grants = (role.permissions || []).map(permission => ({ permission, via: path }));
+
+    (role.inherits || []).forEach(parentName => {
+      const parent = rolesByName.get(parentName);
+      // Skip unknown roles and inheritance cycles
+      if (!parent || path.includes(parentName)) return;
+      grants.push(...collectGrants(parent, path, excluded));
+    });
+
+    const excludes = role.excludes || [];
+    return grants.filter(grant => {
+      const pattern = excludes.find(exclude => matchesPermission(exclude, grant.permission));
+      if (pattern === undefined) return true;
+      excluded.push({ permission: grant.permission, via: grant.via, excludedBy: role.name, pattern });
+      return false;
+    });
+  };
+
+  const permissions = new Map();
+  const excluded = [];
+
+  assignedRoles.forEach(assigned => {
+    const role = rolesByName.get(assigned.name) || assigned;
+    const origin = via => ({ role: role.name, roleId: role.id, via });
+    const removed = [];
+
+    collectGrants(role, [], removed).forEach(grant => {
+      const entry = permissions.get(grant.permission) || { permission: grant.permission, origins: [] };
+      entry.origins.push(origin(grant.via));
+      permissions.set(grant.permission, entry);
+    });
+    removed.forEach(({ via, ...exclusion }) => excluded.push({ ...exclusion, origin: origin(via) }));
+  });
+
+  return {
+    permissions: Array.from(permissions.values()).sort((a, b) => a.permission.localeCompare(b.permission)),
+    excluded: excluded.filter(exclusion => !permissions.has(exclusion.permission))
+  };
+}
+
+module.exports = {
+  matchesPermission,
+  resolveEffectivePermissions
+};
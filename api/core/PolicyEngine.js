@@ -0,0 +1,217 @@
+/**
+ * Policy Engine - Attribute-Based Access Control for the API
+ *
+ * Mirrors src/services/policyEngine.ts so the effective-access report and
+ * permission simulator decide exactly as RBACService does. Conditions
+ * read user, resource and request attributes (user.siteIds,
+ * resource.metadata.siteId, request.time, request.ipAddress), compare them
+ * with a literal or another attribute ({ ref: 'user.siteIds' }) and combine
+ * through all/any/not groups. Deny policies override every grant.
+ */
+
+const isReference = value =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && typeof value.ref === 'string';
+
+/**
+ * Build the attribute set for an access context
+ *
+ * @param {Object} context - { user: { roles, attributes, ... }, resource, action, route, ipAddress, userAgent, time }
+ * @returns {Object} { user, resource, request }
+ */
+function buildPolicyAttributes(context) {
+  const { roles, attributes, ...user } = context.user || {};
+  return {
+    user: {
+      ...(attributes || {}),
+      ...user,
+      roleNames: (roles || []).map(role => (typeof role === 'string' ? role : role.name))
+    },
+    resource: context.resource ? { ...context.resource, metadata: context.resource.metadata || {} } : {},
+    request: {
+      action: context.action,
+      route: context.route,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      time: context.time || new Date()
+    }
+  };
+}
+
+/**
+ * Read an attribute by dotted path, e.g. resource.metadata.siteId
+ */
+function resolveAttribute(attributes, path) {
+  return path.split('.').reduce(
+    (value, key) => (value === null || value === undefined ? undefined : value[key]),
+    attributes
+  );
+}
+
+// ObjectIds and numeric ids compare equal to their string form
+const sameValue = (a, b) =>
+  a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+
+const toList = value => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const toComparable = value => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+};
+
+/**
+ * Parse an IPv4 address (including IPv4-mapped IPv6 such as ::ffff:10.0.0.1) into a 32-bit number
+ */
+function parseIPv4(address) {
+  const match = /^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/i.exec(address.trim());
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some(octet => octet > 255)) return null;
+  return octets.reduce((result, octet) => result * 256 + octet, 0);
+}
+
+/**
+ * Whether an IP address lies in a CIDR range (10.0.0.0/8) or equals a single address
+ */
+function isIpInRange(address, range) {
+  if (!address) return false;
+  const [network, prefix] = range.split('/');
+  const ip = parseIPv4(address);
+  const base = parseIPv4(network);
+  if (ip === null || base === null) {
+    return prefix === undefined && address.trim().toLowerCase() === network.trim().toLowerCase();
+  }
+
+  const bits = prefix === undefined ? 32 : Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > 32) {
+    throw new Error(`Invalid CIDR range: ${range}`);
+  }
+  const size = Math.pow(2, 32 - bits);
+  return Math.floor(ip / size) === Math.floor(base / size);
+}
+
+function parseTimeOfDay(value) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value).trim());
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function minutesOfDay(date, timeZone) {
+  if (!timeZone) return date.getUTCHours() * 60 + date.getUTCMinutes();
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = type => Number((parts.find(entry => entry.type === type) || {}).value);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * Whether a moment falls within a time-of-day window { from, to, timeZone? }
+ * (HH:mm, UTC by default; start included, end excluded; 22:00 to 06:00 runs past midnight)
+ */
+function isTimeBetween(time, window) {
+  const date = time instanceof Date ? time : new Date(time);
+  if (isNaN(date.getTime())) return false;
+  const minutes = minutesOfDay(date, window.timeZone);
+  const from = parseTimeOfDay(window.from);
+  const to = parseTimeOfDay(window.to);
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/**
+ * Evaluate a single attribute comparison
+ */
+function evaluateComparison(condition, attributes) {
+  const actual = resolveAttribute(attributes, condition.field);
+  const expected = isReference(condition.value) ? resolveAttribute(attributes, condition.value.ref) : condition.value;
+
+  switch (condition.operator) {
+    case 'eq':
+      return sameValue(actual, expected);
+    case 'ne':
+      return !sameValue(actual, expected);
+    case 'in':
+      return toList(actual).some(value => toList(expected).some(item => sameValue(value, item)));
+    case 'nin':
+      return !toList(actual).some(value => toList(expected).some(item => sameValue(value, item)));
+    case 'contains':
+      return (
+        toList(expected).length > 0 &&
+        toList(expected).every(item => toList(actual).some(value => sameValue(value, item)))
+      );
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (actual === undefined || actual === null || expected === undefined || expected === null) return false;
+      const left = toComparable(actual);
+      const right = toComparable(expected);
+      if (condition.operator === 'gt') return left > right;
+      if (condition.operator === 'gte') return left >= right;
+      if (condition.operator === 'lt') return left < right;
+      return left <= right;
+    }
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected !== false);
+    case 'regex':
+      return actual !== undefined && actual !== null && new RegExp(String(expected)).test(String(actual));
+    case 'ipInRange':
+      return toList(expected).some(range => isIpInRange(String(actual || ''), String(range)));
+    case 'timeBetween':
+      return actual !== undefined && actual !== null && isTimeBetween(actual, expected);
+    default:
+      throw new Error(`Unknown condition operator: ${condition.operator}`);
+  }
+}
+
+/**
+ * Evaluate a condition or condition group. Empty all groups hold; empty any groups do not.
+ */
+function evaluateCondition(condition, attributes) {
+  if ('all' in condition) {
+    return condition.all.every(child => evaluateCondition(child, attributes));
+  }
+  if ('any' in condition) {
+    return condition.any.some(child => evaluateCondition(child, attributes));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, attributes);
+  }
+  return evaluateComparison(condition, attributes);
+}
+
+/**
+ * Evaluate the policies that apply to a request
+ *
+ * @returns {Object} { deny?, allow?, evaluated: [policy ids] }
+ */
+function evaluatePolicies(policies, attributes) {
+  const result = { evaluated: [] };
+
+  policies.forEach(policy => {
+    result.evaluated.push(policy.id);
+    if (policy.effect === 'deny' ? result.deny : result.allow) return;
+    if (policy.condition && !evaluateCondition(policy.condition, attributes)) return;
+    if (policy.effect === 'deny') {
+      result.deny = policy;
+    } else {
+      result.allow = policy;
+    }
+  });
+
+  return result;
+}
+
+module.exports = {
+  buildPolicyAttributes,
+  resolveAttribute,
+  isIpInRange,
+  isTimeBetween,
+  evaluateCondition,
+  evaluatePolicies
+};
@@ -24,6 +24,7 @@ const ROUTE_CONFIG = {
   'admin': { prefix: '/api', enabled: true },
   'admin-stats': { prefix: '/api/admin', enabled: true },
   'platform-admin': { prefix: '/api', enabled: true },
+  'access-control': { prefix: '/api/access-control', enabled: true },
   
   // Tenant routes
   'tenant-admin': { prefix: '/api/multi-tenant', enabled: true },
@@ -34,6 +35,9 @@ const ROUTE_CONFIG = {
   // Core data routes
   'documents': { prefix: '/api', enabled: true },
   'reference-data': { prefix: '/api', enabled: true },
+  'workspaces': { prefix: '/api/workspaces', enabled: true },
+  'grid-views': { prefix: '/api/grid-views', enabled: true },
+  'import-templates': { prefix: '/api/import-templates', enabled: true },
   'audit-logs': { prefix: '/api/audit-logs', enabled: true },
   
   // Workflow routes
@@ -47,7 +51,8 @@ const ROUTE_CONFIG = {
   
   // Bulk operations
   'bulk-operations': { prefix: '/api', enabled: true },
-  'aggregation': { prefix: '/api', enabled: true },
+  'imports': { prefix: '/api', enabled: true },
+  'semantic-metrics': { prefix: '/api', enabled: true },
   
   // Communication routes
   'realtime': { prefix: '/api/realtime', enabled: true },
@@ -59,6 +64,8 @@ const ROUTE_CONFIG = {
   // AI services
   'ai-column-mapping': { prefix: '/api', enabled: true },
   'ai-stream': { prefix: '/api', enabled: true },
+  'ai-gateway': { prefix: '/api', enabled: true },
+  'ai-usage': { prefix: '/api', enabled: true },
   
   // File uploads
   'uploads': { prefix: '/api/uploads', enabled: true },
@@ -44,6 +44,12 @@ const TenantUsageSchema = new mongoose.Schema({
   // Feature usage
   featuresUsed: { type: Map, of: Number, default: {} },
   
+  // AI usage (tokens as reported by the provider)
+  aiRequests: { type: Number, default: 0 },
+  aiTokens: { type: Number, default: 0 },
+  aiTokensByFeature: { type: Map, of: Number, default: {} },
+  aiTokensByModel: { type: Map, of: Number, default: {} },
+  
   // Costs (if applicable)
   estimatedCost: { type: Number, default: 0 },
   
@@ -212,6 +218,38 @@ class TenantUsageMonitor {
     }
   }
   
+  /**
+   * Track an AI call (feature: wizard, chatbot, calculator, column-mapping, other)
+   */
+  static async trackAIUsage(tenantId, { feature = 'other', model, totalTokens = 0 }) {
+    const period = this._getCurrentPeriod('monthly');
+    // Map keys cannot contain dots (e.g. "gpt-4.1")
+    const modelKey = String(model || 'unknown').replace(/\./g, '_');
+    
+    try {
+      await TenantUsageModel.findOneAndUpdate(
+        { tenantId, period, periodType: 'monthly' },
+        {
+          $inc: {
+            aiRequests: 1,
+            aiTokens: totalTokens,
+            [`aiTokensByFeature.${feature}`]: totalTokens,
+            [`aiTokensByModel.${modelKey}`]: totalTokens
+          },
+          $set: { lastUpdated: new Date() }
+        },
+        { upsert: true, new: true }
+      );
+      
+      // Update metrics
+      metrics.createCounter('tenant_ai_tokens_total', 'AI tokens by tenant', ['tenant_id', 'feature'])
+        .inc({ tenant_id: tenantId, feature }, totalTokens);
+      
+    } catch (error) {
+      logger.error('Failed to track AI usage', error, { tenantId, feature });
+    }
+  }
+  
   /**
    * Get current usage for tenant
    */
@@ -230,7 +268,9 @@ class TenantUsageMonitor {
       apiCalls: 0,
       storageUsed: 0,
       documentsCount: 0,
-      activeUsers: 0
+      activeUsers: 0,
+      aiRequests: 0,
+      aiTokens: 0
     };
   }
   
@@ -0,0 +1,167 @@
+/**
+ * Workspace Overrides
+ *
+ * Tenant overrides layered on a shipped workspace definition, mirroring
+ * applyWorkspaceOverrides and validateWorkspaceOverrides
+ * (src/schemas/workspace/overrides.ts) so the API rejects overrides that would
+ * produce a workspace the client cannot render.
+ */
+
+/**
+ * Top-level keys a tenant may override; id, layout and the rest come from the default
+ */
+const OVERRIDABLE_KEYS = ['title', 'description', 'settings', 'gadgets'];
+
+const isPlainObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Deep merge of configuration objects; arrays and scalars in the override replace the default
+ */
+function mergeConfig(base, override) {
+  const merged = { ...base };
+  Object.keys(override).forEach(key => {
+    merged[key] = isPlainObject(base[key]) && isPlainObject(override[key])
+      ? mergeConfig(base[key], override[key])
+      : override[key];
+  });
+  return merged;
+}
+
+/**
+ * Apply tenant overrides to a default workspace definition.
+ * Updates and removals naming gadgets that no longer exist in the default are ignored.
+ *
+ * @param {Object} base - Default workspace definition
+ * @param {Object|null} overrides - Tenant overrides
+ * @returns {Object} Merged workspace definition
+ */
+function applyWorkspaceOverrides(base, overrides) {
+  if (!overrides) return base;
+
+  const { gadgets: gadgetChanges = {}, settings, title, description } = overrides;
+  const removed = new Set(gadgetChanges.remove || []);
+  const updates = gadgetChanges.update || {};
+
+  let gadgets = (base.gadgets || [])
+    .filter(gadget => !removed.has(gadget.id))
+    .map(gadget => {
+      const update = updates[gadget.id];
+      if (!update) return gadget;
+      return {
+        ...gadget,
+        ...update,
+        id: gadget.id,
+        config: mergeConfig(gadget.config || {}, update.config || {})
+      };
+    });
+
+  (gadgetChanges.add || []).forEach(({ after, ...gadget }) => {
+    gadgets = gadgets.filter(existing => existing.id !== gadget.id);
+    const anchor = after ? gadgets.findIndex(existing => existing.id === after) : -1;
+    const index = after === null ? 0 : anchor >= 0 ? anchor + 1 : gadgets.length;
+    gadgets.splice(index, 0, gadget);
+  });
+
+  if (gadgetChanges.order && gadgetChanges.order.length) {
+    const rank = new Map(gadgetChanges.order.map((id, index) => [id, index]));
+    const rankOf = (gadget, index) => (rank.has(gadget.id) ? rank.get(gadget.id) : rank.size + index);
+    gadgets = gadgets
+      .map((gadget, index) => ({ gadget, index }))
+      .sort((a, b) => rankOf(a.gadget, a.index) - rankOf(b.gadget, b.index))
+      .map(entry => entry.gadget);
+  }
+
+  return {
+    ...base,
+    title: title !== undefined ? title : base.title,
+    description: description !== undefined ? description : base.description,
+    settings: settings ? { ...(base.settings || {}), ...settings } : base.settings,
+    gadgets
+  };
+}
+
+/**
+ * Validate a gadget at its index in the workspace (positions are widths on the 24-column grid)
+ *
+ * @param {Object} gadget - Workspace gadget
+ * @param {Number} index - Index in the workspace
+ * @returns {Array<String>} Errors
+ */
+function validateWorkspaceGadget(gadget, index) {
+  const errors = [];
+  if (!gadget.id) errors.push(`Gadget at index ${index} missing ID`);
+  if (!gadget.type) errors.push(`Gadget at index ${index} missing type`);
+  if (!gadget.title) errors.push(`Gadget at index ${index} missing title`);
+
+  if (typeof gadget.position !== 'number') {
+    errors.push(`Gadget ${gadget.id} position must be a number`);
+  } else if (gadget.position < 1 || gadget.position > 24) {
+    errors.push(`Gadget ${gadget.id} position must be between 1 and 24`);
+  }
+  return errors;
+}
+
+/**
+ * Validate a workspace definition
+ *
+ * @param {Object} workspace - Workspace definition
+ * @returns {Object} { valid, errors, warnings }
+ */
+function validateWorkspace(workspace) {
+  const errors = [];
+  const warnings = [];
+
+  if (!workspace.id) errors.push('Workspace ID is required');
+  if (!workspace.title) errors.push('Workspace title is required');
+  if (!workspace.layout) errors.push('Workspace layout is required');
+  if (!workspace.gadgets || workspace.gadgets.length === 0) {
+    warnings.push('Workspace has no gadgets');
+  }
+
+  (workspace.gadgets || []).forEach((gadget, index) => {
+    errors.push(...validateWorkspaceGadget(gadget, index));
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validate the workspace that overrides produce, reporting only the errors the
+ * overrides introduce: errors on gadgets they add, errors an update adds to a
+ * shipped gadget, and workspace-level errors the default does not already have
+ *
+ * @param {Object} base - Default workspace definition
+ * @param {Object|null} overrides - Tenant overrides
+ * @returns {Object} { valid, errors, warnings }
+ */
+function validateWorkspaceOverrides(base, overrides) {
+  const workspace = applyWorkspaceOverrides(base, overrides);
+  const { warnings } = validateWorkspace(workspace);
+  if (!overrides) return { valid: true, errors: [], warnings };
+
+  const gadgetChanges = overrides.gadgets || {};
+  const defaultErrors = new Set(validateWorkspace({ ...base, gadgets: [] }).errors);
+  const added = new Set((gadgetChanges.add || []).map(gadget => gadget.id));
+  const updated = new Set(Object.keys(gadgetChanges.update || {}));
+  const defaults = new Map((base.gadgets || []).map(gadget => [gadget.id, gadget]));
+
+  const gadgetErrors = (gadget, index) => {
+    if (added.has(gadget.id)) return validateWorkspaceGadget(gadget, index);
+    if (!updated.has(gadget.id)) return [];
+    const existing = new Set(validateWorkspaceGadget(defaults.get(gadget.id), index));
+    return validateWorkspaceGadget(gadget, index).filter(error => !existing.has(error));
+  };
+
+  const errors = [
+    ...validateWorkspace({ ...workspace, gadgets: [] }).errors.filter(error => !defaultErrors.has(error)),
+    ...(workspace.gadgets || []).flatMap(gadgetErrors)
+  ];
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+module.exports = {
+  OVERRIDABLE_KEYS,
+  applyWorkspaceOverrides,
+  validateWorkspace,
+  validateWorkspaceOverrides
+};
@@ -0,0 +1,41 @@
+/**
+ * AI Usage Model
+ *
+ * One record per AI call made through the gateway (api/routes/ai-gateway.js)
+ * or by server-side AI features (AIService): who made it, for which tenant and
+ * feature, which endpoint and model, and the tokens the provider reported. Used for budget enforcement, usage dashboards and billing
+ * exports.
+ */
+
+const mongoose = require('mongoose');
+
+const AIUsageSchema = new mongoose.Schema({
+  tenantId: { type: String, required: true, index: true },
+  userId: { type: String, index: true },
+  endpoint: { type: String, required: true }, // chat/completions, responses, audio/transcriptions
+  model: { type: String, required: true },
+  feature: { type: String, default: 'other' }, // wizard, chatbot, calculator, column-mapping, other
+  stream: { type: Boolean, default: false },
+
+  // Tokens as reported by the provider (0 when it reports none, e.g. transcription)
+  promptTokens: { type: Number, default: 0 },
+  completionTokens: { type: Number, default: 0 },
+  totalTokens: { type: Number, default: 0 },
+
+  // Number of values removed from the prompt before it was sent
+  redactions: { type: Number, default: 0 },
+
+  status: { type: String, enum: ['success', 'error'], default: 'success' },
+  error: String,
+  durationMs: Number,
+  createdAt: { type: Date, default: Date.now }
+}, {
+  collection: 'ai_usage',
+  timestamps: false
+});
+
+AIUsageSchema.index({ tenantId: 1, createdAt: -1 });
+AIUsageSchema.index({ tenantId: 1, userId: 1, createdAt: -1 });
+AIUsageSchema.index({ tenantId: 1, feature: 1, createdAt: -1 });
+
+module.exports = mongoose.models.AIUsage || mongoose.model('AIUsage', AIUsageSchema);
@@ -16,7 +16,12 @@ const CalculatorSchema = new mongoose.Schema(
     tags: { type: [String], default: [] },
     uiDefinition: { type: mongoose.Schema.Types.Mixed },
     formConfig: { type: mongoose.Schema.Types.Mixed },
+    // 'deterministic' evaluates calculations as formulas; 'ai' sends the inputs to aiPrompt
+    mode: { type: String, enum: ['ai', 'deterministic'], default: 'ai' },
     calculations: { type: mongoose.Schema.Types.Mixed },
+    inputValidation: { type: mongoose.Schema.Types.Mixed },
+    outputs: { type: mongoose.Schema.Types.Mixed },
+    aiNarrative: { type: mongoose.Schema.Types.Mixed },
     calculationEngine: { type: mongoose.Schema.Types.Mixed },
     aiPrompts: { type: mongoose.Schema.Types.Mixed },
     aiPrompt: { type: String },
@@ -17,6 +17,7 @@
  * - Tenant isolation
  * - Soft delete support
  * - Audit trail fields
+ * - Revision number for optimistic concurrency
  * - Type-based filtering
  */
 
@@ -53,7 +54,10 @@ const DocumentSchema = new mongoose.Schema({
   created_date: { type: Date, default: Date.now, index: true },
   created_by: String,
   last_updated: { type: Date, default: Date.now },
-  last_updated_by: String
+  last_updated_by: String,
+
+  // Optimistic concurrency: incremented on every update
+  revision: Number
 }, {
   collection: 'documents',
   timestamps: false, // We manage timestamps manually
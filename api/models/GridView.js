@@ -0,0 +1,36 @@
+/**
+ * Grid View Model
+ *
+ * Named saved views of an SGrid search grid: search text, column filters,
+ * sort, column visibility/order/widths and page size. Views belong to the user
+ * who saved them and can be shared with the rest of the tenant. Each user can
+ * pick one view per grid as their default (tracked in defaultFor).
+ */
+
+const mongoose = require('mongoose');
+
+const GridViewSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true, unique: true, index: true },
+    tenantId: { type: String, required: true, index: true },
+    gridId: { type: String, required: true },
+    userId: { type: String, required: true },
+    name: { type: String, required: true },
+    shared: { type: Boolean, default: false },
+    // Table state captured by the grid; see SGridSearchGadget
+    state: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // Users who opened this view by default
+    defaultFor: { type: [String], default: [] },
+    created_by: { type: String },
+    deleted: { type: Boolean, default: false }
+  },
+  {
+    collection: 'grid_views',
+    timestamps: { createdAt: 'created_date', updatedAt: 'last_updated' }
+  }
+);
+
+GridViewSchema.index({ tenantId: 1, gridId: 1, userId: 1 });
+GridViewSchema.index({ tenantId: 1, gridId: 1, shared: 1 });
+
+module.exports = mongoose.models.GridView || mongoose.model('GridView', GridViewSchema);
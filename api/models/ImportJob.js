@@ -0,0 +1,49 @@
+/**
+ * Import Job Model
+ *
+ * Spreadsheet imports run by ImportJobService. The job id doubles as the
+ * import batch id stored on every document the import created (importBatchId),
+ * and the previous values of every document it updated are kept in updates,
+ * so the whole batch can be rolled back.
+ */
+
+const mongoose = require('mongoose');
+
+const ImportJobSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true, unique: true, index: true },
+    tenantId: { type: String, required: true, index: true },
+    userId: { type: String, required: true },
+    documentType: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['running', 'completed', 'failed', 'rolled_back'],
+      default: 'running'
+    },
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    created: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    // Parent documents created on the way, by type (company, site, asset_group)
+    related: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // Row errors: { row, column, error, value, severity }
+    rowErrors: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    // Updated documents: { type, id, previous } with the values the import replaced
+    updates: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    error: { type: String },
+    completedAt: { type: Date },
+    rollback: { type: mongoose.Schema.Types.Mixed },
+    created_by: { type: String },
+    deleted: { type: Boolean, default: false }
+  },
+  {
+    collection: 'import_jobs',
+    timestamps: { createdAt: 'created_date', updatedAt: 'last_updated' }
+  }
+);
+
+ImportJobSchema.index({ tenantId: 1, userId: 1, created_date: -1 });
+
+module.exports = mongoose.models.ImportJob || mongoose.model('ImportJob', ImportJobSchema);
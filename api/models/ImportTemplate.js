@@ -0,0 +1,40 @@
+/**
+ * Import Template Model
+ *
+ * Named column mappings of the Data Import/Export gadget, shared within a
+ * tenant per document type. A template records the spreadsheet headers it was
+ * saved from (fingerprint: the normalized headers, sorted), the field chosen
+ * for each column (null for skipped columns), value transforms per field
+ * (unit conversion, date format, value map) and default field values.
+ */
+
+const mongoose = require('mongoose');
+
+const ImportTemplateSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true, unique: true, index: true },
+    tenantId: { type: String, required: true, index: true },
+    documentType: { type: String, required: true },
+    name: { type: String, required: true },
+    fingerprint: { type: String, required: true },
+    headers: { type: [String], default: [] },
+    // { excelColumn, dbField }
+    mappings: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    // dbField -> { type: 'unit' | 'date' | 'enum', ... }
+    transforms: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // dbField -> value used when the cell is empty or the field is not mapped
+    defaults: { type: mongoose.Schema.Types.Mixed, default: {} },
+    userId: { type: String, required: true },
+    created_by: { type: String },
+    deleted: { type: Boolean, default: false }
+  },
+  {
+    collection: 'import_templates',
+    minimize: false,
+    timestamps: { createdAt: 'created_date', updatedAt: 'last_updated' }
+  }
+);
+
+ImportTemplateSchema.index({ tenantId: 1, documentType: 1, fingerprint: 1 });
+
+module.exports = mongoose.models.ImportTemplate || mongoose.model('ImportTemplate', ImportTemplateSchema);
@@ -0,0 +1,34 @@
+/**
+ * Workspace Version Model
+ *
+ * Versioned tenant overrides for shipped workspace definitions.
+ * The static JSON under public/data/workspaces is the default layer; each save
+ * of a tenant's overrides creates a new immutable version, and rolling back
+ * creates a new version with the overrides of an earlier one.
+ */
+
+const mongoose = require('mongoose');
+
+const WorkspaceVersionSchema = new mongoose.Schema(
+  {
+    id: { type: String, required: true, unique: true, index: true },
+    tenantId: { type: String, required: true, index: true },
+    workspaceId: { type: String, required: true },
+    version: { type: Number, required: true },
+    // Gadgets to add/remove/update and top-level field changes; null resets to the default
+    overrides: { type: mongoose.Schema.Types.Mixed, default: null },
+    comment: { type: String },
+    restoredFrom: { type: Number },
+    created_by: { type: String },
+    deleted: { type: Boolean, default: false }
+  },
+  {
+    collection: 'workspace_versions',
+    timestamps: { createdAt: 'created_date', updatedAt: 'last_updated' }
+  }
+);
+
+// One document per version number; createVersion retries when a concurrent save took it
+WorkspaceVersionSchema.index({ tenantId: 1, workspaceId: 1, version: -1 }, { unique: true });
+
+module.exports = mongoose.models.WorkspaceVersion || mongoose.model('WorkspaceVersion', WorkspaceVersionSchema);
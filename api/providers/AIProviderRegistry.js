@@ -0,0 +1,92 @@
+/**
+ * AIProviderRegistry - Selects the AI provider for a tenant
+ *
+ * Providers are defined in public/data/ai-config/ai-models.json:
+ *
+ *   "providers": {
+ *     "default": "openai",
+ *     "definitions": { "openai": { "type": "openai" }, "mock": { "type": "mock" } },
+ *     "tenants": { "<tenant slug or id>": "mock" }
+ *   }
+ *
+ * The AI_PROVIDER environment variable overrides the selection for every
+ * tenant (e.g. AI_PROVIDER=mock in CI). One instance is kept per definition.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const OpenAIProvider = require('./OpenAIProvider');
+const MockAIProvider = require('./MockAIProvider');
+
+const MODELS_CONFIG_PATH = path.join(__dirname, '../../public/data/ai-config/ai-models.json');
+
+const providerTypes = new Map([
+  ['openai', OpenAIProvider],
+  ['mock', MockAIProvider]
+]);
+const instances = new Map();
+let cachedConfig = null;
+
+class AIProviderRegistry {
+  /**
+   * Register a provider implementation for definitions of this type
+   *
+   * @param {String} type - Definition "type"
+   * @param {Function} ProviderClass - Subclass of BaseAIProvider
+   */
+  static registerProviderType(type, ProviderClass) {
+    providerTypes.set(type, ProviderClass);
+  }
+
+  /**
+   * Provider section of ai-models.json (cached after the first read)
+   */
+  static getConfig() {
+    if (!cachedConfig) {
+      cachedConfig = JSON.parse(fs.readFileSync(MODELS_CONFIG_PATH, 'utf8')).providers || {};
+    }
+    return cachedConfig;
+  }
+
+  /**
+   * Replace the provider configuration (tests and metadata reloads)
+   *
+   * @param {Object|null} config - Provider section, or null to re-read the file
+   */
+  static setConfig(config) {
+    cachedConfig = config;
+    instances.clear();
+  }
+
+  /**
+   * Name of the provider definition used for a tenant
+   *
+   * @param {Object} tenant - { tenantId, tenantSlug } (request.user works)
+   */
+  static resolveProviderName(tenant = {}) {
+    if (process.env.AI_PROVIDER) return process.env.AI_PROVIDER;
+    const { default: defaultProvider = 'openai', tenants = {} } = AIProviderRegistry.getConfig();
+    return tenants[tenant?.tenantSlug] || tenants[tenant?.tenantId] || defaultProvider;
+  }
+
+  /**
+   * Provider for a tenant (the default provider without one)
+   *
+   * @param {Object} [tenant] - { tenantId, tenantSlug }
+   * @returns {BaseAIProvider}
+   */
+  static getProvider(tenant = {}) {
+    const name = AIProviderRegistry.resolveProviderName(tenant);
+    if (!instances.has(name)) {
+      const definition = AIProviderRegistry.getConfig().definitions?.[name] || { type: name };
+      const ProviderClass = providerTypes.get(definition.type);
+      if (!ProviderClass) {
+        throw new Error(`Unknown AI provider type: ${definition.type}`);
+      }
+      instances.set(name, new ProviderClass({ ...definition, name }));
+    }
+    return instances.get(name);
+  }
+}
+
+module.exports = AIProviderRegistry;
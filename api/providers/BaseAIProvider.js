@@ -0,0 +1,65 @@
+/**
+ * BaseAIProvider - Contract for AI providers
+ *
+ * Providers take and return OpenAI-compatible payloads, so the gateway,
+ * AIService and the RAG chat can switch providers without reshaping
+ * requests or responses:
+ * - chat(params)            Chat Completions response
+ * - chatStream(params)      async iterable of chat.completion.chunk objects
+ * - respond(params)         Responses API response (vision: input_image parts)
+ * - respondStream(params)   async iterable of Responses API stream events
+ * - embed(params)           { data: [{ embedding }], usage }
+ * - transcribe(params)      { text } (a string for response_format "text");
+ *                           params.file is { buffer, filename, mimetype }
+ */
+
+class BaseAIProvider {
+  /**
+   * @param {Object} config - Provider definition from ai-models.json (plus its name)
+   */
+  constructor(config = {}) {
+    this.config = config;
+    this.name = config.name || this.constructor.name;
+  }
+
+  /**
+   * Operations this provider implements
+   */
+  get capabilities() {
+    return ['chat', 'stream', 'vision', 'embeddings', 'transcription'];
+  }
+
+  supports(capability) {
+    return this.capabilities.includes(capability);
+  }
+
+  notImplemented(operation) {
+    return new Error(`AI provider ${this.name} does not support ${operation}`);
+  }
+
+  async chat() {
+    throw this.notImplemented('chat');
+  }
+
+  async chatStream() {
+    throw this.notImplemented('streaming');
+  }
+
+  async respond() {
+    throw this.notImplemented('responses');
+  }
+
+  async respondStream() {
+    throw this.notImplemented('streaming');
+  }
+
+  async embed() {
+    throw this.notImplemented('embeddings');
+  }
+
+  async transcribe() {
+    throw this.notImplemented('transcription');
+  }
+}
+
+module.exports = BaseAIProvider;
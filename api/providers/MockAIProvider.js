@@ -0,0 +1,215 @@
+/**
+ * MockAIProvider - Deterministic local provider for CI and air-gapped sites
+ *
+ * Answers from recorded fixtures (public/data/ai-config/mock-fixtures.json by
+ * default, or the definition's "fixtures" path). The first fixture whose
+ * "match" fits the request wins:
+ * - operation: chat | respond | transcribe (string or list)
+ * - model: exact model name
+ * - contains: text that must appear in the prompt (case-insensitive)
+ * - hasImages: true for vision requests
+ * - format: "json" when the request asks for a JSON object
+ *
+ * Ids, token counts and embeddings are derived from the input, so the same
+ * request always produces the same response. Embeddings are hashed
+ * bag-of-words vectors: texts sharing words score as similar in vector search.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const BaseAIProvider = require('./BaseAIProvider');
+
+const DEFAULT_FIXTURES = 'public/data/ai-config/mock-fixtures.json';
+const REPO_ROOT = path.join(__dirname, '../..');
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(text) {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+const countTokens = text => Math.ceil((text || '').length / 4);
+
+/**
+ * Prompt text of a chat, Responses or embeddings payload
+ */
+function collectText(value) {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(collectText).filter(Boolean).join('\n');
+  if (value && typeof value === 'object') {
+    if (value.type === 'input_image' || value.type === 'image_url') return '';
+    return collectText(value.text ?? value.content ?? value.input ?? value.messages ?? '');
+  }
+  return '';
+}
+
+function hasImages(params = {}) {
+  const parts = [];
+  [...(params.messages || []), ...(Array.isArray(params.input) ? params.input : [])].forEach(message => {
+    if (Array.isArray(message?.content)) parts.push(...message.content);
+  });
+  return parts.some(part => part?.type === 'input_image' || part?.type === 'image_url');
+}
+
+function wantsJson(params = {}) {
+  return params.response_format?.type === 'json_object' || params.text?.format?.type === 'json_object';
+}
+
+/**
+ * Split text into stream deltas (words with their trailing whitespace)
+ */
+const toDeltas = text => text.match(/\S+\s*|\s+/g) || [];
+
+class MockAIProvider extends BaseAIProvider {
+  /**
+   * Recorded fixtures (cached after the first read)
+   *
+   * @returns {Object} { embeddingDimensions, fixtures }
+   */
+  getFixtures() {
+    if (!this.fixtures) {
+      const file = path.resolve(REPO_ROOT, this.config.fixtures || DEFAULT_FIXTURES);
+      this.fixtures = JSON.parse(fs.readFileSync(file, 'utf8'));
+    }
+    return this.fixtures;
+  }
+
+  /**
+   * Replace the fixtures (tests)
+   */
+  setFixtures(fixtures) {
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * First fixture matching the request
+   */
+  findFixture(operation, params = {}) {
+    const text = collectText(params.messages || params.input || '').toLowerCase();
+    const fixture = (this.getFixtures().fixtures || []).find(({ match = {} }) => {
+      const operations = [].concat(match.operation || []);
+      if (operations.length > 0 && !operations.includes(operation)) return false;
+      if (match.model && match.model !== params.model) return false;
+      if (match.contains && !text.includes(String(match.contains).toLowerCase())) return false;
+      if (match.hasImages !== undefined && match.hasImages !== hasImages(params)) return false;
+      if (match.format === 'json' && !wantsJson(params)) return false;
+      return true;
+    });
+    if (!fixture) {
+      throw new Error(`No mock AI fixture matches this ${operation} request`);
+    }
+    return fixture;
+  }
+
+  /**
+   * Fixture output as text ({ json } fixtures are serialized)
+   */
+  reply(operation, params) {
+    const { id, response = {} } = this.findFixture(operation, params);
+    const output = response.json !== undefined ? JSON.stringify(response.json) : String(response.text ?? '');
+    const prompt = collectText(params.messages || params.input || '');
+    return {
+      fixtureId: id,
+      id: `mock_${hash(`${operation}:${params.model}:${prompt}`).toString(36)}`,
+      output,
+      promptTokens: countTokens(prompt),
+      completionTokens: countTokens(output)
+    };
+  }
+
+  async chat(params) {
+    const { id, output, promptTokens, completionTokens } = this.reply('chat', params);
+    return {
+      id,
+      object: 'chat.completion',
+      created: 0,
+      model: params.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: output }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    };
+  }
+
+  async chatStream(params) {
+    const { id, output } = this.reply('chat', params);
+    const chunk = (delta, finishReason = null) => ({
+      id,
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: params.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    });
+    return (async function* stream() {
+      for (const piece of toDeltas(output)) {
+        yield chunk({ content: piece });
+      }
+      yield chunk({}, 'stop');
+    })();
+  }
+
+  buildResponse(params, { id, output, promptTokens, completionTokens }) {
+    return {
+      id,
+      object: 'response',
+      created_at: 0,
+      model: params.model,
+      status: 'completed',
+      output_text: output,
+      output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text: output }] }],
+      usage: { input_tokens: promptTokens, output_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    };
+  }
+
+  async respond(params) {
+    return this.buildResponse(params, this.reply('respond', params));
+  }
+
+  async respondStream(params) {
+    const reply = this.reply('respond', params);
+    const response = this.buildResponse(params, reply);
+    return (async function* stream() {
+      yield { type: 'response.created', response: { ...response, status: 'in_progress', output: [], output_text: '', usage: null } };
+      for (const delta of toDeltas(reply.output)) {
+        yield { type: 'response.output_text.delta', delta };
+      }
+      yield { type: 'response.output_text.done', text: reply.output };
+      yield { type: 'response.completed', response };
+    })();
+  }
+
+  /**
+   * Hashed bag-of-words vector, normalized to length 1
+   */
+  embedText(text) {
+    const dimensions = this.config.embeddingDimensions || this.getFixtures().embeddingDimensions || 1536;
+    const vector = new Array(dimensions).fill(0);
+    (String(text).toLowerCase().match(/[a-z0-9]+/g) || []).forEach(word => {
+      vector[hash(word) % dimensions] += 1;
+    });
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / length);
+  }
+
+  async embed({ model, input }) {
+    const inputs = Array.isArray(input) ? input : [input];
+    const tokens = inputs.reduce((sum, text) => sum + countTokens(String(text)), 0);
+    return {
+      object: 'list',
+      model,
+      data: inputs.map((text, index) => ({ object: 'embedding', index, embedding: this.embedText(text) })),
+      usage: { prompt_tokens: tokens, total_tokens: tokens }
+    };
+  }
+
+  async transcribe(params) {
+    const { output } = this.reply('transcribe', { model: params.model, input: params.file?.filename || '' });
+    return params.response_format === 'text' ? output : { text: output };
+  }
+}
+
+module.exports = MockAIProvider;
@@ -0,0 +1,56 @@
+/**
+ * OpenAIProvider - OpenAI (or an OpenAI-compatible server via baseUrl)
+ *
+ * Definition options (ai-models.json → providers.definitions):
+ * - apiKeyEnv: environment variable holding the key (default OPENAI_API_KEY)
+ * - baseUrl: alternative endpoint, e.g. a self-hosted compatible server
+ */
+
+const OpenAI = require('openai');
+const BaseAIProvider = require('./BaseAIProvider');
+
+class OpenAIProvider extends BaseAIProvider {
+  /**
+   * SDK client, created on first use so the API starts without a key
+   */
+  getClient() {
+    if (!this.client) {
+      const keyEnv = this.config.apiKeyEnv || 'OPENAI_API_KEY';
+      if (!process.env[keyEnv]) {
+        throw new Error(`${keyEnv} environment variable is required`);
+      }
+      this.client = new OpenAI({
+        apiKey: process.env[keyEnv],
+        ...(this.config.baseUrl && { baseURL: this.config.baseUrl })
+      });
+    }
+    return this.client;
+  }
+
+  async chat(params) {
+    return this.getClient().chat.completions.create({ ...params, stream: false });
+  }
+
+  async chatStream(params) {
+    return this.getClient().chat.completions.create({ ...params, stream: true });
+  }
+
+  async respond(params) {
+    return this.getClient().responses.create({ ...params, stream: false });
+  }
+
+  async respondStream(params) {
+    return this.getClient().responses.create({ ...params, stream: true });
+  }
+
+  async embed(params) {
+    return this.getClient().embeddings.create(params);
+  }
+
+  async transcribe({ file, ...params }) {
+    const upload = await OpenAI.toFile(file.buffer, file.filename, { type: file.mimetype });
+    return this.getClient().audio.transcriptions.create({ ...params, file: upload });
+  }
+}
+
+module.exports = OpenAIProvider;
@@ -65,6 +65,9 @@ class DocumentRepository extends BaseRepository {
     
     // Store document type for automatic filtering
     this.documentType = documentType;
+
+    // Documents carry a revision number for optimistic concurrency
+    this.versioned = true;
   }
 
   /**
@@ -106,14 +109,15 @@ class DocumentRepository extends BaseRepository {
    * 
    * @param {string} id - Document ID
    * @param {Object} updates - Update data
+   * @param {Object} options - { expectedRevision } (see BaseRepository.update)
    * @returns {Promise<Object>}
    */
-  async update(id, updates) {
+  async update(id, updates, options = {}) {
     // Remove type from updates (shouldn't be changed)
     const { type, ...safeUpdates } = updates;
     
     // Call parent update
-    return super.update(id, safeUpdates);
+    return super.update(id, safeUpdates, options);
   }
 
   /**
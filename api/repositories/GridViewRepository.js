@@ -0,0 +1,169 @@
+/**
+ * Grid View Repository
+ *
+ * Data access for saved SGrid views. A user sees their own views and the views
+ * shared within their tenant; only the owner can change or delete a view.
+ * Views are always scoped to the context's own tenant, also for platform admins.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const BaseRepository = require('../core/BaseRepository');
+const GridViewModel = require('../models/GridView');
+const { AuthorizationError, ConflictError, NotFoundError, ValidationError } = require('../core/ErrorHandler');
+
+class GridViewRepository extends BaseRepository {
+  constructor(tenantContext, requestContext = null) {
+    super(GridViewModel, tenantContext, requestContext);
+  }
+
+  buildBaseQuery(filters = {}) {
+    const query = super.buildBaseQuery(filters);
+    query.tenantId = this.context.tenantId;
+    return query;
+  }
+
+  /**
+   * Client shape of a view for the current user (defaultFor stays private)
+   *
+   * @param {Object} view - Stored view
+   * @returns {Object}
+   */
+  toClientView(view) {
+    return {
+      id: view.id,
+      gridId: view.gridId,
+      name: view.name,
+      shared: !!view.shared,
+      state: view.state || {},
+      owner: view.userId,
+      isOwner: view.userId === this.context.userId,
+      isDefault: (view.defaultFor || []).includes(this.context.userId),
+      last_updated: view.last_updated
+    };
+  }
+
+  /**
+   * Own and shared views of a grid, own views first
+   *
+   * @param {String} gridId - Grid ID
+   * @returns {Promise<Array>}
+   */
+  async listForUser(gridId) {
+    const views = await this.find(
+      { gridId, $or: [{ userId: this.context.userId }, { shared: true }] },
+      { sort: { name: 1 } }
+    );
+    return views
+      .map(view => this.toClientView(view))
+      .sort((a, b) => Number(b.isOwner) - Number(a.isOwner));
+  }
+
+  /**
+   * A view the current user owns
+   *
+   * @param {String} viewId - View ID
+   * @returns {Promise<Object>}
+   * @throws {NotFoundError|AuthorizationError}
+   */
+  async getOwnedView(viewId) {
+    const view = await this.findById(viewId);
+    if (!view) {
+      throw new NotFoundError('Grid view', viewId);
+    }
+    if (view.userId !== this.context.userId) {
+      throw new AuthorizationError('Only the owner can change a saved view');
+    }
+    return view;
+  }
+
+  async assertNameAvailable(gridId, name, exceptId = null) {
+    const existing = await this.findOne({ gridId, userId: this.context.userId, name });
+    if (existing && existing.id !== exceptId) {
+      throw new ConflictError(`A view named "${name}" already exists`, { viewId: existing.id });
+    }
+  }
+
+  /**
+   * Save a new view owned by the current user
+   *
+   * @param {Object} data - { gridId, name, shared, state, isDefault }
+   * @returns {Promise<Object>} Client view
+   */
+  async createView({ gridId, name, shared = false, state = {}, isDefault = false }) {
+    if (!this.context.tenantId || !this.context.userId) {
+      throw new ValidationError('A signed-in tenant user is required to save grid views');
+    }
+    await this.assertNameAvailable(gridId, name);
+
+    const created = await this.create({
+      id: uuidv4(),
+      gridId,
+      userId: this.context.userId,
+      name,
+      shared: !!shared,
+      state
+    });
+
+    if (isDefault) {
+      await this.setDefault(gridId, created.id);
+      return this.toClientView({ ...created, defaultFor: [this.context.userId] });
+    }
+    return this.toClientView(created);
+  }
+
+  /**
+   * Rename, share/unshare or overwrite the state of an owned view
+   *
+   * @param {String} viewId - View ID
+   * @param {Object} changes - { name?, shared?, state? }
+   * @returns {Promise<Object>} Client view
+   */
+  async updateView(viewId, changes) {
+    const view = await this.getOwnedView(viewId);
+    const updates = {};
+
+    if (changes.name !== undefined && changes.name !== view.name) {
+      await this.assertNameAvailable(view.gridId, changes.name, view.id);
+      updates.name = changes.name;
+    }
+    if (changes.shared !== undefined) updates.shared = !!changes.shared;
+    if (changes.state !== undefined) updates.state = changes.state;
+
+    // Other users who picked a view as their default lose it when it is unshared
+    if (updates.shared === false) {
+      updates.defaultFor = (view.defaultFor || []).filter(userId => userId === view.userId);
+    }
+
+    return this.toClientView(await this.update(viewId, updates));
+  }
+
+  async deleteView(viewId) {
+    await this.getOwnedView(viewId);
+    return await this.delete(viewId);
+  }
+
+  /**
+   * Make a view the current user's default for a grid; null clears the default
+   *
+   * @param {String} gridId - Grid ID
+   * @param {String|null} viewId - Own or shared view ID
+   * @returns {Promise<void>}
+   */
+  async setDefault(gridId, viewId) {
+    if (viewId) {
+      const view = await this.findOne({ id: viewId, gridId });
+      if (!view || (view.userId !== this.context.userId && !view.shared)) {
+        throw new NotFoundError('Grid view', viewId);
+      }
+    }
+
+    await this.model.updateMany(this.buildBaseQuery({ gridId }), { $pull: { defaultFor: this.context.userId } }).exec();
+    if (viewId) {
+      await this.model
+        .updateOne(this.buildBaseQuery({ id: viewId }), { $addToSet: { defaultFor: this.context.userId } })
+        .exec();
+    }
+  }
+}
+
+module.exports = GridViewRepository;
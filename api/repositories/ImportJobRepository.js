@@ -0,0 +1,83 @@
+/**
+ * Import Job Repository
+ *
+ * Data access for spreadsheet import jobs. Jobs are scoped to the context's
+ * own tenant and only the user who started an import can read or roll it back.
+ */
+
+const BaseRepository = require('../core/BaseRepository');
+const ImportJobModel = require('../models/ImportJob');
+const { AuthorizationError, NotFoundError } = require('../core/ErrorHandler');
+
+class ImportJobRepository extends BaseRepository {
+  constructor(tenantContext, requestContext = null) {
+    super(ImportJobModel, tenantContext, requestContext);
+  }
+
+  buildBaseQuery(filters = {}) {
+    const query = super.buildBaseQuery(filters);
+    query.tenantId = this.context.tenantId;
+    return query;
+  }
+
+  /**
+   * Client shape of a job; progress events leave out the row errors
+   *
+   * @param {Object} job - Stored job
+   * @param {Object} options - { withErrors }
+   * @returns {Object}
+   */
+  static toClientJob(job, { withErrors = true } = {}) {
+    const clientJob = {
+      id: job.id,
+      documentType: job.documentType,
+      status: job.status,
+      total: job.total,
+      processed: job.processed,
+      created: job.created,
+      updated: job.updated,
+      skipped: job.skipped,
+      failed: job.failed,
+      related: job.related || {},
+      error: job.error,
+      created_date: job.created_date,
+      completedAt: job.completedAt,
+      rollback: job.rollback
+    };
+    if (withErrors) {
+      clientJob.errors = job.rowErrors || [];
+    }
+    return clientJob;
+  }
+
+  /**
+   * A job the current user started
+   *
+   * @param {String} jobId - Job ID
+   * @returns {Promise<Object>}
+   * @throws {NotFoundError|AuthorizationError}
+   */
+  async getOwnedJob(jobId) {
+    const job = await this.findById(jobId);
+    if (!job) {
+      throw new NotFoundError('Import job', jobId);
+    }
+    if (job.userId !== this.context.userId) {
+      throw new AuthorizationError('Only the user who started an import can view or roll it back');
+    }
+    return job;
+  }
+
+  /**
+   * Store progress without an audit entry per write
+   *
+   * @param {String} jobId - Job ID
+   * @param {Object} fields - Fields to set
+   * @returns {Promise<void>}
+   */
+  async saveProgress(jobId, fields) {
+    await this.model.updateOne(this.buildBaseQuery({ id: jobId }), { $set: fields }).exec();
+  }
+}
+
+module.exports = ImportJobRepository;
@@ -0,0 +1,143 @@
+/**
+ * Import Template Repository
+ *
+ * Data access for column-mapping templates of the import wizard. Templates are
+ * shared within the context's own tenant (also for platform admins); only the
+ * user who saved a template can change or delete it.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const BaseRepository = require('../core/BaseRepository');
+const ImportTemplateModel = require('../models/ImportTemplate');
+const { AuthorizationError, ConflictError, NotFoundError, ValidationError } = require('../core/ErrorHandler');
+
+const normalizeHeader = header => String(header).trim().toLowerCase().replace(/\s+/g, ' ');
+
+class ImportTemplateRepository extends BaseRepository {
+  constructor(tenantContext, requestContext = null) {
+    super(ImportTemplateModel, tenantContext, requestContext);
+  }
+
+  buildBaseQuery(filters = {}) {
+    const query = super.buildBaseQuery(filters);
+    query.tenantId = this.context.tenantId;
+    return query;
+  }
+
+  /**
+   * Header fingerprint: normalized headers (trimmed, lower case, single
+   * spaces), de-duplicated and sorted, so column order does not matter
+   *
+   * @param {Array<String>} headers - Spreadsheet headers
+   * @returns {String}
+   */
+  static fingerprint(headers) {
+    return Array.from(new Set(headers.map(normalizeHeader).filter(Boolean))).sort().join('|');
+  }
+
+  toClientTemplate(template) {
+    return {
+      id: template.id,
+      documentType: template.documentType,
+      name: template.name,
+      fingerprint: template.fingerprint,
+      headers: template.headers || [],
+      mappings: template.mappings || [],
+      transforms: template.transforms || {},
+      defaults: template.defaults || {},
+      owner: template.userId,
+      isOwner: template.userId === this.context.userId,
+      last_updated: template.last_updated
+    };
+  }
+
+  /**
+   * Templates of a document type, by name
+   *
+   * @param {String} documentType - Document type
+   * @returns {Promise<Array>}
+   */
+  async listForType(documentType) {
+    const templates = await this.find({ documentType }, { sort: { name: 1 } });
+    return templates.map(template => this.toClientTemplate(template));
+  }
+
+  /**
+   * A template the current user saved
+   *
+   * @param {String} templateId - Template ID
+   * @returns {Promise<Object>}
+   * @throws {NotFoundError|AuthorizationError}
+   */
+  async getOwnedTemplate(templateId) {
+    const template = await this.findById(templateId);
+    if (!template) {
+      throw new NotFoundError('Import template', templateId);
+    }
+    if (template.userId !== this.context.userId) {
+      throw new AuthorizationError('Only the user who saved a template can change it');
+    }
+    return template;
+  }
+
+  async assertNameAvailable(documentType, name, exceptId = null) {
+    const existing = await this.findOne({ documentType, name });
+    if (existing && existing.id !== exceptId) {
+      throw new ConflictError(`A template named "${name}" already exists`, { templateId: existing.id });
+    }
+  }
+
+  /**
+   * Save a new template
+   *
+   * @param {Object} data - { documentType, name, headers, mappings, transforms, defaults }
+   * @returns {Promise<Object>} Client template
+   */
+  async createTemplate({ documentType, name, headers, mappings, transforms = {}, defaults = {} }) {
+    if (!this.context.tenantId || !this.context.userId) {
+      throw new ValidationError('A signed-in tenant user is required to save import templates');
+    }
+    await this.assertNameAvailable(documentType, name);
+
+    const created = await this.create({
+      id: uuidv4(),
+      documentType,
+      name,
+      fingerprint: ImportTemplateRepository.fingerprint(headers),
+      headers,
+      mappings,
+      transforms,
+      defaults,
+      userId: this.context.userId
+    });
+    return this.toClientTemplate(created);
+  }
+
+  /**
+   * Rename or overwrite an owned template
+   *
+   * @param {String} templateId - Template ID
+   * @param {Object} changes - { name?, headers?, mappings?, transforms?, defaults? }
+   * @returns {Promise<Object>} Client template
+   */
+  async updateTemplate(templateId, changes) {
+    const template = await this.getOwnedTemplate(templateId);
+    const updates = { ...changes };
+
+    if (changes.name !== undefined && changes.name !== template.name) {
+      await this.assertNameAvailable(template.documentType, changes.name, template.id);
+    }
+    if (changes.headers !== undefined) {
+      updates.fingerprint = ImportTemplateRepository.fingerprint(changes.headers);
+    }
+
+    return this.toClientTemplate(await this.update(templateId, updates));
+  }
+
+  async deleteTemplate(templateId) {
+    await this.getOwnedTemplate(templateId);
+    return await this.delete(templateId);
+  }
+}
+
+module.exports = ImportTemplateRepository;
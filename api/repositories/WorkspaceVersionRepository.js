@@ -0,0 +1,121 @@
+/**
+ * Workspace Version Repository
+ *
+ * Data access for versioned tenant workspace overrides.
+ * Versions are always read and written for the context's own tenant, also for
+ * platform admins, so overrides of different tenants never mix.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const BaseRepository = require('../core/BaseRepository');
+const WorkspaceVersionModel = require('../models/WorkspaceVersion');
+const { ConflictError, NotFoundError, ValidationError } = require('../core/ErrorHandler');
+
+// Saves racing for the same version number retry with the next one
+const MAX_VERSION_ATTEMPTS = 5;
+
+const isDuplicateKey = error =>
+  error.code === 11000 || /E11000/.test((error.details && error.details.originalError) || error.message || '');
+
+class WorkspaceVersionRepository extends BaseRepository {
+  constructor(tenantContext, requestContext = null) {
+    super(WorkspaceVersionModel, tenantContext, requestContext);
+  }
+
+  buildBaseQuery(filters = {}) {
+    const query = super.buildBaseQuery(filters);
+    query.tenantId = this.context.tenantId;
+    return query;
+  }
+
+  /**
+   * Current overrides of a workspace (the latest version), or null
+   *
+   * @param {String} workspaceId - Workspace ID (e.g. system-admin/bulk-operations)
+   * @returns {Promise<Object|null>}
+   */
+  async getLatest(workspaceId) {
+    const [latest] = await this.find({ workspaceId }, { sort: { version: -1 }, limit: 1 });
+    return latest || null;
+  }
+
+  /**
+   * Version history of a workspace, newest first
+   *
+   * @param {String} workspaceId - Workspace ID
+   * @returns {Promise<Array>}
+   */
+  async getHistory(workspaceId) {
+    return await this.find({ workspaceId }, { sort: { version: -1 } });
+  }
+
+  /**
+   * A specific version of a workspace
+   *
+   * @param {String} workspaceId - Workspace ID
+   * @param {Number} version - Version number
+   * @returns {Promise<Object>}
+   * @throws {NotFoundError} If the version does not exist
+   */
+  async getVersion(workspaceId, version) {
+    const found = await this.findOne({ workspaceId, version: Number(version) });
+    if (!found) {
+      throw new NotFoundError('Workspace version', `${workspaceId}@${version}`);
+    }
+    return found;
+  }
+
+  /**
+   * Save overrides as the next version of a workspace
+   *
+   * @param {String} workspaceId - Workspace ID
+   * @param {Object|null} overrides - Tenant overrides (null resets to the default)
+   * @param {Object} options - { comment, restoredFrom }
+   * @returns {Promise<Object>} Created version
+   * @throws {ConflictError} If concurrent saves keep taking the next version number
+   */
+  async createVersion(workspaceId, overrides, options = {}) {
+    if (!this.context.tenantId) {
+      throw new ValidationError('Tenant ID is required to save workspace overrides');
+    }
+
+    // The unique (tenantId, workspaceId, version) index rejects a version number
+    // that a concurrent save took between reading the latest and creating
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.getLatest(workspaceId);
+      try {
+        return await this.create({
+          id: uuidv4(),
+          workspaceId,
+          version: latest ? latest.version + 1 : 1,
+          overrides,
+          comment: options.comment,
+          restoredFrom: options.restoredFrom
+        });
+      } catch (error) {
+        if (!isDuplicateKey(error)) throw error;
+        if (attempt === MAX_VERSION_ATTEMPTS) {
+          throw new ConflictError('Workspace overrides were saved concurrently, please retry', { workspaceId });
+        }
+      }
+    }
+  }
+
+  /**
+   * Restore the overrides of an earlier version as a new version
+   *
+   * @param {String} workspaceId - Workspace ID
+   * @param {Number} version - Version to restore
+   * @param {String} comment - Optional comment
+   * @returns {Promise<Object>} Created version
+   */
+  async rollback(workspaceId, version, comment) {
+    const target = await this.getVersion(workspaceId, version);
+    return await this.createVersion(workspaceId, target.overrides, {
+      comment: comment || `Rolled back to version ${target.version}`,
+      restoredFrom: target.version
+    });
+  }
+}
+
+module.exports = WorkspaceVersionRepository;
@@ -0,0 +1,119 @@
+/**
+ * Access Control API
+ *
+ * Effective-access report and permission simulator for tenant admins:
+ * what a user can actually do, where each permission comes from, and what a
+ * permission check would decide before a role change is saved.
+ */
+
+const mongoose = require('mongoose');
+const { logger } = require('../core/Logger');
+const { requireTenantAdmin } = require('../core/AuthMiddleware');
+const AccessReportService = require('../services/AccessReportService');
+
+/**
+ * Tenant being administered; platform admins may pick any tenant
+ */
+function resolveTenantId(request) {
+  const requested = request.query.tenantId || (request.body && request.body.tenantId);
+  if (request.user.isPlatformAdmin && requested) {
+    return String(requested);
+  }
+  return request.user.tenantId;
+}
+
+function sendError(reply, error, message) {
+  logger.error(message, { error: error.message });
+  return reply.code(error.statusCode || 500).send({
+    success: false,
+    error: error.message,
+    code: error.code
+  });
+}
+
+async function registerAccessControlRoutes(fastify) {
+  /**
+   * GET /api/access-control/users
+   * Tenant users as options for the simulator's user picker
+   */
+  fastify.get('/users', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const db = mongoose.connection;
+      if (!db || db.readyState !== 1) {
+        return reply.code(500).send({ error: 'Database not connected' });
+      }
+
+      const tenantId = resolveTenantId(request);
+      const tenantValues = [tenantId];
+      if (mongoose.Types.ObjectId.isValid(tenantId)) {
+        tenantValues.push(new mongoose.Types.ObjectId(tenantId));
+      }
+
+      const users = await db.collection('users')
+        .find({ tenantId: { $in: tenantValues } }, { projection: { userId: 1, email: 1, firstName: 1, lastName: 1, name: 1 } })
+        .sort({ email: 1 })
+        .toArray();
+
+      return reply.send(users.map(user => ({
+        value: user.userId || String(user._id),
+        label: user.name || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+        email: user.email
+      })));
+    } catch (error) {
+      return sendError(reply, error, 'Error fetching access-control users');
+    }
+  });
+
+  /**
+   * GET /api/access-control/users/:userId/effective-permissions
+   * Fully resolved permission set of a user with the origin of each permission
+   */
+  fastify.get('/users/:userId/effective-permissions', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const report = await AccessReportService.getEffectiveAccess(request.params.userId, resolveTenantId(request));
+      return reply.send({ success: true, data: report });
+    } catch (error) {
+      return sendError(reply, error, 'Error resolving effective permissions');
+    }
+  });
+
+  /**
+   * POST /api/access-control/simulate
+   * Dry-run a permission check for a user, resource and action.
+   * Body: { userId, action, resource?, route?, ipAddress?, time?, roleIds?, roleDrafts? }
+   * ipAddress and time stand in for the request attributes access policies may check.
+   */
+  fastify.post('/simulate', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const { userId, action, resource, route, ipAddress, time, roleIds, roleDrafts } = request.body || {};
+      const tenantId = resolveTenantId(request);
+
+      const result = await AccessReportService.simulate({
+        userId,
+        tenantId,
+        action,
+        resource: resource ? { tenantId, ...resource } : undefined,
+        route,
+        ipAddress,
+        time,
+        roleIds,
+        roleDrafts
+      });
+
+      logger.info('Permission simulated', {
+        adminUserId: request.user.userId,
+        userId,
+        tenantId,
+        action,
+        resourceType: resource && resource.type,
+        granted: result.decision.granted
+      });
+
+      return reply.send({ success: true, data: result });
+    } catch (error) {
+      return sendError(reply, error, 'Error simulating permission');
+    }
+  });
+}
+
+module.exports = registerAccessControlRoutes;
@@ -67,7 +67,7 @@ async function registerAIColumnMappingRoutes(fastify) {
       );
       
       // Call AI for verification
-      const result = await verifyMapping(verificationConfig, context);
+      const result = await verifyMapping({ ...verificationConfig, tenant: request.user, feature: 'column-mapping' }, context);
       
       return reply.send({
         success: true,
@@ -81,9 +81,10 @@ async function registerAIColumnMappingRoutes(fastify) {
         error: error.message
       });
       
-      return reply.code(500).send({
+      return reply.code(error.statusCode || 500).send({
         success: false,
         error: 'AI verification failed',
+        code: error.code,
         message: error.message
       });
     }
@@ -109,7 +110,9 @@ async function registerAIColumnMappingRoutes(fastify) {
       // Note: Batch mode builds prompt dynamically, so userPromptTemplate is NOT required
       const suggestionConfig = {
         model: aiConfig.model || 'gpt-4o-mini',
-        systemPrompt: aiConfig.systemPrompt
+        systemPrompt: aiConfig.systemPrompt,
+        tenant: request.user,
+        feature: 'column-mapping'
       };
       
       // Add model-specific parameters
@@ -329,9 +332,10 @@ Now map all ${columns.length} columns. Return ONLY the JSON object with "mapping
         stack: error.stack
       });
       
-      return reply.code(500).send({
+      return reply.code(error.statusCode || 500).send({
         success: false,
         error: 'Batch AI mapping failed',
+        code: error.code,
         message: error.message
       });
     }
@@ -357,7 +361,9 @@ Now map all ${columns.length} columns. Return ONLY the JSON object with "mapping
       const suggestionConfig = {
         model: aiConfig.model || 'gpt-4o-mini',
         systemPrompt: aiConfig.systemPrompt,
-        userPromptTemplate: aiConfig.userPromptTemplate
+        userPromptTemplate: aiConfig.userPromptTemplate,
+        tenant: request.user,
+        feature: 'column-mapping'
       };
       
       // Add GPT-5 specific parameters if using GPT-5
@@ -407,9 +413,10 @@ Now map all ${columns.length} columns. Return ONLY the JSON object with "mapping
         error: error.message
       });
       
-      return reply.code(500).send({
+      return reply.code(error.statusCode || 500).send({
         success: false,
         error: 'AI suggestion failed',
+        code: error.code,
         message: error.message
       });
     }
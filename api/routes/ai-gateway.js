@@ -0,0 +1,170 @@
+/**
+ * AI Gateway API
+ *
+ * Authenticated proxy for the AI calls made by the browser (useOpenAI).
+ * The provider key, tenant quotas, model allow-lists, prompt redaction and
+ * usage recording all live in AIGatewayService; these routes only translate
+ * between HTTP and the service.
+ *
+ * Calls name the feature they belong to (body.feature, or the multipart
+ * "feature" field) for usage metering. Past the tenant's budget warning
+ * threshold, responses carry X-AI-Budget-Status: warning and
+ * X-AI-Budget-Percent.
+ *
+ * Routes:
+ * - POST /api/ai/gateway/chat/completions
+ * - POST /api/ai/gateway/responses (body.stream = true for server-sent events)
+ * - POST /api/ai/gateway/audio/transcriptions (multipart: file, model, language, response_format, feature)
+ * - GET  /api/ai/gateway/usage
+ */
+
+const { logger } = require('../core/Logger');
+const { requireAuth } = require('../core/AuthMiddleware');
+const AIGatewayService = require('../services/AIGatewayService');
+
+function sendError(reply, error, request, fallback) {
+  const statusCode = error.statusCode || error.status || 500;
+  if (statusCode >= 500) {
+    logger.error(fallback, {
+      error: error.message,
+      userId: request.user?.userId,
+      tenantId: request.user?.tenantId
+    });
+  }
+  return reply.code(statusCode).send({
+    success: false,
+    error: error.message || fallback,
+    code: error.code,
+    details: error.details
+  });
+}
+
+/**
+ * Gateway call options: the metered feature, and budget warning headers
+ */
+function callOptions(reply, feature) {
+  return {
+    feature,
+    onBudget: (budget) => {
+      if (budget.status !== 'warning') return;
+      reply.header('X-AI-Budget-Status', budget.status);
+      reply.header('X-AI-Budget-Percent', String(budget.percent));
+    }
+  };
+}
+
+/**
+ * Register AI gateway routes
+ */
+async function registerAIGatewayRoutes(fastify) {
+
+  /**
+   * POST /api/ai/gateway/chat/completions
+   */
+  fastify.post('/ai/gateway/chat/completions', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const { feature, ...body } = request.body || {};
+      const data = await AIGatewayService.chatCompletion(request.user, body, callOptions(reply, feature));
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, request, 'AI chat request failed');
+    }
+  });
+
+  /**
+   * POST /api/ai/gateway/responses
+   * Streams provider events as SSE when body.stream is true
+   */
+  fastify.post('/ai/gateway/responses', { preHandler: requireAuth }, async (request, reply) => {
+    const { feature, ...body } = request.body || {};
+    const options = callOptions(reply, feature);
+    if (body.stream !== true) {
+      try {
+        const data = await AIGatewayService.respond(request.user, body, options);
+        return reply.send({ success: true, data });
+      } catch (error) {
+        return sendError(reply, error, request, 'AI responses request failed');
+      }
+    }
+
+    // Headers go out with the first event so policy errors still get a JSON response
+    let streaming = false;
+    const write = (event) => {
+      if (!streaming) {
+        reply.hijack();
+        reply.raw.writeHead(200, {
+          ...reply.getHeaders(),
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        });
+        streaming = true;
+      }
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+      await AIGatewayService.respondStream(request.user, body, write, options);
+      if (!streaming) return reply.send({ success: true, data: null });
+      reply.raw.write('data: [DONE]\n\n');
+      reply.raw.end();
+      return reply;
+    } catch (error) {
+      if (!streaming) {
+        return sendError(reply, error, request, 'AI streaming request failed');
+      }
+      logger.error('AI gateway stream failed', {
+        error: error.message,
+        userId: request.user?.userId,
+        tenantId: request.user?.tenantId
+      });
+      reply.raw.write(`data: ${JSON.stringify({ type: 'error', error: { message: error.message } })}\n\n`);
+      reply.raw.end();
+      return reply;
+    }
+  });
+
+  /**
+   * POST /api/ai/gateway/audio/transcriptions
+   */
+  fastify.post('/ai/gateway/audio/transcriptions', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const fields = {};
+      let audio = null;
+      for await (const part of request.parts()) {
+        if (part.type === 'file') {
+          audio = { buffer: await part.toBuffer(), filename: part.filename || 'audio.webm', mimetype: part.mimetype };
+        } else {
+          fields[part.fieldname] = part.value;
+        }
+      }
+      if (!audio) {
+        return reply.code(400).send({ success: false, error: 'No audio file provided', code: 'VALIDATION_ERROR' });
+      }
+
+      const { feature, ...transcriptionFields } = fields;
+      const data = await AIGatewayService.transcribe(request.user, audio, transcriptionFields, callOptions(reply, feature));
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, request, 'Audio transcription failed');
+    }
+  });
+
+  /**
+   * GET /api/ai/gateway/usage
+   * Tenant usage this month and its limits
+   */
+  fastify.get('/ai/gateway/usage', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const data = await AIGatewayService.getUsageSummary(request.user);
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, request, 'Failed to load AI usage');
+    }
+  });
+
+  logger.info('AI gateway routes registered');
+}
+
+module.exports = registerAIGatewayRoutes;
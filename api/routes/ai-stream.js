@@ -7,28 +7,14 @@
  * Framework Integration:
  * - Uses Logger for structured logging
  * - Uses AuthMiddleware for authentication
- * - Uses AIService for OpenAI integration
+ * - Uses AIService for template interpolation
+ * - Uses AIProviderRegistry for the tenant's AI provider
  */
 
 const { logger } = require('../core/Logger');
 const { requireAuth } = require('../core/AuthMiddleware');
 const { interpolateTemplate } = require('../core/AIService');
-const OpenAI = require('openai');
-
-// Initialize shared OpenAI client (same as AIService)
-let openaiClient = null;
-
-function getOpenAIClient() {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
-  return openaiClient;
-}
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
 
 /**
  * Register AI streaming routes
@@ -71,10 +57,9 @@ async function registerAIStreamRoutes(fastify) {
         });
       }
 
-      // Get OpenAI client
-      logger.debug('Getting OpenAI client...');
-      const openai = getOpenAIClient();
-      logger.debug('OpenAI client obtained');
+      // Get the tenant's AI provider
+      const provider = AIProviderRegistry.getProvider(request.user);
+      logger.debug('AI provider selected', { provider: provider.name });
 
       // Interpolate templates with context (using AIService utility)
       logger.debug('Interpolating templates...', {
@@ -115,15 +100,14 @@ async function registerAIStreamRoutes(fastify) {
         reply.hijack();
 
         try {
-          const streamResponse = await openai.chat.completions.create({
+          const streamResponse = await provider.chatStream({
             model,
             messages: [
               { role: 'system', content: interpolatedSystemPrompt },
               { role: 'user', content: interpolatedUserPrompt }
             ],
             temperature,
-            max_tokens: maxTokens,
-            stream: true
+            max_tokens: maxTokens
           });
 
           for await (const chunk of streamResponse) {
@@ -172,7 +156,7 @@ async function registerAIStreamRoutes(fastify) {
             userPromptPreview: interpolatedUserPrompt.substring(0, 200)
           });
           
-          const response = await openai.responses.create({
+          const response = await provider.respond({
             model,
             input: inputContent,
             max_output_tokens: maxTokens,
@@ -231,7 +215,7 @@ async function registerAIStreamRoutes(fastify) {
           }
         } else {
           // Use Chat Completions API for GPT-4 and other models
-          const response = await openai.chat.completions.create({
+          const response = await provider.chat({
             model,
             messages: [
               { role: 'system', content: interpolatedSystemPrompt },
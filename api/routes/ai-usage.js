@@ -0,0 +1,110 @@
+/**
+ * AI Usage API
+ *
+ * Usage dashboard and billing export for AI calls (metered by
+ * AIGatewayService). Tenant admins see their own tenant; platform admins see
+ * every tenant, or one with ?tenantId=.
+ *
+ * Routes (all accept ?period=YYYY-MM, default: this month):
+ * - GET /api/admin/ai-usage/stats  - KPI figures from the tenant usage totals
+ * - GET /api/admin/ai-usage        - rows per tenant, user, feature and model
+ * - GET /api/admin/ai-usage/export - the same rows as a CSV download
+ */
+
+const { logger } = require('../core/Logger');
+const { requireTenantAdmin } = require('../core/AuthMiddleware');
+const AIGatewayService = require('../services/AIGatewayService');
+
+/**
+ * Tenant the report is limited to (null: all tenants, platform admins only)
+ */
+function resolveTenant(request) {
+  const { user, query } = request;
+  if (!user.isPlatformAdmin) {
+    return { tenantId: user.tenantId, tenantSlug: user.tenantSlug };
+  }
+  if (query.tenantId) {
+    return query.tenantId === user.tenantId
+      ? { tenantId: user.tenantId, tenantSlug: user.tenantSlug }
+      : { tenantId: query.tenantId };
+  }
+  return null;
+}
+
+function sendError(reply, error, fallback) {
+  const statusCode = error.statusCode || 500;
+  if (statusCode >= 500) {
+    logger.error(fallback, { error: error.message });
+  }
+  return reply.code(statusCode).send({
+    success: false,
+    error: error.message || fallback,
+    code: error.code,
+    details: error.details
+  });
+}
+
+/**
+ * Register AI usage routes
+ */
+async function registerAIUsageRoutes(fastify) {
+
+  /**
+   * GET /api/admin/ai-usage/stats
+   */
+  fastify.get('/admin/ai-usage/stats', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const stats = await AIGatewayService.getDashboardStats({
+        period: request.query.period,
+        tenant: resolveTenant(request)
+      });
+      return reply.send({ success: true, stats });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load AI usage statistics');
+    }
+  });
+
+  /**
+   * GET /api/admin/ai-usage
+   */
+  fastify.get('/admin/ai-usage', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const tenant = resolveTenant(request);
+      const rows = await AIGatewayService.getUsageReport({
+        period: request.query.period,
+        tenantId: tenant?.tenantId
+      });
+      return reply.send({
+        data: rows.map(row => ({ id: `${row.tenantId}:${row.userId}:${row.feature}:${row.model}`, ...row })),
+        total: rows.length
+      });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load AI usage');
+    }
+  });
+
+  /**
+   * GET /api/admin/ai-usage/export
+   */
+  fastify.get('/admin/ai-usage/export', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const tenant = resolveTenant(request);
+      const rows = await AIGatewayService.getUsageReport({
+        period: request.query.period,
+        tenantId: tenant?.tenantId
+      });
+      const period = request.query.period || new Date().toISOString().slice(0, 7);
+      const filename = `ai-usage_${tenant ? `${tenant.tenantId}_` : ''}${period}.csv`;
+
+      reply.header('Content-Type', 'text/csv');
+      reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+      return reply.send(AIGatewayService.toCsv(rows));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to export AI usage');
+    }
+  });
+
+  logger.info('AI usage routes registered');
+}
+
+module.exports = registerAIUsageRoutes;
@@ -89,7 +89,11 @@ async function registerCalculatorRoutes(fastify) {
         icon: calculator.icon,
         tags: calculator.tags,
         uiDefinition,
+        mode: calculator.mode || calculator.calculationEngine?.mode || 'ai',
         calculations: calculator.calculations || calculator.calculationEngine?.calculations || [],
+        inputValidation: calculator.inputValidation || calculator.calculationEngine?.inputValidation || [],
+        outputs: calculator.outputs || calculator.calculationEngine?.outputs || [],
+        aiNarrative: calculator.aiNarrative || calculator.calculationEngine?.aiNarrative || null,
         aiPrompts: calculator.aiPrompts || calculator.calculationEngine?.prompts || {},
         aiPrompt: calculator.aiPrompt || ''
       };
@@ -29,6 +29,8 @@ const { requireAuth } = require('../core/AuthMiddleware');
 const { validateDocumentWithContext } = require('../core/SchemaValidator');
 const { APIError, ErrorTypes } = require('../core/ErrorHandler');
 const { logger } = require('../core/Logger');
+const InspectionLifecycleService = require('../services/InspectionLifecycleService');
+const { getInspectionLifecycle } = require('./inspections-fastify');
 const { nanoid } = require('nanoid');
 
 /**
@@ -504,6 +506,7 @@ async function registerDocumentRoutes(fastify) {
    * 
    * Body:
    * - type: Document type (required)
+   * - revision: Revision the client edited (optional; 409 with the current copy when stale)
    * - ... fields to update
    * 
    * Tenant validation: AUTOMATIC - will fail if not in user's tenant
@@ -513,7 +516,7 @@ async function registerDocumentRoutes(fastify) {
   fastify.put('/documents/:id', { preHandler: requireAuth }, async (request, reply) => {
     try {
       const { id } = request.params;
-      const { type, ...documentData } = request.body;
+      const { type, revision, ...documentData } = request.body;
 
       if (!type) {
         throw new APIError('Document type is required', ErrorTypes.VALIDATION_ERROR, 400);
@@ -530,13 +533,36 @@ async function registerDocumentRoutes(fastify) {
       const tenantContext = TenantContextFactory.fromRequest(request);
       const repository = new DocumentRepository(tenantContext, type, request.context);
 
+      // Inspections keep their lifecycle: locked ones are read-only and status,
+      // history and lock fields change only through transitions
+      let changes = validatedData;
+      let expectedRevision = revision;
+      let lifecycleUpdate = null;
+      if (type === 'inspection') {
+        const existing = await repository.findById(id);
+        if (!existing) {
+          throw new APIError('Document not found or access denied', ErrorTypes.NOT_FOUND, 404);
+        }
+        const actor = await InspectionLifecycleService.resolveActor(request.user);
+        const { record, lifecycle } = getInspectionLifecycle(existing);
+        lifecycleUpdate = { lifecycle, ...InspectionLifecycleService.prepareUpdate(lifecycle, record, validatedData, actor) };
+        changes = lifecycleUpdate.updates;
+        // The lock check holds only if nothing changed since the read
+        expectedRevision = revision ?? (existing.revision || 0);
+      }
+
       // Update document (audit automatic!)
-      const updated = await repository.update(id, validatedData);
+      const updated = await repository.update(id, changes, { expectedRevision });
 
       if (!updated) {
         throw new APIError('Document not found or access denied', ErrorTypes.NOT_FOUND, 404);
       }
 
+      if (lifecycleUpdate?.transition) {
+        const { transition, entry, lifecycle } = lifecycleUpdate;
+        await InspectionLifecycleService.notify(transition, updated, entry, lifecycle);
+      }
+
       return reply.send({
         success: true,
         data: updated,
@@ -685,3 +711,4 @@ function getDocumentPrefix(type) {
 }
 
 module.exports = registerDocumentRoutes;
+module.exports.getDocumentPrefix = getDocumentPrefix;
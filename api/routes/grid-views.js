@@ -0,0 +1,149 @@
+/**
+ * Grid Views API
+ *
+ * Saved views of SGrid search grids, stored per user and grid id. Views can be
+ * shared with the tenant, and each user can set one default view per grid.
+ *
+ * Grid ids may contain slashes (workspace/gadget), so they are passed as a
+ * query parameter or in the body rather than in the path.
+ */
+
+const { requireAuth } = require('../core/AuthMiddleware');
+const TenantContextFactory = require('../core/TenantContextFactory');
+const GridViewRepository = require('../repositories/GridViewRepository');
+const { ValidationError } = require('../core/ErrorHandler');
+
+const MAX_NAME_LENGTH = 100;
+
+const isPlainObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function requireGridId(gridId) {
+  if (typeof gridId !== 'string' || !gridId.trim()) {
+    throw new ValidationError('gridId is required');
+  }
+  return gridId.trim();
+}
+
+/**
+ * Check the fields of a create/update body; returns the accepted changes
+ */
+function validateViewChanges(body, { partial }) {
+  const errors = [];
+  const changes = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) errors.push('name is required');
+    else if (name.length > MAX_NAME_LENGTH) errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    else changes.name = name;
+  }
+  if (body.shared !== undefined) {
+    if (typeof body.shared !== 'boolean') errors.push('shared must be a boolean');
+    else changes.shared = body.shared;
+  }
+  if (body.state !== undefined || !partial) {
+    if (!isPlainObject(body.state)) errors.push('state must be an object');
+    else changes.state = body.state;
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid grid view', { errors });
+  }
+  return changes;
+}
+
+function sendError(request, reply, error, message) {
+  request.log.error({ err: error }, message);
+  return reply.code(error.statusCode || 500).send({
+    success: false,
+    error: error.message,
+    code: error.code,
+    details: error.details
+  });
+}
+
+async function registerGridViewRoutes(fastify) {
+  /**
+   * GET /api/grid-views?gridId=
+   * The user's own views and the views shared in the tenant
+   */
+  fastify.get('/', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const gridId = requireGridId(request.query.gridId);
+      const repository = new GridViewRepository(TenantContextFactory.fromRequest(request), request.context);
+      const views = await repository.listForUser(gridId);
+
+      return reply.send({ success: true, gridId, data: views });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error fetching grid views');
+    }
+  });
+
+  /**
+   * POST /api/grid-views
+   * Save a view. Body: { gridId, name, state, shared?, isDefault? }
+   */
+  fastify.post('/', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const body = request.body || {};
+      const gridId = requireGridId(body.gridId);
+      const changes = validateViewChanges(body, { partial: false });
+
+      const repository = new GridViewRepository(TenantContextFactory.fromRequest(request), request.context);
+      const view = await repository.createView({ ...changes, gridId, isDefault: body.isDefault === true });
+
+      return reply.code(201).send({ success: true, data: view });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error saving grid view');
+    }
+  });
+
+  /**
+   * PUT /api/grid-views/:viewId
+   * Rename, share/unshare or overwrite an own view. Body: { name?, shared?, state? }
+   */
+  fastify.put('/:viewId', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const changes = validateViewChanges(request.body || {}, { partial: true });
+      const repository = new GridViewRepository(TenantContextFactory.fromRequest(request), request.context);
+      const view = await repository.updateView(request.params.viewId, changes);
+
+      return reply.send({ success: true, data: view });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error updating grid view');
+    }
+  });
+
+  /**
+   * DELETE /api/grid-views/:viewId
+   */
+  fastify.delete('/:viewId', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const repository = new GridViewRepository(TenantContextFactory.fromRequest(request), request.context);
+      await repository.deleteView(request.params.viewId);
+
+      return reply.send({ success: true });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error deleting grid view');
+    }
+  });
+
+  /**
+   * POST /api/grid-views/default
+   * Set the user's default view of a grid. Body: { gridId, viewId } (viewId null clears it)
+   */
+  fastify.post('/default', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const body = request.body || {};
+      const gridId = requireGridId(body.gridId);
+      const repository = new GridViewRepository(TenantContextFactory.fromRequest(request), request.context);
+      await repository.setDefault(gridId, body.viewId || null);
+
+      return reply.send({ success: true, gridId, viewId: body.viewId || null });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error setting default grid view');
+    }
+  });
+}
+
+module.exports = registerGridViewRoutes;
@@ -12,15 +12,40 @@ const DocumentRepository = require('../repositories/DocumentRepository');
 const TenantContextFactory = require('../core/TenantContextFactory');
 const { ValidationError } = require('../core/ErrorHandler');
 
+const escapeRegex = value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Filter for a search: partial match on name, code, asset tag, tags or
+ * description, or (exact) a whole, case-insensitive asset tag or code, or the
+ * document id, as read from a scanned label
+ */
+function buildSearchFilter(query, exact) {
+  if (exact) {
+    const whole = { $regex: `^${escapeRegex(query.trim())}$`, $options: 'i' };
+    return { $or: [{ asset_tag: whole }, { code: whole }, { id: query.trim() }] };
+  }
+  return {
+    $or: [
+      { name: { $regex: query, $options: 'i' } },
+      { code: { $regex: query, $options: 'i' } },
+      { asset_tag: { $regex: query, $options: 'i' } },
+      { tags: { $regex: query, $options: 'i' } },
+      { description: { $regex: query, $options: 'i' } }
+    ]
+  };
+}
+
 async function registerHierarchySearchRoutes(fastify) {
   /**
    * Search across hierarchy
-   * GET /api/search/hierarchy?q=<query>&types=company,site,asset_group,asset
+   * GET /api/search/hierarchy?q=<query>&types=company,site,asset_group,asset&exact=true
    * 
-   * Returns matched documents with their parent path for tree expansion
+   * Returns matched documents with their parent path for tree expansion.
+   * exact=true looks up a scanned code (asset tag, code or id).
    */
   fastify.get('/search/hierarchy', { preHandler: requireAuth }, async (request, reply) => {
     const { q: query, types } = request.query;
+    const exact = request.query.exact === 'true';
 
     if (!query || query.trim().length === 0) {
       throw new ValidationError('Search query is required', { field: 'q' });
@@ -32,6 +57,7 @@ async function registerHierarchySearchRoutes(fastify) {
     logger.info('Searching hierarchy', {
       query,
       types: searchTypes,
+      exact,
       tenantId: tenantContext.tenantId
     });
 
@@ -42,24 +68,18 @@ async function registerHierarchySearchRoutes(fastify) {
       for (const docType of searchTypes) {
         const repository = new DocumentRepository(tenantContext, docType, request.context);
 
-        // ✅ Search by name, code, or tags (case-insensitive)
-        const matches = await repository.find({
-          $or: [
-            { name: { $regex: query, $options: 'i' } },
-            { code: { $regex: query, $options: 'i' } },
-            { tags: { $regex: query, $options: 'i' } },
-            { description: { $regex: query, $options: 'i' } }
-          ]
-        });
+        // ✅ Search by name, code, asset tag or tags (case-insensitive)
+        const matches = await repository.find(buildSearchFilter(query, exact));
 
         // ✅ For each match, build the parent path for tree expansion
         for (const match of matches) {
-          const path = await buildParentPath(match, tenantContext, request.context);
+          const ancestors = await buildAncestors(match, tenantContext, request.context);
           
           results.push({
             ...match,
             nodeType: docType,
-            path // Array of parent IDs: [companyId, siteId, groupId] (depending on level)
+            path: ancestors.map(ancestor => ancestor.id), // Array of parent IDs: [companyId, siteId, groupId] (depending on level)
+            ancestors // Same parents with their type: [{ type: 'site', id, name }, ...]
           });
         }
       }
@@ -89,14 +109,14 @@ async function registerHierarchySearchRoutes(fastify) {
 
 /**
  * Build parent path for a document
- * Returns array of parent IDs from root to this document
+ * Returns the parents from root to this document
  * 
  * @param {Object} doc - The document
  * @param {Object} tenantContext - Tenant context
  * @param {Object} requestContext - Request context
- * @returns {Promise<string[]>} Array of parent IDs
+ * @returns {Promise<Array<{type: string, id: string, name?: string}>>} Parents
  */
-async function buildParentPath(doc, tenantContext, requestContext) {
+async function buildAncestors(doc, tenantContext, requestContext) {
   const path = [];
 
   try {
@@ -111,12 +131,12 @@ async function buildParentPath(doc, tenantContext, requestContext) {
             const site = await siteRepo.findById(group.site_id);
             if (site) {
               if (site.company_id) {
-                path.push(site.company_id);
+                path.push({ type: 'company', id: site.company_id });
               }
-              path.push(group.site_id);
+              path.push({ type: 'site', id: group.site_id, name: site.name });
             }
           }
-          path.push(doc.asset_group_id);
+          path.push({ type: 'asset_group', id: doc.asset_group_id, name: group.name });
         }
       }
     }
@@ -127,16 +147,16 @@ async function buildParentPath(doc, tenantContext, requestContext) {
         const site = await siteRepo.findById(doc.site_id);
         if (site) {
           if (site.company_id) {
-            path.push(site.company_id);
+            path.push({ type: 'company', id: site.company_id });
           }
-          path.push(doc.site_id);
+          path.push({ type: 'site', id: doc.site_id, name: site.name });
         }
       }
     }
     // ✅ Site: company_id
     else if (doc.type === 'site') {
       if (doc.company_id) {
-        path.push(doc.company_id);
+        path.push({ type: 'company', id: doc.company_id });
       }
     }
     // ✅ Company: no parent
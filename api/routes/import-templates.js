@@ -0,0 +1,188 @@
+/**
+ * Import Templates API
+ *
+ * Column-mapping templates of the Data Import/Export gadget, shared within the
+ * tenant per document type. The gadget applies the template whose headers
+ * match an uploaded file and only asks AI about columns the template does not
+ * cover.
+ */
+
+const { requireAuth } = require('../core/AuthMiddleware');
+const TenantContextFactory = require('../core/TenantContextFactory');
+const ImportTemplateRepository = require('../repositories/ImportTemplateRepository');
+const { ValidationError } = require('../core/ErrorHandler');
+
+const MAX_NAME_LENGTH = 100;
+const MAX_COLUMNS = 500;
+
+const DATE_FORMATS = ['YYYY-MM-DD', 'YYYY/MM/DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY'];
+
+const isPlainObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+const isScalar = value => ['string', 'number', 'boolean'].includes(typeof value);
+const isFiniteNumber = value => typeof value === 'number' && isFinite(value);
+
+function requireDocumentType(documentType) {
+  if (typeof documentType !== 'string' || !documentType.trim()) {
+    throw new ValidationError('documentType is required');
+  }
+  return documentType.trim();
+}
+
+/**
+ * Problem with a value transform, or null when it is valid
+ */
+function checkTransform(field, transform) {
+  if (!isPlainObject(transform)) return `transform of ${field} must be an object`;
+  switch (transform.type) {
+    case 'unit':
+      if (!isFiniteNumber(transform.factor) || transform.factor === 0) return `unit transform of ${field} needs a non-zero factor`;
+      if (transform.offset !== undefined && !isFiniteNumber(transform.offset)) return `unit transform of ${field} has an invalid offset`;
+      return null;
+    case 'date':
+      return DATE_FORMATS.includes(transform.format)
+        ? null
+        : `date transform of ${field} must use one of ${DATE_FORMATS.join(', ')}`;
+    case 'enum':
+      return isPlainObject(transform.values) && Object.values(transform.values).every(isScalar)
+        ? null
+        : `value map of ${field} must map values to text, numbers or booleans`;
+    default:
+      return `transform of ${field} must be unit, date or enum`;
+  }
+}
+
+/**
+ * Check the fields of a create/update body; returns the accepted changes
+ */
+function validateTemplateChanges(body, { partial }) {
+  const errors = [];
+  const changes = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) errors.push('name is required');
+    else if (name.length > MAX_NAME_LENGTH) errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    else changes.name = name;
+  }
+  if (body.headers !== undefined || !partial) {
+    const { headers } = body;
+    if (!Array.isArray(headers) || headers.length === 0 || headers.length > MAX_COLUMNS ||
+        headers.some(header => typeof header !== 'string' || !header.trim())) {
+      errors.push(`headers must be 1 to ${MAX_COLUMNS} column names`);
+    } else {
+      changes.headers = headers;
+    }
+  }
+  if (body.mappings !== undefined || !partial) {
+    const { mappings } = body;
+    if (!Array.isArray(mappings) || mappings.some(mapping =>
+      !isPlainObject(mapping) ||
+      typeof mapping.excelColumn !== 'string' ||
+      (mapping.dbField !== null && typeof mapping.dbField !== 'string'))) {
+      errors.push('mappings must be a list of { excelColumn, dbField }');
+    } else {
+      changes.mappings = mappings.map(({ excelColumn, dbField }) => ({ excelColumn, dbField: dbField || null }));
+    }
+  }
+  if (body.transforms !== undefined) {
+    if (!isPlainObject(body.transforms)) {
+      errors.push('transforms must be an object of field transforms');
+    } else {
+      const problems = Object.keys(body.transforms)
+        .map(field => checkTransform(field, body.transforms[field]))
+        .filter(Boolean);
+      if (problems.length > 0) errors.push(...problems);
+      else changes.transforms = body.transforms;
+    }
+  }
+  if (body.defaults !== undefined) {
+    if (!isPlainObject(body.defaults) || !Object.values(body.defaults).every(isScalar)) {
+      errors.push('defaults must map fields to text, numbers or booleans');
+    } else {
+      changes.defaults = body.defaults;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid import template', { errors });
+  }
+  return changes;
+}
+
+function sendError(request, reply, error, message) {
+  request.log.error({ err: error }, message);
+  return reply.code(error.statusCode || 500).send({
+    success: false,
+    error: error.message,
+    code: error.code,
+    details: error.details
+  });
+}
+
+async function registerImportTemplateRoutes(fastify) {
+  /**
+   * GET /api/import-templates?documentType=
+   */
+  fastify.get('/', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const documentType = requireDocumentType(request.query.documentType);
+      const repository = new ImportTemplateRepository(TenantContextFactory.fromRequest(request), request.context);
+      const templates = await repository.listForType(documentType);
+
+      return reply.send({ success: true, documentType, data: templates });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error fetching import templates');
+    }
+  });
+
+  /**
+   * POST /api/import-templates
+   * Body: { documentType, name, headers, mappings, transforms?, defaults? }
+   */
+  fastify.post('/', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const body = request.body || {};
+      const documentType = requireDocumentType(body.documentType);
+      const changes = validateTemplateChanges(body, { partial: false });
+
+      const repository = new ImportTemplateRepository(TenantContextFactory.fromRequest(request), request.context);
+      const template = await repository.createTemplate({ ...changes, documentType });
+
+      return reply.code(201).send({ success: true, data: template });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error saving import template');
+    }
+  });
+
+  /**
+   * PUT /api/import-templates/:templateId
+   * Body: { name?, headers?, mappings?, transforms?, defaults? }
+   */
+  fastify.put('/:templateId', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const changes = validateTemplateChanges(request.body || {}, { partial: true });
+      const repository = new ImportTemplateRepository(TenantContextFactory.fromRequest(request), request.context);
+      const template = await repository.updateTemplate(request.params.templateId, changes);
+
+      return reply.send({ success: true, data: template });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error updating import template');
+    }
+  });
+
+  /**
+   * DELETE /api/import-templates/:templateId
+   */
+  fastify.delete('/:templateId', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const repository = new ImportTemplateRepository(TenantContextFactory.fromRequest(request), request.context);
+      await repository.deleteTemplate(request.params.templateId);
+
+      return reply.send({ success: true });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error deleting import template');
+    }
+  });
+}
+
+module.exports = registerImportTemplateRoutes;
@@ -0,0 +1,156 @@
+/**
+ * Import Jobs API
+ *
+ * Spreadsheet imports of the Data Import/Export gadget (see ImportJobService).
+ * Rows are mapped to document fields by the client and imported here, scoped
+ * to the user's tenant.
+ *
+ * Routes:
+ * - POST /api/imports/dry-run       - create/update/skip plan and row errors, nothing written
+ * - POST /api/imports               - start an import job (202)
+ * - GET  /api/imports/:id           - job status and counts
+ * - GET  /api/imports/:id/events    - job progress as server-sent events
+ * - POST /api/imports/:id/rollback  - remove what the import created, restore what it updated
+ *
+ * Body of dry-run and start: { documentType, rows, parents?, updateKey?, skipDuplicates? }
+ */
+
+const { logger } = require('../core/Logger');
+const { requireAuth } = require('../core/AuthMiddleware');
+const TenantContextFactory = require('../core/TenantContextFactory');
+const ImportJobService = require('../services/ImportJobService');
+
+function sendError(reply, error, fallback) {
+  const statusCode = error.statusCode || 500;
+  if (statusCode >= 500) {
+    logger.error(fallback, { error: error.message });
+  }
+  return reply.code(statusCode).send({
+    success: false,
+    error: error.message || fallback,
+    code: error.code,
+    details: error.details
+  });
+}
+
+/**
+ * Register import job routes
+ */
+async function registerImportRoutes(fastify) {
+
+  /**
+   * POST /api/imports/dry-run
+   */
+  fastify.post('/imports/dry-run', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const data = await ImportJobService.dryRun(tenantContext, request.body, {
+        user: request.user,
+        requestContext: request.context
+      });
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to plan the import');
+    }
+  });
+
+  /**
+   * POST /api/imports
+   */
+  fastify.post('/imports', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const data = await ImportJobService.start(tenantContext, request.body, {
+        user: request.user,
+        requestContext: request.context
+      });
+      return reply.code(202).send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to start the import');
+    }
+  });
+
+  /**
+   * GET /api/imports/:id
+   */
+  fastify.get('/imports/:id', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const data = await ImportJobService.getJob(tenantContext, request.params.id);
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load the import');
+    }
+  });
+
+  /**
+   * GET /api/imports/:id/events
+   *
+   * Sends the current state first, then progress events until the job
+   * completes or fails. Jobs running on another API instance only get the
+   * current state; clients then poll GET /api/imports/:id.
+   */
+  fastify.get('/imports/:id/events', { preHandler: requireAuth }, async (request, reply) => {
+    const tenantContext = TenantContextFactory.fromRequest(request);
+    const events = [];
+    let send = event => events.push(event);
+    // Subscribe before reading the job so a job finishing in between is not missed
+    const unsubscribe = ImportJobService.subscribe(request.params.id, event => send(event));
+
+    let job;
+    try {
+      job = await ImportJobService.getJob(tenantContext, request.params.id);
+    } catch (error) {
+      unsubscribe();
+      return sendError(reply, error, 'Failed to load the import');
+    }
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...reply.getHeaders(),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      unsubscribe();
+      reply.raw.write('data: [DONE]\n\n');
+      reply.raw.end();
+    };
+    send = event => {
+      if (finished) return;
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type !== 'progress') finish();
+    };
+
+    send({ type: job.status === 'running' ? 'progress' : job.status, job });
+    events.forEach(send);
+    reply.raw.on('close', () => {
+      finished = true;
+      unsubscribe();
+    });
+    return reply;
+  });
+
+  /**
+   * POST /api/imports/:id/rollback
+   */
+  fastify.post('/imports/:id/rollback', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const data = await ImportJobService.rollback(tenantContext, request.params.id, request.context);
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to roll back the import');
+    }
+  });
+
+  logger.info('Import job routes registered');
+}
+
+module.exports = registerImportRoutes;
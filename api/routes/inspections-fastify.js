@@ -14,6 +14,7 @@
 const TenantContextFactory = require('../core/TenantContextFactory');
 const { requireAuth } = require('../core/AuthMiddleware');
 const DocumentRepository = require('../repositories/DocumentRepository');
+const InspectionLifecycleService = require('../services/InspectionLifecycleService');
 
 /**
  * Helper to extract tenant and user from request
@@ -348,6 +349,38 @@ async function loadReferenceMaps(records, tenantContext, requestContext) {
   };
 }
 
+/**
+ * Lifecycle of an inspection, chosen by its normalized inspection type
+ */
+function getInspectionLifecycle(document) {
+  const record = enrichInspectionRecord(document);
+  return { record, lifecycle: InspectionLifecycleService.getLifecycle(record.inspectionType) };
+}
+
+/**
+ * Add the lifecycle state and the transitions the actor can run to a record
+ */
+function withLifecycle(record, actor) {
+  const lifecycle = InspectionLifecycleService.getLifecycle(record.inspectionType);
+  const state = InspectionLifecycleService.getCurrentState(lifecycle, record);
+  return {
+    ...record,
+    lifecycleId: lifecycle.id,
+    statusLabel: InspectionLifecycleService.getStateLabel(lifecycle, state),
+    availableTransitions: InspectionLifecycleService.getAvailableTransitions(lifecycle, record, actor)
+  };
+}
+
+function sendLifecycleError(fastify, reply, error, message) {
+  fastify.log.error(error);
+  return reply.status(error.statusCode || 500).send({
+    error: message,
+    message: error.message,
+    code: error.code,
+    details: error.details
+  });
+}
+
 async function registerInspectionRoutes(fastify) {
   /**
    * GET /inspections
@@ -480,8 +513,9 @@ async function registerInspectionRoutes(fastify) {
       // Use repository for data access (tenant filtering automatic)
       const result = await repository.findWithPagination(filters, options);
       const referenceMaps = await loadReferenceMaps(result.data || [], tenantContext, request.context);
+      const actor = await InspectionLifecycleService.resolveActor(request.user);
       const enrichedData = Array.isArray(result.data)
-        ? result.data.map((record) => enrichInspectionRecord(record, referenceMaps))
+        ? result.data.map((record) => withLifecycle(enrichInspectionRecord(record, referenceMaps), actor))
         : [];
 
       return reply.send({
@@ -527,34 +561,6 @@ async function registerInspectionRoutes(fastify) {
     }
   });
 
-  /**
-   * POST /api/inspections/aggregate
-   * Run custom aggregation on inspections
-   */
-  fastify.post('/api/inspections/aggregate', { preHandler: requireAuth }, async (request, reply) => {
-    try {
-      // Extract tenant context and create repository
-      const tenantContext = TenantContextFactory.fromRequest(request);
-      const repository = new DocumentRepository(tenantContext, 'inspection', request.context);
-      
-      const { aggregationConfig } = request.body;
-      
-      if (!aggregationConfig) {
-        return reply.status(400).send({ error: 'aggregationConfig is required' });
-      }
-
-      // Use repository for aggregation (tenant filtering automatic)
-      const result = await repository.aggregate(aggregationConfig);
-      return reply.send(result);
-    } catch (error) {
-      fastify.log.error(error);
-      return reply.status(500).send({
-        error: 'Aggregation failed',
-        message: error.message
-      });
-    }
-  });
-
   /**
    * POST /inspections
    * Create a new inspection
@@ -564,11 +570,16 @@ async function registerInspectionRoutes(fastify) {
       const { tenantId, userId } = getTenantAndUser(request);
       const tenantContext = TenantContextFactory.fromRequest(request);
       const repository = new DocumentRepository(tenantContext, 'inspection', request.context);
+      const { lifecycle } = getInspectionLifecycle(request.body);
 
-      // Generate ID if not provided
+      // Generate ID if not provided; the lifecycle owns the status
       const inspectionData = {
         ...request.body,
         id: request.body.id || `inspection-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        status: lifecycle.initialState,
+        lifecycleId: lifecycle.id,
+        statusHistory: [],
+        locked: false,
         tenantId,
         created_by: userId,
         created_date: new Date(),
@@ -598,20 +609,46 @@ async function registerInspectionRoutes(fastify) {
       const tenantContext = TenantContextFactory.fromRequest(request);
       const repository = new DocumentRepository(tenantContext, 'inspection', request.context);
 
+      const existing = await repository.findById(request.params.id);
+      if (!existing) {
+        return reply.status(404).send({ error: 'Inspection not found' });
+      }
+
+      // Status changes only through automatic lifecycle transitions; locked inspections are read-only
+      const actor = await InspectionLifecycleService.resolveActor(request.user);
+      const { record, lifecycle } = getInspectionLifecycle(existing);
+      const { revision, ...changes } = request.body;
+      const { updates, transition, entry } = InspectionLifecycleService.prepareUpdate(
+        lifecycle,
+        record,
+        changes,
+        actor
+      );
+
       const updateData = {
-        ...request.body,
+        ...updates,
         last_updated: new Date(),
         last_updated_by: userId
       };
 
-      const inspection = await repository.update(request.params.id, updateData);
+      // The lock check holds only if nothing changed since the read
+      const inspection = await repository.update(request.params.id, updateData, {
+        expectedRevision: revision ?? (existing.revision || 0)
+      });
       
       if (!inspection) {
         return reply.status(404).send({ error: 'Inspection not found' });
       }
 
+      if (transition) {
+        await InspectionLifecycleService.notify(transition, inspection, entry, lifecycle);
+      }
+
       return reply.send(inspection);
     } catch (error) {
+      if (error.statusCode === 409) {
+        return sendLifecycleError(fastify, reply, error, 'Failed to update inspection');
+      }
       fastify.log.error(error);
       return reply.status(400).send({
         error: 'Failed to update inspection',
@@ -647,6 +684,77 @@ async function registerInspectionRoutes(fastify) {
     }
   });
 
+  /**
+   * GET /inspections/:id/transitions
+   * Lifecycle state, transitions the user can run and the transition history
+   */
+  fastify.get('/inspections/:id/transitions', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const repository = new DocumentRepository(tenantContext, 'inspection', request.context);
+
+      const inspection = await repository.findById(request.params.id);
+      if (!inspection) {
+        return reply.status(404).send({ error: 'Inspection not found' });
+      }
+
+      const actor = await InspectionLifecycleService.resolveActor(request.user);
+      const { record, lifecycle } = getInspectionLifecycle(inspection);
+      const state = InspectionLifecycleService.getCurrentState(lifecycle, record);
+
+      return reply.send({
+        lifecycleId: lifecycle.id,
+        state,
+        stateLabel: InspectionLifecycleService.getStateLabel(lifecycle, state),
+        locked: inspection.locked === true,
+        availableTransitions: InspectionLifecycleService.getAvailableTransitions(lifecycle, record, actor),
+        history: inspection.statusHistory || []
+      });
+    } catch (error) {
+      return sendLifecycleError(fastify, reply, error, 'Failed to get inspection transitions');
+    }
+  });
+
+  /**
+   * POST /inspections/:id/transitions
+   * Run a lifecycle transition
+   * Body: { transition, comment?, signature? }
+   */
+  fastify.post('/inspections/:id/transitions', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const repository = new DocumentRepository(tenantContext, 'inspection', request.context);
+      const { transition: transitionId, comment, signature } = request.body || {};
+
+      if (!transitionId) {
+        return reply.status(400).send({ error: 'transition is required' });
+      }
+
+      const inspection = await repository.findById(request.params.id);
+      if (!inspection) {
+        return reply.status(404).send({ error: 'Inspection not found' });
+      }
+
+      const actor = await InspectionLifecycleService.resolveActor(request.user);
+      const { record, lifecycle } = getInspectionLifecycle(inspection);
+      const { transition, entry, updates } = InspectionLifecycleService.applyTransition(
+        lifecycle,
+        record,
+        transitionId,
+        actor,
+        { comment, signature }
+      );
+
+      // A concurrent transition bumps the revision, so only one of them applies
+      const updated = await repository.update(request.params.id, updates, { expectedRevision: inspection.revision || 0 });
+      await InspectionLifecycleService.notify(transition, updated, entry, lifecycle);
+
+      return reply.send(withLifecycle(enrichInspectionRecord(updated), actor));
+    } catch (error) {
+      return sendLifecycleError(fastify, reply, error, 'Failed to run inspection transition');
+    }
+  });
+
   /**
    * DELETE /inspections/:id
    * Delete an inspection (soft delete)
@@ -657,6 +765,15 @@ async function registerInspectionRoutes(fastify) {
       const tenantContext = TenantContextFactory.fromRequest(request);
       const repository = new DocumentRepository(tenantContext, 'inspection', request.context);
       
+      const existing = await repository.findById(request.params.id);
+      if (existing?.locked) {
+        return reply.status(409).send({
+          error: 'Failed to delete inspection',
+          message: 'Locked inspections cannot be deleted',
+          code: 'CONFLICT'
+        });
+      }
+
       // Use repository to delete inspection (tenant filtering automatic)
       const result = await repository.delete(request.params.id);
 
@@ -676,3 +793,4 @@ async function registerInspectionRoutes(fastify) {
 }
 
 module.exports = registerInspectionRoutes;
+module.exports.getInspectionLifecycle = getInspectionLifecycle;
@@ -7,6 +7,7 @@
 
 const mongoose = require('mongoose');
 const { requirePlatformAdmin } = require('../middleware/platform-admin');
+const AccessPolicyService = require('../core/AccessPolicyService');
 
 // Lazy-load models
 const getTenantModel = () => mongoose.model('Tenant');
@@ -219,6 +220,9 @@ async function registerPlatformAdminRoutes(fastify) {
         return reply.code(404).send({ error: 'Tenant not found' });
       }
       
+      // Settings may hold access policies; access reports use the new ones from now on
+      await AccessPolicyService.loadTenant(tenantId);
+      
       return reply.send({
         message: 'Tenant updated successfully',
         tenant
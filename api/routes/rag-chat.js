@@ -1,11 +1,7 @@
 const mongoose = require('mongoose');
-const OpenAI = require('openai');
 const { logger } = require('../core/Logger');
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
+const AIGatewayService = require('../services/AIGatewayService');
 
 // Use existing mongoose connection instead of creating new MongoClient
 const getDb = () => {
@@ -276,7 +272,8 @@ async function registerRAGChatRoutes(fastify) {
         db
       });
 
-      // 3. Generate AI response
+      // 3. Generate AI response (refused once the tenant's AI budget is spent)
+      await AIGatewayService.checkBudget(request.user);
       const aiResponse = await generateAIResponse({
         message: sanitizedMessage,
         searchResults,
@@ -315,6 +312,12 @@ async function registerRAGChatRoutes(fastify) {
         model = aiResponse.model;
         usage = aiResponse.usage;
         responseId = aiResponse.responseId;
+        await AIGatewayService.recordUsage(request.user, {
+          endpoint: aiResponse.endpoint,
+          model,
+          feature: 'chatbot',
+          usage
+        });
 }
 
       return reply.send({
@@ -335,9 +338,10 @@ async function registerRAGChatRoutes(fastify) {
         error: error.message,
         stack: error.stack
       });
-      return reply.code(500).send({
+      return reply.code(error.statusCode || 500).send({
         success: false,
         error: 'Failed to process RAG chat request',
+        code: error.code,
         message: error.message
       });
     }
@@ -401,7 +405,7 @@ async function performVectorSearch({ message, ragConfig, context, tenantId, db }
                              query.includes('amount') || query.includes('quantity') ||
                              query.includes('gallons') || query.includes('volume');
 // Generate embedding for ALL queries - pure vector search approach
-    const embedding = await generateEmbedding(sanitizedMessage, ragConfig.embeddingModel);
+    const embedding = await generateEmbedding(sanitizedMessage, ragConfig.embeddingModel, { tenantId });
 // Build filter using configurable field mappings
     const filterStage = buildGenericFilter(ragConfig, context, tenantId, sanitizedMessage);
 // Build comprehensive vector search pipeline using separate vectors collection
@@ -646,8 +650,9 @@ return validatedFilters;
 /**
  * Generate embedding with caching for performance
  */
-async function generateEmbedding(text, model = 'text-embedding-3-small') {
-  const cacheKey = `${model}:${text}`;
+async function generateEmbedding(text, model = 'text-embedding-3-small', tenant = {}) {
+  const provider = AIProviderRegistry.getProvider(tenant);
+  const cacheKey = `${provider.name}:${model}:${text}`;
   
   // Check cache first
   if (embeddingCache.has(cacheKey)) {
@@ -655,7 +660,7 @@ async function generateEmbedding(text, model = 'text-embedding-3-small') {
   }
   
   // Generate new embedding
-  const response = await openai.embeddings.create({
+  const response = await provider.embed({
     model,
     input: text
   });
@@ -753,10 +758,12 @@ if (searchResults.error) {
         message,
         systemPrompt,
         maxTokens: aiConfig.maxTokens || 2000,
-        previousResponseId: context?.previousResponseId
+        previousResponseId: context?.previousResponseId,
+        tenantId
       });
     } else {
       return await generateStandardResponse({
+        tenantId,
         message,
         systemPrompt,
         model: aiConfig.model || 'gpt-4o-mini',
@@ -777,7 +784,7 @@ if (searchResults.error) {
 /**
  * Generate response using GPT-5-nano with Responses API
  */
-async function generateGPT5NanoResponse({ message, systemPrompt, maxTokens, previousResponseId }) {
+async function generateGPT5NanoResponse({ message, systemPrompt, maxTokens, previousResponseId, tenantId }) {
   logger.debug('GPT-5 Nano request', {
     previousResponseId: previousResponseId || 'None',
     maxTokens
@@ -798,21 +805,22 @@ async function generateGPT5NanoResponse({ message, systemPrompt, maxTokens, prev
     responseOptions.previous_response_id = previousResponseId;
 }
 
-  const response = await openai.responses.create(responseOptions);
+  const response = await AIProviderRegistry.getProvider({ tenantId }).respond(responseOptions);
   
   return {
     content: response.output_text,
     responseId: response.id,
     usage: response.usage,
-    model: 'gpt-5-nano'
+    model: 'gpt-5-nano',
+    endpoint: 'responses'
   };
 }
 
 /**
  * Generate response using standard Chat Completions API
  */
-async function generateStandardResponse({ message, systemPrompt, model, temperature, maxTokens }) {
-const response = await openai.chat.completions.create({
+async function generateStandardResponse({ message, systemPrompt, model, temperature, maxTokens, tenantId }) {
+  const response = await AIProviderRegistry.getProvider({ tenantId }).chat({
     model,
     messages: [
       { role: "system", content: systemPrompt },
@@ -826,7 +834,8 @@ const response = await openai.chat.completions.create({
     content: response.choices[0].message.content,
     responseId: response.id,
     usage: response.usage,
-    model
+    model,
+    endpoint: 'chat/completions'
   };
 }
 
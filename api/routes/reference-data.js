@@ -261,7 +261,8 @@ return reply.code(404).send({ error: 'List type not found' });
         description: opt.description,
         color: opt.color,
         icon: opt.icon,
-        parentGroup: opt.parentGroup
+        parentGroup: opt.parentGroup,
+        metadata: opt.metadata
       }));
 return reply.send({ data: formattedOptions });
     } catch (error) {
@@ -0,0 +1,68 @@
+/**
+ * Semantic Metrics API
+ *
+ * Named metrics for KPI and chart gadgets (see SemanticMetricsService and
+ * public/data/metrics/semantic-metrics.json). Queries are compiled on the
+ * server and scoped to the user's tenant.
+ *
+ * Routes:
+ * - GET  /api/metrics/catalog - metrics and dimensions that can be queried
+ * - POST /api/metrics/query   - { metrics, dimensions?, filters?, granularity?, sort?, limit? }
+ */
+
+const { logger } = require('../core/Logger');
+const { requireAuth } = require('../core/AuthMiddleware');
+const TenantContextFactory = require('../core/TenantContextFactory');
+const SemanticMetricsService = require('../services/SemanticMetricsService');
+
+function sendError(reply, error, fallback) {
+  const statusCode = error.statusCode || 500;
+  if (statusCode >= 500) {
+    logger.error(fallback, { error: error.message });
+  }
+  return reply.code(statusCode).send({
+    success: false,
+    error: error.message || fallback,
+    code: error.code,
+    details: error.details
+  });
+}
+
+/**
+ * Register semantic metrics routes
+ */
+async function registerSemanticMetricsRoutes(fastify) {
+
+  /**
+   * GET /api/metrics/catalog
+   */
+  fastify.get('/metrics/catalog', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      return reply.send({ success: true, data: SemanticMetricsService.describeCatalog() });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load the metric catalog');
+    }
+  });
+
+  /**
+   * POST /api/metrics/query
+   */
+  fastify.post('/metrics/query', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const { metrics, dimensions, filters, granularity, sort, limit } = request.body || {};
+      const tenantContext = TenantContextFactory.fromRequest(request);
+      const data = await SemanticMetricsService.query(
+        tenantContext,
+        { metrics, dimensions, filters, granularity, sort, limit },
+        request.context
+      );
+      return reply.send({ success: true, data });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to query metrics');
+    }
+  });
+
+  logger.info('Semantic metrics routes registered');
+}
+
+module.exports = registerSemanticMetricsRoutes;
@@ -0,0 +1,229 @@
+/**
+ * Workspace Definition API
+ *
+ * Versioned tenant overrides for workspace definitions. The static JSON files
+ * under public/data/workspaces remain the default layer; the tenant's current
+ * overrides are applied on top of them. Saves and rollbacks are rejected when the
+ * overrides introduce validation errors into the merged workspace, the same check
+ * the client runs in preview.
+ *
+ * Workspace ids contain slashes (system-admin/bulk-operations), so they are
+ * the wildcard tail of each route.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { requireAuth, requireTenantAdmin } = require('../core/AuthMiddleware');
+const TenantContextFactory = require('../core/TenantContextFactory');
+const WorkspaceVersionRepository = require('../repositories/WorkspaceVersionRepository');
+const { OVERRIDABLE_KEYS, validateWorkspaceOverrides } = require('../core/WorkspaceOverrides');
+const { NotFoundError, ValidationError } = require('../core/ErrorHandler');
+
+const WORKSPACES_DIR = path.join(__dirname, '../../public/data/workspaces');
+
+/**
+ * Workspace id from the wildcard, checked against the shipped defaults
+ */
+function resolveWorkspaceId(request) {
+  const workspaceId = String(request.params['*'] || '').replace(/\.json$/, '');
+  const file = path.resolve(WORKSPACES_DIR, `${workspaceId}.json`);
+
+  if (!workspaceId || !file.startsWith(WORKSPACES_DIR + path.sep)) {
+    throw new ValidationError('Invalid workspace id', { workspaceId });
+  }
+  if (!fs.existsSync(file)) {
+    throw new NotFoundError('Workspace', workspaceId);
+  }
+  return workspaceId;
+}
+
+/**
+ * Check that overrides applied to the shipped default introduce no validation errors.
+ * Errors the default already has do not block saves, so every workspace can be reset.
+ */
+async function validateMergedWorkspace(workspaceId, overrides) {
+  const file = path.resolve(WORKSPACES_DIR, `${workspaceId}.json`);
+  const base = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+  const { valid, errors } = validateWorkspaceOverrides(base, overrides);
+  if (!valid) {
+    throw new ValidationError('Invalid workspace', { errors });
+  }
+}
+
+const isPlainObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+const isStringArray = value => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Structural check of an overrides document, before it is merged
+ */
+function validateOverrides(overrides) {
+  const errors = [];
+  if (overrides === null) return errors;
+  if (!isPlainObject(overrides)) return ['overrides must be an object or null'];
+
+  const unsupported = Object.keys(overrides).filter(key => !OVERRIDABLE_KEYS.includes(key));
+  if (unsupported.length > 0) {
+    errors.push(`overrides may only change ${OVERRIDABLE_KEYS.join(', ')} (not ${unsupported.join(', ')})`);
+  }
+  ['title', 'description'].forEach(key => {
+    if (overrides[key] !== undefined && typeof overrides[key] !== 'string') {
+      errors.push(`overrides.${key} must be a string`);
+    }
+  });
+
+  const gadgets = overrides.gadgets;
+  if (gadgets !== undefined) {
+    if (!isPlainObject(gadgets)) {
+      errors.push('overrides.gadgets must be an object');
+    } else {
+      if (gadgets.remove !== undefined && !isStringArray(gadgets.remove)) {
+        errors.push('overrides.gadgets.remove must be an array of gadget ids');
+      }
+      if (gadgets.order !== undefined && !isStringArray(gadgets.order)) {
+        errors.push('overrides.gadgets.order must be an array of gadget ids');
+      }
+      if (gadgets.update !== undefined && !isPlainObject(gadgets.update)) {
+        errors.push('overrides.gadgets.update must map gadget ids to changes');
+      }
+      if (gadgets.add !== undefined) {
+        if (!Array.isArray(gadgets.add)) {
+          errors.push('overrides.gadgets.add must be an array of gadgets');
+        } else {
+          gadgets.add.forEach((gadget, index) => {
+            if (!isPlainObject(gadget) || !gadget.id || !gadget.type) {
+              errors.push(`overrides.gadgets.add[${index}] must have an id and a type`);
+            }
+          });
+        }
+      }
+    }
+  }
+  if (overrides.settings !== undefined && !isPlainObject(overrides.settings)) {
+    errors.push('overrides.settings must be an object');
+  }
+  return errors;
+}
+
+function toVersionResponse(version) {
+  return {
+    version: version.version,
+    overrides: version.overrides,
+    comment: version.comment,
+    restoredFrom: version.restoredFrom,
+    created_by: version.created_by,
+    created_date: version.created_date
+  };
+}
+
+function sendError(request, reply, error, message) {
+  request.log.error({ err: error }, message);
+  return reply.code(error.statusCode || 500).send({
+    success: false,
+    error: error.message,
+    code: error.code,
+    details: error.details
+  });
+}
+
+async function registerWorkspaceRoutes(fastify) {
+  /**
+   * GET /api/workspaces/overrides/<workspaceId>
+   * Current tenant overrides (version 0 and null overrides when the default is used)
+   */
+  fastify.get('/overrides/*', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const workspaceId = resolveWorkspaceId(request);
+      const repository = new WorkspaceVersionRepository(TenantContextFactory.fromRequest(request), request.context);
+      const latest = await repository.getLatest(workspaceId);
+
+      return reply.send({
+        success: true,
+        workspaceId,
+        data: latest ? toVersionResponse(latest) : { version: 0, overrides: null }
+      });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error fetching workspace overrides');
+    }
+  });
+
+  /**
+   * GET /api/workspaces/history/<workspaceId>
+   * Version history, newest first
+   */
+  fastify.get('/history/*', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const workspaceId = resolveWorkspaceId(request);
+      const repository = new WorkspaceVersionRepository(TenantContextFactory.fromRequest(request), request.context);
+      const history = await repository.getHistory(workspaceId);
+
+      return reply.send({ success: true, workspaceId, data: history.map(toVersionResponse) });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error fetching workspace history');
+    }
+  });
+
+  /**
+   * GET /api/workspaces/versions/:version/<workspaceId>
+   * One version of the tenant overrides
+   */
+  fastify.get('/versions/:version/*', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const workspaceId = resolveWorkspaceId(request);
+      const repository = new WorkspaceVersionRepository(TenantContextFactory.fromRequest(request), request.context);
+      const version = await repository.getVersion(workspaceId, request.params.version);
+
+      return reply.send({ success: true, workspaceId, data: toVersionResponse(version) });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error fetching workspace version');
+    }
+  });
+
+  /**
+   * PUT /api/workspaces/overrides/<workspaceId>
+   * Save tenant overrides as a new version. Body: { overrides, comment? }
+   */
+  fastify.put('/overrides/*', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const workspaceId = resolveWorkspaceId(request);
+      const { overrides = null, comment } = request.body || {};
+
+      const errors = validateOverrides(overrides);
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid workspace overrides', { errors });
+      }
+      await validateMergedWorkspace(workspaceId, overrides);
+
+      const repository = new WorkspaceVersionRepository(TenantContextFactory.fromRequest(request), request.context);
+      const version = await repository.createVersion(workspaceId, overrides, { comment });
+
+      return reply.code(201).send({ success: true, workspaceId, data: toVersionResponse(version) });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error saving workspace overrides');
+    }
+  });
+
+  /**
+   * POST /api/workspaces/rollback/<workspaceId>
+   * Restore an earlier version as a new version. Body: { version, comment? }
+   */
+  fastify.post('/rollback/*', { preHandler: requireTenantAdmin }, async (request, reply) => {
+    try {
+      const workspaceId = resolveWorkspaceId(request);
+      const { version, comment } = request.body || {};
+      if (!Number.isInteger(Number(version)) || Number(version) < 1) {
+        throw new ValidationError('version must be a positive integer');
+      }
+
+      const repository = new WorkspaceVersionRepository(TenantContextFactory.fromRequest(request), request.context);
+      const target = await repository.getVersion(workspaceId, Number(version));
+      await validateMergedWorkspace(workspaceId, target.overrides);
+      const restored = await repository.rollback(workspaceId, target.version, comment);
+
+      return reply.code(201).send({ success: true, workspaceId, data: toVersionResponse(restored) });
+    } catch (error) {
+      return sendError(request, reply, error, 'Error rolling back workspace');
+    }
+  });
+}
+
+module.exports = registerWorkspaceRoutes;
@@ -19,6 +19,7 @@ const FileStorage = require('./core/FileStorage');
 
 // Framework Components
 const DatabaseManager = require('./core/DatabaseManager');
+const AccessPolicyService = require('./core/AccessPolicyService');
 const { RequestContextManager } = require('./core/RequestContext');
 const { ErrorHandler } = require('./core/ErrorHandler');
 const { Metrics, HealthCheck } = require('./core/Metrics');
@@ -90,6 +91,7 @@ async function buildServer() {
   await fastify.register(cors, {
     origin: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    exposedHeaders: ['X-AI-Budget-Status', 'X-AI-Budget-Percent'],
   });
 
   // Register multipart support for file uploads
@@ -131,6 +133,7 @@ async function buildServer() {
       trackStorage: () => {},
       trackUserActivity: () => {},
       trackFeatureUsage: () => {},
+      trackAIUsage: () => {},
     });
   }
   
@@ -170,7 +173,6 @@ async function buildServer() {
     try {
       // VectorUpdateService now uses DatabaseManager (no mongoUri needed)
       const vectorConfig = {
-        openaiKey: process.env.OPENAI_API_KEY,
         embeddingModel: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
         monitoring: process.env.NODE_ENV === 'production',
         allowedCollections: process.env.VECTOR_ALLOWED_COLLECTIONS,
@@ -832,6 +834,11 @@ async function start() {
     // Initialize FileStorage after MongoDB connection
     FileStorage.init();
 
+    // Tenant access policies for access reports and simulations
+    await AccessPolicyService.loadAll().catch(error => {
+      logger.error('Failed to load tenant access policies', { error: error.message });
+    });
+
     const server = await buildServer();
     
     // Register Health Check endpoints (uses DatabaseManager)
@@ -0,0 +1,583 @@
+/**
+ * AI Gateway Service
+ *
+ * Server side of every AI call made from the browser (useOpenAI). Calls go to
+ * the tenant's provider (AIProviderRegistry), whose key never leaves the API.
+ * Each call is checked against the tenant's policy in
+ * public/data/ai-config/ai-gateway.json before it is forwarded:
+ * - model allow-list (exact names, or a prefix ending in "*")
+ * - requests per minute
+ * - monthly token / request budget: a warning past budget.warningPercent of
+ *   the limits, calls refused past budget.hardStopPercent
+ * - images per request
+ *
+ * Prompts are redacted before they are sent (sensitive field names inside
+ * objects or JSON text, plus configured patterns such as e-mail addresses),
+ * and every call is recorded in ai_usage with the tokens the provider
+ * reported, per tenant, user, feature and model, and added to the tenant's
+ * monthly totals (TenantUsageMonitor). Prompt and response bodies are never
+ * logged.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { Parser } = require('json2csv');
+const { logger } = require('../core/Logger');
+const { TenantUsageMonitor } = require('../core/TenantUsageMonitoring');
+const AIUsage = require('../models/AIUsage');
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
+const {
+  AuthorizationError,
+  QuotaExceededError,
+  RateLimitError,
+  ValidationError
+} = require('../core/ErrorHandler');
+
+const POLICY_PATH = path.join(__dirname, '../../public/data/ai-config/ai-gateway.json');
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Feature recorded for calls that name none (or one not listed in "features")
+ */
+const DEFAULT_FEATURE = 'other';
+
+const USAGE_CSV_FIELDS = [
+  'period', 'tenantId', 'userId', 'feature', 'model',
+  'requests', 'errors', 'promptTokens', 'completionTokens', 'totalTokens'
+];
+
+/**
+ * Keys whose string values are identifiers or media, not prompt text
+ */
+const UNREDACTED_KEYS = new Set(['model', 'role', 'type', 'image_url', 'url', 'previous_response_id', 'response_format', 'language']);
+
+let cachedPolicy = null;
+let cachedRules = null;
+
+/**
+ * Requests per tenant in the current minute: tenantId -> { minute, count }
+ */
+const requestWindows = new Map();
+
+/**
+ * Tenants already warned about their budget: "tenantId:YYYY-MM"
+ */
+const budgetWarnings = new Set();
+
+const escapeRegExp = value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function startOfMonth(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Bounds of a YYYY-MM period (the current month by default)
+ *
+ * @throws {ValidationError} When the period is malformed
+ */
+function periodRange(period) {
+  if (period && !/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new ValidationError('period must be formatted as YYYY-MM', { period });
+  }
+  const start = period ? new Date(`${period}-01T00:00:00.000Z`) : startOfMonth();
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return { period: start.toISOString().slice(0, 7), start, end };
+}
+
+class AIGatewayService {
+  /**
+   * Load the gateway policy (cached after the first read)
+   *
+   * @returns {Object} { features, defaults, tenants, redaction }
+   */
+  static getPolicyConfig() {
+    if (!cachedPolicy) {
+      cachedPolicy = JSON.parse(fs.readFileSync(POLICY_PATH, 'utf8'));
+    }
+    return cachedPolicy;
+  }
+
+  /**
+   * Replace the policy (tests and metadata reloads)
+   *
+   * @param {Object|null} policy - Policy, or null to re-read the file
+   */
+  static setPolicyConfig(policy) {
+    cachedPolicy = policy;
+    cachedRules = null;
+    requestWindows.clear();
+    budgetWarnings.clear();
+  }
+
+  /**
+   * Effective policy for the user's tenant: defaults overridden by the entry
+   * keyed by tenant slug or tenant id
+   *
+   * @param {Object} user - request.user
+   * @returns {Object} { allowedModels, monthlyTokenLimit, monthlyRequestLimit, requestsPerMinute, maxImagesPerRequest, budget }
+   */
+  static getTenantPolicy(user = {}) {
+    const { defaults = {}, tenants = {} } = AIGatewayService.getPolicyConfig();
+    const override = tenants[user.tenantSlug] || tenants[user.tenantId] || {};
+    return { ...defaults, ...override };
+  }
+
+  /**
+   * Feature name as recorded in ai_usage ("other" unless listed in "features")
+   */
+  static normalizeFeature(feature) {
+    const { features = [] } = AIGatewayService.getPolicyConfig();
+    return features.includes(feature) ? feature : DEFAULT_FEATURE;
+  }
+
+  static isModelAllowed(policy, model) {
+    if (!model || typeof model !== 'string') return false;
+    const allowed = policy.allowedModels;
+    if (!Array.isArray(allowed)) return true;
+    return allowed.some(entry => (entry.endsWith('*') ? model.startsWith(entry.slice(0, -1)) : entry === model));
+  }
+
+  /**
+   * Number of images attached to a chat or Responses API payload
+   */
+  static countImages(body = {}) {
+    const parts = [];
+    [...(body.messages || []), ...(Array.isArray(body.input) ? body.input : [])].forEach(message => {
+      if (Array.isArray(message?.content)) parts.push(...message.content);
+    });
+    return parts.filter(part => part?.type === 'input_image' || part?.type === 'image_url').length;
+  }
+
+  /**
+   * Compiled redaction rules: sensitive field names and text patterns
+   */
+  static getRedactionRules() {
+    if (!cachedRules) {
+      const { fields = [], patterns = [] } = AIGatewayService.getPolicyConfig().redaction || {};
+      const fieldSet = new Set(fields.map(field => field.toLowerCase()));
+      const textRules = patterns.map(rule => ({
+        regex: new RegExp(rule.pattern, 'g'),
+        replace: () => rule.replacement || REDACTED
+      }));
+      if (fields.length > 0) {
+        // "password": "..." inside JSON embedded in prompt text
+        textRules.unshift({
+          regex: new RegExp(`("(?:${fields.map(escapeRegExp).join('|')})"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, 'gi'),
+          replace: (match, prefix) => `${prefix}"${REDACTED}"`
+        });
+      }
+      cachedRules = { fieldSet, textRules };
+    }
+    return cachedRules;
+  }
+
+  /**
+   * Copy of a payload with sensitive values removed
+   *
+   * @param {*} value - Request body (or any part of it)
+   * @returns {Object} { value, count } - Redacted copy and number of replacements
+   */
+  static redact(value) {
+    const { fieldSet, textRules } = AIGatewayService.getRedactionRules();
+    let count = 0;
+
+    const redactText = text => {
+      if (text.startsWith('data:')) return text;
+      return textRules.reduce((current, rule) => current.replace(rule.regex, (...args) => {
+        count += 1;
+        return rule.replace(...args);
+      }), text);
+    };
+
+    const walk = (node, key) => {
+      if (typeof node === 'string') {
+        return key && UNREDACTED_KEYS.has(key) ? node : redactText(node);
+      }
+      if (Array.isArray(node)) return node.map(item => walk(item, key));
+      if (node && typeof node === 'object') {
+        return Object.keys(node).reduce((copy, childKey) => {
+          if (fieldSet.has(childKey.toLowerCase()) && node[childKey] !== undefined && node[childKey] !== null) {
+            count += 1;
+            copy[childKey] = REDACTED;
+          } else {
+            copy[childKey] = walk(node[childKey], childKey);
+          }
+          return copy;
+        }, {});
+      }
+      return node;
+    };
+
+    const redacted = walk(value);
+    return { value: redacted, count };
+  }
+
+  /**
+   * Tokens and requests used by the tenant since the start of the month
+   *
+   * @returns {Promise<Object>} { tokens, requests }
+   */
+  static async getMonthlyUsage(tenantId) {
+    const [totals] = await AIUsage.aggregate([
+      { $match: { tenantId, createdAt: { $gte: startOfMonth() } } },
+      { $group: { _id: null, tokens: { $sum: '$totalTokens' }, requests: { $sum: 1 } } }
+    ]);
+    return { tokens: totals?.tokens || 0, requests: totals?.requests || 0 };
+  }
+
+  /**
+   * Where the tenant stands against its monthly limits. Percentages are of
+   * the limit; the larger of the token and request percentages decides the
+   * status.
+   *
+   * @param {Object} policy - Tenant policy
+   * @param {Object} usage - { tokens, requests } used in the month
+   * @returns {Object} { status: ok | warning | exceeded, percent, warningPercent, hardStopPercent, tokens, requests }
+   */
+  static getBudgetStatus(policy, usage) {
+    const { warningPercent = 80, hardStopPercent = 100 } = policy.budget || {};
+    const measure = (used, limit) => ({ used, limit: limit || null, percent: limit ? (used / limit) * 100 : 0 });
+    const tokens = measure(usage.tokens, policy.monthlyTokenLimit);
+    const requests = measure(usage.requests, policy.monthlyRequestLimit);
+    const percent = Math.max(tokens.percent, requests.percent);
+
+    let status = 'ok';
+    if (percent >= hardStopPercent) status = 'exceeded';
+    else if (percent >= warningPercent) status = 'warning';
+
+    const round = value => Math.round(value * 10) / 10;
+    return {
+      status,
+      percent: round(percent),
+      warningPercent,
+      hardStopPercent,
+      tokens: { ...tokens, percent: round(tokens.percent) },
+      requests: { ...requests, percent: round(requests.percent) }
+    };
+  }
+
+  /**
+   * Check the tenant's monthly budget before a call; the first warning per
+   * tenant and month is logged
+   *
+   * @param {Object} user - request.user (or { tenantId, tenantSlug })
+   * @param {Object} [policy] - Tenant policy, when already resolved
+   * @returns {Promise<Object|null>} Budget status, or null when the tenant has no limits
+   * @throws {QuotaExceededError} When the hard-stop threshold is reached
+   */
+  static async checkBudget(user, policy = AIGatewayService.getTenantPolicy(user)) {
+    if (!policy.monthlyTokenLimit && !policy.monthlyRequestLimit) return null;
+
+    const usage = await AIGatewayService.getMonthlyUsage(user.tenantId);
+    const budget = AIGatewayService.getBudgetStatus(policy, usage);
+    if (budget.status === 'exceeded') {
+      const [resource, measure] = budget.tokens.percent >= budget.requests.percent
+        ? ['token', budget.tokens]
+        : ['request', budget.requests];
+      throw new QuotaExceededError(`Monthly AI ${resource} budget reached for this tenant`, {
+        used: measure.used,
+        limit: measure.limit,
+        budget
+      });
+    }
+    if (budget.status === 'warning') {
+      const key = `${user.tenantId}:${periodRange().period}`;
+      if (!budgetWarnings.has(key)) {
+        budgetWarnings.add(key);
+        logger.warn('AI budget warning threshold reached', {
+          tenantId: user.tenantId,
+          percent: budget.percent,
+          warningPercent: budget.warningPercent
+        });
+      }
+    }
+    return budget;
+  }
+
+  /**
+   * Count a request against the tenant's per-minute limit
+   *
+   * @throws {RateLimitError} When the limit for the current minute is used up
+   */
+  static consumeRequest(tenantId, limit) {
+    if (!limit) return;
+    const minute = Math.floor(Date.now() / 60000);
+    const entry = requestWindows.get(tenantId);
+    const current = entry && entry.minute === minute ? entry : { minute, count: 0 };
+    if (current.count >= limit) {
+      throw new RateLimitError(60 - Math.floor((Date.now() / 1000) % 60));
+    }
+    current.count += 1;
+    requestWindows.set(tenantId, current);
+  }
+
+  /**
+   * Check a call against the tenant policy and redact its payload
+   *
+   * @param {Object} user - request.user
+   * @param {Object} body - Provider payload (must name a model)
+   * @returns {Promise<Object>} { body, redactions, policy, budget }
+   */
+  static async prepare(user, body = {}) {
+    if (!user?.tenantId) {
+      throw new AuthorizationError('A tenant is required for AI requests');
+    }
+    const policy = AIGatewayService.getTenantPolicy(user);
+
+    if (!body.model) {
+      throw new ValidationError('model is required');
+    }
+    if (!AIGatewayService.isModelAllowed(policy, body.model)) {
+      throw new AuthorizationError(`Model ${body.model} is not enabled for this tenant`, {
+        model: body.model,
+        allowedModels: policy.allowedModels
+      });
+    }
+
+    const images = AIGatewayService.countImages(body);
+    if (policy.maxImagesPerRequest && images > policy.maxImagesPerRequest) {
+      throw new ValidationError(`At most ${policy.maxImagesPerRequest} images can be sent in one request`, { images });
+    }
+
+    const budget = await AIGatewayService.checkBudget(user, policy);
+    AIGatewayService.consumeRequest(user.tenantId, policy.requestsPerMinute);
+
+    const { value, count } = AIGatewayService.redact(body);
+    return { body: value, redactions: count, policy, budget };
+  }
+
+  /**
+   * Token counts from a Chat Completions or Responses API usage object
+   */
+  static extractUsage(usage) {
+    if (!usage) return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const promptTokens = usage.prompt_tokens ?? usage.input_tokens ?? 0;
+    const completionTokens = usage.completion_tokens ?? usage.output_tokens ?? 0;
+    return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+  }
+
+  /**
+   * Record one AI call in ai_usage and the tenant's monthly totals; failures
+   * to record are logged, not thrown
+   */
+  static async recordUsage(user, { endpoint, model, feature, usage, redactions = 0, stream = false, error, durationMs }) {
+    try {
+      const tokens = AIGatewayService.extractUsage(usage);
+      const featureName = AIGatewayService.normalizeFeature(feature);
+      await AIUsage.create({
+        tenantId: user.tenantId,
+        userId: user.userId,
+        endpoint,
+        model,
+        feature: featureName,
+        stream,
+        ...tokens,
+        redactions,
+        status: error ? 'error' : 'success',
+        error: error?.message,
+        durationMs
+      });
+      await TenantUsageMonitor.trackAIUsage(user.tenantId, { feature: featureName, model, totalTokens: tokens.totalTokens });
+    } catch (recordError) {
+      logger.error('Failed to record AI usage', {
+        error: recordError.message,
+        tenantId: user.tenantId,
+        endpoint
+      });
+    }
+  }
+
+  /**
+   * Run a provider call with policy checks, redaction and usage recording
+   *
+   * @param {Object} user - request.user
+   * @param {String} endpoint - Gateway endpoint name (for usage records)
+   * @param {Object} body - Provider payload
+   * @param {Function} call - (redactedBody, provider) => Promise<{ result, usage }>
+   * @param {Object} [options] - { feature, onBudget(budget) } (onBudget runs before the call)
+   */
+  static async execute(user, endpoint, body, call, { feature, onBudget } = {}) {
+    const { body: redacted, redactions, budget } = await AIGatewayService.prepare(user, body);
+    if (budget && onBudget) onBudget(budget);
+    const startedAt = Date.now();
+    const stream = redacted.stream === true;
+    try {
+      const { result, usage } = await call(redacted, AIProviderRegistry.getProvider(user));
+      await AIGatewayService.recordUsage(user, {
+        endpoint, model: redacted.model, feature, usage, redactions, stream, durationMs: Date.now() - startedAt
+      });
+      logger.info('AI gateway call completed', {
+        endpoint,
+        model: redacted.model,
+        feature,
+        tenantId: user.tenantId,
+        userId: user.userId,
+        redactions,
+        totalTokens: AIGatewayService.extractUsage(usage).totalTokens
+      });
+      return result;
+    } catch (error) {
+      await AIGatewayService.recordUsage(user, {
+        endpoint, model: redacted.model, feature, redactions, stream, error, durationMs: Date.now() - startedAt
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Chat Completions call
+   */
+  static async chatCompletion(user, body, options) {
+    return AIGatewayService.execute(user, 'chat/completions', { ...body, stream: false }, async (payload, provider) => {
+      const result = await provider.chat(payload);
+      return { result, usage: result.usage };
+    }, options);
+  }
+
+  /**
+   * Responses API call
+   */
+  static async respond(user, body, options) {
+    return AIGatewayService.execute(user, 'responses', { ...body, stream: false }, async (payload, provider) => {
+      const result = await provider.respond(payload);
+      return { result, usage: result.usage };
+    }, options);
+  }
+
+  /**
+   * Streaming Responses API call; every provider event is passed to onEvent
+   * (usage comes from the final response.completed event)
+   */
+  static async respondStream(user, body, onEvent, options) {
+    return AIGatewayService.execute(user, 'responses', { ...body, stream: true }, async (payload, provider) => {
+      const events = await provider.respondStream(payload);
+      let usage;
+      for await (const event of events) {
+        if (event?.response?.usage) usage = event.response.usage;
+        onEvent(event);
+      }
+      return { result: undefined, usage };
+    }, options);
+  }
+
+  /**
+   * Audio transcription; only the model is checked (audio is not redacted)
+   *
+   * @param {Object} user - request.user
+   * @param {Object} audio - { buffer, filename, mimetype }
+   * @param {Object} fields - { model, language, response_format }
+   * @param {Object} [options] - { feature, onBudget }
+   */
+  static async transcribe(user, audio, fields = {}, options) {
+    const body = { model: fields.model || 'whisper-1' };
+    if (fields.language) body.language = fields.language;
+    if (fields.response_format) body.response_format = fields.response_format;
+
+    return AIGatewayService.execute(user, 'audio/transcriptions', body, async (payload, provider) => {
+      const result = await provider.transcribe({ ...payload, file: audio });
+      return { result, usage: undefined };
+    }, options);
+  }
+
+  /**
+   * Tenant usage this month next to its limits
+   */
+  static async getUsageSummary(user) {
+    const policy = AIGatewayService.getTenantPolicy(user);
+    const usage = await AIGatewayService.getMonthlyUsage(user.tenantId);
+    return {
+      period: startOfMonth().toISOString().slice(0, 7),
+      tokens: usage.tokens,
+      requests: usage.requests,
+      monthlyTokenLimit: policy.monthlyTokenLimit || null,
+      monthlyRequestLimit: policy.monthlyRequestLimit || null,
+      allowedModels: policy.allowedModels || null,
+      budget: AIGatewayService.getBudgetStatus(policy, usage)
+    };
+  }
+
+  /**
+   * Usage for a month, one row per tenant, user, feature and model
+   *
+   * @param {Object} filters - { period: 'YYYY-MM' (default: this month), tenantId }
+   * @returns {Promise<Array>} [{ period, tenantId, userId, feature, model, requests, errors, promptTokens, completionTokens, totalTokens }]
+   */
+  static async getUsageReport({ period, tenantId } = {}) {
+    const range = periodRange(period);
+    const match = { createdAt: { $gte: range.start, $lt: range.end } };
+    if (tenantId) match.tenantId = tenantId;
+
+    const groups = await AIUsage.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            tenantId: '$tenantId',
+            userId: '$userId',
+            feature: { $ifNull: ['$feature', DEFAULT_FEATURE] },
+            model: '$model'
+          },
+          requests: { $sum: 1 },
+          errors: { $sum: { $cond: [{ $eq: ['$status', 'error'] }, 1, 0] } },
+          promptTokens: { $sum: '$promptTokens' },
+          completionTokens: { $sum: '$completionTokens' },
+          totalTokens: { $sum: '$totalTokens' }
+        }
+      },
+      { $sort: { '_id.tenantId': 1, totalTokens: -1 } }
+    ]);
+
+    return groups.map(({ _id, ...totals }) => ({
+      period: range.period,
+      tenantId: _id.tenantId,
+      userId: _id.userId || '',
+      feature: _id.feature,
+      model: _id.model,
+      ...totals
+    }));
+  }
+
+  /**
+   * Usage report rows as CSV (billing export)
+   */
+  static toCsv(rows) {
+    return new Parser({ fields: USAGE_CSV_FIELDS, header: true }).parse(rows);
+  }
+
+  /**
+   * Dashboard figures for a month, from the tenant totals kept by
+   * TenantUsageMonitor. The budget is included when one tenant is selected.
+   *
+   * @param {Object} filters - { period: 'YYYY-MM', tenant: { tenantId, tenantSlug } }
+   */
+  static async getDashboardStats({ period, tenant } = {}) {
+    const range = periodRange(period);
+    const totals = (await TenantUsageMonitor.getAllTenantsUsage(range.period))
+      .filter(entry => !tenant || entry.tenantId === tenant.tenantId);
+
+    const tokensByFeature = {};
+    totals.forEach(entry => {
+      Object.entries(entry.aiTokensByFeature || {}).forEach(([feature, tokens]) => {
+        tokensByFeature[feature] = (tokensByFeature[feature] || 0) + tokens;
+      });
+    });
+    const [topFeature] = Object.entries(tokensByFeature).sort((a, b) => b[1] - a[1]);
+    const aiTokens = totals.reduce((sum, entry) => sum + (entry.aiTokens || 0), 0);
+    const aiRequests = totals.reduce((sum, entry) => sum + (entry.aiRequests || 0), 0);
+
+    return {
+      period: range.period,
+      aiTokens,
+      aiRequests,
+      activeTenants: totals.filter(entry => entry.aiRequests > 0).length,
+      topFeature: topFeature ? topFeature[0] : null,
+      tokensByFeature,
+      budget: tenant
+        ? AIGatewayService.getBudgetStatus(AIGatewayService.getTenantPolicy(tenant), { tokens: aiTokens, requests: aiRequests })
+        : null
+    };
+  }
+}
+
+module.exports = AIGatewayService;
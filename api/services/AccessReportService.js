@@ -0,0 +1,169 @@
+/**
+ * Access Report Service
+ *
+ * Effective-access report and permission simulator for tenant admins.
+ * Permissions are resolved with PermissionResolver and checks are decided by
+ * AccessPolicyService, which applies the tenant access policies and
+ * permission conditions the way RBACService does on the frontend.
+ *
+ * Features:
+ * - Effective permissions per user with their origin (role, inheritance chain)
+ * - Role hierarchy: inherits (role names) and excludes (permission patterns) on role documents
+ * - Dry-run permission checks, optionally against unsaved role drafts
+ */
+
+const mongoose = require('mongoose');
+const { NotFoundError, ValidationError } = require('../core/ErrorHandler');
+const AccessPolicyService = require('../core/AccessPolicyService');
+const { resolveEffectivePermissions } = require('../core/PermissionResolver');
+
+/**
+ * Values matching a tenant id stored either as a string or as an ObjectId
+ */
+function tenantIdValues(tenantId) {
+  const values = [String(tenantId)];
+  if (mongoose.Types.ObjectId.isValid(tenantId)) {
+    values.push(new mongoose.Types.ObjectId(String(tenantId)));
+  }
+  return values;
+}
+
+function toRoleDefinition(role) {
+  return {
+    id: role._id ? String(role._id) : role.id,
+    name: role.name,
+    permissions: role.permissions || [],
+    inherits: role.inherits || [],
+    excludes: role.excludes || [],
+    isExternalCustomer: role.isExternalCustomer === true
+  };
+}
+
+class AccessReportService {
+  /**
+   * Decide a permission check for a user without side effects
+   *
+   * @param {Object} params - { user, roles, permissions, isExternalCustomer, action, resource, route, ipAddress, time }
+   * @returns {Promise<Object>} Access decision { granted, reason, permissions, conditions?, matchedPolicy?, ... }
+   */
+  static async evaluate({ user, roles = [], permissions, isExternalCustomer, action, resource, route, ipAddress, time }) {
+    return AccessPolicyService.checkPermission({
+      user: { ...user, roles, isExternalCustomer: isExternalCustomer === true },
+      action,
+      resource,
+      route,
+      ipAddress,
+      time: time ? new Date(time) : undefined
+    }, permissions);
+  }
+
+  /**
+   * Load a tenant user and the tenant's roles
+   *
+   * @param {String} userId - User ID (userId field or document id)
+   * @param {String} tenantId - Tenant ID
+   * @returns {Promise<Object>} { user, assignedRoles, tenantRoles }
+   */
+  static async loadUserAccess(userId, tenantId) {
+    const db = mongoose.connection;
+    if (!db || db.readyState !== 1) {
+      throw new Error('Database not connected');
+    }
+
+    const tenantFilter = { $in: tenantIdValues(tenantId) };
+    const userFilter = [{ userId }];
+    if (mongoose.Types.ObjectId.isValid(userId)) {
+      userFilter.push({ _id: new mongoose.Types.ObjectId(String(userId)) });
+    }
+
+    const user = await db.collection('users').findOne(
+      { tenantId: tenantFilter, $or: userFilter },
+      { projection: { password: 0 } }
+    );
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const tenantRoles = (await db.collection('roles')
+      .find({ $or: [{ tenantId: tenantFilter }, { tenantId: null }] })
+      .toArray()).map(toRoleDefinition);
+
+    const roleIds = (user.roleIds || []).map(String);
+    const assignedRoles = tenantRoles.filter(role => roleIds.includes(role.id));
+
+    return { user, assignedRoles, tenantRoles };
+  }
+
+  /**
+   * Effective-access report for a user
+   *
+   * @param {String} userId - User ID
+   * @param {String} tenantId - Tenant ID
+   * @returns {Promise<Object>} { user, roles, availableRoles, permissions, excluded }
+   */
+  static async getEffectiveAccess(userId, tenantId) {
+    const { user, assignedRoles, tenantRoles } = await AccessReportService.loadUserAccess(userId, tenantId);
+    const report = resolveEffectivePermissions(assignedRoles, tenantRoles);
+
+    return {
+      user: {
+        id: String(user._id),
+        userId: user.userId,
+        email: user.email,
+        name: user.name || [user.firstName, user.lastName].filter(Boolean).join(' ')
+      },
+      roles: assignedRoles,
+      availableRoles: tenantRoles,
+      ...report
+    };
+  }
+
+  /**
+   * Simulate a permission check for a user. roleIds (ids or names) replaces the
+   * user's role assignment and roleDrafts replaces stored roles by name, so a
+   * role change can be previewed before it is saved.
+   *
+   * @param {Object} params - { userId, tenantId, action, resource, route, ipAddress, time, roleIds, roleDrafts }
+   * @returns {Promise<Object>} { decision, effectivePermissions }
+   */
+  static async simulate({ userId, tenantId, action, resource, route, ipAddress, time, roleIds, roleDrafts }) {
+    if (!action) {
+      throw new ValidationError('action is required');
+    }
+
+    const access = await AccessReportService.loadUserAccess(userId, tenantId);
+    const drafts = (Array.isArray(roleDrafts) ? roleDrafts : []).filter(Boolean).map(toRoleDefinition);
+    const tenantRoles = [
+      ...access.tenantRoles.filter(role => !drafts.some(draft => draft.name === role.name)),
+      ...drafts
+    ];
+
+    const assignedRoles = Array.isArray(roleIds)
+      ? tenantRoles.filter(role => roleIds.map(String).some(id => id === role.id || id === role.name))
+      : access.assignedRoles.map(role => tenantRoles.find(candidate => candidate.name === role.name) || role);
+
+    const effectivePermissions = resolveEffectivePermissions(assignedRoles, tenantRoles);
+    const decision = await AccessReportService.evaluate({
+      user: {
+        id: String(access.user._id),
+        userId: access.user.userId,
+        email: access.user.email,
+        tenantId,
+        siteIds: access.user.siteIds,
+        attributes: access.user.attributes
+      },
+      roles: assignedRoles,
+      permissions: effectivePermissions.permissions.map(entry => entry.permission),
+      isExternalCustomer: assignedRoles.some(role => role.isExternalCustomer),
+      action,
+      resource,
+      route,
+      ipAddress,
+      time
+    });
+
+    return { decision, effectivePermissions };
+  }
+}
+
+module.exports = AccessReportService;
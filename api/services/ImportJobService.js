@@ -0,0 +1,580 @@
+/**
+ * Import Job Service
+ *
+ * Server side of the Data Import/Export gadget. Rows arrive mapped to document
+ * fields (see buildImportRows in the gadget); parent columns carry the parent
+ * type as prefix (company_name, site_code, asset_group_name) and resolve to an
+ * existing company, site or asset group by code or name, or create one.
+ * Records are matched on the import's updateKey: a match is updated (or
+ * skipped with skipDuplicates), anything else is created. Assets without an
+ * asset_tag get one from their company, site, group and asset type.
+ *
+ * A dry run goes through the same steps without writing and returns the
+ * create/update/skip plan with the row errors. A real import runs as a job in
+ * the background: every document it creates carries the job id as
+ * importBatchId and the values it overwrites are kept on the job, so the
+ * whole batch can be rolled back. Progress is published per row to
+ * subscribers on the instance running the job (GET /api/imports/:id/events)
+ * and saved on the job every few rows, with the overwritten values so far.
+ * A job that stops saving progress while no instance runs it (the server
+ * restarted mid-import) is marked failed when it is next read, so it can be
+ * rolled back.
+ */
+
+const EventEmitter = require('events');
+const { nanoid } = require('nanoid');
+const { logger } = require('../core/Logger');
+const { validateDocumentWithContext } = require('../core/SchemaValidator');
+const { ConflictError, ValidationError } = require('../core/ErrorHandler');
+const DocumentRepository = require('../repositories/DocumentRepository');
+const ImportJobRepository = require('../repositories/ImportJobRepository');
+const { getDocumentPrefix } = require('../routes/documents');
+
+const MAX_ROWS = 10000;
+const MAX_STORED_ERRORS = 1000;
+const PROGRESS_SAVE_INTERVAL = 25;
+
+/**
+ * A running job without saved progress for this long is taken as abandoned (ms)
+ */
+const STALE_JOB_AGE = 10 * 60 * 1000;
+
+/**
+ * Spreadsheet row of the first data row (row 1 holds the headers)
+ */
+const FIRST_ROW = 2;
+
+/**
+ * Parents resolved for every row, top down; separator is used in generated codes
+ */
+const HIERARCHY = [
+  { type: 'company', prefix: 'company_', idField: 'company_id', parentField: null, separator: '_' },
+  { type: 'site', prefix: 'site_', idField: 'site_id', parentField: 'company_id', separator: '_' },
+  { type: 'asset_group', prefix: 'asset_group_', idField: 'asset_group_id', parentField: 'site_id', separator: '-' }
+];
+
+/**
+ * asset_ fields stored as named; other asset_ fields lose the prefix
+ */
+const ASSET_FIELDS = ['asset_tag', 'asset_type', 'asset_group_id'];
+
+const ASSET_TYPE_CODES = {
+  'Pipe': 'P',
+  'Valve': 'V',
+  'Tank': 'T',
+  'Pump': 'PUMP',
+  'Compressor': 'COMP',
+  'Heat Exchanger': 'HX',
+  'Vessel': 'VSL',
+  'Reactor': 'R',
+  'Instrument': 'INST',
+  'Motor': 'MOT',
+  'Electrical': 'ELEC'
+};
+
+/**
+ * Job events by job id
+ */
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+/**
+ * Ids of the jobs running on this instance
+ */
+const activeJobs = new Set();
+
+const isEmpty = value => value === undefined || value === null || value === '';
+
+const escapeRegExp = value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toCode = (value, separator, length) => String(value).toUpperCase().replace(/\s+/g, separator).substring(0, length);
+
+const labelOf = doc => doc.name || doc.asset_tag || doc.code || doc.id;
+
+/**
+ * Split a mapped row into the record and its parents' fields, remembering
+ * which input field each document field came from (for error columns)
+ */
+function splitRow(values) {
+  const record = {};
+  const parents = {};
+  const sources = { record: {} };
+  HIERARCHY.forEach(level => {
+    parents[level.type] = {};
+    sources[level.type] = {};
+  });
+
+  Object.keys(values).forEach(field => {
+    const value = values[field];
+    if (isEmpty(value) || field === 'type') return;
+
+    const level = HIERARCHY.find(l => field.startsWith(l.prefix) && field !== l.idField);
+    if (level) {
+      const name = field.slice(level.prefix.length);
+      if (name === 'type') return;
+      parents[level.type][name] = value;
+      sources[level.type][name] = field;
+      return;
+    }
+
+    const name = field.startsWith('asset_') && !ASSET_FIELDS.includes(field) ? field.slice('asset_'.length) : field;
+    record[name] = value;
+    sources.record[name] = field;
+  });
+
+  return { record, parents, sources };
+}
+
+/**
+ * One pass over the rows; writes nothing without a batch id (dry run)
+ */
+class ImportRun {
+  constructor(tenantContext, request, { user = null, requestContext = null, batchId = null } = {}) {
+    this.tenantContext = tenantContext;
+    this.request = request;
+    this.user = user || {};
+    this.requestContext = requestContext;
+    this.batchId = batchId;
+    this.repositories = new Map();
+    // Parents seen in this run: "id:x" / "code:x" / "name:x" -> document
+    this.entities = {};
+    HIERARCHY.forEach(level => {
+      this.entities[level.type] = new Map();
+    });
+    // Records created or updated in this run by updateKey value
+    this.records = new Map();
+    // Last asset tag sequence by tag prefix
+    this.tagSequences = new Map();
+    this.result = {
+      total: request.rows.length,
+      processed: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      related: HIERARCHY.reduce((related, level) => ({ ...related, [level.type]: 0 }), {}),
+      actions: [],
+      errors: [],
+      updates: []
+    };
+  }
+
+  get dryRun() {
+    return !this.batchId;
+  }
+
+  repository(type) {
+    if (!this.repositories.has(type)) {
+      this.repositories.set(type, new DocumentRepository(this.tenantContext, type, this.requestContext));
+    }
+    return this.repositories.get(type);
+  }
+
+  /**
+   * Import every row; a failing row is recorded and the next one goes on
+   *
+   * @param {Function} [onRow] - Called with the result after each row
+   * @returns {Promise<Object>} Result
+   */
+  async run(onRow = null) {
+    const { rows } = this.request;
+    for (let index = 0; index < rows.length; index++) {
+      const row = index + FIRST_ROW;
+      try {
+        await this.importRow(rows[index], row);
+      } catch (error) {
+        this.result.failed += 1;
+        const rowErrors = error.details && error.details.rowErrors;
+        this.result.errors.push(...(rowErrors || [{ row, column: 'ALL', error: error.message, severity: 'error' }]));
+      }
+      this.result.processed += 1;
+      if (onRow) {
+        await onRow(this.result);
+      }
+    }
+    return this.result;
+  }
+
+  async importRow(values, row) {
+    const { documentType, parents: selectedParents, updateKey, skipDuplicates } = this.request;
+    const { record, parents, sources } = splitRow(values);
+
+    Object.keys(selectedParents).forEach(field => {
+      if (!isEmpty(selectedParents[field])) {
+        record[field] = selectedParents[field];
+      }
+    });
+
+    let parentId = null;
+    for (const level of HIERARCHY) {
+      if (!record[level.idField]) {
+        const parent = await this.resolveParent(level, parents[level.type], parentId, row, sources[level.type]);
+        if (parent) {
+          record[level.idField] = parent.id;
+        }
+      }
+      parentId = record[level.idField] || null;
+    }
+
+    if (!record.asset_tag && record.site_id && record.asset_group_id && record.asset_type) {
+      record.asset_tag = await this.nextAssetTag(record);
+    }
+
+    const key = updateKey ? record[updateKey] : undefined;
+    const existing = isEmpty(key)
+      ? null
+      : this.records.get(String(key)) || await this.repository(documentType).findOne({ [updateKey]: key });
+
+    if (existing && skipDuplicates) {
+      this.result.skipped += 1;
+      this.result.actions.push({ row, action: 'skip', type: documentType, id: existing.id, label: labelOf(existing) });
+      return;
+    }
+
+    const saved = existing
+      ? await this.updateDocument(documentType, existing, record, row, sources.record)
+      : await this.createDocument(documentType, record, row, sources.record);
+    this.result[existing ? 'updated' : 'created'] += 1;
+    if (!isEmpty(key)) {
+      this.records.set(String(key), saved);
+    }
+  }
+
+  /**
+   * Existing parent by code (or id) or name, else a new one when the row
+   * names it; null when the row has no columns for this parent
+   */
+  async resolveParent(level, data, parentId, row, sources) {
+    const code = data.code || data.id;
+    const { name } = data;
+    if (!code && !name) return null;
+
+    const cache = this.entities[level.type];
+    const cached = (name && cache.get(`name:${name}`)) || (code && cache.get(`code:${code}`));
+    if (cached) return cached;
+
+    let parent = await this.repository(level.type).findOne(code ? { code } : { name });
+    if (!parent && (data.name || data.code)) {
+      const label = data.code || data.name;
+      parent = await this.createDocument(level.type, {
+        ...data,
+        name: data.name || label,
+        code: data.code || toCode(label, level.separator, 20),
+        ...(level.parentField && parentId ? { [level.parentField]: parentId } : {}),
+        status: data.status || 'active'
+      }, row, sources);
+      this.result.related[level.type] += 1;
+    }
+
+    if (parent) {
+      this.remember(level.type, parent);
+    }
+    return parent;
+  }
+
+  remember(type, doc) {
+    const cache = this.entities[type];
+    cache.set(`id:${doc.id}`, doc);
+    if (doc.code) cache.set(`code:${doc.code}`, doc);
+    if (doc.name) cache.set(`name:${doc.name}`, doc);
+  }
+
+  async getParent(type, id) {
+    const cached = this.entities[type].get(`id:${id}`);
+    if (cached) return cached;
+
+    const doc = await this.repository(type).findById(id);
+    if (doc) {
+      this.remember(type, doc);
+    }
+    return doc;
+  }
+
+  /**
+   * COMPANY-SITE-GROUP-TYPE-0001, numbered on from the last tag with that prefix
+   */
+  async nextAssetTag(record) {
+    const company = record.company_id ? await this.getParent('company', record.company_id) : null;
+    const site = await this.getParent('site', record.site_id);
+    const group = await this.getParent('asset_group', record.asset_group_id);
+
+    const companyCode = company ? toCode(company.code || company.name, '_', 10) : '';
+    const facilityCode = site ? toCode(site.code || site.name, '_', 10) : '';
+    const unitCode = group ? toCode(group.code || group.name, '-', 10) : '';
+    const typeCode = ASSET_TYPE_CODES[record.asset_type] || String(record.asset_type).substring(0, 1).toUpperCase();
+    const prefix = companyCode
+      ? `${companyCode}-${facilityCode}-${unitCode}-${typeCode}`
+      : `${facilityCode}-${unitCode}-${typeCode}`;
+
+    if (!this.tagSequences.has(prefix)) {
+      const [last] = await this.repository('asset').find(
+        { asset_tag: { $regex: `^${escapeRegExp(prefix)}-\\d+$` } },
+        { sort: { asset_tag: -1 }, limit: 1 }
+      );
+      const match = last && String(last.asset_tag).match(/-(\d+)$/);
+      this.tagSequences.set(prefix, match ? parseInt(match[1], 10) : 0);
+    }
+
+    const sequence = this.tagSequences.get(prefix) + 1;
+    this.tagSequences.set(prefix, sequence);
+    return `${prefix}-${String(sequence).padStart(4, '0')}`;
+  }
+
+  /**
+   * Validate against the document type's schema; schema errors become row errors
+   *
+   * @throws {ValidationError} With details.rowErrors
+   */
+  async validate(type, data, row, sources) {
+    try {
+      return await validateDocumentWithContext(type, data, this.user);
+    } catch (error) {
+      if (!Array.isArray(error.errors)) throw error;
+      throw new ValidationError(`Row ${row} is not a valid ${type}`, {
+        rowErrors: error.errors.map(issue => {
+          const field = issue.path.join('.');
+          return {
+            row,
+            column: sources[field] || field || 'ALL',
+            error: issue.message,
+            value: data[issue.path[0]],
+            severity: 'error'
+          };
+        })
+      });
+    }
+  }
+
+  async createDocument(type, data, row, sources) {
+    const validated = await this.validate(type, data, row, sources);
+    const doc = {
+      ...validated,
+      id: validated.id || `${getDocumentPrefix(type)}_${nanoid(12)}`,
+      status: validated.status || 'active'
+    };
+
+    if (!this.dryRun) {
+      await this.repository(type).create({ ...doc, importBatchId: this.batchId });
+    }
+    this.result.actions.push({ row, action: 'create', type, id: doc.id, label: labelOf(doc) });
+    return doc;
+  }
+
+  async updateDocument(type, existing, data, row, sources) {
+    const { id, ...changes } = await this.validate(type, data, row, sources);
+
+    if (!this.dryRun) {
+      const previous = {};
+      Object.keys(changes).forEach(field => {
+        previous[field] = existing[field] === undefined ? null : existing[field];
+      });
+      await this.repository(type).update(existing.id, changes);
+      this.result.updates.push({ type, id: existing.id, previous });
+    }
+    this.result.actions.push({ row, action: 'update', type, id: existing.id, label: labelOf({ ...existing, ...changes }) });
+    return { ...existing, ...changes };
+  }
+}
+
+const countsOf = result => ({
+  processed: result.processed,
+  created: result.created,
+  updated: result.updated,
+  skipped: result.skipped,
+  failed: result.failed,
+  related: result.related
+});
+
+class ImportJobService {
+  /**
+   * Check an import request: { documentType, rows, parents?, updateKey?, skipDuplicates? }
+   *
+   * @throws {ValidationError}
+   */
+  static normalize(input = {}) {
+    const { documentType, rows, parents = {}, updateKey, skipDuplicates = false } = input;
+    if (!documentType || typeof documentType !== 'string') {
+      throw new ValidationError('documentType is required');
+    }
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new ValidationError('rows must be a non-empty array');
+    }
+    if (rows.length > MAX_ROWS) {
+      throw new ValidationError(`An import can have at most ${MAX_ROWS} rows`, { rows: rows.length });
+    }
+    if (rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      throw new ValidationError('Each row must be an object of document fields');
+    }
+    if (!parents || typeof parents !== 'object' || Array.isArray(parents)) {
+      throw new ValidationError('parents must be an object of linked fields');
+    }
+    if (updateKey !== undefined && updateKey !== null && typeof updateKey !== 'string') {
+      throw new ValidationError('updateKey must be a field name');
+    }
+    return { documentType, rows, parents, updateKey: updateKey || null, skipDuplicates: !!skipDuplicates };
+  }
+
+  /**
+   * Plan an import without writing
+   *
+   * @returns {Promise<Object>} { total, created, updated, skipped, failed, related, actions, errors }
+   */
+  static async dryRun(tenantContext, input, { user = null, requestContext = null } = {}) {
+    const run = new ImportRun(tenantContext, this.normalize(input), { user, requestContext });
+    const { processed, updates, ...plan } = await run.run();
+    return plan;
+  }
+
+  /**
+   * Start an import job; the rows are imported in the background
+   *
+   * @returns {Promise<Object>} Client job
+   */
+  static async start(tenantContext, input, { user = null, requestContext = null } = {}) {
+    const request = this.normalize(input);
+    if (!tenantContext.tenantId || !tenantContext.userId) {
+      throw new ValidationError('A signed-in tenant user is required to import data');
+    }
+
+    const job = await new ImportJobRepository(tenantContext).create({
+      id: `import_${nanoid(12)}`,
+      userId: tenantContext.userId,
+      documentType: request.documentType,
+      status: 'running',
+      total: request.rows.length
+    });
+
+    setImmediate(() => {
+      this.execute(tenantContext, job, request, { user, requestContext }).catch(error => {
+        logger.error('Import job could not be saved', { jobId: job.id, error: error.message });
+      });
+    });
+
+    return ImportJobRepository.toClientJob(job);
+  }
+
+  /**
+   * Run a started job to the end and publish its progress
+   */
+  static async execute(tenantContext, job, request, options = {}) {
+    const jobs = new ImportJobRepository(tenantContext);
+    const run = new ImportRun(tenantContext, request, { ...options, batchId: job.id });
+    let final;
+    activeJobs.add(job.id);
+
+    try {
+      await run.run(async result => {
+        const counts = countsOf(result);
+        this.publish(job.id, {
+          type: 'progress',
+          job: ImportJobRepository.toClientJob({ ...job, ...counts }, { withErrors: false })
+        });
+        if (result.processed % PROGRESS_SAVE_INTERVAL === 0) {
+          // Overwritten values are saved too, so a job that dies here can still be rolled back
+          await jobs.saveProgress(job.id, { ...counts, updates: result.updates });
+        }
+      });
+      final = { status: 'completed' };
+    } catch (error) {
+      logger.error('Import job failed', { jobId: job.id, error: error.message });
+      final = { status: 'failed', error: error.message };
+    } finally {
+      activeJobs.delete(job.id);
+    }
+
+    Object.assign(final, countsOf(run.result), {
+      rowErrors: run.result.errors.slice(0, MAX_STORED_ERRORS),
+      updates: run.result.updates,
+      completedAt: new Date()
+    });
+    await jobs.saveProgress(job.id, final);
+    this.publish(job.id, { type: final.status, job: ImportJobRepository.toClientJob({ ...job, ...final }) });
+  }
+
+  static publish(jobId, event) {
+    jobEvents.emit(jobId, event);
+  }
+
+  /**
+   * Listen to a job's events: progress, then completed or failed
+   *
+   * @returns {Function} Unsubscribe
+   */
+  static subscribe(jobId, listener) {
+    jobEvents.on(jobId, listener);
+    return () => jobEvents.removeListener(jobId, listener);
+  }
+
+  static async getJob(tenantContext, jobId) {
+    const job = await this.loadJob(new ImportJobRepository(tenantContext), jobId);
+    return ImportJobRepository.toClientJob(job);
+  }
+
+  /**
+   * A job the current user started; a running job that no instance has saved
+   * progress for in STALE_JOB_AGE is marked failed first
+   */
+  static async loadJob(jobs, jobId) {
+    const job = await jobs.getOwnedJob(jobId);
+    const lastSaved = new Date(job.last_updated || job.created_date || 0).getTime();
+    if (job.status !== 'running' || activeJobs.has(job.id) || Date.now() - lastSaved < STALE_JOB_AGE) {
+      return job;
+    }
+
+    logger.warn('Import job stopped without finishing', { jobId: job.id, lastSaved: new Date(lastSaved) });
+    const failed = {
+      status: 'failed',
+      error: 'The import stopped before it finished; roll it back and import again',
+      completedAt: new Date()
+    };
+    await jobs.saveProgress(job.id, failed);
+    return { ...job, ...failed };
+  }
+
+  /**
+   * Undo a finished import: soft-delete the documents it created (children
+   * first) and put back the values it overwrote
+   *
+   * @returns {Promise<Object>} Client job
+   * @throws {ConflictError} While the job runs or once it was rolled back
+   */
+  static async rollback(tenantContext, jobId, requestContext = null) {
+    const jobs = new ImportJobRepository(tenantContext);
+    const job = await this.loadJob(jobs, jobId);
+    if (job.status === 'running') {
+      throw new ConflictError('The import is still running');
+    }
+    if (job.status === 'rolled_back') {
+      throw new ConflictError('The import has already been rolled back');
+    }
+
+    const types = [job.documentType, ...HIERARCHY.map(level => level.type).reverse()]
+      .filter((type, index, all) => all.indexOf(type) === index);
+    let deleted = 0;
+    for (const type of types) {
+      const repository = new DocumentRepository(tenantContext, type, requestContext);
+      const documents = await repository.find({ importBatchId: job.id }, { projection: { id: 1 } });
+      for (const document of documents) {
+        await repository.delete(document.id);
+        deleted += 1;
+      }
+    }
+
+    let restored = 0;
+    for (const change of (job.updates || []).slice().reverse()) {
+      try {
+        await new DocumentRepository(tenantContext, change.type, requestContext).update(change.id, change.previous);
+        restored += 1;
+      } catch (error) {
+        // Deleted since the import: nothing to restore
+        if (error.statusCode !== 404) throw error;
+      }
+    }
+
+    const rollback = { deleted, restored, at: new Date(), by: tenantContext.userId };
+    await jobs.saveProgress(job.id, { status: 'rolled_back', rollback });
+    return ImportJobRepository.toClientJob({ ...job, status: 'rolled_back', rollback });
+  }
+}
+
+module.exports = ImportJobService;
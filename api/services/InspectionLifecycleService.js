@@ -0,0 +1,440 @@
+/**
+ * Inspection Lifecycle Service
+ *
+ * Metadata-driven state machine for inspection documents. Lifecycles live in
+ * public/data/lifecycles/inspection-lifecycles.json and are chosen by
+ * inspection type:
+ * - states and the transitions allowed between them
+ * - who may run a transition (roles or permissions; either grants)
+ * - what a transition needs first (fields, comment, signature)
+ * - effects of a transition (lock/unlock the document, notify users)
+ *
+ * Every transition is appended to the document's statusHistory with who ran
+ * it, when and the comment. Transitions marked "automatic" may also be applied
+ * by a regular save (the wizard reports in_progress / completed from progress).
+ */
+
+const fs = require('fs');
+const path = require('path');
+const mongoose = require('mongoose');
+const { logger } = require('../core/Logger');
+const EmailService = require('../core/EmailService');
+const AuthorizationService = require('../core/AuthorizationService');
+const AccessReportService = require('./AccessReportService');
+const { matchesPermission, resolveEffectivePermissions } = require('../core/PermissionResolver');
+const { AuthorizationError, ConflictError, ValidationError } = require('../core/ErrorHandler');
+
+const LIFECYCLES_PATH = path.join(__dirname, '../../public/data/lifecycles/inspection-lifecycles.json');
+
+/**
+ * Fields owned by the lifecycle; regular updates may not set them
+ */
+const LIFECYCLE_FIELDS = ['statusHistory', 'locked', 'lockedAt', 'lockedBy'];
+
+/**
+ * Errors about input collected when a transition runs (not shown as unavailable)
+ */
+const INPUT_ERROR_CODES = ['MISSING_COMMENT', 'MISSING_SIGNATURE'];
+
+let cachedDefinitions = null;
+
+const isBlank = value =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+function getPathValue(source, fieldPath) {
+  return fieldPath.split('.').reduce((current, key) => (current == null ? undefined : current[key]), source);
+}
+
+/**
+ * Value of a required field, looked up on the document and its form data
+ */
+function getFieldValue(document, fieldPath) {
+  const sources = [
+    document,
+    document.formData,
+    document.documentSummary,
+    document.sectionData?.formData,
+    document.sectionData
+  ].filter(Boolean);
+
+  for (const source of sources) {
+    const value = getPathValue(source, fieldPath);
+    if (!isBlank(value)) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Values matching a tenant id stored either as a string or as an ObjectId
+ */
+function tenantIdValues(tenantId) {
+  const values = [String(tenantId)];
+  if (mongoose.Types.ObjectId.isValid(tenantId)) {
+    values.push(new mongoose.Types.ObjectId(String(tenantId)));
+  }
+  return values;
+}
+
+function roleName(role) {
+  return typeof role === 'string' ? role : role?.name;
+}
+
+class InspectionLifecycleService {
+  /**
+   * Load lifecycle definitions (cached after the first read)
+   *
+   * @returns {Object} { defaultLifecycle, lifecycles }
+   */
+  static getDefinitions() {
+    if (!cachedDefinitions) {
+      cachedDefinitions = JSON.parse(fs.readFileSync(LIFECYCLES_PATH, 'utf8'));
+    }
+    return cachedDefinitions;
+  }
+
+  /**
+   * Replace the definitions (tests and metadata reloads)
+   *
+   * @param {Object|null} definitions - Definitions, or null to re-read the file
+   */
+  static setDefinitions(definitions) {
+    cachedDefinitions = definitions;
+  }
+
+  /**
+   * Lifecycle for an inspection type, falling back to the default lifecycle
+   *
+   * @param {String} inspectionType - Normalized inspection type
+   * @returns {Object} Lifecycle definition
+   */
+  static getLifecycle(inspectionType) {
+    const { defaultLifecycle, lifecycles = [] } = InspectionLifecycleService.getDefinitions();
+    const lifecycle =
+      lifecycles.find(candidate => inspectionType && (candidate.inspectionTypes || []).includes(inspectionType)) ||
+      lifecycles.find(candidate => candidate.id === defaultLifecycle) ||
+      lifecycles[0];
+
+    if (!lifecycle) {
+      throw new Error('No inspection lifecycle is defined');
+    }
+    return lifecycle;
+  }
+
+  /**
+   * Current state of a document; documents without a status start in the initial state
+   */
+  static getCurrentState(lifecycle, document) {
+    return document.status || lifecycle.initialState;
+  }
+
+  static getStateLabel(lifecycle, stateId) {
+    return (lifecycle.states || []).find(state => state.id === stateId)?.label || stateId;
+  }
+
+  /**
+   * Whether the actor holds one of the transition's roles or permissions.
+   * A transition without roles and permissions is open to every user.
+   *
+   * @param {Object} transition - Transition definition
+   * @param {Object} actor - { roles: [names], permissions: [patterns], platformRole }
+   * @returns {Boolean}
+   */
+  static isActorAllowed(transition, actor) {
+    const roles = transition.roles || [];
+    const permissions = transition.permissions || [];
+    if (roles.length === 0 && permissions.length === 0) return true;
+    if (AuthorizationService.isPlatformAdmin(actor)) return true;
+
+    const actorRoles = (actor.roles || []).map(roleName);
+    const actorPermissions = actor.permissions || [];
+    return (
+      roles.some(role => actorRoles.includes(role)) ||
+      permissions.some(permission =>
+        actorPermissions.some(pattern => matchesPermission(pattern, permission))
+      )
+    );
+  }
+
+  /**
+   * Required fields of a transition that the document has not filled in
+   *
+   * @returns {Array} [{ field, label }]
+   */
+  static getMissingFields(transition, document) {
+    return (transition.requiredFields || [])
+      .map(entry => (typeof entry === 'string' ? { field: entry, label: entry } : { label: entry.field, ...entry }))
+      .filter(({ field }) => isBlank(getFieldValue(document, field)));
+  }
+
+  /**
+   * Check a transition against the current state, the actor and its requirements
+   *
+   * @param {Object} lifecycle - Lifecycle definition
+   * @param {Object} document - Inspection document
+   * @param {String} transitionId - Transition id
+   * @param {Object} actor - Acting user
+   * @param {Object} input - { comment, signature }
+   * @returns {Object} { allowed, transition, errors: [{ code, message }] }
+   */
+  static checkTransition(lifecycle, document, transitionId, actor, input = {}) {
+    const transition = (lifecycle.transitions || []).find(candidate => candidate.id === transitionId);
+    if (!transition) {
+      return {
+        allowed: false,
+        transition: null,
+        errors: [{ code: 'UNKNOWN_TRANSITION', message: `Unknown transition '${transitionId}'` }]
+      };
+    }
+
+    const errors = [];
+    const state = InspectionLifecycleService.getCurrentState(lifecycle, document);
+    if (!(transition.from || []).includes(state)) {
+      errors.push({
+        code: 'INVALID_STATE',
+        message: `${transition.label || transition.id} is not allowed from ${InspectionLifecycleService.getStateLabel(lifecycle, state)}`
+      });
+    }
+    if (!InspectionLifecycleService.isActorAllowed(transition, actor)) {
+      errors.push({ code: 'NOT_PERMITTED', message: `You are not permitted to ${transition.label || transition.id}` });
+    }
+    InspectionLifecycleService.getMissingFields(transition, document).forEach(({ field, label }) => {
+      errors.push({ code: 'MISSING_FIELD', field, message: `${label} is required` });
+    });
+    if (transition.requireComment && isBlank(typeof input.comment === 'string' ? input.comment.trim() : input.comment)) {
+      errors.push({ code: 'MISSING_COMMENT', message: 'A comment is required' });
+    }
+    if (transition.requireSignature && isBlank(input.signature)) {
+      errors.push({ code: 'MISSING_SIGNATURE', message: 'A signature is required' });
+    }
+
+    return { allowed: errors.length === 0, transition, errors };
+  }
+
+  /**
+   * Transitions the actor can run now. Comment and signature are collected
+   * when the transition runs, so they do not hide a transition.
+   *
+   * @returns {Array} [{ id, label, to, toLabel, requireComment, requireSignature, confirmText }]
+   */
+  static getAvailableTransitions(lifecycle, document, actor) {
+    return (lifecycle.transitions || [])
+      .filter(transition => {
+        const { errors } = InspectionLifecycleService.checkTransition(lifecycle, document, transition.id, actor);
+        return errors.every(error => INPUT_ERROR_CODES.includes(error.code));
+      })
+      .map(transition => ({
+        id: transition.id,
+        label: transition.label || transition.id,
+        to: transition.to,
+        toLabel: InspectionLifecycleService.getStateLabel(lifecycle, transition.to),
+        requireComment: transition.requireComment === true,
+        requireSignature: transition.requireSignature === true,
+        confirmText: transition.confirmText
+      }));
+  }
+
+  /**
+   * Build the document updates for a transition; throws when it is not allowed
+   *
+   * @returns {Object} { transition, entry, updates }
+   * @throws {ValidationError|AuthorizationError|ConflictError}
+   */
+  static applyTransition(lifecycle, document, transitionId, actor, input = {}) {
+    const { transition, errors } = InspectionLifecycleService.checkTransition(
+      lifecycle,
+      document,
+      transitionId,
+      actor,
+      input
+    );
+
+    if (errors.length > 0) {
+      const details = { transition: transitionId, errors };
+      const message = errors.map(error => error.message).join('; ');
+      if (errors.some(error => error.code === 'NOT_PERMITTED')) throw new AuthorizationError(message, details);
+      if (errors.some(error => error.code === 'INVALID_STATE')) throw new ConflictError(message, details);
+      throw new ValidationError(message, details);
+    }
+
+    const at = new Date().toISOString();
+    const entry = {
+      transition: transition.id,
+      from: InspectionLifecycleService.getCurrentState(lifecycle, document),
+      to: transition.to,
+      by: actor.userId,
+      byName: actor.name,
+      at,
+      comment: typeof input.comment === 'string' ? input.comment.trim() : null
+    };
+    if (transition.requireSignature) {
+      entry.signature = input.signature;
+    }
+
+    const updates = {
+      status: transition.to,
+      lifecycleId: lifecycle.id,
+      statusHistory: [...(document.statusHistory || []), entry]
+    };
+    const lock = transition.effects?.lock;
+    if (lock === true) {
+      Object.assign(updates, { locked: true, lockedAt: at, lockedBy: actor.userId });
+    } else if (lock === false) {
+      Object.assign(updates, { locked: false, lockedAt: null, lockedBy: null });
+    }
+
+    return { transition, entry, updates };
+  }
+
+  /**
+   * Reconcile a regular update with the lifecycle. Lifecycle fields are dropped;
+   * a status change is kept only when an automatic transition allows it.
+   *
+   * @returns {Object} { updates, transition } - transition is set when the status changes
+   * @throws {ConflictError} When the document is locked
+   */
+  static prepareUpdate(lifecycle, document, updates, actor) {
+    if (document.locked) {
+      throw new ConflictError(
+        `Inspection is locked in ${InspectionLifecycleService.getStateLabel(lifecycle, document.status)}`,
+        { status: document.status, lockedBy: document.lockedBy }
+      );
+    }
+
+    const { status, ...rest } = updates;
+    LIFECYCLE_FIELDS.forEach(field => delete rest[field]);
+
+    const state = InspectionLifecycleService.getCurrentState(lifecycle, document);
+    if (isBlank(status) || status === state) {
+      return { updates: rest, transition: null };
+    }
+
+    const merged = { ...document, ...rest };
+    const automatic = (lifecycle.transitions || []).find(
+      transition =>
+        transition.automatic &&
+        transition.to === status &&
+        !transition.requireComment &&
+        !transition.requireSignature &&
+        InspectionLifecycleService.checkTransition(lifecycle, merged, transition.id, actor).allowed
+    );
+    if (!automatic) {
+      logger.debug('[InspectionLifecycle] Ignoring status change without an automatic transition', {
+        id: document.id,
+        from: state,
+        to: status
+      });
+      return { updates: rest, transition: null };
+    }
+
+    const applied = InspectionLifecycleService.applyTransition(lifecycle, merged, automatic.id, actor);
+    return { updates: { ...rest, ...applied.updates }, transition: applied.transition, entry: applied.entry };
+  }
+
+  /**
+   * Resolve the acting user's roles and effective permissions. Falls back to
+   * the token claims when the user's roles cannot be loaded.
+   *
+   * @param {Object} user - request.user
+   * @returns {Promise<Object>} { userId, name, tenantId, platformRole, roles, permissions }
+   */
+  static async resolveActor(user = {}) {
+    const actor = {
+      userId: user.userId || user.id,
+      name: user.name || user.email,
+      email: user.email,
+      tenantId: user.tenantId,
+      platformRole: user.platformRole,
+      isPlatformAdmin: user.isPlatformAdmin,
+      roles: (user.roles || []).map(roleName).filter(Boolean),
+      permissions: user.permissions || []
+    };
+
+    try {
+      const { user: userDoc, assignedRoles, tenantRoles } = await AccessReportService.loadUserAccess(
+        actor.userId,
+        actor.tenantId
+      );
+      const report = resolveEffectivePermissions(assignedRoles, tenantRoles);
+      const inheritedRoles = report.permissions.flatMap(entry => entry.origins.flatMap(origin => origin.via));
+
+      actor.name = userDoc.name || actor.name;
+      actor.roles = Array.from(new Set([...actor.roles, ...assignedRoles.map(role => role.name), ...inheritedRoles]));
+      actor.permissions = Array.from(new Set([...actor.permissions, ...report.permissions.map(entry => entry.permission)]));
+    } catch (error) {
+      logger.warn('[InspectionLifecycle] Could not load user roles; using token claims', {
+        userId: actor.userId,
+        error: error.message
+      });
+    }
+
+    return actor;
+  }
+
+  /**
+   * Send the transition's notifications. Failures are logged, never thrown.
+   *
+   * @param {Object} transition - Transition definition
+   * @param {Object} document - Inspection after the transition
+   * @param {Object} entry - statusHistory entry
+   * @param {Object} lifecycle - Lifecycle definition
+   */
+  static async notify(transition, document, entry, lifecycle) {
+    const notify = transition.effects?.notify;
+    if (!notify) return;
+
+    try {
+      const recipients = await InspectionLifecycleService.findRecipients(notify, document);
+      const stateLabel = InspectionLifecycleService.getStateLabel(lifecycle, entry.to);
+      const name = document.equipmentName || document.assetName || document.id;
+      const text = [
+        `Inspection ${name} moved to ${stateLabel} (${transition.label || transition.id}) by ${entry.byName || entry.by}.`,
+        entry.comment ? `Comment: ${entry.comment}` : null
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+
+      await Promise.all(
+        recipients.map(email => EmailService.sendMail({ to: email, subject: `Inspection ${stateLabel}: ${name}`, text }))
+      );
+    } catch (error) {
+      logger.error('[InspectionLifecycle] Failed to send transition notifications', error, {
+        id: document.id,
+        transition: transition.id
+      });
+    }
+  }
+
+  /**
+   * E-mail addresses for a notify effect: users holding the roles and/or the creator
+   */
+  static async findRecipients(notify, document) {
+    const db = mongoose.connection;
+    if (!db || db.readyState !== 1) {
+      throw new Error('Database not connected');
+    }
+
+    const userFilters = [];
+    if (Array.isArray(notify.roles) && notify.roles.length > 0) {
+      const roles = await db
+        .collection('roles')
+        .find({ name: { $in: notify.roles }, $or: [{ tenantId: { $in: tenantIdValues(document.tenantId) } }, { tenantId: null }] })
+        .toArray();
+      const roleIds = roles.map(role => role._id);
+      if (roleIds.length > 0) {
+        userFilters.push({ roleIds: { $in: [...roleIds, ...roleIds.map(String)] } });
+      }
+    }
+    if (notify.creator && document.created_by) {
+      userFilters.push({ userId: document.created_by });
+    }
+    if (userFilters.length === 0) return [];
+
+    const users = await db
+      .collection('users')
+      .find({ tenantId: { $in: tenantIdValues(document.tenantId) }, $or: userFilters }, { projection: { email: 1 } })
+      .toArray();
+    return Array.from(new Set(users.map(user => user.email).filter(Boolean)));
+  }
+}
+
+module.exports = InspectionLifecycleService;
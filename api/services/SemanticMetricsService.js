@@ -0,0 +1,575 @@
+/**
+ * Semantic Metrics Service
+ *
+ * Compiles named metrics into aggregation pipelines. Gadgets ask for metrics,
+ * dimensions and filters by name; everything that can be queried is declared
+ * in public/data/metrics/semantic-metrics.json:
+ * - sources: a document type (or an allow-listed collection) plus the fields
+ *   behind each dimension and filter, optionally unwinding an array field and
+ *   joining related documents of the same tenant by id ("lookups")
+ * - dimensions: shared names (site, asset_type, month, ...) mapped per source,
+ *   either to fields or to labelled buckets of a field
+ * - metrics: count, sum, avg, distinct (optionally with "where" conditions),
+ *   ratio (numerator / denominator metrics of the same source) and
+ *   running_total (cumulative value of another metric in row order)
+ *
+ * Pipelines run through DocumentRepository (or the collection's repository),
+ * which prepends the tenant and soft-delete filters. Request values never
+ * become field names or operators: filter values must be plain strings,
+ * numbers or booleans.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { ValidationError } = require('../core/ErrorHandler');
+const DocumentRepository = require('../repositories/DocumentRepository');
+const ExecutionRepository = require('../repositories/ExecutionRepository');
+const DocumentModel = require('../models/Document');
+
+const CATALOG_PATH = path.join(__dirname, '../../public/data/metrics/semantic-metrics.json');
+
+// Collections other than documents that a source may name
+const COLLECTION_REPOSITORIES = {
+  executions: ExecutionRepository
+};
+
+const BASE_TYPES = ['count', 'sum', 'avg', 'distinct'];
+const SORT_ORDERS = ['asc', 'desc'];
+const MAX_LIMIT = 1000;
+const GRANULARITIES = ['day', 'week', 'month', 'quarter', 'year'];
+const DATE_FORMATS = { day: '%Y-%m-%d', week: '%G-W%V', month: '%Y-%m', year: '%Y' };
+const WHERE_OPERATORS = ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte', 'exists'];
+const DATE_PLACEHOLDER = /^now(?:([+-])(\d+)d)?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let cachedCatalog = null;
+
+const isBlank = value =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isScalar = value => ['string', 'number', 'boolean'].includes(typeof value);
+
+const fieldRef = field => `$${field}`;
+
+/**
+ * Field value as a date (strings are parsed; anything unparseable is null)
+ */
+const toDate = field => ({ $convert: { input: fieldRef(field), to: 'date', onError: null, onNull: null } });
+
+const toNumber = field => ({ $convert: { input: fieldRef(field), to: 'double', onError: null, onNull: null } });
+
+/**
+ * "now", "now+30d" or "now-7d" as a Date; null for any other value
+ */
+function resolveDatePlaceholder(value, now = new Date()) {
+  const match = typeof value === 'string' && value.match(DATE_PLACEHOLDER);
+  if (!match) return null;
+  const offset = match[1] ? Number(match[2]) * DAY_MS * (match[1] === '-' ? -1 : 1) : 0;
+  return new Date(now.getTime() + offset);
+}
+
+/**
+ * Aggregation expression for one metric "where" condition
+ */
+function compileCondition({ field, op, value }) {
+  if (!WHERE_OPERATORS.includes(op)) {
+    throw new ValidationError(`Unsupported metric condition operator: ${op}`);
+  }
+  if (op === 'exists') {
+    const exists = { $not: [{ $in: [{ $type: fieldRef(field) }, ['missing', 'null']] }] };
+    return value === false ? { $not: [exists] } : exists;
+  }
+
+  const date = resolveDatePlaceholder(value);
+  const input = date ? toDate(field) : fieldRef(field);
+  const operand = date || value;
+
+  switch (op) {
+    case 'in':
+      return { $in: [input, operand] };
+    case 'nin':
+      return { $not: [{ $in: [input, operand] }] };
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      // Missing values would otherwise compare as lower than every number or date
+      return { $and: [{ $ne: [{ $ifNull: [input, null] }, null] }, { [`$${op}`]: [input, operand] }] };
+    default:
+      return { [`$${op}`]: [input, operand] };
+  }
+}
+
+function compileWhere(where = []) {
+  if (where.length === 0) return null;
+  const conditions = where.map(compileCondition);
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Start and end (exclusive) of a date filter value:
+ * ["YYYY-MM-DD", "YYYY-MM-DD"] (inclusive range) or "YTD" / "QTD" / "MTD"
+ */
+function resolveDateRange(value, now = new Date()) {
+  if (Array.isArray(value) && value.length === 2) {
+    const start = new Date(value[0]);
+    const end = new Date(value[1]);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      throw new ValidationError('Date range values must be dates');
+    }
+    return { start, end: new Date(end.getTime() + DAY_MS) };
+  }
+
+  const year = now.getFullYear();
+  switch (value) {
+    case 'YTD':
+      return { start: new Date(year, 0, 1), end: now };
+    case 'QTD':
+      return { start: new Date(year, Math.floor(now.getMonth() / 3) * 3, 1), end: now };
+    case 'MTD':
+      return { start: new Date(year, now.getMonth(), 1), end: now };
+    default:
+      throw new ValidationError(`Unsupported date range: ${value}`);
+  }
+}
+
+/**
+ * $match conditions for the request filters a source declares
+ * (filters the source does not declare are ignored: dashboards share one filter bar)
+ */
+function compileFilters(source, filters = {}) {
+  const conditions = [];
+
+  Object.entries(filters).forEach(([key, value]) => {
+    const definition = source.filters?.[key];
+    if (!definition || isBlank(value)) return;
+
+    const values = Array.isArray(value) ? value : [value];
+    if (!values.every(isScalar)) {
+      throw new ValidationError(`Filter ${key} must be a string, number or boolean (or a list of them)`);
+    }
+
+    if (definition.type === 'date') {
+      const { start, end } = resolveDateRange(value);
+      const date = toDate(definition.field);
+      conditions.push({ $expr: { $and: [{ $gte: [date, start] }, { $lt: [date, end] }] } });
+    } else if (definition.match === 'contains') {
+      const pattern = String(values[0]).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      conditions.push({ [definition.field]: { $regex: pattern, $options: 'i' } });
+    } else {
+      conditions.push({ [definition.field]: Array.isArray(value) ? { $in: values } : value });
+    }
+  });
+
+  return conditions;
+}
+
+/**
+ * Fields a dimension mapping reads ("field", ["field", "fallback"] or { field, buckets })
+ */
+const dimensionFields = mapping => (mapping && !Array.isArray(mapping) && typeof mapping === 'object'
+  ? [mapping.field]
+  : [].concat(mapping || []));
+
+/**
+ * Label of the first bucket whose condition holds, else "otherwise"
+ * (documents without the field get "missing" when it is set)
+ */
+function compileBuckets({ field, buckets = [], otherwise = null, missing }) {
+  const branches = buckets.map(bucket => ({
+    case: compileCondition({ field, op: bucket.op, value: bucket.value }),
+    then: bucket.label
+  }));
+  if (missing !== undefined) {
+    branches.unshift({ case: compileCondition({ field, op: 'exists', value: false }), then: missing });
+  }
+  return { $switch: { branches, default: otherwise } };
+}
+
+/**
+ * Group key expression for a dimension of a source
+ */
+function compileDimension(dimension, mapping, granularity) {
+  if (!Array.isArray(mapping) && typeof mapping === 'object') {
+    return compileBuckets(mapping);
+  }
+
+  const fields = [].concat(mapping);
+  if (dimension.type !== 'time') {
+    // Later fields are fallbacks for documents without the first one
+    return fields.map(fieldRef).reduceRight((fallback, field) => (fallback === null ? field : { $ifNull: [field, fallback] }), null);
+  }
+
+  const date = toDate(fields[0]);
+  if (granularity === 'quarter') {
+    return {
+      $cond: [
+        { $eq: [date, null] },
+        null,
+        { $concat: [{ $toString: { $year: date } }, '-Q', { $toString: { $toInt: { $ceil: { $divide: [{ $month: date }, 3] } } } }] }
+      ]
+    };
+  }
+  return { $dateToString: { format: DATE_FORMATS[granularity], date } };
+}
+
+/**
+ * $group accumulator for a count / sum / avg / distinct metric
+ */
+function compileAccumulator(metric) {
+  const condition = compileWhere(metric.where);
+  const when = (value, otherwise) => (condition ? { $cond: [condition, value, otherwise] } : value);
+
+  // Product of the field, the "multiply" fields and the scale (null when any is missing)
+  const factors = [metric.field, ...(metric.multiply || [])].map(toNumber);
+  if (metric.scale !== undefined) factors.push(metric.scale);
+  const value = factors.length === 1 ? factors[0] : { $multiply: factors };
+
+  switch (metric.type) {
+    case 'count':
+      return { $sum: when(1, 0) };
+    case 'sum':
+      return { $sum: when(value, 0) };
+    case 'avg':
+      return { $avg: when(value, null) };
+    case 'distinct':
+      return { $addToSet: when(fieldRef(metric.field), null) };
+    default:
+      throw new ValidationError(`Unsupported metric type: ${metric.type}`);
+  }
+}
+
+/**
+ * Fields a count / sum / avg / distinct metric reads
+ */
+const metricFields = metric => [metric.field, ...(metric.multiply || []), ...(metric.where || []).map(({ field }) => field)]
+  .filter(Boolean);
+
+/**
+ * Stages joining the document of the row's tenant whose id is in lookup.field
+ * (its fields are then read as "<name>.<field>"; rows without one keep a null)
+ */
+function compileLookup(name, lookup) {
+  return [
+    {
+      $lookup: {
+        from: DocumentModel.collection.collectionName,
+        let: { key: fieldRef(lookup.field), tenantId: '$tenantId' },
+        pipeline: [
+          {
+            $match: {
+              type: lookup.documentType,
+              deleted: { $ne: true },
+              $expr: { $and: [{ $eq: ['$id', '$$key'] }, { $eq: ['$tenantId', '$$tenantId'] }] }
+            }
+          },
+          { $limit: 1 }
+        ],
+        as: name
+      }
+    },
+    { $unwind: { path: fieldRef(name), preserveNullAndEmptyArrays: true } }
+  ];
+}
+
+/**
+ * Compare two row values: nulls last, numbers numerically, anything else as text
+ */
+function compareValues(a, b) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : 1;
+}
+
+class SemanticMetricsService {
+  /**
+   * Metric catalog (cached after the first read)
+   */
+  static getCatalog() {
+    if (!cachedCatalog) {
+      cachedCatalog = JSON.parse(fs.readFileSync(CATALOG_PATH, 'utf8'));
+    }
+    return cachedCatalog;
+  }
+
+  /**
+   * Replace the catalog (tests and metadata reloads)
+   *
+   * @param {Object|null} catalog - Catalog, or null to re-read the file
+   */
+  static setCatalog(catalog) {
+    cachedCatalog = catalog;
+  }
+
+  /**
+   * Public description of the catalog for gadget editors
+   */
+  static describeCatalog() {
+    const { dimensions = {}, sources = {}, metrics = {} } = SemanticMetricsService.getCatalog();
+    return {
+      dimensions: Object.entries(dimensions).map(([name, dimension]) => ({ name, ...dimension })),
+      metrics: Object.entries(metrics).map(([name, metric]) => ({
+        name,
+        label: metric.label,
+        description: metric.description,
+        type: metric.type,
+        format: metric.format,
+        unit: metric.unit,
+        source: metric.source,
+        dimensions: Object.keys(sources[metric.source]?.dimensions || {}),
+        filters: Object.keys(sources[metric.source]?.filters || {})
+      }))
+    };
+  }
+
+  static getMetric(name) {
+    const metric = SemanticMetricsService.getCatalog().metrics?.[name];
+    if (!metric) {
+      throw new ValidationError(`Unknown metric: ${name}`);
+    }
+    return metric;
+  }
+
+  /**
+   * Compile a query into one pipeline per source
+   *
+   * @param {Object} query
+   * @param {String[]} query.metrics - Metric names
+   * @param {String[]} [query.dimensions] - Dimension names to group by
+   * @param {Object} [query.filters] - Filter values keyed by filter name
+   * @param {String} [query.granularity] - Overrides the granularity of time dimensions
+   * @param {Object} [query.sort] - { by, order }: a queried metric or dimension, 'asc' (default) or 'desc'
+   * @param {Number} [query.limit] - Maximum number of rows
+   * @returns {Array<{ source, documentType, collection, metrics, pipeline }>}
+   */
+  static compile({ metrics = [], dimensions = [], filters = {}, granularity, sort, limit } = {}) {
+    if (!Array.isArray(metrics) || metrics.length === 0) {
+      throw new ValidationError('At least one metric is required');
+    }
+    if (!Array.isArray(dimensions)) {
+      throw new ValidationError('dimensions must be a list of dimension names');
+    }
+    if (granularity && !GRANULARITIES.includes(granularity)) {
+      throw new ValidationError(`granularity must be one of: ${GRANULARITIES.join(', ')}`);
+    }
+    if (filters === null || typeof filters !== 'object' || Array.isArray(filters)) {
+      throw new ValidationError('filters must be an object');
+    }
+    if (sort !== undefined) {
+      if (sort === null || typeof sort !== 'object' || ![...metrics, ...dimensions].includes(sort.by)) {
+        throw new ValidationError('sort.by must be one of the queried metrics or dimensions');
+      }
+      if (sort.order !== undefined && !SORT_ORDERS.includes(sort.order)) {
+        throw new ValidationError(`sort.order must be one of: ${SORT_ORDERS.join(', ')}`);
+      }
+    }
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= MAX_LIMIT)) {
+      throw new ValidationError(`limit must be a whole number from 1 to ${MAX_LIMIT}`);
+    }
+
+    const catalog = SemanticMetricsService.getCatalog();
+    const bySource = new Map();
+
+    metrics.forEach(name => {
+      const metric = SemanticMetricsService.getMetric(name);
+      if (!bySource.has(metric.source)) bySource.set(metric.source, []);
+      bySource.get(metric.source).push(name);
+    });
+
+    return Array.from(bySource.entries()).map(([sourceName, names]) => {
+      const source = catalog.sources?.[sourceName];
+      if (!source) {
+        throw new ValidationError(`Metric source ${sourceName} is not defined`);
+      }
+      if (source.collection && !COLLECTION_REPOSITORIES[source.collection]) {
+        throw new ValidationError(`Metric source ${sourceName} reads an unsupported collection`);
+      }
+
+      const group = { _id: null };
+      const project = { _id: 0 };
+      const accumulated = new Map();
+      // "where" of each accumulated metric (null when it counts every row) and the fields read
+      const conditions = [];
+      const fields = new Set();
+
+      const accumulate = name => {
+        if (!accumulated.has(name)) {
+          const metric = SemanticMetricsService.getMetric(name);
+          if (metric.source !== sourceName || !BASE_TYPES.includes(metric.type)) {
+            throw new ValidationError(`Metric ${name} cannot be used in a ratio of ${sourceName}`);
+          }
+          const key = `m${accumulated.size}`;
+          group[key] = compileAccumulator(metric);
+          conditions.push(compileWhere(metric.where));
+          metricFields(metric).forEach(field => fields.add(field));
+          accumulated.set(name, metric.type === 'distinct'
+            ? { $size: { $filter: { input: `$${key}`, cond: { $ne: ['$$this', null] } } } }
+            : `$${key}`);
+        }
+        return accumulated.get(name);
+      };
+
+      const valueOf = name => {
+        const metric = SemanticMetricsService.getMetric(name);
+        if (metric.type !== 'ratio') {
+          return accumulate(name);
+        }
+        const numerator = accumulate(metric.numerator);
+        const denominator = accumulate(metric.denominator);
+        return {
+          $cond: [
+            { $gt: [denominator, 0] },
+            { $multiply: [{ $divide: [numerator, denominator] }, metric.scale || 1] },
+            null
+          ]
+        };
+      };
+
+      if (dimensions.length > 0) {
+        group._id = {};
+        dimensions.forEach(dimensionName => {
+          const dimension = catalog.dimensions?.[dimensionName];
+          const mapping = source.dimensions?.[dimensionName];
+          const mappedFields = dimensionFields(mapping).filter(Boolean);
+          if (!dimension || mappedFields.length === 0) {
+            throw new ValidationError(`Dimension ${dimensionName} is not available for ${source.label || sourceName}`);
+          }
+          group._id[dimensionName] = compileDimension(dimension, mapping, granularity || dimension.granularity || 'month');
+          mappedFields.forEach(field => fields.add(field));
+          project[dimensionName] = `$_id.${dimensionName}`;
+        });
+      }
+
+      names.forEach(name => {
+        const metric = SemanticMetricsService.getMetric(name);
+        if (metric.type === 'running_total') {
+          const base = SemanticMetricsService.getMetric(metric.of);
+          if (base.source !== sourceName || base.type === 'running_total') {
+            throw new ValidationError(`Metric ${metric.of} cannot be used in a running total of ${sourceName}`);
+          }
+          // Each row's own value; query() accumulates it once the rows are in order
+          project[name] = valueOf(metric.of);
+        } else {
+          project[name] = valueOf(name);
+        }
+      });
+
+      const pipeline = [];
+      if (source.where?.length) {
+        pipeline.push({ $match: { $expr: compileWhere(source.where) } });
+      }
+      if (source.unwind) {
+        pipeline.push({ $unwind: fieldRef(source.unwind) });
+      }
+      const filterConditions = compileFilters(source, filters);
+      if (filterConditions.length > 0) {
+        pipeline.push({ $match: filterConditions.length === 1 ? filterConditions[0] : { $and: filterConditions } });
+      }
+      Object.entries(source.lookups || {}).forEach(([lookupName, lookup]) => {
+        if (Array.from(fields).some(field => field.startsWith(`${lookupName}.`))) {
+          pipeline.push(...compileLookup(lookupName, lookup));
+        }
+      });
+      // Grouped rows only for documents that count towards a metric, so no group is all zeros
+      if (dimensions.length > 0 && conditions.every(Boolean)) {
+        pipeline.push({ $match: { $expr: conditions.length === 1 ? conditions[0] : { $or: conditions } } });
+      }
+      pipeline.push({ $group: group }, { $project: project });
+      if (dimensions.length > 0) {
+        pipeline.push({ $sort: Object.fromEntries(dimensions.map(dimensionName => [dimensionName, 1])) });
+      }
+
+      return { source: sourceName, documentType: source.documentType, collection: source.collection, metrics: names, pipeline };
+    });
+  }
+
+  /**
+   * Run a query for the user's tenant
+   *
+   * @param {TenantContext} tenantContext
+   * @param {Object} query - See compile()
+   * @param {RequestContext} [requestContext]
+   * @returns {Promise<{ metrics, dimensions, rows }>} One row per dimension combination
+   */
+  static async query(tenantContext, query = {}, requestContext = null) {
+    const dimensions = query.dimensions || [];
+    const compiled = SemanticMetricsService.compile(query);
+    const rows = new Map();
+
+    for (const { documentType, collection, metrics, pipeline } of compiled) {
+      const repository = collection
+        ? new COLLECTION_REPOSITORIES[collection](tenantContext, requestContext)
+        : new DocumentRepository(tenantContext, documentType, requestContext);
+      const results = await repository.aggregate(pipeline);
+
+      if (results.length === 0 && dimensions.length === 0) {
+        results.push(SemanticMetricsService.emptyRow(metrics));
+      }
+
+      results.forEach(result => {
+        const key = JSON.stringify(dimensions.map(dimensionName => result[dimensionName] ?? null));
+        rows.set(key, { ...rows.get(key), ...result });
+      });
+    }
+
+    // Rows missing from one source get null for its metrics
+    const empty = Object.fromEntries(query.metrics.map(name => [name, null]));
+    const merged = Array.from(rows.entries());
+    if (compiled.length > 1) {
+      merged.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+    const ordered = merged.map(([, row]) => ({ ...empty, ...row }));
+
+    if (query.sort) {
+      const { by, order } = query.sort;
+      const direction = order === 'desc' ? -1 : 1;
+      // Rows without a value stay last in either order
+      ordered.sort((a, b) => (a[by] === null || b[by] === null
+        ? compareValues(a[by], b[by])
+        : direction * compareValues(a[by], b[by])));
+    }
+    SemanticMetricsService.applyRunningTotals(query.metrics, ordered);
+
+    return {
+      metrics: query.metrics,
+      dimensions,
+      rows: query.limit ? ordered.slice(0, query.limit) : ordered
+    };
+  }
+
+  /**
+   * Replace running_total metrics with the cumulative value in row order
+   * (a percentage of the total of all rows when the metric sets "percent")
+   */
+  static applyRunningTotals(metrics, rows) {
+    metrics.forEach(name => {
+      const metric = SemanticMetricsService.getMetric(name);
+      if (metric.type !== 'running_total') return;
+
+      const total = rows.reduce((sum, row) => sum + (Number(row[name]) || 0), 0);
+      let runningTotal = 0;
+      rows.forEach(row => {
+        runningTotal += Number(row[name]) || 0;
+        row[name] = metric.percent ? (total > 0 ? (runningTotal / total) * 100 : null) : runningTotal;
+      });
+    });
+    return rows;
+  }
+
+  /**
+   * Result row when nothing matched (counts are 0; averages and ratios have no value)
+   */
+  static emptyRow(metrics) {
+    return Object.fromEntries(metrics.map(name => {
+      const metric = SemanticMetricsService.getMetric(name);
+      const { type } = metric.type === 'running_total' && !metric.percent
+        ? SemanticMetricsService.getMetric(metric.of)
+        : metric;
+      return [name, ['count', 'sum', 'distinct'].includes(type) ? 0 : null];
+    }));
+  }
+}
+
+module.exports = SemanticMetricsService;
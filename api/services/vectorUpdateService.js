@@ -19,7 +19,7 @@
  */
 
 const DatabaseManager = require('../core/DatabaseManager');
-const OpenAI = require('openai');
+const AIProviderRegistry = require('../providers/AIProviderRegistry');
 const DocumentVectorModel = require('../models/DocumentVectors');
 const EventEmitter = require('events');
 const { logger } = require('../core/Logger');
@@ -66,7 +66,6 @@ class VectorUpdateService extends EventEmitter {
 
     this.config = {
       openai: {
-        apiKey: config.openaiKey || env.OPENAI_API_KEY,
         embeddingModel: config.embeddingModel || 'text-embedding-3-small',
         dimensions: config.dimensions || 1536,
         maxTokens: 8000
@@ -98,7 +97,6 @@ class VectorUpdateService extends EventEmitter {
     
     this.dbManager = null;
     this.db = null;
-    this.openai = null;
     this.changeStreams = new Map();
     this.documentTypes = new Map();
     this.isRunning = false;
@@ -111,13 +109,6 @@ class VectorUpdateService extends EventEmitter {
     };
     this.pendingUpdates = new Map(); // Debounce rapid updates
     
-    // Validate configuration
-    if (!this.config.openai.apiKey) {
-      throw new Error('OpenAI API key is required');
-    }
-    
-    this.openai = new OpenAI({ apiKey: this.config.openai.apiKey });
-    
     // Add error handler to prevent unhandled errors from crashing the process
     this.on('error', (errorInfo) => {
       logger.error('🚨 VectorUpdateService Error:', errorInfo);
@@ -503,7 +494,7 @@ class VectorUpdateService extends EventEmitter {
         }
         
         // Generate embedding with retry
-        const embedding = await this.generateEmbeddingWithRetry(semanticText);
+        const embedding = await this.generateEmbeddingWithRetry(semanticText, { tenantId: document.tenantId });
         
         // Generate searchable content
         const searchableContent = this.generateSearchableContent(document, docTypeInfo.structure);
@@ -715,12 +706,12 @@ class VectorUpdateService extends EventEmitter {
   }
   
   /**
-   * Generate embedding with retry logic
+   * Generate embedding with retry logic, using the document tenant's AI provider
    */
-  async generateEmbeddingWithRetry(text, retries = this.config.processing.maxRetries) {
+  async generateEmbeddingWithRetry(text, tenant = {}, retries = this.config.processing.maxRetries) {
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
-        const response = await this.openai.embeddings.create({
+        const response = await AIProviderRegistry.getProvider(tenant).embed({
           model: this.config.openai.embeddingModel,
           input: text.substring(0, this.config.openai.maxTokens),
           encoding_format: "float"
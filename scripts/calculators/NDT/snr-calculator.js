@@ -84,6 +84,28 @@ module.exports = {
     ]},
     { id: 'temperature_c', type: 'number', title: 'Temperature', label: 'Test Temperature (°C)', sectionId: 'snr-section', groupId: 'environment-group', size: 8, defaultValue: 20, props: { addonAfter: '°C' } }
   ],
+  mode: 'deterministic',
+  inputValidation: [
+    { field: 'signal_amplitude_db', required: true, min: -120, max: 120 },
+    { field: 'noise_amplitude_db', required: true, min: -120, max: 120 },
+    { field: 'required_snr_db', required: true, min: 0, max: 60 }
+  ],
+  calculations: [
+    { id: 'snr_db', label: 'Signal-to-Noise Ratio', formula: '=signal_amplitude_db - noise_amplitude_db', precision: 1 },
+    { id: 'snr_margin_db', label: 'Margin over Required SNR', formula: '=snr_db - required_snr_db', precision: 1 },
+    { id: 'snr_ratio', label: 'Amplitude Ratio', formula: '=POWER(10, snr_db / 20)', precision: 2 },
+    { id: 'acceptance', label: 'Acceptance', formula: '=IF(snr_db >= required_snr_db, "Acceptable", "Not acceptable")' }
+  ],
+  outputs: [
+    { id: 'snr_db', unit: 'dB' },
+    { id: 'snr_margin_db', unit: 'dB' },
+    { id: 'snr_ratio' },
+    { id: 'acceptance' }
+  ],
+  aiNarrative: {
+    enabled: true,
+    prompt: 'Using the uploaded signal images and the computed SNR, explain likely noise sources for {ndt_method} with {coupling_quality} coupling and {surface_roughness} surface, and how to improve the SNR if the margin is small or negative.'
+  },
   aiPrompt: `
 You are an **NDT signal analysis expert** with advanced signal-to-noise ratio (SNR) measurement and quality assessment capabilities.  
 You will receive **NDT signal images** along with measurement parameters to generate a **comprehensive SNR analysis and data quality assessment**.
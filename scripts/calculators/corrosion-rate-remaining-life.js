@@ -19,8 +19,31 @@ module.exports = {
     { "id": "years_between", "type": "number", "title": "Years Between Readings", "label": "Years Between Readings", "required": true, "size": 8, "sectionId": "input-card", "groupId": "thk", "defaultValue": null },
 
     { "id": "limits", "type": "group", "title": "Limits", "description": "Minimum allowable and CA", "sectionId": "input-card", "order": 2, "size": 24, "collapsible": true },
-    { "id": "t_min_mm", "type": "number", "title": "Tmin (mm)", "label": "Tmin (mm)", "required": false, "size": 8, "sectionId": "input-card", "groupId": "limits", "defaultValue": null },
+    { "id": "t_min_mm", "type": "number", "title": "Tmin (mm)", "label": "Tmin (mm)", "required": true, "size": 8, "sectionId": "input-card", "groupId": "limits", "defaultValue": null },
     { "id": "corrosion_allowance_mm", "type": "number", "title": "Corrosion Allowance (mm)", "label": "Corrosion Allowance (mm)", "required": false, "size": 8, "sectionId": "input-card", "groupId": "limits", "defaultValue": null }
   ],
+  "mode": "deterministic",
+  "inputValidation": [
+    { "field": "t_initial_mm", "required": true, "min": 0.1, "max": 300, "unit": "mm" },
+    { "field": "t_current_mm", "required": true, "min": 0.1, "max": 300, "unit": "mm" },
+    { "field": "years_between", "required": true, "min": 0.1, "max": 100, "unit": "yr" },
+    { "field": "t_min_mm", "required": true, "min": 0, "max": 300, "unit": "mm" },
+    { "field": "corrosion_allowance_mm", "min": 0, "max": 50, "unit": "mm" }
+  ],
+  "calculations": [
+    { "id": "metal_loss_mm", "label": "Metal Loss", "formula": "=t_initial_mm - t_current_mm", "unit": "mm", "precision": 2 },
+    { "id": "corrosion_rate", "label": "Corrosion Rate", "formula": "=metal_loss_mm / years_between", "unit": "mm/yr", "precision": 3 },
+    { "id": "remaining_life", "label": "Remaining Life", "formula": "=IF(corrosion_rate > 0, (t_current_mm - t_min_mm) / corrosion_rate, 99)", "unit": "yr", "precision": 1, "description": "99 years when no metal loss was measured" },
+    { "id": "next_inspection", "label": "Next Inspection Interval", "formula": "=MAX(MIN(remaining_life / 2, 10), 0)", "unit": "yr", "precision": 1, "description": "Half the remaining life, capped at 10 years (API 510)" }
+  ],
+  "outputs": [
+    { "id": "corrosion_rate" },
+    { "id": "remaining_life" },
+    { "id": "next_inspection" }
+  ],
+  "aiNarrative": {
+    "enabled": false,
+    "prompt": "Explain the corrosion rate and remaining life for an RBI reviewer: whether the rate is typical, how the Tmin margin and corrosion allowance ({corrosion_allowance_mm} mm) affect the next inspection, and what to verify on site."
+  },
   "aiPrompt": "You are an RBI engineer.\n\nContext: Corrosion rate and remaining life — compute corrosion rate from thickness loss over time, then remaining life to Tmin (or Tmin+CA) and suggest next due.\n\nTask: Provide a concise result limited strictly to:\n1) Corrosion rate (mm/yr)\n2) Remaining life (years) to limit\n3) Suggested next due interval\n\nOutput a professional Markdown report with ONLY these sections:\n\n# Corrosion Rate & Remaining Life\n## Inputs\n## Method and Assumptions\n## Calculations\n- Corrosion Rate\n- Remaining Life\n- Next Due\n## Summary Table\n(Use columns: Metric | Value | Units | Rationale)\n## References and Standards"
 };
\ No newline at end of file
@@ -23,6 +23,30 @@ module.exports = {
       { label: 'Cost', value: 'cost' }
     ], defaultValue: 'risk' }
   ],
+  mode: 'deterministic',
+  inputValidation: [
+    { field: 'total_load_kN', required: true, min: 0.1, max: 1000, unit: 'kN' },
+    { field: 'base_area_m2', required: true, min: 0.001, max: 100, unit: 'm^2' },
+    { field: 'soil_capacity_kpa', required: true, min: 1, max: 5000, unit: 'kPa' }
+  ],
+  calculations: [
+    { id: 'pressure_kpa', label: 'Bearing Pressure', formula: '=total_load_kN / base_area_m2', unit: 'kPa', precision: 1 },
+    { id: 'pressure_psi', label: 'Bearing Pressure (psi)', formula: '=pressure_kpa', unit: 'psi', precision: 2 },
+    { id: 'utilization_pct', label: 'Capacity Utilization', formula: '=pressure_kpa / soil_capacity_kpa * 100', unit: '%', precision: 1 },
+    { id: 'min_base_area_m2', label: 'Minimum Passing Base Area', formula: '=total_load_kN / soil_capacity_kpa', unit: 'm^2', precision: 3 },
+    { id: 'result', label: 'Result', formula: '=IF(pressure_kpa <= soil_capacity_kpa, "Pass", "Fail")' }
+  ],
+  outputs: [
+    { id: 'pressure_kpa' },
+    { id: 'pressure_psi' },
+    { id: 'utilization_pct' },
+    { id: 'min_base_area_m2' },
+    { id: 'result' }
+  ],
+  aiNarrative: {
+    enabled: true,
+    prompt: 'Recommend sole board or pad options for the computed bearing pressure, optimizing for {optimization_goal}, and state when a soil engineer review is required.'
+  },
   aiPrompt: [
     'You are a scaffolding foundation analyst.',
     '',
@@ -48,6 +48,24 @@ const validateCalculatorMetadata = (calculator, sourceFile) => {
   const fields = extractFields(calculator.uiDefinition);
   const context = `${calculator.id}${sourceFile ? ` (${sourceFile})` : ''}`;
 
+  if (calculator.mode === 'deterministic') {
+    const calculations = Array.isArray(calculator.calculations) ? calculator.calculations : [];
+    if (calculations.length === 0) {
+      throw new Error(`Calculator ${context} is deterministic but declares no calculations.`);
+    }
+    calculations.forEach((calculation, index) => {
+      if (!calculation || !calculation.id || typeof calculation.formula !== 'string') {
+        throw new Error(`Calculator ${context} calculation at index ${index} needs an id and a formula.`);
+      }
+    });
+    const calculationIds = new Set(calculations.map((calculation) => calculation.id));
+    (calculator.outputs || []).forEach((output) => {
+      if (!calculationIds.has(output.id)) {
+        throw new Error(`Calculator ${context} output "${output.id}" does not match a calculation.`);
+      }
+    });
+  }
+
   fields.forEach((field) => {
     if (String(field.type).toLowerCase() === 'checkbox_group') {
       if (!Array.isArray(field.options) || field.options.length === 0) {
@@ -169,7 +187,8 @@ async function run() {
       {
         $set: setPayload,
         $setOnInsert: { id, tenantId: targetTenantId, createdAt: now },
-        $unset: { calculations: "" }
+        // Legacy AI calculators carried unused calculations; deterministic ones need theirs
+        ...(rest.calculations ? {} : { $unset: { calculations: "" } })
       },
       { upsert: true }
     );
@@ -1,6 +1,7 @@
 import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { WorkspaceContext as IWorkspaceContext, WorkspaceDefinition } from '../../schemas/workspace';
 import { GadgetWorkspaceRenderer } from '../ui/workspace/GadgetWorkspaceRenderer';
+import { WorkspaceDefinitionService } from '../../services/WorkspaceDefinitionService';
 /**
  * WorkspaceContainer Component
  * 
@@ -40,15 +41,9 @@ setIsLoading(true);
     }
     
     try {
-const workspaceUrl = `/data/workspaces/${workspaceId}.json`;
-      const response = await fetch(workspaceUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to load workspace: ${response.status} ${response.statusText}`);
-      }
-      
-      const workspaceData: WorkspaceDefinition = await response.json();
-setCurrentWorkspace(workspaceData);
+      // Same JSON document; the context still uses the legacy WorkspaceDefinition shape
+      const workspaceData = await WorkspaceDefinitionService.load(workspaceId);
+      setCurrentWorkspace(workspaceData as unknown as WorkspaceDefinition);
     } catch (err) {
       console.error('Error loading workspace:', err);
       setError(err instanceof Error ? err.message : 'Failed to load workspace');
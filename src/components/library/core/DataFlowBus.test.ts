@@ -0,0 +1,77 @@
+/**
+ * DataFlowBus Tests
+ *
+ * Gadget output -> input propagation declared in workspace JSON.
+ */
+
+import { DataFlowBus, DataFlowTransforms } from './DataFlowBus';
+
+describe('DataFlowBus', () => {
+  const workspace = {
+    dataFlow: {
+      connections: [
+        { source: 'resource-tree.node-selection', target: 'asset-dashboard.asset-data' },
+        { source: 'status-chart.chart-events', target: 'trend-chart.filters', transform: 'pick:name|wrap:status' }
+      ]
+    },
+    gadgets: [
+      {
+        id: 'kpis',
+        config: { dataFlow: { connections: [{ source: 'kpi-click', target: 'trend-chart.highlight', transform: 'pluck:id' }] } }
+      }
+    ]
+  };
+
+  test('delivers outputs to connected inputs with transforms', () => {
+    const bus = DataFlowBus.fromWorkspace(workspace);
+    const received: any[] = [];
+    bus.forGadget('trend-chart').subscribe('filters', data => received.push(data));
+
+    bus.forGadget('status-chart').emit('chart-events', { name: 'overdue', value: 4 });
+    bus.forGadget('resource-tree').emit('node-selection', { id: 'site-1' });
+
+    expect(received).toEqual([{ status: 'overdue' }]);
+    expect(bus.forGadget('asset-dashboard').getInput('asset-data')).toEqual({ id: 'site-1' });
+  });
+
+  test('resolves unqualified sources in gadget config to that gadget', () => {
+    const bus = DataFlowBus.fromWorkspace(workspace);
+    const endpoint = bus.forGadget('kpis');
+
+    expect(endpoint.connections.get('kpi-click')).toEqual(['trend-chart.highlight']);
+    endpoint.emit('kpi-click', [{ id: 'a' }, { id: 'b' }]);
+    expect(bus.getInput('trend-chart', 'highlight')).toEqual(['a', 'b']);
+  });
+
+  test('supports registered transforms and unsubscribe', () => {
+    DataFlowTransforms.register('upper', data => String(data).toUpperCase());
+    const bus = new DataFlowBus([{ source: 'a.out', target: 'b.in', transform: 'default:none|upper' }]);
+    const handler = jest.fn();
+    const unsubscribe = bus.subscribe('b', 'in', handler);
+
+    bus.publish('a', 'out', null);
+    unsubscribe();
+    bus.publish('a', 'out', 'x');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith('NONE');
+    expect(bus.getInput('b', 'in')).toBe('X');
+  });
+
+  test('stops propagating connection cycles', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bus = new DataFlowBus([
+      { source: 'a.out', target: 'b.in' },
+      { source: 'b.out', target: 'a.in' }
+    ]);
+    const relay = jest.fn();
+    bus.subscribe('b', 'in', data => { relay(); bus.publish('b', 'out', data); });
+    bus.subscribe('a', 'in', data => bus.publish('a', 'out', data));
+
+    bus.publish('a', 'out', 1);
+
+    expect(relay).toHaveBeenCalledTimes(5);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
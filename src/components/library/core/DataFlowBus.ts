@@ -0,0 +1,245 @@
+/**
+ * DataFlowBus
+ *
+ * Workspace-level event bus that connects gadget outputs to gadget inputs.
+ * Connections are declared in workspace JSON, either on the workspace or in a
+ * gadget's config (where an unqualified source is one of that gadget's outputs):
+ *
+ *   "dataFlow": {
+ *     "connections": [
+ *       { "source": "resource-tree.node-selection", "target": "asset-dashboard.asset-data" },
+ *       { "source": "status-chart.chart-events", "target": "asset-grid.filters", "transform": "pick:name|wrap:status" }
+ *     ]
+ *   }
+ *
+ * Usage:
+ *   const bus = DataFlowBus.fromWorkspace(workspace);
+ *   const dataFlow = bus.forGadget('resource-tree');
+ *   dataFlow.emit('node-selection', node);
+ *
+ * Transforms are named and chained with `|`; arguments follow a `:`.
+ * Additional transforms can be registered with DataFlowTransforms.register.
+ */
+
+export interface DataFlowConnection {
+  source: string;
+  target: string;
+  transform?: string;
+}
+
+export type DataFlowTransform = (data: any, arg?: string) => any;
+export type DataFlowHandler = (data: any) => void;
+
+/**
+ * Data flow endpoint handed to a gadget through GadgetContext.dataFlow
+ */
+export interface GadgetDataFlow {
+  /** Output name -> "gadgetId.input" targets */
+  connections: Map<string, string[]>;
+  transformers: Map<string, Function>;
+  bus: DataFlowBus;
+  emit(output: string, data: any): void;
+  subscribe(input: string, handler: DataFlowHandler): () => void;
+  /** Last value delivered to an input, if any */
+  getInput(input: string): any;
+}
+
+const MAX_PROPAGATION_DEPTH = 10;
+
+function getPath(data: any, path?: string): any {
+  if (!path) return data;
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+export class DataFlowTransforms {
+  private static registry: Map<string, DataFlowTransform> = new Map<string, DataFlowTransform>([
+    ['pick', (data, path) => getPath(data, path)],
+    ['pluck', (data, path) => (Array.isArray(data) ? data.map(item => getPath(item, path)) : getPath(data, path))],
+    ['first', data => (Array.isArray(data) ? data[0] : data)],
+    ['toArray', data => (data == null ? [] : Array.isArray(data) ? data : [data])],
+    ['wrap', (data, key) => (key ? { [key]: data } : data)],
+    ['default', (data, value) => (data == null || data === '' ? value : data)]
+  ]);
+
+  static register(name: string, transform: DataFlowTransform): void {
+    DataFlowTransforms.registry.set(name, transform);
+  }
+
+  static has(name: string): boolean {
+    return DataFlowTransforms.registry.has(name);
+  }
+
+  static get(name: string): DataFlowTransform | undefined {
+    return DataFlowTransforms.registry.get(name);
+  }
+
+  /**
+   * Apply a transform chain such as "pick:node.id|wrap:assetId"
+   */
+  static apply(spec: string | undefined, data: any): any {
+    if (!spec) return data;
+
+    return spec.split('|').reduce((value, step) => {
+      const separator = step.indexOf(':');
+      const name = (separator === -1 ? step : step.slice(0, separator)).trim();
+      const arg = separator === -1 ? undefined : step.slice(separator + 1).trim();
+      const transform = DataFlowTransforms.registry.get(name);
+      if (!transform) {
+        throw new Error(`Unknown data flow transform: ${name}`);
+      }
+      return transform(value, arg);
+    }, data);
+  }
+}
+
+/**
+ * Split "gadgetId.port" at the last dot; an unqualified port belongs to defaultGadget
+ */
+function parseEndpoint(endpoint: string, defaultGadget?: string): { gadgetId: string; port: string } | null {
+  const separator = endpoint.lastIndexOf('.');
+  if (separator === -1) {
+    return defaultGadget ? { gadgetId: defaultGadget, port: endpoint } : null;
+  }
+  return { gadgetId: endpoint.slice(0, separator), port: endpoint.slice(separator + 1) };
+}
+
+export class DataFlowBus {
+  private connections: DataFlowConnection[] = [];
+  private handlers: Map<string, Set<DataFlowHandler>> = new Map();
+  private values: Map<string, any> = new Map();
+  private endpoints: Map<string, GadgetDataFlow> = new Map();
+  private depth = 0;
+
+  constructor(connections: DataFlowConnection[] = []) {
+    connections.forEach(connection => this.connect(connection));
+  }
+
+  /**
+   * Collect connections from the workspace and from each gadget's config
+   */
+  static fromWorkspace(workspace: any): DataFlowBus {
+    const connections: DataFlowConnection[] = [...(workspace?.dataFlow?.connections || [])];
+    const gadgets = workspace?.gadgets || workspace?.layout?.gadgets || [];
+
+    gadgets.forEach((gadget: any) => {
+      (gadget.config?.dataFlow?.connections || []).forEach((connection: DataFlowConnection) => {
+        const source = parseEndpoint(connection.source, gadget.id);
+        if (source) {
+          connections.push({ ...connection, source: `${source.gadgetId}.${source.port}` });
+        }
+      });
+    });
+
+    return new DataFlowBus(connections);
+  }
+
+  connect(connection: DataFlowConnection): void {
+    if (!parseEndpoint(connection.source) || !parseEndpoint(connection.target)) {
+      console.warn('[DataFlowBus] Ignoring connection without "gadgetId.port" source and target:', connection);
+      return;
+    }
+    connection.transform?.split('|').forEach(step => {
+      const name = step.split(':')[0].trim();
+      if (!DataFlowTransforms.has(name)) {
+        console.warn(`[DataFlowBus] Unknown transform "${name}" on ${connection.source} -> ${connection.target}`);
+      }
+    });
+    this.connections.push(connection);
+    this.endpoints.clear();
+  }
+
+  getConnections(): DataFlowConnection[] {
+    return [...this.connections];
+  }
+
+  /**
+   * Send a gadget output to every connected input
+   */
+  publish(gadgetId: string, output: string, data: any): void {
+    if (this.depth >= MAX_PROPAGATION_DEPTH) {
+      console.warn(`[DataFlowBus] Propagation depth exceeded at ${gadgetId}.${output}; check for connection cycles`);
+      return;
+    }
+
+    const source = `${gadgetId}.${output}`;
+    this.depth++;
+    try {
+      this.connections
+        .filter(connection => connection.source === source)
+        .forEach(connection => {
+          let value: any;
+          try {
+            value = DataFlowTransforms.apply(connection.transform, data);
+          } catch (error) {
+            console.error(`[DataFlowBus] Transform failed on ${source} -> ${connection.target}:`, error);
+            return;
+          }
+          this.deliver(connection.target, value);
+        });
+    } finally {
+      this.depth--;
+    }
+  }
+
+  subscribe(gadgetId: string, input: string, handler: DataFlowHandler): () => void {
+    const key = `${gadgetId}.${input}`;
+    if (!this.handlers.has(key)) {
+      this.handlers.set(key, new Set());
+    }
+    this.handlers.get(key)!.add(handler);
+
+    return () => {
+      this.handlers.get(key)?.delete(handler);
+    };
+  }
+
+  getInput(gadgetId: string, input: string): any {
+    return this.values.get(`${gadgetId}.${input}`);
+  }
+
+  /**
+   * Endpoint scoped to one gadget (stable across renders until connections change)
+   */
+  forGadget(gadgetId: string): GadgetDataFlow {
+    const cached = this.endpoints.get(gadgetId);
+    if (cached) return cached;
+
+    const connections = new Map<string, string[]>();
+    const transformers = new Map<string, Function>();
+    const prefix = `${gadgetId}.`;
+
+    this.connections
+      .filter(connection => connection.source.startsWith(prefix))
+      .forEach(connection => {
+        const output = connection.source.slice(prefix.length);
+        connections.set(output, [...(connections.get(output) || []), connection.target]);
+        if (connection.transform) {
+          transformers.set(`${connection.source}->${connection.target}`, (data: any) =>
+            DataFlowTransforms.apply(connection.transform, data)
+          );
+        }
+      });
+
+    const endpoint: GadgetDataFlow = {
+      connections,
+      transformers,
+      bus: this,
+      emit: (output, data) => this.publish(gadgetId, output, data),
+      subscribe: (input, handler) => this.subscribe(gadgetId, input, handler),
+      getInput: input => this.getInput(gadgetId, input)
+    };
+    this.endpoints.set(gadgetId, endpoint);
+    return endpoint;
+  }
+
+  private deliver(target: string, value: any): void {
+    this.values.set(target, value);
+    Array.from(this.handlers.get(target) || []).forEach(handler => {
+      try {
+        handler(value);
+      } catch (error) {
+        console.error(`[DataFlowBus] Handler for ${target} failed:`, error);
+      }
+    });
+  }
+}
@@ -23,7 +23,7 @@ import { ScoreGaugeComponent } from '../widgets/display/ScoreGaugeWidget';
 import { StatCardComponent } from '../widgets/display/StatCardWidget';
 
 // Gadget imports
-import { BulkOperationsGadget, ReferenceDataManagementGadget, ReferenceListSelectorGadget, ReferenceOptionsGridGadget } from '../gadgets/admin';
+import { AccessSimulatorGadget, BulkOperationsGadget, ReferenceDataManagementGadget, ReferenceListSelectorGadget, ReferenceOptionsGridGadget } from '../gadgets/admin';
 import { ActionPanelGadget } from '../gadgets/dashboard/ActionPanelGadget';
 import { DynamicCalculatorGadget } from '../gadgets/dashboard/DynamicCalculatorGadget';
 import MegaMenuGadget from '../gadgets/dashboard/MegaMenuGadget';
@@ -203,6 +203,7 @@ WidgetRegistry.register('image-upload-drawing', ImageUploadWithDrawingWidget);
   GadgetRegistry.register('reference-options-grid-gadget', ReferenceOptionsGridGadget);
   GadgetRegistry.register('reference-data-management-gadget', ReferenceDataManagementGadget);
   GadgetRegistry.register('bulk-operations-gadget', BulkOperationsGadget);
+  GadgetRegistry.register('access-simulator-gadget', AccessSimulatorGadget);
   
   // Asset Management Gadgets
   GadgetRegistry.register('resource-tree-gadget', ResourceTreeGadget);
@@ -0,0 +1,458 @@
+/**
+ * ACCESS SIMULATOR GADGET
+ *
+ * Effective-access report and permission simulator for tenant admins.
+ * Shows the fully resolved permissions of a user with the role (and inheritance
+ * chain) each one comes from, and dry-runs a permission check for a resource and
+ * action - optionally against unsaved role changes.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Divider,
+  Empty,
+  Input,
+  Row,
+  Select,
+  Space,
+  Spin,
+  Table,
+  Tag,
+  Typography,
+  message
+} from 'antd';
+import { ExperimentOutlined, SafetyCertificateOutlined } from '@ant-design/icons';
+import {
+  BaseGadget,
+  GadgetMetadata,
+  GadgetSchema,
+  GadgetType,
+  GadgetConfig,
+  GadgetContext
+} from '../base';
+import { ValidationResult } from '../../core/base';
+import type { EffectivePermission, ExcludedPermission, PermissionOrigin } from '../../../../services/permissionResolver';
+import type { AccessDecision } from '../../../../services/rbac';
+
+const { Title, Text, Paragraph } = Typography;
+
+interface AccessSimulatorConfig {
+  apiBase?: string;
+  resourceTypes?: string[];
+  actions?: string[];
+}
+
+interface RoleSummary {
+  id?: string;
+  name: string;
+  permissions: string[];
+  inherits?: string[];
+  excludes?: string[];
+  isExternalCustomer?: boolean;
+}
+
+interface EffectiveAccessReport {
+  user: { id: string; userId: string; email: string; name?: string };
+  roles: RoleSummary[];
+  availableRoles: RoleSummary[];
+  permissions: EffectivePermission[];
+  excluded: ExcludedPermission[];
+}
+
+interface SimulationResult {
+  decision: AccessDecision;
+  effectivePermissions: { permissions: EffectivePermission[]; excluded: ExcludedPermission[] };
+}
+
+interface UserOption {
+  value: string;
+  label: string;
+  email?: string;
+}
+
+export class AccessSimulatorGadget extends BaseGadget {
+  metadata: GadgetMetadata = {
+    id: 'access-simulator-gadget',
+    name: 'Access Simulator Gadget',
+    description: 'Effective permissions per user and permission check simulation',
+    version: '1.0.0',
+    author: 'System',
+    gadgetType: GadgetType.CUSTOM,
+    widgetTypes: [],
+    tags: ['admin', 'rbac', 'permissions', 'roles', 'simulation']
+  };
+
+  schema: GadgetSchema = {
+    type: 'object',
+    properties: {
+      apiBase: {
+        type: 'string',
+        default: '/api/access-control'
+      },
+      resourceTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        default: []
+      },
+      actions: {
+        type: 'array',
+        items: { type: 'string' },
+        default: ['read', 'write', 'delete']
+      }
+    },
+    widgetSchemas: {}
+  };
+
+  renderBody(props: any, context?: GadgetContext): React.ReactNode {
+    const config = props?.config || props;
+    return <AccessSimulatorComponent config={config} />;
+  }
+
+  validate(config: GadgetConfig): ValidationResult {
+    const errors: string[] = [];
+
+    if (!config.id) {
+      errors.push('Gadget ID is required');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  getRequiredWidgets(): string[] {
+    return [];
+  }
+
+  getWidgetLayout(): Record<string, any> {
+    return {
+      type: 'single',
+      props: {
+        padding: '24px'
+      }
+    };
+  }
+
+  processDataFlow(data: any): any {
+    return data;
+  }
+}
+
+const renderOrigin = (origin: PermissionOrigin) => (
+  <Tag key={`${origin.role}:${origin.via.join('>')}`} color={origin.via.length > 1 ? 'purple' : 'blue'}>
+    {origin.via.length > 1 ? `${origin.role} ← ${origin.via.slice(1).join(' ← ')}` : origin.role}
+  </Tag>
+);
+
+const AccessSimulatorComponent: React.FC<{ config: AccessSimulatorConfig }> = ({ config }) => {
+  const apiBase = config?.apiBase || '/api/access-control';
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [selectedUser, setSelectedUser] = useState<string>();
+  const [report, setReport] = useState<EffectiveAccessReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Simulation inputs
+  const [resourceType, setResourceType] = useState<string>();
+  const [action, setAction] = useState<string>();
+  const [resourceId, setResourceId] = useState<string>('');
+  const [route, setRoute] = useState<string>('');
+  const [roleNames, setRoleNames] = useState<string[]>([]);
+  const [editedRole, setEditedRole] = useState<string>();
+  const [roleDrafts, setRoleDrafts] = useState<Record<string, string[]>>({});
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+
+  useEffect(() => {
+    BaseGadget.makeAuthenticatedFetch(`${apiBase}/users`)
+      .then(response => (response.ok ? response.json() : []))
+      .then(options => setUsers(Array.isArray(options) ? options : []))
+      .catch(error => console.error('Failed to load users:', error));
+  }, [apiBase]);
+
+  const loadReport = useCallback(async (userId: string) => {
+    try {
+      setLoading(true);
+      setSimulation(null);
+      setRoleDrafts({});
+      const response = await BaseGadget.makeAuthenticatedFetch(
+        `${apiBase}/users/${encodeURIComponent(userId)}/effective-permissions`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to load permissions: ${response.statusText}`);
+      }
+      const result = await response.json();
+      setReport(result.data);
+      setRoleNames((result.data?.roles || []).map((role: RoleSummary) => role.name));
+    } catch (error) {
+      console.error('Effective permissions error:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to load permissions');
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    if (selectedUser) {
+      loadReport(selectedUser);
+    }
+  }, [selectedUser, loadReport]);
+
+  const roleByName = useMemo(() => {
+    const roles = new Map<string, RoleSummary>();
+    (report?.availableRoles || []).forEach(role => roles.set(role.name, role));
+    return roles;
+  }, [report]);
+
+  const knownPermissions = useMemo(() => {
+    const permissions = new Set<string>();
+    (report?.availableRoles || []).forEach(role => role.permissions.forEach(permission => permissions.add(permission)));
+    return Array.from(permissions).sort();
+  }, [report]);
+
+  const resourceTypes = config?.resourceTypes?.length
+    ? config.resourceTypes
+    : Array.from(new Set(knownPermissions.filter(p => p.includes('.')).map(p => p.split('.')[0]))).filter(t => t !== '*');
+  const actions = config?.actions?.length ? config.actions : ['read', 'write', 'delete'];
+
+  const hasRoleChanges = useMemo(() => {
+    const current = (report?.roles || []).map(role => role.name).sort();
+    return Object.keys(roleDrafts).length > 0 || current.join('|') !== [...roleNames].sort().join('|');
+  }, [report, roleNames, roleDrafts]);
+
+  const handleSimulate = async () => {
+    if (!selectedUser || !action) {
+      message.warning('Select a user and an action to simulate');
+      return;
+    }
+
+    try {
+      setSimulating(true);
+      const drafts = Object.entries(roleDrafts).map(([name, permissions]) => ({
+        ...(roleByName.get(name) || { name }),
+        permissions
+      }));
+      const response = await BaseGadget.makeAuthenticatedFetch(`${apiBase}/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: selectedUser,
+          action,
+          resource: resourceType ? { type: resourceType, id: resourceId || undefined } : undefined,
+          route: route || undefined,
+          roleIds: hasRoleChanges ? roleNames : undefined,
+          roleDrafts: drafts
+        })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || response.statusText);
+      }
+      setSimulation(result.data);
+    } catch (error) {
+      console.error('Simulation error:', error);
+      message.error(`Simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  // Permissions the simulated role change would add or remove
+  const permissionChanges = useMemo(() => {
+    if (!simulation || !report) return { added: [] as string[], removed: [] as string[] };
+    const before = new Set(report.permissions.map(entry => entry.permission));
+    const after = new Set(simulation.effectivePermissions.permissions.map(entry => entry.permission));
+    return {
+      added: Array.from(after).filter(permission => !before.has(permission)),
+      removed: Array.from(before).filter(permission => !after.has(permission))
+    };
+  }, [simulation, report]);
+
+  const permissionColumns = [
+    {
+      title: 'Permission',
+      dataIndex: 'permission',
+      key: 'permission',
+      render: (permission: string) => <Text code>{permission}</Text>
+    },
+    {
+      title: 'Granted By',
+      dataIndex: 'origins',
+      key: 'origins',
+      render: (origins: PermissionOrigin[]) => <Space wrap>{origins.map(renderOrigin)}</Space>
+    }
+  ];
+
+  const excludedColumns = [
+    {
+      title: 'Permission',
+      dataIndex: 'permission',
+      key: 'permission',
+      render: (permission: string) => <Text code delete>{permission}</Text>
+    },
+    {
+      title: 'From',
+      dataIndex: 'origin',
+      key: 'origin',
+      render: renderOrigin
+    },
+    {
+      title: 'Excluded By',
+      key: 'excludedBy',
+      render: (_: any, record: ExcludedPermission) => (
+        <Text>{record.excludedBy} <Text type="secondary">({record.pattern})</Text></Text>
+      )
+    }
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <Card>
+        <Title level={3}>
+          <SafetyCertificateOutlined style={{ marginRight: '8px' }} />
+          Effective Access
+        </Title>
+        <Paragraph type="secondary">
+          See what a user can actually do, where each permission comes from, and test a permission check before saving a role change.
+        </Paragraph>
+
+        <Select
+          showSearch
+          placeholder="Select a user"
+          value={selectedUser}
+          onChange={setSelectedUser}
+          optionFilterProp="label"
+          options={users.map(user => ({ value: user.value, label: user.email ? `${user.label} (${user.email})` : user.label }))}
+          style={{ width: 400 }}
+        />
+
+        <Divider />
+
+        {loading ? (
+          <Spin />
+        ) : !report ? (
+          <Empty description="Select a user to see their effective permissions" />
+        ) : (
+          <Row gutter={24}>
+            <Col xs={24} lg={14}>
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Space wrap>
+                  <Text strong>Roles:</Text>
+                  {report.roles.length === 0 ? <Text type="secondary">none</Text> : report.roles.map(role => (
+                    <Tag key={role.name} color={role.isExternalCustomer ? 'orange' : 'blue'}>{role.name}</Tag>
+                  ))}
+                </Space>
+                <Table
+                  dataSource={report.permissions}
+                  columns={permissionColumns}
+                  size="small"
+                  rowKey="permission"
+                  pagination={{ pageSize: 10 }}
+                />
+                {report.excluded.length > 0 && (
+                  <>
+                    <Title level={5}>Excluded ({report.excluded.length})</Title>
+                    <Table
+                      dataSource={report.excluded}
+                      columns={excludedColumns}
+                      size="small"
+                      rowKey={record => `${record.permission}:${record.origin.via.join('>')}`}
+                      pagination={false}
+                    />
+                  </>
+                )}
+              </Space>
+            </Col>
+
+            <Col xs={24} lg={10}>
+              <Card size="small" title={<><ExperimentOutlined /> Simulate Permission Check</>}>
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  <Select
+                    allowClear
+                    showSearch
+                    placeholder="Resource type"
+                    value={resourceType}
+                    onChange={setResourceType}
+                    options={resourceTypes.map(type => ({ value: type, label: type }))}
+                  />
+                  <Select
+                    placeholder="Action"
+                    value={action}
+                    onChange={setAction}
+                    options={actions.map(item => ({ value: item, label: item }))}
+                  />
+                  <Input placeholder="Resource ID (optional)" value={resourceId} onChange={e => setResourceId(e.target.value)} />
+                  <Input placeholder="Route (optional, e.g. /dashboard)" value={route} onChange={e => setRoute(e.target.value)} />
+
+                  <Divider plain>Role changes</Divider>
+                  <Select
+                    mode="multiple"
+                    placeholder="Assigned roles"
+                    value={roleNames}
+                    onChange={setRoleNames}
+                    options={report.availableRoles.map(role => ({ value: role.name, label: role.name }))}
+                  />
+                  <Select
+                    allowClear
+                    placeholder="Edit a role's permissions"
+                    value={editedRole}
+                    onChange={setEditedRole}
+                    options={report.availableRoles.map(role => ({ value: role.name, label: role.name }))}
+                  />
+                  {editedRole && (
+                    <Select
+                      mode="tags"
+                      placeholder="Permissions"
+                      value={roleDrafts[editedRole] || roleByName.get(editedRole)?.permissions || []}
+                      onChange={(permissions: string[]) => setRoleDrafts(drafts => ({ ...drafts, [editedRole]: permissions }))}
+                      options={knownPermissions.map(permission => ({ value: permission, label: permission }))}
+                    />
+                  )}
+                  {hasRoleChanges && (
+                    <Button size="small" onClick={() => {
+                      setRoleDrafts({});
+                      setRoleNames(report.roles.map(role => role.name));
+                    }}>
+                      Discard role changes
+                    </Button>
+                  )}
+
+                  <Button type="primary" icon={<ExperimentOutlined />} onClick={handleSimulate} loading={simulating}>
+                    Simulate
+                  </Button>
+
+                  {simulation && (
+                    <>
+                      <Alert
+                        type={simulation.decision.granted ? 'success' : 'error'}
+                        showIcon
+                        message={simulation.decision.granted ? 'Access granted' : 'Access denied'}
+                        description={simulation.decision.reason}
+                      />
+                      {(permissionChanges.added.length > 0 || permissionChanges.removed.length > 0) && (
+                        <Space direction="vertical">
+                          <Text strong>Role changes would:</Text>
+                          <Space wrap>
+                            {permissionChanges.added.map(permission => <Tag key={permission} color="green">+ {permission}</Tag>)}
+                            {permissionChanges.removed.map(permission => <Tag key={permission} color="red">- {permission}</Tag>)}
+                          </Space>
+                        </Space>
+                      )}
+                    </>
+                  )}
+                </Space>
+              </Card>
+            </Col>
+          </Row>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AccessSimulatorGadget;
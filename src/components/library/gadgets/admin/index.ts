@@ -9,3 +9,4 @@ export { default as ReferenceOptionsGridGadget } from './ReferenceOptionsGridGad
 export { default as ReferenceDataManagementGadget } from './ReferenceDataManagementGadget';
 export { default as ReferenceDataOptionsGrid } from './ReferenceDataOptionsGrid';
 export { BulkOperationsGadget } from './BulkOperationsGadget';
+export { AccessSimulatorGadget } from './AccessSimulatorGadget';
@@ -21,6 +21,8 @@
 import React from 'react';
 import { getApiFullUrl } from '../../../config/api.config';
 import { FetchOptions } from '../../../utils/DataService';
+import type { WorkspaceDefinition } from '../../../schemas/workspace';
+import type { GadgetDataFlow } from '../core/DataFlowBus';
 import { BaseComponent, BaseRegistry, ComponentMetadata, ComponentSchema, ValidationResult } from '../core/base';
 import { BaseWidget, WidgetConfig, WidgetContext } from '../widgets/base';
 
@@ -102,11 +104,11 @@ export interface GadgetConfig {
 
 export interface GadgetContext extends WidgetContext {
   gadgetId?: string;
+  /** Workspace the gadget is rendered in */
+  workspace?: WorkspaceDefinition;
   widgets?: Record<string, BaseWidget>;
-  dataFlow?: {
-    connections: Map<string, string[]>;
-    transformers: Map<string, Function>;
-  };
+  /** This gadget's endpoint on the workspace DataFlowBus */
+  dataFlow?: GadgetDataFlow;
   widgetRegistry?: any;
   data?: any;
   events?: Record<string, Function>;
@@ -8,14 +8,29 @@
 import * as echarts from 'echarts';
 import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import WorkspaceFilterContext, { WorkspaceFilterContextValue } from '../../../../contexts/WorkspaceFilterContext';
+import { useDataFlowInput } from '../../../../hooks/useDataFlowInput';
+import { MetricSort, SemanticMetricsService, TimeGranularity, toMetricFilters } from '../../../../services/SemanticMetricsService';
+import type { GadgetDataFlow } from '../../core/DataFlowBus';
 import { ValidationResult } from '../../core/base';
 import { BaseGadget, GadgetConfig, GadgetContext, GadgetMetadata, GadgetSchema, GadgetType } from '../base';
 
 export interface ChartDataSource {
-  endpoint: string;
+  endpoint?: string;
   method?: 'GET' | 'POST';
   body?: any;
   dataPath?: string;
+  /** Data flow input (e.g. "chart-data") that supplies the rows instead of the endpoint */
+  input?: string;
+  /** Named metrics (public/data/metrics/semantic-metrics.json) that supply the rows instead of the endpoint */
+  metrics?: string[];
+  /** Named dimensions the metrics are grouped by; each row has one value per dimension */
+  dimensions?: string[];
+  /** Granularity of time dimensions (the aggregation toolbar overrides it) */
+  granularity?: TimeGranularity;
+  /** Row order by a queried metric or dimension (e.g. the top specifications first) */
+  sort?: MetricSort;
+  /** Maximum number of rows */
+  limit?: number;
 }
 
 export interface ChartAxis {
@@ -111,13 +126,6 @@ export interface ChartConfig {
   showLabels?: boolean;
   // Simple legend toggle - enables default legend configuration when true
   showLegend?: boolean;
-  // Aggregation configuration for time series data
-  aggregationConfig?: {
-    dateField: string; // e.g., "purchaseDate" - field containing the date to aggregate by
-    arrayField?: string; // e.g., "lineItems" - array field to unwind (optional)
-    valueField: string; // e.g., "lineItems.quantityPurchased" or "quantity" - field to sum
-    resultField: string; // e.g., "total_quantity" - name for the aggregated result field
-  };
   // Flattened metadata properties
   type?: 'line' | 'bar' | 'pie' | 'scatter' | 'radar' | 'treemap' | 'gauge' | 'funnel';
   xField?: string;
@@ -281,9 +289,16 @@ const getFormattedTitle = (baseTitle: string, period: 'day' | 'week' | 'month' |
 };
 
 // Simplified ECharts canvas - initialize once, update option when data changes
-const EChartCanvas: React.FC<{ chartId: string; option: any; height: string }>= ({ chartId, option, height }) => {
+const EChartCanvas: React.FC<{
+  chartId: string;
+  option: any;
+  height: string;
+  onChartClick?: (params: echarts.ECElementEvent) => void;
+}>= ({ chartId, option, height, onChartClick }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<echarts.ECharts | null>(null);
+  const onChartClickRef = useRef(onChartClick);
+  onChartClickRef.current = onChartClick;
 
   // Initialize chart once on mount
   useEffect(() => {
@@ -292,6 +307,7 @@ const EChartCanvas: React.FC<{ chartId: string; option: any; height: string }>=
     console.log('EChartCanvas: Initializing chart', { chartId });
     const instance = echarts.init(containerRef.current);
     chartRef.current = instance;
+    instance.on('click', (params: echarts.ECElementEvent) => onChartClickRef.current?.(params));
     
     const onResize = () => { 
       if (chartRef.current && !chartRef.current.isDisposed()) {
@@ -344,7 +360,8 @@ const GenericChartRenderer: React.FC<{
   showAggregationToolbar?: boolean;
   aggregationPeriod?: 'day' | 'week' | 'month' | 'quarter' | 'year';
   onAggregationChange?: (period: 'day' | 'week' | 'month' | 'quarter' | 'year') => void;
-}> = ({ chart: originalChart, height, showAggregationToolbar, aggregationPeriod, onAggregationChange }) => {
+  dataFlow?: GadgetDataFlow;
+}> = ({ chart: originalChart, height, showAggregationToolbar, aggregationPeriod, onAggregationChange, dataFlow }) => {
   // Reconstruct full chart configuration from flattened metadata
   const chart = reconstructChartConfig(originalChart);
 
@@ -370,225 +387,17 @@ const GenericChartRenderer: React.FC<{
   // Get filter context
   const filterContext = useContext(WorkspaceFilterContext) as WorkspaceFilterContextValue | undefined;
 
-  // Generate aggregation pipeline based on period - METADATA-DRIVEN APPROACH
-  const generateAggregationPipeline = (period: 'day' | 'week' | 'month' | 'quarter' | 'year') => {
-
-    // Use metadata-driven fields if available, fallback to hardcoded for backward compatibility
-    const dateField = chart.aggregationConfig?.dateField || 'purchaseDate';
-    const arrayField = chart.aggregationConfig?.arrayField !== undefined ? chart.aggregationConfig.arrayField : 'lineItems';
-    const valueField = chart.aggregationConfig?.valueField !== undefined ? chart.aggregationConfig.valueField : `${arrayField}.quantityPurchased`;
-    const resultField = chart.aggregationConfig?.resultField || 'total_quantity';
-
-    // Helper function to handle both string and Date formats
-    const createDateString = (fieldPath: string) => ({
-      $cond: {
-        if: { $eq: [{ $type: fieldPath }, "date"] },
-        then: { $dateToString: { format: "%Y-%m-%d", date: fieldPath } },
-        else: fieldPath
-      }
-    });
-
-    // Helper function to handle both string and Date formats for date operations
-    const createDateValue = (fieldPath: string) => ({
-      $cond: {
-        if: { $eq: [{ $type: fieldPath }, "date"] },
-        then: fieldPath,
-        else: { $dateFromString: { dateString: fieldPath } }
-      }
-    });
-
-    // Use string operations only to avoid date conversion errors
-    let substringLength: number = 7; // Default to month format
-    let groupBy: any;
-
-    switch (period) {
-      case 'day':
-        // Extract YYYY-MM-DD from ISO string
-        substringLength = 10; // "2024-01-15"
-        groupBy = { $substr: [`$${dateField}`, 0, substringLength] };
-        break;
-      case 'week':
-        // For weekly: extract year and week number
-        // Use ISO week calculation: YYYY-WWW format
-        // Handle both string and Date formats
-        const dateFieldPath = `$${dateField}`;
-        groupBy = {
-          $concat: [
-            {
-              $substr: [
-                { $toString: createDateString(dateFieldPath) },
-                0, 4
-              ]
-            }, // Year
-            "-W",
-            {
-              $toString: {
-                $ceil: {
-                  $divide: [
-                    { $dayOfYear: createDateValue(dateFieldPath) },
-                    7
-                  ]
-                }
-              }
-            }
-          ]
-        };
-        break;
-      case 'month':
-        // Extract YYYY-MM from ISO string
-        substringLength = 7; // "2024-01"
-        groupBy = { $substr: [`$${dateField}`, 0, substringLength] };
-        break;
-      case 'quarter':
-        // For quarterly: extract year and calculate quarter
-        // Handle both string and Date formats
-        const quarterDateFieldPath = `$${dateField}`;
-        groupBy = {
-          $concat: [
-            {
-              $substr: [
-                { $toString: createDateString(quarterDateFieldPath) },
-                0, 4
-              ]
-            }, // Year
-            "-Q",
-            {
-              $switch: {
-                branches: [
-                  { case: { $lte: [{ $substr: [{ $toString: createDateString(quarterDateFieldPath) }, 5, 2] }, "03"] }, then: "1" },
-                  { case: { $lte: [{ $substr: [{ $toString: createDateString(quarterDateFieldPath) }, 5, 2] }, "06"] }, then: "2" },
-                  { case: { $lte: [{ $substr: [{ $toString: createDateString(quarterDateFieldPath) }, 5, 2] }, "09"] }, then: "3" }
-                ],
-                default: "4"
-              }
-            }
-          ]
-        };
-        break;
-      case 'year':
-        // Extract YYYY from ISO string
-        substringLength = 4; // "2024"
-        groupBy = { $substr: [`$${dateField}`, 0, substringLength] };
-        break;
-      default:
-        // Default to month format
-        groupBy = { $substr: [`$${dateField}`, 0, substringLength] };
-    }
-
-    // Build pipeline - include lookups and unwind if needed
-    const pipeline: any[] = [];
-
-    if (arrayField) {
-      pipeline.push({ "$unwind": `$${arrayField}` });
-
-      // Add paint specification lookup for emissions calculations
-      if (resultField === 'total_emissions') {
-pipeline.push({
-          "$lookup": {
-            "from": "documents",
-            "let": { "paintSpecId": "$lineItems.paintSpecId" },
-            "pipeline": [
-              {
-                "$match": {
-                  "$expr": {
-                    "$and": [
-                      { "$eq": ["$id", "$$paintSpecId"] },
-                      { "$eq": ["$type", "paint_specifications"] },
-                      { "$ne": ["$deleted", true] }
-                    ]
-                  }
-                }
-              }
-            ],
-            "as": "paintSpec"
-          }
-        });
-        pipeline.push({ "$unwind": "$paintSpec" });
-}
-    }
-
-    pipeline.push({
-      "$group": {
-        "_id": groupBy,
-        "period": {
-          "$first": period === 'quarter' ?
-            {
-              $concat: [
-                {
-                  $substr: [
-                    { $toString: createDateString(`$${dateField}`) },
-                    0, 4
-                  ]
-                },
-                "-Q",
-                {
-                  $switch: {
-                    branches: [
-                      { case: { $lte: [{ $substr: [{ $toString: createDateString(`$${dateField}`) }, 5, 2] }, "03"] }, then: "1" },
-                      { case: { $lte: [{ $substr: [{ $toString: createDateString(`$${dateField}`) }, 5, 2] }, "06"] }, then: "2" },
-                      { case: { $lte: [{ $substr: [{ $toString: createDateString(`$${dateField}`) }, 5, 2] }, "09"] }, then: "3" }
-                    ],
-                    default: "4"
-                  }
-                }
-              ]
-            } :
-            period === 'week' ?
-              {
-                $concat: [
-                  {
-                    $substr: [
-                      { $toString: createDateString(`$${dateField}`) },
-                      0, 4
-                    ]
-                  },
-                  "-W",
-                  {
-                    $toString: {
-                      $ceil: {
-                        $divide: [
-                          { $dayOfYear: createDateValue(`$${dateField}`) },
-                          7
-                        ]
-                      }
-                    }
-                  }
-                ]
-              } :
-              period === 'day' ?
-                { $toString: createDateString(`$${dateField}`) } :
-                { $substr: [{ $toString: createDateString(`$${dateField}`) }, 0, substringLength] }
-        },
-        [resultField]: resultField === 'total_emissions'
-          ? {
-              "$sum": {
-                "$multiply": [
-                  `$${valueField}`,
-                  { "$ifNull": ["$paintSpec.voc_content", 0] }
-                ]
-              }
-            }
-          : !valueField || valueField === '' 
-            ? { "$sum": 1 }  // Count documents when no valueField specified
-            : { "$sum": `$${valueField}` }
-      }
-    });
-
-    pipeline.push({ "$sort": { "_id": 1 } });
-
-    pipeline.push({
-      "$project": {
-        "_id": 0,
-        "period": 1,
-        [resultField]: 1
-      }
-    });
-// Debug: Show the groupBy expression for verification
-return pipeline;
-  };
+  // Filters from connected gadgets ({ field: value }), applied on top of the workspace filters
+  const dataFlowFilters = useDataFlowInput<Record<string, any> | null>(dataFlow, 'filters');
+  // Rows pushed by a connected gadget, for charts whose dataSource names an input
+  const dataFlowRows = useDataFlowInput<any>(dataFlow, chart.dataSource.input || 'chart-data');
 
   // Fetch chart data
   const fetchChartData = useCallback(async () => {
+    // Input-driven charts are filled by the data flow effect below
+    if (chart.dataSource.input) {
+      return;
+    }
 // Prevent concurrent API calls that could cause issues
     if (isLoading) {
 return;
@@ -601,6 +410,21 @@ return;
       setIsLoading(true);
       setLoading(true);
       setError(null);
+
+      if (chart.dataSource.metrics) {
+        const result = await SemanticMetricsService.query({
+          metrics: chart.dataSource.metrics,
+          dimensions: chart.dataSource.dimensions,
+          filters: toMetricFilters(filterContext?.filters, dataFlowFilters || {}),
+          granularity: showAggregationToolbar ? currentAggregationPeriod : chart.dataSource.granularity,
+          sort: chart.dataSource.sort,
+          limit: chart.dataSource.limit
+        });
+        if (requestId === latestRequestIdRef.current) {
+          setData(result.rows);
+        }
+        return;
+      }
 // Authentication is handled by BaseGadget.makeAuthenticatedFetch
 
       const requestOptions: RequestInit = {
@@ -613,32 +437,17 @@ return;
       if (chart.dataSource.method === 'POST' && chart.dataSource.body) {
         bodyWithFilters = { ...chart.dataSource.body };
 
-        // Generate or replace the pipeline with the current aggregation period
-        if (showAggregationToolbar) {
-          const newPipeline = generateAggregationPipeline(currentAggregationPeriod);
-
-          // Set pipeline in the appropriate location
-          if (bodyWithFilters.config) {
-            bodyWithFilters.config.pipeline = newPipeline;
-} else if (bodyWithFilters.pipeline !== undefined) {
-            bodyWithFilters.pipeline = newPipeline;
-} else {
-            // Create config object if it doesn't exist
-            bodyWithFilters.config = { pipeline: newPipeline };
-}
-        } else {
-}
-
         // Add filter context if available (using same pattern as GenericKPIGadget)
-        if (filterContext?.filters) {
+        if (filterContext?.filters || dataFlowFilters) {
 // Process all filters and check if any have actual values
           const filters: Record<string, any> = {};
+          const connectedFilters = Object.entries(dataFlowFilters || {}).map(([key, value]) => [key, { value }] as const);
 
-          Object.entries(filterContext.filters).forEach(([filterKey, filterObj]) => {
+          [...Object.entries(filterContext?.filters || {}), ...connectedFilters].forEach(([filterKey, filterObj]) => {
 
             const filterValue = filterObj?.value;
 if (filterValue !== undefined && filterValue !== null && filterValue !== '') {
-              // Pass filter values with proper operator suffix for aggregation API
+              // Pass filter values with an operator suffix for multiselect values
               if (Array.isArray(filterValue) && filterValue.length > 0) {
                 // Add __in suffix for array values (multiselect filters)
                 filters[`${filterKey}__in`] = filterValue;
@@ -654,7 +463,7 @@ if (filterValue !== undefined && filterValue !== null && filterValue !== '') {
 // Only add filters if there are any active filters
           if (hasActiveFilters) {
             bodyWithFilters.filters = filters;
-            console.log('Chart sending filters to aggregation API:', {
+            console.log('Chart sending filters:', {
               chartId: chart.id,
               filters: filters,
               bodyWithFilters: bodyWithFilters
@@ -679,7 +488,7 @@ if (filterValue !== undefined && filterValue !== null && filterValue !== '') {
       });
       
       // Use BaseGadget's authenticated fetch method
-      const response = await BaseGadget.makeAuthenticatedFetch(chart.dataSource.endpoint, requestOptions);
+      const response = await BaseGadget.makeAuthenticatedFetch(chart.dataSource.endpoint!, requestOptions);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -692,8 +501,7 @@ if (filterValue !== undefined && filterValue !== null && filterValue !== '') {
         requestId,
         fullResult: result,
         dataLength: result.data?.length || 0,
-        filters: bodyWithFilters?.filters,
-        config: bodyWithFilters?.config?.name
+        filters: bodyWithFilters?.filters
       });
       
       // Extract data using dataPath if specified
@@ -761,7 +569,7 @@ const pathParts = path!.split('.');
 setLoading(false);
       setIsLoading(false);
     }
-  }, [chart.dataSource.endpoint, chart.dataSource.method, chart.id, chart, currentAggregationPeriod, showAggregationToolbar, filterContext?.filters]); // Match KPI gadget pattern
+  }, [chart.dataSource.endpoint, chart.dataSource.method, chart.id, chart, currentAggregationPeriod, showAggregationToolbar, filterContext?.filters, dataFlowFilters]); // Match KPI gadget pattern
 
   // Handle aggregation period change
   const handleAggregationChange = useCallback((period: 'day' | 'week' | 'month' | 'quarter' | 'year') => {
@@ -922,14 +730,6 @@ return {
               return 'g/L';
             }
 
-            // Check data source pipeline for unit hints
-            if (chart.dataSource?.body?.config?.pipeline) {
-              const pipeline = JSON.stringify(chart.dataSource.body.config.pipeline);
-              if (pipeline.toLowerCase().includes('voc_content') ||
-                  pipeline.toLowerCase().includes('$multiply') && pipeline.toLowerCase().includes('voc')) {
-                return 'g/L';
-              }
-            }
 
             return ''; // default fallback
           };
@@ -1139,8 +939,8 @@ return {
         series: [{
           type: 'treemap',
           data: chartData.map(item => ({
-            name: item.name || item[chart.series[0]?.dataKey] || 'Unknown',
-            value: item.value || item[chart.series[0]?.dataKey] || 0
+            name: item[chart.nameField || 'name'] || 'Unknown',
+            value: item[chart.series[0]?.dataKey] || item.value || 0
           }))
         }]
       };
@@ -1186,7 +986,7 @@ return {
     }
 
     if (chart.chartType === 'gauge') {
-      const gaugeValue = chartData[0]?.score || chartData[0]?.value || 0;
+      const gaugeValue = chartData[0]?.[chart.series[0]?.dataKey] ?? chartData[0]?.score ?? chartData[0]?.value ?? 0;
       return {
         backgroundColor: 'transparent',
         series: [{
@@ -1398,14 +1198,6 @@ return {
                 return 'g/L';
               }
 
-              // Check data source pipeline for unit hints
-              if (chart.dataSource?.body?.config?.pipeline) {
-                const pipeline = JSON.stringify(chart.dataSource.body.config.pipeline);
-                if (pipeline.toLowerCase().includes('voc_content') ||
-                    pipeline.toLowerCase().includes('$multiply') && pipeline.toLowerCase().includes('voc')) {
-                  return 'g/L';
-                }
-              }
 
               return ''; // default fallback
             };
@@ -1465,14 +1257,6 @@ return {
                 return 'g/L';
               }
 
-              // Check data source pipeline for unit hints
-              if (chart.dataSource?.body?.config?.pipeline) {
-                const pipeline = JSON.stringify(chart.dataSource.body.config.pipeline);
-                if (pipeline.toLowerCase().includes('voc_content') ||
-                    pipeline.toLowerCase().includes('$multiply') && pipeline.toLowerCase().includes('voc')) {
-                  return 'g/L';
-                }
-              }
 
               return ''; // default fallback
             };
@@ -1732,6 +1516,26 @@ lastAggregationPeriodRef.current = currentAggregationPeriod;
     }
   }, [filterContext?.refreshTrigger, chart.id, fetchChartData]); // Include fetchChartData in deps
 
+  // Refetch when a connected gadget changes this chart's filters input
+  const lastDataFlowFiltersRef = useRef(dataFlowFilters);
+  useEffect(() => {
+    if (lastDataFlowFiltersRef.current === dataFlowFilters) return;
+    lastDataFlowFiltersRef.current = dataFlowFilters;
+    fetchChartData();
+  }, [dataFlowFilters, fetchChartData]);
+
+  // Input-driven charts take their rows from the connected gadget (dataPath applies)
+  useEffect(() => {
+    if (!chart.dataSource.input) return;
+    const path = chart.dataSource.dataPath || chart.dataPath;
+    const rows = path
+      ? path.split('.').reduce((value: any, key) => (value == null ? undefined : value[key]), dataFlowRows)
+      : dataFlowRows;
+    setData(Array.isArray(rows) ? rows : rows == null ? [] : [rows]);
+    setError(null);
+    setLoading(false);
+  }, [chart.dataSource.input, chart.dataSource.dataPath, chart.dataPath, dataFlowRows]);
+
   // Removed duplicate filter listener - refreshTrigger handles filter changes
 
   // Theme change detection
@@ -1941,7 +1745,21 @@ lastAggregationPeriodRef.current = currentAggregationPeriod;
           onAggregationChange={handleAggregationChange}
         />
       )}
-      {React.createElement(EChartCanvas, { chartId: chart.id, option, height: chartHeight })}
+      {React.createElement(EChartCanvas, {
+        chartId: chart.id,
+        option,
+        height: chartHeight,
+        onChartClick: dataFlow
+          ? (params: echarts.ECElementEvent) => dataFlow.emit('chart-events', {
+              chartId: chart.id,
+              name: params.name,
+              seriesName: params.seriesName,
+              value: params.value,
+              dataIndex: params.dataIndex,
+              data: params.data
+            })
+          : undefined
+      })}
     </div>
   );
 };
@@ -1994,9 +1812,20 @@ export default class GenericChartGadget extends BaseGadget {
                 endpoint: { type: 'string' },
                 method: { type: 'string', enum: ['GET', 'POST'] },
                 body: { type: 'object' },
-                dataPath: { type: 'string' }
-              },
-              required: ['endpoint']
+                dataPath: { type: 'string' },
+                input: { type: 'string' },
+                metrics: { type: 'array', items: { type: 'string' } },
+                dimensions: { type: 'array', items: { type: 'string' } },
+                granularity: { type: 'string', enum: ['day', 'week', 'month', 'quarter', 'year'] },
+                sort: {
+                  type: 'object',
+                  properties: {
+                    by: { type: 'string' },
+                    order: { type: 'string', enum: ['asc', 'desc'] }
+                  }
+                },
+                limit: { type: 'number' }
+              }
             },
             xAxis: {
               type: 'object',
@@ -2054,16 +1883,6 @@ export default class GenericChartGadget extends BaseGadget {
                 required: ['name', 'type', 'dataKey']
               }
             },
-            aggregationConfig: {
-              type: 'object',
-              properties: {
-                dateField: { type: 'string', description: 'Field containing the date to aggregate by' },
-                arrayField: { type: 'string', description: 'Array field to unwind (optional)' },
-                valueField: { type: 'string', description: 'Field to sum for aggregation' },
-                resultField: { type: 'string', description: 'Name for the aggregated result field' }
-              },
-              required: ['dateField', 'valueField']
-            },
             showZoomBar: {
               type: 'boolean',
               description: 'Enable zoom controls with default configuration',
@@ -2164,7 +1983,8 @@ export default class GenericChartGadget extends BaseGadget {
         chart: charts[0],
         height: height,
         showAggregationToolbar: showAggregationToolbar,
-        aggregationPeriod: defaultAggregationPeriod
+        aggregationPeriod: defaultAggregationPeriod,
+        dataFlow: context?.dataFlow
       });
     }
 
@@ -2208,7 +2028,8 @@ export default class GenericChartGadget extends BaseGadget {
             chart,
             height: height,
             showAggregationToolbar: showAggregationToolbar,
-            aggregationPeriod: defaultAggregationPeriod
+            aggregationPeriod: defaultAggregationPeriod,
+            dataFlow: context?.dataFlow
           })
         )
       )
@@ -2225,7 +2046,9 @@ export default class GenericChartGadget extends BaseGadget {
         if (!chart.id) errors.push(`Chart ${index}: id is required`);
         if (!chart.title) errors.push(`Chart ${index}: title is required`);
         if (!chart.chartType) errors.push(`Chart ${index}: chartType is required`);
-        if (!chart.dataSource?.endpoint) errors.push(`Chart ${index}: dataSource.endpoint is required`);
+        if (!chart.dataSource?.endpoint && !chart.dataSource?.input && !chart.dataSource?.metrics?.length) {
+          errors.push(`Chart ${index}: dataSource.endpoint, dataSource.input or dataSource.metrics is required`);
+        }
         if (!chart.series || !Array.isArray(chart.series) || chart.series.length === 0) {
           errors.push(`Chart ${index}: at least one series is required`);
         }
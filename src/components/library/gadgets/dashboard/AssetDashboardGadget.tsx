@@ -48,6 +48,7 @@ import {
 import { Button, Card, Col, Descriptions, Empty, Row, Statistic, Tag } from 'antd';
 import React, { useCallback, useEffect, useState } from 'react';
 import { z } from 'zod';
+import { useDataFlowInput } from '../../../../hooks/useDataFlowInput';
 import { ValidationResult } from '../../core/base';
 import { BaseGadget, GadgetConfig, GadgetMetadata, GadgetSchema, GadgetType } from '../base';
 
@@ -279,6 +280,16 @@ if (event.node) {
     }
   }, []);
 
+  // Node selected in a connected gadget (e.g. the resource tree's node-selection output)
+  const connectedNode = useDataFlowInput<AssetNode | null>(context?.dataFlow, 'asset-data');
+  useEffect(() => {
+    if (connectedNode === undefined) return;
+    setNodeData(connectedNode);
+    if (connectedNode) {
+      loadNodeDetails(connectedNode);
+    }
+  }, [connectedNode, loadNodeDetails]);
+
   // Render basic information section
   const renderBasicInfo = (section: DashboardSection) => {
     if (!nodeData) return null;
@@ -6,6 +6,8 @@
  * Features:
  * - Simple form inputs (text, number, select)
  * - AI streaming response displayed as markdown
+ * - Deterministic mode: metadata formulas evaluated by CommercialFormulaCalculator,
+ *   with an optional AI narrative on top of the computed values
  * - Two cards: input parameters and output results
  */
 
@@ -15,11 +17,29 @@ import {
   ClearOutlined,
   FilePdfOutlined,
 } from "@ant-design/icons";
-import { Button, Card, message, Space, Spin, Typography } from "antd";
+import {
+  Alert,
+  Button,
+  Card,
+  message,
+  Space,
+  Spin,
+  Statistic,
+  Switch,
+  Typography,
+} from "antd";
 import React, { useEffect, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { useOpenAI } from "../../../../hooks/useOpenAI";
+import {
+  CalculatorExecutionMetadata,
+  CalculatorRunResult,
+  formatCalculatorResultMarkdown,
+  isDeterministicCalculator,
+  runCalculator,
+} from "../../../../utils/calculatorEngine";
+import { getOpenAIConfig } from "../../../../utils/config";
 import {
   GenericPdfMetadata,
   normalizeForPdf,
@@ -40,7 +60,10 @@ const { Title, Text } = Typography;
 //
 
 // Simple configuration - just what we need
-interface SimpleCalculatorConfig extends GadgetConfig {
+// (formulas may be declared inline as well as in the calculator metadata)
+interface SimpleCalculatorConfig
+  extends GadgetConfig,
+    CalculatorExecutionMetadata {
   title?: string;
   calculatorId?: string; // Add calculatorId to fetch from database
   inputs?: Array<{
@@ -84,6 +107,23 @@ export class DynamicCalculatorGadget extends BaseGadget {
         description: "Input field definitions",
       },
       aiPrompt: { type: "string", description: "AI prompt template" },
+      mode: {
+        type: "string",
+        enum: ["ai", "deterministic"],
+        description: "AI report, or metadata formulas with an optional AI narrative",
+      },
+      calculations: {
+        type: "array",
+        description: "Formulas evaluated in deterministic mode",
+      },
+      inputValidation: {
+        type: "array",
+        description: "Required inputs and allowed ranges",
+      },
+      outputs: {
+        type: "array",
+        description: "Calculations shown as results",
+      },
     },
     widgetSchemas: {},
   };
@@ -508,16 +548,43 @@ const SimpleCalculatorComponent: React.FC<{
     calculatorMetadata?.aiPrompt ||
     "Analyze this scope sizing request: Asset Type: {asset_type}, Scope Size: {scope_size}, Notes: {additional_context}";
 
+  // Deterministic mode: formulas declared inline in the config win over the calculator metadata
+  const executionMetadata: CalculatorExecutionMetadata | null =
+    React.useMemo(
+      () =>
+        isDeterministicCalculator(config) ? config : calculatorMetadata || null,
+      [config, calculatorMetadata]
+    );
+  const deterministic = isDeterministicCalculator(executionMetadata);
+
+  // Show each input's declared unit next to it (FormRenderer renders field.unit as a suffix)
+  const formOptions = React.useMemo(() => {
+    const units: Record<string, string> = {};
+    (executionMetadata?.inputValidation || []).forEach((rule) => {
+      if (rule.unit) units[rule.field] = rule.unit;
+    });
+    return gadgetOptions.map((item: any) =>
+      item?.id && units[item.id] && !item.unit && item.type !== "section" && item.type !== "group"
+        ? { ...item, unit: units[item.id] }
+        : item
+    );
+  }, [gadgetOptions, executionMetadata]);
+  const [runResult, setRunResult] = useState<CalculatorRunResult | null>(
+    null
+  );
+  const [narrative, setNarrative] = useState("");
+  const [includeNarrative, setIncludeNarrative] = useState(false);
+  const narrativeByDefault = !!executionMetadata?.aiNarrative?.enabled;
+
+  // The AI explanation starts as the calculator declares; the user can toggle it
+  useEffect(() => {
+    setIncludeNarrative(narrativeByDefault);
+  }, [narrativeByDefault]);
+
   // Removed empty useEffect - dead code
 
   // Memoize OpenAI config to prevent hook recreation on every render
-  const openAIConfig = React.useMemo(
-    () => ({
-      apiKey: process.env.REACT_APP_OPENAI_API_KEY || "",
-      baseUrl: process.env.REACT_APP_OPENAI_BASE_URL,
-    }),
-    []
-  ); // Empty deps - config never changes
+  const openAIConfig = React.useMemo(() => ({ ...getOpenAIConfig(), feature: 'calculator' as const }), []); // Empty deps - config never changes
 
   const openAI = useOpenAI(openAIConfig);
 
@@ -892,9 +959,102 @@ const SimpleCalculatorComponent: React.FC<{
     [truncateIfLong]
   );
 
+  // Compute the results from the metadata formulas; the AI only explains them
+  const handleDeterministicCalculate = React.useCallback(async () => {
+    if (!executionMetadata) return;
+
+    const labels: Record<string, string> = {};
+    (fieldList || []).forEach((f: any) => {
+      if (f?.id) labels[f.id] = f?.label || f?.title || f.id;
+    });
+    const run = runCalculator(executionMetadata, formData, labels);
+    setRunResult(run);
+    setNarrative("");
+    if (!run.valid) {
+      setResult("");
+      setStreamingResult("");
+      return;
+    }
+
+    const report = formatCalculatorResultMarkdown(
+      run,
+      calculatorMetadata?.name || config.title || "Calculation Results"
+    );
+    setResult(report);
+    setStreamingResult(report);
+    if (!includeNarrative) return;
+
+    const heading = "\n\n## Explanation\n\n";
+    setLoading(true);
+    setIsStreaming(true);
+    setStreamingResult(report + heading);
+    try {
+      let prompt =
+        executionMetadata.aiNarrative?.prompt ||
+        aiPrompt ||
+        "Explain these calculation results.";
+      Object.entries(formData).forEach(([key, value]) => {
+        const sanitized = sanitizeValueForPrompt(value, fieldTypeById[key]);
+        prompt = prompt.replace(
+          new RegExp(`\\{${key}\\}`, "g"),
+          typeof sanitized === "string" ? sanitized : JSON.stringify(sanitized)
+        );
+      });
+
+      const response = await openAI.respondStream({
+        modelConfig: {
+          model: "gpt-5",
+          temperature: 0.3,
+          maxTokens: 4000,
+        },
+        promptConfig: {
+          systemPrompt: [
+            "You are a senior engineer explaining calculator results.",
+            "The values below were computed from the listed formulas and are final:",
+            "- Use them exactly as given; never recompute, re-round or add numeric results.",
+            "- Explain what the results mean, the assumptions behind the formulas and recommended actions.",
+            "- Do not repeat the results or calculation tables.",
+          ].join("\n"),
+          userPrompt: `${report}\n\n${prompt}`,
+        },
+        onTextDelta: (delta: string) => {
+          setStreamingResult((prev) => prev + delta);
+        },
+      });
+
+      const text =
+        response.data ||
+        (typeof response.rawText === "string" ? response.rawText : "");
+      setNarrative(text);
+      setResult(text ? report + heading + text : report);
+      setStreamingResult(text ? report + heading + text : report);
+    } catch (error) {
+      message.warning(
+        "The AI explanation is unavailable; the calculated results are shown."
+      );
+      setStreamingResult(report);
+    } finally {
+      setLoading(false);
+      setIsStreaming(false);
+    }
+  }, [
+    executionMetadata,
+    fieldList,
+    formData,
+    calculatorMetadata?.name,
+    config.title,
+    includeNarrative,
+    aiPrompt,
+    sanitizeValueForPrompt,
+    fieldTypeById,
+    openAI,
+  ]);
+
   const handleReset = React.useCallback(() => {
     setFormData({});
     setResult("");
+    setRunResult(null);
+    setNarrative("");
   }, []);
 
   const [showPdfPreview, setShowPdfPreview] = useState(false);
@@ -980,8 +1140,70 @@ const SimpleCalculatorComponent: React.FC<{
       });
     }
 
-    // Add single content section with original markdown preserved
-    if (contentToPrint.trim()) {
+    if (deterministic && runResult?.valid) {
+      // Computed values, then the formulas and inputs they came from
+      const withUnit = (value: any, unit?: string) =>
+        value === null || value === undefined
+          ? "N/A"
+          : `${value}${unit ? ` ${unit}` : ""}`;
+      sections.push(
+        {
+          id: "calculated-results",
+          title: "Results",
+          includeInPdf: true,
+          order: 1,
+          content: {
+            type: "table",
+            columns: [
+              { header: "Output", key: "label" },
+              { header: "Value", key: "value" },
+            ],
+            data: runResult.outputs.map((output) => ({
+              label: output.label,
+              value: withUnit(output.value, output.unit),
+            })),
+          },
+        },
+        {
+          id: "calculation-formulas",
+          title: "Formulas Used",
+          includeInPdf: true,
+          order: 2,
+          content: {
+            type: "table",
+            columns: [
+              { header: "Step", key: "label" },
+              { header: "Formula", key: "formula" },
+              { header: "Inputs", key: "inputs" },
+              { header: "Result", key: "result" },
+            ],
+            data: runResult.steps.map((step) => ({
+              label: step.label,
+              formula: step.formula,
+              inputs: step.inputs
+                .map((input) => `${input.label} = ${withUnit(input.value, input.unit)}`)
+                .join("\n"),
+              result: step.error
+                ? `Error: ${step.error}`
+                : withUnit(step.value, step.unit),
+            })),
+          },
+        }
+      );
+      if (narrative.trim()) {
+        sections.push({
+          id: "narrative",
+          title: "Explanation",
+          includeInPdf: true,
+          order: 3,
+          content: {
+            type: "rawtext",
+            template: narrative,
+          },
+        });
+      }
+    } else if (contentToPrint.trim()) {
+      // Add single content section with original markdown preserved
       sections.push({
         id: "content",
         title: "Results", // Shorter title
@@ -1039,6 +1261,9 @@ const SimpleCalculatorComponent: React.FC<{
     config.title,
     formData,
     fieldList,
+    deterministic,
+    runResult,
+    narrative,
   ]);
 
   // Only calculate pdfGadgetData when PDF preview is shown
@@ -1284,9 +1509,9 @@ const SimpleCalculatorComponent: React.FC<{
                   </Text>
                 </div>
               </div>
-            ) : gadgetOptions && gadgetOptions.length > 0 ? (
+            ) : formOptions.length > 0 ? (
               <MemoizedFormRenderer
-                gadgetOptions={gadgetOptions}
+                gadgetOptions={formOptions}
                 onFormDataChange={handleInputChange}
               />
             ) : (
@@ -1302,7 +1527,9 @@ const SimpleCalculatorComponent: React.FC<{
               <Button
                 type="primary"
                 icon={<CalculatorOutlined />}
-                onClick={handleCalculate}
+                onClick={
+                  deterministic ? handleDeterministicCalculate : handleCalculate
+                }
                 loading={loading}
               >
                 {loading ? "Calculating..." : "Calculate"}
@@ -1315,6 +1542,18 @@ const SimpleCalculatorComponent: React.FC<{
               >
                 Reset
               </Button>
+
+              {deterministic && (
+                <Space size={6}>
+                  <Switch
+                    size="small"
+                    checked={includeNarrative}
+                    onChange={setIncludeNarrative}
+                    disabled={loading}
+                  />
+                  <Text type="secondary">AI explanation</Text>
+                </Space>
+              )}
             </Space>
           </div>
         </Card>
@@ -1352,17 +1591,51 @@ const SimpleCalculatorComponent: React.FC<{
                   <Text>Processing…</Text>
                 </div>
               </div>
+            ) : runResult && !runResult.valid ? (
+              <Alert
+                type="warning"
+                showIcon
+                style={{ margin: 16 }}
+                message="Check the inputs"
+                description={
+                  <ul style={{ margin: 0, paddingLeft: 18 }}>
+                    {runResult.issues.map((issue) => (
+                      <li key={issue.field}>{issue.message}</li>
+                    ))}
+                  </ul>
+                }
+              />
             ) : streamingResult ? (
-              <div className="doc-wrapper">
-                <div className="doc-page">
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
-                    components={markdownComponents}
-                  >
-                    {streamingResult}
-                  </ReactMarkdown>
+              <>
+                {deterministic && runResult?.valid && (
+                  <Space wrap size="large" style={{ padding: "12px 16px 0" }}>
+                    {runResult.outputs.map((output) => (
+                      <Statistic
+                        key={output.id}
+                        title={output.label}
+                        value={
+                          output.value === null
+                            ? "N/A"
+                            : typeof output.value === "number"
+                            ? output.value
+                            : String(output.value)
+                        }
+                        suffix={output.value === null ? undefined : output.unit}
+                      />
+                    ))}
+                  </Space>
+                )}
+                <div className="doc-wrapper">
+                  <div className="doc-page">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      components={markdownComponents}
+                    >
+                      {streamingResult}
+                    </ReactMarkdown>
+                  </div>
                 </div>
-              </div>
+              </>
             ) : (
               <Text type="secondary">
                 Results will appear here after calculation
@@ -10,6 +10,7 @@
 
 import React, { useCallback, useContext, useEffect, useState } from 'react';
 import WorkspaceFilterContext, { WorkspaceFilterContextValue } from '../../../../contexts/WorkspaceFilterContext';
+import { MetricRow, SemanticMetricsService, toMetricFilters } from '../../../../services/SemanticMetricsService';
 import { ValidationResult } from '../../core/base';
 import { BaseGadget, GadgetConfig, GadgetContext, GadgetMetadata, GadgetSchema, GadgetType } from '../base';
 
@@ -23,17 +24,8 @@ export interface KPIConfig {
   format?: 'number' | 'percentage' | 'currency' | 'decimal';
   decimals?: number;
   status?: 'good' | 'warning' | 'danger' | 'excellent';
-  aggregationConfig?: {
-    name: string;
-    collection: string;
-    baseFilter?: Record<string, any>;
-    fieldMappings?: Record<string, string>;
-    groupBy?: Record<string, any>;
-    pipeline?: any[];
-    postProcess?: {
-      calculations?: Record<string, { formula: string }>;
-    };
-  };
+  /** Named metric from public/data/metrics/semantic-metrics.json */
+  metric?: string;
   dataPath?: string;
   target?: {
     value: number;
@@ -104,7 +96,7 @@ export default class GenericKPIGadget extends BaseGadget {
               enum: ['number', 'percentage', 'currency', 'decimal']
             },
             decimals: { type: 'number' },
-            aggregationConfig: { type: 'object' },
+            metric: { type: 'string' },
             dataPath: { type: 'string' },
             target: { type: 'object' },
             trend: { type: 'object' }
@@ -287,7 +279,7 @@ const GenericKPIGadgetComponent: React.FC<any> = ({ kpis, context, ...props }) =
     return current;
   }, []);
 
-  // Fetch KPI data with aggregation
+  // Fetch KPI data from metrics or the shared data URL
   const fetchKPIData = useCallback(async () => {
     if (!actualKpis || actualKpis.length === 0) {
       return;
@@ -301,7 +293,7 @@ const GenericKPIGadgetComponent: React.FC<any> = ({ kpis, context, ...props }) =
       const sharedDataUrl = props.dataUrl || props.config?.dataUrl;
       let sharedData: any = null;
       
-      if (sharedDataUrl && !actualKpis.some((kpi: KPIConfig) => kpi.aggregationConfig)) {
+      if (sharedDataUrl) {
         // Fetch shared data once for all KPIs (optimization!)
         const url = new URL(sharedDataUrl, window.location.origin);
         const response = await BaseGadget.makeAuthenticatedFetch(url.toString(), {
@@ -314,72 +306,26 @@ const GenericKPIGadgetComponent: React.FC<any> = ({ kpis, context, ...props }) =
         }
       }
 
+      // Metric KPIs are answered by one query for all of them
+      const metricNames = Array.from(new Set<string>(
+        actualKpis.filter((kpi: KPIConfig) => kpi.metric).map((kpi: KPIConfig) => kpi.metric as string)
+      ));
+      let metricRow: MetricRow | undefined;
+      if (metricNames.length > 0) {
+        const metricResult = await SemanticMetricsService.query({
+          metrics: metricNames,
+          filters: toMetricFilters(filterContext?.filters)
+        });
+        metricRow = metricResult.rows[0];
+      }
+
       const kpiResults = await Promise.all(
         actualKpis.map(async (kpi: KPIConfig) => {
           try {
             let value: any = null;
 
-            if (kpi.aggregationConfig) {
-              // Build filters from filter context mappings
-              const filters: Record<string, any> = {};
-
-              // Apply filter context mappings
-              if (kpi.aggregationConfig.fieldMappings && filterContext?.filters) {
-// Process all filters and check if any have actual values
-                Object.entries(filterContext.filters).forEach(([filterKey, filterObj]) => {
-
-                  const filterValue = filterObj?.value;
-if (filterValue !== undefined && filterValue !== null && filterValue !== '') {
-                    // Pass filter values directly - the aggregation API will handle field mappings
-                    if (Array.isArray(filterValue) && filterValue.length > 0) {
-                      filters[filterKey] = filterValue;
-} else if (!Array.isArray(filterValue)) {
-                      filters[filterKey] = filterValue;
-} else {
-}
-                  } else {
-}
-                });
-
-                const hasActiveFilters = Object.keys(filters).length > 0;
-}
-
-              // Build aggregation request with correct API structure
-              const aggregationRequest: any = {
-                config: kpi.aggregationConfig
-              };
-              
-              // Only add filters if there are any active filters
-              const hasActiveFilters = Object.keys(filters).length > 0;
-              if (hasActiveFilters) {
-                aggregationRequest.filters = filters;
-}
-
-              // Call aggregation API with authentication - use window.location.origin
-              const apiUrl = new URL('/api/aggregation', window.location.origin).toString();
-              
-              const response = await BaseGadget.makeAuthenticatedFetch(apiUrl, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(aggregationRequest)
-              });
-              
-              if (response.ok) {
-                const responseData = await response.json();
-if (kpi.dataPath) {
-value = extractValue(responseData, kpi.dataPath);
-} else {
-value = responseData;
-                }
-                
-                // Check if we got an empty result
-                if (value === null || value === undefined || (Array.isArray(responseData.data) && responseData.data.length === 0)) {
-}
-              } else {
-                value = null;
-              }
+            if (kpi.metric) {
+              value = metricRow?.[kpi.metric] ?? null;
             } else if (sharedData) {
               // Use shared data fetched once for all KPIs
               
@@ -10,10 +10,21 @@
  */
 
 import { CheckOutlined, SwapOutlined } from '@ant-design/icons';
-import { Button } from 'antd';
+import { Button, message } from 'antd';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import * as XLSX from 'xlsx';
 import { httpClient } from '../../../../services/HttpClient';
+import { ImportJobService, ImportPlan, ImportRequest } from '../../../../services/ImportJobService';
+import {
+    applyTemplate,
+    applyValueTransform,
+    findMatchingTemplate,
+    ImportTemplate,
+    ImportTemplateService,
+    templateFromColumns,
+    TemplateValue,
+    ValueTransform
+} from '../../../../services/ImportTemplateService';
 import { AIColumnMapper } from '../../../../utils/AIColumnMapper';
 import {
     ColumnMappingStep,
@@ -36,9 +47,9 @@ import {
 } from './types';
 import {
     discoverAllHierarchyFields,
-    discoverFormFields,
-    transformImportedData
+    discoverFormFields
 } from './utils/fieldUtils';
+import { buildImportRows, toImportSummary, toValidationErrors } from './utils/importUtils';
 
 interface DataImportExportProps {
   config: DataImportExportConfig;
@@ -60,7 +71,14 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
   const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
   const [excelFile, setExcelFile] = useState<File | null>(null);
   const [excelData, setExcelData] = useState<any[]>([]);
-  const [progress, setProgress] = useState(0);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [appliedTemplate, setAppliedTemplate] = useState<ImportTemplate | null>(null);
+  const [transforms, setTransforms] = useState<Record<string, ValueTransform>>({});
+  const [defaults, setDefaults] = useState<Record<string, TemplateValue>>({});
+  const [savingTemplate, setSavingTemplate] = useState(false);
   const [allFieldDefinitions, setAllFieldDefinitions] = useState<FieldDefinition[]>([]);
   const [selectedParents, setSelectedParents] = useState<Record<string, any>>({});
   const [availableParents, setAvailableParents] = useState<Record<string, any[]>>({});
@@ -140,7 +158,11 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
     setAllFieldDefinitions([]);
     setValidationErrors([]);
     setImportSummary(null);
-    setProgress(0);
+    setImportPlan(null);
+    setTemplates([]);
+    setAppliedTemplate(null);
+    setTransforms({});
+    setDefaults({});
     setIsProcessing(false);
   }, [config.documentTypeSelection?.enabled]);
   
@@ -275,24 +297,51 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
           }
           
           setAllFieldDefinitions(discoveredFields);
+
+          // A saved template for these headers maps the columns it knows
+          const savedTemplates = await ImportTemplateService.list(documentType).catch(error => {
+            console.warn('Could not load import templates:', error);
+            return [] as ImportTemplate[];
+          });
+          const template = findMatchingTemplate(savedTemplates, headerRow);
+          let templateColumns = detectedColumns;
+          let covered: string[] = [];
+          if (template) {
+            ({ columns: templateColumns, covered } = applyTemplate(
+              detectedColumns,
+              template,
+              discoveredFields.length > 0 ? discoveredFields.map(f => f.dbField) : undefined
+            ));
+            setColumns(templateColumns);
+          }
+          setTemplates(savedTemplates);
+          setAppliedTemplate(template);
+          setTransforms(template?.transforms || {});
+          setDefaults(template?.defaults || {});
+
+          // AI only gets the columns the template does not cover
+          const uncoveredColumns = templateColumns.filter(col => !covered.includes(col.excelColumn));
            
-           if (config.aiConfig) {
+           if (config.aiConfig && uncoveredColumns.length > 0) {
              try {
                const aiMapper = new AIColumnMapper({
                  fieldDefinitions: discoveredFields,
                  aiConfig: config.aiConfig
                });
                
-               const sampleData = detectedColumns.map(col => ({
+               const sampleData = uncoveredColumns.map(col => ({
                  excelColumn: col.excelColumn,
                  values: col.sampleValues
                }));
                
-               const aiMappingResults = await aiMapper.autoMap(headerRow, sampleData);
+               const aiMappingResults = await aiMapper.autoMap(uncoveredColumns.map(col => col.excelColumn), sampleData);
                
                setAiMappings(aiMappingResults);
                
-               const aiMappedColumns = detectedColumns.map(col => {
+               const aiMappedColumns = templateColumns.map(col => {
+                 if (covered.includes(col.excelColumn)) {
+                   return col;
+                 }
                  const aiMapping = aiMappingResults.find(m => m.excelColumn === col.excelColumn);
                  if (aiMapping && aiMapping.confidence >= 0.7) {
                    return {
@@ -341,6 +390,66 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
     );
   }, []);
 
+  const handleApplyTemplate = useCallback((templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) {
+      return;
+    }
+
+    const knownFields = allFieldDefinitions.length > 0 ? allFieldDefinitions.map(f => f.dbField) : undefined;
+    setColumns(prev => applyTemplate(prev, template, knownFields).columns);
+    setAppliedTemplate(template);
+    setTransforms(template.transforms);
+    setDefaults(template.defaults);
+  }, [templates, allFieldDefinitions]);
+
+  const handleTransformChange = useCallback((dbField: string, transform: ValueTransform | null) => {
+    setTransforms(prev => {
+      const next = { ...prev };
+      if (transform) {
+        next[dbField] = transform;
+      } else {
+        delete next[dbField];
+      }
+      return next;
+    });
+  }, []);
+
+  // Save the current mapping as a new template; resolves false when saving failed
+  const handleSaveTemplate = useCallback(async (name: string) => {
+    setSavingTemplate(true);
+    try {
+      const template = await ImportTemplateService.create(documentType, name, templateFromColumns(columns, transforms, defaults));
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setAppliedTemplate(template);
+      message.success(`Template "${template.name}" saved`);
+      return true;
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Could not save the template');
+      return false;
+    } finally {
+      setSavingTemplate(false);
+    }
+  }, [documentType, columns, transforms, defaults]);
+
+  const handleUpdateTemplate = useCallback(async () => {
+    if (!appliedTemplate) {
+      return;
+    }
+
+    setSavingTemplate(true);
+    try {
+      const template = await ImportTemplateService.update(appliedTemplate.id, templateFromColumns(columns, transforms, defaults));
+      setTemplates(prev => prev.map(t => (t.id === template.id ? template : t)));
+      setAppliedTemplate(template);
+      message.success(`Template "${template.name}" updated`);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Could not update the template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  }, [appliedTemplate, columns, transforms, defaults]);
+
   const validateData = useCallback(() => {
     const errors: ValidationError[] = [];
     const mappedColumns = columns.filter((c) => c.mapped);
@@ -359,10 +468,10 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
       });
       
      mappedColumns.forEach((col) => {
-       const value = row[col.excelColumnIndex];
+       const value = applyValueTransform(row[col.excelColumnIndex], transforms[col.dbField!]);
        const fieldDef = fieldDefMap.get(col.dbField!);
 
-        if (fieldDef?.required && (value === undefined || value === null || value === '')) {
+        if (fieldDef?.required && (value === undefined || value === null || value === '') && defaults[col.dbField!] === undefined) {
           if (col.dbField === 'asset_group_id' && document.asset_group_code) {
           }
           else if (col.dbField === 'site_id' && document.site_code) {
@@ -392,17 +501,55 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
 
    setValidationErrors(errors);
    return errors.length === 0;
-  }, [columns, excelData, allFieldDefinitions]);
+  }, [columns, excelData, allFieldDefinitions, transforms, defaults]);
+
+  const buildImportRequest = useCallback((): ImportRequest => {
+    const parents: Record<string, unknown> = {};
+    (selectedDocTypeOption?.parentEntities || []).forEach(parentConfig => {
+      const selectedParent = selectedParents[parentConfig.type];
+      if (selectedParent) {
+        parents[parentConfig.linkedField] = selectedParent[parentConfig.valueField];
+      }
+    });
+
+    return {
+      documentType,
+      rows: buildImportRows(excelData, columns, allFieldDefinitions, { transforms, defaults }),
+      parents,
+      updateKey: selectedDocTypeOption?.updateKey,
+      skipDuplicates: !!config.importConfig?.skipDuplicates
+    };
+  }, [documentType, excelData, columns, allFieldDefinitions, transforms, defaults, selectedDocTypeOption, selectedParents, config.importConfig]);
+
+  // Dry run of the whole file: what would be created, updated or skipped
+  const planImport = useCallback(async () => {
+    setPlanning(true);
+    setImportPlan(null);
+    try {
+      const plan = await ImportJobService.dryRun(buildImportRequest());
+      setImportPlan(plan);
+      if (plan.errors.length > 0) {
+        setValidationErrors(prev => [...prev, ...toValidationErrors(plan.errors, columns)]);
+      }
+    } catch (error) {
+      console.error('Import dry run error:', error);
+      message.error(error instanceof Error ? error.message : 'Could not check the import');
+    } finally {
+      setPlanning(false);
+    }
+  }, [buildImportRequest, columns]);
 
   useEffect(() => {
     const hasParents = selectedDocTypeOption?.parentEntities?.length || 0 > 0;
     const validationIndex = hasParents ? 4 : 3;
     if (currentStep === validationIndex) {
       setTimeout(() => {
-        validateData();
+        if (validateData()) {
+          planImport();
+        }
       }, 100);
     }
-  }, [currentStep, validateData, selectedDocTypeOption]);
+  }, [currentStep, validateData, planImport, selectedDocTypeOption]);
   
   const performImport = useCallback(async () => {
     if (!validateData()) {
@@ -410,485 +557,41 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
     }
 
     setIsProcessing(true);
-    setProgress(0);
 
     try {
-      const mappedColumns = columns.filter((c) => c.mapped);
-      let created = 0;
-      let updated = 0;
-      let skipped = 0;
-      let failed = 0;
-      const errors: ValidationError[] = [];
-      const createdIds: string[] = [];
-      
-      const entityCache = {
-        companies: new Map<string, any>(),
-        sites: new Map<string, any>(),
-        assetGroups: new Map<string, any>(),
-        nameToId: {
-            company: new Map<string, string>(),
-            site: new Map<string, string>(),
-            asset_group: new Map<string, string>(),
-        },
-        codeToId: {
-            company: new Map<string, string>(),
-            site: new Map<string, string>(),
-            asset_group: new Map<string, string>(),
-        }
-      };
-
-      for (let i = 0; i < excelData.length; i++) {
-        const row = excelData[i];
-        
-        const companyData: any = {};
-        const siteData: any = {};
-        const assetGroupData: any = {};
-        const assetData: any = { type: documentType };
-        let finalAsset: any = {};
-        
-        mappedColumns.forEach((col) => {
-          const value = row[col.excelColumnIndex];
-          if (value !== undefined && value !== null && value !== '') {
-            const dbField = col.dbField!;
-            
-            if (dbField.startsWith('company_')) {
-              const fieldName = dbField.replace(/^company_/, '');
-              if (fieldName !== 'type') {
-                companyData[fieldName] = value;
-              }
-            } else if (dbField.startsWith('site_')) {
-              const fieldName = dbField.replace(/^site_/, '');
-              if (fieldName !== 'type') {
-                siteData[fieldName] = value;
-              }
-            } else if (dbField.startsWith('asset_group_')) {
-              const fieldName = dbField.replace(/^asset_group_/, '');
-              if (fieldName !== 'type') {
-                assetGroupData[fieldName] = value;
-              }
-            } else if (dbField.startsWith('asset_') && !['asset_tag', 'asset_type', 'asset_group_id'].includes(dbField)) {
-              const fieldName = dbField.replace(/^asset_/, '');
-              if (fieldName !== 'type') {
-                assetData[fieldName] = value;
-              } else {
-                assetData['asset_type'] = value;
-              }
-            } else {
-              if (dbField !== 'type') {
-                assetData[dbField] = value;
-              }
-            }
-          }
-        });
-        
-
-        try {
-           const parentEntities = selectedDocTypeOption?.parentEntities || [];
-           parentEntities.forEach(parentConfig => {
-             const selectedParent = selectedParents[parentConfig.type];
-             if (selectedParent) {
-               assetData[parentConfig.linkedField] = selectedParent[parentConfig.valueField];
-             }
-           });
-           
-           let companyId: string | undefined = assetData.company_id;
-           let siteId: string | undefined = assetData.site_id;
-           let assetGroupId: string | undefined = assetData.asset_group_id;
-           
-          // --- Enhanced Company Lookup ---
-          if (!companyId) {
-            const lookupName = companyData.name;
-            const lookupCode = companyData.code || companyData.id;
-
-            if (lookupName && entityCache.nameToId.company.has(lookupName)) {
-                companyId = entityCache.nameToId.company.get(lookupName);
-            } else if (lookupCode && entityCache.codeToId.company.has(lookupCode)) {
-                companyId = entityCache.codeToId.company.get(lookupCode);
-            } else if (companyData.id && entityCache.companies.has(companyData.id)) {
-                companyId = companyData.id;
-            } else {
-                // Database lookup as fallback
-                const query = lookupCode ? `code=${encodeURIComponent(lookupCode)}` : `name=${encodeURIComponent(lookupName)}`;
-                if (query) {
-                    try {
-                        const response = await httpClient.get(`/api/documents?type=company&${query}`);
-                        if (response.ok) {
-                            const data = await response.json();
-                            if (data.data && data.data.length > 0) {
-                                const found = data.data[0];
-                                companyId = found.id;
-                                entityCache.companies.set(found.id, found);
-                                if (found.name) entityCache.nameToId.company.set(found.name, found.id);
-                                if (found.code) entityCache.codeToId.company.set(found.code, found.id);
-                            }
-                        }
-                    } catch (err) {
-                        console.warn('Company lookup failed, proceeding to create:', err);
-                    }
-                }
-            }
-          }
-
-          if ((companyData.name || companyData.code) && !companyId) {
-             const lookupCode = companyData.code || companyData.name;
-             try {
-                let newCompany = {
-                  type: 'company',
-                  ...companyData,
-                  name: companyData.name || lookupCode,
-                  code: companyData.code || lookupCode.toUpperCase().replace(/\s+/g, '_').substring(0, 20),
-                  status: companyData.status || 'active'
-                };
-                newCompany = transformImportedData(newCompany, allFieldDefinitions);
-                
-                const createResponse = await httpClient.post('/api/documents', newCompany);
-                if (createResponse.ok) {
-                  const created = await createResponse.json();
-                  const newEntity = created.data || created;
-                  companyId = newEntity.id;
-                  entityCache.companies.set(newEntity.id, newEntity);
-                  if (newEntity.name) entityCache.nameToId.company.set(newEntity.name, newEntity.id);
-                  if (newEntity.code) entityCache.codeToId.company.set(newEntity.code, newEntity.id);
-                }
-             } catch (err) {
-               console.warn('Company creation failed:', err);
-             }
-           }
-           
-           // --- Enhanced Site Lookup ---
-          if (!siteId) {
-            const lookupName = siteData.name;
-            const lookupCode = siteData.code || siteData.id;
-
-            if (lookupName && entityCache.nameToId.site.has(lookupName)) {
-                siteId = entityCache.nameToId.site.get(lookupName);
-            } else if (lookupCode && entityCache.codeToId.site.has(lookupCode)) {
-                siteId = entityCache.codeToId.site.get(lookupCode);
-            } else if (siteData.id && entityCache.sites.has(siteData.id)) {
-                siteId = siteData.id;
-            } else {
-                // Database lookup as fallback
-                const query = lookupCode ? `code=${encodeURIComponent(lookupCode)}` : `name=${encodeURIComponent(lookupName)}`;
-                 if (query) {
-                    try {
-                        const response = await httpClient.get(`/api/documents?type=site&${query}`);
-                        if (response.ok) {
-                            const data = await response.json();
-                            if (data.data && data.data.length > 0) {
-                                const found = data.data[0];
-                                siteId = found.id;
-                                entityCache.sites.set(found.id, found);
-                                if (found.name) entityCache.nameToId.site.set(found.name, found.id);
-                                if (found.code) entityCache.codeToId.site.set(found.code, found.id);
-                            }
-                        }
-                    } catch (err) {
-                        console.warn('Site lookup failed, proceeding to create:', err);
-                    }
-                }
-            }
-          }
-
-          if ((siteData.name || siteData.code) && !siteId) {
-             const lookupCode = siteData.code || siteData.name;
-             try {
-                let newSite = {
-                  type: 'site',
-                  ...siteData,
-                  name: siteData.name || lookupCode,
-                  code: siteData.code || lookupCode.toUpperCase().replace(/\s+/g, '_').substring(0, 20),
-                  company_id: companyId,
-                  status: siteData.status || 'active'
-                };
-                newSite = transformImportedData(newSite, allFieldDefinitions);
-                
-                const createResponse = await httpClient.post('/api/documents', newSite);
-                if (createResponse.ok) {
-                  const created = await createResponse.json();
-                  const newEntity = created.data || created;
-                  siteId = newEntity.id;
-                  entityCache.sites.set(newEntity.id, newEntity);
-                  if (newEntity.name) entityCache.nameToId.site.set(newEntity.name, newEntity.id);
-                  if (newEntity.code) entityCache.codeToId.site.set(newEntity.code, newEntity.id);
-                }
-             } catch (err) {
-               console.warn('Site creation failed:', err);
-             }
-           }
-           
-          // --- Enhanced Asset Group Lookup ---
-          if (!assetGroupId) {
-            const lookupName = assetGroupData.name;
-            const lookupCode = assetGroupData.code || assetGroupData.id;
-
-            if (lookupName && entityCache.nameToId.asset_group.has(lookupName)) {
-                assetGroupId = entityCache.nameToId.asset_group.get(lookupName);
-            } else if (lookupCode && entityCache.codeToId.asset_group.has(lookupCode)) {
-                assetGroupId = entityCache.codeToId.asset_group.get(lookupCode);
-            } else if (assetGroupData.id && entityCache.assetGroups.has(assetGroupData.id)) {
-                assetGroupId = assetGroupData.id;
-            } else {
-                const query = lookupCode ? `code=${encodeURIComponent(lookupCode)}` : `name=${encodeURIComponent(lookupName)}`;
-                 if (query) {
-                    try {
-                        const response = await httpClient.get(`/api/documents?type=asset_group&${query}`);
-                        if (response.ok) {
-                            const data = await response.json();
-                            if (data.data && data.data.length > 0) {
-                                const found = data.data[0];
-                                assetGroupId = found.id;
-                                entityCache.assetGroups.set(found.id, found);
-                                if (found.name) entityCache.nameToId.asset_group.set(found.name, found.id);
-                                if (found.code) entityCache.codeToId.asset_group.set(found.code, found.id);
-                            }
-                        }
-                    } catch (err) {
-                        console.warn('Asset Group lookup failed, proceeding to create:', err);
-                    }
-                }
-            }
-          }
-
-          if ((assetGroupData.name || assetGroupData.code) && !assetGroupId) {
-             const lookupCode = assetGroupData.code || assetGroupData.name;
-             try {
-                let newGroup = {
-                  type: 'asset_group',
-                  ...assetGroupData,
-                  name: assetGroupData.name || lookupCode,
-                  code: assetGroupData.code || lookupCode.toUpperCase().replace(/\s+/g, '-').substring(0, 20),
-                  site_id: siteId,
-                  status: assetGroupData.status || 'active'
-                };
-                newGroup = transformImportedData(newGroup, allFieldDefinitions);
-                
-                const createResponse = await httpClient.post('/api/documents', newGroup);
-                if (createResponse.ok) {
-                  const created = await createResponse.json();
-                  const newEntity = created.data || created;
-                  assetGroupId = newEntity.id;
-                  entityCache.assetGroups.set(newEntity.id, newEntity);
-                  if (newEntity.name) entityCache.nameToId.asset_group.set(newEntity.name, newEntity.id);
-                  if (newEntity.code) entityCache.codeToId.asset_group.set(newEntity.code, newEntity.id);
-                }
-             } catch (err) {
-               console.warn('Asset Group creation failed:', err);
-             }
-           }
-           
-           finalAsset = {
-             ...assetData,
-             company_id: companyId,
-             site_id: siteId,
-             asset_group_id: assetGroupId
-           };
-           
-           finalAsset = transformImportedData(finalAsset, allFieldDefinitions);
-           
-           if (!finalAsset.asset_tag && siteId && assetGroupId && finalAsset.asset_type) {
-             try {
-               let companyCode = '';
-               let facilityCode = '';
-               let unitCode = '';
-               
-              if (companyId) {
-                try {
-                  if (!entityCache.companies.has(companyId)) {
-                    const companyResponse = await httpClient.get(`/api/documents/${companyId}?type=company`);
-                    if (companyResponse.ok) {
-                      const companyData = await companyResponse.json();
-                      entityCache.companies.set(companyId, companyData.data || companyData);
-                    }
-                  }
-                  
-                  const companyData = entityCache.companies.get(companyId);
-                  if (companyData) {
-                    companyCode = (companyData.code || companyData.name)
-                      .toUpperCase()
-                      .replace(/\s+/g, '_')
-                      .substring(0, 10);
-                  }
-                } catch (err) {
-                  console.warn('Company lookup for asset tag failed:', err);
-                }
-              }
-              
-              if (siteId) {
-                try {
-                  if (!entityCache.sites.has(siteId)) {
-                    const siteResponse = await httpClient.get(`/api/documents/${siteId}?type=site`);
-                    if (siteResponse.ok) {
-                      const siteData = await siteResponse.json();
-                      entityCache.sites.set(siteId, siteData.data || siteData);
-                    }
-                  }
-                  
-                  const siteData = entityCache.sites.get(siteId);
-                  if (siteData) {
-                    facilityCode = (siteData.code || siteData.name)
-                      .toUpperCase()
-                      .replace(/\s+/g, '_')
-                      .substring(0, 10);
-                  }
-                } catch (err) {
-                  console.warn('Site lookup for asset tag failed:', err);
-                }
-              }
-              
-              if (assetGroupId) {
-                try {
-                  if (!entityCache.assetGroups.has(assetGroupId)) {
-                    const groupResponse = await httpClient.get(`/api/documents/${assetGroupId}?type=asset_group`);
-                    if (groupResponse.ok) {
-                      const groupData = await groupResponse.json();
-                      entityCache.assetGroups.set(assetGroupId, groupData.data || groupData);
-                    }
-                  }
-                  
-                  const groupData = entityCache.assetGroups.get(assetGroupId);
-                  if (groupData) {
-                    unitCode = (groupData.code || groupData.name)
-                      .toUpperCase()
-                      .replace(/\s+/g, '-')
-                      .substring(0, 10);
-                  }
-                } catch (err) {
-                  console.warn('Asset Group lookup for asset tag failed:', err);
-                }
-              }
-               
-               const typeMap: Record<string, string> = {
-                 'Pipe': 'P', 'Valve': 'V', 'Tank': 'T', 'Pump': 'PUMP', 'Compressor': 'COMP',
-                 'Heat Exchanger': 'HX', 'Vessel': 'VSL', 'Reactor': 'R', 'Instrument': 'INST',
-                 'Motor': 'MOT', 'Electrical': 'ELEC'
-               };
-               const typeCode = typeMap[finalAsset.asset_type] || finalAsset.asset_type.substring(0, 1).toUpperCase();
-               
-               const tagPrefix = companyCode 
-                 ? `${companyCode}-${facilityCode}-${unitCode}-${typeCode}`
-                 : `${facilityCode}-${unitCode}-${typeCode}`;
-               
-               const response = await httpClient.get(
-                 `/api/documents?type=asset&asset_tag_like=${encodeURIComponent(tagPrefix)}&sort=asset_tag:desc&limit=1`
-               );
-               
-               let sequenceNumber = 1;
-               if (response.ok) {
-                 const data = await response.json();
-                 if (data.data && data.data.length > 0) {
-                   const lastTag = data.data[0].asset_tag;
-                   const lastNumberMatch = lastTag.match(/-(\d+)$/);
-                   if (lastNumberMatch) {
-                     sequenceNumber = parseInt(lastNumberMatch[1], 10) + 1;
-                   }
-                 }
-               }
-               
-              finalAsset.asset_tag = `${tagPrefix}-${sequenceNumber.toString().padStart(4, '0')}`;
-               
-             } catch (err) {
-               console.warn('Asset tag auto-generation failed:', err);
-             }
-           }
-           
-          const updateKey = selectedDocTypeOption?.updateKey;
-          let existingRecord = null;
-          
-          if (updateKey) {
-            const updateValue = finalAsset[updateKey];
-            if (updateValue) {
-                // Check cache first for existing record based on updateKey
-                let cachedRecord = null;
-                const cacheKey = `${documentType}-${updateValue}`;
-                
-                // This part of caching logic needs a more generic cache implementation
-                // For now, we rely on the direct API call but this is where further optimization could go.
-
-                const response = await httpClient.get(
-                  `/api/documents?type=${documentType}&${updateKey}=${encodeURIComponent(updateValue)}`
-                );
-                
-                if (response.ok) {
-                  const data = await response.json();
-                  if (data.data && data.data.length > 0) {
-                    existingRecord = data.data[0];
-                  }
-                }
-            }
-          }
-
-         if (existingRecord) {
-           if (config.importConfig?.skipDuplicates) {
-             skipped++;
-           } else {
-             const response = await httpClient.put(
-               `/api/documents/${existingRecord.id}`,
-               finalAsset
-             );
-             
-             if (response.ok) {
-               updated++;
-             } else {
-               failed++;
-               errors.push({
-                 row: i + 2,
-                 column: 'ALL',
-                 error: `Failed to update: ${response.statusText}`,
-                 value: finalAsset,
-               });
-             }
-           }
-         } else {
-           const response = await httpClient.post('/api/documents', finalAsset);
-           
-           if (response.ok) {
-             created++;
-             const createdDoc = await response.json();
-             createdIds.push(createdDoc.id || createdDoc.data?.id);
-           } else {
-             failed++;
-             const errorData = await response.json();
-             errors.push({
-               row: i + 2,
-               column: 'ALL',
-               error: errorData.error || `Failed to create: ${response.statusText}`,
-               value: finalAsset,
-             });
-           }
-         }
-       } catch (error) {
-         failed++;
-         errors.push({
-           row: i + 2,
-           column: 'ALL',
-           error: error instanceof Error ? error.message : 'Unknown error',
-           value: finalAsset,
-         });
-       }
-
-        setProgress(Math.round(((i + 1) / excelData.length) * 100));
-      }
-
-      setImportSummary({
-        total: excelData.length,
-        created,
-        updated,
-        skipped,
-        failed,
-        errors,
-        createdIds,
-        duration: 0 // Will be calculated in the step
-      });
-
+      const job = await ImportJobService.start(buildImportRequest());
+      setImportSummary(toImportSummary(job, columns));
+      setIsProcessing(false);
       handleNext();
 
+      await ImportJobService.watch(job.id, event => {
+        setImportSummary(toImportSummary(event.job, columns));
+      });
     } catch (error) {
       console.error('Import error:', error);
+      message.error(error instanceof Error ? error.message : 'Import failed');
     } finally {
       setIsProcessing(false);
-      setProgress(0);
     }
-  }, [validateData, columns, excelData, documentType, config, selectedDocTypeOption, selectedParents, allFieldDefinitions]);
+  }, [validateData, buildImportRequest, columns]);
+
+  const handleRollback = useCallback(async () => {
+    if (!importSummary?.batchId) {
+      return;
+    }
+
+    setRollingBack(true);
+    try {
+      const job = await ImportJobService.rollback(importSummary.batchId);
+      setImportSummary(toImportSummary(job, columns));
+      message.success('Import rolled back');
+    } catch (error) {
+      console.error('Import rollback error:', error);
+      message.error(error instanceof Error ? error.message : 'Rollback failed');
+    } finally {
+      setRollingBack(false);
+    }
+  }, [importSummary, columns]);
 
   const handleExport = useCallback(async () => {
     setIsProcessing(true);
@@ -1037,6 +740,16 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
               aiMappings={aiMappings}
               fieldDefinitions={allFieldDefinitions}
               onColumnMappingChange={handleColumnMappingChange}
+              templates={templates}
+              appliedTemplate={appliedTemplate}
+              transforms={transforms}
+              defaults={defaults}
+              savingTemplate={savingTemplate}
+              onApplyTemplate={handleApplyTemplate}
+              onTransformChange={handleTransformChange}
+              onDefaultsChange={setDefaults}
+              onSaveTemplate={handleSaveTemplate}
+              onUpdateTemplate={handleUpdateTemplate}
             />
           );
         case 4:
@@ -1051,6 +764,8 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
                   return rowData;
               })}
               mappedColumns={columns.filter(c => c.mapped).map(c => ({ title: c.excelColumn, dataIndex: c.excelColumn, key: c.excelColumn}))}
+              plan={importPlan}
+              planning={planning}
             />
           );
         case 5:
@@ -1059,6 +774,8 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
               summary={importSummary}
               documentType={selectedDocTypeOption?.label || config.documentType}
               onReset={handleReset}
+              onRollback={handleRollback}
+              rollingBack={rollingBack}
             />
           );
         default:
@@ -1081,6 +798,16 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
               aiMappings={aiMappings}
               fieldDefinitions={allFieldDefinitions}
               onColumnMappingChange={handleColumnMappingChange}
+              templates={templates}
+              appliedTemplate={appliedTemplate}
+              transforms={transforms}
+              defaults={defaults}
+              savingTemplate={savingTemplate}
+              onApplyTemplate={handleApplyTemplate}
+              onTransformChange={handleTransformChange}
+              onDefaultsChange={setDefaults}
+              onSaveTemplate={handleSaveTemplate}
+              onUpdateTemplate={handleUpdateTemplate}
             />
           );
         case 3:
@@ -1095,6 +822,8 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
                   return rowData;
               })}
               mappedColumns={columns.filter(c => c.mapped).map(c => ({ title: c.excelColumn, dataIndex: c.excelColumn, key: c.excelColumn}))}
+              plan={importPlan}
+              planning={planning}
             />
           );
         case 4:
@@ -1103,6 +832,8 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
               summary={importSummary}
               documentType={selectedDocTypeOption?.label || config.documentType}
               onReset={handleReset}
+              onRollback={handleRollback}
+              rollingBack={rollingBack}
             />
           );
         default:
@@ -1128,7 +859,7 @@ export const DataImportExportGadget: React.FC<DataImportExportProps> = ({
       return columns.some(col => col.mapped);
     }
     if (currentStep === validationIndex) {
-      return validationErrors.length === 0;
+      return validationErrors.length === 0 && !planning;
     }
     return true;
   };
@@ -2,10 +2,19 @@ import {
     BulbOutlined,
     CheckCircleOutlined,
     RobotOutlined,
+    SaveOutlined,
+    SnippetsOutlined,
     WarningOutlined,
 } from '@ant-design/icons';
-import { Card, Select, Table, Tag, Tooltip, Typography } from 'antd';
-import React from 'react';
+import { Button, Card, Input, InputNumber, Modal, Select, Space, Table, Tag, Tooltip, Typography } from 'antd';
+import React, { useState } from 'react';
+import {
+    DATE_FORMATS,
+    DateFormat,
+    ImportTemplate,
+    TemplateValue,
+    ValueTransform,
+} from '../../../../../services/ImportTemplateService';
 import {
     AIMapping,
     ColumnMapping,
@@ -21,14 +30,165 @@ export interface ColumnMappingStepProps {
     aiMappings: AIMapping[];
     fieldDefinitions: FieldDefinition[];
     onColumnMappingChange: (excelColumn: string, dbField: string) => void;
+    /** Saved templates of the document type */
+    templates?: ImportTemplate[];
+    appliedTemplate?: ImportTemplate | null;
+    /** Value transforms by field */
+    transforms?: Record<string, ValueTransform>;
+    /** Default values by field */
+    defaults?: Record<string, TemplateValue>;
+    savingTemplate?: boolean;
+    onApplyTemplate?: (templateId: string) => void;
+    onTransformChange?: (dbField: string, transform: ValueTransform | null) => void;
+    onDefaultsChange?: (defaults: Record<string, TemplateValue>) => void;
+    /** Resolves true once the template is saved */
+    onSaveTemplate?: (name: string) => Promise<boolean>;
+    onUpdateTemplate?: () => void;
+}
+
+const UNIT_PRESETS: Array<{ label: string; factor: number; offset?: number }> = [
+    { label: 'in → mm', factor: 25.4 },
+    { label: 'ft → m', factor: 0.3048 },
+    { label: 'psi → bar', factor: 0.0689476 },
+    { label: 'bar → psi', factor: 14.5038 },
+    { label: '°F → °C', factor: 5 / 9, offset: -160 / 9 },
+    { label: '°C → °F', factor: 1.8, offset: 32 },
+];
+
+/**
+ * "A=Active; I=Inactive" to { A: 'Active', I: 'Inactive' }
+ */
+const parseValueMap = (text: string): Record<string, TemplateValue> => {
+    const values: Record<string, TemplateValue> = {};
+    text.split(/[;\n]+/).forEach(pair => {
+        const [source, ...target] = pair.split('=');
+        if (source?.trim() && target.length > 0) {
+            values[source.trim()] = target.join('=').trim();
+        }
+    });
+    return values;
+};
+
+const formatValueMap = (values: Record<string, TemplateValue>): string =>
+    Object.keys(values).map(source => `${source}=${values[source]}`).join('; ');
+
+interface TransformEditorProps {
+    transform?: ValueTransform;
+    onChange: (transform: ValueTransform | null) => void;
 }
 
+const TransformEditor: React.FC<TransformEditorProps> = ({ transform, onChange }) => {
+    const selectType = (type: ValueTransform['type'] | '') => {
+        if (type === 'unit') onChange({ type: 'unit', factor: 1 });
+        else if (type === 'date') onChange({ type: 'date', format: 'DD/MM/YYYY' });
+        else if (type === 'enum') onChange({ type: 'enum', values: {} });
+        else onChange(null);
+    };
+
+    return (
+        <Space direction="vertical" size={4} style={{ width: '100%' }}>
+            <Select
+                size="small"
+                value={transform?.type || ''}
+                onChange={selectType}
+                style={{ width: '100%' }}
+                options={[
+                    { value: '', label: 'As is' },
+                    { value: 'unit', label: 'Unit conversion' },
+                    { value: 'date', label: 'Date format' },
+                    { value: 'enum', label: 'Value map' },
+                ]}
+            />
+            {transform?.type === 'unit' && (
+                <Space.Compact size="small" style={{ width: '100%' }}>
+                    <Select
+                        placeholder="Preset"
+                        value={transform.label}
+                        onChange={(label: string) => {
+                            const preset = UNIT_PRESETS.find(p => p.label === label)!;
+                            onChange({ type: 'unit', ...preset });
+                        }}
+                        style={{ width: '55%' }}
+                        options={UNIT_PRESETS.map(p => ({ value: p.label, label: p.label }))}
+                    />
+                    <InputNumber
+                        addonBefore="×"
+                        value={transform.factor}
+                        onChange={factor => {
+                            if (typeof factor === 'number' && factor !== 0) {
+                                onChange({ type: 'unit', factor, offset: transform.offset });
+                            }
+                        }}
+                        style={{ width: '45%' }}
+                    />
+                </Space.Compact>
+            )}
+            {transform?.type === 'date' && (
+                <Select
+                    size="small"
+                    value={transform.format}
+                    onChange={(format: DateFormat) => onChange({ type: 'date', format })}
+                    style={{ width: '100%' }}
+                    options={DATE_FORMATS.map(format => ({ value: format, label: format }))}
+                />
+            )}
+            {transform?.type === 'enum' && (
+                <Input
+                    key={formatValueMap(transform.values)}
+                    size="small"
+                    placeholder="A=Active; I=Inactive"
+                    defaultValue={formatValueMap(transform.values)}
+                    onBlur={e => onChange({ type: 'enum', values: parseValueMap(e.target.value) })}
+                />
+            )}
+        </Space>
+    );
+};
+
 export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
     columns,
     aiMappings,
     fieldDefinitions,
     onColumnMappingChange,
+    templates = [],
+    appliedTemplate = null,
+    transforms = {},
+    defaults = {},
+    savingTemplate = false,
+    onApplyTemplate,
+    onTransformChange,
+    onDefaultsChange,
+    onSaveTemplate,
+    onUpdateTemplate,
 }) => {
+    const [templateName, setTemplateName] = useState<string | null>(null);
+    const [defaultField, setDefaultField] = useState<string | undefined>(undefined);
+    const [defaultValue, setDefaultValue] = useState('');
+
+    const fieldLabel = (dbField: string) => fieldDefinitions.find(f => f.dbField === dbField)?.label || dbField;
+
+    const saveTemplate = async () => {
+        if (onSaveTemplate && templateName?.trim() && await onSaveTemplate(templateName.trim())) {
+            setTemplateName(null);
+        }
+    };
+
+    const addDefault = () => {
+        if (onDefaultsChange && defaultField && defaultValue.trim()) {
+            onDefaultsChange({ ...defaults, [defaultField]: defaultValue.trim() });
+            setDefaultField(undefined);
+            setDefaultValue('');
+        }
+    };
+
+    const removeDefault = (dbField: string) => {
+        if (onDefaultsChange) {
+            const next = { ...defaults };
+            delete next[dbField];
+            onDefaultsChange(next);
+        }
+    };
+
     const mappingColumns = [
         {
           title: 'Excel Column',
@@ -101,6 +261,17 @@ export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
             );
           },
         },
+        ...(onTransformChange ? [{
+          title: 'Transform',
+          key: 'transform',
+          width: 220,
+          render: (_: any, record: ColumnMapping) => record.mapped && record.dbField ? (
+            <TransformEditor
+              transform={transforms[record.dbField]}
+              onChange={transform => onTransformChange(record.dbField!, transform)}
+            />
+          ) : null,
+        }] : []),
         {
           title: 'Status',
           key: 'status',
@@ -130,8 +301,37 @@ export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
             
             <Paragraph type="secondary">
                 <BulbOutlined style={{ color: '#faad14', marginRight: 6 }} />
-                AI has analyzed your columns. Review and adjust mappings as needed. Required fields are marked with *.
+                {appliedTemplate
+                    ? 'Columns known to the template are mapped from it; AI has analyzed the rest. Review and adjust mappings as needed. Required fields are marked with *.'
+                    : 'AI has analyzed your columns. Review and adjust mappings as needed. Required fields are marked with *.'}
             </Paragraph>
+
+            {onSaveTemplate && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+                    <SnippetsOutlined />
+                    {appliedTemplate
+                        ? <Tag color="purple">Template: {appliedTemplate.name}</Tag>
+                        : <Text type="secondary">No template matched these headers</Text>}
+                    {templates.length > 0 && (
+                        <Select
+                            size="small"
+                            placeholder="Apply template"
+                            value={undefined}
+                            onChange={(templateId: string) => onApplyTemplate?.(templateId)}
+                            style={{ minWidth: 180 }}
+                            options={templates.map(t => ({ value: t.id, label: t.name }))}
+                        />
+                    )}
+                    <Button size="small" icon={<SaveOutlined />} onClick={() => setTemplateName('')}>
+                        Save as Template
+                    </Button>
+                    {appliedTemplate?.isOwner && onUpdateTemplate && (
+                        <Button size="small" loading={savingTemplate} onClick={onUpdateTemplate}>
+                            Update Template
+                        </Button>
+                    )}
+                </div>
+            )}
             
             <Table
                 dataSource={columns}
@@ -155,6 +355,67 @@ export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
                     </Tag>
                 </div>
             </div>
+
+            {onDefaultsChange && (
+                <div style={{ marginTop: 12 }}>
+                    <Text strong style={{ fontSize: 13 }}>Default Values</Text>
+                    <Paragraph type="secondary" style={{ fontSize: 12, marginBottom: 8 }}>
+                        Used when a cell is empty or no column is mapped to the field.
+                    </Paragraph>
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
+                        {Object.keys(defaults).map(dbField => (
+                            <Tag key={dbField} closable onClose={() => removeDefault(dbField)}>
+                                {fieldLabel(dbField)} = {String(defaults[dbField])}
+                            </Tag>
+                        ))}
+                    </div>
+                    <Space.Compact size="small">
+                        <Select
+                            showSearch
+                            placeholder="Field"
+                            value={defaultField}
+                            onChange={setDefaultField}
+                            optionFilterProp="label"
+                            style={{ width: 220 }}
+                            options={fieldDefinitions
+                                .filter(f => defaults[f.dbField] === undefined)
+                                .map(f => ({ value: f.dbField, label: f.label }))}
+                        />
+                        <Input
+                            placeholder="Value"
+                            value={defaultValue}
+                            onChange={e => setDefaultValue(e.target.value)}
+                            onPressEnter={addDefault}
+                            style={{ width: 180 }}
+                        />
+                        <Button onClick={addDefault} disabled={!defaultField || !defaultValue.trim()}>
+                            Add
+                        </Button>
+                    </Space.Compact>
+                </div>
+            )}
+
+            <Modal
+                title="Save Mapping Template"
+                open={templateName !== null}
+                okText="Save"
+                confirmLoading={savingTemplate}
+                okButtonProps={{ disabled: !templateName?.trim() }}
+                onOk={saveTemplate}
+                onCancel={() => setTemplateName(null)}
+            >
+                <Paragraph type="secondary">
+                    Files with the same headers will be mapped with this template, including its transforms and default values.
+                </Paragraph>
+                <Input
+                    autoFocus
+                    placeholder="Template name"
+                    maxLength={100}
+                    value={templateName || ''}
+                    onChange={e => setTemplateName(e.target.value)}
+                    onPressEnter={saveTemplate}
+                />
+            </Modal>
         </Card>
     );
 };
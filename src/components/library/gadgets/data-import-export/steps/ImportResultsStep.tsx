@@ -1,4 +1,4 @@
-import { Button, Card, Tag, Typography } from 'antd';
+import { Button, Card, Popconfirm, Progress, Tag, Typography } from 'antd';
 import React from 'react';
 import { ImportSummary } from '../types';
 
@@ -10,9 +10,19 @@ interface ImportResultsStepProps {
   summary: ImportSummary | null;
   documentType: string;
   onReset: () => void;
+  /** Undo the whole import batch */
+  onRollback?: () => void;
+  rollingBack?: boolean;
 }
 
-export const ImportResultsStep: React.FC<ImportResultsStepProps> = ({ summary, documentType, onReset }) => {
+const TITLES: Record<string, string> = {
+  running: 'Importing...',
+  completed: 'Import Complete',
+  failed: 'Import Stopped',
+  rolled_back: 'Import Rolled Back'
+};
+
+export const ImportResultsStep: React.FC<ImportResultsStepProps> = ({ summary, documentType, onReset, onRollback, rollingBack }) => {
   if (!summary) {
     return (
         <Card>
@@ -22,12 +32,26 @@ export const ImportResultsStep: React.FC<ImportResultsStepProps> = ({ summary, d
         </Card>
     );
   }
-    
+
+  const running = summary.status === 'running';
+  const relatedCreated = Object.values(summary.related || {}).reduce((sum, count) => sum + count, 0);
+  const canRollback = !!onRollback && !!summary.batchId &&
+    (summary.status === 'completed' || summary.status === 'failed') &&
+    summary.created + summary.updated + relatedCreated > 0;
+
   return (
     <Card>
       <div style={{ textAlign: 'center', padding: '20px' }}>
-        <Title level={4}>Import Complete</Title>
-        
+        <Title level={4}>{TITLES[summary.status || 'completed']}</Title>
+
+        {running && (
+            <Progress
+              percent={summary.total ? Math.round(((summary.processed || 0) / summary.total) * 100) : 0}
+              format={() => `${summary.processed || 0} / ${summary.total}`}
+              style={{ maxWidth: 480, marginBottom: 20 }}
+            />
+        )}
+
         <div style={{ marginBottom: 20 }}>
             <Tag color="success" style={{ fontSize: 16, padding: '8px 16px' }}>
             {summary.created} Created
@@ -47,6 +71,12 @@ export const ImportResultsStep: React.FC<ImportResultsStepProps> = ({ summary, d
             )}
         </div>
 
+        {summary.rollback && (
+            <Typography.Paragraph type="secondary">
+              {summary.rollback.deleted} document(s) removed and {summary.rollback.restored} restored.
+            </Typography.Paragraph>
+        )}
+
         {summary.errors.length > 0 && (
             <div style={{ textAlign: 'left', maxHeight: 300, overflow: 'auto', border: '1px solid hsl(var(--border))', padding: '12px', borderRadius: '4px' }}>
             <Title level={5}>Errors:</Title>
@@ -60,12 +90,33 @@ export const ImportResultsStep: React.FC<ImportResultsStepProps> = ({ summary, d
             </div>
         )}
 
+        {summary.batchId && (
+            <Typography.Paragraph type="secondary" style={{ marginTop: 12, fontSize: 12 }}>
+              Import batch {summary.batchId}
+            </Typography.Paragraph>
+        )}
+
+        {!running && (
         <div style={{ marginTop: 20 }}>
-          <Button type="primary" onClick={onReset}>
+          {canRollback && (
+            <Popconfirm
+              title={`Roll back this ${documentType} import?`}
+              description="Documents it created are deleted and documents it updated get their previous values back."
+              okText="Roll Back"
+              okButtonProps={{ danger: true }}
+              onConfirm={onRollback}
+            >
+              <Button danger loading={rollingBack} style={{ marginRight: 8 }}>
+                Roll Back Import
+              </Button>
+            </Popconfirm>
+          )}
+          <Button type="primary" onClick={onReset} disabled={rollingBack}>
             Import Another File
           </Button>
         </div>
+        )}
       </div>
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -1,7 +1,7 @@
 import { CheckCircleOutlined, WarningOutlined } from '@ant-design/icons';
-import { Card, Table, Tag, Tooltip, Typography } from 'antd';
+import { Card, Spin, Table, Tag, Tooltip, Typography } from 'antd';
 import React from 'react';
-import { ValidationError } from '../types';
+import { ImportPlanSummary, ValidationError } from '../types';
 
 const { Title, Paragraph, Text } = Typography;
 
@@ -11,12 +11,23 @@ interface ValidationStepProps {
     validationErrors: ValidationError[];
     previewData: any[];
     mappedColumns: { title: string, dataIndex: string, key: string }[];
+    /** Dry run of the whole file on the server */
+    plan?: ImportPlanSummary | null;
+    planning?: boolean;
 }
 
+const RELATED_LABELS: Record<string, string> = {
+    company: 'companies',
+    site: 'sites',
+    asset_group: 'asset groups'
+};
+
 export const ValidationStep: React.FC<ValidationStepProps> = ({ 
     validationErrors, 
     previewData,
-    mappedColumns
+    mappedColumns,
+    plan,
+    planning
 }) => {
     const previewTableColumns = mappedColumns.map(col => ({
         ...col,
@@ -70,6 +81,24 @@ export const ValidationStep: React.FC<ValidationStepProps> = ({
             </div>
             )}
 
+            {planning && (
+            <div style={{ marginBottom: 16 }}>
+                <Spin size="small" /> <Text type="secondary">Checking all rows against existing records...</Text>
+            </div>
+            )}
+            {!planning && plan && (
+            <div style={{ marginBottom: 16 }}>
+                <Text strong style={{ marginRight: 8 }}>Import plan:</Text>
+                <Tag color="success">{plan.created} to create</Tag>
+                <Tag color="blue">{plan.updated} to update</Tag>
+                {plan.skipped > 0 && <Tag color="warning">{plan.skipped} to skip (duplicates)</Tag>}
+                {plan.failed > 0 && <Tag color="error">{plan.failed} with errors</Tag>}
+                {Object.entries(plan.related).filter(([, count]) => count > 0).map(([type, count]) => (
+                    <Tag key={type}>{count} new {RELATED_LABELS[type] || type}</Tag>
+                ))}
+            </div>
+            )}
+
             <Table
                 dataSource={previewData}
                 columns={previewTableColumns}
@@ -77,6 +77,26 @@ export interface ImportSummary {
   errors: ValidationError[];
   createdIds?: string[];
   duration?: number;
+  /** Rows done so far while the import job runs */
+  processed?: number;
+  /** Parent documents created on the way, by type */
+  related?: Record<string, number>;
+  /** Import job id, stored as importBatchId on every created document */
+  batchId?: string;
+  status?: 'running' | 'completed' | 'failed' | 'rolled_back';
+  rollback?: { deleted: number; restored: number };
+}
+
+/**
+ * Dry-run result shown on the validation step
+ */
+export interface ImportPlanSummary {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  related: Record<string, number>;
 }
 
 export interface ImportConfig {
@@ -0,0 +1,86 @@
+import { ColumnMapping, FieldDefinition } from '../../types';
+import { buildImportRows, toImportSummary } from '../importUtils';
+
+const column = (excelColumn: string, excelColumnIndex: number, dbField: string | null): ColumnMapping => ({
+    excelColumn,
+    excelColumnIndex,
+    dbField,
+    sampleValues: [],
+    dataType: 'string',
+    required: false,
+    mapped: !!dbField
+});
+
+const columns = [
+    column('Site', 0, 'site_name'),
+    column('Tag', 1, 'asset_tag'),
+    column('Diameter', 2, 'diameter'),
+    column('Notes', 3, null)
+];
+
+const fields: FieldDefinition[] = [
+    { dbField: 'diameter', label: 'Diameter', required: false, dataType: 'number' }
+];
+
+describe('buildImportRows', () => {
+    it('keeps mapped, non-empty cells keyed by field and converts their types', () => {
+        expect(buildImportRows(
+            [
+                ['North Plant', 'P-100', '12.5', 'ignored'],
+                ['North Plant', '', undefined, 'ignored']
+            ],
+            columns,
+            fields
+        )).toEqual([
+            { site_name: 'North Plant', asset_tag: 'P-100', diameter: 12.5 },
+            { site_name: 'North Plant' }
+        ]);
+    });
+
+    it('applies template transforms before type conversion and fills defaults', () => {
+        expect(buildImportRows(
+            [
+                ['North Plant', 'P-100', '2', 'ignored'],
+                ['', 'P-101', '', 'ignored']
+            ],
+            columns,
+            fields,
+            {
+                transforms: { diameter: { type: 'unit', factor: 25.4 } },
+                defaults: { site_name: 'Main Site', status: 'active' }
+            }
+        )).toEqual([
+            { site_name: 'North Plant', asset_tag: 'P-100', diameter: 50.8, status: 'active' },
+            { site_name: 'Main Site', asset_tag: 'P-101', status: 'active' }
+        ]);
+    });
+});
+
+describe('toImportSummary', () => {
+    it('reports row errors against the spreadsheet column', () => {
+        const summary = toImportSummary({
+            id: 'import_1',
+            documentType: 'asset',
+            status: 'completed',
+            total: 2,
+            processed: 2,
+            created: 1,
+            updated: 0,
+            skipped: 0,
+            failed: 1,
+            related: { site: 1 },
+            errors: [{ row: 3, column: 'asset_tag', error: 'Required' }],
+            created_date: '2026-01-01T10:00:00.000Z',
+            completedAt: '2026-01-01T10:00:02.000Z'
+        }, columns);
+
+        expect(summary).toMatchObject({
+            batchId: 'import_1',
+            status: 'completed',
+            created: 1,
+            failed: 1,
+            duration: 2000,
+            errors: [{ row: 3, column: 'Tag', error: 'Required' }]
+        });
+    });
+});
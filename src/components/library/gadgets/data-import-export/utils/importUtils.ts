@@ -0,0 +1,73 @@
+import type { ImportJob, ImportRowError } from '../../../../../services/ImportJobService';
+import { applyValueTransform, TemplateValue, ValueTransform } from '../../../../../services/ImportTemplateService';
+import { ColumnMapping, FieldDefinition, ImportSummary, ValidationError } from '../types';
+import { transformImportedData } from './fieldUtils';
+
+export interface ImportRowOptions {
+    /** Template value transforms by field, applied before type conversion */
+    transforms?: Record<string, ValueTransform>;
+    /** Values for fields whose cell is empty or that no column is mapped to */
+    defaults?: Record<string, TemplateValue>;
+}
+
+/**
+ * Spreadsheet rows as sent to the import API: mapped columns only, empty
+ * cells left out (or given their default), values converted to their field's
+ * data type
+ */
+export function buildImportRows(
+    excelData: any[][],
+    columns: ColumnMapping[],
+    fieldDefinitions: FieldDefinition[],
+    { transforms = {}, defaults = {} }: ImportRowOptions = {}
+): Array<Record<string, unknown>> {
+    const mappedColumns = columns.filter(col => col.mapped && col.dbField);
+
+    return excelData.map(row => {
+        const values: Record<string, unknown> = {};
+        mappedColumns.forEach(col => {
+            const value = applyValueTransform(row[col.excelColumnIndex], transforms[col.dbField!]);
+            if (value !== undefined && value !== null && value !== '') {
+                values[col.dbField!] = value;
+            }
+        });
+        Object.keys(defaults).forEach(field => {
+            if (values[field] === undefined && defaults[field] !== '') {
+                values[field] = defaults[field];
+            }
+        });
+        return transformImportedData(values, fieldDefinitions);
+    });
+}
+
+/**
+ * Row errors from the API, reported against the spreadsheet column mapped to the field
+ */
+export function toValidationErrors(errors: ImportRowError[], columns: ColumnMapping[]): ValidationError[] {
+    return errors.map(err => ({
+        ...err,
+        column: columns.find(col => col.mapped && col.dbField === err.column)?.excelColumn || err.column
+    }));
+}
+
+/**
+ * Summary shown by ImportResultsStep for a running or finished job
+ */
+export function toImportSummary(job: ImportJob, columns: ColumnMapping[] = []): ImportSummary {
+    return {
+        total: job.total,
+        processed: job.processed,
+        created: job.created,
+        updated: job.updated,
+        skipped: job.skipped,
+        failed: job.failed,
+        related: job.related,
+        errors: toValidationErrors(job.errors || [], columns),
+        batchId: job.id,
+        status: job.status,
+        duration: job.completedAt && job.created_date
+            ? new Date(job.completedAt).getTime() - new Date(job.created_date).getTime()
+            : undefined,
+        rollback: job.rollback
+    };
+}
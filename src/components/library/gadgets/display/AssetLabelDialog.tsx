@@ -0,0 +1,271 @@
+/**
+ * AssetLabelDialog - printable QR asset labels
+ *
+ * Opened from the resource tree and from SGrid selections. The user picks a
+ * label sheet, the fields printed next to the code and an optional logo; the
+ * codes are drawn with antd's QRCode and placed on a PDF sheet by
+ * buildLabelPdf. The last template used is remembered in the browser.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Button, Checkbox, Modal, QRCode, Select, Space, Switch, Typography, Upload, message } from 'antd';
+import { DeleteOutlined, PictureOutlined, PrinterOutlined } from '@ant-design/icons';
+import { buildLabelPdf } from '../../../../utils/assetLabelPdf';
+import {
+  DEFAULT_LABEL_TEMPLATE,
+  LABEL_FIELDS,
+  LABEL_PADDING,
+  LABEL_SHEETS,
+  LabelAsset,
+  LabelTemplate,
+  MAX_LABELS,
+  assetLink,
+  getLabelSheet,
+  labelLines
+} from '../../../../utils/assetLabels';
+
+const { Text } = Typography;
+
+const TEMPLATE_STORAGE_KEY = 'assetLabelTemplate';
+
+/**
+ * Pixel size of the rendered codes; about 300 dpi on a 38 mm label
+ */
+const QR_RENDER_SIZE = 448;
+
+/**
+ * Labels shown in the preview
+ */
+const PREVIEW_COUNT = 3;
+
+export interface AssetLabelDialogProps {
+  open: boolean;
+  assets: LabelAsset[];
+  onClose: () => void;
+  /** Deep link encoded in each code, with {id} for the asset id */
+  linkTemplate?: string;
+  title?: string;
+}
+
+const loadTemplate = (): LabelTemplate => {
+  try {
+    const stored = localStorage.getItem(TEMPLATE_STORAGE_KEY);
+    return stored ? { ...DEFAULT_LABEL_TEMPLATE, ...JSON.parse(stored) } : DEFAULT_LABEL_TEMPLATE;
+  } catch {
+    return DEFAULT_LABEL_TEMPLATE;
+  }
+};
+
+const saveTemplate = (template: LabelTemplate) => {
+  try {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+  } catch {
+    // Storage full or unavailable; the template is only a convenience
+  }
+};
+
+const readDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const AssetLabelDialog: React.FC<AssetLabelDialogProps> = ({
+  open,
+  assets,
+  onClose,
+  linkTemplate,
+  title = 'Print Asset Labels'
+}) => {
+  const [template, setTemplate] = useState<LabelTemplate>(loadTemplate);
+  const [generating, setGenerating] = useState(false);
+  const codesRef = useRef<HTMLDivElement>(null);
+
+  const labelAssets = useMemo(() => assets.filter(asset => asset && asset.id).slice(0, MAX_LABELS), [assets]);
+  const skipped = assets.length - labelAssets.length;
+  const sheet = getLabelSheet(template.sheetId);
+  const perSheet = sheet.columns * sheet.rows;
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  const updateTemplate = useCallback((changes: Partial<LabelTemplate>) => {
+    setTemplate(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  useEffect(() => {
+    if (open) saveTemplate(template);
+  }, [open, template]);
+
+  const handleLogo = useCallback(async (file: File) => {
+    try {
+      updateTemplate({ logo: await readDataUrl(file) });
+    } catch (error) {
+      console.error('Failed to read logo:', error);
+      message.error('Could not read the logo image');
+    }
+    return false;
+  }, [updateTemplate]);
+
+  const handleGenerate = useCallback(async () => {
+    setGenerating(true);
+    try {
+      // Let the hidden codes finish drawing before they are read
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const qrImages: Record<string, string> = {};
+      codesRef.current?.querySelectorAll<HTMLElement>('[data-asset-id]').forEach(node => {
+        const canvas = node.querySelector('canvas');
+        if (canvas) qrImages[node.dataset.assetId as string] = canvas.toDataURL('image/png');
+      });
+
+      const missing = labelAssets.filter(asset => !qrImages[asset.id]).length;
+      if (missing > 0) {
+        message.error(`Could not draw ${missing} QR code(s); try again`);
+        return;
+      }
+
+      const pdf = buildLabelPdf(labelAssets, template, qrImages);
+      pdf.save(`asset-labels-${new Date().toISOString().slice(0, 10)}.pdf`);
+      message.success(`Created ${labelAssets.length} label(s) on ${Math.ceil(labelAssets.length / perSheet)} sheet(s)`);
+    } catch (error) {
+      console.error('Failed to create labels:', error);
+      message.error('Failed to create the label PDF');
+    } finally {
+      setGenerating(false);
+    }
+  }, [labelAssets, template, perSheet]);
+
+  const previewWidth = 260;
+  const scale = previewWidth / sheet.width;
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onCancel={onClose}
+      width={640}
+      destroyOnClose
+      footer={[
+        <Button key="cancel" onClick={onClose}>
+          Cancel
+        </Button>,
+        <Button
+          key="print"
+          type="primary"
+          icon={<PrinterOutlined />}
+          loading={generating}
+          disabled={labelAssets.length === 0 || template.fields.length === 0}
+          onClick={handleGenerate}
+        >
+          Download PDF
+        </Button>
+      ]}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Text>
+          {labelAssets.length} label(s) · {Math.ceil(labelAssets.length / perSheet)} sheet(s)
+        </Text>
+
+        {skipped > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            message={`${skipped} asset(s) left out: labels are limited to ${MAX_LABELS} per PDF and need an asset id`}
+          />
+        )}
+
+        <div>
+          <Text strong style={{ display: 'block', marginBottom: 4 }}>Label sheet</Text>
+          <Select
+            value={sheet.id}
+            onChange={sheetId => updateTemplate({ sheetId })}
+            options={LABEL_SHEETS.map(option => ({ value: option.id, label: option.label }))}
+            style={{ width: '100%' }}
+          />
+        </div>
+
+        <div>
+          <Text strong style={{ display: 'block', marginBottom: 4 }}>Fields shown</Text>
+          <Checkbox.Group
+            value={template.fields}
+            onChange={values => updateTemplate({
+              fields: LABEL_FIELDS.map(field => field.key).filter(key => values.includes(key))
+            })}
+            options={LABEL_FIELDS.map(field => ({ value: field.key, label: field.label }))}
+          />
+        </div>
+
+        <Space wrap>
+          <Upload accept="image/png,image/jpeg" showUploadList={false} beforeUpload={handleLogo}>
+            <Button icon={<PictureOutlined />}>{template.logo ? 'Change Logo' : 'Add Logo'}</Button>
+          </Upload>
+          {template.logo && (
+            <Button icon={<DeleteOutlined />} onClick={() => updateTemplate({ logo: null })}>
+              Remove Logo
+            </Button>
+          )}
+          <Space size="small">
+            <Switch size="small" checked={!!template.outline} onChange={outline => updateTemplate({ outline })} />
+            <Text>Cutting outline</Text>
+          </Space>
+        </Space>
+
+        <div>
+          <Text strong style={{ display: 'block', marginBottom: 4 }}>Preview</Text>
+          <Space direction="vertical">
+            {labelAssets.slice(0, PREVIEW_COUNT).map(asset => (
+              <div
+                key={asset.id}
+                style={{
+                  display: 'flex',
+                  gap: 8,
+                  width: previewWidth,
+                  height: sheet.height * scale,
+                  padding: LABEL_PADDING * scale,
+                  border: '1px dashed #d9d9d9',
+                  borderRadius: 4,
+                  overflow: 'hidden',
+                  background: '#fff'
+                }}
+              >
+                <QRCode
+                  value={assetLink(asset.id, origin, linkTemplate)}
+                  size={(sheet.height - LABEL_PADDING * 2) * scale}
+                  bordered={false}
+                  style={{ padding: 0, flexShrink: 0 }}
+                />
+                <div style={{ minWidth: 0, fontSize: 11, lineHeight: 1.3, color: '#000' }}>
+                  {template.logo && (
+                    <img src={template.logo} alt="Logo" style={{ maxHeight: 8 * scale, maxWidth: '100%', display: 'block', marginBottom: 2 }} />
+                  )}
+                  {labelLines(asset, template.fields).map((line, index) => (
+                    <div key={index} style={{ fontWeight: index === 0 ? 600 : 400 }}>{line}</div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </Space>
+        </div>
+      </Space>
+
+      {/* Full-size codes read into the PDF */}
+      <div ref={codesRef} aria-hidden style={{ position: 'absolute', left: -10000, top: 0 }}>
+        {labelAssets.map(asset => (
+          <div key={asset.id} data-asset-id={asset.id}>
+            <QRCode
+              type="canvas"
+              value={assetLink(asset.id, origin, linkTemplate)}
+              size={QR_RENDER_SIZE}
+              errorLevel="M"
+              bordered={false}
+              color="#000000"
+              bgColor="#ffffff"
+            />
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+};
+
+export default AssetLabelDialog;
@@ -12,6 +12,7 @@
  * - Search and filtering capabilities
  * - Real-time data updates
  * - Customizable node types and icons
+ * - Printable QR labels for an asset or asset group (print_labels menu item)
  * - Tenant-aware data isolation
  * 
  * Usage:
@@ -58,6 +59,7 @@ import {
     MoreOutlined,
     PlusCircleOutlined,
     PlusOutlined,
+    PrinterOutlined,
     ReloadOutlined,
     SearchOutlined,
     ToolOutlined,
@@ -70,6 +72,7 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { z } from 'zod';
 import { ValidationResult } from '../../core/base';
 import { BaseGadget, GadgetConfig, GadgetMetadata, GadgetSchema, GadgetType } from '../base';
+import { AssetLabelDialog } from './AssetLabelDialog';
 
 // Extended DataNode to include custom data
 interface DataNode extends AntDataNode {
@@ -93,6 +96,7 @@ const ICON_MAP: Record<string, React.ComponentType> = {
   EditOutlined,
   DeleteOutlined,
   UndoOutlined,
+  PrinterOutlined,
   MoreOutlined,
 };
 
@@ -306,6 +310,7 @@ const ResourceTreeComponent: React.FC<ResourceTreeGadgetProps> = ({ config, cont
   const [contextMenuVisible, setContextMenuVisible] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState({ x: 0, y: 0 });
   const [contextNode, setContextNode] = useState<any>(null);
+  const [labelAssets, setLabelAssets] = useState<any[] | null>(null);
 
   // ✅ LAZY LOADING: Load only root nodes (companies) initially
   const loadRootNodes = useCallback(async () => {
@@ -759,9 +764,41 @@ const ResourceTreeComponent: React.FC<ResourceTreeGadgetProps> = ({ config, cont
     setContextMenuVisible(true);
   };
 
+  // Labels for an asset, or for every asset in a group
+  const printLabels = async (node: any) => {
+    if (node.nodeType === 'asset') {
+      setLabelAssets([node]);
+      return;
+    }
+
+    try {
+      const response = await BaseGadget.makeAuthenticatedFetch(
+        `${config.treeData.dataUrl}?type=asset&asset_group_id=${node.id}`
+      );
+      const result = await response.json();
+      const assets = result.data || [];
+      if (assets.length === 0) {
+        message.info(`${node.name || 'This group'} has no assets`);
+        return;
+      }
+      setLabelAssets(assets);
+    } catch (error) {
+      console.error('❌ Error loading assets for labels:', error);
+      message.error('Failed to load assets for labels');
+    }
+  };
+
   // Handle context menu click
   const handleContextMenuClick = (menuItem: ContextMenuItem) => {
     
+    // Labels are printed here rather than by the workspace
+    if (menuItem.key === 'print_labels') {
+      if (contextNode) printLabels(contextNode);
+      setContextMenuVisible(false);
+      setContextNode(null);
+      return;
+    }
+
     // Emit action to parent context
     if (context?.onAction) {
       context.onAction('contextAction', {
@@ -902,6 +939,9 @@ const ResourceTreeComponent: React.FC<ResourceTreeGadgetProps> = ({ config, cont
         nodeType: info.node.data.nodeType
       });
     }
+
+    // Emit selection to connected gadgets (null when deselected)
+    context?.dataFlow?.emit('node-selection', info.selected ? info.node?.data ?? null : null);
   };
 
   // Load data on mount and config changes
@@ -930,8 +970,8 @@ const ResourceTreeComponent: React.FC<ResourceTreeGadgetProps> = ({ config, cont
     const allowedActions: Record<string, string[]> = {
       company: ['view', 'edit', 'add_site', 'delete', 'restore'],
       site: ['view', 'edit', 'add_group', 'delete', 'restore'],
-      asset_group: ['view', 'edit', 'add_asset', 'delete', 'restore'],
-      asset: ['view', 'edit', 'delete', 'restore']
+      asset_group: ['view', 'edit', 'add_asset', 'print_labels', 'delete', 'restore'],
+      asset: ['view', 'edit', 'print_labels', 'delete', 'restore']
     };
 
     const nodeAllowedActions = allowedActions[nodeType] || ['view', 'edit', 'delete', 'restore'];
@@ -1140,6 +1180,12 @@ const ResourceTreeComponent: React.FC<ResourceTreeGadgetProps> = ({ config, cont
           />
         </Dropdown>
       )}
+
+      <AssetLabelDialog
+        open={!!labelAssets}
+        assets={labelAssets || []}
+        onClose={() => setLabelAssets(null)}
+      />
     </div>
   );
 };
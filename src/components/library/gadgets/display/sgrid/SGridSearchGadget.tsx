@@ -1,24 +1,37 @@
-import { DownloadOutlined } from '@ant-design/icons';
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  DownloadOutlined,
+  EllipsisOutlined,
+  PrinterOutlined,
+  SettingOutlined,
+  StarFilled
+} from '@ant-design/icons';
 import {
   ColumnDef,
   ColumnFiltersState,
+  ColumnOrderState,
+  ColumnSizingState,
   flexRender,
   getCoreRowModel,
   getFilteredRowModel,
   getPaginationRowModel,
   getSortedRowModel,
   SortingState,
-  useReactTable
+  useReactTable,
+  VisibilityState
 } from '@tanstack/react-table';
-import { Button, Dropdown, Form, Input, message, Modal, Popconfirm, Segmented, Select, Space } from 'antd';
+import { Button, Checkbox, Dropdown, Form, Input, message, Modal, Popconfirm, Popover, Segmented, Select, Space } from 'antd';
 import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import * as XLSX from 'xlsx';
 import WorkspaceFilterContext, { WorkspaceFilterContextValue } from '../../../../../contexts/WorkspaceFilterContext';
+import { GridViewService, GridViewState, SavedGridView, sanitizeGridViewState } from '../../../../../services/GridViewService';
 import { BaseGadgetContainer } from '../../../../ui/workspace/BaseGadgetContainer';
+import { AssetLabelDialog } from '../AssetLabelDialog';
 import { DatePickerWidget } from '../../../widgets/input/DatePickerWidget';
 import { InputFieldWidget } from '../../../widgets/input/InputFieldWidget';
 import { InputNumberWidget } from '../../../widgets/input/InputNumberWidget';
-import { BaseGadget, GadgetConfig, GadgetMetadata, GadgetSchema, GadgetType } from '../../base';
+import { BaseGadget, GadgetConfig, GadgetContext, GadgetMetadata, GadgetSchema, GadgetType } from '../../base';
 
 // Helper function to get nested values from objects
 const getNestedValue = (obj: any, path: string): any => {
@@ -136,9 +149,13 @@ interface ToolbarConfig {
   enableBulkDelete?: boolean;
   bulkDeleteText?: string;
   bulkDeleteConfirmText?: string;
+  /** Print QR asset labels for the selected rows */
+  enableLabels?: boolean;
+  labelsText?: string;
   enableExport?: boolean;
   exportFileName?: string;
   exportFormats?: ('excel' | 'csv')[];
+  enableSavedViews?: boolean;
 }
 
 interface SearchConfig {
@@ -167,6 +184,19 @@ interface RecordWorkspaceRoutingConfig {
   patternMappings?: RecordWorkspacePatternMapping[];
 }
 
+/**
+ * Lifecycle transition the API lists in a record's availableTransitions
+ */
+interface LifecycleTransitionOption {
+  id: string;
+  label: string;
+  to: string;
+  toLabel?: string;
+  requireComment?: boolean;
+  requireSignature?: boolean;
+  confirmText?: string;
+}
+
 interface SGridSearchViewProps {
   dataUrl?: string;
   data?: any[];
@@ -184,8 +214,12 @@ interface SGridSearchViewProps {
   defaultSort?: { field: string; order: 'asc' | 'desc' }; // Default sorting configuration
   recordWorkspaceRouting?: RecordWorkspaceRoutingConfig;
   legacyWorkspaceMapping?: Record<string, string>;
+  gridId?: string; // Saved views key; defaults to <workspace id>:<gadget id>
+  context?: GadgetContext;
 }
 
+const PAGE_SIZE_OPTIONS = [5, 10, 15, 25, 50];
+
 const SGridSearchView: React.FC<SGridSearchViewProps> = ({
   dataUrl,
   data: injectedData,
@@ -203,6 +237,8 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
   pagination: paginationConfig,
   recordWorkspaceRouting,
   legacyWorkspaceMapping = {},
+  gridId: configuredGridId,
+  context,
 }) => {
   const [data, setData] = useState<any[]>(Array.isArray(injectedData) ? injectedData : []);
   const [loading, setLoading] = useState(false);
@@ -355,7 +391,22 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
   const [form] = Form.useForm();
   const [dynamicOptions, setDynamicOptions] = useState<Record<string, any[]>>({});
   const [selectedRows, setSelectedRows] = useState<string[]>([]);
+  const [labelsOpen, setLabelsOpen] = useState(false);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+  const [columnOrder, setColumnOrder] = useState<ColumnOrderState>([]);
+  const [columnSizing, setColumnSizing] = useState<ColumnSizingState>({});
+
+  // Saved views
+  const workspaceId = context?.workspace?.id;
+  const gridId = configuredGridId || (workspaceId && context?.gadgetId ? `${workspaceId}:${context.gadgetId}` : undefined);
+  const savedViewsEnabled = toolbar?.enableSavedViews !== false && !!gridId && GridViewService.isAvailable();
+  const [savedViews, setSavedViews] = useState<SavedGridView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [isSaveViewVisible, setIsSaveViewVisible] = useState(false);
+  const [saveViewForm] = Form.useForm();
+  const [pendingTransition, setPendingTransition] = useState<{ record: any; transition: LifecycleTransitionOption } | null>(null);
+  const [transitionForm] = Form.useForm();
 
   // Reset to first page when filters change
   useEffect(() => {
@@ -724,10 +775,10 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
   ]);
 
   const tanCols = useMemo<ColumnDef<any, any>[]>(() => {
-    // Add selection column if bulk delete is enabled
+    // Add selection column if bulk delete or labels are enabled
     const defs: ColumnDef<any, any>[] = [];
     
-    if (toolbar?.enableBulkDelete) {
+    if (toolbar?.enableBulkDelete || toolbar?.enableLabels) {
       defs.push({
         id: 'select',
         header: ({ table }) => (
@@ -956,6 +1007,23 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
           return (
             <Space>
               {rowActions.map((action: any) => {
+                // Lifecycle actions expand to the transitions the API allows for this record
+                if (action.lifecycleTransitions) {
+                  const transitions: LifecycleTransitionOption[] = Array.isArray(record.availableTransitions)
+                    ? record.availableTransitions
+                    : [];
+                  return transitions.map(transition => (
+                    <Button
+                      key={`${action.key}-${transition.id}`}
+                      size="small"
+                      type={action.type === 'danger' ? 'default' : action.type}
+                      onClick={() => setPendingTransition({ record, transition })}
+                    >
+                      {transition.label}
+                    </Button>
+                  ));
+                }
+
                 const buttonProps = {
                   key: action.key,
                   size: 'small' as const,
@@ -995,6 +1063,7 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
     rowActions,
     search,
     toolbar?.enableBulkDelete,
+    toolbar?.enableLabels,
     selectedRows,
     focusedColumn,
     resolveWizardWorkspace,
@@ -1009,12 +1078,20 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
       sorting,
       columnFilters,
       globalFilter: query,
-      pagination
+      pagination,
+      columnVisibility,
+      columnOrder,
+      columnSizing
     },
     onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
     onGlobalFilterChange: setQuery,
     onPaginationChange: setPagination,
+    onColumnVisibilityChange: setColumnVisibility,
+    onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    enableColumnResizing: true,
+    columnResizeMode: 'onEnd',
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     getSortedRowModel: getSortedRowModel(),
@@ -1025,6 +1102,223 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
     pageCount: serverPagination.pages
   });
 
+  const columnIds = useMemo(() => tanCols.map(col => col.id as string), [tanCols]);
+  const activeView = savedViews.find(view => view.id === activeViewId) || null;
+
+  const captureViewState = (): GridViewState => ({
+    query,
+    viewFilter: activeViewFilter,
+    columnFilters,
+    sorting,
+    columnVisibility,
+    columnOrder,
+    columnSizing,
+    pageSize: pagination.pageSize
+  });
+
+  const applyViewState = useCallback((saved: GridViewState | undefined) => {
+    const state = sanitizeGridViewState(saved, columnIds, (viewFilters || []).map(vf => vf.key));
+    setQuery(state.query || '');
+    setColumnFilters(state.columnFilters || []);
+    setSorting(state.sorting || initialSorting);
+    setColumnVisibility(state.columnVisibility || {});
+    setColumnOrder(state.columnOrder || []);
+    setColumnSizing(state.columnSizing || {});
+    setPagination({ pageIndex: 0, pageSize: state.pageSize || paginationConfig?.pageSize || 10 });
+    if (state.viewFilter) {
+      setActiveViewFilter(state.viewFilter);
+    }
+  }, [columnIds, viewFilters, initialSorting, paginationConfig?.pageSize]);
+
+  // Load saved views and open the user's default view once per grid
+  const applyViewStateRef = useRef(applyViewState);
+  applyViewStateRef.current = applyViewState;
+  useEffect(() => {
+    if (!savedViewsEnabled || !gridId) return;
+    let cancelled = false;
+    GridViewService.list(gridId)
+      .then(views => {
+        if (cancelled) return;
+        setSavedViews(views);
+        const defaultView = views.find(view => view.isDefault);
+        if (defaultView) {
+          setActiveViewId(defaultView.id);
+          applyViewStateRef.current(defaultView.state);
+        }
+      })
+      .catch(error => console.warn('[SGridSearchGadget] Failed to load saved views:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [gridId, savedViewsEnabled]);
+
+  const selectView = (viewId: string | null) => {
+    setActiveViewId(viewId);
+    const view = savedViews.find(candidate => candidate.id === viewId);
+    applyViewState(view?.state);
+  };
+
+  const replaceSavedView = (updated: SavedGridView) => {
+    setSavedViews(prev => prev.map(view => (view.id === updated.id ? updated : view)));
+  };
+
+  const handleSaveView = async () => {
+    if (!gridId) return;
+    try {
+      const values = await saveViewForm.validateFields();
+      const name = String(values.name).trim();
+      const state = captureViewState();
+      // Saving under the name of an own view overwrites that view
+      const existing = savedViews.find(view => view.isOwner && view.name === name);
+      let saved = existing
+        ? await GridViewService.update(existing.id, { state, shared: !!values.shared })
+        : await GridViewService.create(gridId, { name, state, shared: !!values.shared, isDefault: !!values.isDefault });
+
+      if (existing && !!values.isDefault !== existing.isDefault) {
+        await GridViewService.setDefault(gridId, values.isDefault ? existing.id : null);
+      }
+      if (values.isDefault) {
+        saved = { ...saved, isDefault: true };
+      }
+
+      setSavedViews(prev => [
+        ...prev
+          .filter(view => view.id !== saved.id)
+          .map(view => (saved.isDefault ? { ...view, isDefault: false } : view)),
+        saved
+      ]);
+      setActiveViewId(saved.id);
+      setIsSaveViewVisible(false);
+      message.success(`View "${name}" saved`);
+    } catch (error: any) {
+      if (error?.errorFields) return; // form validation
+      message.error(error?.message || 'Failed to save view');
+    }
+  };
+
+  const handleTransitionSubmit = async () => {
+    if (!pendingTransition) return;
+    const { record, transition } = pendingTransition;
+    const targetId = record.id || record._id;
+    const baseUrl = (dataUrl?.split('?')[0] || '').replace(/\/$/, '');
+    try {
+      const values = await transitionForm.validateFields();
+      const response = await BaseGadget.makeAuthenticatedFetch(`${baseUrl}/${targetId}/transitions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transition: transition.id, comment: values.comment, signature: values.signature })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `${transition.label} failed`);
+      }
+
+      setData(prev => prev.map(item => ((item.id || item._id) === targetId ? { ...item, ...result } : item)));
+      setPendingTransition(null);
+      message.success(`${transition.label}: ${result.statusLabel || transition.toLabel || transition.to}`);
+    } catch (error: any) {
+      if (error?.errorFields) return; // form validation
+      message.error(error?.message || `${transition.label} failed`);
+    }
+  };
+
+  const handleViewAction = async (action: string) => {
+    if (!gridId) return;
+    if (action === 'save') {
+      setIsSaveViewVisible(true);
+      return;
+    }
+    if (action === 'reset') {
+      selectView(null);
+      return;
+    }
+    if (!activeView) return;
+
+    try {
+      switch (action) {
+        case 'update':
+          replaceSavedView(await GridViewService.update(activeView.id, { state: captureViewState() }));
+          message.success(`View "${activeView.name}" updated`);
+          break;
+        case 'share':
+          replaceSavedView(await GridViewService.update(activeView.id, { shared: !activeView.shared }));
+          break;
+        case 'default': {
+          const viewId = activeView.isDefault ? null : activeView.id;
+          await GridViewService.setDefault(gridId, viewId);
+          setSavedViews(prev => prev.map(view => ({ ...view, isDefault: view.id === viewId })));
+          break;
+        }
+        case 'delete':
+          await GridViewService.remove(activeView.id);
+          setSavedViews(prev => prev.filter(view => view.id !== activeView.id));
+          setActiveViewId(null);
+          message.success(`View "${activeView.name}" deleted`);
+          break;
+      }
+    } catch (error: any) {
+      message.error(error?.message || 'Failed to update view');
+    }
+  };
+
+  const viewOption = (view: SavedGridView) => ({
+    value: view.id,
+    label: (
+      <span>
+        {view.isDefault && <StarFilled style={{ color: '#faad14', marginRight: 4 }} />}
+        {view.name}
+      </span>
+    )
+  });
+  const ownViews = savedViews.filter(view => view.isOwner);
+  const sharedViews = savedViews.filter(view => !view.isOwner);
+
+  const orderedColumnIds = columnOrder.length > 0
+    ? [...columnOrder.filter(id => columnIds.includes(id)), ...columnIds.filter(id => !columnOrder.includes(id))]
+    : columnIds;
+
+  const moveColumn = (columnId: string, offset: number) => {
+    const order = [...orderedColumnIds];
+    const index = order.indexOf(columnId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setColumnOrder(order);
+  };
+
+  const columnTitle = (columnId: string) =>
+    columnId === 'select' ? 'Selection' :
+    columnId === 'actions' ? 'Actions' :
+    columns.find(col => col.key === columnId)?.title || columnId;
+
+  const columnSettings = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4, minWidth: 220 }}>
+      {orderedColumnIds.map((columnId, index) => (
+        <div key={columnId} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <Checkbox
+            checked={columnVisibility[columnId] !== false}
+            onChange={(e) => setColumnVisibility(prev => ({ ...prev, [columnId]: e.target.checked }))}
+            style={{ flex: 1 }}
+          >
+            {columnTitle(columnId)}
+          </Checkbox>
+          <Button size="small" type="text" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => moveColumn(columnId, -1)} />
+          <Button size="small" type="text" icon={<ArrowDownOutlined />} disabled={index === orderedColumnIds.length - 1} onClick={() => moveColumn(columnId, 1)} />
+        </div>
+      ))}
+      <Button
+        size="small"
+        onClick={() => {
+          setColumnVisibility({});
+          setColumnOrder([]);
+          setColumnSizing({});
+        }}
+      >
+        Reset columns
+      </Button>
+    </div>
+  );
+
   // Generate form fields based on column metadata
   const generateFormFields = () => {
     return columns
@@ -1520,8 +1814,50 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
                   onChange={(value) => setActiveViewFilter(String(value))}
                 />
               )}
+              {savedViewsEnabled && (
+                <Space.Compact>
+                  <Select
+                    placeholder="Saved views"
+                    value={activeViewId}
+                    onChange={(value) => selectView(value ?? null)}
+                    allowClear={true}
+                    style={{ minWidth: 180 }}
+                    options={[
+                      ...(ownViews.length > 0 ? [{ label: 'My views', options: ownViews.map(viewOption) }] : []),
+                      ...(sharedViews.length > 0 ? [{ label: 'Shared', options: sharedViews.map(viewOption) }] : [])
+                    ]}
+                    notFoundContent="No saved views"
+                  />
+                  <Dropdown
+                    menu={{
+                      items: [
+                        { key: 'save', label: 'Save view as...' },
+                        ...(activeView?.isOwner ? [
+                          { key: 'update', label: `Update "${activeView.name}"` },
+                          { key: 'share', label: activeView.shared ? 'Stop sharing' : 'Share with tenant' }
+                        ] : []),
+                        ...(activeView ? [
+                          { key: 'default', label: activeView.isDefault ? 'Clear default view' : 'Set as my default' }
+                        ] : []),
+                        { key: 'reset', label: 'Reset to grid defaults' },
+                        ...(activeView?.isOwner ? [
+                          { type: 'divider' as const },
+                          { key: 'delete', label: 'Delete view', danger: true }
+                        ] : [])
+                      ],
+                      onClick: ({ key }) => handleViewAction(key)
+                    }}
+                    trigger={['click']}
+                  >
+                    <Button icon={<EllipsisOutlined />} />
+                  </Dropdown>
+                </Space.Compact>
+              )}
             </div>
             <div style={{ display: 'flex', gap: '8px' }}>
+              <Popover content={columnSettings} title="Columns" trigger="click" placement="bottomRight">
+                <Button icon={<SettingOutlined />}>Columns</Button>
+              </Popover>
               {(toolbar?.enableCreate || !hideCreateButton) && (
                 <Button type="primary" onClick={handleCreate}>
                   {toolbar?.createButtonText || 'Create New'}
@@ -1560,6 +1896,11 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
                   </Button>
                 </Popconfirm>
               )}
+              {toolbar?.enableLabels && selectedRows.length > 0 && (
+                <Button icon={<PrinterOutlined />} onClick={() => setLabelsOpen(true)}>
+                  {toolbar.labelsText || 'Print Labels'} ({selectedRows.length})
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -1569,8 +1910,25 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
           {table.getHeaderGroups().map((headerGroup: any) => (
                 <tr key={headerGroup.id}>
                   {headerGroup.headers.map((header: any) => (
-                    <th key={header.id} style={{ textAlign: 'left', padding: 8, background: 'hsl(var(--muted) / 0.2)', borderBottom: '1px solid hsl(var(--border))' }}>
+                    <th key={header.id} style={{ position: 'relative', textAlign: 'left', padding: 8, background: 'hsl(var(--muted) / 0.2)', borderBottom: '1px solid hsl(var(--border))', width: columnSizing[header.column.id] }}>
                       {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                      {header.column.getCanResize() && (
+                        <div
+                          onMouseDown={header.getResizeHandler()}
+                          onTouchStart={header.getResizeHandler()}
+                          onDoubleClick={() => header.column.resetSize()}
+                          style={{
+                            position: 'absolute',
+                            top: 0,
+                            right: 0,
+                            height: '100%',
+                            width: 5,
+                            cursor: 'col-resize',
+                            userSelect: 'none',
+                            background: header.column.getIsResizing() ? 'hsl(var(--primary))' : 'transparent'
+                          }}
+                        />
+                      )}
                     </th>
                   ))}
                 </tr>
@@ -1597,13 +1955,9 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
               value={table.getState().pagination.pageSize}
               onChange={(value) => table.setPageSize(Number(value))}
               style={{ width: 60 }}
-              options={[
-                { value: 5, label: '5' },
-                { value: 10, label: '10' },
-                { value: 15, label: '15' },
-                { value: 25, label: '25' },
-                { value: 50, label: '50' }
-              ]}
+              options={Array.from(new Set([...PAGE_SIZE_OPTIONS, pagination.pageSize]))
+                .sort((a, b) => a - b)
+                .map(size => ({ value: size, label: String(size) }))}
             />
           </div>
           <Button size="small" onClick={() => table.previousPage()} disabled={!table.getCanPreviousPage()}>Prev</Button>
@@ -1616,6 +1970,77 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
           </span>
         </div>
 
+        {/* Save View Modal */}
+        <Modal
+          title="Save view"
+          open={isSaveViewVisible}
+          onOk={handleSaveView}
+          onCancel={() => setIsSaveViewVisible(false)}
+          okText="Save"
+          destroyOnClose
+        >
+          <Form
+            form={saveViewForm}
+            layout="vertical"
+            preserve={false}
+            initialValues={activeView?.isOwner
+              ? { name: activeView.name, shared: activeView.shared, isDefault: activeView.isDefault }
+              : { name: '', shared: false, isDefault: false }}
+          >
+            <Form.Item
+              name="name"
+              label="Name"
+              extra="Saving under the name of one of your views overwrites it"
+              rules={[{ required: true, whitespace: true, message: 'Enter a view name' }, { max: 100 }]}
+            >
+              <Input autoFocus />
+            </Form.Item>
+            <Form.Item name="shared" valuePropName="checked" style={{ marginBottom: 8 }}>
+              <Checkbox>Share with my tenant</Checkbox>
+            </Form.Item>
+            <Form.Item name="isDefault" valuePropName="checked" style={{ marginBottom: 0 }}>
+              <Checkbox>Open this view by default</Checkbox>
+            </Form.Item>
+          </Form>
+        </Modal>
+
+        {/* Lifecycle Transition Modal */}
+        <Modal
+          title={pendingTransition?.transition.label}
+          open={!!pendingTransition}
+          onOk={handleTransitionSubmit}
+          onCancel={() => setPendingTransition(null)}
+          okText={pendingTransition?.transition.label}
+          destroyOnClose
+        >
+          {pendingTransition?.transition.confirmText && <p>{pendingTransition.transition.confirmText}</p>}
+          <Form form={transitionForm} layout="vertical" preserve={false}>
+            <Form.Item
+              name="comment"
+              label="Comment"
+              rules={[
+                {
+                  required: !!pendingTransition?.transition.requireComment,
+                  whitespace: true,
+                  message: 'Enter a comment'
+                }
+              ]}
+            >
+              <Input.TextArea rows={3} autoFocus />
+            </Form.Item>
+            {pendingTransition?.transition.requireSignature && (
+              <Form.Item
+                name="signature"
+                label="Signature"
+                extra="Type your full name to sign"
+                rules={[{ required: true, whitespace: true, message: 'Sign with your full name' }]}
+              >
+                <Input />
+              </Form.Item>
+            )}
+          </Form>
+        </Modal>
+
         {/* Dynamic Form Modal */}
         <Modal
           title={`${modalMode.charAt(0).toUpperCase() + modalMode.slice(1)} ${getModalTitle()}`}
@@ -1634,6 +2059,16 @@ const SGridSearchView: React.FC<SGridSearchViewProps> = ({
             {generateFormFields()}
           </Form>
         </Modal>
+
+        {toolbar?.enableLabels && (
+          <AssetLabelDialog
+            open={labelsOpen}
+            assets={data
+              .filter(row => selectedRows.includes(row._id || row.id))
+              .map(row => ({ ...row, id: row.id || row._id }))}
+            onClose={() => setLabelsOpen(false)}
+          />
+        )}
       </div>
     </BaseGadgetContainer>
   );
@@ -1676,11 +2111,18 @@ export default class SGridSearchGadget extends BaseGadget {
           enableBulkDelete: { type: 'boolean' },
           bulkDeleteText: { type: 'string' },
           bulkDeleteConfirmText: { type: 'string' },
+          enableLabels: { type: 'boolean' },
+          labelsText: { type: 'string' },
           enableExport: { type: 'boolean' },
           exportFileName: { type: 'string' },
-          exportFormats: { type: 'array', items: { type: 'string' } }
+          exportFormats: { type: 'array', items: { type: 'string' } },
+          enableSavedViews: { type: 'boolean' }
         }
       },
+      gridId: {
+        type: 'string',
+        description: 'Key for saved views; defaults to <workspace id>:<gadget id>'
+      },
       pagination: { type: 'object' },
       hideCreateButton: { type: 'boolean' },
       fieldMappings: {
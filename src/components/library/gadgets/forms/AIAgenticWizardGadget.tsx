@@ -23,6 +23,7 @@
 import { CheckCircleOutlined, RobotOutlined } from '@ant-design/icons';
 import { Alert, Button, Card, Progress, Space, Spin, Typography } from 'antd';
 import React, { Suspense } from 'react';
+import { getOpenAIConfig } from '../../../../utils/config';
 import { ValidationResult } from '../../core/base';
 import { WidgetRegistry } from '../../core/WidgetRegistry';
 import { BaseGadget, GadgetConfig, GadgetContext, GadgetMetadata, GadgetSchema, GadgetType } from '../base';
@@ -718,9 +719,7 @@ return (
         workflowId: section.workflowId || 'piping-inspection-workflow',
         agentPrompt: section.agentPrompt || section.aiConfig?.analysisPrompt
       },
-      openaiConfig: {
-        apiKey: process.env.REACT_APP_OPENAI_API_KEY || ''
-      }
+      openaiConfig: getOpenAIConfig()
     };
 return (
       <Suspense fallback={<div>Loading voice recorder widget...</div>}>
@@ -1,3 +1,5 @@
+import type { AssessmentConfig, DefaultValueRule } from '../../../../../utils/formAssessment';
+
 export interface InspectionType {
   label: string;
   value: string;
@@ -70,7 +72,7 @@ export interface AIAnalysisWizardConfig {
       title: string;
       description?: string;
       nextLabel?: string;
-      form?: { groups?: Array<{ name?: string; title?: string; id?: string; lgSpan?: number; fields: Array<{ id: string; label: string; type: 'text' | 'number' | 'date' | 'dropdown' | 'radio' | 'checkbox_group' | 'multi-select' | 'textarea' | 'file' | 'static_checklist' | 'signature' | 'select'; options?: Array<string | {label: string, value: any}>; required?: boolean; showWhen?: string | string[]; watchField?: string; showOnMatch?: boolean; lgSpan?: number; props?: Record<string, any>; optionsUrl?: string; dependsOn?: string; labelField?: string; valueField?: string; placeholder?: string; description?: string; defaultValue?: any; disabled?: boolean; readOnly?: boolean; calculated?: boolean; formula?: string; populateFromAsset?: string }>; }>; };
+      form?: { groups?: Array<{ name?: string; title?: string; id?: string; lgSpan?: number; fields: Array<{ id: string; label: string; type: 'text' | 'number' | 'date' | 'dropdown' | 'radio' | 'checkbox_group' | 'multi-select' | 'textarea' | 'file' | 'static_checklist' | 'signature' | 'select'; options?: Array<string | {label: string, value: any}>; required?: boolean; showWhen?: string | string[]; watchField?: string; showOnMatch?: boolean; lgSpan?: number; props?: Record<string, any>; optionsUrl?: string; dependsOn?: string; labelField?: string; valueField?: string; placeholder?: string; description?: string; defaultValue?: any; disabled?: boolean; readOnly?: boolean; calculated?: boolean; formula?: string; populateFromAsset?: string; defaultRules?: DefaultValueRule[] }>; }>; };
       voiceExtractionPrompt?: { modelConfig?: { model: string; temperature?: number; maxTokens?: number }; promptConfig?: { systemPrompt?: string; userPrompt?: string } };
       recommendationMappings?: Array<{ match: string; set: Array<{ fieldId: string; value: any }> }>;
       voice?: { enabled: boolean; maxDuration?: number; showVisualization?: boolean; transcriptionModel?: string };
@@ -95,6 +97,8 @@ export interface AIAnalysisWizardConfig {
   reportFooterText?: string;
   editModalTitle?: string;
   minimumRequirements?: { onsiteOnly?: string[]; prepopulation?: string[] };
+  /** Weighted score and outcome over the fields of all sections (see formAssessment) */
+  assessment?: AssessmentConfig;
   validation?: { required?: string[] };
   recordDataPopulation?: {
     enabled: boolean;
@@ -1,11 +1,12 @@
 import { Card, Col, Form, InputNumber, Row } from 'antd';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../../../../../../contexts/AuthContext';
 import {
     CheckboxWidget,
     ComboBoxWidget,
     DatePickerWidget,
     InputFieldWidget,
+    QRCodeScannerWidget,
     RadioWidget,
     SignatureWidget,
     TagsInputWidget,
@@ -21,6 +22,8 @@ interface FormSectionProps {
   updateSectionData: (sectionIndex: number, update: any) => void;
   getFormFieldValue: (fieldId: string) => any;
   disabledFields?: string[];
+  /** Notes shown under fields, by field id */
+  fieldNotes?: Record<string, string>;
 }
 
 export const FormSection: React.FC<FormSectionProps> = ({
@@ -29,11 +32,15 @@ export const FormSection: React.FC<FormSectionProps> = ({
   data,
   updateSectionData,
   getFormFieldValue,
-  disabledFields = []
+  disabledFields = [],
+  fieldNotes = {}
 }) => {
   const { user } = useAuth();
   const [fieldOptions, setFieldOptions] = useState<Record<string, Array<{label: string, value: any}>>>({});
   const [loadingOptions, setLoadingOptions] = useState<Record<string, boolean>>({});
+  // Latest form data, so changes made in the same tick (a scanned tag and its asset fields) build on each other
+  const formDataRef = useRef<any>(data?.formData || {});
+  formDataRef.current = data?.formData || {};
 
   // Simple field options loading
   const loadFieldOptions = async (fieldId: string, field: any) => {
@@ -166,7 +173,7 @@ export const FormSection: React.FC<FormSectionProps> = ({
   // Handle field changes and dependent field loading
   const handleFieldChange = (fieldId: string, newValue: any, field: any) => {
     // Update the field value
-    const currentFormData = data?.formData || {};
+    const currentFormData = formDataRef.current;
     const newFormData = { ...currentFormData, [fieldId]: newValue };
     
     // Add label fields for grid display
@@ -210,6 +217,7 @@ export const FormSection: React.FC<FormSectionProps> = ({
       }
     }
     
+    formDataRef.current = newFormData;
     updateSectionData(sectionIndex, { formData: newFormData });
     
     // Handle dependent fields - clear and reload
@@ -221,6 +229,7 @@ export const FormSection: React.FC<FormSectionProps> = ({
             // Clear dependent field value
             const clearedFormData = { ...newFormData };
             delete clearedFormData[depField.id];
+            formDataRef.current = clearedFormData;
             updateSectionData(sectionIndex, { formData: clearedFormData });
             
             // Clear and reload options
@@ -239,6 +248,28 @@ export const FormSection: React.FC<FormSectionProps> = ({
     });
   };
 
+  // Set several fields at once (a scanned label fills the asset hierarchy).
+  // Dependent values are kept; their options reload for the new parents.
+  const handleFieldsChange = (values: Record<string, any>) => {
+    const newFormData = { ...formDataRef.current, ...values };
+    formDataRef.current = newFormData;
+    updateSectionData(sectionIndex, { formData: newFormData });
+
+    const changed = Object.keys(values);
+    setFieldOptions(prev => {
+      const next = { ...prev };
+      section.form.groups?.forEach((group: any) => {
+        group.fields?.forEach((depField: any) => {
+          const dependencies = Array.isArray(depField.dependsOn) ? depField.dependsOn : (depField.dependsOn ? [depField.dependsOn] : []);
+          if (dependencies.some((depId: string) => changed.includes(depId))) {
+            delete next[depField.id];
+          }
+        });
+      });
+      return next;
+    });
+  };
+
   console.log(`[FormSection] About to render form for ${section.id}:`, {
     groupsToRender: section.form.groups.length,
     groupDetails: section.form.groups.map((g: any, i: number) => ({
@@ -310,6 +341,7 @@ export const FormSection: React.FC<FormSectionProps> = ({
                           <Form.Item 
                             label={field.label} 
                             required={field.required} 
+                            extra={fieldNotes[field.id]}
                             labelCol={{ span: 24 }} 
                             wrapperCol={{ span: 24 }}
                           >
@@ -321,6 +353,17 @@ export const FormSection: React.FC<FormSectionProps> = ({
                                 disabled={disabledFields.includes(field.id)}
                               />
                             )}
+                            {field.type === 'qr' && (
+                              <QRCodeScannerWidget
+                                id={field.id}
+                                value={value}
+                                onChange={updateField}
+                                onFieldsChange={handleFieldsChange}
+                                placeholder={field.placeholder}
+                                disabled={disabledFields.includes(field.id)}
+                                widgetProps={field.widgetProps}
+                              />
+                            )}
                             {field.type === 'number' && (
                               <InputNumber 
                                 value={value} 
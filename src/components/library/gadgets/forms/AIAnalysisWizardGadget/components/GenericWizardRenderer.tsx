@@ -3,6 +3,13 @@ import { useAuth } from '../../../../../../contexts/AuthContext';
 import { useWizardRecordSave } from '../../../../../../hooks/useWizardRecordSave';
 import { useOpenAI } from '../../../../../../hooks/useOpenAI';
 import { getOpenAIConfig } from '../../../../../../utils/config';
+import {
+  collectAutomaticUpdates,
+  describeAssessment,
+  evaluateAssessment,
+  resolveDefaultValue
+} from '../../../../../../utils/formAssessment';
+import type { MergeChoice } from '../../../../../../utils/recordMerge';
 import { BaseGadget } from '../../../base';
 import { AIAnalysisWizardGadget } from '../AIAnalysisWizardGadget';
 import type { AIAnalysisWizardConfig, AIAnalysisWizardData } from '../AIAnalysisWizardGadget.types';
@@ -10,10 +17,11 @@ import { getStepItems } from '../utils/iconUtils';
 import {
   convertRecordToWizardData,
   getStableRestoreIdFromUrl,
-  tryFetchRecordFromApi
+  loadRecordForRestore
 } from '../utils/restore';
 import { InputStep } from './InputStep';
 import { PDFStep } from './PDFStep';
+import { RecordMergeModal } from './RecordMergeModal';
 import { SectionStep } from './SectionStep';
 import { WizardFooter } from './WizardFooter';
 import { WizardHeader } from './WizardHeader';
@@ -640,8 +648,16 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
   });
   const hasInitialisedRef = useRef(false);
 
-  const { saveRecordProgress, setRecordId } = useWizardRecordSave();
-  const openAI = useOpenAI(getOpenAIConfig());
+  const {
+    saveRecordProgress,
+    setRecordId,
+    trackServerCopy,
+    saving: recordSaving,
+    conflict: saveConflict,
+    resolveConflict,
+    dismissConflict
+  } = useWizardRecordSave();
+  const openAI = useOpenAI({ ...getOpenAIConfig(), feature: 'wizard' });
 
   // Asset data population function
   const populateRecordData = useCallback(
@@ -756,8 +772,7 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
         
         if (restoreRecordId) {
           console.log('[Wizard] Loading existing record:', restoreRecordId);
-          const payload = await tryFetchRecordFromApi(restoreRecordId);
-          const recordPayload = payload?.data ? payload.data : payload;
+          const { record: recordPayload, fromDraft } = await loadRecordForRestore(restoreRecordId);
           
           const recordType = recordPayload?.type || recordPayload?.documentType;
           if (recordPayload && (!expectedPayloadType || recordType === expectedPayloadType)) {
@@ -782,6 +797,9 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
             setWizardData(wizardDataToSet);
             setCurrentStep(converted.currentStep || 0);
             setRecordId(recordPayload.id || recordPayload._id);
+            if (!fromDraft) {
+              trackServerCopy(recordPayload);
+            }
             
             // CRITICAL: Also update the gadget's internal state
             gadget.updateWizardData(wizardDataToSet);
@@ -815,7 +833,7 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
     };
 
     loadData();
-  }, [config, gadget, populateRecordData, setRecordId, expectedPayloadType]);
+  }, [config, gadget, populateRecordData, setRecordId, trackServerCopy, expectedPayloadType]);
 
   // Helper function to get form field value
   const getFormFieldValue = useCallback((fieldId: string): any => {
@@ -894,6 +912,71 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
            });
          }, [sections]);
 
+  // Section of every form field, for writing computed values back
+  const fieldSections = useMemo(() => {
+    const map = new Map<string, { sectionIndex: number; field: any }>();
+    sections.forEach((section: any, sectionIndex: number) => {
+      (section?.form?.groups || []).forEach((group: any) => {
+        (group?.fields || []).forEach((field: any) => {
+          if (field?.id && !map.has(field.id)) map.set(field.id, { sectionIndex, field });
+        });
+      });
+    });
+    return map;
+  }, [sections]);
+
+  // Values of all sections, with the same precedence as getFormFieldValue
+  const wizardFormData = useMemo(() => {
+    const merged: Record<string, any> = { ...((wizardData as any)?.globalFormData || {}) };
+    [...(wizardData.sections || [])].reverse().forEach((section: any) => {
+      Object.entries(section?.formData || {}).forEach(([fieldId, value]) => {
+        if (value !== undefined) merged[fieldId] = value;
+      });
+    });
+    return merged;
+  }, [wizardData]);
+
+  // Metadata-driven assessment (config "assessment") over the whole wizard
+  const assessmentConfig = config.assessment;
+  const assessmentResult = useMemo(
+    () => (assessmentConfig ? evaluateAssessment(assessmentConfig, wizardFormData) : null),
+    [assessmentConfig, wizardFormData]
+  );
+  const assessmentNotes = useMemo(() => {
+    const summary = describeAssessment(assessmentResult);
+    return summary && assessmentConfig?.outcomeField ? { [assessmentConfig.outcomeField]: summary } : {};
+  }, [assessmentConfig, assessmentResult]);
+
+  // Write the outcome, the score and rule-based defaults (defaultRules) to their sections
+  const autoAssessmentValuesRef = useRef<Record<string, any>>({});
+  useEffect(() => {
+    if (isLoading) return;
+
+    const values: Record<string, any> = {};
+    if (assessmentConfig && assessmentResult) {
+      if (assessmentConfig.outcomeField) values[assessmentConfig.outcomeField] = assessmentResult.outcome;
+      if (assessmentConfig.scoreField) values[assessmentConfig.scoreField] = assessmentResult.score;
+    }
+    const updates = collectAutomaticUpdates(values, wizardFormData, autoAssessmentValuesRef.current);
+
+    fieldSections.forEach(({ field }, fieldId) => {
+      if (!field.defaultRules || wizardFormData[fieldId] !== undefined || updates[fieldId] !== undefined) return;
+      const value = resolveDefaultValue(field.defaultRules, { ...wizardFormData, ...updates });
+      if (value !== undefined) updates[fieldId] = value;
+    });
+
+    const bySection = new Map<number, Record<string, any>>();
+    Object.entries(updates).forEach(([fieldId, value]) => {
+      const target = fieldSections.get(fieldId);
+      if (!target) return;
+      bySection.set(target.sectionIndex, { ...(bySection.get(target.sectionIndex) || {}), [fieldId]: value });
+    });
+    bySection.forEach((sectionValues, sectionIndex) => {
+      const formData = (wizardData.sections || [])[sectionIndex]?.formData || {};
+      updateSectionData(sectionIndex, { formData: { ...formData, ...sectionValues } });
+    });
+  }, [isLoading, assessmentConfig, assessmentResult, wizardFormData, fieldSections, wizardData.sections, updateSectionData]);
+
          // Navigation handlers
          const handleStepChange = useCallback((step: number) => {
            setCurrentStep(step);
@@ -1022,6 +1105,21 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
     return 'Unknown User';
   }, [user]);
 
+  // Save the merged record after a revision conflict and show the merged values
+  const handleResolveConflict = useCallback(async (choices: Record<string, MergeChoice>) => {
+    const resolved = await resolveConflict(choices);
+    const merged = resolved?.merged;
+    if (!merged?.wizardState) return;
+
+    const nextWizardData = {
+      ...wizardData,
+      sections: merged.wizardState.sections || wizardData.sections,
+      globalFormData: merged.globalFormData || (wizardData as any).globalFormData
+    } as any;
+    setWizardData(nextWizardData);
+    gadget.updateWizardData(nextWizardData);
+  }, [gadget, resolveConflict, wizardData]);
+
          // Step completion handler with loop prevention
          const handleStepComplete = useCallback(async () => {
            // Prevent multiple simultaneous executions
@@ -1708,6 +1806,7 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
               config={config}
               getFormFieldValue={getFormFieldValue}
               disabledFields={wizardData.disabledFields || []}
+              fieldNotes={assessmentNotes}
             />
           );
         })()}
@@ -1760,6 +1859,13 @@ export const GenericWizardRenderer: React.FC<GenericWizardRendererProps> = ({ ga
         handleStepComplete={handleStepComplete}
         wizardData={wizardData}
       />
+
+      <RecordMergeModal
+        conflict={saveConflict}
+        saving={recordSaving}
+        onResolve={handleResolveConflict}
+        onCancel={dismissConflict}
+      />
     </div>
   );
 };
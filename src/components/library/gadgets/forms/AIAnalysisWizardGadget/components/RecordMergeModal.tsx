@@ -0,0 +1,95 @@
+import { Alert, Modal, Radio, Table, Typography } from 'antd';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { RecordSaveConflict } from '../../../../../../hooks/useWizardRecordSave';
+import type { FieldConflict, MergeChoice } from '../../../../../../utils/recordMerge';
+
+const { Text } = Typography;
+
+interface RecordMergeModalProps {
+  conflict: RecordSaveConflict | null;
+  saving?: boolean;
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void;
+}
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null || value === '') return <Text type="secondary">(empty)</Text>;
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return <Text code>{JSON.stringify(value).slice(0, 120)}</Text>;
+  return String(value);
+};
+
+/**
+ * Field-by-field merge after a save was rejected because someone else changed
+ * the record: the user keeps their value, takes the server value or, for
+ * lists and grids, keeps both.
+ */
+export const RecordMergeModal: React.FC<RecordMergeModalProps> = ({ conflict, saving, onResolve, onCancel }) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const serverAuthor = conflict?.server?.last_updated_by || conflict?.server?.updated_by;
+  const columns = useMemo(() => [
+    {
+      title: 'Field',
+      dataIndex: 'label',
+      key: 'label',
+      render: (label: string, row: FieldConflict) => (
+        <>
+          <Text strong>{label}</Text>
+          {row.paths.length > 1 && <Text type="secondary" style={{ display: 'block', fontSize: 12 }}>{row.paths.length} places</Text>}
+        </>
+      )
+    },
+    { title: 'Your value', dataIndex: 'local', key: 'local', render: formatValue },
+    { title: 'Server value', dataIndex: 'server', key: 'server', render: formatValue },
+    {
+      title: 'Keep',
+      key: 'choice',
+      render: (_: unknown, row: FieldConflict) => (
+        <Radio.Group
+          size="small"
+          value={choices[row.key] || 'local'}
+          onChange={event => setChoices(prev => ({ ...prev, [row.key]: event.target.value }))}
+        >
+          <Radio.Button value="local">Mine</Radio.Button>
+          <Radio.Button value="server">Server</Radio.Button>
+          {row.combinable && <Radio.Button value="both">Both</Radio.Button>}
+        </Radio.Group>
+      )
+    }
+  ], [choices]);
+
+  return (
+    <Modal
+      open={!!conflict}
+      title="Resolve conflicting changes"
+      width={820}
+      okText="Save merged record"
+      confirmLoading={saving}
+      onOk={() => onResolve(choices)}
+      onCancel={onCancel}
+    >
+      <Alert
+        type="warning"
+        showIcon
+        style={{ marginBottom: 12 }}
+        message={`This record was changed${serverAuthor ? ` by ${serverAuthor}` : ''} after you opened it.`}
+        description={conflict?.conflicts.length
+          ? 'Choose which value to keep for each field below. Fields not listed keep your changes.'
+          : 'None of your fields differ from the server copy; saving keeps your changes.'}
+      />
+      <Table
+        size="small"
+        rowKey="key"
+        pagination={false}
+        scroll={{ y: 360 }}
+        dataSource={conflict?.conflicts || []}
+        columns={columns}
+      />
+    </Modal>
+  );
+};
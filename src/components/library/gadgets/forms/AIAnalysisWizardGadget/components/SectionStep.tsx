@@ -20,6 +20,8 @@ interface SectionStepProps {
   config: AIAnalysisWizardConfig;
   getFormFieldValue: (fieldId: string) => any;
   disabledFields?: string[];
+  /** Notes shown under form fields, by field id (e.g. the assessment score) */
+  fieldNotes?: Record<string, string>;
 }
 
 export const SectionStep: React.FC<SectionStepProps> = ({
@@ -31,10 +33,11 @@ export const SectionStep: React.FC<SectionStepProps> = ({
   openAI,
   config,
   getFormFieldValue,
-  disabledFields = []
+  disabledFields = [],
+  fieldNotes
 }) => {
   const data = (wizardData.sections || [])[sectionIndex] || {};
-  const openAIHook = useOpenAI(getOpenAIConfig());
+  const openAIHook = useOpenAI({ ...getOpenAIConfig(), feature: 'wizard' });
   const [populateLoading, setPopulateLoading] = useState(false);
   
   console.log('[SectionStep] Rendering section:', {
@@ -339,6 +342,7 @@ Only include fields that can be reasonably populated based on the context.`;
               updateSectionData={updateSectionData}
               getFormFieldValue={getFormFieldValue}
               disabledFields={disabledFields}
+              fieldNotes={fieldNotes}
             />
           )}
           
@@ -17,3 +17,6 @@ export { GridSection } from './GridSection';
 export { WizardHeader } from './WizardHeader';
 export { WizardSidebar } from './WizardSidebar';
 export { WizardFooter } from './WizardFooter';
+
+// Dialogs
+export { RecordMergeModal } from './RecordMergeModal';
@@ -1,4 +1,7 @@
 import type { AIAnalysisWizardConfig, AIAnalysisWizardData } from '../AIAnalysisWizardGadget.types';
+import { recordDraftKey } from '../../../../../../hooks/useWizardRecordSave';
+import { loadDraft } from '../../../../../../services/OfflineStore';
+import { isLocalId, syncQueue } from '../../../../../../services/SyncQueue';
 
 /** Determine a stable id from URL params if present. */
 export function getStableRestoreIdFromUrl(paramKeys: string[] = ['restoreId', 'id', 'planId', 'recordId', 'inspectionId']): string | null {
@@ -47,6 +50,24 @@ export async function tryFetchRecordFromApi(id: string): Promise<any | null> {
   }
 }
 
+/**
+ * Load a record for restore, preferring the offline draft while its changes
+ * are still queued (or the record only exists locally) and falling back to
+ * the draft when the API cannot be reached.
+ */
+export async function loadRecordForRestore(id: string): Promise<{ record: any | null; fromDraft: boolean }> {
+  const draft = await loadDraft(recordDraftKey(id)).catch(() => undefined);
+  if (draft && (isLocalId(id) || await syncQueue.shouldQueue(`/api/documents/${id}`))) {
+    return { record: draft.data, fromDraft: true };
+  }
+
+  const payload = await tryFetchRecordFromApi(id);
+  if (payload) {
+    return { record: payload?.data ? payload.data : payload, fromDraft: false };
+  }
+  return { record: draft?.data ?? null, fromDraft: !!draft };
+}
+
 /** Convert record data to wizard data format */
 export function convertRecordToWizardData(recordData: any): Partial<AIAnalysisWizardData> {
   console.log('[convertInspectionToWizardData] Starting conversion with:', {
@@ -59,6 +59,7 @@ export function buildStepsFromFlat(raw: any): AIAnalysisWizardConfig['steps'] {
         placeholder: f.placeholder,
         description: f.description,
         defaultValue: f.defaultValue,
+        defaultRules: f.defaultRules,
         disabled: f.disabled,
         readOnly: f.readOnly,
         props: f.props,
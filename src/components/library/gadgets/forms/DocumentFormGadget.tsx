@@ -143,7 +143,12 @@ class DocumentFormGadget extends BaseGadget {
       'FormSectionWidget',
       'FormStepWidget',
       'FormTabsWidget'
-    ]
+    ],
+    dataFlow: {
+      inputs: [],
+      outputs: ['thickness-analysis'],
+      transformations: []
+    }
   };
 
   /**
@@ -509,7 +514,7 @@ class DocumentFormGadget extends BaseGadget {
     // passing a reference to the gadget class itself and the initial props.
     // Import FormRenderer dynamically to avoid circular dependency
     const { FormRenderer } = require('./FormRenderer');
-    return React.createElement(FormRenderer, { gadget: this, initialProps: props });
+    return React.createElement(FormRenderer, { gadget: this, initialProps: props, dataFlow: context?.dataFlow });
   }
 
   /**
@@ -16,9 +16,35 @@ import {
   Typography,
 } from "antd";
 import React from "react";
+import { httpClient } from "../../../../services/HttpClient";
+import { deleteDraft } from "../../../../services/OfflineStore";
+import { resolveUpdatedAt } from "../../../../services/SyncQueue";
 import { commercialFormulaCalculator } from "../../../../utils/CommercialFormulaCalculator";
+import {
+  AssessmentConfig,
+  collectAutomaticUpdates,
+  DefaultValueRule,
+  describeAssessment,
+  evaluateAssessment,
+  resolveDefaultValue,
+} from "../../../../utils/formAssessment";
+import { ReferenceDataSet } from "../../../../utils/formula";
+import {
+  buildRuleDependencies,
+  FormRule,
+  isFieldReadOnly,
+  isFieldRequired,
+  isFormItemVisible,
+} from "../../../../utils/formRules";
+import {
+  analyzeThickness,
+  getThicknessOutputValues,
+  ThicknessAnalysisConfig,
+} from "../../../../utils/thicknessAnalysis";
 import { WizardUtils } from "../../../../utils/WizardUtils";
+import type { GadgetDataFlow } from "../../core/DataFlowBus";
 import { AIChatbotWidget } from "../../widgets/input/AIChatbotWidget";
+import { signatureDraftKey } from "../../widgets/input/SignatureWidget";
 import { BaseGadget } from "../base";
 import DocumentFormGadget from "./DocumentFormGadget";
 import { getGroupIcon, getSectionIcon } from "./iconUtils";
@@ -44,6 +70,7 @@ interface FormRendererProps {
   initialProps: any;
   onFormDataChange?: (data: FormData) => void;
   fitContent?: boolean; // When true, avoids fixed viewport height and scrolls with parent
+  dataFlow?: GadgetDataFlow;
 }
 
 // Interface for section metadata response
@@ -71,10 +98,16 @@ interface SectionMetadataResponse {
     watchField?: string;
     showWhen?: any;
     showOnMatch?: boolean;
+    visibleWhen?: FormRule;
+    requiredWhen?: FormRule;
+    readOnlyWhen?: FormRule;
+    defaultRules?: DefaultValueRule[];
     calculated?: boolean;
     formula?: string;
+    unit?: string;
     disabled?: boolean;
     props?: Record<string, any>;
+    widgetProps?: Record<string, any>;
   }>;
   api510Groups?: Array<{
     id: string;
@@ -90,6 +123,7 @@ interface SectionMetadataResponse {
     watchField?: string;
     showWhen?: any;
     showOnMatch?: boolean;
+    visibleWhen?: FormRule;
   }>;
 }
 
@@ -126,6 +160,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   initialProps,
   onFormDataChange,
   fitContent,
+  dataFlow,
 }) => {
   const mode = (gadget.config as any).mode;
 
@@ -145,6 +180,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   const [activeSection, setActiveSection] = React.useState<string | null>(null);
   const [formData, setFormData] = React.useState<FormData>({});
   const [originalData, setOriginalData] = React.useState<FormData>({});
+  // Latest form data for validation run from debounced/stable callbacks
+  const formDataRef = React.useRef<FormData>(formData);
+  formDataRef.current = formData;
 
   // Broadcast form data changes to parent when requested
   // Debounce broadcasts to avoid flooding parent with updates
@@ -309,6 +347,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               watchField: group.watchField,
               showWhen: group.showWhen,
               showOnMatch: group.showOnMatch,
+              visibleWhen: group.visibleWhen,
             };
 
             // Debug: Log conditional properties for groups
@@ -349,10 +388,16 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                   watchField: field.watchField,
                   showWhen: field.showWhen,
                   showOnMatch: field.showOnMatch,
+                  visibleWhen: field.visibleWhen,
+                  requiredWhen: field.requiredWhen,
+                  readOnlyWhen: field.readOnlyWhen,
+                  defaultRules: field.defaultRules,
                   calculated: field.calculated,
                   formula: field.formula,
+                  unit: field.unit,
                   disabled: field.disabled,
                   props: field.props,
+                  widgetProps: field.widgetProps,
                 };
 
                 // Initialize group fields mapping
@@ -390,6 +435,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                 watchField: group.watchField,
                 showWhen: group.showWhen,
                 showOnMatch: group.showOnMatch,
+                visibleWhen: group.visibleWhen,
               };
 
               // Initialize section groups mapping
@@ -418,10 +464,16 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                 watchField: field.watchField,
                 showWhen: field.showWhen,
                 showOnMatch: field.showOnMatch,
+                visibleWhen: field.visibleWhen,
+                requiredWhen: field.requiredWhen,
+                readOnlyWhen: field.readOnlyWhen,
+                defaultRules: field.defaultRules,
                 calculated: field.calculated,
                 formula: field.formula,
+                unit: field.unit,
                 disabled: field.disabled,
                 props: field.props,
+                widgetProps: field.widgetProps,
               };
 
               // Initialize group fields mapping
@@ -452,6 +504,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                 watchField: item.watchField,
                 showWhen: item.showWhen,
                 showOnMatch: item.showOnMatch,
+                visibleWhen: item.visibleWhen,
               };
 
               // Debug: Log conditional properties for groups
@@ -490,10 +543,16 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                 watchField: item.watchField,
                 showWhen: item.showWhen,
                 showOnMatch: item.showOnMatch,
+                visibleWhen: item.visibleWhen,
+                requiredWhen: item.requiredWhen,
+                readOnlyWhen: item.readOnlyWhen,
+                defaultRules: item.defaultRules,
                 calculated: item.calculated,
                 formula: item.formula,
+                unit: item.unit,
                 disabled: item.disabled,
                 props: item.props,
+                widgetProps: item.widgetProps,
               };
 
               // Initialize group fields mapping
@@ -771,16 +830,98 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     [gadget]
   );
 
+  // Signatures drawn offline are kept per form and record until the form is saved
+  const signatureDraftScope = `${
+    (gadget.config as any)?.documentType || gadget.metadata.id
+  }:${formData.id || "new"}`;
+
+  // Units declared in field metadata, so formulas can convert between them
+  const fieldUnits = React.useMemo(() => {
+    const units: Record<string, string> = {};
+    Object.entries(fieldConfigs).forEach(([fieldPath, config]) => {
+      if (config.unit) {
+        units[fieldPath] = config.unit;
+      }
+    });
+    return units;
+  }, [fieldConfigs]);
+
+  // Reference data lists looked up by calculated fields (VLOOKUP, XLOOKUP, INTERPOLATE)
+  const referenceListNames = React.useMemo(() => {
+    const names = new Set<string>();
+    Object.values(fieldConfigs).forEach((config) => {
+      if (config.calculated && config.formula) {
+        commercialFormulaCalculator
+          .getReferenceLists(config.formula)
+          .forEach((name) => names.add(name));
+      }
+    });
+    return Array.from(names).sort();
+  }, [fieldConfigs]);
+
+  const [referenceData, setReferenceData] = React.useState<ReferenceDataSet>(
+    {}
+  );
+
+  React.useEffect(() => {
+    const missing = referenceListNames.filter(
+      (name) => !(name in referenceData)
+    );
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map(async (name) => {
+        try {
+          const response = await BaseGadget.makeAuthenticatedFetch(
+            `/api/reference-data/list-options/${encodeURIComponent(name)}`
+          );
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const result = await response.json();
+          return [name, Array.isArray(result.data) ? result.data : []] as const;
+        } catch (error) {
+          console.warn(
+            `[FormRenderer] Failed to load reference list "${name}" for formulas:`,
+            error
+          );
+          return null;
+        }
+      })
+    ).then((lists) => {
+      if (cancelled) return;
+      const loaded = lists.filter(
+        (list): list is readonly [string, any[]] => list !== null
+      );
+      if (loaded.length > 0) {
+        setReferenceData((prev) => ({
+          ...prev,
+          ...Object.fromEntries(loaded),
+        }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [referenceListNames, referenceData]);
+
   // Calculate formula value for calculated fields
+  // Values are normally already in formData (kept current by the formula dependency graph);
+  // evaluate directly only until the first recomputation pass has run
   const calculateFormulaValue = React.useCallback(
     (fieldPath: string, config: FieldConfig): number => {
       if (!config.formula) return 0;
 
-      // Formula evaluation
+      if (typeof formData[fieldPath] === "number") {
+        return formData[fieldPath];
+      }
 
       const result = commercialFormulaCalculator.evaluateWithContext(
         config.formula,
-        { formData }
+        { formData, fieldUnits, referenceData },
+        config.unit
       );
 
       // Convert result to number, handling different types
@@ -795,10 +936,10 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         return 0;
       }
     },
-    [formData]
+    [formData, fieldUnits, referenceData]
   );
 
-  // Smart default value logic based on previous selections
+  // Default values from field metadata (defaultRules, then defaultValue)
   const calculateSmartDefaults = React.useCallback(
     (
       fieldPath: string,
@@ -810,587 +951,11 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         return undefined;
       }
 
-      // Smart defaults based on field path and other field values
-      switch (fieldPath) {
-        case "confined-space-required":
-          // If inspection type is internal, likely needs confined space
-          if (currentFormData["inspection-type"] === "internal") {
-            return "yes";
-          }
-          break;
-
-        case "lockout-tagout-required":
-          // If internal inspection or combined, likely needs LOTO
-          if (
-            ["internal", "combined"].includes(
-              currentFormData["inspection-type"]
-            )
-          ) {
-            return "yes";
-          }
-          break;
-
-        case "ventilation-required":
-          // If confined space entry is required, likely needs ventilation
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "hot-work-permit":
-          // If using equipment that could create sparks
-          const equipmentUsed = currentFormData["equipment-used"] || [];
-          if (
-            Array.isArray(equipmentUsed) &&
-            equipmentUsed.some((eq) =>
-              ["mt-equipment", "pt-kit", "rt-equipment"].includes(eq)
-            )
-          ) {
-            return "yes";
-          }
-          break;
-
-        case "confined-space-permit":
-          // If confined space entry is required, permit is likely needed
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "access-method":
-          // Smart default based on inspection type
-          if (currentFormData["inspection-type"] === "external") {
-            return "external";
-          } else if (currentFormData["inspection-type"] === "internal") {
-            return "manhole";
-          }
-          break;
-
-        case "atmosphere-testing":
-          // If confined space entry, atmosphere testing is required
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "isolation-verified":
-          // If internal inspection, isolation is likely required
-          if (
-            ["internal", "combined"].includes(
-              currentFormData["inspection-type"]
-            )
-          ) {
-            return "yes";
-          }
-          break;
-
-        case "ventilation-verified":
-          // If ventilation is required, verification is needed
-          if (currentFormData["ventilation-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "communication-system":
-          // If confined space entry, communication is required
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "rescue-equipment-available":
-          // If confined space entry, rescue equipment is required
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "rescue-team-available":
-          // If confined space entry, rescue team is required
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "safety-briefing-completed":
-          // Safety briefing should always be completed
-          return "yes";
-
-        case "pre-inspection-approval":
-          // Default to approved if all safety checks pass
-          const safetyChecks = [
-            currentFormData["atmosphere-testing"],
-            currentFormData["isolation-verified"],
-            currentFormData["communication-system"],
-            currentFormData["rescue-equipment-available"],
-          ];
-          if (
-            safetyChecks.every(
-              (check) => check === "yes" || check === "not-required"
-            )
-          ) {
-            return "approved";
-          }
-          break;
-
-        // New Step 2 smart defaults
-        case "ppe-available":
-          // If PPE is required in Step 1, default to checking availability
-          if (
-            currentFormData["ppe-required"] &&
-            Array.isArray(currentFormData["ppe-required"]) &&
-            currentFormData["ppe-required"].length > 0
-          ) {
-            return "yes";
-          }
-          break;
-
-        case "ppe-being-worn":
-          // If PPE is available, likely being worn
-          if (currentFormData["ppe-available"] === "yes") {
-            return "yes";
-          }
-          break;
-
-        case "work-area-illumination":
-          // Default to yes for most inspections
-          return "yes";
-
-        case "work-area-ventilation":
-          // If ventilation is required, work area should be ventilated
-          if (currentFormData["ventilation-required"] === "yes") {
-            return "yes";
-          }
-          return "yes";
-
-        case "work-area-cleanliness":
-          // Default to yes for most inspections
-          return "yes";
-
-        case "work-area-barriers":
-          // If confined space entry, barriers likely required
-          if (currentFormData["confined-space-required"] === "yes") {
-            return "yes";
-          }
-          return "not-required";
-
-        case "tools-inspected":
-          // Default to yes for safety
-          return "yes";
-
-        case "electrical-equipment-safe":
-          // If using electrical equipment, should be safe
-          const electricalEquipment = currentFormData["equipment-used"] || [];
-          if (
-            Array.isArray(electricalEquipment) &&
-            electricalEquipment.some((eq) =>
-              [
-                "ut-gauge",
-                "digital-camera",
-                "thermal-camera",
-                "vibration-analyzer",
-              ].includes(eq)
-            )
-          ) {
-            return "yes";
-          }
-          return "not-required";
-
-        case "all-safety-requirements-met":
-          // Check if all critical safety requirements are met
-          const criticalSafetyChecks = [
-            currentFormData["atmosphere-testing"],
-            currentFormData["isolation-verified"],
-            currentFormData["communication-system"],
-            currentFormData["rescue-equipment-available"],
-            currentFormData["ppe-available"],
-            currentFormData["work-area-illumination"],
-            currentFormData["work-area-ventilation"],
-            currentFormData["tools-inspected"],
-          ];
-          if (
-            criticalSafetyChecks.every(
-              (check) => check === "yes" || check === "not-required"
-            )
-          ) {
-            return "yes";
-          }
-          break;
-
-        case "safety-issues-resolved":
-          // If all requirements met, issues should be resolved
-          if (currentFormData["all-safety-requirements-met"] === "yes") {
-            return "yes";
-          }
-          return "not-applicable";
-
-        // Step 3 smart defaults
-        case "inspection-methodology":
-          // Default based on inspection type
-          if (currentFormData["inspection-type"] === "external") {
-            return "visual";
-          } else if (currentFormData["inspection-type"] === "internal") {
-            return "combined";
-          }
-          break;
-
-        case "inspection-coverage":
-          // Default to representative sample for most inspections
-          return "representative";
-
-        case "shell-inspection":
-          // Most inspections include shell inspection
-          return "not-started";
-
-        case "head-inspection":
-          // Most inspections include head inspection
-          return "not-started";
-
-        case "nozzle-inspection":
-          // Most inspections include nozzle inspection
-          return "not-started";
-
-        case "support-inspection":
-          // Support inspection is often required
-          return "not-started";
-
-        case "photographs-taken":
-          // Default to yes for documentation
-          return "yes";
-
-        case "sketches-prepared":
-          // Default to yes for documentation
-          return "yes";
-
-        // Step 4 smart defaults
-        case "overall-assessment":
-          // Default based on defects found
-          if (currentFormData["defects-found"] === "no") {
-            return "acceptable";
-          } else if (currentFormData["defects-found"] === "minor") {
-            return "acceptable-monitoring";
-          } else if (currentFormData["defects-found"] === "yes") {
-            return "conditional";
-          }
-          break;
-
-        case "critical-findings":
-          // Default based on defect severity
-          if (currentFormData["defect-severity"] === "critical") {
-            return "yes";
-          }
-          return "no";
-
-        case "next-inspection-interval":
-          // Default based on overall assessment
-          if (currentFormData["overall-assessment"] === "acceptable") {
-            return "5-years";
-          } else if (
-            currentFormData["overall-assessment"] === "acceptable-monitoring"
-          ) {
-            return "2-years";
-          } else if (currentFormData["overall-assessment"] === "conditional") {
-            return "1-year";
-          } else if (
-            currentFormData["overall-assessment"] === "repair-required"
-          ) {
-            return "as-required";
-          }
-          break;
-
-        case "repair-requirements":
-          // Default based on defects found
-          if (currentFormData["defects-found"] === "yes") {
-            return "yes";
-          } else if (currentFormData["defects-found"] === "minor") {
-            return "minor";
-          }
-          return "no";
-
-        case "api-510-compliance":
-          // Default based on overall assessment
-          if (
-            currentFormData["overall-assessment"] === "acceptable" ||
-            currentFormData["overall-assessment"] === "acceptable-monitoring"
-          ) {
-            return "compliant";
-          } else if (currentFormData["overall-assessment"] === "conditional") {
-            return "conditional";
-          } else {
-            return "non-compliant";
-          }
-
-        case "inspection-report-prepared":
-          // Default to yes for completed inspections
-          return "yes";
-
-        case "inspection-completed":
-          // Default to yes if we've reached this step
-          return "yes";
-
-        case "return-to-service-approved":
-          // Default based on overall assessment
-          if (currentFormData["overall-assessment"] === "acceptable") {
-            return "approved";
-          } else if (
-            currentFormData["overall-assessment"] === "acceptable-monitoring" ||
-            currentFormData["overall-assessment"] === "conditional"
-          ) {
-            return "conditional";
-          } else {
-            return "not-approved";
-          }
-
-        case "inspection-date-completed":
-          // Default to today's date
-          return new Date().toISOString().split("T")[0];
-
-        // Step 5 smart defaults
-        case "photographs-uploaded":
-          // Default based on photographs taken in Step 3
-          if (currentFormData["photographs-taken"] === "yes") {
-            return "yes";
-          } else if (currentFormData["photographs-taken"] === "partial") {
-            return "in-progress";
-          }
-          return "no";
-
-        case "drawings-prepared":
-          // Default based on sketches prepared in Step 3
-          if (currentFormData["sketches-prepared"] === "yes") {
-            return "yes";
-          } else if (currentFormData["sketches-prepared"] === "not-required") {
-            return "not-required";
-          }
-          return "no";
-
-        case "supporting-documents-uploaded":
-          // Default to yes for comprehensive documentation
-          return "yes";
-
-        case "inspector-signature-date":
-          // Default to today's date
-          return new Date().toISOString().split("T")[0];
-
-        case "supervisor-approval-required":
-          // Default based on critical findings
-          if (
-            currentFormData["critical-findings"] === "yes" ||
-            currentFormData["overall-assessment"] === "repair-required" ||
-            currentFormData["overall-assessment"] === "replacement-required"
-          ) {
-            return "yes";
-          }
-          return "not-applicable";
-
-        case "client-approval-required":
-          // Default based on overall assessment
-          if (
-            currentFormData["overall-assessment"] === "conditional" ||
-            currentFormData["overall-assessment"] === "repair-required" ||
-            currentFormData["overall-assessment"] === "replacement-required"
-          ) {
-            return "yes";
-          }
-          return "not-applicable";
-
-        case "report-format":
-          // Default to PDF for professional reports
-          return "pdf";
-
-        case "report-delivery-method":
-          // Default to email for standard delivery
-          return "email";
-
-        case "report-urgency":
-          // Default based on overall assessment
-          if (currentFormData["overall-assessment"] === "immediate-shutdown") {
-            return "critical";
-          } else if (
-            currentFormData["overall-assessment"] === "repair-required" ||
-            currentFormData["overall-assessment"] === "replacement-required"
-          ) {
-            return "urgent";
-          } else if (currentFormData["overall-assessment"] === "conditional") {
-            return "standard";
-          }
-          return "routine";
-
-        case "data-verification-complete":
-          // Default to yes if we've reached this step
-          return "yes";
-
-        case "quality-review-complete":
-          // Default to yes if we've reached this step
-          return "yes";
-
-        case "compliance-check-complete":
-          // Default to yes if we've reached this step
-          return "yes";
-
-        case "final-approval-given":
-          // Default based on all verification steps
-          const verificationSteps = [
-            currentFormData["data-verification-complete"],
-            currentFormData["quality-review-complete"],
-            currentFormData["compliance-check-complete"],
-          ];
-          if (verificationSteps.every((step) => step === "yes")) {
-            return "yes";
-          } else if (verificationSteps.some((step) => step === "in-progress")) {
-            return "pending";
-          }
-          return "no";
-
-        case "submission-status":
-          // Default based on final approval
-          if (currentFormData["final-approval-given"] === "yes") {
-            return "ready-review";
-          } else if (currentFormData["final-approval-given"] === "pending") {
-            return "draft";
-          }
-          return "draft";
-
-        case "submission-date":
-          // Default to today's date when submitted
-          if (
-            currentFormData["submission-status"] === "submitted" ||
-            currentFormData["submission-status"] === "completed"
-          ) {
-            return new Date().toISOString().split("T")[0];
-          }
-          break;
-
-        // Equipment calibration defaults based on selected equipment
-        case "ut-gauge-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("ut-gauge")
-          ) {
-            // Set to 6 months from today
-            const date = new Date();
-            date.setMonth(date.getMonth() + 6);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "mt-equipment-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("mt-equipment")
-          ) {
-            // Set to 1 year from today
-            const date = new Date();
-            date.setFullYear(date.getFullYear() + 1);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "pt-kit-expiry":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("pt-kit")
-          ) {
-            // Set to 2 years from today
-            const date = new Date();
-            date.setFullYear(date.getFullYear() + 2);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "rt-equipment-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("rt-equipment")
-          ) {
-            // Set to 1 year from today
-            const date = new Date();
-            date.setFullYear(date.getFullYear() + 1);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "camera-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("digital-camera")
-          ) {
-            // Set to 1 year from today
-            const date = new Date();
-            date.setFullYear(date.getFullYear() + 1);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "measuring-tools-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].some((eq) =>
-              ["measuring-tape", "caliper"].includes(eq)
-            )
-          ) {
-            // Set to 6 months from today
-            const date = new Date();
-            date.setMonth(date.getMonth() + 6);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "thermal-camera-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("thermal-camera")
-          ) {
-            // Set to 1 year from today
-            const date = new Date();
-            date.setFullYear(date.getFullYear() + 1);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        case "vibration-analyzer-calibration":
-          if (
-            Array.isArray(currentFormData["equipment-used"]) &&
-            currentFormData["equipment-used"].includes("vibration-analyzer")
-          ) {
-            // Set to 1 year from today
-            const date = new Date();
-            date.setFullYear(date.getFullYear() + 1);
-            return date.toISOString().split("T")[0];
-          }
-          break;
-
-        // Environmental condition defaults
-        case "temperature":
-          // Default to room temperature if not specified
-          return 72;
-
-        case "humidity":
-          // Default to moderate humidity
-          return 50;
-
-        case "lighting-conditions":
-          // Default to mixed lighting
-          return "mixed";
-
-        case "weather-conditions":
-          // Default to indoor
-          return "indoor";
-
-        case "visibility":
-          // Default to good visibility
-          return "good";
-
-        case "air-quality":
-          // Default to good air quality
-          return "good";
-
-        default:
-          // Return static default value if configured
-          return config.defaultValue;
-      }
-
-      return config.defaultValue;
+      const ruleDefault = resolveDefaultValue(
+        config.defaultRules,
+        currentFormData
+      );
+      return ruleDefault !== undefined ? ruleDefault : config.defaultValue;
     },
     []
   );
@@ -1419,6 +984,144 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     }
   }, [formData, fieldConfigs, calculateSmartDefaults]);
 
+  // Metadata-driven assessment (gadget config "assessment"): weighted score and outcome
+  const assessmentConfig: AssessmentConfig | undefined =
+    gadget.config.assessment;
+  const assessmentResult = React.useMemo(
+    () =>
+      assessmentConfig ? evaluateAssessment(assessmentConfig, formData) : null,
+    [assessmentConfig, formData]
+  );
+
+  // Write outcome and score to their fields until the user picks another value
+  const autoAssessmentValuesRef = React.useRef<Record<string, any>>({});
+  React.useEffect(() => {
+    if (!assessmentConfig || !assessmentResult) return;
+
+    const values: Record<string, any> = {};
+    if (assessmentConfig.outcomeField) {
+      values[assessmentConfig.outcomeField] = assessmentResult.outcome;
+    }
+    if (assessmentConfig.scoreField) {
+      values[assessmentConfig.scoreField] = assessmentResult.score;
+    }
+    const updates = collectAutomaticUpdates(
+      values,
+      formData,
+      autoAssessmentValuesRef.current
+    );
+
+    if (Object.keys(updates).length > 0) {
+      setFormData((prev) => ({ ...prev, ...updates }));
+    }
+  }, [assessmentConfig, assessmentResult, formData]);
+
+  // Score summary shown under the outcome field
+  const renderAssessmentSummary = (fieldPath: string): React.ReactNode => {
+    const summary =
+      fieldPath === assessmentConfig?.outcomeField
+        ? describeAssessment(assessmentResult)
+        : null;
+    return summary ? (
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        {summary}
+      </Text>
+    ) : undefined;
+  };
+
+  // Metadata-driven thickness analysis (gadget config "thicknessAnalysis"): rates and remaining life from TML readings
+  const thicknessConfig: ThicknessAnalysisConfig | undefined =
+    gadget.config.thicknessAnalysis;
+  const thicknessReadings = thicknessConfig
+    ? formData[thicknessConfig.readingsField]
+    : undefined;
+  const requiredThicknessValue = thicknessConfig?.requiredThicknessField
+    ? formData[thicknessConfig.requiredThicknessField]
+    : undefined;
+  const thicknessResult = React.useMemo(() => {
+    if (
+      !thicknessConfig ||
+      !Array.isArray(thicknessReadings) ||
+      thicknessReadings.length === 0
+    ) {
+      return null;
+    }
+    const requiredThickness =
+      requiredThicknessValue === undefined ||
+      requiredThicknessValue === null ||
+      requiredThicknessValue === "" ||
+      isNaN(Number(requiredThicknessValue))
+        ? thicknessConfig.requiredThickness
+        : Number(requiredThicknessValue);
+    return analyzeThickness(thicknessReadings, {
+      ...thicknessConfig,
+      requiredThickness,
+    });
+  }, [thicknessConfig, thicknessReadings, requiredThicknessValue]);
+
+  // Write rates, remaining life and the next inspection date to their fields
+  const autoThicknessValuesRef = React.useRef<Record<string, any>>({});
+  React.useEffect(() => {
+    if (!thicknessConfig || !thicknessResult) return;
+
+    const updates = collectAutomaticUpdates(
+      getThicknessOutputValues(thicknessConfig, thicknessResult),
+      formData,
+      autoThicknessValuesRef.current
+    );
+    if (Object.keys(updates).length > 0) {
+      setFormData((prev) => ({ ...prev, ...updates }));
+    }
+  }, [thicknessConfig, thicknessResult, formData]);
+
+  // Connected charts receive the analysis ("trend" and "tmls" rows)
+  React.useEffect(() => {
+    if (thicknessResult) {
+      dataFlow?.emit("thickness-analysis", thicknessResult);
+    }
+  }, [dataFlow, thicknessResult]);
+
+  // Governing TML and flagged readings shown under the readings field
+  const renderThicknessSummary = (fieldPath: string): React.ReactNode => {
+    if (
+      !thicknessResult ||
+      fieldPath !== thicknessConfig?.readingsField ||
+      !thicknessResult.governingTml
+    ) {
+      return undefined;
+    }
+
+    const rate = thicknessResult.corrosionRate;
+    const rateText =
+      rate === null
+        ? "rate unknown"
+        : thicknessConfig.rateUnit === "mpy"
+        ? `${Math.round(rate * 100000) / 100} mpy`
+        : `${rate}/yr`;
+    return (
+      <Space direction="vertical" size={0}>
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          {`Governing ${thicknessResult.governingTml.tmlId} · ${rateText}`}
+          {thicknessResult.remainingLife !== null
+            ? ` · remaining life ${thicknessResult.remainingLife} years`
+            : ""}
+          {thicknessResult.nextInspectionDate
+            ? ` · next inspection ${thicknessResult.nextInspectionDate}`
+            : ""}
+        </Text>
+        {thicknessResult.flags.map((flag) => (
+          <Text
+            key={`${flag.tmlId}-${flag.date}-${flag.reason}`}
+            type="warning"
+            style={{ fontSize: 12 }}
+          >
+            {flag.message}
+          </Text>
+        ))}
+      </Space>
+    );
+  };
+
   // Track which fields are currently loading and which have been loaded
   const [loadingFields, setLoadingFields] = React.useState<Set<string>>(
     new Set()
@@ -2158,9 +1861,24 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     return formData;
   }, [mode, wizardSteps, currentStep, formData]);
 
+  // Dependency graph of calculated fields: lets us re-evaluate only the formulas
+  // affected by an edit, in topological order, and surfaces circular references
+  const formulaGraph = React.useMemo(() => {
+    const formulas: Record<string, string> = {};
+    Object.entries(fieldConfigs).forEach(([fieldPath, config]) => {
+      if (config.calculated && config.formula) {
+        formulas[fieldPath] = config.formula;
+      }
+    });
+    return commercialFormulaCalculator.createDependencyGraph(formulas);
+  }, [fieldConfigs]);
+
   // Update calculated fields when formData changes (but not when we're already updating)
   // Debounced to prevent excessive calculations
   const calculatedFieldsTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
+  const lastCalculatedDataRef = React.useRef<FormData | null>(null);
+  const lastFormulaGraphRef = React.useRef(formulaGraph);
+  const lastReferenceDataRef = React.useRef(referenceData);
 
   React.useEffect(() => {
     if (isUpdatingCalculatedFields.current) {
@@ -2175,36 +1893,45 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
     // Debounce calculated field updates to prevent excessive calculations
     calculatedFieldsTimeoutRef.current = setTimeout(() => {
-      if (Object.keys(fieldConfigs).length > 0) {
-        let hasChanges = false;
-        const updatedFormData = { ...formData };
-
-        Object.entries(fieldConfigs).forEach(([fieldPath, config]) => {
-          if (config.calculated && config.formula) {
-            // Calculate formula value inline to avoid dependency issues
-            const result = commercialFormulaCalculator.evaluateWithContext(
-              config.formula,
-              { formData }
-            );
-            const calculatedValue =
-              typeof result.value === "number"
-                ? result.value
-                : typeof result.value === "string"
-                ? parseFloat(result.value) || 0
-                : 0;
-
-            if (updatedFormData[fieldPath] !== calculatedValue) {
-              updatedFormData[fieldPath] = calculatedValue;
-              hasChanges = true;
-            }
-          }
-        });
+      if (formulaGraph.order.length === 0) return;
+
+      // Only fields edited since the last pass need their dependents recomputed;
+      // a new graph (metadata change), newly loaded reference data or the first
+      // pass recomputes everything
+      const previous = lastCalculatedDataRef.current;
+      const changedFields =
+        previous &&
+        lastFormulaGraphRef.current === formulaGraph &&
+        lastReferenceDataRef.current === referenceData
+          ? Array.from(
+              new Set([...Object.keys(previous), ...Object.keys(formData)])
+            ).filter((key) => previous[key] !== formData[key])
+          : undefined;
+      lastFormulaGraphRef.current = formulaGraph;
+      lastReferenceDataRef.current = referenceData;
+
+      const { data: updatedFormData, updated } = formulaGraph.recompute(
+        formData,
+        (formula, currentData, field) => {
+          const result = commercialFormulaCalculator.evaluateWithContext(
+            formula,
+            { formData: currentData, fieldUnits, referenceData },
+            fieldConfigs[field]?.unit
+          );
+          return typeof result.value === "number"
+            ? result.value
+            : typeof result.value === "string"
+            ? parseFloat(result.value) || 0
+            : 0;
+        },
+        changedFields
+      );
+      lastCalculatedDataRef.current = updatedFormData;
 
-        // Only update if something actually changed
-        if (hasChanges) {
-          isUpdatingCalculatedFields.current = true;
-          setFormData(updatedFormData);
-        }
+      // Only update if something actually changed
+      if (updated.length > 0) {
+        isUpdatingCalculatedFields.current = true;
+        setFormData(updatedFormData);
       }
     }, 100); // 100ms debounce for calculated fields
 
@@ -2214,7 +1941,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         clearTimeout(calculatedFieldsTimeoutRef.current);
       }
     };
-  }, [fieldConfigs, formData]);
+  }, [formulaGraph, formData, fieldUnits, fieldConfigs, referenceData]);
 
   // Scroll to section function
   const scrollToSection = React.useCallback((sectionId: string) => {
@@ -2266,9 +1993,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
   // Convert class methods to functions within this component
   const getSortedSections = (): FormSection[] => {
-    return Object.values(sections).sort(
-      (a, b) => (a.order || 0) - (b.order || 0)
-    );
+    return Object.values(sections)
+      .filter((section) => isFormItemVisible(section, formData))
+      .sort((a, b) => (a.order || 0) - (b.order || 0));
   };
 
   const getSortedGroups = (sectionId: string): FormGroup[] => {
@@ -2280,31 +2007,10 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       .filter((group) => group)
       .sort((a, b) => (a.order || 0) - (b.order || 0));
 
-    // Filter out hidden groups based on conditional logic
-    const visibleGroups = sortedGroups.filter((group) => {
-      // Check if group should be shown based on conditional logic
-      if (group.watchField && group.showWhen !== undefined) {
-        const watchedValue = formData[group.watchField];
-
-        // Handle comma-separated string values for showWhen (e.g., "confined-space,internal")
-        if (
-          typeof group.showWhen === "string" &&
-          group.showWhen.includes(",")
-        ) {
-          const showWhenArray = group.showWhen
-            .split(",")
-            .map((s: string) => s.trim());
-          const isIncluded = showWhenArray.includes(watchedValue);
-          return isIncluded;
-        } else {
-          // Handle single value for showWhen
-          return watchedValue === group.showWhen;
-        }
-      }
-
-      // If no conditional logic, always show the group
-      return true;
-    });
+    // Filter out hidden groups based on conditional logic (visibleWhen or watchField/showWhen)
+    const visibleGroups = sortedGroups.filter((group) =>
+      isFormItemVisible(group, formData)
+    );
 
     // Debug: Log groups and their conditional properties
     if (
@@ -2333,10 +2039,15 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
   // Validation functions
   const validateField = React.useCallback(
-    (fieldPath: string, config: FieldConfig, value: any): string | null => {
-      // Required field validation
+    (
+      fieldPath: string,
+      config: FieldConfig,
+      value: any,
+      data: FormData = formDataRef.current
+    ): string | null => {
+      // Required field validation (required or requiredWhen)
       if (
-        config.required &&
+        isFieldRequired(config, { ...data, [fieldPath]: value }) &&
         (value === undefined ||
           value === null ||
           value === "" ||
@@ -2376,34 +2087,10 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   );
 
   // Function to check if a field should be visible based on conditional rendering
+  // (visibleWhen rules or the legacy watchField/showWhen/showOnMatch)
   const shouldShowField = React.useCallback(
-    (config: FieldConfig, formData: FormData): boolean => {
-      if (!config.watchField || config.showWhen === undefined) {
-        return true;
-      }
-
-      const watchedValue = formData[config.watchField];
-
-      // Handle array values for showWhen
-      if (Array.isArray(config.showWhen)) {
-        const isIncluded = config.showWhen.includes(watchedValue);
-        return config.showOnMatch !== false ? isIncluded : !isIncluded;
-      }
-
-      // Handle comma-separated string values for showWhen (e.g., "yes,planned")
-      if (
-        typeof config.showWhen === "string" &&
-        config.showWhen.includes(",")
-      ) {
-        const showWhenArray = config.showWhen.split(",").map((s) => s.trim());
-        const isIncluded = showWhenArray.includes(watchedValue);
-        return config.showOnMatch !== false ? isIncluded : !isIncluded;
-      }
-
-      // Handle single value for showWhen
-      const matches = watchedValue === config.showWhen;
-      return config.showOnMatch !== false ? matches : !matches;
-    },
+    (config: FieldConfig, formData: FormData): boolean =>
+      isFormItemVisible(config, formData),
     []
   );
 
@@ -2418,7 +2105,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       // Only validate visible fields
       if (isVisible) {
         const value = formData[fieldPath];
-        const error = validateField(fieldPath, config, value);
+        const error = validateField(fieldPath, config, value, formData);
 
         if (error) {
           errors[fieldPath] = error;
@@ -2426,12 +2113,15 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       }
     });
 
+    // Calculated fields whose formulas reference each other in a loop
+    Object.assign(errors, formulaGraph.getCycleErrors());
+
     return {
       isValid: Object.keys(errors).length === 0,
       errors,
       warnings,
     };
-  }, [fieldConfigs, formData, validateField, shouldShowField]);
+  }, [fieldConfigs, formData, validateField, shouldShowField, formulaGraph]);
 
   const getSectionErrorCount = React.useCallback(
     (sectionId: string): number => {
@@ -2467,19 +2157,12 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   );
 
   // Function to validate conditional fields when their watched field changes
-  // Create a dependency map for conditional fields to avoid iterating through all fields
-  const conditionalFieldDependencies = React.useMemo(() => {
-    const dependencies: Record<string, string[]> = {};
-    Object.entries(fieldConfigs).forEach(([fieldPath, config]) => {
-      if (config.watchField) {
-        if (!dependencies[config.watchField]) {
-          dependencies[config.watchField] = [];
-        }
-        dependencies[config.watchField].push(fieldPath);
-      }
-    });
-    return dependencies;
-  }, [fieldConfigs]);
+  // Create a dependency map for conditional fields to avoid iterating through all fields.
+  // Includes every field read by visibleWhen/requiredWhen/readOnlyWhen and legacy watchField.
+  const conditionalFieldDependencies = React.useMemo(
+    () => buildRuleDependencies(fieldConfigs),
+    [fieldConfigs]
+  );
 
   const validateConditionalFields = React.useCallback(
     (watchedFieldPath: string, watchedValue: any) => {
@@ -2489,6 +2172,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
       if (dependentFields.length === 0) return;
 
+      // formData may not include the change yet when called right after it
+      const currentData = { ...formData, [watchedFieldPath]: watchedValue };
+
       const fieldsToValidate: Array<{
         fieldPath: string;
         config: FieldConfig;
@@ -2499,13 +2185,13 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       // Process only the dependent fields
       dependentFields.forEach((fieldPath) => {
         const config = fieldConfigs[fieldPath];
-        if (!config || config.showWhen === undefined) return;
+        if (!config) return;
 
-        const shouldShow = shouldShowField(config, formData);
+        const shouldShow = shouldShowField(config, currentData);
 
         if (shouldShow) {
           // Field is now visible, validate it
-          const value = formData[fieldPath];
+          const value = currentData[fieldPath];
           fieldsToValidate.push({ fieldPath, config, value });
         } else {
           // Field is now hidden, mark for error clearing
@@ -2524,7 +2210,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
         // Validate visible fields
         fieldsToValidate.forEach(({ fieldPath, config, value }) => {
-          const error = validateField(fieldPath, config, value);
+          const error = validateField(fieldPath, config, value, currentData);
           if (error) {
             newErrors[fieldPath] = error;
           } else {
@@ -2795,11 +2481,17 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       value: effectiveValue,
       onChange: (newValue: any) =>
         handleFieldChangeWithValidation(fieldPath, newValue),
-      disabled: config.disabled || isPrePopulated,
+      // Lets a widget fill other fields too (e.g. a scanned asset's site and group)
+      onFieldsChange: (values: Record<string, any>) =>
+        Object.keys(values).forEach((path) =>
+          handleFieldChangeWithValidation(path, values[path])
+        ),
+      disabled:
+        config.disabled || isPrePopulated || isFieldReadOnly(config, formData),
       size: "middle" as const,
       placeholder: config.placeholder,
       // Remove hardcoded width to allow Ant Design grid system to work
-      required: config.required,
+      required: isFieldRequired(config, formData),
       status: error ? ("error" as const) : undefined,
       // Don't pass errorMessage to widgets when using Form.Item error handling
       // errorMessage: error,
@@ -2807,6 +2499,11 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       options: config.options,
       widgetProps: config.widgetProps,
       formData: formData, // Pass the entire form data to widgets
+      // Show the field's unit next to inputs and calculated results
+      ...(config.unit ? { addonAfter: config.unit } : {}),
+      ...(effectiveFieldType === "signature"
+        ? { draftKey: signatureDraftKey(signatureDraftScope, fieldPath) }
+        : {}),
       ...fieldSpecificProps,
       ...config.props,
     };
@@ -2975,7 +2672,11 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                       )
                     }
                     help={error}
-                    required={config.required}
+                    extra={
+                      renderAssessmentSummary(fieldPath) ||
+                      renderThicknessSummary(fieldPath)
+                    }
+                    required={isFieldRequired(config, formData)}
                     validateStatus={error ? "error" : undefined}
                     labelCol={{ span: 24 }}
                     wrapperCol={{ span: 24 }}
@@ -3826,15 +3527,16 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                     delete submitData.id;
                   }
 
-                  // Make authenticated API call using BaseGadget's method
-                  const { BaseGadget } = await import("../base");
-                  const response = await BaseGadget.makeAuthenticatedFetch(
-                    url,
-                    {
-                      method,
-                      body: JSON.stringify(submitData),
-                    }
-                  );
+                  // Queued instead of failing when the connection is down
+                  const write = String(method).toLowerCase() as
+                    | "post"
+                    | "put"
+                    | "patch";
+                  const response = await httpClient[write](url, submitData, {
+                    offline: isEdit
+                      ? { baseUpdatedAt: resolveUpdatedAt(originalData) }
+                      : true,
+                  });
 
                   if (!response.ok) {
                     // Get detailed error information
@@ -3862,10 +3564,30 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
                   const result = await response.json();
 
+                  // The saved (or queued) values now hold the signatures
+                  Object.keys(fieldConfigs)
+                    .filter((path) => fieldConfigs[path].type === "signature")
+                    .forEach((path) =>
+                      deleteDraft(
+                        signatureDraftKey(signatureDraftScope, path)
+                      ).catch((error) =>
+                        console.warn(
+                          "[FormRenderer] Failed to remove offline signature:",
+                          error
+                        )
+                      )
+                    );
+
                   // Show success message
-                  const successMessage =
-                    config.onSaveSuccess?.message || "Saved successfully!";
-                  message.success(successMessage);
+                  if (result?.queued) {
+                    message.info(
+                      "Saved offline - it will sync when the connection returns"
+                    );
+                  } else {
+                    message.success(
+                      config.onSaveSuccess?.message || "Saved successfully!"
+                    );
+                  }
 
                   // Handle navigation using window.location.replace for reliable re-render
                   if (
@@ -4654,7 +4376,11 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                             )
                           }
                           help={error}
-                          required={config.required}
+                          extra={
+                            renderAssessmentSummary(fieldPath) ||
+                            renderThicknessSummary(fieldPath)
+                          }
+                          required={isFieldRequired(config, formData)}
                           validateStatus={error ? "error" : undefined}
                           labelCol={{ span: 24 }}
                           wrapperCol={{ span: 24 }}
@@ -4719,12 +4445,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           currentFormData={formData}
           currentSection={activeSection || undefined}
           currentField={undefined}
-          openaiConfig={{
-            ...(gadget.config as any).aiAssistant?.openaiConfig,
-            apiKey:
-              process.env.REACT_APP_OPENAI_API_KEY ||
-              (gadget.config as any).aiAssistant?.openaiConfig?.apiKey,
-          }}
+          openaiConfig={(gadget.config as any).aiAssistant?.openaiConfig}
           modelConfig={(gadget.config as any).aiAssistant?.modelConfig}
           enableVoice={
             (gadget.config as any).aiAssistant?.features?.enableVoice
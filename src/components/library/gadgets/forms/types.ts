@@ -1,4 +1,7 @@
 import React from 'react';
+import type { AssessmentConfig, DefaultValueRule } from '../../../../utils/formAssessment';
+import type { FormRule } from '../../../../utils/formRules';
+import type { ThicknessAnalysisConfig } from '../../../../utils/thicknessAnalysis';
 
 /**
  * Base interface for all gadget options
@@ -54,6 +57,8 @@ export interface GroupOption extends BaseGadgetOption {
   showWhen?: any;
   /** Whether to show the group when condition is met (default: true) */
   showOnMatch?: boolean;
+  /** Multi-condition visibility rule (takes precedence over watchField/showWhen) */
+  visibleWhen?: FormRule;
 }
 
 /**
@@ -66,6 +71,14 @@ export interface ConditionalConfig {
   showWhen: any;
   /** Whether to show the field when condition is met (default: true) */
   showOnMatch?: boolean;
+  /** Multi-condition visibility rule (takes precedence over watchField/showWhen) */
+  visibleWhen?: FormRule;
+  /** Field is required while this rule holds */
+  requiredWhen?: FormRule;
+  /** Field is read-only while this rule holds */
+  readOnlyWhen?: FormRule;
+  /** Conditional default values; the first matching rule wins over defaultValue */
+  defaultRules?: DefaultValueRule[];
 }
 
 /**
@@ -110,6 +123,14 @@ export interface FieldOption extends BaseGadgetOption {
   showWhen?: any;
   /** Whether to show the field when condition is met (default: true) */
   showOnMatch?: boolean;
+  /** Multi-condition visibility rule (takes precedence over watchField/showWhen) */
+  visibleWhen?: FormRule;
+  /** Field is required while this rule holds */
+  requiredWhen?: FormRule;
+  /** Field is read-only while this rule holds */
+  readOnlyWhen?: FormRule;
+  /** Conditional default values; the first matching rule wins over defaultValue */
+  defaultRules?: DefaultValueRule[];
   /** Additional field-specific properties */
   [key: string]: any;
 }
@@ -144,6 +165,8 @@ export interface FormSection {
   showWhen?: any;
   /** Whether to show the section when condition is met (default: true) */
   showOnMatch?: boolean;
+  /** Multi-condition visibility rule (takes precedence over watchField/showWhen) */
+  visibleWhen?: FormRule;
   /** URL to load section metadata from (for dynamic loading) */
   sectionOptionsUrl?: string;
 }
@@ -181,6 +204,8 @@ export interface FormGroup {
   showWhen?: any;
   /** Whether to show the group when condition is met (default: true) */
   showOnMatch?: boolean;
+  /** Multi-condition visibility rule (takes precedence over watchField/showWhen) */
+  visibleWhen?: FormRule;
 }
 
 /**
@@ -229,6 +254,10 @@ export interface DocumentFormConfig {
   fullHeight?: boolean;
   /** Fit content mode */
   fitContent?: boolean;
+  /** Weighted scoring that suggests an outcome (see utils/formAssessment) */
+  assessment?: AssessmentConfig;
+  /** Corrosion rate and remaining life from TML readings (see utils/thicknessAnalysis) */
+  thicknessAnalysis?: ThicknessAnalysisConfig;
   /** Flat array of gadget options (sections, groups, fields) */
   gadgetOptions?: GadgetOption[];
   /** Custom field configurations (legacy support) */
@@ -318,12 +347,23 @@ export interface FieldConfig {
   showWhen?: any;
   /** Whether to show the field when condition is met (default: true) */
   showOnMatch?: boolean;
+  /** Multi-condition visibility rule (takes precedence over watchField/showWhen) */
+  visibleWhen?: FormRule;
+  /** Field is required while this rule holds */
+  requiredWhen?: FormRule;
+  /** Field is read-only while this rule holds */
+  readOnlyWhen?: FormRule;
+  /** Conditional default values; the first matching rule wins over defaultValue */
+  defaultRules?: DefaultValueRule[];
   /** Formula for calculated fields */
   formula?: string;
   /** Whether this field is calculated (auto-updates based on formula) */
   calculated?: boolean;
   /** Auto-refresh calculated field when form data changes */
   autoRefresh?: boolean;
+  /** Unit of a numeric field (e.g. 'mm', 'psi', 'mm/yr'). Formulas convert between
+   * compatible units, and calculated fields are converted to this unit */
+  unit?: string;
   /** Whether field should be disabled when pre-populated from URL parameters */
   disableWhenPrePopulated?: boolean;
   /** Field type to use when pre-populated (e.g., 'text' instead of 'select') */
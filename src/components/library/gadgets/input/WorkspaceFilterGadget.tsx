@@ -16,6 +16,7 @@ export interface WorkspaceFilterGadgetConfig extends GadgetConfig {
   filterLayout?: 'horizontal' | 'vertical' | 'compact';
   showClearAll?: boolean;
   showFilterCount?: boolean;
+  showPresets?: boolean;
   title?: string;
 }
 
@@ -105,6 +106,11 @@ export class WorkspaceFilterGadget extends BaseGadget {
         type: 'boolean',
         default: true
       },
+      showPresets: {
+        type: 'boolean',
+        default: true,
+        description: 'Show saved filter presets and the copy-link action'
+      },
       title: {
         type: 'string',
         description: 'Optional title for the filter section'
@@ -118,7 +124,8 @@ export class WorkspaceFilterGadget extends BaseGadget {
           filterDefinitions: { type: 'array' },
           layout: { type: 'string' },
           showClearAll: { type: 'boolean' },
-          showFilterCount: { type: 'boolean' }
+          showFilterCount: { type: 'boolean' },
+          showPresets: { type: 'boolean' }
         }
       }
     }
@@ -131,7 +138,8 @@ export class WorkspaceFilterGadget extends BaseGadget {
       filterDefinitions = [],
       filterLayout = 'horizontal',
       showClearAll = true,
-      showFilterCount = true
+      showFilterCount = true,
+      showPresets = true
     } = config;
 
 
@@ -154,7 +162,8 @@ export class WorkspaceFilterGadget extends BaseGadget {
       filterDefinitions,
       layout: filterLayout,
       showClearAll,
-      showFilterCount
+      showFilterCount,
+      showPresets
     });
   }
 
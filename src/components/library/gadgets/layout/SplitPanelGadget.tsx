@@ -287,13 +287,18 @@ const SplitPanelComponent: React.FC<SplitPanelGadgetProps> = ({ config, context
     }
 
     try {
+      // Child gadgets are addressed by panel id on the workspace data flow bus
+      const childContext = context?.dataFlow
+        ? { ...context, gadgetId: panelConfig.id, dataFlow: context.dataFlow.bus.forGadget(panelConfig.id) }
+        : context;
+
       // Create gadget instance
-      const gadgetInstance = new GadgetClass(panelConfig.gadget.config, WidgetRegistry, context);
+      const gadgetInstance = new GadgetClass(panelConfig.gadget.config, WidgetRegistry, childContext);
       
       // Render gadget using the structured pattern
       const gadgetResult = gadgetInstance.renderStructured(
         panelConfig.gadget.config,
-        context
+        childContext
       );
       
       return (
@@ -195,7 +195,7 @@ export const AIAnalysisWidget: React.FC<AIAnalysisWidgetProps> = ({
   const [form] = Form.useForm();
 
   // Initialize OpenAI hook
-  const openAI = useOpenAI(openaiConfig || { apiKey: '' });
+  const openAI = useOpenAI({ ...openaiConfig, feature: 'wizard' });
 
   // Update form when analysis results change
   useEffect(() => {
@@ -253,11 +253,6 @@ console.log('🔍 Current value:', value);
 console.log('🔍 openaiConfig:', openaiConfig);
 console.log('🔍 promptConfig:', promptConfig);
     
-    if (!openaiConfig?.apiKey) {
-      console.error('❌ No OpenAI API key');
-      throw new Error('OpenAI API key is required for analysis');
-    }
-
     if (!value.inspectionType) {
       console.error('❌ No analysis type');
       throw new Error('Analysis type is required');
@@ -407,7 +402,7 @@ setAnalysisResults([result]);
       setIsAnalyzing(false);
       setAnalysisProgress(0);
     }
-  }, [value, openaiConfig?.apiKey, modelConfig, promptConfig, openAI, hasInputData, onChange]);
+  }, [value, modelConfig, promptConfig, openAI, hasInputData, onChange]);
 
   // Handle form value changes
   const handleFormChange = useCallback((changedValues: any, allValues: any) => {
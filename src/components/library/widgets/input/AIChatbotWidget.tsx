@@ -109,7 +109,7 @@ export interface AIChatbotWidgetProps {
   
   // AI Configuration
   openaiConfig?: {
-    apiKey: string;
+    apiKey?: string;
     baseUrl?: string;
     timeout?: number;
   };
@@ -197,7 +197,8 @@ export const AIChatbotWidget: React.FC<AIChatbotWidgetProps> = ({
   const openai = useOpenAI({
     apiKey: openaiConfig?.apiKey || '',
     baseUrl: openaiConfig?.baseUrl,
-    timeout: openaiConfig?.timeout
+    timeout: openaiConfig?.timeout,
+    feature: 'chatbot'
   });
 
   // Load complete form schema
@@ -282,15 +283,6 @@ Available form fields: ${formFields.map((f: any) => `${f.id} (${f.type}): ${f.ti
   const sendMessage = useCallback(async (content: string, metadata?: any) => {
     if (!content.trim()) return;
     
-    // Check if OpenAI API key is available
-    if (!openaiConfig?.apiKey || openaiConfig.apiKey === '') {
-      addMessage({
-        type: 'error',
-        content: 'OpenAI API key is not configured. Please set REACT_APP_OPENAI_API_KEY in your environment variables.'
-      });
-      return;
-    }
-    
     // Add user message
     addMessage({
       type: 'user',
@@ -385,7 +377,7 @@ onFieldUpdate?.(fieldId, value);
     } finally {
       setIsAnalyzing(false);
     }
-  }, [openai, systemPrompt, modelConfig, promptConfig, formSchema, currentFormData, currentSection, currentField, uploadedImages, uploadedDocuments, messages, addMessage, onFieldUpdate, openaiConfig?.apiKey]);
+  }, [openai, systemPrompt, modelConfig, promptConfig, formSchema, currentFormData, currentSection, currentField, uploadedImages, uploadedDocuments, messages, addMessage, onFieldUpdate]);
   
   // Parse field updates from AI response
   const parseFieldUpdates = useCallback((response: string): Record<string, any> | null => {
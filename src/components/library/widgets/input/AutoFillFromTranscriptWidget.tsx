@@ -44,7 +44,7 @@ export interface AutoFillFromTranscriptWidgetProps {
  * - Emits normalized per-section updates via onUpdateSection
  */
 export const AutoFillFromTranscriptWidget: React.FC<AutoFillFromTranscriptWidgetProps> = React.memo(({ sectionsMeta, transcription, selectedRecommendations, deepPrompt, autoRun = true, onUpdateSection }) => {
-  const { analyzeText } = useOpenAI(getOpenAIConfig());
+  const { analyzeText } = useOpenAI({ ...getOpenAIConfig(), feature: 'wizard' });
   const lastProcessedRef = React.useRef<string>('');
 
   const buildSchemaFieldsJson = React.useCallback((): Record<string, any> => {
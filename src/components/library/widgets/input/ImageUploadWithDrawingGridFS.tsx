@@ -32,6 +32,7 @@ import {
 } from 'antd';
 import type { RcFile } from 'antd/es/upload';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { findLocalId, isLocalId, syncQueue, uploadOrQueue } from '../../../../services/SyncQueue';
 
 const { Text, Title } = Typography;
 const { Dragger } = Upload;
@@ -132,9 +133,21 @@ export const ImageUploadWithDrawingGridFS: React.FC<ImageUploadWithDrawingGridFS
     const drawingContext = useRef<CanvasRenderingContext2D | null>(null);
     const lastPoint = useRef<{ x: number; y: number } | null>(null);
 
+    const [, setLocalFilesLoaded] = useState(0);
+
     const resolveDisplayUrl = useCallback((rawUrl?: string) => {
         if (!rawUrl) return rawUrl || '';
 
+        // Photos taken offline are shown from the local copy until they are uploaded
+        const localId = findLocalId(rawUrl);
+        if (localId) {
+            const localUrl = syncQueue.getFileUrl(localId);
+            if (!localUrl) {
+                syncQueue.loadFileUrl(localId).then(loaded => loaded && setLocalFilesLoaded(count => count + 1));
+            }
+            return localUrl || '';
+        }
+
         const token = (typeof window !== 'undefined')
             ? (localStorage.getItem('authToken') || localStorage.getItem('token'))
             : null;
@@ -161,6 +174,18 @@ export const ImageUploadWithDrawingGridFS: React.FC<ImageUploadWithDrawingGridFS
         }
     }, [value]);
 
+    // Swap local file ids for GridFS ids once queued uploads are synced
+    useEffect(() => syncQueue.onIdResolved((localId, serverId, result) => {
+        setFileList(prevList => {
+            if (!prevList.some(img => img.gridfsId === localId)) return prevList;
+            const newList = prevList.map(img => img.gridfsId === localId
+                ? { ...img, gridfsId: serverId, url: `/api/uploads/image/${serverId}`, fileHash: result?.file?.fileHash }
+                : img);
+            onChange?.(newList);
+            return newList;
+        });
+    }), [onChange]);
+
     // Custom upload to GridFS
     const customRequest = useCallback(async (options: any) => {
         const { file, onSuccess, onError } = options;
@@ -176,19 +201,16 @@ export const ImageUploadWithDrawingGridFS: React.FC<ImageUploadWithDrawingGridFS
             formData.append('type', 'inspection');
 
             const token = localStorage.getItem('authToken') || localStorage.getItem('token');
-            const response = await fetch('/api/uploads/image', {
-                method: 'POST',
-                headers: token ? {
-                    'Authorization': `Bearer ${token}`
-                } : undefined,
-                body: formData
-            });
-
-            if (!response.ok) {
-                throw new Error(`Upload failed: ${response.statusText}`);
-            }
-
-            const result = await response.json();
+            const result = await uploadOrQueue(
+                { url: '/api/uploads/image', file, fileName: file.name, fields: { type: 'inspection' } },
+                () => fetch('/api/uploads/image', {
+                    method: 'POST',
+                    headers: token ? {
+                        'Authorization': `Bearer ${token}`
+                    } : undefined,
+                    body: formData
+                })
+            );
             
             console.log(`[Upload] Response for ${file.name}:`, {
                 success: result.success,
@@ -261,7 +283,9 @@ export const ImageUploadWithDrawingGridFS: React.FC<ImageUploadWithDrawingGridFS
 
             onSuccess(result, file);
             
-            if (isDeduplicated) {
+            if (result.queued) {
+                message.info(`${file.name} saved offline - it will upload when the connection returns`);
+            } else if (isDeduplicated) {
                 message.success(`${file.name} added (using existing file)`);
             } else {
                 message.success(`${file.name} uploaded successfully`);
@@ -306,7 +330,9 @@ export const ImageUploadWithDrawingGridFS: React.FC<ImageUploadWithDrawingGridFS
     const handleRemove = useCallback(async (uid: string) => {
         const imageToRemove = fileList.find(img => img.uid === uid);
         
-        if (imageToRemove?.gridfsId && !imageToRemove.hasModifications) {
+        if (imageToRemove?.gridfsId && isLocalId(imageToRemove.gridfsId)) {
+            await syncQueue.cancelUpload(imageToRemove.gridfsId);
+        } else if (imageToRemove?.gridfsId && !imageToRemove.hasModifications) {
             try {
                 // Call delete API to decrement reference count or delete file
                 const token = localStorage.getItem('authToken') || localStorage.getItem('token');
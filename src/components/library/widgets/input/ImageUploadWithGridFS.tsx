@@ -19,6 +19,7 @@ import {
 } from 'antd';
 import type { RcFile, UploadFile, UploadProps } from 'antd/es/upload';
 import React, { useCallback, useEffect, useState } from 'react';
+import { findLocalId, isLocalId, syncQueue, uploadOrQueue } from '../../../../services/SyncQueue';
 
 export interface GridFSImage {
     uid: string;
@@ -61,10 +62,21 @@ export const ImageUploadWithGridFS: React.FC<ImageUploadWithGridFSProps> = ({
     const [previewOpen, setPreviewOpen] = useState(false);
     const [previewImage, setPreviewImage] = useState('');
     const [previewTitle, setPreviewTitle] = useState('');
+    const [localFilesLoaded, setLocalFilesLoaded] = useState(0);
 
     const buildAuthenticatedUrl = useCallback((rawUrl?: string) => {
         if (!rawUrl) return rawUrl || '';
 
+        // Photos taken offline are shown from the local copy until they are uploaded
+        const localId = findLocalId(rawUrl);
+        if (localId) {
+            const localUrl = syncQueue.getFileUrl(localId);
+            if (!localUrl) {
+                syncQueue.loadFileUrl(localId).then(loaded => loaded && setLocalFilesLoaded(count => count + 1));
+            }
+            return localUrl || '';
+        }
+
         const token = (typeof window !== 'undefined')
             ? (localStorage.getItem('authToken') || localStorage.getItem('token'))
             : null;
@@ -101,7 +113,15 @@ export const ImageUploadWithGridFS: React.FC<ImageUploadWithGridFSProps> = ({
             };
         });
         setFileList(uploadFiles);
-    }, [value, buildAuthenticatedUrl]);
+    }, [value, buildAuthenticatedUrl, localFilesLoaded]);
+
+    // Swap local file ids for GridFS ids once queued uploads are synced
+    useEffect(() => syncQueue.onIdResolved((localId, serverId) => {
+        if (!value?.some(img => img.gridfsId === localId)) return;
+        onChange?.(value.map(img => img.gridfsId === localId
+            ? { ...img, gridfsId: serverId, url: `/api/uploads/image/${serverId}` }
+            : img));
+    }), [value, onChange]);
 
     // Custom upload to GridFS
     const customRequest = useCallback(async (options: any) => {
@@ -119,26 +139,24 @@ export const ImageUploadWithGridFS: React.FC<ImageUploadWithGridFSProps> = ({
 
             // Upload to GridFS
             const token = localStorage.getItem('authToken') || localStorage.getItem('token');
-            const response = await fetch('/api/uploads/image', {
-                method: 'POST',
-                headers: token ? {
-                    'Authorization': `Bearer ${token}`
-                } : undefined,
-                body: formData
-            });
-
-            if (!response.ok) {
-                throw new Error(`Upload failed: ${response.statusText}`);
-            }
-
-            const result = await response.json();
+            const result = await uploadOrQueue(
+                { url: '/api/uploads/image', file, fileName: file.name, fields: { type: 'inspection' } },
+                () => fetch('/api/uploads/image', {
+                    method: 'POST',
+                    headers: token ? {
+                        'Authorization': `Bearer ${token}`
+                    } : undefined,
+                    body: formData
+                })
+            );
+            const fileId = result.file?.id || result.id;
             
             // Create GridFS image object
             const gridfsImage: GridFSImage = {
                 uid,
                 name: file.name,
-                url: `/api/uploads/image/${result.id}`,
-                gridfsId: result.id,
+                url: `/api/uploads/image/${fileId}`,
+                gridfsId: fileId,
                 originalSize: file.size,
                 type: 'gridfs',
                 metadata: {
@@ -156,7 +174,11 @@ export const ImageUploadWithGridFS: React.FC<ImageUploadWithGridFSProps> = ({
 
             // Notify upload success
             onSuccess(result, file);
-            message.success(`${file.name} uploaded successfully`);
+            if (result.queued) {
+                message.info(`${file.name} saved offline - it will upload when the connection returns`);
+            } else {
+                message.success(`${file.name} uploaded successfully`);
+            }
 
         } catch (error) {
             console.error('Upload error:', error);
@@ -201,7 +223,9 @@ export const ImageUploadWithGridFS: React.FC<ImageUploadWithGridFSProps> = ({
     const handleRemove = useCallback((file: UploadFile) => {
         const gridfsId = file.response?.gridfsId || (value?.find(img => img.uid === file.uid)?.gridfsId);
         
-        if (gridfsId) {
+        if (gridfsId && isLocalId(gridfsId)) {
+            syncQueue.cancelUpload(gridfsId);
+        } else if (gridfsId) {
             // Optionally delete from GridFS
             const token = localStorage.getItem('authToken') || localStorage.getItem('token');
             fetch(`/api/uploads/image/${gridfsId}`, {
@@ -0,0 +1,95 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { QRCodeScannerWidget } from './QRCodeScannerWidget';
+import { AssetLookupService } from '../../../../services/AssetLookupService';
+import { BarcodeDecoder } from '../../../../utils/barcodeDecoder';
+
+jest.mock('../../../../utils/barcodeDecoder', () => ({
+  DEFAULT_BARCODE_FORMATS: ['qr_code', 'code_128', 'data_matrix'],
+  BarcodeDecoder: { create: jest.fn() }
+}));
+
+jest.mock('../../../../services/AssetLookupService', () => ({
+  ...jest.requireActual('../../../../services/AssetLookupService'),
+  AssetLookupService: { findByCode: jest.fn() }
+}));
+
+const asset = {
+  assetId: 'asset_1',
+  assetTag: 'P-100',
+  name: 'Feed Pump',
+  assetGroupId: 'group_1',
+  assetGroupName: 'Unit 1',
+  siteId: 'site_1',
+  siteName: 'North Plant',
+  companyId: 'company_1'
+};
+
+const assetFieldValues = {
+  company_id: 'company_1',
+  site_id: 'site_1',
+  asset_group_id: 'group_1',
+  asset_id: 'asset_1'
+};
+
+// The decoder reads `code` from any photo
+const decoderReading = (code: string) => {
+  (BarcodeDecoder.create as jest.Mock).mockResolvedValue({
+    decodeFile: jest.fn().mockResolvedValue({ value: code, format: 'qr_code' })
+  });
+};
+
+const uploadPhoto = async () => {
+  const photoButton = screen.getByRole('button', { name: 'camera' });
+  await waitFor(() => expect(photoButton).toBeEnabled());
+  fireEvent.change(screen.getByLabelText('Label photo'), {
+    target: { files: [new File(['label'], 'label.png', { type: 'image/png' })] }
+  });
+};
+
+describe('QRCodeScannerWidget', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AssetLookupService.findByCode as jest.Mock).mockResolvedValue(asset);
+  });
+
+  it('looks up a scanned tag and fills the asset fields', async () => {
+    decoderReading('P-100');
+    const onChange = jest.fn();
+    const onFieldsChange = jest.fn();
+    render(<QRCodeScannerWidget id="equipment_tag" onChange={onChange} onFieldsChange={onFieldsChange} />);
+
+    await uploadPhoto();
+
+    await waitFor(() => expect(onFieldsChange).toHaveBeenCalledWith(assetFieldValues));
+    expect(AssetLookupService.findByCode).toHaveBeenCalledWith('P-100');
+    expect(onChange).toHaveBeenCalledWith('P-100');
+    expect(screen.getByText(/Feed Pump/)).toBeInTheDocument();
+  });
+
+  it('keeps the asset tag in the field when a printed label link is scanned', async () => {
+    const link = 'https://app.example.com/?workspace=asset-manager/asset-form&id=asset_1';
+    decoderReading(link);
+    const onChange = jest.fn();
+    const onFieldsChange = jest.fn();
+    render(<QRCodeScannerWidget id="equipment_tag" onChange={onChange} onFieldsChange={onFieldsChange} />);
+
+    await uploadPhoto();
+
+    await waitFor(() => expect(onFieldsChange).toHaveBeenCalledWith(assetFieldValues));
+    expect(AssetLookupService.findByCode).toHaveBeenCalledWith(link);
+    expect(onChange).toHaveBeenLastCalledWith('P-100');
+  });
+
+  it('reports a code without an asset and leaves the other fields alone', async () => {
+    decoderReading('UNKNOWN-1');
+    (AssetLookupService.findByCode as jest.Mock).mockResolvedValue(null);
+    const onFieldsChange = jest.fn();
+    render(<QRCodeScannerWidget id="equipment_tag" onFieldsChange={onFieldsChange} />);
+
+    await uploadPhoto();
+
+    expect(await screen.findByText('No asset with tag UNKNOWN-1')).toBeInTheDocument();
+    expect(onFieldsChange).not.toHaveBeenCalled();
+  });
+});
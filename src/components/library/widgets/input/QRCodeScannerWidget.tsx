@@ -1,42 +1,149 @@
 /**
  * QRCodeScannerWidget - QR code scanning component
- * 
- * A form input widget for scanning QR codes and barcodes.
- * Basic implementation with manual input fallback.
+ *
+ * A form input widget for scanning QR codes and barcodes (QR, Code-128,
+ * DataMatrix) from the camera or an uploaded photo, with manual input as
+ * fallback. The code is looked up as an asset tag (or the asset link a
+ * printed label encodes) and, inside FormRenderer, the asset, asset group,
+ * site and company fields are filled from the asset.
  */
 
-import React, { useState, useRef, useCallback } from 'react';
-import { Button, Input, Space, Typography } from 'antd';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Button, Input, Modal, Space, Tooltip, Typography, message } from 'antd';
 import { ScanOutlined, CameraOutlined } from '@ant-design/icons';
+import {
+  AssetFieldMap,
+  AssetLookupService,
+  ScannedAsset,
+  toAssetFieldValues,
+} from '../../../../services/AssetLookupService';
+import { parseAssetLink } from '../../../../utils/assetLabels';
+import { BarcodeDecoder, DEFAULT_BARCODE_FORMATS } from '../../../../utils/barcodeDecoder';
 
 const { Text } = Typography;
 
+/**
+ * Time between decode attempts on the camera stream (ms)
+ */
+const SCAN_INTERVAL = 250;
+
 export interface QRCodeScannerWidgetProps {
   id: string;
   label?: string;
   value?: string;
   onChange?: (value: string) => void;
+  /** Set several form fields at once (passed by FormRenderer) */
+  onFieldsChange?: (values: Record<string, any>) => void;
   disabled?: boolean;
   required?: boolean;
   placeholder?: string;
   className?: string;
   style?: React.CSSProperties;
+  widgetProps?: {
+    /** Barcode formats to decode (default QR, Code-128 and DataMatrix) */
+    formats?: string[];
+    /** Look up the code as an asset tag (default true) */
+    assetLookup?: boolean;
+    /** Form fields filled from the asset (default asset_id, asset_group_id, site_id, company_id) */
+    assetFields?: AssetFieldMap;
+  };
 }
 
+type LookupState =
+  | { status: 'idle' }
+  | { status: 'loading'; code: string }
+  | { status: 'found'; code: string; asset: ScannedAsset }
+  | { status: 'not_found'; code: string }
+  | { status: 'error'; code: string; error: string };
+
 export const QRCodeScannerWidget: React.FC<QRCodeScannerWidgetProps> = ({
   id,
   label,
   value,
   onChange,
+  onFieldsChange,
   disabled = false,
   required = false,
   placeholder = "Scan QR code or enter manually",
   className,
   style,
+  widgetProps,
 }) => {
   const [inputValue, setInputValue] = useState(value || '');
   const [isScanning, setIsScanning] = useState(false);
+  const [decoder, setDecoder] = useState<BarcodeDecoder | null>(null);
+  const [decoderChecked, setDecoderChecked] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [lookup, setLookup] = useState<LookupState>({ status: 'idle' });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lookedUpRef = useRef<string>('');
+
+  const formats = widgetProps?.formats || DEFAULT_BARCODE_FORMATS;
+  const formatsKey = formats.join(',');
+  const assetLookup = widgetProps?.assetLookup !== false;
+  const assetFields = widgetProps?.assetFields;
+  const cameraAvailable = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    setInputValue(value || '');
+  }, [value]);
+
+  useEffect(() => {
+    let cancelled = false;
+    BarcodeDecoder.create(formatsKey.split(','))
+      .catch(() => null)
+      .then(created => {
+        if (!cancelled) {
+          setDecoder(created);
+          setDecoderChecked(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [formatsKey]);
+
+  const resolveAsset = useCallback(async (code: string) => {
+    lookedUpRef.current = code;
+    if (!assetLookup || !code) {
+      setLookup({ status: 'idle' });
+      return;
+    }
+
+    setLookup({ status: 'loading', code });
+    try {
+      const asset = await AssetLookupService.findByCode(code);
+      if (lookedUpRef.current !== code) return;
+      if (!asset) {
+        setLookup({ status: 'not_found', code });
+        return;
+      }
+      setLookup({ status: 'found', code, asset });
+      // Printed labels encode a link; keep the asset tag in the field instead
+      if (asset.assetTag && parseAssetLink(code)) {
+        lookedUpRef.current = asset.assetTag;
+        setInputValue(asset.assetTag);
+        onChange?.(asset.assetTag);
+      }
+      onFieldsChange?.(toAssetFieldValues(asset, assetFields));
+    } catch (error) {
+      if (lookedUpRef.current !== code) return;
+      setLookup({ status: 'error', code, error: error instanceof Error ? error.message : 'Lookup failed' });
+    }
+  }, [assetLookup, assetFields, onChange, onFieldsChange]);
+
+  const handleCode = useCallback((code: string) => {
+    setInputValue(code);
+    onChange?.(code);
+    resolveAsset(code);
+  }, [onChange, resolveAsset]);
+
+  // The camera loop reads the latest handler without restarting the stream
+  const handleCodeRef = useRef(handleCode);
+  useEffect(() => {
+    handleCodeRef.current = handleCode;
+  }, [handleCode]);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
@@ -44,22 +151,120 @@ export const QRCodeScannerWidget: React.FC<QRCodeScannerWidgetProps> = ({
     onChange?.(newValue);
   }, [onChange]);
 
+  // Typed codes are looked up once editing is done
+  const handleInputCommit = useCallback(() => {
+    const code = inputValue.trim();
+    if (code !== lookedUpRef.current) {
+      resolveAsset(code);
+    }
+  }, [inputValue, resolveAsset]);
+
   const handleScan = useCallback(() => {
-    // In a real implementation, this would activate camera for QR scanning
-    // For now, we'll simulate with file input
+    setCameraError(null);
+    setIsScanning(true);
+  }, []);
+
+  // Decode camera frames while the scan dialog is open
+  useEffect(() => {
+    if (!isScanning || !decoder) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled) return;
+      if (video && stream && video.srcObject !== stream) {
+        video.srcObject = stream;
+        video.play().catch(() => undefined);
+      }
+      if (video && video.readyState >= 2) {
+        try {
+          const scanned = await decoder.decode(video);
+          if (scanned && !cancelled) {
+            setIsScanning(false);
+            handleCodeRef.current(scanned.value);
+            return;
+          }
+        } catch (error) {
+          console.warn('Barcode decoding failed:', error);
+        }
+      }
+      timer = setTimeout(scanFrame, SCAN_INTERVAL);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        scanFrame();
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setCameraError(error?.name === 'NotAllowedError'
+            ? 'Camera access was denied. Allow it in the browser, or upload a photo of the label.'
+            : 'No camera is available. Upload a photo of the label instead.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning, decoder]);
+
+  const handlePhoto = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      // In a real implementation, this would process the image for QR codes
-      // For now, we'll simulate a successful scan
-      const mockScannedValue = `QR_${Date.now()}`;
-      setInputValue(mockScannedValue);
-      onChange?.(mockScannedValue);
+    event.target.value = '';
+    if (!file || !decoder) return;
+
+    try {
+      const scanned = await decoder.decodeFile(file);
+      if (scanned) {
+        handleCode(scanned.value);
+      } else {
+        message.warning('No QR code or barcode found in the photo');
+      }
+    } catch (error) {
+      console.error('Barcode decoding failed:', error);
+      message.error('Could not read the photo');
     }
-  }, [onChange]);
+  }, [decoder, handleCode]);
+
+  const unsupported = decoderChecked && !decoder
+    ? 'This browser cannot decode barcodes. Enter the code manually.'
+    : undefined;
+
+  const renderLookup = () => {
+    switch (lookup.status) {
+      case 'loading':
+        return <Text type="secondary">Looking up {lookup.code}...</Text>;
+      case 'found': {
+        const { asset } = lookup;
+        const location = [asset.siteName, asset.assetGroupName].filter(Boolean).join(' / ');
+        return (
+          <Text type="success">
+            {asset.assetTag || lookup.code}{asset.name ? ` · ${asset.name}` : ''}{location ? ` · ${location}` : ''}
+          </Text>
+        );
+      }
+      case 'not_found':
+        return <Text type="warning">No asset with tag {lookup.code}</Text>;
+      case 'error':
+        return <Text type="danger">{lookup.error}</Text>;
+      default:
+        return null;
+    }
+  };
 
   return (
     <div className={className} style={style}>
@@ -69,36 +274,78 @@ export const QRCodeScannerWidget: React.FC<QRCodeScannerWidgetProps> = ({
           {required && <span style={{ color: '#ff4d4f' }}> *</span>}
         </label>
       )}
-      
+
       <Space.Compact style={{ width: '100%' }}>
         <Input
           id={id}
           value={inputValue}
           onChange={handleInputChange}
+          onBlur={handleInputCommit}
+          onPressEnter={handleInputCommit}
           placeholder={placeholder}
           disabled={disabled}
           style={{ flex: 1 }}
         />
-        
-        <Button
-          icon={<ScanOutlined />}
-          onClick={handleScan}
-          disabled={disabled}
-          type="primary"
-        >
-          Scan
-        </Button>
-        
+
+        <Tooltip title={unsupported || (!cameraAvailable ? 'No camera available' : undefined)}>
+          <Button
+            icon={<ScanOutlined />}
+            onClick={handleScan}
+            disabled={disabled || !decoder || !cameraAvailable}
+            type="primary"
+          >
+            Scan
+          </Button>
+        </Tooltip>
+
+        <Tooltip title={unsupported || 'Read the code from a photo'}>
+          <Button
+            icon={<CameraOutlined />}
+            onClick={handlePhoto}
+            disabled={disabled || !decoder}
+          />
+        </Tooltip>
+
         <input
           ref={fileInputRef}
           type="file"
+          aria-label="Label photo"
           accept="image/*"
+          capture="environment"
           style={{ display: 'none' }}
           onChange={handleFileSelect}
         />
       </Space.Compact>
+
+      {lookup.status !== 'idle' && (
+        <div style={{ marginTop: 4, fontSize: 12 }}>{renderLookup()}</div>
+      )}
+
+      <Modal
+        title="Scan Label"
+        open={isScanning}
+        onCancel={() => setIsScanning(false)}
+        footer={null}
+        destroyOnClose
+      >
+        {cameraError ? (
+          <Text type="danger">{cameraError}</Text>
+        ) : (
+          <>
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              style={{ width: '100%', borderRadius: 4, background: '#000' }}
+            />
+            <Text type="secondary" style={{ display: 'block', marginTop: 8 }}>
+              Point the camera at a QR code, Code-128 or DataMatrix label.
+            </Text>
+          </>
+        )}
+      </Modal>
     </div>
   );
 };
 
-export default QRCodeScannerWidget; 
\ No newline at end of file
+export default QRCodeScannerWidget;
@@ -4,6 +4,8 @@
  * A form input widget that allows users to create digital signatures using canvas.
  * Supports touch/mouse drawing, signature validation, and export functionality.
  * Perfect for approvals, sign-offs, and digital document signing.
+ * With a draftKey the signature is also kept in the offline store, so one
+ * drawn without a connection survives a reload until the form is saved.
  */
 
 import React, { useCallback, useRef, useState, useEffect } from 'react';
@@ -17,6 +19,7 @@ import {
   DownloadOutlined
 } from '@ant-design/icons';
 import { sanitizeData } from '../../../../utils/sanitizeData';
+import { deleteDraft, loadDraft, saveDraft } from '../../../../services/OfflineStore';
 
 const { Text } = Typography;
 
@@ -87,8 +90,16 @@ export interface SignatureWidgetProps {
   // Placeholder
   placeholder?: string;
   placeholderStyle?: React.CSSProperties;
+
+  // Offline draft the signature is kept in until the form is saved (see signatureDraftKey)
+  draftKey?: string;
 }
 
+/**
+ * Offline draft key of a signature field; scope identifies the form and record
+ */
+export const signatureDraftKey = (scope: string, fieldId: string) => `signature:${scope}:${fieldId}`;
+
 /**
  * SignatureWidget Component
  * 
@@ -142,6 +153,8 @@ export const SignatureWidget: React.FC<SignatureWidgetProps> = ({
   
   placeholder = "Sign here",
   placeholderStyle = { color: '#ccc', fontSize: 16 },
+
+  draftKey,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState<boolean>(false);
@@ -151,6 +164,26 @@ export const SignatureWidget: React.FC<SignatureWidgetProps> = ({
   const [redoStack, setRedoStack] = useState<ImageData[]>([]);
   const [isEmpty, setIsEmpty] = useState<boolean>(true);
   const [lastPoint, setLastPoint] = useState<{ x: number; y: number } | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const hasValueRef = useRef(false);
+  hasValueRef.current = !!(value?.dataURL || defaultValue?.dataURL);
+
+  // Restore a signature drawn before a reload that was never saved
+  useEffect(() => {
+    if (!draftKey) return;
+    let cancelled = false;
+    loadDraft<SignatureData>(draftKey)
+      .then(draft => {
+        if (!cancelled && draft?.data?.dataURL && !hasValueRef.current) {
+          onChangeRef.current?.(draft.data);
+        }
+      })
+      .catch(error => console.warn('[SignatureWidget] Failed to load offline signature:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [draftKey]);
 
   // Save canvas state to undo stack
   const saveToUndoStack = useCallback(() => {
@@ -261,8 +294,12 @@ export const SignatureWidget: React.FC<SignatureWidgetProps> = ({
     if (signatureData) {
       onChange?.(signatureData);
       onSign?.(signatureData);
+      if (draftKey) {
+        saveDraft(draftKey, signatureData)
+          .catch(error => console.warn('[SignatureWidget] Failed to keep signature offline:', error));
+      }
     }
-  }, [onChange, onSign, validateOnChange, validateValue]);
+  }, [onChange, onSign, validateOnChange, validateValue, draftKey]);
 
   // Get mouse/touch coordinates
   const getEventPoint = useCallback((e: React.MouseEvent | React.TouchEvent): { x: number; y: number } => {
@@ -359,8 +396,12 @@ export const SignatureWidget: React.FC<SignatureWidgetProps> = ({
       saveToUndoStack();
     }
     
+    if (draftKey) {
+      deleteDraft(draftKey)
+        .catch(error => console.warn('[SignatureWidget] Failed to remove offline signature:', error));
+    }
     onClear?.();
-  }, [backgroundColor, width, height, enableUndo, saveToUndoStack, onClear]);
+  }, [backgroundColor, width, height, enableUndo, saveToUndoStack, onClear, draftKey]);
 
   // Undo last action
   const undo = useCallback(() => {
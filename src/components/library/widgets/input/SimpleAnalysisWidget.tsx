@@ -32,7 +32,7 @@ interface Props {
 }
 
 export const SimpleAnalysisWidget: React.FC<Props> = ({ title, images, text, promptConfig, initialResult, previousResponseId, onResult }) => {
-  const openai = useOpenAI(getOpenAIConfig());
+  const openai = useOpenAI({ ...getOpenAIConfig(), feature: 'wizard' });
   const [loading, setLoading] = React.useState(false);
   const [overview, setOverview] = React.useState<string>(initialResult?.overview || '');
   const [streamingProgress, setStreamingProgress] = React.useState<string>('');
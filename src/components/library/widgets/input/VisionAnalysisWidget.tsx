@@ -40,7 +40,7 @@ export interface VisionAnalysisWidgetProps {
 }
 
 export const VisionAnalysisWidget: React.FC<VisionAnalysisWidgetProps> = React.memo(({ id, title, images, text, promptConfig, initialSelection, initialResult, compactDefault, onResult, langGraphConfig }) => {
-  const visionAI = useOpenAI(getOpenAIConfig());
+  const visionAI = useOpenAI({ ...getOpenAIConfig(), feature: 'wizard' });
   const { analyzeVision } = visionAI;
   const [analyzing, setAnalyzing] = useState(false);
   const [overview, setOverview] = useState<string | undefined>(initialResult?.overview);
@@ -110,7 +110,7 @@ export const VoiceRecorderWidget: React.FC<VoiceRecorderWidgetProps> = ({
   const speechRecRef = useRef<any>(null);
 
   // OpenAI hook
-  const openAI = useOpenAI(openaiConfig || { apiKey: '' });
+  const openAI = useOpenAI({ ...openaiConfig, feature: 'wizard' });
 
   // Initialize audio context for visualization
   const initializeAudioContext = useCallback(async () => {
@@ -259,7 +259,7 @@ export const VoiceRecorderWidget: React.FC<VoiceRecorderWidgetProps> = ({
         reader.readAsDataURL(blob);
 
         // Auto-transcribe if enabled
-        if (autoTranscribe && openaiConfig?.apiKey) {
+        if (autoTranscribe) {
           await transcribeAudio(blob);
         }
       };
@@ -291,7 +291,7 @@ export const VoiceRecorderWidget: React.FC<VoiceRecorderWidgetProps> = ({
       console.error('Error accessing microphone:', error);
       setError('Unable to access microphone. Please check permissions.');
     }
-  }, [onChange, transcription, confidence, autoTranscribe, openaiConfig?.apiKey, showVisualization, initializeAudioContext, drawVisualization, maxDuration, streamingSupported, startStreamingSTT]);
+  }, [onChange, transcription, confidence, autoTranscribe, showVisualization, initializeAudioContext, drawVisualization, maxDuration, streamingSupported, startStreamingSTT]);
 
   // Stop recording
   const stopRecording = useCallback(() => {
@@ -325,11 +325,6 @@ export const VoiceRecorderWidget: React.FC<VoiceRecorderWidgetProps> = ({
 
   // Transcribe audio using OpenAI
   const transcribeAudio = useCallback(async (audioBlob: Blob) => {
-    if (!openaiConfig?.apiKey) {
-      setError('OpenAI API key is required for transcription');
-      return;
-    }
-
     setIsTranscribing(true);
     setError('');
 
@@ -409,7 +404,7 @@ export const VoiceRecorderWidget: React.FC<VoiceRecorderWidgetProps> = ({
     } finally {
       setIsTranscribing(false);
     }
-  }, [openaiConfig?.apiKey, language, value?.audioUrl, onChange, openAI]);
+  }, [language, value?.audioUrl, onChange, openAI]);
 
   // Play audio
   const playAudio = useCallback(() => {
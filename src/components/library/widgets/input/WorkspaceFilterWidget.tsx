@@ -3,14 +3,16 @@
  * 
  * Generic filter widget that renders different filter types based on metadata.
  * Supports: select, multiselect, daterange, text, number filters with dependencies.
+ * Optionally shows saved filter presets and a copy-link action for the current filters.
  * Completely metadata-driven with no hardcoded business logic.
  */
 
-import { ClearOutlined, FilterOutlined } from '@ant-design/icons';
-import { Button, Card, Col, DatePicker, Input, Row, Select, Space } from 'antd';
+import { ClearOutlined, DownOutlined, FilterOutlined, LinkOutlined, SaveOutlined } from '@ant-design/icons';
+import { Button, Card, Col, DatePicker, Dropdown, Input, message, Popover, Row, Select, Space, Tooltip } from 'antd';
+import type { MenuProps } from 'antd';
 import dayjs from 'dayjs';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { FilterDefinition, useWorkspaceFilters } from '../../../../contexts/WorkspaceFilterContext';
+import { FilterDefinition, useOptionalWorkspaceFilters } from '../../../../contexts/WorkspaceFilterContext';
 import { BaseGadget } from '../../gadgets/base';
 
 const { RangePicker } = DatePicker;
@@ -21,6 +23,7 @@ export interface WorkspaceFilterWidgetProps {
   layout?: 'horizontal' | 'vertical' | 'compact';
   showClearAll?: boolean;
   showFilterCount?: boolean;
+  showPresets?: boolean;
   className?: string;
 }
 
@@ -29,28 +32,28 @@ export const WorkspaceFilterWidget: React.FC<WorkspaceFilterWidgetProps> = ({
   layout = 'horizontal',
   showClearAll = true,
   showFilterCount = true,
+  showPresets = true,
   className = ''
 }) => {
-  // Try to get workspace filters, but provide fallback if not available
-  let filters: Record<string, any> = {};
-  let setFilter = (_filterId: string, _value: any) => {};
-  let clearFilter = (_filterId: string) => {};
-  let clearAllFilters = () => {};
-  let isLoading = false;
-
-  try {
-    const workspaceFilters = useWorkspaceFilters();
-    filters = workspaceFilters.filters;
-    setFilter = workspaceFilters.setFilter;
-    clearFilter = workspaceFilters.clearFilter;
-    clearAllFilters = workspaceFilters.clearAllFilters;
-    isLoading = workspaceFilters.isLoading;
-  } catch (error) {
-    console.warn('WorkspaceFilterWidget: No filter context available, using fallback');
-  }
+  // Outside a WorkspaceFilterProvider the widget gets a stable no-op state
+  const {
+    filters,
+    setFilter,
+    clearFilter,
+    clearAllFilters,
+    isLoading,
+    presets,
+    savePreset,
+    applyPreset,
+    deletePreset,
+    getShareUrl,
+    validateRestoredFilter
+  } = useOptionalWorkspaceFilters();
 
   const [filterOptions, setFilterOptions] = useState<Record<string, Array<{ label: string; value: any }>>>({});
   const [loadingOptions, setLoadingOptions] = useState<Record<string, boolean>>({});
+  const [presetName, setPresetName] = useState('');
+  const [savePresetOpen, setSavePresetOpen] = useState(false);
 
   // Load dynamic filter options
   const loadFilterOptions = useCallback(async (filterDef: FilterDefinition) => {
@@ -169,8 +172,9 @@ const response = await BaseGadget.makeAuthenticatedFetch(url);
           // Clear existing options and reload
           setFilterOptions(prev => ({ ...prev, [filterDef.id]: [] }));
           
-          // Clear the dependent filter value since it may no longer be valid
-          if (filters[filterDef.id]) {
+          // Clear the dependent filter value since it may no longer be valid,
+          // unless it was set together with its parent (restored from the URL or a preset)
+          if (filters[filterDef.id] && !changedFilters.includes(filterDef.id)) {
             clearFilter(filterDef.id);
           }
           
@@ -183,6 +187,88 @@ const response = await BaseGadget.makeAuthenticatedFetch(url);
     prevFiltersRef.current = filters;
   }, [filters, filterDefinitions, loadFilterOptions, clearFilter]);
 
+  // Check restored values against options once they are loaded
+  useEffect(() => {
+    filterDefinitions.forEach(filterDef => {
+      const options = filterOptions[filterDef.id];
+      if (filterDef.optionsUrl && options && !loadingOptions[filterDef.id]) {
+        validateRestoredFilter(filterDef.id, options);
+      }
+    });
+  }, [filterDefinitions, filterOptions, loadingOptions, validateRestoredFilter]);
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    savePreset(presetName);
+    message.success(`Saved filter preset "${presetName.trim()}"`);
+    setPresetName('');
+    setSavePresetOpen(false);
+  };
+
+  const handleCopyLink = async () => {
+    const url = getShareUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      message.success('Link to these filters copied');
+    } catch {
+      message.info(url);
+    }
+  };
+
+  const presetMenu: MenuProps = {
+    items: [
+      ...presets.map(preset => ({ key: `apply:${preset.name}`, label: preset.name })),
+      { type: 'divider' as const },
+      {
+        key: 'delete',
+        label: 'Delete preset',
+        danger: true,
+        children: presets.map(preset => ({ key: `delete:${preset.name}`, label: preset.name }))
+      }
+    ],
+    onClick: ({ key }) => {
+      const [action, ...name] = key.split(':');
+      if (action === 'apply') applyPreset(name.join(':'));
+      if (action === 'delete') deletePreset(name.join(':'));
+    }
+  };
+
+  const renderPresetControls = () => (
+    <Space size="small">
+      <Dropdown menu={presetMenu} disabled={presets.length === 0} trigger={['click']}>
+        <Button size="small">
+          Presets <DownOutlined />
+        </Button>
+      </Dropdown>
+      <Popover
+        trigger="click"
+        open={savePresetOpen}
+        onOpenChange={setSavePresetOpen}
+        content={
+          <Space.Compact>
+            <Input
+              size="small"
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onPressEnter={handleSavePreset}
+            />
+            <Button size="small" type="primary" onClick={handleSavePreset} disabled={!presetName.trim()}>
+              Save
+            </Button>
+          </Space.Compact>
+        }
+      >
+        <Button size="small" icon={<SaveOutlined />} disabled={Object.keys(filters).length === 0}>
+          Save
+        </Button>
+      </Popover>
+      <Tooltip title="Copy link to these filters">
+        <Button size="small" icon={<LinkOutlined />} onClick={handleCopyLink} />
+      </Tooltip>
+    </Space>
+  );
+
   const renderFilter = (filterDef: FilterDefinition) => {
     const currentFilter = filters[filterDef.id];
     const options = filterOptions[filterDef.id] || filterDef.options || [];
@@ -335,16 +421,19 @@ const response = await BaseGadget.makeAuthenticatedFetch(url);
         </Space>
       }
       extra={
-        showClearAll && activeFilterCount > 0 && (
-          <Button 
-            type="text" 
-            size="small" 
-            icon={<ClearOutlined />}
-            onClick={clearAllFilters}
-          >
-            Clear All
-          </Button>
-        )
+        <Space size="small">
+          {showPresets && renderPresetControls()}
+          {showClearAll && activeFilterCount > 0 && (
+            <Button 
+              type="text" 
+              size="small" 
+              icon={<ClearOutlined />}
+              onClick={clearAllFilters}
+            >
+              Clear All
+            </Button>
+          )}
+        </Space>
       }
     >
       <Row gutter={[16, 16]}>
@@ -389,6 +478,9 @@ const response = await BaseGadget.makeAuthenticatedFetch(url);
             </div>
           </Col>
         ))}
+        {showPresets && (
+          <Col>{renderPresetControls()}</Col>
+        )}
         {showClearAll && (
           <Col>
             <Button 
@@ -423,6 +515,7 @@ const response = await BaseGadget.makeAuthenticatedFetch(url);
             {renderFilter(filterDef)}
           </div>
         ))}
+        {showPresets && renderPresetControls()}
         {showClearAll && (
           <Button 
             type="default" 
@@ -77,7 +77,7 @@ export type { OTPInputWidgetProps } from './OTPInputWidget';
 export { LocationPickerWidget } from './LocationPickerWidget';
 export type { CoordinateFormat, LocationData, LocationPickerWidgetProps } from './LocationPickerWidget';
 
-export { SignatureWidget } from './SignatureWidget';
+export { SignatureWidget, signatureDraftKey } from './SignatureWidget';
 export type { SignatureData, SignatureWidgetProps } from './SignatureWidget';
 
 export { DrawingWidget } from './DrawingWidget';
@@ -74,14 +74,8 @@ export const ConfigValidator: React.FC<ConfigValidatorProps> = ({
             <Title level={5}>Current Configuration:</Title>
             <Space direction="vertical">
               <div>
-                <Text strong>OpenAI API Key: </Text>
-                <Tag color={devConfig.showApiKey !== 'Not set' ? 'green' : 'red'}>
-                  {devConfig.showApiKey}
-                </Tag>
-              </div>
-              <div>
-                <Text strong>Base URL: </Text>
-                <Tag color="blue">{devConfig.baseUrl}</Tag>
+                <Text strong>AI Gateway: </Text>
+                <Tag color="blue">{devConfig.gatewayPath}</Tag>
               </div>
             </Space>
           </div>
@@ -91,9 +85,9 @@ export const ConfigValidator: React.FC<ConfigValidatorProps> = ({
           message="Setup Instructions"
           description={
             <div>
-              <p>1. Create a <code>.env</code> file in your project root</p>
-              <p>2. Add your OpenAI API key: <code>REACT_APP_OPENAI_API_KEY=sk-your_key_here</code></p>
-              <p>3. Restart your development server</p>
+              <p>1. Set <code>OPENAI_API_KEY</code> in the API server environment (never in the frontend <code>.env</code>)</p>
+              <p>2. Review model allow-lists and quotas in <code>public/data/ai-config/ai-gateway.json</code></p>
+              <p>3. Restart the API server</p>
               <p>See <code>API_KEY_SETUP.md</code> for detailed instructions.</p>
             </div>
           }
@@ -4,6 +4,7 @@ import React, { useCallback, useMemo } from 'react';
 import type { MenuItem, Module } from '../../schemas/module';
 import { useModule } from '../containers/ModuleContainer';
 import { ModuleBar } from './ModuleBar';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
 import { ThemeSelector } from './ThemeSelector';
 import { HeaderLogo } from './atoms/ThemeLogo';
 
@@ -250,6 +251,7 @@ export const AppLayout: React.FC<LayoutProps> = ({
           </Space>
 
           <Space size={10} align="center" className="app-user" style={{ padding: '4px 8px', borderRadius: 8 }}>
+            <SyncStatusIndicator />
             <ThemeSelector />
             {user?.role && (
               <Text style={{ color: 'hsl(var(--muted-foreground))', fontSize: 12 }}>{user.role}</Text>
@@ -0,0 +1,92 @@
+/**
+ * Sync Status Indicator
+ *
+ * Header badge for offline capture: shows when the app is offline and how many
+ * writes are waiting in the sync queue, and lets the user resolve conflicts
+ * (keep the local change or the server copy) and retry failed items.
+ * Hidden while online with an empty queue.
+ */
+
+import { CloudSyncOutlined, DisconnectOutlined, WarningOutlined } from '@ant-design/icons';
+import { Badge, Button, Popover, Space, Typography } from 'antd';
+import React, { useEffect, useState } from 'react';
+import { syncQueue, SyncQueueItem, SyncQueueState } from '../../services/SyncQueue';
+
+const { Text } = Typography;
+
+const describeItem = (item: SyncQueueItem) =>
+  item.kind === 'upload' ? `Photo ${item.fileName || ''}`.trim() : `${item.method} ${item.url.split('?')[0]}`;
+
+export const SyncStatusIndicator: React.FC = () => {
+  const [state, setState] = useState<SyncQueueState>(syncQueue.getState());
+
+  useEffect(() => {
+    const unsubscribe = syncQueue.subscribe(setState);
+    const stop = syncQueue.start();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  const issues = state.conflicts.length + state.failed.length;
+  if (state.online && state.pending === 0 && issues === 0) {
+    return null;
+  }
+
+  const renderItem = (item: SyncQueueItem, actions: React.ReactNode) => (
+    <div key={item.id} style={{ padding: '6px 0', borderTop: '1px solid hsl(var(--border))' }}>
+      <Text style={{ fontSize: 12, display: 'block' }}>{describeItem(item)}</Text>
+      {item.error && <Text type="secondary" style={{ fontSize: 12, display: 'block' }}>{item.error}</Text>}
+      <Space size={4} style={{ marginTop: 4 }}>{actions}</Space>
+    </div>
+  );
+
+  const content = (
+    <div style={{ width: 300 }}>
+      <Text style={{ display: 'block', marginBottom: 8 }}>
+        {state.online ? 'Online' : 'Offline'} · {state.pending} change{state.pending === 1 ? '' : 's'} waiting to sync
+      </Text>
+      {state.conflicts.map(item => renderItem(item, (
+        <>
+          <Text type="warning" style={{ fontSize: 12 }}>Changed on the server</Text>
+          <Button size="small" onClick={() => syncQueue.resolveConflict(item.id, 'keep-local')}>Keep mine</Button>
+          <Button size="small" onClick={() => syncQueue.resolveConflict(item.id, 'discard')}>Use server</Button>
+        </>
+      )))}
+      {state.failed.map(item => renderItem(item, (
+        <>
+          <Button size="small" onClick={() => syncQueue.retry(item.id)}>Retry</Button>
+          <Button size="small" danger onClick={() => syncQueue.discard(item.id)}>Discard</Button>
+        </>
+      )))}
+      <Button
+        size="small"
+        type="primary"
+        block
+        style={{ marginTop: 8 }}
+        loading={state.syncing}
+        disabled={!state.online || state.pending === 0}
+        onClick={() => syncQueue.flush()}
+      >
+        Sync now
+      </Button>
+    </div>
+  );
+
+  const icon = issues > 0
+    ? <WarningOutlined style={{ color: 'hsl(var(--destructive))' }} />
+    : state.online
+      ? <CloudSyncOutlined spin={state.syncing} />
+      : <DisconnectOutlined />;
+
+  return (
+    <Popover content={content} title="Offline sync" trigger="click" placement="bottomRight">
+      <Badge count={state.pending + issues} size="small" offset={[-2, 2]}>
+        <Button type="text" size="small" icon={icon} aria-label="Offline sync status" />
+      </Badge>
+    </Popover>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -4,9 +4,10 @@
  * Renders workspace content using only the GadgetRegistry.
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useDevWorkspaceValidation } from '../../../hooks/useWorkspaceValidation';
 import { WorkspaceDefinition } from '../../../schemas/workspace';
+import { DataFlowBus } from '../../library/core/DataFlowBus';
 import { GadgetRegistry } from '../../library/core/GadgetRegistry';
 import { WidgetRegistry } from '../../library/core/WidgetRegistry';
 import { ValidationAlert } from '../validation/ValidationBadge';
@@ -42,6 +43,9 @@ export const GadgetWorkspaceRenderer: React.FC<GadgetWorkspaceRendererProps> = (
   // Schema validation for development
   const validation = useDevWorkspaceValidation(workspace);
 
+  // Gadget output -> input connections declared in the workspace JSON
+  const dataFlowBus = useMemo(() => DataFlowBus.fromWorkspace(workspace), [workspace]);
+
   /**
    * Render a single gadget - the ONLY place where gadget rendering logic exists
    */
@@ -85,6 +89,7 @@ let gadgetInstance;
         widgetRegistry: WidgetRegistry,
         gadgetId: gadget.id,
         widgets: {},
+        dataFlow: dataFlowBus.forGadget(gadget.id),
         // Add user information from auth context
         user: user
       };
@@ -216,6 +221,8 @@ onAction?.('expand', { gadgetId: gadget.id });
       WorkspaceFilterProvider,
       {
         filterDefinitions: filterContext.filterDefinitions,
+        workspaceId: workspace.id,
+        userId: user?.id,
         onFiltersChange: (filters) => {
 // Optionally notify parent component
           onAction?.('filtersChanged', { filters });
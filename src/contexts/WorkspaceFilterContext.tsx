@@ -3,9 +3,21 @@
  * 
  * Provides workspace-level filter state management that propagates to all gadgets.
  * Completely generic and metadata-driven - no hardcoded filter logic.
+ * Filters are mirrored in the URL query string (see utils/filterUrlState) and
+ * can be saved as named presets per user.
  */
 
-import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import { message } from 'antd';
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { deleteFilterPreset, FilterPreset, loadFilterPresets, saveFilterPreset } from '../utils/filterPresets';
+import {
+  describeRestoreIssues,
+  FILTER_PARAM_PREFIX,
+  FilterRestoreIssue,
+  hasFilterParams,
+  readFiltersFromSearch,
+  writeFiltersToSearch
+} from '../utils/filterUrlState';
 
 export interface FilterValue {
   value: any;
@@ -48,6 +60,13 @@ export interface WorkspaceFilterContextValue {
   getFilterQuery: () => Record<string, any>; // Convert filters to API query params
   isLoading: boolean;
   refreshTrigger: number; // Increments when filters change to trigger gadget refresh
+  presets: FilterPreset[];
+  savePreset: (name: string) => void;
+  applyPreset: (name: string) => void;
+  deletePreset: (name: string) => void;
+  getShareUrl: () => string;
+  /** Drop restored (URL or preset) values that are not among the loaded options */
+  validateRestoredFilter: (filterId: string, options: Array<{ label: string; value: any }>) => void;
 }
 
 const WorkspaceFilterContext = createContext<WorkspaceFilterContextValue | undefined>(undefined);
@@ -56,19 +75,69 @@ export interface WorkspaceFilterProviderProps {
   children: ReactNode;
   filterDefinitions: FilterDefinition[];
   onFiltersChange?: (filters: WorkspaceFilters) => void;
+  workspaceId?: string; // Scopes saved presets
+  userId?: string;
+  syncWithUrl?: boolean; // Mirror filters in the query string (default true)
 }
 
+const notifyRestoreIssues = (issues: FilterRestoreIssue[]) => {
+  if (issues.length > 0) {
+    message.warning({ content: describeRestoreIssues(issues), duration: 6 });
+  }
+};
+
+const currentUrl = (search: string) =>
+  `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+
 export const WorkspaceFilterProvider: React.FC<WorkspaceFilterProviderProps> = ({
   children,
   filterDefinitions,
-  onFiltersChange
+  onFiltersChange,
+  workspaceId,
+  userId,
+  syncWithUrl = true
 }) => {
-  const [filters, setFilters] = useState<WorkspaceFilters>({});
+  // Filters from a shared or bookmarked URL take precedence over defaults
+  const [restored] = useState(() =>
+    syncWithUrl && hasFilterParams(window.location.search)
+      ? readFiltersFromSearch(window.location.search, filterDefinitions)
+      : null
+  );
+  const [filters, setFilters] = useState<WorkspaceFilters>(restored?.filters || {});
   const [isLoading, setIsLoading] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [presets, setPresets] = useState<FilterPreset[]>(() =>
+    workspaceId ? loadFilterPresets(workspaceId, userId) : []
+  );
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const skipDefaultsRef = useRef(!!restored);
+  const restoreNoticeShownRef = useRef(false);
+  // Restored filters whose options are loaded from optionsUrl and not yet checked
+  const pendingOptionChecksRef = useRef<Set<string>>(new Set());
+
+  const trackOptionChecks = useCallback((restoredFilters: WorkspaceFilters) => {
+    pendingOptionChecksRef.current = new Set(
+      filterDefinitions
+        .filter(def => def.optionsUrl && restoredFilters[def.id])
+        .map(def => def.id)
+    );
+  }, [filterDefinitions]);
+
+  useEffect(() => {
+    if (!restored || restoreNoticeShownRef.current) return;
+    restoreNoticeShownRef.current = true;
+    trackOptionChecks(restored.filters);
+    notifyRestoreIssues(restored.issues);
+  }, [restored, trackOptionChecks]);
 
   // Initialize default filter values
   useEffect(() => {
+    if (skipDefaultsRef.current) {
+      skipDefaultsRef.current = false;
+      return;
+    }
+
     const defaultFilters: WorkspaceFilters = {};
     filterDefinitions.forEach(def => {
       if (def.defaultValue !== undefined) {
@@ -178,6 +247,81 @@ setFilters({});
     return query;
   }, [filters, filterDefinitions]);
 
+  const validateRestoredFilter = useCallback((filterId: string, options: Array<{ label: string; value: any }>) => {
+    if (!pendingOptionChecksRef.current.has(filterId)) return;
+    pendingOptionChecksRef.current.delete(filterId);
+
+    const filter = filtersRef.current[filterId];
+    const filterDef = filterDefinitions.find(def => def.id === filterId);
+    if (!filter || !filterDef) return;
+
+    const values: any[] = Array.isArray(filter.value) ? filter.value : [filter.value];
+    const isAvailable = (value: any) => options.some(option => String(option.value) === String(value));
+    const invalid = values.filter(value => !isAvailable(value));
+    if (invalid.length === 0) return;
+
+    notifyRestoreIssues([{
+      filterId,
+      label: filterDef.label,
+      value: invalid.join(', '),
+      reason: `${invalid.join(', ')} is not available`
+    }]);
+
+    const valid = values.filter(isAvailable);
+    if (filterDef.type === 'multiselect' && valid.length > 0) {
+      setFilter(filterId, { ...filter, value: valid });
+    } else {
+      clearFilter(filterId);
+    }
+  }, [filterDefinitions, setFilter, clearFilter]);
+
+  const savePreset = useCallback((name: string) => {
+    if (!workspaceId || !name.trim()) return;
+    setPresets(saveFilterPreset(workspaceId, userId, name.trim(), filtersRef.current, filterDefinitions));
+  }, [workspaceId, userId, filterDefinitions]);
+
+  const applyPreset = useCallback((name: string) => {
+    const preset = presets.find(candidate => candidate.name === name);
+    if (!preset) return;
+
+    const result = readFiltersFromSearch(preset.query, filterDefinitions);
+    trackOptionChecks(result.filters);
+    setFilters(result.filters);
+    setRefreshTrigger(prev => prev + 1);
+    notifyRestoreIssues(result.issues);
+  }, [presets, filterDefinitions, trackOptionChecks]);
+
+  const deletePreset = useCallback((name: string) => {
+    if (!workspaceId) return;
+    setPresets(deleteFilterPreset(workspaceId, userId, name));
+  }, [workspaceId, userId]);
+
+  const getShareUrl = useCallback((): string => {
+    const search = writeFiltersToSearch(window.location.search, filtersRef.current, filterDefinitions);
+    return `${window.location.origin}${currentUrl(search)}`;
+  }, [filterDefinitions]);
+
+  // Mirror filters in the query string
+  useEffect(() => {
+    if (!syncWithUrl) return;
+    const url = currentUrl(writeFiltersToSearch(window.location.search, filters, filterDefinitions));
+    if (url !== currentUrl(window.location.search.replace(/^\?/, ''))) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [filters, filterDefinitions, syncWithUrl]);
+
+  // Remove this workspace's filter parameters when it unmounts
+  useEffect(() => {
+    if (!syncWithUrl) return;
+    return () => {
+      const params = new URLSearchParams(window.location.search);
+      Array.from(params.keys())
+        .filter(key => key.startsWith(FILTER_PARAM_PREFIX))
+        .forEach(key => params.delete(key));
+      window.history.replaceState(window.history.state, '', currentUrl(params.toString()));
+    };
+  }, [syncWithUrl]);
+
   // Notify parent of filter changes
   useEffect(() => {
     onFiltersChange?.(filters);
@@ -191,7 +335,13 @@ setFilters({});
     clearAllFilters,
     getFilterQuery,
     isLoading,
-    refreshTrigger
+    refreshTrigger,
+    presets,
+    savePreset,
+    applyPreset,
+    deletePreset,
+    getShareUrl,
+    validateRestoredFilter
   };
 
   return (
@@ -209,22 +359,28 @@ export const useWorkspaceFilters = (): WorkspaceFilterContextValue => {
   return context;
 };
 
+// Default state outside a provider; one shared object so its functions are stable
+const NO_WORKSPACE_FILTERS: WorkspaceFilterContextValue = {
+  filters: {},
+  filterDefinitions: [],
+  setFilter: () => {},
+  clearFilter: () => {},
+  clearAllFilters: () => {},
+  getFilterQuery: () => ({}),
+  isLoading: false,
+  refreshTrigger: 0,
+  presets: [],
+  savePreset: () => {},
+  applyPreset: () => {},
+  deletePreset: () => {},
+  getShareUrl: () => window.location.href,
+  validateRestoredFilter: () => {}
+};
+
 // Optional version that returns a default state if not within provider
 export const useOptionalWorkspaceFilters = (): WorkspaceFilterContextValue => {
   const context = useContext(WorkspaceFilterContext);
-  if (!context) {
-    return {
-      filters: {},
-      filterDefinitions: [],
-      setFilter: () => {},
-      clearFilter: () => {},
-      clearAllFilters: () => {},
-      getFilterQuery: () => ({}),
-      isLoading: false,
-      refreshTrigger: 0
-    };
-  }
-  return context;
+  return context || NO_WORKSPACE_FILTERS;
 };
 
 export default WorkspaceFilterContext;
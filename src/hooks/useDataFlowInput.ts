@@ -0,0 +1,33 @@
+/**
+ * React Hook for Gadget Data Flow Inputs
+ *
+ * Subscribes a gadget component to one of its inputs on the workspace
+ * DataFlowBus (GadgetContext.dataFlow) and re-renders when a connected
+ * gadget emits a new value.
+ */
+
+import { useEffect, useState } from 'react';
+import { GadgetDataFlow } from '../components/library/core/DataFlowBus';
+
+export function useDataFlowInput<T = any>(
+  dataFlow: GadgetDataFlow | undefined,
+  input: string,
+  initialValue?: T
+): T | undefined {
+  const [value, setValue] = useState<T | undefined>(() => {
+    const current = dataFlow?.getInput(input);
+    return current !== undefined ? current : initialValue;
+  });
+
+  useEffect(() => {
+    if (!dataFlow) return;
+
+    const current = dataFlow.getInput(input);
+    if (current !== undefined) {
+      setValue(() => current);
+    }
+    return dataFlow.subscribe(input, data => setValue(() => data));
+  }, [dataFlow, input]);
+
+  return value;
+}
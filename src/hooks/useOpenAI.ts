@@ -7,9 +7,44 @@
  * - Audio transcription (Whisper)
  * 
  * All configuration comes from metadata for flexibility and reusability.
+ * Requests go through the authenticated API gateway (/api/ai/gateway), which
+ * holds the provider key, applies tenant budgets, model allow-lists and
+ * redaction, and records token usage per tenant, user, feature and model;
+ * nothing here talks to OpenAI directly.
  */
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useState } from 'react';
+import { message } from 'antd';
+import { httpClient } from '../services/HttpClient';
+
+const AI_GATEWAY_PATH = '/api/ai/gateway';
+
+/**
+ * Body of a gateway response; errors become `HTTP <status>: <message>`
+ */
+const readGatewayResponse = async (response: Response): Promise<{ data: any }> => {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || payload?.success === false) {
+    throw new Error(`HTTP ${response.status}: ${payload?.error || response.statusText}`);
+  }
+  return payload || { data: null };
+};
+
+let budgetWarningShown = false;
+
+/**
+ * Budget percentage when the gateway reports the tenant past its warning
+ * threshold; the user is told once per page load
+ */
+const readBudgetWarning = (response: Response): number | null => {
+  if (response.headers?.get('X-AI-Budget-Status') !== 'warning') return null;
+  const percent = Number(response.headers.get('X-AI-Budget-Percent')) || null;
+  if (percent !== null && !budgetWarningShown) {
+    budgetWarningShown = true;
+    message.warning(`Your organization has used ${percent}% of its monthly AI budget.`);
+  }
+  return percent;
+};
 
   // Helper function to check if a model supports vision
   const isVisionModel = (model: string): boolean => {
@@ -22,11 +57,21 @@ import { useCallback, useMemo, useState } from 'react';
     );
   };
 
+/**
+ * Features AI usage is metered under; calls without one are reported as "other"
+ */
+export type AIFeature = 'wizard' | 'chatbot' | 'calculator' | 'column-mapping';
+
+/**
+ * Kept for existing callers; provider settings (key, base URL) live on the
+ * server and apiKey / baseUrl are ignored
+ */
 export interface OpenAIConfig {
-  apiKey: string;
+  apiKey?: string;
   baseUrl?: string;
   timeout?: number;
   retries?: number;
+  feature?: AIFeature;
 }
 
 export interface OpenAIModelConfig {
@@ -112,6 +157,8 @@ export interface UseOpenAIReturn {
   loading: boolean;
   error: string | null;
   lastResponse: OpenAIResponse | null;
+  /** Percentage of the tenant's monthly AI budget used, once past the warning threshold */
+  budgetWarning: number | null;
   
   // Actions
   analyzeText: (request: TextAnalysisRequest) => Promise<OpenAIResponse>;
@@ -140,6 +187,8 @@ export const useOpenAI = (config: OpenAIConfig): UseOpenAIReturn => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastResponse, setLastResponse] = useState<OpenAIResponse | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<number | null>(null);
+  const { feature } = config;
 
   // API usage tracking
   const [apiUsage, setApiUsage] = useState({
@@ -182,159 +231,38 @@ console.groupEnd();
     });
   }, []);
 
-  // Default configuration
-  const defaultConfig = useMemo(() => ({
-    baseUrl: 'https://api.openai.com/v1',
-    timeout: 30000,
-    retries: 3,
-    ...config
-  }), [config]);
-
-  // Generic API call function with comprehensive logging
-  const makeAPICall = useCallback(async <T>(endpoint: string, options: RequestInit): Promise<T> => {
-    const url = `${defaultConfig.baseUrl}${endpoint}`;
-    const timestamp = new Date().toISOString();
-    const requestId = Math.random().toString(36).substr(2, 9);
-    
-    // Log request
-    console.group(`🚀 [OpenAI API] Request ${requestId} - ${timestamp}`);
-console.log('🔗 Full URL:', url);
-const isFormData = options.body instanceof FormData;
-    const baseHeaders = {
-      'Authorization': `Bearer ${defaultConfig.apiKey}`,
-    };
-    if (!isFormData) {
-      (baseHeaders as any)['Content-Type'] = 'application/json';
+  // All calls go through the API gateway: the provider key, tenant quotas,
+  // model allow-lists and usage recording live on the server
+  const makeAPICall = useCallback(async <T>(endpoint: string, body: Record<string, any> | FormData): Promise<T> => {
+    const url = `${AI_GATEWAY_PATH}${endpoint}`;
+    if (feature && body instanceof FormData) body.append('feature', feature);
+    const response = body instanceof FormData
+      ? await httpClient.upload(url, body)
+      : await httpClient.post(url, feature ? { ...body, feature } : body);
+    const rawResponse = (await readGatewayResponse(response)).data;
+    setBudgetWarning(readBudgetWarning(response));
+
+    if (endpoint === '/audio/transcriptions') {
+      return {
+        data: typeof rawResponse === 'string' ? rawResponse : rawResponse?.text || '',
+        model: 'whisper-1',
+        finishReason: 'stop'
+      } as T;
     }
-    const headers = {
-      ...baseHeaders,
-      ...options.headers,
-    };
-if (options.body && !isFormData) {
-      try {
-        const bodyData = JSON.parse(options.body as string);
-console.log('🤖 Model:', bodyData.model);
-        if (bodyData.messages) {
-console.log('💬 Messages:', bodyData.messages);
-        }
-        if (bodyData.response_format) {
-}
-      } catch (e) {
-}
-    } else if (isFormData) {
-// Log FormData entries
-      const formData = options.body as FormData;
-      const entries = Array.from(formData.entries());
-      entries.forEach(([key, value]) => {
-        if (value instanceof File) {
-} else {
-}
-      });
+    if (endpoint === '/chat/completions') {
+      return {
+        data: rawResponse.choices?.[0]?.message?.content || '',
+        usage: rawResponse.usage ? {
+          promptTokens: rawResponse.usage.prompt_tokens,
+          completionTokens: rawResponse.usage.completion_tokens,
+          totalTokens: rawResponse.usage.total_tokens
+        } : undefined,
+        model: rawResponse.model,
+        finishReason: rawResponse.choices?.[0]?.finish_reason
+      } as T;
     }
-    console.groupEnd();
-
-    const startTime = performance.now();
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
-      });
-
-      const endTime = performance.now();
-      const duration = Math.round(endTime - startTime);
-
-      // Log response
-      console.group(`📥 [OpenAI API] Response ${requestId} - ${new Date().toISOString()}`);
-console.log('📊 Status:', response.status, response.statusText);
-console.log('📋 Response Headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Error Response Body:', errorText);
-        console.groupEnd();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
-
-      // Handle different response types
-      let responseData: T;
-      if (endpoint === '/audio/transcriptions') {
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('text/plain')) {
-          const text = await response.text();
-responseData = { data: text, model: 'whisper-1' } as T;
-        } else {
-          const rawResponse = await response.json();
-// Process audio transcription response
-          responseData = {
-            data: rawResponse.text || '',
-            usage: rawResponse.usage ? {
-              promptTokens: 0,
-              completionTokens: 0,
-              totalTokens: 0
-            } : undefined,
-            model: 'whisper-1',
-            finishReason: 'stop'
-          } as T;
-        }
-      } else {
-        const rawResponse = await response.json();
-// Log specific OpenAI response details
-        if (rawResponse.choices) {
-rawResponse.choices.forEach((choice: any, index: number) => {
-            console.log(`💭 Choice ${index}:`, {
-              role: choice.message?.role,
-              content: choice.message?.content?.substring(0, 200) + (choice.message?.content?.length > 200 ? '...' : ''),
-              finish_reason: choice.finish_reason
-            });
-          });
-        }
-        if (rawResponse.usage) {
-console.log('💰 Estimated Cost:', {
-            prompt_tokens: rawResponse.usage.prompt_tokens,
-            completion_tokens: rawResponse.usage.completion_tokens,
-            total_tokens: rawResponse.usage.total_tokens
-          });
-        }
-        if (rawResponse.model) {
-}
-        
-        // Process the response based on endpoint
-        if (endpoint === '/chat/completions') {
-          // Extract content from chat completion response
-          const content = rawResponse.choices?.[0]?.message?.content || '';
-          responseData = {
-            data: content,
-            usage: rawResponse.usage ? {
-              promptTokens: rawResponse.usage.prompt_tokens,
-              completionTokens: rawResponse.usage.completion_tokens,
-              totalTokens: rawResponse.usage.total_tokens
-            } : undefined,
-            model: rawResponse.model,
-            finishReason: rawResponse.choices?.[0]?.finish_reason
-          } as T;
-        } else {
-          // For other endpoints, return the raw response
-          responseData = rawResponse as T;
-        }
-      }
-
-      console.groupEnd();
-      return responseData;
-    } catch (error: any) {
-      const endTime = performance.now();
-      const duration = Math.round(endTime - startTime);
-      
-      console.group(`❌ [OpenAI API] Error ${requestId} - ${new Date().toISOString()}`);
-console.log('🔗 URL:', url);
-      console.error('❌ Error:', error);
-      console.error('❌ Error Message:', error.message);
-      console.error('❌ Error Stack:', error.stack);
-      console.groupEnd();
-      
-      throw error;
-    }
-  }, [defaultConfig]);
+    return rawResponse as T;
+  }, [feature]);
 
   // Text analysis using GPT models with usage tracking
   const analyzeText = useCallback(async (request: TextAnalysisRequest): Promise<OpenAIResponse> => {
@@ -408,10 +336,7 @@ requestBody.response_format = { type: 'json_object' };
       try {
 } catch {}
 
-      const response = await makeAPICall<OpenAIResponse>('/chat/completions', {
-        method: 'POST',
-        body: JSON.stringify(requestBody),
-      });
+      const response = await makeAPICall<OpenAIResponse>('/chat/completions', requestBody);
 
       // Track usage
       updateUsage(request.modelConfig.model, response.data?.usage);
@@ -515,7 +440,7 @@ requestBody.response_format = { type: 'json_object' };
         if (typeof prev === 'string' && prev) body.previous_response_id = prev;
       } catch {}
 
-      const raw = await makeAPICall<any>('/responses', { method: 'POST', body: JSON.stringify(body) });
+      const raw = await makeAPICall<any>('/responses', body);
 
       let outputText = '';
       try {
@@ -589,7 +514,7 @@ requestBody.response_format = { type: 'json_object' };
         textFormat: body.text
       });
 
-      const raw = await makeAPICall<any>('/responses', { method: 'POST', body: JSON.stringify(body) });
+      const raw = await makeAPICall<any>('/responses', body);
       
       // Debug: Log the complete response structure
 let outputText = '';
@@ -697,19 +622,12 @@ let outputText = '';
         body.reasoning = { effort: request.reasoningEffort || 'low' };
       }
 
-      const url = `${defaultConfig.baseUrl}/responses`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${defaultConfig.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      });
+      const response = await httpClient.post(`${AI_GATEWAY_PATH}/responses`, feature ? { ...body, feature } : body);
       if (!response.ok || !response.body) {
-        const errText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errText}`);
+        await readGatewayResponse(response);
+        throw new Error(`HTTP ${response.status}: empty stream`);
       }
+      setBudgetWarning(readBudgetWarning(response));
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder('utf-8');
@@ -864,7 +782,7 @@ break;
     } finally {
       setLoading(false);
     }
-  }, [defaultConfig, updateUsage]);
+  }, [feature, updateUsage]);
 
   // Audio transcription using Whisper with usage tracking
   const transcribeAudio = useCallback(async (request: AudioTranscriptionRequest): Promise<OpenAIResponse> => {
@@ -895,10 +813,7 @@ break;
         formData.append('response_format', request.responseFormat);
       }
 
-      const response = await makeAPICall<OpenAIResponse>('/audio/transcriptions', {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await makeAPICall<OpenAIResponse>('/audio/transcriptions', formData);
 
       // Track usage (Whisper doesn't return token usage, estimate based on audio duration)
       const modelUsed = request.modelConfig?.model || 'whisper-1';
@@ -927,6 +842,7 @@ break;
     loading,
     error,
     lastResponse,
+    budgetWarning,
     analyzeText,
     analyzeVision,
     respond,
@@ -1,6 +1,9 @@
 import { message } from 'antd';
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { httpClient } from '../services/HttpClient';
+import { deleteDraft, loadDraft, saveDraft } from '../services/OfflineStore';
+import { resolveRevision, resolveUpdatedAt, syncQueue } from '../services/SyncQueue';
+import { diffRecords, FieldConflict, MergeChoice, mergeRecords, RevisionConflictError } from '../utils/recordMerge';
 
 interface WizardRecordOptions {
   documentType?: string;
@@ -19,6 +22,7 @@ interface WizardRecordPayload {
   inspectionType?: string;
   inspectionTypeLabel?: string;
   detectedEquipmentType?: string;
+  revision?: number;
   [key: string]: any;
 }
 
@@ -34,6 +38,15 @@ interface SaveResult {
   [key: string]: any;
 }
 
+/**
+ * A save rejected because the record changed on the server since it was loaded
+ */
+export interface RecordSaveConflict {
+  local: Record<string, any>;
+  server: Record<string, any>;
+  conflicts: FieldConflict[];
+}
+
 const mergeSummaryFields = (target: Record<string, any>, summary?: Record<string, any>) => {
   if (!summary || typeof summary !== 'object') return;
   Object.entries(summary).forEach(([key, value]) => {
@@ -43,6 +56,11 @@ const mergeSummaryFields = (target: Record<string, any>, summary?: Record<string
   });
 };
 
+/**
+ * Offline draft key of a wizard record
+ */
+export const recordDraftKey = (id: string) => `record:${id}`;
+
 const resolveDocumentId = (result: SaveResult | Response): string | undefined => {
   if (!result) return undefined;
   if (result instanceof Response) return undefined;
@@ -52,10 +70,35 @@ const resolveDocumentId = (result: SaveResult | Response): string | undefined =>
 export const useWizardRecordSave = (options?: WizardRecordOptions) => {
   const [recordId, setRecordId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [conflict, setConflict] = useState<RecordSaveConflict | null>(null);
+  // Server timestamp of the copy being edited; queued updates are checked against it
+  const serverUpdatedAtRef = useRef<string | undefined>(undefined);
+  // Revision of the copy being edited; saves against an older revision are rejected
+  const revisionRef = useRef<number | undefined>(undefined);
 
   const documentType = useMemo(() => options?.documentType || 'inspection', [options?.documentType]);
   const workspaceId = options?.workspaceId;
 
+  // A record created offline gets its server id once the queue replays the create
+  useEffect(() => syncQueue.onIdResolved((localId, serverId, result) => {
+    serverUpdatedAtRef.current = resolveUpdatedAt(result);
+    revisionRef.current = resolveRevision(result);
+    setRecordId(current => (current === localId ? serverId : current));
+    loadDraft(recordDraftKey(localId))
+      .then(draft => draft && saveDraft(recordDraftKey(serverId), { ...draft.data, id: serverId }))
+      .then(() => deleteDraft(recordDraftKey(localId)))
+      .catch(error => console.warn('[useWizardRecordSave] Failed to move offline draft:', error));
+  }), []);
+
+  /**
+   * Remember the server copy a restored record was loaded from
+   */
+  const trackServerCopy = useCallback((record: any) => {
+    serverUpdatedAtRef.current = resolveUpdatedAt(record);
+    // Records saved before revisions were introduced count as revision 0
+    revisionRef.current = record ? resolveRevision(record) ?? 0 : undefined;
+  }, []);
+
   const persistDocument = useCallback(async (payload: WizardRecordPayload, id?: string) => {
     const type = payload.documentType || payload.type || documentType;
     const body = {
@@ -82,29 +125,63 @@ export const useWizardRecordSave = (options?: WizardRecordOptions) => {
 
     const url = id ? `/api/documents/${id}` : '/api/documents';
     const method = id ? 'put' : 'post';
+    if (id && revisionRef.current !== undefined) {
+      body.revision = revisionRef.current;
+    }
 
     const response = await (method === 'put'
-      ? httpClient.put(url, body)
-      : httpClient.post(url, body));
+      ? httpClient.put(url, body, {
+          offline: { baseUpdatedAt: serverUpdatedAtRef.current, checkUrl: `${url}?type=${encodeURIComponent(type)}` }
+        })
+      : httpClient.post(url, body, { offline: true }));
 
     if (!response.ok) {
       let errorMessage = `Failed to save record: ${response.status} ${response.statusText}`;
+      let errorData: any;
       try {
-        const errorData = await response.json();
+        errorData = await response.json();
         if (errorData?.error) {
           errorMessage = errorData.error;
         }
       } catch {}
+      if (response.status === 409 && errorData?.details?.current) {
+        throw new RevisionConflictError(body, errorData.details.current);
+      }
       throw new Error(errorMessage);
     }
 
+    let result: any = {};
     try {
-      return await response.json();
-    } catch {
-      return {};
+      result = await response.json();
+    } catch {}
+
+    if (!result?.queued) {
+      serverUpdatedAtRef.current = resolveUpdatedAt(result) || serverUpdatedAtRef.current;
+      revisionRef.current = resolveRevision(result) ?? revisionRef.current;
+    }
+
+    // Keep the latest copy locally so the record can be reopened without a connection
+    const draftId = resolveDocumentId(result) || id;
+    if (draftId) {
+      saveDraft(recordDraftKey(draftId), { ...body, id: draftId })
+        .catch(error => console.warn('[useWizardRecordSave] Failed to save offline draft:', error));
     }
+
+    return result;
   }, [documentType, workspaceId]);
 
+  /**
+   * Open the merge for a rejected save, or pass other errors through
+   */
+  const handleSaveError = useCallback((error: unknown, fallbackMessage: string) => {
+    if (error instanceof RevisionConflictError) {
+      setConflict({ local: error.local, server: error.server, conflicts: diffRecords(error.local, error.server) });
+      message.warning(error.message);
+      return;
+    }
+    message.error((error as Error)?.message || fallbackMessage);
+  }, []);
+
   const saveRecord = useCallback(async (payload: WizardRecordPayload) => {
     try {
       setSaving(true);
@@ -114,16 +191,20 @@ export const useWizardRecordSave = (options?: WizardRecordOptions) => {
       if (newId && newId !== recordId) {
         setRecordId(newId);
       }
-      message.success('Record saved successfully');
+      if (result?.queued) {
+        message.info('Saved offline - the record will sync when the connection returns');
+      } else {
+        message.success('Record saved successfully');
+      }
       return result;
     } catch (error) {
       console.error('[useWizardRecordSave] saveRecord failed:', error);
-      message.error((error as Error)?.message || 'Failed to save record');
+      handleSaveError(error, 'Failed to save record');
       throw error;
     } finally {
       setSaving(false);
     }
-  }, [persistDocument, recordId]);
+  }, [handleSaveError, persistDocument, recordId]);
 
   const saveRecordProgress = useCallback(async (
     sectionId: string,
@@ -252,22 +333,55 @@ export const useWizardRecordSave = (options?: WizardRecordOptions) => {
         sectionsCount: response.sections?.length || 0
       });
 
-      message.success('Progress saved');
+      if (result?.queued) {
+        message.info('Progress saved offline - it will sync when the connection returns');
+      } else {
+        message.success('Progress saved');
+      }
       return response;
     } catch (error) {
       console.error('[useWizardRecordSave] saveRecordProgress failed:', error);
-      message.error((error as Error)?.message || 'Failed to save progress');
+      handleSaveError(error, 'Failed to save progress');
       throw error;
     } finally {
       setSaving(false);
     }
-  }, [documentType, persistDocument, recordId, workspaceId]);
+  }, [documentType, handleSaveError, persistDocument, recordId, workspaceId]);
+
+  /**
+   * Save again with the user's pick per conflicting field, against the server revision
+   */
+  const resolveConflict = useCallback(async (choices: Record<string, MergeChoice>) => {
+    if (!conflict || !recordId) return undefined;
+    try {
+      setSaving(true);
+      const merged = mergeRecords(conflict.local, conflict.conflicts, choices);
+      revisionRef.current = resolveRevision(conflict.server) ?? 0;
+      serverUpdatedAtRef.current = resolveUpdatedAt(conflict.server);
+      const result = await persistDocument(merged, recordId);
+      setConflict(null);
+      message.success('Merged changes saved');
+      return { merged, result };
+    } catch (error) {
+      console.error('[useWizardRecordSave] resolveConflict failed:', error);
+      handleSaveError(error, 'Failed to save merged record');
+      return undefined;
+    } finally {
+      setSaving(false);
+    }
+  }, [conflict, handleSaveError, persistDocument, recordId]);
+
+  const dismissConflict = useCallback(() => setConflict(null), []);
 
   return {
     recordId,
     saving,
     saveRecord,
     saveRecordProgress,
-    setRecordId
+    setRecordId,
+    trackServerCopy,
+    conflict,
+    resolveConflict,
+    dismissConflict
   };
 };
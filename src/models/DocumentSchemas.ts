@@ -19,6 +19,7 @@ export interface BaseDocument extends Document {
   last_updated?: Date;
   created_by?: string;
   updated_by?: string;
+  revision?: number; // Incremented on every update (optimistic concurrency)
   
   // RAG-specific fields for vector search and AI context
   embedding?: number[];
@@ -167,8 +168,24 @@ export interface InspectionDocument extends BaseDocument {
   // Core fields that are always present
   inspectionType: string; // Dynamic based on workspace metadata
   workspaceId: string; // Reference to the workspace definition
-  status: 'draft' | 'in_progress' | 'completed' | 'approved' | 'archived';
+  status: string; // Lifecycle state (public/data/lifecycles/inspection-lifecycles.json)
   progress: number; // 0-100 percentage
+
+  // Lifecycle - changed only through lifecycle transitions
+  lifecycleId?: string;
+  statusHistory?: Array<{
+    transition: string;
+    from: string;
+    to: string;
+    by: string;
+    byName?: string;
+    at: string;
+    comment?: string | null;
+    signature?: string;
+  }>;
+  locked?: boolean;
+  lockedAt?: string | null;
+  lockedBy?: string | null;
   
   // Metadata reference
   metadataVersion?: string; // Track which version of metadata was used
@@ -238,7 +255,8 @@ const BASE_AUDIT_FIELDS = {
   created_date: { type: Date, default: Date.now },
   last_updated: { type: Date, default: Date.now },
   created_by: String,
-  updated_by: String
+  updated_by: String,
+  revision: Number
 };
 
 // Mongoose Schemas
@@ -413,14 +431,21 @@ const InspectionSchema = new Schema({
   // Core inspection fields
   inspectionType: { type: String, required: true, index: true },
   workspaceId: { type: String, required: true, index: true },
+  // States come from the inspection lifecycle metadata
   status: { 
     type: String, 
     required: true, 
-    enum: ['draft', 'in_progress', 'completed', 'approved', 'archived'],
     default: 'draft',
     index: true 
   },
   progress: { type: Number, min: 0, max: 100, default: 0, index: true },
+
+  // Lifecycle tracking
+  lifecycleId: String,
+  statusHistory: [Schema.Types.Mixed],
+  locked: { type: Boolean, default: false },
+  lockedAt: String,
+  lockedBy: String,
   
   // Metadata tracking
   metadataVersion: String,
@@ -449,6 +474,7 @@ const InspectionSchema = new Schema({
   last_updated: { type: Date, default: Date.now },
   created_by: String,
   updated_by: String,
+  revision: Number,
   
   // RAG fields
   embedding: [Number],
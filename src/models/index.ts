@@ -22,6 +22,7 @@
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import type { AccessControlSettings } from '../services/rbac';
 
 // ==================== INTERFACES ====================
 
@@ -47,6 +48,7 @@ export interface ITenant extends Document {
       primaryColor?: string;
       companyName?: string;
     };
+    accessControl?: AccessControlSettings; // Attribute-based policies and permission conditions
   };
   aiRagSettings: {
     enabled: boolean;
@@ -69,6 +71,8 @@ export interface IRole extends Document {
   isSystemRole: boolean;
   isExternalCustomer: boolean; // Flag for external customer role restrictions
   allowedRoutes: string[];     // Restricted routes for external customers
+  inherits?: string[];         // Role names whose permissions this role inherits
+  excludes?: string[];         // Permission patterns removed from this role
   createdAt: Date;
   updatedAt: Date;
 }
@@ -222,7 +226,8 @@ const TenantSchema = new Schema<any>({
       logo: String,
       primaryColor: String,
       companyName: String
-    }
+    },
+    accessControl: Schema.Types.Mixed
   },
   aiRagSettings: {
     enabled: {
@@ -281,6 +286,12 @@ const RoleSchema = new Schema<any>({
   },
   allowedRoutes: [{
     type: String
+  }],
+  inherits: [{
+    type: String
+  }],
+  excludes: [{
+    type: String
   }]
 }, {
   timestamps: true
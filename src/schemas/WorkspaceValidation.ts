@@ -59,48 +59,15 @@ export const FilterContextSchema = z.object({
   message: 'Filter dependencies must reference existing filter IDs'
 });
 
-// Aggregation Configuration Schema
-export const AggregationConfigSchema = z.object({
-  name: z.string().min(1, 'Aggregation name is required'),
-  collection: z.string().min(1, 'Collection name is required'),
-  baseFilter: z.record(z.any()).refine(filter => {
-    // Accept either type (for documents) or workflowId (for executions)
-    return (filter.type && typeof filter.type === 'string') ||
-           (filter.workflowId && typeof filter.workflowId === 'string');
-  }, {
-    message: 'Base filter must include a document type or workflowId'
-  }),
-  fieldMappings: z.record(z.string()).optional(),
-  groupBy: z.record(z.any()).optional(),
-  pipeline: z.array(z.any()).optional(),
-  postProcess: z.object({
-    calculations: z.record(z.object({
-      formula: z.string()
-    }))
-  }).optional()
-}).refine(data => {
-  // Validate field mappings against document schema
-  if (!data.fieldMappings) return true;
-
-  // Skip validation for executions (they don't follow document schema)
-  if (data.baseFilter.workflowId) return true;
-
-  const documentType = data.baseFilter.type as string;
-  if (!DOCUMENT_FIELD_MAPPINGS[documentType]) {
-    return false; // Invalid document type
-  }
+// Data Flow Schema (gadget output -> gadget input connections, see DataFlowBus)
+export const DataFlowConnectionSchema = z.object({
+  source: z.string().min(1, 'Data flow source is required'),
+  target: z.string().regex(/^.+\..+$/, 'Data flow target must be "gadgetId.input"'),
+  transform: z.string().optional()
+});
 
-  // Validate each field mapping
-  for (const [filterField, dbField] of Object.entries(data.fieldMappings)) {
-    const validation = validateFieldMapping(documentType, filterField, dbField);
-    if (!validation.isValid) {
-      return false;
-    }
-  }
-  
-  return true;
-}, {
-  message: 'Field mappings contain invalid field references'
+export const DataFlowSchema = z.object({
+  connections: z.array(DataFlowConnectionSchema)
 });
 
 // KPI Configuration Schema
@@ -112,7 +79,7 @@ export const KPIConfigSchema = z.object({
   iconColor: z.string().optional(),
   unit: z.string().optional(),
   format: z.enum(['number', 'percentage', 'currency', 'text']).optional(),
-  aggregationConfig: AggregationConfigSchema.optional(),
+  metric: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Metric names are lowercase snake_case').optional(),
   dataPath: z.string().optional(),
   target: z.object({
     value: z.number(),
@@ -137,10 +104,7 @@ export const DataSourceConfigSchema = z.object({
     message: 'Must be a valid URL (relative like /api/endpoint or absolute like https://example.com/api/endpoint)'
   }),
   method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
-  headers: z.record(z.string()).optional(),
-  body: z.object({
-    config: AggregationConfigSchema.optional()
-  }).optional()
+  headers: z.record(z.string()).optional()
 });
 
 // RAG Chatbot Configuration Schema
@@ -346,6 +310,7 @@ export const WorkspaceConfigSchema = z.object({
   description: z.string().optional(),
   layout: z.enum(['dashboard', 'grid', 'list', 'form']).optional(),
   filterContext: FilterContextSchema.optional(),
+  dataFlow: DataFlowSchema.optional(),
   gadgets: z.array(GadgetConfigSchema).min(1, 'At least one gadget is required'),
   settings: z.object({
     autoRefresh: z.boolean().optional(),
@@ -525,6 +490,28 @@ function generateWarnings(config: z.infer<typeof WorkspaceConfigSchema>): Valida
     }
   }
 
+  // Check data flow connections reference gadgets on this workspace (including split panel children)
+  if (config.dataFlow) {
+    const gadgetIds = new Set<string>();
+    config.gadgets.forEach(gadget => {
+      gadgetIds.add(gadget.id);
+      ((gadget.config as any)?.panels || []).forEach((panel: any) => gadgetIds.add(panel.id));
+    });
+
+    config.dataFlow.connections.forEach((connection, index) => {
+      [connection.source, connection.target].forEach(endpoint => {
+        const gadgetId = endpoint.slice(0, endpoint.lastIndexOf('.'));
+        if (gadgetId && !gadgetIds.has(gadgetId)) {
+          warnings.push({
+            path: ['dataFlow', 'connections', index.toString()],
+            message: `Data flow connection references unknown gadget "${gadgetId}"`,
+            suggestion: `Use "<gadgetId>.<port>" with one of: ${Array.from(gadgetIds).join(', ')}`
+          });
+        }
+      });
+    });
+  }
+
   // Check for non-standard API endpoints
   config.gadgets.forEach((gadget, index) => {
     if (!gadget.config) return;
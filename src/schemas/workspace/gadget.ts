@@ -65,8 +65,8 @@ export const validateGadgetPosition = (position: GridPosition): GadgetValidation
   
   if (typeof position !== 'number') {
     errors.push('Position must be a number');
-  } else if (position < 1 || position > 12) {
-    errors.push('Position must be between 1 and 12');
+  } else if (position < 1 || position > 24) {
+    errors.push('Position must be between 1 and 24');
   }
   
   return {
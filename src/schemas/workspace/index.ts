@@ -17,7 +17,17 @@ export type {
   WorkspaceValidationResult
 } from './workspace';
 
-export { validateWorkspace } from './workspace';
+export { validateWorkspace, validateWorkspaceGadget } from './workspace';
+
+// Tenant overrides layered on shipped workspaces
+export type {
+  WorkspaceOverrides,
+  WorkspaceGadgetAddition,
+  WorkspaceGadgetUpdate,
+  WorkspaceOverrideVersion
+} from './overrides';
+
+export { applyWorkspaceOverrides, validateWorkspaceOverrides } from './overrides';
 
 // Gadget types
 export type {
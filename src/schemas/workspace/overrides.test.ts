@@ -0,0 +1,90 @@
+/**
+ * Workspace Overrides Tests
+ *
+ * Tenant overrides applied on top of a shipped workspace definition.
+ */
+
+import { applyWorkspaceOverrides, validateWorkspaceOverrides } from './overrides';
+import { WorkspaceDefinition, validateWorkspace } from './workspace';
+
+describe('Workspace overrides', () => {
+  const base: WorkspaceDefinition = {
+    id: 'assets/overview',
+    title: 'Asset Overview',
+    description: 'Assets',
+    layout: 'grid',
+    settings: { refreshInterval: 30000, enableExport: true },
+    gadgets: [
+      { id: 'summary', type: 'stats-gadget', title: 'Summary', position: 12, config: { columns: 4, options: { compact: false } } },
+      { id: 'grid', type: 'sgrid-search-gadget', title: 'Assets', position: 12, config: { pageSize: 20 } },
+      { id: 'chart', type: 'chart-gadget', title: 'Trend', position: 6, config: {} }
+    ]
+  };
+
+  test('returns the default when there are no overrides', () => {
+    expect(applyWorkspaceOverrides(base, null)).toBe(base);
+  });
+
+  test('removes, reconfigures and adds gadgets', () => {
+    const workspace = applyWorkspaceOverrides(base, {
+      title: 'Tenant Assets',
+      settings: { enableExport: false },
+      gadgets: {
+        remove: ['chart', 'missing'],
+        update: { summary: { title: 'KPIs', config: { options: { compact: true } } } },
+        add: [
+          { id: 'map', type: 'map-gadget', title: 'Map', position: 12, config: {}, after: 'summary' },
+          { id: 'banner', type: 'banner-gadget', title: 'Banner', position: 12, config: {}, after: null }
+        ]
+      }
+    });
+
+    expect(workspace.title).toBe('Tenant Assets');
+    expect(workspace.settings).toEqual({ refreshInterval: 30000, enableExport: false });
+    expect(workspace.gadgets!.map(gadget => gadget.id)).toEqual(['banner', 'summary', 'map', 'grid']);
+    expect(workspace.gadgets![1]).toMatchObject({
+      title: 'KPIs',
+      config: { columns: 4, options: { compact: true } }
+    });
+    expect(base.gadgets!.map(gadget => gadget.id)).toEqual(['summary', 'grid', 'chart']);
+  });
+
+  test('reorders listed gadgets first', () => {
+    const workspace = applyWorkspaceOverrides(base, { gadgets: { order: ['chart', 'summary'] } });
+
+    expect(workspace.gadgets!.map(gadget => gadget.id)).toEqual(['chart', 'summary', 'grid']);
+  });
+
+  test('merged result is checked by validateWorkspace', () => {
+    const workspace = applyWorkspaceOverrides(base, {
+      gadgets: { add: [{ id: 'grid', type: '', title: 'Assets', position: 12, config: {} }] }
+    });
+
+    expect(validateWorkspace(workspace).valid).toBe(false);
+  });
+
+  test('keeps the identity and layout of the default', () => {
+    const workspace = applyWorkspaceOverrides(base, { id: 'other', layout: 'tabs', title: 'Tenant Assets' } as any);
+
+    expect(workspace).toMatchObject({ id: 'assets/overview', layout: 'grid', title: 'Tenant Assets' });
+  });
+
+  test('reports only the errors the overrides introduce', () => {
+    const legacy = {
+      ...base,
+      layout: undefined as any,
+      gadgets: [...base.gadgets!, { id: 'legacy', type: 'stats-gadget', title: 'Legacy', position: 96, config: {} }]
+    };
+
+    expect(validateWorkspace(legacy).valid).toBe(false);
+    expect(validateWorkspaceOverrides(legacy, null).valid).toBe(true);
+    expect(validateWorkspaceOverrides(legacy, { title: 'Tenant Assets' }).valid).toBe(true);
+    expect(validateWorkspaceOverrides(legacy, {
+      title: '',
+      gadgets: { update: { summary: { position: 30 } } }
+    }).errors).toEqual([
+      'Workspace title is required',
+      'Gadget summary position must be between 1 and 24'
+    ]);
+  });
+});
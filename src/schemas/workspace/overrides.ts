@@ -0,0 +1,164 @@
+/**
+ * =============================================================================
+ * WORKSPACE OVERRIDES
+ * =============================================================================
+ *
+ * Tenant-level changes layered on top of a shipped workspace definition.
+ * The static JSON under public/data/workspaces is the default layer; tenants
+ * store overrides (versioned by the API) that add, remove or reconfigure gadgets.
+ */
+
+import {
+  WorkspaceDefinition,
+  WorkspaceGadget,
+  WorkspaceValidationResult,
+  validateWorkspace,
+  validateWorkspaceGadget
+} from './workspace';
+
+/**
+ * Gadget added by a tenant. Placed after the gadget named in `after`,
+ * at the start when `after` is null, or at the end when omitted.
+ */
+export interface WorkspaceGadgetAddition extends WorkspaceGadget {
+  after?: string | null;
+}
+
+/**
+ * Changes to a shipped gadget; config is merged into the default config
+ */
+export type WorkspaceGadgetUpdate = Partial<Omit<WorkspaceGadget, 'id'>>;
+
+/**
+ * Tenant overrides for one workspace. Only these keys may be overridden;
+ * the workspace's id, layout and other fields always come from the default.
+ */
+export interface WorkspaceOverrides {
+  title?: string;
+  description?: string;
+  settings?: WorkspaceDefinition['settings'];
+  gadgets?: {
+    remove?: string[];
+    update?: Record<string, WorkspaceGadgetUpdate>;
+    add?: WorkspaceGadgetAddition[];
+    /** Gadget ids in display order; gadgets not listed keep their relative order after these */
+    order?: string[];
+  };
+}
+
+/**
+ * Stored version of a tenant's overrides
+ */
+export interface WorkspaceOverrideVersion {
+  version: number;
+  overrides: WorkspaceOverrides | null;
+  comment?: string;
+  restoredFrom?: number;
+  created_by?: string;
+  created_date?: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Deep merge of configuration objects; arrays and scalars in the override replace the default
+ */
+function mergeConfig(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  Object.keys(override).forEach(key => {
+    merged[key] = isPlainObject(base[key]) && isPlainObject(override[key])
+      ? mergeConfig(base[key], override[key])
+      : override[key];
+  });
+  return merged;
+}
+
+/**
+ * Apply tenant overrides to a default workspace definition.
+ * Updates and removals naming gadgets that no longer exist in the default are ignored.
+ */
+export function applyWorkspaceOverrides(
+  base: WorkspaceDefinition,
+  overrides?: WorkspaceOverrides | null
+): WorkspaceDefinition {
+  if (!overrides) return base;
+
+  const { gadgets: gadgetChanges, settings, title, description } = overrides;
+  const removed = new Set(gadgetChanges?.remove || []);
+  const updates = gadgetChanges?.update || {};
+
+  let gadgets: WorkspaceGadget[] = (base.gadgets || [])
+    .filter(gadget => !removed.has(gadget.id))
+    .map(gadget => {
+      const update = updates[gadget.id];
+      if (!update) return gadget;
+      return {
+        ...gadget,
+        ...update,
+        id: gadget.id,
+        config: mergeConfig(gadget.config || {}, update.config || {})
+      };
+    });
+
+  (gadgetChanges?.add || []).forEach(({ after, ...gadget }) => {
+    gadgets = gadgets.filter(existing => existing.id !== gadget.id);
+    const anchor = after ? gadgets.findIndex(existing => existing.id === after) : -1;
+    const index = after === null ? 0 : anchor >= 0 ? anchor + 1 : gadgets.length;
+    gadgets.splice(index, 0, gadget);
+  });
+
+  if (gadgetChanges?.order?.length) {
+    const rank = new Map(gadgetChanges.order.map((id, index) => [id, index]));
+    gadgets = gadgets
+      .map((gadget, index) => ({ gadget, index }))
+      .sort((a, b) => {
+        const rankA = rank.has(a.gadget.id) ? rank.get(a.gadget.id)! : rank.size + a.index;
+        const rankB = rank.has(b.gadget.id) ? rank.get(b.gadget.id)! : rank.size + b.index;
+        return rankA - rankB;
+      })
+      .map(entry => entry.gadget);
+  }
+
+  return {
+    ...base,
+    title: title !== undefined ? title : base.title,
+    description: description !== undefined ? description : base.description,
+    settings: settings ? { ...(base.settings || {}), ...settings } : base.settings,
+    gadgets
+  };
+}
+
+/**
+ * Validate the workspace that overrides produce, reporting only the errors the
+ * overrides introduce: errors on gadgets they add, errors an update adds to a
+ * shipped gadget, and workspace-level errors the default does not already have.
+ * Shipped workspaces that fail validateWorkspace on their own can still be
+ * overridden and reset.
+ */
+export function validateWorkspaceOverrides(
+  base: WorkspaceDefinition,
+  overrides?: WorkspaceOverrides | null
+): WorkspaceValidationResult {
+  const workspace = applyWorkspaceOverrides(base, overrides);
+  const { warnings } = validateWorkspace(workspace);
+  if (!overrides) return { valid: true, errors: [], warnings };
+
+  const defaultErrors = new Set(validateWorkspace({ ...base, gadgets: [] }).errors);
+  const added = new Set((overrides.gadgets?.add || []).map(gadget => gadget.id));
+  const updated = new Set(Object.keys(overrides.gadgets?.update || {}));
+  const defaults = new Map((base.gadgets || []).map(gadget => [gadget.id, gadget]));
+
+  const gadgetErrors = (gadget: WorkspaceGadget, index: number): string[] => {
+    if (added.has(gadget.id)) return validateWorkspaceGadget(gadget, index);
+    if (!updated.has(gadget.id)) return [];
+    const existing = new Set(validateWorkspaceGadget(defaults.get(gadget.id)!, index));
+    return validateWorkspaceGadget(gadget, index).filter(error => !existing.has(error));
+  };
+
+  const errors = [
+    ...validateWorkspace({ ...workspace, gadgets: [] }).errors.filter(error => !defaultErrors.has(error)),
+    ...(workspace.gadgets || []).flatMap(gadgetErrors)
+  ];
+  return { valid: errors.length === 0, errors, warnings };
+}
@@ -29,7 +29,7 @@ export interface WorkspaceGadget {
   id: string;
   type: string;
   title: string;
-  position: GridPosition; // Simple number (1-12) for grid width
+  position: GridPosition; // Simple number (1-24) for grid width
   config: Record<string, any>;
   
   // Optional properties
@@ -71,6 +71,8 @@ export interface WorkspaceSettings {
 export interface WorkspaceMetadata {
   created?: string;
   version?: string;
+  /** Tenant override version applied on top of the shipped definition */
+  overrideVersion?: number;
   tags?: string[];
   description?: string;
 }
@@ -84,6 +86,24 @@ export interface WorkspaceValidationResult {
   warnings: string[];
 }
 
+/**
+ * Validates a gadget at its index in the workspace
+ */
+export const validateWorkspaceGadget = (gadget: WorkspaceGadget, index: number): string[] => {
+  const errors: string[] = [];
+  if (!gadget.id) errors.push(`Gadget at index ${index} missing ID`);
+  if (!gadget.type) errors.push(`Gadget at index ${index} missing type`);
+  if (!gadget.title) errors.push(`Gadget at index ${index} missing title`);
+
+  // Validate position
+  if (typeof gadget.position !== 'number') {
+    errors.push(`Gadget ${gadget.id} position must be a number`);
+  } else if (gadget.position < 1 || gadget.position > 24) {
+    errors.push(`Gadget ${gadget.id} position must be between 1 and 24`);
+  }
+  return errors;
+};
+
 /**
  * Validates a workspace definition
  */
@@ -101,16 +121,7 @@ export const validateWorkspace = (workspace: WorkspaceDefinition): WorkspaceVali
   
   // Validate gadgets
   workspace.gadgets?.forEach((gadget, index) => {
-    if (!gadget.id) errors.push(`Gadget at index ${index} missing ID`);
-    if (!gadget.type) errors.push(`Gadget at index ${index} missing type`);
-    if (!gadget.title) errors.push(`Gadget at index ${index} missing title`);
-    
-    // Validate position
-    if (typeof gadget.position !== 'number') {
-      errors.push(`Gadget ${gadget.id} position must be a number`);
-    } else if (gadget.position < 1 || gadget.position > 12) {
-      errors.push(`Gadget ${gadget.id} position must be between 1 and 12`);
-    }
+    errors.push(...validateWorkspaceGadget(gadget, index));
   });
   
   return {
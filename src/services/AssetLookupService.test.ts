@@ -0,0 +1,66 @@
+import { pickAsset, toAssetFieldValues, toScannedAsset } from './AssetLookupService';
+
+const result = (id: string, fields: Record<string, any> = {}) => ({ id, nodeType: 'asset', path: [], ...fields });
+
+describe('pickAsset', () => {
+  it('prefers a matching asset tag over a code or id', () => {
+    const results = [
+      result('asset_2', { code: 'p-100' }),
+      result('asset_1', { asset_tag: 'P-100' }),
+      result('P-100')
+    ];
+
+    expect(pickAsset(results, ' p-100 ')?.id).toBe('asset_1');
+    expect(pickAsset(results.slice(2), 'P-100')?.id).toBe('P-100');
+    expect(pickAsset([{ ...result('site_1', { code: 'P-100' }), nodeType: 'site' }], 'P-100')).toBeNull();
+  });
+});
+
+describe('toScannedAsset', () => {
+  it('takes parents from the ancestors and falls back to the asset fields', () => {
+    expect(toScannedAsset(result('asset_1', {
+      asset_tag: 'P-100',
+      name: 'Feed Pump',
+      company_id: 'company_old',
+      ancestors: [
+        { type: 'company', id: 'company_1' },
+        { type: 'site', id: 'site_1', name: 'North Plant' },
+        { type: 'asset_group', id: 'group_1', name: 'Unit 1' }
+      ]
+    }))).toEqual({
+      assetId: 'asset_1',
+      assetTag: 'P-100',
+      name: 'Feed Pump',
+      assetGroupId: 'group_1',
+      assetGroupName: 'Unit 1',
+      siteId: 'site_1',
+      siteName: 'North Plant',
+      companyId: 'company_1'
+    });
+
+    expect(toScannedAsset(result('asset_2', { asset_group_id: 'group_2', site_id: 'site_2' }))).toMatchObject({
+      assetGroupId: 'group_2',
+      siteId: 'site_2',
+      companyId: undefined
+    });
+  });
+});
+
+describe('toAssetFieldValues', () => {
+  const asset = { assetId: 'asset_1', assetGroupId: 'group_1', siteId: 'site_1' };
+
+  it('fills the default asset fields that have an id', () => {
+    expect(toAssetFieldValues(asset)).toEqual({
+      site_id: 'site_1',
+      asset_group_id: 'group_1',
+      asset_id: 'asset_1'
+    });
+  });
+
+  it('uses the configured fields and skips parts mapped to null', () => {
+    expect(toAssetFieldValues(asset, { asset: 'equipment_id', asset_group: null })).toEqual({
+      site_id: 'site_1',
+      equipment_id: 'asset_1'
+    });
+  });
+});
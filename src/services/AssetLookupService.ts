@@ -0,0 +1,128 @@
+/**
+ * Asset Lookup Service
+ *
+ * Resolves a scanned label (asset tag, code, id or printed asset link) to an
+ * asset and its site, asset group and company through the hierarchy search
+ * route, and turns the result into values for a form's asset fields.
+ */
+
+import { httpClient } from './HttpClient';
+import { parseAssetLink } from '../utils/assetLabels';
+
+export interface HierarchyAncestor {
+  type: string;
+  id: string;
+  name?: string;
+}
+
+export interface HierarchySearchResult {
+  id: string;
+  name?: string;
+  asset_tag?: string;
+  code?: string;
+  nodeType: string;
+  path: string[];
+  ancestors?: HierarchyAncestor[];
+  [key: string]: any;
+}
+
+export interface ScannedAsset {
+  assetId: string;
+  assetTag?: string;
+  name?: string;
+  assetGroupId?: string;
+  assetGroupName?: string;
+  siteId?: string;
+  siteName?: string;
+  companyId?: string;
+}
+
+/**
+ * Form field filled with each part of the hierarchy; null leaves it alone
+ */
+export interface AssetFieldMap {
+  asset?: string | null;
+  asset_group?: string | null;
+  site?: string | null;
+  company?: string | null;
+}
+
+export const DEFAULT_ASSET_FIELDS: Required<AssetFieldMap> = {
+  asset: 'asset_id',
+  asset_group: 'asset_group_id',
+  site: 'site_id',
+  company: 'company_id'
+};
+
+const sameCode = (a: unknown, b: string) =>
+  typeof a === 'string' && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * The result a code stands for: matching asset tag first, then code, then id
+ */
+export function pickAsset(results: HierarchySearchResult[], code: string): HierarchySearchResult | null {
+  const assets = results.filter(result => result.nodeType === 'asset');
+  return assets.find(result => sameCode(result.asset_tag, code)) ||
+    assets.find(result => sameCode(result.code, code)) ||
+    assets.find(result => result.id === code.trim()) ||
+    null;
+}
+
+/**
+ * Asset and its parents, from the search result's ancestors or else the
+ * asset's own parent ids
+ */
+export function toScannedAsset(result: HierarchySearchResult): ScannedAsset {
+  const ancestor = (type: string) => (result.ancestors || []).find(item => item.type === type);
+  const group = ancestor('asset_group');
+  const site = ancestor('site');
+
+  return {
+    assetId: result.id,
+    assetTag: result.asset_tag || result.code,
+    name: result.name,
+    assetGroupId: group?.id || result.asset_group_id,
+    assetGroupName: group?.name,
+    siteId: site?.id || result.site_id,
+    siteName: site?.name,
+    companyId: ancestor('company')?.id || result.company_id
+  };
+}
+
+/**
+ * Form values for an asset; parts without an id or a field are left out
+ */
+export function toAssetFieldValues(asset: ScannedAsset, fields: AssetFieldMap = {}): Record<string, string> {
+  const map = { ...DEFAULT_ASSET_FIELDS, ...fields };
+  const values: Record<string, string> = {};
+  const set = (field: string | null, id: string | undefined) => {
+    if (field && id) values[field] = id;
+  };
+
+  set(map.company, asset.companyId);
+  set(map.site, asset.siteId);
+  set(map.asset_group, asset.assetGroupId);
+  set(map.asset, asset.assetId);
+  return values;
+}
+
+export class AssetLookupService {
+  /**
+   * Asset with the scanned tag, code, id or link; null when there is none
+   */
+  static async findByCode(code: string): Promise<ScannedAsset | null> {
+    const query = parseAssetLink(code) || code.trim();
+    if (!query) return null;
+
+    const response = await httpClient.get(
+      `/api/search/hierarchy?q=${encodeURIComponent(query)}&types=asset&exact=true`
+    );
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.error || `Failed to look up asset: ${response.status} ${response.statusText}`);
+    }
+
+    const match = pickAsset(body.results || [], query);
+    return match ? toScannedAsset(match) : null;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Grid View Service Tests
+ *
+ * Saved view state is checked against the grid's current columns before it is applied.
+ */
+
+import { sanitizeGridViewState } from './GridViewService';
+
+describe('sanitizeGridViewState', () => {
+  const columnIds = ['name', 'status', 'updatedAt', 'actions'];
+
+  test('keeps state that matches the grid', () => {
+    const state = {
+      query: 'pump',
+      viewFilter: 'open',
+      columnFilters: [{ id: 'status', value: 'active' }],
+      sorting: [{ id: 'updatedAt', desc: true }],
+      columnVisibility: { actions: false },
+      columnOrder: ['status', 'name', 'updatedAt', 'actions'],
+      columnSizing: { name: 240 },
+      pageSize: 25
+    };
+
+    expect(sanitizeGridViewState(state, columnIds, ['all', 'open'])).toEqual(state);
+  });
+
+  test('drops removed columns, unknown view filters and invalid sizes', () => {
+    const restored = sanitizeGridViewState(
+      {
+        viewFilter: 'archived',
+        columnFilters: [{ id: 'legacyCode', value: 'x' }],
+        sorting: [{ id: 'legacyCode', desc: false }, { id: 'name', desc: false }],
+        columnVisibility: { legacyCode: false, status: false },
+        columnOrder: ['legacyCode', 'updatedAt', 'name'],
+        columnSizing: { name: -10, status: 120, legacyCode: 90 },
+        pageSize: 10000
+      },
+      columnIds,
+      ['all', 'open']
+    );
+
+    expect(restored).toEqual({
+      columnFilters: [],
+      sorting: [{ id: 'name', desc: false }],
+      columnVisibility: { status: false },
+      columnOrder: ['updatedAt', 'name', 'status', 'actions'],
+      columnSizing: { status: 120 }
+    });
+  });
+
+  test('returns an empty state for missing or malformed views', () => {
+    expect(sanitizeGridViewState(undefined, columnIds)).toEqual({});
+    expect(sanitizeGridViewState('broken' as any, columnIds)).toEqual({});
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Grid View Service
+ *
+ * Saved views of SGrid search grids, stored server-side per user and grid id.
+ * A view captures the table state (search text, column filters, sort, column
+ * visibility/order/widths and page size); views can be shared with the tenant
+ * and each user can pick a default view per grid.
+ */
+
+import { httpClient } from './HttpClient';
+
+export interface GridViewState {
+  query?: string;
+  /** Key of the active view filter (viewFilters segment) */
+  viewFilter?: string | null;
+  columnFilters?: Array<{ id: string; value: unknown }>;
+  sorting?: Array<{ id: string; desc: boolean }>;
+  columnVisibility?: Record<string, boolean>;
+  columnOrder?: string[];
+  columnSizing?: Record<string, number>;
+  pageSize?: number;
+}
+
+export interface SavedGridView {
+  id: string;
+  gridId: string;
+  name: string;
+  shared: boolean;
+  state: GridViewState;
+  owner: string;
+  isOwner: boolean;
+  isDefault: boolean;
+  last_updated?: string;
+}
+
+export interface SaveGridViewRequest {
+  name: string;
+  state: GridViewState;
+  shared?: boolean;
+  isDefault?: boolean;
+}
+
+const MAX_PAGE_SIZE = 500;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Drop parts of a saved state that no longer match the grid (removed columns,
+ * unknown view filters, invalid sizes), so older views keep working after the
+ * grid's column configuration changes.
+ */
+export function sanitizeGridViewState(
+  state: GridViewState | undefined,
+  columnIds: string[],
+  viewFilterKeys: string[] = []
+): GridViewState {
+  const known = new Set(columnIds);
+  const result: GridViewState = {};
+  if (!isRecord(state)) return result;
+
+  if (typeof state.query === 'string') result.query = state.query;
+  if (state.viewFilter && viewFilterKeys.includes(state.viewFilter)) result.viewFilter = state.viewFilter;
+
+  if (Array.isArray(state.columnFilters)) {
+    result.columnFilters = state.columnFilters.filter(filter => isRecord(filter) && known.has(filter.id));
+  }
+  if (Array.isArray(state.sorting)) {
+    result.sorting = state.sorting
+      .filter(sort => isRecord(sort) && known.has(sort.id))
+      .map(sort => ({ id: sort.id, desc: !!sort.desc }));
+  }
+  if (isRecord(state.columnVisibility)) {
+    result.columnVisibility = Object.fromEntries(
+      Object.entries(state.columnVisibility)
+        .filter(([id]) => known.has(id))
+        .map(([id, visible]) => [id, visible !== false])
+    );
+  }
+  if (Array.isArray(state.columnOrder)) {
+    // Columns added to the grid after the view was saved go to the end
+    const saved = state.columnOrder.filter(id => known.has(id));
+    result.columnOrder = [...saved, ...columnIds.filter(id => !saved.includes(id))];
+  }
+  if (isRecord(state.columnSizing)) {
+    result.columnSizing = Object.fromEntries(
+      Object.entries(state.columnSizing).filter(
+        ([id, size]) => known.has(id) && typeof size === 'number' && size > 0 && isFinite(size)
+      )
+    );
+  }
+  if (Number.isInteger(state.pageSize) && state.pageSize! > 0 && state.pageSize! <= MAX_PAGE_SIZE) {
+    result.pageSize = state.pageSize;
+  }
+
+  return result;
+}
+
+const hasAuthToken = () => !!(localStorage.getItem('authToken') || localStorage.getItem('token'));
+
+async function readData<T>(response: Response, action: string): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.success === false) {
+    throw new Error(body.error || `Failed to ${action}: ${response.status} ${response.statusText}`);
+  }
+  return body.data as T;
+}
+
+export class GridViewService {
+  /**
+   * Saved views are only available to signed-in users
+   */
+  static isAvailable(): boolean {
+    return hasAuthToken();
+  }
+
+  /**
+   * The user's own views and the views shared in the tenant, own views first
+   */
+  static async list(gridId: string): Promise<SavedGridView[]> {
+    const response = await httpClient.get(`/api/grid-views?gridId=${encodeURIComponent(gridId)}`);
+    return readData<SavedGridView[]>(response, 'load saved views');
+  }
+
+  static async create(gridId: string, view: SaveGridViewRequest): Promise<SavedGridView> {
+    const response = await httpClient.post('/api/grid-views', { gridId, ...view });
+    return readData<SavedGridView>(response, 'save view');
+  }
+
+  /**
+   * Rename, share/unshare or overwrite the state of one of the user's views
+   */
+  static async update(
+    viewId: string,
+    changes: Partial<Pick<SavedGridView, 'name' | 'shared' | 'state'>>
+  ): Promise<SavedGridView> {
+    const response = await httpClient.put(`/api/grid-views/${encodeURIComponent(viewId)}`, changes);
+    return readData<SavedGridView>(response, 'update view');
+  }
+
+  static async remove(viewId: string): Promise<void> {
+    const response = await httpClient.delete(`/api/grid-views/${encodeURIComponent(viewId)}`);
+    await readData(response, 'delete view');
+  }
+
+  /**
+   * Set the user's default view of a grid; null clears the default
+   */
+  static async setDefault(gridId: string, viewId: string | null): Promise<void> {
+    const response = await httpClient.post('/api/grid-views/default', { gridId, viewId });
+    await readData(response, 'set default view');
+  }
+}
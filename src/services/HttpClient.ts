@@ -7,6 +7,7 @@
  * - API URL resolution (relative to absolute)
  * - Error handling
  * - Request/response logging
+ * - Offline queueing of writes (opt-in, see SyncQueue)
  * 
  * Architecture Patterns:
  * - Singleton Pattern: Single instance shared across app
@@ -35,10 +36,16 @@
  * 
  * // DELETE request
  * const response = await httpClient.delete('/api/documents/123?type=company');
+ *
+ * // Write that is queued when offline (202 with { queued: true })
+ * const response = await httpClient.put('/api/documents/123', data, {
+ *   offline: { baseUpdatedAt: record.last_updated }
+ * });
  * ```
  */
 
 import { getApiFullUrl } from '../config/api.config';
+import { EnqueueRequest, isNetworkError, SyncMethod, syncQueue } from './SyncQueue';
 
 /**
  * HTTP request options
@@ -48,6 +55,7 @@ export interface HttpClientOptions extends RequestInit {
   skipTenantId?: boolean;    // Skip tenant ID header
   skipUserId?: boolean;      // Skip user ID header
   rawResponse?: boolean;     // Return raw Response instead of parsed data
+  offline?: boolean | Pick<EnqueueRequest, 'baseUpdatedAt' | 'checkUrl'>; // Queue writes while offline
 }
 
 /**
@@ -137,8 +145,10 @@ class HttpClientService {
       ...(options.headers as Record<string, string> || {})
     };
     
-    // Add Content-Type for requests with body
-    if (options.body && !headers['Content-Type']) {
+    // Add Content-Type for requests with body (FormData sets its own boundary)
+    if (options.body instanceof FormData) {
+      delete headers['Content-Type'];
+    } else if (options.body && !headers['Content-Type']) {
       headers['Content-Type'] = 'application/json';
     }
     
@@ -209,7 +219,7 @@ class HttpClientService {
     // Try to get error message from response
     let errorMessage = 'Your session has expired. Please log in again.';
     try {
-      const data = await response.json();
+      const data = await response.clone().json();
       if (data.error) {
         errorMessage = data.error;
       }
@@ -259,7 +269,7 @@ class HttpClientService {
     // Try to get error message from response
     let errorMessage = `Request failed: ${response.statusText}`;
     try {
-      const data = await response.json();
+      const data = await response.clone().json();
       if (data.error) {
         errorMessage = data.error;
       } else if (data.message) {
@@ -280,6 +290,43 @@ class HttpClientService {
     }
   }
   
+  /**
+   * Send a JSON write; with the offline option it is queued instead when the
+   * network is unavailable or earlier writes for the record are still queued
+   */
+  private async write(method: SyncMethod, url: string, data: any, options: HttpClientOptions): Promise<Response> {
+    const { offline, ...requestOptions } = options;
+    const request: HttpClientOptions = {
+      ...requestOptions,
+      method,
+      body: data ? JSON.stringify(data) : undefined
+    };
+    if (!offline) {
+      return this.makeRequest(url, request);
+    }
+
+    const queue = async () => {
+      const item = await syncQueue.enqueue({ method, url, body: data, ...(offline === true ? {} : offline) });
+      const id = item.localId || data?.id;
+      return new Response(JSON.stringify({ ...(data || {}), id, queued: true, queueItemId: item.id }), {
+        status: 202,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    };
+
+    if (navigator.onLine === false || await syncQueue.shouldQueue(url, data)) {
+      return queue();
+    }
+    try {
+      return await this.makeRequest(url, request);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return queue();
+      }
+      throw error;
+    }
+  }
+
   /**
    * GET request
    */
@@ -294,43 +341,28 @@ class HttpClientService {
    * POST request
    */
   public async post(url: string, data?: any, options: HttpClientOptions = {}): Promise<Response> {
-    return this.makeRequest(url, {
-      ...options,
-      method: 'POST',
-      body: data ? JSON.stringify(data) : undefined
-    });
+    return this.write('POST', url, data, options);
   }
   
   /**
    * PUT request
    */
   public async put(url: string, data?: any, options: HttpClientOptions = {}): Promise<Response> {
-    return this.makeRequest(url, {
-      ...options,
-      method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined
-    });
+    return this.write('PUT', url, data, options);
   }
   
   /**
    * PATCH request
    */
   public async patch(url: string, data?: any, options: HttpClientOptions = {}): Promise<Response> {
-    return this.makeRequest(url, {
-      ...options,
-      method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined
-    });
+    return this.write('PATCH', url, data, options);
   }
   
   /**
    * DELETE request
    */
   public async delete(url: string, options: HttpClientOptions = {}): Promise<Response> {
-    return this.makeRequest(url, {
-      ...options,
-      method: 'DELETE'
-    });
+    return this.write('DELETE', url, undefined, options);
   }
   
   /**
@@ -338,17 +370,10 @@ class HttpClientService {
    */
   public async upload(url: string, formData: FormData, options: HttpClientOptions = {}): Promise<Response> {
     // Don't set Content-Type header for FormData (browser sets it with boundary)
-    const { headers, ...restOptions } = options;
-    
     return this.makeRequest(url, {
-      ...restOptions,
+      ...options,
       method: 'POST',
-      body: formData,
-      headers: {
-        ...(headers as Record<string, string> || {}),
-        // Remove Content-Type - let browser set it
-        'Content-Type': undefined as any
-      }
+      body: formData
     });
   }
 }
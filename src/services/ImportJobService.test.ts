@@ -0,0 +1,15 @@
+import { parseImportEvents } from './ImportJobService';
+
+describe('parseImportEvents', () => {
+  it('returns complete events and keeps a partial one for the next chunk', () => {
+    const job = { id: 'import_1', status: 'running', processed: 1 };
+    const buffer = `event: progress\ndata: ${JSON.stringify({ type: 'progress', job })}\n\n` +
+      'data: [DONE]\n\n' +
+      'event: completed\ndata: {"type":"comp';
+
+    const { events, rest } = parseImportEvents(buffer);
+
+    expect(events).toEqual([{ type: 'progress', job }]);
+    expect(rest).toBe('event: completed\ndata: {"type":"comp');
+  });
+});
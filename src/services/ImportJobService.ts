@@ -0,0 +1,173 @@
+/**
+ * Import Job Service
+ *
+ * Client for spreadsheet imports run on the API (/api/imports). A dry run
+ * returns what an import would create, update or skip; a started import runs
+ * as a job whose progress is streamed back and which can be rolled back as a
+ * whole afterwards.
+ */
+
+import { httpClient } from './HttpClient';
+
+export interface ImportRequest {
+  documentType: string;
+  /** Rows mapped to document fields; parent fields carry the parent type as prefix (company_name) */
+  rows: Array<Record<string, unknown>>;
+  /** Linked fields set on every record (e.g. site_id of the selected site) */
+  parents?: Record<string, unknown>;
+  /** Field matching rows to existing records */
+  updateKey?: string;
+  skipDuplicates?: boolean;
+}
+
+export interface ImportRowError {
+  /** Spreadsheet row (row 1 holds the headers) */
+  row: number;
+  /** Mapped field, or ALL */
+  column: string;
+  error: string;
+  value?: unknown;
+  severity?: 'error' | 'warning';
+}
+
+export interface ImportAction {
+  row: number;
+  action: 'create' | 'update' | 'skip';
+  type: string;
+  id: string;
+  label?: string;
+}
+
+export interface ImportCounts {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  /** Parent documents created on the way, by type */
+  related: Record<string, number>;
+}
+
+export interface ImportPlan extends ImportCounts {
+  actions: ImportAction[];
+  errors: ImportRowError[];
+}
+
+export type ImportJobStatus = 'running' | 'completed' | 'failed' | 'rolled_back';
+
+export interface ImportJob extends ImportCounts {
+  /** Also the importBatchId stored on every created document */
+  id: string;
+  documentType: string;
+  status: ImportJobStatus;
+  processed: number;
+  /** Left out of progress events */
+  errors?: ImportRowError[];
+  error?: string;
+  created_date?: string;
+  completedAt?: string;
+  rollback?: { deleted: number; restored: number; at: string; by: string };
+}
+
+export interface ImportJobEvent {
+  type: 'progress' | Exclude<ImportJobStatus, 'running'>;
+  job: ImportJob;
+}
+
+/**
+ * Parse complete server-sent events from a buffer; returns the unparsed rest
+ */
+export function parseImportEvents(buffer: string): { events: ImportJobEvent[]; rest: string } {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() || '';
+  const events: ImportJobEvent[] = [];
+
+  blocks.forEach(block => {
+    const data = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('');
+    if (!data || data === '[DONE]') return;
+    try {
+      events.push(JSON.parse(data));
+    } catch {
+      // Ignore malformed events
+    }
+  });
+
+  return { events, rest };
+}
+
+async function readData<T>(response: Response, action: string): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.success === false) {
+    throw new Error(body.error || `Failed to ${action}: ${response.status} ${response.statusText}`);
+  }
+  return body.data as T;
+}
+
+export class ImportJobService {
+  static async dryRun(request: ImportRequest): Promise<ImportPlan> {
+    const response = await httpClient.post('/api/imports/dry-run', request);
+    return readData(response, 'plan the import');
+  }
+
+  static async start(request: ImportRequest): Promise<ImportJob> {
+    const response = await httpClient.post('/api/imports', request);
+    return readData(response, 'start the import');
+  }
+
+  static async get(jobId: string): Promise<ImportJob> {
+    const response = await httpClient.get(`/api/imports/${encodeURIComponent(jobId)}`);
+    return readData(response, 'load the import');
+  }
+
+  static async rollback(jobId: string): Promise<ImportJob> {
+    const response = await httpClient.post(`/api/imports/${encodeURIComponent(jobId)}/rollback`);
+    return readData(response, 'roll back the import');
+  }
+
+  /**
+   * Follow a job until it finishes, reporting every event; when the stream
+   * ends early (e.g. the job runs on another server) the job is polled instead
+   *
+   * @returns The finished job
+   */
+  static async watch(jobId: string, onEvent: (event: ImportJobEvent) => void, pollInterval = 2000): Promise<ImportJob> {
+    const latest: { job: ImportJob | null } = { job: null };
+
+    try {
+      const response = await httpClient.get(`/api/imports/${encodeURIComponent(jobId)}/events`);
+      if (!response.ok || !response.body) {
+        await readData(response, 'follow the import');
+      } else {
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder('utf-8');
+        let buffered = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const parsed = parseImportEvents(buffered + decoder.decode(value, { stream: true }));
+          buffered = parsed.rest;
+          parsed.events.forEach(event => {
+            latest.job = event.job;
+            onEvent(event);
+          });
+        }
+      }
+    } catch (error) {
+      console.warn('[ImportJobService] Progress stream ended:', error);
+    }
+
+    let job = latest.job;
+    while (!job || job.status === 'running') {
+      if (job) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+      }
+      job = await ImportJobService.get(jobId);
+      onEvent({ type: job.status === 'running' ? 'progress' : job.status, job });
+    }
+    return job;
+  }
+}
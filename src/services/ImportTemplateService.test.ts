@@ -0,0 +1,94 @@
+import {
+  applyTemplate,
+  applyValueTransform,
+  findMatchingTemplate,
+  headerFingerprint,
+  templateFromColumns
+} from './ImportTemplateService';
+
+const template = (id: string, headers: string[]) => ({ id, headers, fingerprint: headerFingerprint(headers) });
+
+describe('findMatchingTemplate', () => {
+  const templates = [
+    template('pumps', ['Tag', 'Asset Name', 'Diameter (in)', 'Status']),
+    template('valves', ['Tag', 'Asset Name', 'Valve Class'])
+  ];
+
+  it('prefers the template with the same headers in any order or case', () => {
+    expect(findMatchingTemplate(templates, [' asset  name', 'TAG', 'Valve Class'])?.id).toBe('valves');
+  });
+
+  it('falls back to the template most of whose headers the file has', () => {
+    expect(findMatchingTemplate(templates, ['Tag', 'Asset Name', 'Diameter (in)', 'Status', 'Notes'])?.id).toBe('pumps');
+    expect(findMatchingTemplate(templates, ['Tag', 'Asset Name', 'Notes'])).toBeNull();
+  });
+});
+
+describe('applyTemplate', () => {
+  it('maps the columns the template knows and reports them as covered', () => {
+    const columns = [
+      { excelColumn: 'Tag', dbField: null, mapped: false },
+      { excelColumn: 'Notes', dbField: 'description', mapped: true },
+      { excelColumn: 'Legacy Code', dbField: null, mapped: false },
+      { excelColumn: 'Owner', dbField: null, mapped: false }
+    ];
+
+    const result = applyTemplate(columns, {
+      mappings: [
+        { excelColumn: 'tag', dbField: 'asset_tag' },
+        { excelColumn: 'Notes', dbField: null },
+        { excelColumn: 'Legacy Code', dbField: 'removed_field' }
+      ]
+    }, ['asset_tag', 'description']);
+
+    expect(result.covered).toEqual(['Tag', 'Notes', 'Legacy Code']);
+    expect(result.columns).toEqual([
+      { excelColumn: 'Tag', dbField: 'asset_tag', mapped: true },
+      { excelColumn: 'Notes', dbField: null, mapped: false },
+      { excelColumn: 'Legacy Code', dbField: null, mapped: false },
+      { excelColumn: 'Owner', dbField: null, mapped: false }
+    ]);
+  });
+});
+
+describe('templateFromColumns', () => {
+  it('keeps transforms of mapped fields and non-empty defaults', () => {
+    expect(templateFromColumns(
+      [
+        { excelColumn: 'Tag', dbField: 'asset_tag', mapped: true },
+        { excelColumn: 'Size', dbField: 'diameter', mapped: false }
+      ],
+      { diameter: { type: 'unit', factor: 25.4 }, asset_tag: { type: 'enum', values: { x: 'y' } } },
+      { status: 'active', location: '' }
+    )).toEqual({
+      headers: ['Tag', 'Size'],
+      mappings: [
+        { excelColumn: 'Tag', dbField: 'asset_tag' },
+        { excelColumn: 'Size', dbField: null }
+      ],
+      transforms: { asset_tag: { type: 'enum', values: { x: 'y' } } },
+      defaults: { status: 'active' }
+    });
+  });
+});
+
+describe('applyValueTransform', () => {
+  it('converts units', () => {
+    expect(applyValueTransform('2', { type: 'unit', factor: 25.4 })).toBe(50.8);
+    expect(applyValueTransform(100, { type: 'unit', factor: 1.8, offset: 32 })).toBe(212);
+    expect(applyValueTransform('n/a', { type: 'unit', factor: 2 })).toBe('n/a');
+  });
+
+  it('reads dates in the given order and Excel serials', () => {
+    expect(applyValueTransform('03/04/2025', { type: 'date', format: 'DD/MM/YYYY' })).toBe('2025-04-03');
+    expect(applyValueTransform('03/04/2025', { type: 'date', format: 'MM/DD/YYYY' })).toBe('2025-03-04');
+    expect(applyValueTransform(45658, { type: 'date', format: 'DD/MM/YYYY' })).toBe('2025-01-01');
+    expect(applyValueTransform('13/13/2025', { type: 'date', format: 'DD/MM/YYYY' })).toBe('13/13/2025');
+  });
+
+  it('maps values case-insensitively and passes unknown values on', () => {
+    const transform = { type: 'enum' as const, values: { A: 'active', I: 'inactive' } };
+    expect(applyValueTransform(' a ', transform)).toBe('active');
+    expect(applyValueTransform('X', transform)).toBe('X');
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Import Template Service
+ *
+ * Column-mapping templates of the import wizard, stored server-side per tenant
+ * and document type. A template holds the headers it was saved from, the field
+ * chosen for each column (null for skipped columns), value transforms per field
+ * and default values. A file whose headers match a template gets its mapping
+ * without asking AI; only columns the template does not cover are sent to
+ * AIColumnMapper.
+ */
+
+import { httpClient } from './HttpClient';
+
+export type DateFormat = 'YYYY-MM-DD' | 'YYYY/MM/DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY' | 'DD-MM-YYYY';
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'YYYY/MM/DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY'];
+
+export type TemplateValue = string | number | boolean;
+
+export type ValueTransform =
+  /** value × factor + offset, e.g. inches to millimetres (factor 25.4) */
+  | { type: 'unit'; factor: number; offset?: number; label?: string }
+  /** Text dates in a fixed day/month order, read as YYYY-MM-DD */
+  | { type: 'date'; format: DateFormat }
+  /** Source values (case-insensitive) replaced by the stored value */
+  | { type: 'enum'; values: Record<string, TemplateValue> };
+
+export interface TemplateColumnMapping {
+  excelColumn: string;
+  /** null when the column is skipped */
+  dbField: string | null;
+}
+
+export interface ImportTemplateContent {
+  headers: string[];
+  mappings: TemplateColumnMapping[];
+  /** Transforms by field */
+  transforms: Record<string, ValueTransform>;
+  /** Values by field, used when the cell is empty or the field is not mapped */
+  defaults: Record<string, TemplateValue>;
+}
+
+export interface ImportTemplate extends ImportTemplateContent {
+  id: string;
+  documentType: string;
+  name: string;
+  fingerprint: string;
+  owner: string;
+  isOwner: boolean;
+  last_updated?: string;
+}
+
+/**
+ * Columns as far as a template needs them (see the gadget's ColumnMapping)
+ */
+export interface MappableColumn {
+  excelColumn: string;
+  dbField: string | null;
+  mapped: boolean;
+}
+
+/**
+ * Share of a template's headers a file must contain for the template to apply
+ */
+const MATCH_THRESHOLD = 0.8;
+
+/**
+ * Days from 1899-12-30 (Excel's day 0) to 1970-01-01
+ */
+const EXCEL_EPOCH_OFFSET = 25569;
+
+export const normalizeHeader = (header: unknown): string =>
+  String(header ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Normalized headers, de-duplicated and sorted (as stored by the API)
+ */
+export function headerFingerprint(headers: unknown[]): string {
+  return Array.from(new Set(headers.map(normalizeHeader).filter(Boolean))).sort().join('|');
+}
+
+/**
+ * Template for a file's headers: one with the same fingerprint, otherwise the
+ * one with most of its headers in the file (at least 80% of them)
+ */
+export function findMatchingTemplate<T extends Pick<ImportTemplate, 'fingerprint' | 'headers'>>(
+  templates: T[],
+  headers: unknown[]
+): T | null {
+  const fingerprint = headerFingerprint(headers);
+  const exact = templates.find(template => template.fingerprint === fingerprint);
+  if (exact) return exact;
+
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  let best: T | null = null;
+  let bestFound = 0;
+  for (const template of templates) {
+    const templateHeaders = Array.from(new Set(template.headers.map(normalizeHeader)));
+    const found = templateHeaders.filter(header => fileHeaders.has(header)).length;
+    if (found > bestFound && found / templateHeaders.length >= MATCH_THRESHOLD) {
+      best = template;
+      bestFound = found;
+    }
+  }
+  return best;
+}
+
+/**
+ * Apply a template's column choices; columns it has no entry for are left as
+ * they are and are not in covered. Fields the form no longer has are skipped.
+ */
+export function applyTemplate<C extends MappableColumn>(
+  columns: C[],
+  template: Pick<ImportTemplate, 'mappings'>,
+  knownFields?: string[]
+): { columns: C[]; covered: string[] } {
+  const choices = new Map(template.mappings.map(mapping => [normalizeHeader(mapping.excelColumn), mapping.dbField]));
+  const covered: string[] = [];
+
+  const mapped = columns.map(column => {
+    const key = normalizeHeader(column.excelColumn);
+    if (!choices.has(key)) return column;
+    covered.push(column.excelColumn);
+
+    const dbField = choices.get(key) || null;
+    const usable = dbField && (!knownFields || knownFields.includes(dbField)) ? dbField : null;
+    return { ...column, dbField: usable, mapped: !!usable };
+  });
+
+  return { columns: mapped, covered };
+}
+
+/**
+ * Template content for the current mapping; transforms and defaults of
+ * fields without a value are left out
+ */
+export function templateFromColumns(
+  columns: MappableColumn[],
+  transforms: Record<string, ValueTransform>,
+  defaults: Record<string, TemplateValue | undefined>
+): ImportTemplateContent {
+  const mappedFields = columns.filter(column => column.mapped && column.dbField).map(column => column.dbField!);
+  const content: ImportTemplateContent = {
+    headers: columns.map(column => column.excelColumn),
+    mappings: columns.map(column => ({
+      excelColumn: column.excelColumn,
+      dbField: column.mapped ? column.dbField : null
+    })),
+    transforms: {},
+    defaults: {}
+  };
+
+  Object.keys(transforms).forEach(field => {
+    if (mappedFields.includes(field)) content.transforms[field] = transforms[field];
+  });
+  Object.keys(defaults).forEach(field => {
+    const value = defaults[field];
+    if (value !== undefined && value !== '') content.defaults[field] = value;
+  });
+  return content;
+}
+
+function parseDate(value: unknown, format: DateFormat): unknown {
+  if (typeof value === 'number') {
+    // Excel date serial
+    const date = new Date(Math.round((value - EXCEL_EPOCH_OFFSET) * 86400000));
+    return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string') return value;
+
+  const order = format.match(/YYYY|MM|DD/g)!;
+  const parts = value.trim().match(/^(\d{1,4})\D(\d{1,2})\D(\d{1,4})/);
+  if (!parts) return value;
+
+  const get = (token: string) => Number(parts[order.indexOf(token) + 1]);
+  const year = get('YYYY');
+  const month = get('MM');
+  const day = get('DD');
+  if (year < 1000 || month < 1 || month > 12 || day < 1 || day > 31) return value;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Value of a cell after a template transform; values a transform does not
+ * understand are passed on unchanged
+ */
+export function applyValueTransform(value: unknown, transform: ValueTransform | undefined): unknown {
+  if (!transform || value === undefined || value === null || value === '') return value;
+
+  switch (transform.type) {
+    case 'unit': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+      if (isNaN(number)) return value;
+      // Round away binary noise (25.4 × 2 = 50.800000000000004)
+      return Number((number * transform.factor + (transform.offset || 0)).toPrecision(12));
+    }
+    case 'date':
+      return parseDate(value, transform.format);
+    case 'enum': {
+      const key = normalizeHeader(value);
+      const match = Object.keys(transform.values).find(source => normalizeHeader(source) === key);
+      return match === undefined ? value : transform.values[match];
+    }
+    default:
+      return value;
+  }
+}
+
+async function readData<T>(response: Response, action: string): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.success === false) {
+    throw new Error(body.error || `Failed to ${action}: ${response.status} ${response.statusText}`);
+  }
+  return body.data as T;
+}
+
+export class ImportTemplateService {
+  static async list(documentType: string): Promise<ImportTemplate[]> {
+    const response = await httpClient.get(`/api/import-templates?documentType=${encodeURIComponent(documentType)}`);
+    return readData<ImportTemplate[]>(response, 'load import templates');
+  }
+
+  static async create(documentType: string, name: string, content: ImportTemplateContent): Promise<ImportTemplate> {
+    const response = await httpClient.post('/api/import-templates', { documentType, name, ...content });
+    return readData<ImportTemplate>(response, 'save import template');
+  }
+
+  /**
+   * Rename or overwrite one of the user's templates
+   */
+  static async update(
+    templateId: string,
+    changes: Partial<ImportTemplateContent> & { name?: string }
+  ): Promise<ImportTemplate> {
+    const response = await httpClient.put(`/api/import-templates/${encodeURIComponent(templateId)}`, changes);
+    return readData<ImportTemplate>(response, 'update import template');
+  }
+
+  static async remove(templateId: string): Promise<void> {
+    const response = await httpClient.delete(`/api/import-templates/${encodeURIComponent(templateId)}`);
+    await readData(response, 'delete import template');
+  }
+}
@@ -6,6 +6,8 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { InspectionModel } from '../models/DocumentSchemas';
+import { RevisionConflictError } from '../utils/recordMerge';
+import { httpClient } from './HttpClient';
 
 export interface InspectionSaveData {
   inspectionType: string;
@@ -50,7 +52,8 @@ export class InspectionService {
       created_date: new Date(),
       created_by: userId,
       last_updated: new Date(),
-      updated_by: userId
+      updated_by: userId,
+      revision: 1
     });
 
     await inspection.save();
@@ -59,12 +62,16 @@ export class InspectionService {
 
   /**
    * Update an existing inspection document
+   *
+   * Every update increments the revision. With expectedRevision, an update
+   * against an older revision throws a RevisionConflictError with the current copy.
    */
   static async updateInspection(
     inspectionId: string,
     data: Partial<InspectionSaveData>,
     tenantId: string,
-    userId: string
+    userId: string,
+    expectedRevision?: number
   ): Promise<any> {
     // Calculate progress based on completed sections
     if (data.completedSections) {
@@ -72,20 +79,37 @@ export class InspectionService {
       data.progress = Math.round((data.completedSections.length / totalSections) * 100);
     }
 
+    const baseQuery = {
+      id: inspectionId,
+      tenantId,
+      deleted: { $ne: true }
+    };
+    // Documents saved before revisions were introduced count as revision 0
+    const query = expectedRevision === undefined
+      ? baseQuery
+      : { ...baseQuery, revision: expectedRevision || null };
+
+    const { revision, ...changes } = data;
     const inspection = await InspectionModel.findOneAndUpdate(
-      { 
-        id: inspectionId, 
-        tenantId,
-        deleted: { $ne: true }
-      },
+      query,
       {
-        ...data,
-        last_updated: new Date(),
-        updated_by: userId
+        $set: {
+          ...changes,
+          last_updated: new Date(),
+          updated_by: userId
+        },
+        $inc: { revision: 1 }
       },
       { new: true }
     );
 
+    if (!inspection && expectedRevision !== undefined) {
+      const current = await InspectionModel.findOne(baseQuery).lean();
+      if (current) {
+        throw new RevisionConflictError(data, current);
+      }
+    }
+
     return inspection;
   }
 
@@ -226,53 +250,35 @@ export class InspectionService {
   }
 
   /**
-   * Approve inspection
+   * Run a lifecycle transition (approve, archive, ...). The API checks the
+   * inspection type's lifecycle: current state, roles, required fields,
+   * comment and signature.
    */
-  static async approveInspection(
+  static async transitionInspection(
     inspectionId: string,
-    tenantId: string,
-    userId: string
+    transition: string,
+    input: { comment?: string; signature?: string } = {}
   ): Promise<any> {
-    const inspection = await InspectionModel.findOneAndUpdate(
-      {
-        id: inspectionId,
-        tenantId,
-        status: 'completed',
-        deleted: { $ne: true }
-      },
-      {
-        status: 'approved',
-        last_updated: new Date(),
-        updated_by: userId
-      },
-      { new: true }
-    );
-    
-    return inspection;
+    const response = await httpClient.post(`/api/inspections/${inspectionId}/transitions`, {
+      transition,
+      ...input
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.message || result.error || `Transition '${transition}' failed`);
+    }
+    return result;
   }
 
   /**
-   * Archive inspections
+   * Lifecycle state, available transitions and history of an inspection
    */
-  static async archiveInspections(
-    inspectionIds: string[],
-    tenantId: string,
-    userId: string
-  ): Promise<number> {
-    const result = await InspectionModel.updateMany(
-      {
-        id: { $in: inspectionIds },
-        tenantId,
-        deleted: { $ne: true }
-      },
-      {
-        status: 'archived',
-        last_updated: new Date(),
-        updated_by: userId
-      }
-    );
-
-    return result.modifiedCount;
+  static async getInspectionTransitions(inspectionId: string): Promise<any> {
+    const response = await httpClient.get(`/api/inspections/${inspectionId}/transitions`);
+    if (!response.ok) {
+      throw new Error(`Failed to load transitions: ${response.statusText}`);
+    }
+    return response.json();
   }
 
   /**
@@ -424,7 +430,7 @@ export class InspectionService {
     const totalSections = sectionData.totalSections || 10; // Get from metadata
     const progress = Math.round((completedSections.length / totalSections) * 100);
 
-    // Build updates object
+    // Build updates object (status changes go through lifecycle transitions)
     const updates: any = {
       completedSections,
       lastSectionCompleted: sectionId,
@@ -433,8 +439,7 @@ export class InspectionService {
       grids,
       aiAnalysis,
       wizardState: sectionData.wizardState,
-      progress,
-      status: 'in_progress'
+      progress
     };
 
     return await this.updateInspection(inspectionId, updates, tenantId, userId);
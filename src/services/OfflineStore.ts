@@ -0,0 +1,148 @@
+/**
+ * Offline Store
+ *
+ * Key/value persistence in IndexedDB for offline capture:
+ * - drafts: the latest local copy of a record being edited
+ * - queue: outbound writes waiting to be replayed (see SyncQueue)
+ * - files: photos and other blobs waiting to be uploaded
+ *
+ * Falls back to memory where IndexedDB is unavailable (tests, some private
+ * browsing modes); data then lives only as long as the page.
+ */
+
+export type OfflineStoreName = 'drafts' | 'queue' | 'files';
+
+export interface OfflineStorage {
+  get<T = any>(store: OfflineStoreName, key: string): Promise<T | undefined>;
+  put<T = any>(store: OfflineStoreName, key: string, value: T): Promise<void>;
+  delete(store: OfflineStoreName, key: string): Promise<void>;
+  getAll<T = any>(store: OfflineStoreName): Promise<T[]>;
+}
+
+/**
+ * Locally saved copy of a record
+ */
+export interface OfflineDraft<T = any> {
+  key: string;
+  data: T;
+  savedAt: string;
+}
+
+const DB_NAME = 'intellispec-offline';
+const DB_VERSION = 1;
+const STORE_NAMES: OfflineStoreName[] = ['drafts', 'queue', 'files'];
+
+/**
+ * In-memory storage (no persistence across reloads)
+ */
+export class MemoryOfflineStorage implements OfflineStorage {
+  private stores = new Map<OfflineStoreName, Map<string, any>>();
+
+  private store(name: OfflineStoreName): Map<string, any> {
+    if (!this.stores.has(name)) {
+      this.stores.set(name, new Map());
+    }
+    return this.stores.get(name)!;
+  }
+
+  async get<T = any>(store: OfflineStoreName, key: string): Promise<T | undefined> {
+    return this.store(store).get(key);
+  }
+
+  async put<T = any>(store: OfflineStoreName, key: string, value: T): Promise<void> {
+    this.store(store).set(key, value);
+  }
+
+  async delete(store: OfflineStoreName, key: string): Promise<void> {
+    this.store(store).delete(key);
+  }
+
+  async getAll<T = any>(store: OfflineStoreName): Promise<T[]> {
+    return Array.from(this.store(store).values());
+  }
+}
+
+/**
+ * IndexedDB storage; one object store per OfflineStoreName with explicit keys
+ */
+class IndexedDBOfflineStorage implements OfflineStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORE_NAMES.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name);
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    store: OfflineStoreName,
+    mode: IDBTransactionMode,
+    action: (objectStore: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(store, mode);
+      const request = action(transaction.objectStore(store));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || request.error);
+    });
+  }
+
+  get<T = any>(store: OfflineStoreName, key: string): Promise<T | undefined> {
+    return this.run<T | undefined>(store, 'readonly', objectStore => objectStore.get(key));
+  }
+
+  async put<T = any>(store: OfflineStoreName, key: string, value: T): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.put(value, key));
+  }
+
+  async delete(store: OfflineStoreName, key: string): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.delete(key));
+  }
+
+  getAll<T = any>(store: OfflineStoreName): Promise<T[]> {
+    return this.run<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+  }
+}
+
+/**
+ * IndexedDB storage when the browser has it, memory otherwise
+ */
+export function createOfflineStorage(): OfflineStorage {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBOfflineStorage() : new MemoryOfflineStorage();
+}
+
+export const offlineStore: OfflineStorage = createOfflineStorage();
+
+/**
+ * Keep the latest local copy of a record (wizard state, form values, signatures)
+ */
+export async function saveDraft<T = any>(key: string, data: T, storage: OfflineStorage = offlineStore): Promise<void> {
+  const draft: OfflineDraft<T> = { key, data, savedAt: new Date().toISOString() };
+  await storage.put('drafts', key, draft);
+}
+
+export function loadDraft<T = any>(key: string, storage: OfflineStorage = offlineStore): Promise<OfflineDraft<T> | undefined> {
+  return storage.get<OfflineDraft<T>>('drafts', key);
+}
+
+export function deleteDraft(key: string, storage: OfflineStorage = offlineStore): Promise<void> {
+  return storage.delete('drafts', key);
+}
@@ -0,0 +1,80 @@
+import catalog from '../../public/data/metrics/semantic-metrics.json';
+import { MetricCatalog, toMetricFilters, validateMetricCatalog } from './SemanticMetricsService';
+
+describe('validateMetricCatalog', () => {
+  it('accepts the shipped catalog', () => {
+    expect(validateMetricCatalog(catalog as MetricCatalog)).toEqual([]);
+  });
+
+  it('reports names that do not resolve', () => {
+    const broken: MetricCatalog = {
+      dimensions: { site: { label: 'Site' } },
+      sources: {
+        assets: { label: 'Assets', documentType: 'asset', dimensions: { site: 'site_id', region: 'region' }, filters: {} },
+        inspections: { label: 'Inspections', documentType: 'inspection', dimensions: {}, filters: {} }
+      },
+      metrics: {
+        asset_count: { label: 'Assets', source: 'assets', type: 'count' },
+        inspection_count: { label: 'Inspections', source: 'inspections', type: 'count' },
+        avg_age: { label: 'Age', source: 'assets', type: 'avg' },
+        orphan: { label: 'Orphan', source: 'sites', type: 'count' },
+        mixed_ratio: { label: 'Mixed', source: 'assets', type: 'ratio', numerator: 'inspection_count', denominator: 'missing' }
+      }
+    };
+
+    expect(validateMetricCatalog(broken)).toEqual([
+      'Source assets maps unknown dimension region',
+      'Metric avg_age (avg) needs a field',
+      'Metric orphan uses unknown source sites',
+      'Ratio mixed_ratio must divide count, sum, avg or distinct metrics of assets',
+      'Ratio mixed_ratio uses unknown metric missing'
+    ]);
+  });
+
+  it('reports incomplete lookups, buckets, running totals and multiplied fields', () => {
+    const broken: MetricCatalog = {
+      dimensions: { level: { label: 'Level' } },
+      sources: {
+        lines: {
+          label: 'Lines',
+          documentType: 'invoice',
+          unwind: 'lineItems',
+          lookups: { spec: { documentType: 'paint_specifications', field: '' } },
+          dimensions: { level: { field: 'spec.voc', buckets: [] } },
+          filters: {}
+        }
+      },
+      metrics: {
+        quantity: { label: 'Quantity', source: 'lines', type: 'sum', field: 'lineItems.quantity' },
+        line_count: { label: 'Lines', source: 'lines', type: 'count', multiply: ['spec.voc'] },
+        running: { label: 'Running', source: 'lines', type: 'running_total', of: 'missing' },
+        running_quantity: { label: 'Running Quantity', source: 'lines', type: 'running_total', of: 'quantity' }
+      }
+    };
+
+    expect(validateMetricCatalog(broken)).toEqual([
+      'Source lines lookup spec needs a documentType and field',
+      'Source lines buckets level without a field or buckets',
+      'Metric line_count (count) cannot multiply fields',
+      'Running total running must accumulate a metric of lines'
+    ]);
+  });
+});
+
+describe('toMetricFilters', () => {
+  it('sends filter values and drops empty ones', () => {
+    expect(toMetricFilters(
+      {
+        site_id: { value: ['s1'], operator: 'in' },
+        company_id: { value: [], operator: 'in' },
+        inspector: { value: '', operator: 'like' },
+        date_range: { value: ['2026-01-01', '2026-03-31'], operator: 'between' }
+      },
+      { asset_id: 'a1', status: undefined }
+    )).toEqual({
+      site_id: ['s1'],
+      date_range: ['2026-01-01', '2026-03-31'],
+      asset_id: 'a1'
+    });
+  });
+});
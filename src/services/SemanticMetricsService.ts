@@ -0,0 +1,257 @@
+/**
+ * Semantic Metrics Service
+ *
+ * Typed client for the named metrics in public/data/metrics/semantic-metrics.json.
+ * KPI and chart gadgets reference metrics by name (and group them by named
+ * dimensions); the API compiles the query to a tenant-scoped pipeline, so the
+ * same metric gives the same number on every dashboard.
+ */
+
+import type { WorkspaceFilters } from '../contexts/WorkspaceFilterContext';
+import { httpClient } from './HttpClient';
+
+export type MetricType = 'count' | 'sum' | 'avg' | 'distinct' | 'ratio' | 'running_total';
+export type MetricFormat = 'number' | 'percentage' | 'currency' | 'decimal';
+export type TimeGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type MetricConditionOperator = 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists';
+
+export interface MetricCondition {
+  field: string;
+  op: MetricConditionOperator;
+  /** Dates may be given as "now", "now+30d" or "now-7d" */
+  value: string | number | boolean | Array<string | number>;
+}
+
+export interface MetricDefinition {
+  label: string;
+  description?: string;
+  source: string;
+  type: MetricType;
+  /** Field for sum, avg and distinct */
+  field?: string;
+  /** Further fields a sum or avg multiplies the field by */
+  multiply?: string[];
+  /** Documents counted by count / sum / avg / distinct (all conditions must hold) */
+  where?: MetricCondition[];
+  /** Metrics divided by a ratio (count, sum, avg or distinct of the same source) */
+  numerator?: string;
+  denominator?: string;
+  /** Multiplier for sums, averages and ratios (100 for percentages) */
+  scale?: number;
+  /** Metric a running total accumulates in row order */
+  of?: string;
+  /** Running total as a percentage of the total of all rows */
+  percent?: boolean;
+  format?: MetricFormat;
+  unit?: string;
+}
+
+export interface MetricDimensionDefinition {
+  label: string;
+  type?: 'category' | 'time';
+  granularity?: TimeGranularity;
+}
+
+export interface MetricBucket {
+  label: string;
+  op: MetricConditionOperator;
+  value: MetricCondition['value'];
+}
+
+/**
+ * Dimension whose value is the label of the first bucket the field falls in
+ */
+export interface MetricBucketDimension {
+  field: string;
+  buckets: MetricBucket[];
+  /** Label when no bucket matches */
+  otherwise?: string;
+  /** Label for documents without the field (otherwise they fall through the buckets) */
+  missing?: string;
+}
+
+/**
+ * Join to the document of the same tenant whose id is in field;
+ * its fields are read as "<lookup name>.<field>"
+ */
+export interface MetricLookupDefinition {
+  documentType: string;
+  field: string;
+}
+
+export interface MetricFilterDefinition {
+  field: string;
+  /** Date filters take a ["YYYY-MM-DD", "YYYY-MM-DD"] range or YTD / QTD / MTD */
+  type?: 'date';
+  /** Text filters matching part of the value, ignoring case */
+  match?: 'contains';
+}
+
+export interface MetricSourceDefinition {
+  label: string;
+  /** Document type, or an allow-listed collection (e.g. executions) */
+  documentType?: string;
+  collection?: string;
+  /** Rows the source covers (all conditions must hold) */
+  where?: MetricCondition[];
+  /** Array field whose elements are the rows (e.g. invoice line items) */
+  unwind?: string;
+  lookups?: Record<string, MetricLookupDefinition>;
+  /** Field per dimension; later fields are fallbacks when the first is missing */
+  dimensions: Record<string, string | string[] | MetricBucketDimension>;
+  /** Filters by workspace filter id */
+  filters: Record<string, MetricFilterDefinition>;
+}
+
+export interface MetricCatalog {
+  name?: string;
+  description?: string;
+  version?: string;
+  dimensions: Record<string, MetricDimensionDefinition>;
+  sources: Record<string, MetricSourceDefinition>;
+  metrics: Record<string, MetricDefinition>;
+}
+
+export interface MetricSort {
+  by: string;
+  order?: 'asc' | 'desc';
+}
+
+export type MetricFilterValue = string | number | boolean | Array<string | number>;
+
+export interface MetricQuery {
+  metrics: string[];
+  dimensions?: string[];
+  filters?: Record<string, MetricFilterValue>;
+  /** Overrides the granularity of time dimensions (e.g. month) */
+  granularity?: TimeGranularity;
+  /** Row order by a queried metric or dimension (running totals follow it) */
+  sort?: MetricSort;
+  /** Maximum number of rows */
+  limit?: number;
+}
+
+export type MetricRow = Record<string, string | number | null>;
+
+export interface MetricQueryResult {
+  metrics: string[];
+  dimensions: string[];
+  rows: MetricRow[];
+}
+
+/**
+ * Catalog entry as listed by GET /api/metrics/catalog
+ */
+export interface MetricSummary extends Pick<MetricDefinition, 'label' | 'description' | 'type' | 'format' | 'unit' | 'source'> {
+  name: string;
+  dimensions: string[];
+  filters: string[];
+}
+
+const BASE_TYPES: MetricType[] = ['count', 'sum', 'avg', 'distinct'];
+
+/**
+ * Check that every name in the catalog resolves (sources, dimensions,
+ * ratio and running total inputs) and that each metric has the fields its
+ * type needs.
+ */
+export function validateMetricCatalog(catalog: MetricCatalog): string[] {
+  const errors: string[] = [];
+
+  Object.entries(catalog.sources).forEach(([sourceName, source]) => {
+    if (!source.documentType && !source.collection) errors.push(`Source ${sourceName} has no documentType`);
+    Object.entries(source.lookups || {}).forEach(([lookupName, lookup]) => {
+      if (!lookup.documentType || !lookup.field) {
+        errors.push(`Source ${sourceName} lookup ${lookupName} needs a documentType and field`);
+      }
+    });
+    Object.entries(source.dimensions).forEach(([dimension, mapping]) => {
+      if (!catalog.dimensions[dimension]) {
+        errors.push(`Source ${sourceName} maps unknown dimension ${dimension}`);
+      } else if (typeof mapping === 'object' && !Array.isArray(mapping) && !(mapping.field && mapping.buckets?.length)) {
+        errors.push(`Source ${sourceName} buckets ${dimension} without a field or buckets`);
+      }
+    });
+  });
+
+  Object.entries(catalog.metrics).forEach(([name, metric]) => {
+    if (!catalog.sources[metric.source]) {
+      errors.push(`Metric ${name} uses unknown source ${metric.source}`);
+    }
+    if (metric.type === 'ratio') {
+      [metric.numerator, metric.denominator].forEach(input => {
+        const inputMetric = input ? catalog.metrics[input] : undefined;
+        if (!inputMetric) {
+          errors.push(`Ratio ${name} uses unknown metric ${input}`);
+        } else if (inputMetric.source !== metric.source || !BASE_TYPES.includes(inputMetric.type)) {
+          errors.push(`Ratio ${name} must divide count, sum, avg or distinct metrics of ${metric.source}`);
+        }
+      });
+    } else if (metric.type === 'running_total') {
+      const base = metric.of ? catalog.metrics[metric.of] : undefined;
+      if (!base || base.source !== metric.source || base.type === 'running_total') {
+        errors.push(`Running total ${name} must accumulate a metric of ${metric.source}`);
+      }
+    } else if (!BASE_TYPES.includes(metric.type)) {
+      errors.push(`Metric ${name} has unknown type ${metric.type}`);
+    } else if (metric.type !== 'count' && !metric.field) {
+      errors.push(`Metric ${name} (${metric.type}) needs a field`);
+    } else if (metric.multiply && !['sum', 'avg'].includes(metric.type)) {
+      errors.push(`Metric ${name} (${metric.type}) cannot multiply fields`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Filter values of the workspace filter bar (and connected gadgets) as sent
+ * with a metric query; empty values are left out.
+ */
+export function toMetricFilters(
+  filters: WorkspaceFilters | undefined,
+  extra: Record<string, unknown> = {}
+): Record<string, MetricFilterValue> {
+  const result: Record<string, MetricFilterValue> = {};
+  const entries: Array<[string, unknown]> = [
+    ...Object.entries(filters || {}).map(([key, filter]) => [key, filter?.value] as [string, unknown]),
+    ...Object.entries(extra)
+  ];
+
+  entries.forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value) && value.length === 0) return;
+    result[key] = value as MetricFilterValue;
+  });
+  return result;
+}
+
+async function readData<T>(response: Response, action: string): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.success === false) {
+    throw new Error(body.error || `Failed to ${action}: ${response.status} ${response.statusText}`);
+  }
+  return body.data as T;
+}
+
+// Identical queries issued at the same time (e.g. a KPI and a chart on one dashboard) share a request
+const pendingQueries = new Map<string, Promise<MetricQueryResult>>();
+
+export class SemanticMetricsService {
+  static async getCatalog(): Promise<{ dimensions: Array<MetricDimensionDefinition & { name: string }>; metrics: MetricSummary[] }> {
+    const response = await httpClient.get('/api/metrics/catalog');
+    return readData(response, 'load the metric catalog');
+  }
+
+  static query(query: MetricQuery): Promise<MetricQueryResult> {
+    const key = JSON.stringify(query);
+    const pending = pendingQueries.get(key);
+    if (pending) return pending;
+
+    const request = httpClient.post('/api/metrics/query', query)
+      .then(response => readData<MetricQueryResult>(response, 'query metrics'))
+      .finally(() => pendingQueries.delete(key));
+    pendingQueries.set(key, request);
+    return request;
+  }
+}
@@ -0,0 +1,117 @@
+import { MemoryOfflineStorage } from './OfflineStore';
+import { retryDelay, SyncQueue, SyncQueueItem, SyncTransport } from './SyncQueue';
+
+const jsonResponse = (body: any, status = 200) =>
+  ({ ok: status >= 200 && status < 300, status, statusText: '', json: async () => body } as Response);
+
+const createTransport = (handlers: Partial<SyncTransport> = {}) => {
+  const sent: SyncQueueItem[] = [];
+  const transport: SyncTransport = {
+    send: async (item, file) => {
+      sent.push(item);
+      return handlers.send ? handlers.send(item, file) : jsonResponse({ id: 'doc-1', last_updated: 't1' });
+    },
+    fetchCurrent: handlers.fetchCurrent || (async () => null)
+  };
+  return { transport, sent };
+};
+
+describe('SyncQueue', () => {
+  it('replays writes in order and rewrites the local id of records created offline', async () => {
+    const { transport, sent } = createTransport();
+    const queue = new SyncQueue(new MemoryOfflineStorage(), transport);
+    const resolved = jest.fn();
+    queue.onIdResolved(resolved);
+
+    const created = await queue.enqueue({ method: 'POST', url: '/api/documents', body: { type: 'inspection' } });
+    await queue.enqueue({
+      method: 'PUT',
+      url: `/api/documents/${created.localId}`,
+      body: { id: created.localId, progress: 50 }
+    });
+    expect(await queue.shouldQueue(`/api/documents/${created.localId}`)).toBe(true);
+
+    await queue.flush();
+
+    expect(sent.map(item => `${item.method} ${item.url}`)).toEqual(['POST /api/documents', 'PUT /api/documents/doc-1']);
+    expect(sent[1].body).toEqual({ id: 'doc-1', progress: 50 });
+    expect(resolved).toHaveBeenCalledWith(created.localId, 'doc-1', expect.anything());
+    expect(queue.getState().pending).toBe(0);
+  });
+
+  it('holds an update as a conflict when the server copy changed', async () => {
+    const { transport, sent } = createTransport({
+      send: async item => jsonResponse({ data: { id: 'doc-1', last_updated: 't2', revision: item.body.revision + 1 } }),
+      fetchCurrent: async () => ({ data: { id: 'doc-1', title: 'Server', last_updated: 't2', revision: 7 } })
+    });
+    const queue = new SyncQueue(new MemoryOfflineStorage(), transport);
+
+    const update = await queue.enqueue({ method: 'PUT', url: '/api/documents/doc-1', body: { title: 'Local', revision: 6 }, baseUpdatedAt: 't1' });
+    await queue.enqueue({ method: 'PUT', url: '/api/documents/doc-1', body: { title: 'Later', revision: 6 }, baseUpdatedAt: 't1' });
+    await queue.flush();
+
+    expect(sent).toHaveLength(0);
+    expect(queue.getState().conflicts).toEqual([
+      expect.objectContaining({ id: update.id, serverCopy: expect.objectContaining({ title: 'Server' }) })
+    ]);
+    expect(queue.getState().pending).toBe(1);
+
+    await queue.resolveConflict(update.id, 'keep-local');
+    expect(sent.map(item => item.body.title)).toEqual(['Local', 'Later']);
+    // The kept change and the writes behind it target the server revision
+    expect(sent.map(item => item.body.revision)).toEqual([7, 8]);
+    expect(queue.getState()).toMatchObject({ pending: 0, conflicts: [] });
+  });
+
+  it('keeps items queued while the network is unavailable', async () => {
+    let offline = true;
+    const { transport } = createTransport({
+      send: async () => {
+        if (offline) throw new TypeError('Failed to fetch');
+        return jsonResponse({ file: { id: 'file-1' } });
+      }
+    });
+    const storage = new MemoryOfflineStorage();
+    const queue = new SyncQueue(storage, transport);
+
+    const upload = await queue.enqueueUpload({ url: '/api/uploads/image', file: new Blob(['x']), fileName: 'a.png' });
+    await queue.flush();
+
+    expect(queue.getState()).toMatchObject({ online: false, pending: 1 });
+    expect(await queue.getFile(upload.localId!)).toBeDefined();
+
+    offline = false;
+    await queue.flush();
+
+    expect(queue.getState()).toMatchObject({ online: true, pending: 0 });
+    expect(await storage.getAll('files')).toEqual([]);
+  });
+
+  it('retries on its own after a server error', async () => {
+    let status = 503;
+    const { transport, sent } = createTransport({
+      send: async () => ({
+        ...jsonResponse({ id: 'doc-1' }, status),
+        headers: new Headers({ 'Retry-After': '0' })
+      } as Response)
+    });
+    const queue = new SyncQueue(new MemoryOfflineStorage(), transport);
+
+    await queue.enqueue({ method: 'PUT', url: '/api/documents/doc-1', body: { progress: 50 } });
+    await queue.flush();
+    expect(sent).toHaveLength(1);
+    expect(queue.getState()).toMatchObject({ pending: 1, failed: [] });
+
+    status = 200;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(sent).toHaveLength(2);
+    expect(queue.getState().pending).toBe(0);
+  });
+
+  it('waits as long as the server asks before retrying', () => {
+    expect(retryDelay(0)).toBe(2000);
+    expect(retryDelay(3)).toBe(16000);
+    expect(retryDelay(20)).toBe(5 * 60 * 1000);
+    expect(retryDelay(0, '30')).toBe(30000);
+  });
+});
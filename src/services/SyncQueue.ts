@@ -0,0 +1,616 @@
+/**
+ * Sync Queue
+ *
+ * Persistent outbound queue for writes made without a connection. Items are
+ * stored in IndexedDB (OfflineStore) and replayed in the order they were made
+ * when the connection returns.
+ *
+ * - Records created offline get a local id ("local-..."); once the create is
+ *   replayed, later queued writes that mention the local id are rewritten to
+ *   the server id and listeners are told about the new id.
+ * - Photos are queued as uploads with their file kept in the files store.
+ * - Updates carry the server timestamp they were made against
+ *   (baseUpdatedAt). If the server copy changed in the meantime, the item is
+ *   held as a conflict with the server copy until the user keeps or discards
+ *   the local change. Later writes for the same record wait behind it.
+ * - A server that is reachable but busy or failing (5xx, 408, 429) stops the
+ *   replay; it is tried again after a growing delay (or the server's
+ *   Retry-After), since no online event will come.
+ *
+ * HttpClient queues a write instead of failing when its `offline` option is
+ * set and the network is unavailable.
+ */
+
+import { offlineStore, OfflineStorage } from './OfflineStore';
+
+export type SyncMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type SyncItemStatus = 'pending' | 'conflict' | 'failed';
+
+export interface SyncQueueItem {
+  id: string;
+  /** Replay order */
+  seq: number;
+  kind: 'request' | 'upload';
+  method: SyncMethod;
+  url: string;
+  /** JSON body of a request */
+  body?: any;
+  /** Files store key of an upload */
+  fileId?: string;
+  fileName?: string;
+  /** Extra form fields sent with an upload */
+  fields?: Record<string, string>;
+  /** Record the write belongs to; writes for one record replay one after another */
+  entityKey: string;
+  /** Local id a create or upload assigns until the server id is known */
+  localId?: string;
+  /** Server timestamp of the copy the change was made against */
+  baseUpdatedAt?: string;
+  /** URL that returns the current server copy (defaults to url) */
+  checkUrl?: string;
+  /** Replay without the conflict check (user kept the local change) */
+  force?: boolean;
+  status: SyncItemStatus;
+  attempts: number;
+  error?: string;
+  serverCopy?: any;
+  createdAt: string;
+}
+
+export interface EnqueueRequest {
+  method: SyncMethod;
+  url: string;
+  body?: any;
+  baseUpdatedAt?: string;
+  checkUrl?: string;
+}
+
+export interface EnqueueUpload {
+  url: string;
+  file: Blob;
+  fileName?: string;
+  fields?: Record<string, string>;
+}
+
+export interface SyncQueueState {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncQueueItem[];
+  failed: SyncQueueItem[];
+}
+
+/**
+ * Sends queued items; the default transport uses HttpClient
+ */
+export interface SyncTransport {
+  send(item: SyncQueueItem, file?: Blob): Promise<Response>;
+  /** Current server copy, or null when it cannot be read */
+  fetchCurrent(url: string): Promise<any | null>;
+}
+
+type StateListener = (state: SyncQueueState) => void;
+type IdListener = (localId: string, serverId: string, result: any) => void;
+
+export const LOCAL_ID_PREFIX = 'local-';
+
+export const isLocalId = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(LOCAL_ID_PREFIX);
+
+const LOCAL_ID_PATTERN = /local-[a-z0-9]+-[a-z0-9]+/;
+
+/**
+ * Delay before the first retry after a server error, doubled per retry up to the maximum (ms)
+ */
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+/**
+ * Local id contained in a URL or text (e.g. "/api/uploads/image/local-...")
+ */
+export const findLocalId = (value?: string): string | undefined => value?.match(LOCAL_ID_PATTERN)?.[0];
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const stripQuery = (url: string) => url.split('?')[0].replace(/\/$/, '');
+
+/**
+ * Server id of a create/upload response ({ id }, { data: { id } } or { file: { id } })
+ */
+export function resolveServerId(result: any): string | undefined {
+  if (!result || typeof result !== 'object') return undefined;
+  return result.id || result._id || result.data?.id || result.data?._id || result.file?.id;
+}
+
+/**
+ * Last-modified marker of a server copy
+ */
+export function resolveUpdatedAt(record: any): string | undefined {
+  const source = record?.data && typeof record.data === 'object' ? record.data : record;
+  const value = source?.last_updated || source?.updated_at || source?.updatedAt;
+  return value ? String(value) : undefined;
+}
+
+/**
+ * Revision number of a server copy (see DocumentRepository)
+ */
+export function resolveRevision(record: any): number | undefined {
+  const source = record?.data && typeof record.data === 'object' ? record.data : record;
+  return typeof source?.revision === 'number' ? source.revision : undefined;
+}
+
+/**
+ * True when a request failed without reaching the server
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  return error instanceof TypeError;
+}
+
+/**
+ * Delay before replaying again after `retries` failed replays; a Retry-After
+ * header (seconds or an HTTP date) takes precedence
+ */
+export function retryDelay(retries: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(delay) && delay >= 0) return Math.min(delay, RETRY_MAX_DELAY);
+  }
+  return Math.min(RETRY_BASE_DELAY * 2 ** retries, RETRY_MAX_DELAY);
+}
+
+const replaceInValue = (value: any, from: string, to: string): any => {
+  if (value === undefined) return value;
+  return JSON.parse(JSON.stringify(value).split(from).join(to));
+};
+
+const defaultTransport: SyncTransport = {
+  async send(item, file) {
+    const { httpClient } = await import('./HttpClient');
+    if (item.kind === 'upload') {
+      const formData = new FormData();
+      if (file) formData.append('file', file, item.fileName);
+      Object.entries(item.fields || {}).forEach(([key, value]) => formData.append(key, value));
+      return httpClient.upload(item.url, formData);
+    }
+    const method = item.method.toLowerCase() as 'post' | 'put' | 'patch' | 'delete';
+    return method === 'delete' ? httpClient.delete(item.url) : httpClient[method](item.url, item.body);
+  },
+  async fetchCurrent(url) {
+    const { httpClient } = await import('./HttpClient');
+    const response = await httpClient.get(url);
+    if (!response.ok) return null;
+    return response.json().catch(() => null);
+  }
+};
+
+export class SyncQueue {
+  private storage: OfflineStorage;
+  private transport: SyncTransport;
+  private listeners = new Set<StateListener>();
+  private idListeners = new Set<IdListener>();
+  private items: SyncQueueItem[] | null = null;
+  private syncing = false;
+  private online: boolean;
+  private fileUrls = new Map<string, string>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retries = 0;
+  private retryAfter: string | null = null;
+
+  constructor(storage: OfflineStorage = offlineStore, transport: SyncTransport = defaultTransport) {
+    this.storage = storage;
+    this.transport = transport;
+    this.online = typeof navigator === 'undefined' ? true : navigator.onLine !== false;
+  }
+
+  /**
+   * Replay the queue whenever the browser reports the connection is back
+   */
+  start(): () => void {
+    if (typeof window === 'undefined') return () => undefined;
+    const handleOnline = () => {
+      this.setOnline(true);
+      this.flush();
+    };
+    const handleOffline = () => this.setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    this.flush();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      this.cancelRetry();
+    };
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.getState()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called when a record created offline receives its server id
+   */
+  onIdResolved(listener: IdListener): () => void {
+    this.idListeners.add(listener);
+    return () => {
+      this.idListeners.delete(listener);
+    };
+  }
+
+  getState(): SyncQueueState {
+    const items = this.items || [];
+    return {
+      online: this.online,
+      syncing: this.syncing,
+      pending: items.filter(item => item.status === 'pending').length,
+      conflicts: items.filter(item => item.status === 'conflict'),
+      failed: items.filter(item => item.status === 'failed')
+    };
+  }
+
+  async getItems(): Promise<SyncQueueItem[]> {
+    return [...(await this.load())];
+  }
+
+  /**
+   * Whether a write must wait in the queue: it targets a record that only
+   * exists locally, earlier writes for the record are still queued, or its
+   * body refers to something (e.g. a photo) that has not been uploaded yet.
+   */
+  async shouldQueue(url: string, body?: any): Promise<boolean> {
+    const key = stripQuery(url);
+    if (key.split('/').some(isLocalId)) return true;
+    const items = await this.load();
+    if (items.some(item => item.entityKey === key)) return true;
+    if (body === undefined) return false;
+    const text = JSON.stringify(body);
+    return items.some(item => !!item.localId && text.includes(item.localId));
+  }
+
+  /**
+   * Queue a JSON write. A POST gets a local id for the record it creates.
+   */
+  async enqueue(request: EnqueueRequest): Promise<SyncQueueItem> {
+    const localId = request.method === 'POST' ? `${LOCAL_ID_PREFIX}${createId()}` : undefined;
+    const base = stripQuery(request.url);
+    return this.add({
+      kind: 'request',
+      method: request.method,
+      url: request.url,
+      body: request.body,
+      entityKey: localId ? `${base}/${localId}` : base,
+      localId,
+      baseUpdatedAt: request.baseUpdatedAt,
+      checkUrl: request.checkUrl
+    });
+  }
+
+  /**
+   * Keep a file locally and queue its upload; returns the item with the local file id
+   */
+  async enqueueUpload(upload: EnqueueUpload): Promise<SyncQueueItem> {
+    const localId = `${LOCAL_ID_PREFIX}${createId()}`;
+    await this.storage.put('files', localId, upload.file);
+    if (typeof URL.createObjectURL === 'function') {
+      this.fileUrls.set(localId, URL.createObjectURL(upload.file));
+    }
+    return this.add({
+      kind: 'upload',
+      method: 'POST',
+      url: upload.url,
+      fileId: localId,
+      fileName: upload.fileName,
+      fields: upload.fields,
+      entityKey: `${stripQuery(upload.url)}/${localId}`,
+      localId
+    });
+  }
+
+  /**
+   * File of a queued upload (to preview photos taken offline)
+   */
+  getFile(localId: string): Promise<Blob | undefined> {
+    return this.storage.get<Blob>('files', localId);
+  }
+
+  /**
+   * Object URL of a queued upload, if already loaded (see loadFileUrl)
+   */
+  getFileUrl(localId: string): string | undefined {
+    return this.fileUrls.get(localId);
+  }
+
+  async loadFileUrl(localId: string): Promise<string | undefined> {
+    if (!this.fileUrls.has(localId)) {
+      const file = await this.getFile(localId);
+      if (!file || typeof URL.createObjectURL !== 'function') return undefined;
+      this.fileUrls.set(localId, URL.createObjectURL(file));
+    }
+    return this.fileUrls.get(localId);
+  }
+
+  /**
+   * Replay pending items in order. Stops at the first network failure; after
+   * a server error the replay is retried with backoff.
+   */
+  async flush(): Promise<void> {
+    if (this.syncing) return;
+    this.cancelRetry();
+    await this.load();
+    if (!this.items!.some(item => item.status === 'pending')) return;
+
+    this.syncing = true;
+    this.emit();
+    let serverError = false;
+    try {
+      const blocked = new Set(
+        this.items!.filter(item => item.status !== 'pending').map(item => item.entityKey)
+      );
+
+      const ids = [...this.items!].sort((a, b) => a.seq - b.seq).map(item => item.id);
+      for (const id of ids) {
+        // Re-read: earlier replays may have rewritten or removed the item
+        const item = this.items!.find(candidate => candidate.id === id);
+        if (!item || item.status !== 'pending') continue;
+        if (blocked.has(item.entityKey)) continue;
+
+        const outcome = await this.replay(item);
+        if (outcome === 'retry') serverError = true;
+        if (outcome === 'offline' || outcome === 'retry') break;
+        if (outcome === 'held') blocked.add(item.entityKey);
+      }
+    } finally {
+      this.syncing = false;
+      this.emit();
+    }
+
+    if (serverError) {
+      this.scheduleRetry();
+    } else {
+      this.retries = 0;
+    }
+  }
+
+  /**
+   * Resolve a conflict: 'keep-local' overwrites the server copy, 'discard' drops the local change
+   */
+  async resolveConflict(id: string, resolution: 'keep-local' | 'discard'): Promise<void> {
+    const item = (await this.load()).find(candidate => candidate.id === id);
+    if (!item) return;
+    if (resolution === 'discard') {
+      await this.remove(item);
+    } else {
+      // Overwrite the server copy: the write now targets the revision it conflicted with
+      const revision = resolveRevision(item.serverCopy);
+      const body = revision !== undefined && typeof item.body?.revision === 'number'
+        ? { ...item.body, revision }
+        : item.body;
+      await this.save({ ...item, body, status: 'pending', force: true, serverCopy: undefined, error: undefined });
+    }
+    this.emit();
+    await this.flush();
+  }
+
+  /**
+   * Retry a failed item
+   */
+  async retry(id: string): Promise<void> {
+    const item = (await this.load()).find(candidate => candidate.id === id);
+    if (!item) return;
+    await this.save({ ...item, status: 'pending', error: undefined });
+    this.emit();
+    await this.flush();
+  }
+
+  /**
+   * Drop a queued item without sending it
+   */
+  async discard(id: string): Promise<void> {
+    const item = (await this.load()).find(candidate => candidate.id === id);
+    if (!item) return;
+    await this.remove(item);
+    this.emit();
+  }
+
+  /**
+   * Drop a queued upload that is no longer needed (photo removed before syncing)
+   */
+  async cancelUpload(localId: string): Promise<void> {
+    const item = (await this.load()).find(candidate => candidate.kind === 'upload' && candidate.localId === localId);
+    if (item) await this.discard(item.id);
+  }
+
+  setOnline(online: boolean) {
+    if (this.online === online) return;
+    this.online = online;
+    this.emit();
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    const delay = retryDelay(this.retries, this.retryAfter);
+    this.retries += 1;
+    this.retryAfter = null;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async replay(item: SyncQueueItem): Promise<'done' | 'held' | 'offline' | 'retry'> {
+    try {
+      if (!item.force && item.baseUpdatedAt && (item.method === 'PUT' || item.method === 'PATCH')) {
+        const current = await this.transport.fetchCurrent(item.checkUrl || item.url);
+        const currentUpdatedAt = resolveUpdatedAt(current);
+        if (currentUpdatedAt && currentUpdatedAt !== item.baseUpdatedAt) {
+          await this.save({ ...item, status: 'conflict', serverCopy: current?.data || current });
+          return 'held';
+        }
+      }
+
+      const file = item.fileId ? await this.storage.get<Blob>('files', item.fileId) : undefined;
+      const response = await this.transport.send(item, file);
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        this.setOnline(true);
+        await this.remove(item);
+        await this.applyResult(item, result);
+        return 'done';
+      }
+      if (response.status === 409) {
+        await this.save({ ...item, status: 'conflict', serverCopy: result.details?.current || result.current || result.data || result });
+        return 'held';
+      }
+      if (response.status >= 500 || response.status === 408 || response.status === 429) {
+        this.retryAfter = response.headers?.get('Retry-After') ?? null;
+        await this.save({ ...item, attempts: item.attempts + 1, error: result.error || response.statusText });
+        return 'retry';
+      }
+      await this.save({
+        ...item,
+        status: 'failed',
+        attempts: item.attempts + 1,
+        error: result.message || result.error || `${response.status} ${response.statusText}`
+      });
+      return 'held';
+    } catch (error) {
+      if (isNetworkError(error)) {
+        this.setOnline(false);
+        return 'offline';
+      }
+      await this.save({ ...item, status: 'failed', attempts: item.attempts + 1, error: (error as Error)?.message });
+      return 'held';
+    }
+  }
+
+  /**
+   * After a successful replay: swap the local id for the server id in later
+   * items and move their conflict baseline and revision to the copy just written.
+   */
+  private async applyResult(item: SyncQueueItem, result: any) {
+    const serverId = item.localId ? resolveServerId(result) : undefined;
+    const updatedAt = resolveUpdatedAt(result);
+    const revision = resolveRevision(result);
+    const entityKey = serverId ? item.entityKey.replace(item.localId!, serverId) : item.entityKey;
+
+    for (const later of this.items!.filter(candidate => candidate.seq > item.seq)) {
+      let next = later;
+      if (serverId) {
+        next = {
+          ...next,
+          url: next.url.split(item.localId!).join(serverId),
+          checkUrl: next.checkUrl?.split(item.localId!).join(serverId),
+          entityKey: next.entityKey.split(item.localId!).join(serverId),
+          body: replaceInValue(next.body, item.localId!, serverId)
+        };
+      }
+      if (item.kind === 'request' && next.entityKey === entityKey) {
+        if (updatedAt && next.baseUpdatedAt) {
+          next = { ...next, baseUpdatedAt: updatedAt };
+        }
+        if (revision !== undefined && typeof next.body?.revision === 'number') {
+          next = { ...next, body: { ...next.body, revision } };
+        }
+      }
+      if (next !== later) await this.save(next);
+    }
+
+    if (serverId) {
+      this.idListeners.forEach(listener => listener(item.localId!, serverId, result));
+    }
+  }
+
+  private async add(fields: Omit<SyncQueueItem, 'id' | 'seq' | 'status' | 'attempts' | 'createdAt'>) {
+    const items = await this.load();
+    const item: SyncQueueItem = {
+      ...fields,
+      id: createId(),
+      seq: items.reduce((max, candidate) => Math.max(max, candidate.seq), 0) + 1,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString()
+    };
+    await this.save(item);
+    this.emit();
+    return item;
+  }
+
+  private async load(): Promise<SyncQueueItem[]> {
+    if (!this.items) {
+      const stored = await this.storage.getAll<SyncQueueItem>('queue');
+      this.items = this.items || stored.sort((a, b) => a.seq - b.seq);
+    }
+    return this.items;
+  }
+
+  private async save(item: SyncQueueItem) {
+    const items = await this.load();
+    const index = items.findIndex(candidate => candidate.id === item.id);
+    if (index >= 0) items[index] = item;
+    else items.push(item);
+    await this.storage.put('queue', item.id, item);
+  }
+
+  private async remove(item: SyncQueueItem) {
+    this.items = (await this.load()).filter(candidate => candidate.id !== item.id);
+    await this.storage.delete('queue', item.id);
+    if (item.fileId) await this.storage.delete('files', item.fileId);
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const syncQueue = new SyncQueue();
+
+/**
+ * Upload a file, or keep it in the queue when the network is unavailable.
+ * Returns the upload response; a queued upload answers with
+ * { queued: true, file: { id, url } } using the local file id.
+ */
+export async function uploadOrQueue(upload: EnqueueUpload, send: () => Promise<Response>): Promise<any> {
+  const queue = async () => {
+    const item = await syncQueue.enqueueUpload(upload);
+    return {
+      success: true,
+      queued: true,
+      file: {
+        id: item.localId,
+        url: `${stripQuery(upload.url)}/${item.localId}`,
+        size: upload.file.size,
+        mimeType: upload.file.type
+      }
+    };
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return queue();
+  }
+
+  let response: Response;
+  try {
+    response = await send();
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
+  if (!response.ok) {
+    throw new Error(`Upload failed: ${response.statusText}`);
+  }
+  return response.json();
+}
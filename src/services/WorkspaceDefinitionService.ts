@@ -0,0 +1,121 @@
+/**
+ * Workspace Definition Service
+ *
+ * Loads workspace definitions as the shipped default (public/data/workspaces)
+ * with the tenant's current overrides from the API applied on top. Saves and
+ * rollbacks are validated against the merged workspace before they are stored.
+ */
+
+import {
+  WorkspaceDefinition,
+  WorkspaceOverrides,
+  WorkspaceOverrideVersion,
+  applyWorkspaceOverrides,
+  validateWorkspaceOverrides
+} from '../schemas/workspace/index';
+import { httpClient } from './HttpClient';
+
+export class WorkspaceValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid workspace: ${errors.join('; ')}`);
+    this.name = 'WorkspaceValidationError';
+  }
+}
+
+const overridesUrl = (workspaceId: string) => `/api/workspaces/overrides/${workspaceId}`;
+
+const hasAuthToken = () => !!(localStorage.getItem('authToken') || localStorage.getItem('token'));
+
+async function readData<T>(response: Response, action: string): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.success === false) {
+    throw new Error(body.error || `Failed to ${action}: ${response.status} ${response.statusText}`);
+  }
+  return body.data as T;
+}
+
+export class WorkspaceDefinitionService {
+  /**
+   * Shipped default definition
+   */
+  static async loadDefault(workspaceId: string): Promise<WorkspaceDefinition> {
+    const response = await fetch(`/data/workspaces/${workspaceId}.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to load workspace: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Current tenant overrides; version 0 means the default is used as is
+   */
+  static async getOverrides(workspaceId: string): Promise<WorkspaceOverrideVersion> {
+    const response = await httpClient.get(overridesUrl(workspaceId));
+    return readData<WorkspaceOverrideVersion>(response, 'load workspace overrides');
+  }
+
+  /**
+   * Default definition with the tenant's overrides applied.
+   * Falls back to the default when overrides cannot be loaded.
+   */
+  static async load(workspaceId: string): Promise<WorkspaceDefinition> {
+    const base = await this.loadDefault(workspaceId);
+    if (!hasAuthToken()) return base;
+
+    try {
+      const current = await this.getOverrides(workspaceId);
+      if (!current.overrides) return base;
+
+      const workspace = applyWorkspaceOverrides(base, current.overrides);
+      return { ...workspace, metadata: { ...workspace.metadata, overrideVersion: current.version } };
+    } catch (error) {
+      console.warn(`Failed to load overrides for workspace ${workspaceId}, using default:`, error);
+      return base;
+    }
+  }
+
+  static async getHistory(workspaceId: string): Promise<WorkspaceOverrideVersion[]> {
+    const response = await httpClient.get(`/api/workspaces/history/${workspaceId}`);
+    return readData<WorkspaceOverrideVersion[]>(response, 'load workspace history');
+  }
+
+  static async getVersion(workspaceId: string, version: number): Promise<WorkspaceOverrideVersion> {
+    const response = await httpClient.get(`/api/workspaces/versions/${version}/${workspaceId}`);
+    return readData<WorkspaceOverrideVersion>(response, 'load workspace version');
+  }
+
+  /**
+   * Merge overrides with the default; rejects errors the overrides introduce
+   */
+  static async preview(workspaceId: string, overrides: WorkspaceOverrides | null): Promise<WorkspaceDefinition> {
+    const base = await this.loadDefault(workspaceId);
+    const result = validateWorkspaceOverrides(base, overrides);
+    if (!result.valid) {
+      throw new WorkspaceValidationError(result.errors);
+    }
+    return applyWorkspaceOverrides(base, overrides);
+  }
+
+  /**
+   * Store overrides as a new version; null resets the workspace to the default
+   */
+  static async saveOverrides(
+    workspaceId: string,
+    overrides: WorkspaceOverrides | null,
+    comment?: string
+  ): Promise<WorkspaceOverrideVersion> {
+    await this.preview(workspaceId, overrides);
+    const response = await httpClient.put(overridesUrl(workspaceId), { overrides, comment });
+    return readData<WorkspaceOverrideVersion>(response, 'save workspace overrides');
+  }
+
+  /**
+   * Restore an earlier version as a new version, provided it is still valid against the current default
+   */
+  static async rollback(workspaceId: string, version: number, comment?: string): Promise<WorkspaceOverrideVersion> {
+    const target = await this.getVersion(workspaceId, version);
+    await this.preview(workspaceId, target.overrides);
+    const response = await httpClient.post(`/api/workspaces/rollback/${workspaceId}`, { version, comment });
+    return readData<WorkspaceOverrideVersion>(response, 'roll back workspace');
+  }
+}
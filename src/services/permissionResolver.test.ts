@@ -0,0 +1,86 @@
+/**
+ * Permission Resolver Tests
+ *
+ * Effective permissions through role inheritance and exclusions, with origins.
+ */
+
+import { RoleDefinition, matchesPermission, resolveEffectivePermissions } from './permissionResolver';
+
+describe('Permission resolver', () => {
+  const tenantRoles: RoleDefinition[] = [
+    { id: 'r1', name: 'viewer', permissions: ['asset.read', 'inspection.read'] },
+    { id: 'r2', name: 'inspector', permissions: ['inspection.write', 'inspection.delete'], inherits: ['viewer'] },
+    {
+      id: 'r3',
+      name: 'contractor',
+      permissions: ['report.read'],
+      inherits: ['inspector'],
+      excludes: ['inspection.delete', 'asset.*']
+    },
+    { id: 'r4', name: 'loop_a', permissions: ['a.read'], inherits: ['loop_b'] },
+    { id: 'r5', name: 'loop_b', permissions: ['b.read'], inherits: ['loop_a'] }
+  ];
+  const role = (name: string) => tenantRoles.find(candidate => candidate.name === name)!;
+
+  test('matches wildcard patterns', () => {
+    expect(matchesPermission('*', 'user.read')).toBe(true);
+    expect(matchesPermission('user.*', 'user.read')).toBe(true);
+    expect(matchesPermission('*.read', 'asset.read')).toBe(true);
+    expect(matchesPermission('user.*', 'asset.read')).toBe(false);
+    expect(matchesPermission('user', 'user.read')).toBe(false);
+  });
+
+  test('explains inherited permissions with their chain', () => {
+    const report = resolveEffectivePermissions([role('inspector')], tenantRoles);
+
+    expect(report.permissions.map(entry => entry.permission)).toEqual([
+      'asset.read',
+      'inspection.delete',
+      'inspection.read',
+      'inspection.write'
+    ]);
+    expect(report.permissions[0].origins).toEqual([{ role: 'inspector', roleId: 'r2', via: ['inspector', 'viewer'] }]);
+  });
+
+  test('applies exclusions and reports what they removed', () => {
+    const report = resolveEffectivePermissions([role('contractor')], tenantRoles);
+
+    expect(report.permissions.map(entry => entry.permission)).toEqual([
+      'inspection.read',
+      'inspection.write',
+      'report.read'
+    ]);
+    expect(report.excluded).toEqual([
+      {
+        permission: 'inspection.delete',
+        origin: { role: 'contractor', roleId: 'r3', via: ['contractor', 'inspector'] },
+        excludedBy: 'contractor',
+        pattern: 'inspection.delete'
+      },
+      {
+        permission: 'asset.read',
+        origin: { role: 'contractor', roleId: 'r3', via: ['contractor', 'inspector', 'viewer'] },
+        excludedBy: 'contractor',
+        pattern: 'asset.*'
+      }
+    ]);
+  });
+
+  test('another role can still grant an excluded permission', () => {
+    const report = resolveEffectivePermissions([role('contractor'), role('viewer')], tenantRoles);
+    const assetRead = report.permissions.find(entry => entry.permission === 'asset.read');
+
+    expect(assetRead?.origins).toEqual([{ role: 'viewer', roleId: 'r1', via: ['viewer'] }]);
+    expect(report.excluded.map(entry => entry.permission)).toEqual(['inspection.delete']);
+  });
+
+  test('previews role drafts and survives inheritance cycles', () => {
+    const draft = { ...role('inspector'), permissions: ['inspection.write'], inherits: [] };
+    expect(resolveEffectivePermissions([draft], tenantRoles).permissions.map(entry => entry.permission)).toEqual([
+      'inspection.write'
+    ]);
+
+    const cyclic = resolveEffectivePermissions([role('loop_a')], tenantRoles);
+    expect(cyclic.permissions.map(entry => entry.permission)).toEqual(['a.read', 'b.read']);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Permission Resolver - Effective permissions with their origins
+ *
+ * Resolves the permission set a user actually holds from their roles and the
+ * role hierarchy (inherits/excludes), recording for every permission which
+ * assigned role grants it and through which chain of inherited roles.
+ * Used by RBACService and by the effective-access report for tenant admins.
+ */
+
+import type { RoleHierarchy } from './rbac';
+
+/**
+ * Role fields needed for resolution (IRole documents and draft roles both fit)
+ */
+export interface RoleDefinition {
+  id?: string;
+  name: string;
+  permissions: string[];
+  /** Role names whose permissions this role inherits */
+  inherits?: string[];
+  /** Permission patterns removed from this role, including inherited ones */
+  excludes?: string[];
+}
+
+/**
+ * Where a permission comes from: the assigned role and the chain of roles
+ * down to the one that defines it (['site_lead', 'inspector'] when site_lead
+ * inherits the permission from inspector)
+ */
+export interface PermissionOrigin {
+  role: string;
+  roleId?: string;
+  via: string[];
+}
+
+export interface EffectivePermission {
+  permission: string;
+  origins: PermissionOrigin[];
+}
+
+/**
+ * A permission removed by an exclusion, kept so reports can explain its absence
+ */
+export interface ExcludedPermission {
+  permission: string;
+  origin: PermissionOrigin;
+  /** Role whose excludes removed the permission */
+  excludedBy: string;
+  pattern: string;
+}
+
+export interface PermissionReport {
+  permissions: EffectivePermission[];
+  excluded: ExcludedPermission[];
+}
+
+/**
+ * Check if a permission pattern matches the required permission.
+ * Supports wildcard patterns like "*", "user.*" and "*.read".
+ */
+export function matchesPermission(pattern: string, required: string): boolean {
+  if (pattern === '*' || pattern === required) return true;
+
+  const patternParts = pattern.split('.');
+  const requiredParts = required.split('.');
+  if (patternParts.length !== requiredParts.length) {
+    return false;
+  }
+  return patternParts.every((part, index) => part === '*' || part === requiredParts[index]);
+}
+
+/**
+ * Role hierarchy from the inherits/excludes stored on role definitions
+ */
+export function buildRoleHierarchy(roles: RoleDefinition[]): RoleHierarchy {
+  const hierarchy: RoleHierarchy = {};
+  roles.forEach(role => {
+    if (role.inherits?.length || role.excludes?.length) {
+      hierarchy[role.name] = { inherits: role.inherits || [], excludes: role.excludes || [] };
+    }
+  });
+  return hierarchy;
+}
+
+interface Grant {
+  permission: string;
+  via: string[];
+}
+
+interface Exclusion extends Grant {
+  excludedBy: string;
+  pattern: string;
+}
+
+/**
+ * Permissions granted by a role and the roles it inherits, minus its exclusions
+ */
+function collectGrants(
+  role: RoleDefinition,
+  rolesByName: Map<string, RoleDefinition>,
+  hierarchy: RoleHierarchy,
+  via: string[],
+  excluded: Exclusion[]
+): Grant[] {
+  const path = [...via, role.name];
+  const grants: Grant[] = (role.permissions || []).map(permission => ({ permission, via: path }));
+
+  (hierarchy[role.name]?.inherits || []).forEach(parentName => {
+    const parent = rolesByName.get(parentName);
+    // Skip unknown roles and inheritance cycles
+    if (!parent || path.includes(parentName)) return;
+    grants.push(...collectGrants(parent, rolesByName, hierarchy, path, excluded));
+  });
+
+  const excludes = hierarchy[role.name]?.excludes || [];
+  return grants.filter(grant => {
+    const pattern = excludes.find(exclude => matchesPermission(exclude, grant.permission));
+    if (pattern === undefined) return true;
+    excluded.push({ permission: grant.permission, via: grant.via, excludedBy: role.name, pattern });
+    return false;
+  });
+}
+
+/**
+ * Resolve the effective permissions of a user's assigned roles.
+ * tenantRoles supplies the roles named in inherits; the hierarchy defaults to
+ * the inherits/excludes stored on the roles.
+ */
+export function resolveEffectivePermissions(
+  assignedRoles: RoleDefinition[],
+  tenantRoles: RoleDefinition[] = [],
+  roleHierarchy?: RoleHierarchy
+): PermissionReport {
+  const rolesByName = new Map<string, RoleDefinition>();
+  // Assigned roles win over stored roles of the same name, so draft changes can be simulated
+  [...tenantRoles, ...assignedRoles].forEach(role => rolesByName.set(role.name, role));
+  const hierarchy = roleHierarchy || buildRoleHierarchy(Array.from(rolesByName.values()));
+
+  const permissions = new Map<string, EffectivePermission>();
+  const excluded: ExcludedPermission[] = [];
+
+  assignedRoles.forEach(role => {
+    const origin = (via: string[]): PermissionOrigin => ({ role: role.name, roleId: role.id, via });
+    const removed: Exclusion[] = [];
+
+    collectGrants(role, rolesByName, hierarchy, [], removed).forEach(grant => {
+      const entry = permissions.get(grant.permission) || { permission: grant.permission, origins: [] };
+      entry.origins.push(origin(grant.via));
+      permissions.set(grant.permission, entry);
+    });
+    removed.forEach(({ via, ...exclusion }) => excluded.push({ ...exclusion, origin: origin(via) }));
+  });
+
+  return {
+    permissions: Array.from(permissions.values()).sort((a, b) => a.permission.localeCompare(b.permission)),
+    // Exclusions overridden by another role's grant no longer explain anything
+    excluded: excluded.filter(exclusion => !permissions.has(exclusion.permission))
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Policy Engine Tests
+ *
+ * Attribute references, condition groups, IP ranges, time windows and deny overrides.
+ */
+
+import type { AccessContext, AccessPolicy } from './rbac';
+import {
+  buildPolicyAttributes,
+  evaluateCondition,
+  evaluatePolicies,
+  isIpInRange,
+  isTimeBetween
+} from './policyEngine';
+
+describe('Policy engine', () => {
+  const context: AccessContext = {
+    user: {
+      id: 'u1',
+      tenantId: 't1',
+      tenantSlug: 'acme',
+      userId: 'jdoe',
+      email: 'jdoe@example.com',
+      roles: [{ name: 'inspector', permissions: ['inspection.read'] } as any],
+      isExternalCustomer: false,
+      siteIds: ['site-a', 'site-b'],
+      attributes: { certificationLevel: 2 }
+    },
+    resource: { type: 'inspection', id: 'i1', tenantId: 't1', metadata: { siteId: 'site-b', status: 'draft' } },
+    action: 'write',
+    ipAddress: '10.20.30.40',
+    time: new Date('2025-06-02T14:30:00Z')
+  };
+  const attributes = buildPolicyAttributes(context);
+
+  test('compares attributes with literals and references', () => {
+    expect(evaluateCondition({ field: 'resource.metadata.siteId', operator: 'in', value: { ref: 'user.siteIds' } }, attributes)).toBe(true);
+    expect(evaluateCondition({ field: 'user.siteIds', operator: 'contains', value: { ref: 'resource.metadata.siteId' } }, attributes)).toBe(true);
+    expect(evaluateCondition({ field: 'user.certificationLevel', operator: 'gte', value: 3 }, attributes)).toBe(false);
+    expect(evaluateCondition({ field: 'user.roleNames', operator: 'in', value: ['inspector', 'admin'] }, attributes)).toBe(true);
+    expect(evaluateCondition({ field: 'resource.metadata.approvedBy', operator: 'exists', value: false }, attributes)).toBe(true);
+  });
+
+  test('combines conditions with all, any and not', () => {
+    const condition = {
+      all: [
+        { field: 'resource.metadata.status', operator: 'eq' as const, value: 'draft' },
+        { any: [{ field: 'user.email', operator: 'regex' as const, value: '@example\\.com$' }] },
+        { not: { field: 'request.ipAddress', operator: 'ipInRange' as const, value: '192.168.0.0/16' } }
+      ]
+    };
+    expect(evaluateCondition(condition, attributes)).toBe(true);
+    expect(evaluateCondition({ not: condition }, attributes)).toBe(false);
+  });
+
+  test('matches IP ranges and time-of-day windows', () => {
+    expect(isIpInRange('10.20.30.40', '10.0.0.0/8')).toBe(true);
+    expect(isIpInRange('::ffff:10.20.30.40', '10.20.30.0/24')).toBe(true);
+    expect(isIpInRange('11.0.0.1', '10.0.0.0/8')).toBe(false);
+
+    expect(isTimeBetween(new Date('2025-06-02T14:30:00Z'), { from: '08:00', to: '18:00' })).toBe(true);
+    expect(isTimeBetween(new Date('2025-06-02T23:30:00Z'), { from: '22:00', to: '06:00' })).toBe(true);
+    expect(isTimeBetween(new Date('2025-06-02T14:30:00Z'), { from: '08:00', to: '18:00', timeZone: 'America/Chicago' })).toBe(true);
+    expect(isTimeBetween(new Date('2025-06-02T12:30:00Z'), { from: '08:00', to: '18:00', timeZone: 'America/Chicago' })).toBe(false);
+  });
+
+  test('deny policies are reported alongside allow policies', () => {
+    const policies: AccessPolicy[] = [
+      {
+        id: 'own-sites',
+        effect: 'allow',
+        permissions: ['inspection.write'],
+        condition: { field: 'resource.metadata.siteId', operator: 'in', value: { ref: 'user.siteIds' } }
+      },
+      {
+        id: 'office-network',
+        effect: 'deny',
+        permissions: ['inspection.*'],
+        condition: { not: { field: 'request.ipAddress', operator: 'ipInRange', value: ['10.0.0.0/8'] } }
+      },
+      {
+        id: 'business-hours',
+        effect: 'deny',
+        permissions: ['inspection.write'],
+        condition: { not: { field: 'request.time', operator: 'timeBetween', value: { from: '07:00', to: '19:00' } } }
+      }
+    ];
+
+    const result = evaluatePolicies(policies, attributes);
+    expect(result.allow?.id).toBe('own-sites');
+    expect(result.deny).toBeUndefined();
+    expect(result.evaluated).toEqual(['own-sites', 'office-network', 'business-hours']);
+
+    const lateAttributes = buildPolicyAttributes({ ...context, time: new Date('2025-06-02T21:00:00Z') });
+    expect(evaluatePolicies(policies, lateAttributes).deny?.id).toBe('business-hours');
+  });
+
+  test('rejects unknown operators', () => {
+    expect(() => evaluateCondition({ field: 'user.id', operator: 'like' as any, value: 'u' }, attributes)).toThrow(
+      'Unknown condition operator: like'
+    );
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Policy Engine - Attribute-Based Access Control for RBACService
+ *
+ * Evaluates policy conditions against the attributes of an access request:
+ * - user: the requesting user and their attributes (user.siteIds, user.roleNames, ...)
+ * - resource: the resource being accessed (resource.metadata.siteId, ...)
+ * - request: request context (request.time, request.ipAddress, request.route, request.action)
+ *
+ * Conditions compare an attribute with a literal or with another attribute
+ * ({ ref: 'user.siteIds' }) and combine through all/any/not groups.
+ * Deny policies override every grant; allow policies grant their permissions
+ * when their condition holds.
+ */
+
+import type { AccessContext, AccessPolicy, PermissionCondition, PolicyCondition } from './rbac';
+
+/**
+ * Attributes available to policy conditions, by root
+ */
+export interface PolicyAttributes {
+  user: Record<string, any>;
+  resource: Record<string, any>;
+  request: Record<string, any>;
+}
+
+/**
+ * Result of evaluating the policies that apply to a permission
+ */
+export interface PolicyEvaluation {
+  /** First deny policy whose condition holds */
+  deny?: AccessPolicy;
+  /** First allow policy whose condition holds */
+  allow?: AccessPolicy;
+  /** Ids of every policy evaluated */
+  evaluated: string[];
+}
+
+/**
+ * Reference to another attribute, used as a condition value
+ */
+const isReference = (value: any): value is { ref: string } =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && typeof value.ref === 'string';
+
+/**
+ * Build the attribute set for an access context
+ */
+export function buildPolicyAttributes(context: AccessContext): PolicyAttributes {
+  const { roles, attributes, ...user } = context.user;
+  return {
+    user: {
+      ...(attributes || {}),
+      ...user,
+      roleNames: (roles || []).map(role => role.name)
+    },
+    resource: context.resource ? { ...context.resource, metadata: context.resource.metadata || {} } : {},
+    request: {
+      action: context.action,
+      route: context.route,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      time: context.time || new Date()
+    }
+  };
+}
+
+/**
+ * Read an attribute by dotted path, e.g. resource.metadata.siteId
+ */
+export function resolveAttribute(attributes: PolicyAttributes, path: string): any {
+  return path.split('.').reduce<any>(
+    (value, key) => (value === null || value === undefined ? undefined : value[key]),
+    attributes
+  );
+}
+
+// ObjectIds and numeric ids compare equal to their string form
+const sameValue = (a: any, b: any): boolean =>
+  a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+
+const toList = (value: any): any[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const toComparable = (value: any): number | string => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+};
+
+/**
+ * Parse an IPv4 address (including IPv4-mapped IPv6 such as ::ffff:10.0.0.1) into a 32-bit number
+ */
+function parseIPv4(address: string): number | null {
+  const match = /^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/i.exec(address.trim());
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some(octet => octet > 255)) return null;
+  return octets.reduce((result, octet) => result * 256 + octet, 0);
+}
+
+/**
+ * Whether an IP address lies in a CIDR range (10.0.0.0/8) or equals a single address
+ */
+export function isIpInRange(address: string, range: string): boolean {
+  if (!address) return false;
+  const [network, prefix] = range.split('/');
+  const ip = parseIPv4(address);
+  const base = parseIPv4(network);
+  if (ip === null || base === null) {
+    return prefix === undefined && address.trim().toLowerCase() === network.trim().toLowerCase();
+  }
+
+  const bits = prefix === undefined ? 32 : Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > 32) {
+    throw new Error(`Invalid CIDR range: ${range}`);
+  }
+  const size = Math.pow(2, 32 - bits);
+  return Math.floor(ip / size) === Math.floor(base / size);
+}
+
+/**
+ * Time-of-day window; times are HH:mm, in UTC unless a time zone is given.
+ * Windows that end before they start run past midnight (22:00 to 06:00).
+ */
+export interface TimeWindow {
+  from: string;
+  to: string;
+  timeZone?: string;
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value).trim());
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function minutesOfDay(date: Date, timeZone?: string): number {
+  if (!timeZone) return date.getUTCHours() * 60 + date.getUTCMinutes();
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * Whether a moment falls within a time-of-day window (start included, end excluded)
+ */
+export function isTimeBetween(time: Date | string | number, window: TimeWindow): boolean {
+  const date = time instanceof Date ? time : new Date(time);
+  if (isNaN(date.getTime())) return false;
+  const minutes = minutesOfDay(date, window.timeZone);
+  const from = parseTimeOfDay(window.from);
+  const to = parseTimeOfDay(window.to);
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/**
+ * Evaluate a single attribute comparison
+ */
+function evaluateComparison(condition: PermissionCondition, attributes: PolicyAttributes): boolean {
+  const actual = resolveAttribute(attributes, condition.field);
+  const expected = isReference(condition.value) ? resolveAttribute(attributes, condition.value.ref) : condition.value;
+
+  switch (condition.operator) {
+    case 'eq':
+      return sameValue(actual, expected);
+    case 'ne':
+      return !sameValue(actual, expected);
+    case 'in':
+      // An array attribute (user.siteIds) is in the list when any of its values is
+      return toList(actual).some(value => toList(expected).some(item => sameValue(value, item)));
+    case 'nin':
+      return !toList(actual).some(value => toList(expected).some(item => sameValue(value, item)));
+    case 'contains':
+      // The attribute list holds every expected value (user.siteIds contains resource.metadata.siteId)
+      return (
+        toList(expected).length > 0 &&
+        toList(expected).every(item => toList(actual).some(value => sameValue(value, item)))
+      );
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (actual === undefined || actual === null || expected === undefined || expected === null) return false;
+      const left = toComparable(actual);
+      const right = toComparable(expected);
+      if (condition.operator === 'gt') return left > right;
+      if (condition.operator === 'gte') return left >= right;
+      if (condition.operator === 'lt') return left < right;
+      return left <= right;
+    }
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected !== false);
+    case 'regex':
+      return actual !== undefined && actual !== null && new RegExp(String(expected)).test(String(actual));
+    case 'ipInRange':
+      return toList(expected).some(range => isIpInRange(String(actual || ''), String(range)));
+    case 'timeBetween':
+      return actual !== undefined && actual !== null && isTimeBetween(actual, expected as TimeWindow);
+    default:
+      throw new Error(`Unknown condition operator: ${(condition as PermissionCondition).operator}`);
+  }
+}
+
+/**
+ * Evaluate a condition or condition group. Empty all groups hold; empty any groups do not.
+ */
+export function evaluateCondition(condition: PolicyCondition, attributes: PolicyAttributes): boolean {
+  if ('all' in condition) {
+    return condition.all.every(child => evaluateCondition(child, attributes));
+  }
+  if ('any' in condition) {
+    return condition.any.some(child => evaluateCondition(child, attributes));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, attributes);
+  }
+  return evaluateComparison(condition, attributes);
+}
+
+/**
+ * Evaluate the policies that apply to a request
+ */
+export function evaluatePolicies(policies: AccessPolicy[], attributes: PolicyAttributes): PolicyEvaluation {
+  const result: PolicyEvaluation = { evaluated: [] };
+
+  policies.forEach(policy => {
+    result.evaluated.push(policy.id);
+    if (policy.effect === 'deny' ? result.deny : result.allow) return;
+    if (policy.condition && !evaluateCondition(policy.condition, attributes)) return;
+    if (policy.effect === 'deny') {
+      result.deny = policy;
+    } else {
+      result.allow = policy;
+    }
+  });
+
+  return result;
+}
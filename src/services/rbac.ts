@@ -8,6 +8,8 @@
  * - Dynamic route access control
  * - Permission inheritance and composition
  * - Audit logging for access decisions
+ * - Attribute-based policies with deny overrides (see policyEngine.ts), loaded
+ *   from tenant metadata (settings.accessControl)
  * 
  * Features:
  * - Fine-grained permissions with wildcard support
@@ -21,6 +23,8 @@
 
 import { User, Role, Tenant, AuthLog, IUser, IRole, ITenant } from '../models';
 import mongoose from 'mongoose';
+import { PolicyAttributes, buildPolicyAttributes, evaluateCondition, evaluatePolicies } from './policyEngine';
+import { PermissionReport, RoleDefinition, matchesPermission, resolveEffectivePermissions } from './permissionResolver';
 
 // ==================== TYPES AND INTERFACES ====================
 
@@ -34,14 +38,61 @@ export interface Permission {
 }
 
 /**
- * Permission condition for dynamic evaluation
+ * Permission condition for dynamic evaluation.
+ * field is an attribute path (user.siteIds, resource.metadata.siteId, request.time);
+ * value is a literal or a reference to another attribute ({ ref: 'user.siteIds' }).
  */
 export interface PermissionCondition {
   field: string;
-  operator: 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'regex';
+  operator:
+    | 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'regex'
+    | 'contains' | 'ipInRange' | 'timeBetween';
   value: any;
 }
 
+/**
+ * Condition tree: a comparison or an all/any/not group
+ */
+export type PolicyCondition =
+  | PermissionCondition
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition };
+
+/**
+ * Attribute-based access policy. Deny policies override every grant;
+ * allow policies grant their permissions when the condition holds.
+ */
+export interface AccessPolicy {
+  id: string;
+  description?: string;
+  effect: 'allow' | 'deny';
+  /** Permissions the policy applies to, with wildcard support ("inspection.*") */
+  permissions: string[];
+  /** Always applies when omitted */
+  condition?: PolicyCondition;
+  /** Restrict the policy to one tenant */
+  tenantId?: string;
+}
+
+/**
+ * Access control metadata of a tenant (tenant settings.accessControl)
+ */
+export interface AccessControlSettings {
+  policies?: AccessPolicy[];
+  /** Conditions that must hold whenever a permission grants access, by permission pattern */
+  permissionConditions?: Record<string, PermissionCondition[]>;
+}
+
+/**
+ * Policy that decided an access request
+ */
+export interface PolicyMatch {
+  id: string;
+  effect: 'allow' | 'deny';
+  description?: string;
+}
+
 /**
  * Access context for permission evaluation
  */
@@ -54,6 +105,9 @@ export interface AccessContext {
     email: string;
     roles: IRole[];
     isExternalCustomer: boolean;
+    siteIds?: string[];
+    /** Additional user attributes for policy conditions */
+    attributes?: Record<string, any>;
   };
   resource?: {
     type: string;
@@ -65,6 +119,8 @@ export interface AccessContext {
   route?: string;
   ipAddress?: string;
   userAgent?: string;
+  /** Time of the request, defaults to now */
+  time?: Date;
 }
 
 /**
@@ -76,6 +132,18 @@ export interface AccessDecision {
   permissions: string[];
   conditions?: PermissionCondition[];
   restrictions?: string[];
+  /** Policy that granted or denied access, if any */
+  matchedPolicy?: PolicyMatch;
+  /** Ids of the policies evaluated for the request */
+  evaluatedPolicies?: string[];
+}
+
+/**
+ * Dry-run result of a permission check, with the effective permissions it was based on
+ */
+export interface AccessSimulation {
+  decision: AccessDecision;
+  effectivePermissions: PermissionReport;
 }
 
 /**
@@ -461,6 +529,9 @@ export class RBACService {
   private static instance: RBACService;
   private permissionCache = new Map<string, AccessDecision>();
   private cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  private policies = new Map<string, AccessPolicy>();
+  private permissionConditions = new Map<string, { tenantId?: string; permission: string; conditions: PermissionCondition[] }>();
+  private tenantAccessControl = new Map<string, Promise<void>>();
 
   private constructor() {}
 
@@ -478,9 +549,14 @@ export class RBACService {
     try {
       // Generate cache key
       const cacheKey = this.generateCacheKey(context);
+      await this.ensureTenantAccessControl(context.user.tenantId);
+
+      // Decisions governed by policies or conditions depend on attributes, time and IP, so they are not cached
+      const cacheable =
+        this.getApplicablePolicies(context).length === 0 && this.getPermissionConditions(context).length === 0;
       
       // Check cache first
-      const cached = this.permissionCache.get(cacheKey);
+      const cached = cacheable ? this.permissionCache.get(cacheKey) : undefined;
       if (cached && Date.now() - (cached as any).timestamp < this.cacheTimeout) {
         return cached;
       }
@@ -489,8 +565,10 @@ export class RBACService {
       const decision = await this.evaluatePermission(context);
       
       // Cache result
-      (decision as any).timestamp = Date.now();
-      this.permissionCache.set(cacheKey, decision);
+      if (cacheable) {
+        (decision as any).timestamp = Date.now();
+        this.permissionCache.set(cacheKey, decision);
+      }
       
       // Log access decision
       await this.logAccessDecision(context, decision);
@@ -535,43 +613,69 @@ export class RBACService {
     }
 
     // Step 3: Get all user permissions
+    await this.ensureTenantAccessControl(user.tenantId);
     const userPermissions = await this.getUserPermissions(user);
+    const requiredPermission = this.constructPermission(action, resource?.type);
+
+    // Step 4: Evaluate attribute-based policies; deny policies override every grant
+    const attributes = buildPolicyAttributes(context);
+    const policies = evaluatePolicies(this.getApplicablePolicies(context), attributes);
+    const evaluatedPolicies = policies.evaluated.length > 0 ? policies.evaluated : undefined;
 
-    // Step 4: Check for wildcard permission
+    if (policies.deny) {
+      return {
+        granted: false,
+        reason: `Access denied: Policy '${policies.deny.id}'`,
+        permissions: [],
+        matchedPolicy: this.toPolicyMatch(policies.deny),
+        evaluatedPolicies
+      };
+    }
+
+    // Step 5: Check for wildcard permission
     if (userPermissions.includes('*')) {
       return {
         granted: true,
         reason: 'Access granted: Wildcard permission',
-        permissions: ['*']
+        permissions: ['*'],
+        evaluatedPolicies
       };
     }
 
-    // Step 5: Check specific permissions
-    const requiredPermission = this.constructPermission(action, resource?.type);
-    const hasPermission = this.hasRequiredPermission(userPermissions, requiredPermission);
-
-    if (hasPermission) {
-      // Step 6: Evaluate conditions if any
-      const conditionsResult = await this.evaluateConditions(context, userPermissions);
-      
+    // Step 6: Check specific permissions and their conditions
+    if (this.hasRequiredPermission(userPermissions, requiredPermission)) {
+      const conditionsResult = this.evaluateConditions(context, attributes);
       return {
         granted: conditionsResult.granted,
-        reason: conditionsResult.granted ? 
-          'Access granted: Permission and conditions satisfied' : 
+        reason: conditionsResult.granted ?
+          'Access granted: Permission and conditions satisfied' :
           conditionsResult.reason,
         permissions: userPermissions.filter(p => 
           p === requiredPermission || 
           p === '*' || 
           this.isPermissionMatch(p, requiredPermission)
         ),
-        conditions: conditionsResult.conditions
+        conditions: conditionsResult.conditions,
+        evaluatedPolicies
+      };
+    }
+
+    // Step 7: Grant through an allow policy
+    if (policies.allow) {
+      return {
+        granted: true,
+        reason: `Access granted: Policy '${policies.allow.id}'`,
+        permissions: [requiredPermission],
+        matchedPolicy: this.toPolicyMatch(policies.allow),
+        evaluatedPolicies
       };
     }
 
     return {
       granted: false,
       reason: `Access denied: Missing permission '${requiredPermission}'`,
-      permissions: userPermissions
+      permissions: userPermissions,
+      evaluatedPolicies
     };
   }
 
@@ -579,27 +683,30 @@ export class RBACService {
    * Get all permissions for a user including role inheritance
    */
   private async getUserPermissions(user: AccessContext['user']): Promise<string[]> {
-    const permissions = new Set<string>();
-
-    for (const role of user.roles) {
-      // Add direct role permissions
-      role.permissions.forEach(permission => permissions.add(permission));
-      
-      // Add inherited permissions (if role hierarchy is implemented)
-      const inheritedPermissions = await this.getInheritedPermissions(role);
-      inheritedPermissions.forEach(permission => permissions.add(permission));
-    }
+    const report = await this.explainPermissions(user);
+    return report.permissions.map(entry => entry.permission);
+  }
 
-    return Array.from(permissions);
+  /**
+   * Resolve a user's effective permissions and where each one comes from
+   */
+  async explainPermissions(user: AccessContext['user']): Promise<PermissionReport> {
+    const assignedRoles = user.roles.map(toRoleDefinition);
+    const inherits = assignedRoles.some(role => role.inherits && role.inherits.length > 0);
+    const tenantRoles = inherits ? ((await Role.find({ tenantId: user.tenantId })) as any[]) : [];
+    return resolveEffectivePermissions(assignedRoles, tenantRoles.map(toRoleDefinition));
   }
 
   /**
-   * Get inherited permissions from role hierarchy
+   * Evaluate a permission check without caching or audit logging.
+   * context.user.roles may hold unsaved role drafts to preview a role change.
    */
-  private async getInheritedPermissions(role: IRole): Promise<string[]> {
-    // This can be extended to support role hierarchy
-    // For now, return empty array as roles are independent
-    return [];
+  async simulatePermission(context: AccessContext): Promise<AccessSimulation> {
+    const [decision, effectivePermissions] = await Promise.all([
+      this.evaluatePermission(context),
+      this.explainPermissions(context.user)
+    ]);
+    return { decision, effectivePermissions };
   }
 
   /**
@@ -617,23 +724,7 @@ export class RBACService {
    * Check if a permission pattern matches the required permission
    */
   private isPermissionMatch(pattern: string, required: string): boolean {
-    if (pattern === '*') return true;
-    
-    // Support wildcard patterns like "user.*", "*.read"
-    const patternParts = pattern.split('.');
-    const requiredParts = required.split('.');
-    
-    if (patternParts.length !== requiredParts.length) {
-      return false;
-    }
-    
-    for (let i = 0; i < patternParts.length; i++) {
-      if (patternParts[i] !== '*' && patternParts[i] !== requiredParts[i]) {
-        return false;
-      }
-    }
-    
-    return true;
+    return matchesPermission(pattern, required);
   }
 
   /**
@@ -645,20 +736,55 @@ export class RBACService {
   }
 
   /**
-   * Evaluate permission conditions
+   * Evaluate the conditions attached to the requested permission
    */
-  private async evaluateConditions(
-    context: AccessContext, 
-    permissions: string[]
-  ): Promise<{ granted: boolean; reason: string; conditions?: PermissionCondition[] }> {
-    // For now, return true as basic implementation
-    // This can be extended to support complex condition evaluation
+  private evaluateConditions(
+    context: AccessContext,
+    attributes: PolicyAttributes
+  ): { granted: boolean; reason: string; conditions?: PermissionCondition[] } {
+    const conditions = this.getPermissionConditions(context);
+    if (conditions.length === 0) {
+      return { granted: true, reason: 'Conditions satisfied' };
+    }
+
+    const unmet = conditions.find(condition => !evaluateCondition(condition, attributes));
     return {
-      granted: true,
-      reason: 'Conditions satisfied'
+      granted: !unmet,
+      reason: unmet ? `Access denied: Condition on '${unmet.field}' not met` : 'Conditions satisfied',
+      conditions
     };
   }
 
+  /**
+   * Conditions registered for the requested permission in the user's tenant
+   */
+  private getPermissionConditions(context: AccessContext): PermissionCondition[] {
+    const requiredPermission = this.constructPermission(context.action, context.resource?.type);
+    return Array.from(this.permissionConditions.values())
+      .filter(entry =>
+        (!entry.tenantId || entry.tenantId === context.user.tenantId) &&
+        (entry.permission === requiredPermission || this.isPermissionMatch(entry.permission, requiredPermission))
+      )
+      .reduce<PermissionCondition[]>((all, entry) => all.concat(entry.conditions), []);
+  }
+
+  /**
+   * Policies for the user's tenant that cover the requested permission
+   */
+  private getApplicablePolicies(context: AccessContext): AccessPolicy[] {
+    const requiredPermission = this.constructPermission(context.action, context.resource?.type);
+    return Array.from(this.policies.values()).filter(policy =>
+      (!policy.tenantId || policy.tenantId === context.user.tenantId) &&
+      policy.permissions.some(pattern =>
+        pattern === requiredPermission || this.isPermissionMatch(pattern, requiredPermission)
+      )
+    );
+  }
+
+  private toPolicyMatch(policy: AccessPolicy): PolicyMatch {
+    return { id: policy.id, effect: policy.effect, description: policy.description };
+  }
+
   /**
    * Check if route is allowed for external customers
    */
@@ -708,6 +834,8 @@ export class RBACService {
           route: context.route,
           reason: decision.reason,
           permissions: decision.permissions,
+          matchedPolicy: decision.matchedPolicy,
+          evaluatedPolicies: decision.evaluatedPolicies,
           isExternalCustomer: context.user.isExternalCustomer
         },
         timestamp: new Date()
@@ -717,6 +845,98 @@ export class RBACService {
     }
   }
 
+  /**
+   * Register an access policy, replacing any policy with the same id in its tenant
+   */
+  registerPolicy(policy: AccessPolicy): void {
+    this.policies.set(policyKey(policy.id, policy.tenantId), policy);
+    this.clearCache();
+  }
+
+  /**
+   * Remove an access policy
+   */
+  removePolicy(policyId: string, tenantId?: string): boolean {
+    const removed = this.policies.delete(policyKey(policyId, tenantId));
+    if (removed) this.clearCache();
+    return removed;
+  }
+
+  /**
+   * Register conditions that must hold whenever a permission (or pattern) grants access
+   */
+  registerPermissionConditions(permission: string, conditions: PermissionCondition[], tenantId?: string): void {
+    this.permissionConditions.set(policyKey(permission, tenantId), { tenantId, permission, conditions });
+    this.clearCache();
+  }
+
+  /**
+   * Register a tenant's access control metadata, replacing what was loaded for it before
+   */
+  registerAccessControl(tenantId: string, settings: AccessControlSettings = {}): void {
+    this.policies.forEach((policy, key) => {
+      if (policy.tenantId === tenantId) this.policies.delete(key);
+    });
+    this.permissionConditions.forEach((entry, key) => {
+      if (entry.tenantId === tenantId) this.permissionConditions.delete(key);
+    });
+
+    (settings.policies || []).forEach(policy => {
+      this.policies.set(policyKey(policy.id, tenantId), { ...policy, tenantId });
+    });
+    Object.entries(settings.permissionConditions || {}).forEach(([permission, conditions]) => {
+      this.permissionConditions.set(policyKey(permission, tenantId), { tenantId, permission, conditions });
+    });
+    this.tenantAccessControl.set(tenantId, Promise.resolve());
+    this.clearCache();
+  }
+
+  /**
+   * Load access control metadata of every tenant that defines it; call at startup
+   */
+  async loadAccessControl(): Promise<number> {
+    const tenants = (await Tenant.find({ 'settings.accessControl': { $exists: true } })) as any[];
+    tenants.forEach(tenant => this.registerAccessControl(String(tenant._id), tenant.settings?.accessControl));
+    return tenants.length;
+  }
+
+  /**
+   * Reload a tenant's access control metadata, e.g. after its settings changed
+   */
+  async reloadTenantAccessControl(tenantId: string): Promise<void> {
+    this.tenantAccessControl.delete(tenantId);
+    await this.ensureTenantAccessControl(tenantId);
+  }
+
+  /**
+   * Load a tenant's access control metadata on first use
+   */
+  private ensureTenantAccessControl(tenantId: string): Promise<void> {
+    let loading = this.tenantAccessControl.get(tenantId);
+    if (!loading && !mongoose.Types.ObjectId.isValid(tenantId)) {
+      this.registerAccessControl(tenantId);
+      loading = this.tenantAccessControl.get(tenantId);
+    }
+    if (!loading) {
+      loading = (Tenant.findById(tenantId) as any)
+        .then((tenant: any) => this.registerAccessControl(tenantId, tenant?.settings?.accessControl))
+        .catch((error: any) => {
+          // Retry on the next check; policies already registered stay in force
+          this.tenantAccessControl.delete(tenantId);
+          console.error('Failed to load tenant access control:', error);
+        });
+      this.tenantAccessControl.set(tenantId, loading as Promise<void>);
+    }
+    return loading as Promise<void>;
+  }
+
+  /**
+   * Get registered access policies
+   */
+  getPolicies(): AccessPolicy[] {
+    return Array.from(this.policies.values());
+  }
+
   /**
    * Clear permission cache for user
    */
@@ -737,6 +957,27 @@ export class RBACService {
 
 // ==================== HELPER FUNCTIONS ====================
 
+/**
+ * Registry key of a policy or permission condition, scoped to its tenant
+ */
+function policyKey(id: string, tenantId?: string): string {
+  return tenantId ? `${tenantId}:${id}` : id;
+}
+
+/**
+ * Role fields used for permission resolution
+ */
+function toRoleDefinition(role: IRole): RoleDefinition {
+  const source = role as any;
+  return {
+    id: source._id ? String(source._id) : source.id,
+    name: role.name,
+    permissions: role.permissions || [],
+    inherits: role.inherits,
+    excludes: role.excludes
+  };
+}
+
 /**
  * Create a new role with permissions
  */
@@ -858,18 +1099,22 @@ export async function hasPermission(
  * Get all permissions for a user
  */
 export async function getUserPermissions(userId: string): Promise<string[]> {
-  const user = await User.findById(userId).populate('roleIds');
-  if (!user) return [];
+  const report = await explainUserPermissions(userId);
+  return report.permissions.map(entry => entry.permission);
+}
 
-  // Fetch the full role objects
-  const roles = (await Role.find({ _id: { $in: (user as any).roleIds || [] } })) as any[];
-  const permissions = new Set<string>();
+/**
+ * Get a user's effective permissions with the role each one comes from
+ */
+export async function explainUserPermissions(userId: string): Promise<PermissionReport> {
+  const user = await User.findById(userId);
+  if (!user) return { permissions: [], excluded: [] };
 
-  roles.forEach((role: any) => {
-    (role.permissions as string[]).forEach((permission: string) => permissions.add(permission));
-  });
+  const userDoc = user as any;
+  const roles = (await Role.find({ _id: { $in: userDoc.roleIds || [] } })) as any[];
+  const tenantRoles = (await Role.find({ tenantId: userDoc.tenantId })) as any[];
 
-  return Array.from(permissions);
+  return resolveEffectivePermissions(roles.map(toRoleDefinition), tenantRoles.map(toRoleDefinition));
 }
 
 /**
@@ -880,6 +1125,13 @@ export async function initializeTenantRBAC(tenantId: string): Promise<IRole[]> {
   return await createDefaultRoles(new mongoose.Types.ObjectId(tenantId));
 }
 
+/**
+ * Load the access policies and permission conditions of all tenants; call once at startup
+ */
+export async function loadAccessControl(): Promise<number> {
+  return await RBACService.getInstance().loadAccessControl();
+}
+
 // Export singleton instance
 export const rbacService = RBACService.getInstance();
 
@@ -893,5 +1145,7 @@ export default {
   removeRoleFromUser,
   hasPermission,
   getUserPermissions,
-  initializeTenantRBAC
+  explainUserPermissions,
+  initializeTenantRBAC,
+  loadAccessControl
 };
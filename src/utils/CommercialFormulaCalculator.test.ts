@@ -388,4 +388,69 @@ describe('CommercialFormulaCalculator', () => {
       expect(result.value).toBe(42);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Units', () => {
+    const unitContext: FormulaContext = {
+      formData: {
+        t_initial: 12.7,
+        t_current: 0.45,
+        years: 10,
+        pressure: 150,
+        temperature: 20
+      },
+      fieldUnits: {
+        t_initial: 'mm',
+        t_current: 'in',
+        years: 'yr',
+        pressure: 'psi',
+        temperature: '°C'
+      }
+    };
+
+    test('converts between compatible units in arithmetic', () => {
+      const result = calculator.evaluateWithContext('=t_initial - t_current', unitContext);
+      expect(result.value).toBeCloseTo(1.27, 10);
+      expect(result.unit).toBe('mm');
+    });
+
+    test('derives compound units and converts to the declared output unit', () => {
+      const rate = calculator.evaluateWithContext('=(t_initial - t_current) / years', unitContext);
+      expect(rate.unit).toBe('mm/yr');
+      expect(rate.value).toBeCloseTo(0.127, 10);
+
+      const mpy = calculator.evaluateWithContext('=(t_initial - t_current) / years', unitContext, 'mil/yr');
+      expect(mpy.value).toBeCloseTo(5, 10);
+      expect(mpy.unit).toBe('mil/yr');
+    });
+
+    test('reports dimensional mismatches', () => {
+      const result = calculator.evaluateWithContext('=pressure + t_current', unitContext);
+      expect(result.type).toBe('error');
+      expect(result.error).toContain('Cannot add in (length) to psi (pressure)');
+      expect(result.position).toBe(10);
+
+      const output = calculator.evaluateWithContext('=t_initial', unitContext, 'psi');
+      expect(output.type).toBe('error');
+    });
+
+    test('CONVERT handles plain numbers, quantities and temperatures', () => {
+      expect(calculator.evaluate("=CONVERT(1, 'in', 'mm')").value).toBeCloseTo(25.4, 10);
+      expect(calculator.evaluateWithContext("=CONVERT(pressure, 'bar')", unitContext).value).toBeCloseTo(10.342, 3);
+      expect(calculator.evaluateWithContext("=CONVERT(temperature, '°F')", unitContext).value).toBeCloseTo(68, 10);
+      expect(calculator.evaluate("=CONVERT(1, 'in', 'psi')").type).toBe('error');
+    });
+
+    test('keeps units through aggregate functions', () => {
+      const result = calculator.evaluateWithContext('=ROUND(MAX(t_initial, t_current), 2)', unitContext);
+      expect(result.value).toBe(12.7);
+      expect(result.unit).toBe('mm');
+      expect(calculator.evaluateWithContext('=SUM(t_initial, t_current)', unitContext).value).toBeCloseTo(24.13, 10);
+    });
+
+    test('treats plain numbers as the other operand\'s unit', () => {
+      const result = calculator.evaluateWithContext('=t_initial + 1', unitContext, 'mm');
+      expect(result.value).toBeCloseTo(13.7, 10);
+      expect(calculator.evaluate('=2 * 3').unit).toBeUndefined();
+    });
+  });
+});
@@ -7,26 +7,88 @@
  * Features:
  * - Excel-like syntax with = prefix
  * - Mathematical operations: +, -, *, /, ^, %
+ * - Comparison and logical operators: =, <>, <, <=, >, >=, &&, ||, !
  * - Functions: SUM, AVERAGE, COUNT, COUNTIF, IF, ROUND, etc.
- * - Field references: =A1, =B2, etc.
+ * - Field references: =A1, =B2, dotted paths (lineItems.quantity)
+ * - Units: fields tagged with a unit convert automatically; CONVERT(value, from, to)
+ * - Parsed and interpreted by the shared formula engine (no eval)
  * - Safe for commercial use (MIT/BSD compatible)
  * 
  * @license MIT
  */
 
+import {
+  FormulaArgType,
+  FormulaDependencyGraph,
+  FormulaEnvironment,
+  FormulaError,
+  FormulaFunction,
+  FormulaFunctionDefinition,
+  FormulaFunctionSignature,
+  FormulaParameter,
+  FormulaReferences,
+  FormulaValidationResult,
+  FormulaValue,
+  IF_SIGNATURE,
+  LookupTable,
+  Quantity,
+  ReferenceDataSet,
+  UnitDefinition,
+  checkArguments,
+  datedif,
+  edate,
+  evaluateExpression,
+  extractFieldReferences,
+  findCalls,
+  flattenValues,
+  getReferenceColumn,
+  getReferenceList,
+  getValueType,
+  interpolate,
+  isQuantity,
+  networkdays,
+  normalizeValue,
+  parseFormula,
+  powerQuantity,
+  resolveFieldPath,
+  toBoolean,
+  toNumber,
+  toReferenceRow,
+  today,
+  validateFormulaCalls,
+  vlookup,
+  xlookup
+} from './formula';
+
 export interface FormulaContext {
+  /** Unit of each numeric field (field id → unit symbol, e.g. { pressure: 'psi' }) */
+  fieldUnits?: Record<string, string>;
+  /** Reference data lists for lookup functions (list name → options as served by /api/reference-data) */
+  referenceData?: ReferenceDataSet;
   [key: string]: any;
 }
 
 export interface FormulaResult {
-  value: number | string | boolean;
+  value: number | string | boolean | Date | FormulaValue[];
   error?: string;
-  type: 'number' | 'string' | 'boolean' | 'error';
+  /** 0-based offset of the offending character when the formula failed */
+  position?: number;
+  type: 'number' | 'string' | 'boolean' | 'date' | 'array' | 'error';
+  /** Unit of a numeric result */
+  unit?: string;
 }
 
+// Built-ins that read form fields by themselves rather than through their arguments
+const WHOLE_FORM_FUNCTIONS = ['SUM_DAILY_HOURS', 'CALC_OVERTIME'];
+
 export class CommercialFormulaCalculator {
   private context: FormulaContext = {};
   private functions: Map<string, Function> = new Map();
+  private signatures: Map<string, FormulaFunctionSignature> = new Map();
+  private environment: FormulaEnvironment = {
+    resolveIdentifier: (name: string) => this.resolveField(name),
+    getFunction: (name: string) => this.functions.get(name) as FormulaFunction | undefined
+  };
 
   constructor() {
     this.registerBuiltInFunctions();
@@ -40,534 +102,365 @@ export class CommercialFormulaCalculator {
   }
 
   /**
-   * Register a custom function
+   * Register a custom function. Calls to it are not checked; use defineFunction
+   * to declare a signature.
    */
   registerFunction(name: string, fn: Function): void {
     this.functions.set(name.toUpperCase(), fn);
+    this.signatures.delete(name.toUpperCase());
   }
 
   /**
-   * Evaluate a formula string
+   * Register a function with a typed signature. Calls are checked against it by
+   * validate() before runtime and again before the implementation runs.
    */
-  evaluate(formula: string): FormulaResult {
-    try {
-      if (!formula || typeof formula !== 'string') {
-        return { value: 0, type: 'number' };
-      }
-
-      const trimmedFormula = formula.trim();
-// Handle Excel-style formulas (starting with =)
-      if (trimmedFormula.startsWith('=')) {
-return this.evaluateExcelFormula(trimmedFormula.substring(1));
-      }
-
-      // Handle legacy formulas (no = prefix)
-return this.evaluateLegacyFormula(trimmedFormula);
-
-    } catch (error) {
-      return {
-        value: 0,
-        error: `Formula evaluation error: ${error instanceof Error ? error.message : String(error)}`,
-        type: 'error'
-      };
-    }
+  defineFunction(definition: FormulaFunctionDefinition): void {
+    const { implementation, ...signature } = definition;
+    const declared: FormulaFunctionSignature = { ...signature, name: definition.name.toUpperCase() };
+    this.functions.set(declared.name, (...args: any[]) => {
+      checkArguments(declared, args);
+      return implementation(...args);
+    });
+    this.signatures.set(declared.name, declared);
   }
 
   /**
-   * Evaluate a formula string with context
+   * Signatures of all functions that declare one (for editors and autocomplete)
    */
-  evaluateWithContext(formula: string, context: FormulaContext): FormulaResult {
-    this.setContext(context);
-    return this.evaluate(formula);
+  getFunctionSignatures(): FormulaFunctionSignature[] {
+    return [IF_SIGNATURE, ...Array.from(this.signatures.values())].sort((a, b) => a.name.localeCompare(b.name));
   }
 
   /**
-   * Evaluate Excel-style formula
+   * Check a formula without evaluating it: syntax, unknown functions, argument
+   * counts and literal argument types. Errors carry their position in the formula.
    */
-  private evaluateExcelFormula(formula: string): FormulaResult {
-    try {
-      // Remove spaces and convert to uppercase for function names
-      const cleanFormula = formula.replace(/\s+/g, '');
-      
-      // Handle function calls
-      if (cleanFormula.includes('(') && cleanFormula.includes(')')) {
-        return this.evaluateFunction(cleanFormula);
-      }
-
-      // Handle mathematical expressions
-      if (this.isMathematicalExpression(cleanFormula)) {
-        return this.evaluateMathematicalExpression(cleanFormula);
-      }
-
-      // Handle cell references (A1, B2, etc.)
-      if (this.isCellReference(cleanFormula)) {
-        return this.evaluateCellReference(cleanFormula);
-      }
-
-      // Handle field references (field names)
-      if (this.isFieldReference(cleanFormula)) {
-        return this.evaluateFieldReference(cleanFormula);
-      }
+  validate(formula: string): FormulaValidationResult {
+    return validateFormulaCalls(formula, name =>
+      this.functions.has(name) ? this.signatures.get(name) || null : undefined
+    );
+  }
 
-      return { value: 0, type: 'number' };
+  /**
+   * Evaluate a formula string.
+   * Excel-style (=SUM(a, b)) and legacy (COUNT('yes')) formulas share the same grammar;
+   * the leading '=' is optional.
+   * When outputUnit is given a result with a unit is converted to it; a plain
+   * numeric result is taken to be in that unit already.
+   */
+  evaluate(formula: string, outputUnit?: string): FormulaResult {
+    if (!formula || typeof formula !== 'string' || !formula.trim() || formula.trim() === '=') {
+      return { value: 0, type: 'number', unit: outputUnit };
+    }
 
+    try {
+      const value = evaluateExpression(formula, this.environment);
+      return this.toResult(value, outputUnit);
     } catch (error) {
       return {
         value: 0,
-        error: `Excel formula error: ${error instanceof Error ? error.message : String(error)}`,
+        error: `Formula evaluation error: ${error instanceof Error ? error.message : String(error)}`,
+        position: error instanceof FormulaError ? error.position : undefined,
         type: 'error'
       };
     }
   }
 
   /**
-   * Evaluate legacy formula (backward compatibility)
+   * Evaluate a formula string with context
    */
-  private evaluateLegacyFormula(formula: string): FormulaResult {
-    try {
-// Legacy COUNT function
-      if (formula.startsWith('COUNT(') && formula.endsWith(')')) {
-const value = formula.slice(6, -1).replace(/['"]/g, '');
-        return this.countValuesInFormData(value);
-      }
-
-      // Legacy SUM function
-      if (formula.startsWith('SUM(') && formula.endsWith(')')) {
-const fields = formula.slice(4, -1).split(',').map(f => f.trim());
-        return this.sumFields(fields);
-      }
-
-      // Legacy FIELD function - only match single FIELD calls, not expressions
-      if (formula.startsWith('FIELD(') && formula.endsWith(')') && !formula.includes('+') && !formula.includes('-') && !formula.includes('*') && !formula.includes('/')) {
-const fieldName = formula.slice(6, -1).replace(/['"]/g, '');
-        return this.getFieldValue(fieldName);
-      }
-// Handle mathematical expressions with embedded function calls
-      if (this.containsFunctionCalls(formula)) {
-        return this.evaluateExpressionWithFunctions(formula);
-      }
-return { value: 0, type: 'number' };
-
-    } catch (error) {
-      return {
-        value: 0,
-        error: `Legacy formula error: ${error instanceof Error ? error.message : String(error)}`,
-        type: 'error'
-      };
-    }
+  evaluateWithContext(formula: string, context: FormulaContext, outputUnit?: string): FormulaResult {
+    this.setContext(context);
+    return this.evaluate(formula, outputUnit);
   }
 
   /**
-   * Check if formula contains function calls
+   * List the fields a formula reads, for building a FormulaDependencyGraph.
+   * FIELD('name') arguments count as references; legacy COUNT('value') and the
+   * timesheet totals scan the whole form.
    */
-  private containsFunctionCalls(formula: string): boolean {
-const regex = /[A-Z]+\([^)]*\)/;
-    const matches = formula.match(regex);
-const hasFunctions = regex.test(formula);
-return hasFunctions;
+  extractReferences(formula: string): FormulaReferences {
+    return extractFieldReferences(formula, {
+      fieldNameFunctions: ['FIELD'],
+      readsAllFields: call =>
+        WHOLE_FORM_FUNCTIONS.includes(call.name) ||
+        (call.name === 'COUNT' &&
+          call.args.length === 1 &&
+          call.args[0].type === 'literal' &&
+          typeof call.args[0].value === 'string')
+    });
   }
 
   /**
-   * Evaluate expression containing function calls
+   * Reference data lists a formula looks up, so callers can load them into
+   * context.referenceData: VLOOKUP(x, 'materials', 2), XLOOKUP(x, 'materials.value', ...)
    */
-  private evaluateExpressionWithFunctions(expression: string): FormulaResult {
+  getReferenceLists(formula: string): string[] {
+    const lists = new Set<string>();
+    let calls: ReturnType<typeof findCalls>;
     try {
-let processedExpression = expression;
-      
-      // Find and replace all function calls
-      const functionCallRegex = /([A-Z]+)\(([^)]*)\)/g;
-      let match;
-      
-      while ((match = functionCallRegex.exec(expression)) !== null) {
-        const fullMatch = match[0];
-        const functionName = match[1];
-        const args = match[2];
-let functionResult = 0;
-        
-        // Handle different function types
-        switch (functionName) {
-          case 'COUNT':
-            const countValue = args.replace(/['"]/g, '');
-            functionResult = this.countValuesInFormData(countValue).value as number;
-break;
-          case 'FIELD':
-            const fieldName = args.replace(/['"]/g, '');
-            functionResult = this.getFieldValue(fieldName).value as number;
-break;
-          case 'SUM':
-            const fields = args.split(',').map(f => f.trim());
-            functionResult = this.sumFields(fields).value as number;
-break;
-          default:
-            // Try to use Excel-style function
-            const fn = this.functions.get(functionName);
-            if (fn) {
-              const parsedArgs = this.parseFunctionArguments(args);
-              functionResult = fn(...parsedArgs);
-}
-            break;
-        }
-        
-        // Replace the function call with its result
-        processedExpression = processedExpression.replace(fullMatch, String(functionResult));
-}
-      
-      // Now evaluate the processed expression
-      const result = new Function('return ' + processedExpression)();
-return {
-        value: isNaN(result) ? 0 : result,
-        type: 'number'
-      };
-      
-    } catch (error) {
-return {
-        value: 0,
-        error: `Expression evaluation error: ${error instanceof Error ? error.message : String(error)}`,
-        type: 'error'
-      };
+      calls = findCalls(parseFormula(formula));
+    } catch {
+      return [];
     }
+
+    calls.forEach(call => {
+      const signature = this.signatures.get(call.name);
+      call.args.forEach((arg, index) => {
+        const parameter = signature && signature.parameters[index];
+        const isTable = parameter && Array.isArray(parameter.type) && parameter.type.includes('array');
+        if (isTable && arg.type === 'literal' && typeof arg.value === 'string') {
+          lists.add(arg.value.split('.')[0]);
+        }
+      });
+    });
+    return Array.from(lists);
   }
 
   /**
-   * Register built-in Excel-like functions
+   * Build a dependency graph for a set of calculated fields (field id → formula)
    */
-  private registerBuiltInFunctions(): void {
-    // Mathematical functions
-    this.registerFunction('SUM', (...args: any[]) => this.excelSum(args));
-    this.registerFunction('AVERAGE', (...args: any[]) => this.excelAverage(args));
-    this.registerFunction('COUNT', (...args: any[]) => this.excelCount(args));
-    this.registerFunction('COUNTIF', (...args: any[]) => this.excelCountIf(args));
-    this.registerFunction('ROUND', (...args: any[]) => this.excelRound(args));
-    this.registerFunction('MAX', (...args: any[]) => this.excelMax(args));
-    this.registerFunction('MIN', (...args: any[]) => this.excelMin(args));
-    this.registerFunction('ABS', (...args: any[]) => this.excelAbs(args));
-    this.registerFunction('POWER', (...args: any[]) => this.excelPower(args));
-    this.registerFunction('SQRT', (...args: any[]) => this.excelSqrt(args));
-
-    // Logical functions
-    this.registerFunction('IF', (...args: any[]) => this.excelIf(args));
-    this.registerFunction('AND', (...args: any[]) => this.excelAnd(args));
-    this.registerFunction('OR', (...args: any[]) => this.excelOr(args));
-    this.registerFunction('NOT', (...args: any[]) => this.excelNot(args));
-
-    // Text functions
-    this.registerFunction('CONCATENATE', (...args: any[]) => this.excelConcatenate(args));
-    this.registerFunction('LEN', (...args: any[]) => this.excelLen(args));
-    this.registerFunction('UPPER', (...args: any[]) => this.excelUpper(args));
-    this.registerFunction('LOWER', (...args: any[]) => this.excelLower(args));
-
-    // Statistical functions
-    this.registerFunction('SUMPRODUCT', (...args: any[]) => this.excelSumProduct(args));
-    this.registerFunction('MEDIAN', (...args: any[]) => this.excelMedian(args));
-    this.registerFunction('MODE', (...args: any[]) => this.excelMode(args));
-
-    // Time calculation functions
-    this.registerFunction('CALC_HOURS', (...args: any[]) => this.calcHours(args));
-    this.registerFunction('SUM_DAILY_HOURS', (...args: any[]) => this.sumDailyHours(args));
-    this.registerFunction('CALC_OVERTIME', (...args: any[]) => this.calcOvertime(args));
-    this.registerFunction('FIELD', (...args: any[]) => this.getFieldValueFromArgs(args));
+  createDependencyGraph(formulas: Record<string, string>): FormulaDependencyGraph {
+    return new FormulaDependencyGraph(formulas, formula => this.extractReferences(formula));
   }
 
   /**
-   * Evaluate function calls
+   * Wrap an interpreter value in a typed FormulaResult
    */
-  private evaluateFunction(formula: string): FormulaResult {
-    try {
-      const match = formula.match(/^([A-Z]+)\((.*)\)$/);
-      if (!match) {
-        return { value: 0, type: 'number' };
-      }
+  private toResult(value: FormulaValue, outputUnit?: string): FormulaResult {
+    if (isQuantity(value)) {
+      const converted = outputUnit ? value.to(outputUnit) : value;
+      return { ...this.toResult(converted.value), unit: converted.unit.symbol };
+    }
 
-      const functionName = match[1];
-      const argsString = match[2];
+    const valueType = getValueType(value);
 
-      // Parse arguments
-      const args = this.parseFunctionArguments(argsString);
-      
-      // Get function
-      const fn = this.functions.get(functionName);
-      if (!fn) {
-        return {
-          value: 0,
-          error: `Unknown function: ${functionName}`,
-          type: 'error'
-        };
-      }
-
-      // Execute function
-      const result = fn(...args);
-      return {
-        value: result,
-        type: typeof result === 'number' ? 'number' : 
-              typeof result === 'boolean' ? 'boolean' : 'string'
-      };
+    if (valueType === 'empty') {
+      return { value: 0, type: 'number', unit: outputUnit };
+    }
 
-    } catch (error) {
+    if (valueType === 'number' && !isFinite(value as number)) {
       return {
         value: 0,
-        error: `Function evaluation error: ${error instanceof Error ? error.message : String(error)}`,
+        error: 'Formula evaluation error: Result is not a finite number',
         type: 'error'
       };
     }
-  }
-
-  /**
-   * Parse function arguments
-   */
-  private parseFunctionArguments(argsString: string): any[] {
-    const args: any[] = [];
-    let currentArg = '';
-    let parenDepth = 0;
-    let inQuotes = false;
-
-    for (let i = 0; i < argsString.length; i++) {
-      const char = argsString[i];
-
-      if (char === '"' && (i === 0 || argsString[i - 1] !== '\\')) {
-        inQuotes = !inQuotes;
-        currentArg += char;
-        continue;
-      }
-
-      if (!inQuotes) {
-        if (char === '(') {
-          parenDepth++;
-        } else if (char === ')') {
-          parenDepth--;
-        } else if (char === ',' && parenDepth === 0) {
-          args.push(this.parseArgument(currentArg.trim()));
-          currentArg = '';
-          continue;
-        }
-      }
 
-      currentArg += char;
+    const result: FormulaResult = { value: value as FormulaResult['value'], type: valueType as FormulaResult['type'] };
+    if (outputUnit && valueType === 'number') {
+      result.unit = outputUnit;
     }
-
-    if (currentArg.trim()) {
-      args.push(this.parseArgument(currentArg.trim()));
-    }
-
-    return args;
+    return result;
   }
 
   /**
-   * Parse individual argument
+   * Register built-in Excel-like functions with their signatures.
+   * IF is evaluated lazily by the formula engine itself and is not registered here.
    */
-  private parseArgument(arg: string): any {
-    // Remove quotes
-    if ((arg.startsWith('"') && arg.endsWith('"')) || 
-        (arg.startsWith("'") && arg.endsWith("'"))) {
-      return arg.slice(1, -1);
-    }
+  private registerBuiltInFunctions(): void {
+    const any = (name: string, optional = false): FormulaParameter => ({ name, type: 'any', optional });
+    const values: FormulaParameter = { name: 'values', type: 'any', variadic: true };
+    const number = (name: string, optional = false): FormulaParameter => ({ name, type: 'number', optional });
+    const text = (name: string, optional = false): FormulaParameter => ({ name, type: 'string', optional });
+    const date = (name: string): FormulaParameter => ({ name, type: 'date' });
+    // Arrays written in the formula, or reference data: a list name (VLOOKUP) or "list.column"
+    const table = (name: string): FormulaParameter => ({ name, type: ['array', 'string'] });
+
+    const define = (
+      category: string,
+      name: string,
+      parameters: FormulaParameter[],
+      returns: FormulaArgType,
+      description: string,
+      implementation: (args: any[]) => any
+    ) =>
+      this.defineFunction({
+        name,
+        category,
+        parameters,
+        returns,
+        description,
+        implementation: (...args: any[]) => implementation(args)
+      });
 
-    // Check if it's a number
-    if (!isNaN(Number(arg))) {
-      return Number(arg);
-    }
+    // Mathematical functions
+    define('Math', 'SUM', [values], 'number', 'Sum of values', args => this.excelSum(args));
+    define('Math', 'AVERAGE', [values], 'number', 'Average of values', args => this.excelAverage(args));
+    define('Math', 'COUNT', [values], 'number', "Count non-empty values; COUNT('yes') counts matching fields",
+      args => this.excelCount(args));
+    define('Math', 'COUNTIF', [any('range'), any('criteria')], 'number', 'Count values matching criteria',
+      args => this.excelCountIf(args));
+    define('Math', 'ROUND', [number('number'), number('decimals', true)], 'number', 'Round to the given decimals',
+      args => this.excelRound(args));
+    define('Math', 'MAX', [values], 'number', 'Largest value', args => this.excelMax(args));
+    define('Math', 'MIN', [values], 'number', 'Smallest value', args => this.excelMin(args));
+    define('Math', 'ABS', [number('number')], 'number', 'Absolute value', args => this.excelAbs(args));
+    define('Math', 'POWER', [number('base'), number('exponent')], 'number', 'Exponentiation',
+      args => this.excelPower(args));
+    define('Math', 'SQRT', [number('number')], 'number', 'Square root', args => this.excelSqrt(args));
+    define('Math', 'CONVERT', [number('value'), text('from_unit'), text('to_unit', true)], 'number',
+      'Convert a value between units', args => this.excelConvert(args));
+    define('Math', 'INTERPOLATE', [number('x'), table('known_x'), table('known_y')], 'number',
+      'Linear interpolation in a table of points',
+      args => interpolate(args[0], this.resolveColumn(args[1]), this.resolveColumn(args[2])));
 
-    // Check if it's a cell reference
-    if (this.isCellReference(arg)) {
-      return this.evaluateCellReference(arg).value;
-    }
+    // Logical functions
+    define('Logical', 'AND', [values], 'boolean', 'True when every condition is true', args => this.excelAnd(args));
+    define('Logical', 'OR', [values], 'boolean', 'True when any condition is true', args => this.excelOr(args));
+    define('Logical', 'NOT', [any('condition', true)], 'boolean', 'Logical NOT', args => this.excelNot(args));
 
-    // Check if it's a field reference
-    if (this.isFieldReference(arg)) {
-      return this.evaluateFieldReference(arg).value;
-    }
+    // Text functions
+    define('Text', 'CONCATENATE', [{ name: 'texts', type: 'any', variadic: true }], 'string', 'Join text',
+      args => this.excelConcatenate(args));
+    define('Text', 'LEN', [text('text')], 'number', 'Length of text', args => this.excelLen(args));
+    define('Text', 'UPPER', [text('text')], 'string', 'Text in upper case', args => this.excelUpper(args));
+    define('Text', 'LOWER', [text('text')], 'string', 'Text in lower case', args => this.excelLower(args));
 
-    // Check if it's a boolean
-    if (arg.toUpperCase() === 'TRUE') return true;
-    if (arg.toUpperCase() === 'FALSE') return false;
+    // Statistical functions
+    define('Statistical', 'SUMPRODUCT', [any('array1'), any('array2')], 'number', 'Sum of products',
+      args => this.excelSumProduct(args));
+    define('Statistical', 'MEDIAN', [values], 'number', 'Median value', args => this.excelMedian(args));
+    define('Statistical', 'MODE', [values], 'number', 'Most frequent value', args => this.excelMode(args));
+
+    // Lookup functions
+    define('Lookup', 'VLOOKUP',
+      [any('lookup_value'), table('table'), { name: 'column', type: ['number', 'string'] },
+        { name: 'approximate', type: 'boolean', optional: true }],
+      'any', 'Find a row by its first column and return the value in another column',
+      args => vlookup(args[0], this.resolveTable(args[1]), args[2], args.length > 3 && toBoolean(args[3])));
+    define('Lookup', 'XLOOKUP',
+      [any('lookup_value'), table('lookup_array'), table('return_array'), any('if_not_found', true),
+        number('match_mode', true)],
+      'any', 'Find a value in one column and return the entry at the same position in another',
+      args => xlookup(args[0], this.resolveColumn(args[1]), this.resolveColumn(args[2]), args[3],
+        args.length > 4 ? toNumber(args[4]) : 0));
+
+    // Date functions
+    define('Date', 'TODAY', [], 'date', "Today's date", () => today());
+    define('Date', 'DATEDIF', [date('start_date'), date('end_date'), text('unit')], 'number',
+      'Difference between dates in years (Y), months (M) or days (D, MD, YM, YD)',
+      args => datedif(args[0], args[1], args[2]));
+    define('Date', 'EDATE', [date('start_date'), number('months')], 'date',
+      'The same day a number of months later', args => edate(args[0], args[1]));
+    define('Date', 'NETWORKDAYS', [date('start_date'), date('end_date'), any('holidays', true)], 'number',
+      'Working days between two dates, both included', args => networkdays(args[0], args[1], args[2] ?? []));
 
-    return arg;
+    // Time calculation functions
+    define('Timesheet', 'CALC_HOURS', [any('start_time', true), any('end_time', true), any('break_minutes', true)],
+      'number', 'Hours between two times, less breaks', args => this.calcHours(args));
+    define('Timesheet', 'SUM_DAILY_HOURS', [], 'number', 'Total hours across the daily timesheet fields',
+      args => this.sumDailyHours(args));
+    define('Timesheet', 'CALC_OVERTIME', [], 'number', 'Hours above 40 in the timesheet',
+      args => this.calcOvertime(args));
+    define('Fields', 'FIELD', [text('field_name')], 'any', 'Value of a form field by name',
+      args => this.getFieldValueFromArgs(args));
   }
 
   /**
-   * Check if string is a mathematical expression
+   * Get the data object formulas read fields from
    */
-  private isMathematicalExpression(formula: string): boolean {
-    return /^[0-9+\-*/().\s]+$/.test(formula);
+  private getDataSource(): Record<string, any> {
+    // Handle both direct context and nested form data
+    return this.context.formData || this.context;
   }
 
   /**
-   * Check if string is a cell reference
+   * Resolve a field reference. Missing fields evaluate to 0;
+   * Excel cell references (A1, B2) map to field_A1, field_B2.
+   * Numbers in fields declared in context.fieldUnits become quantities.
    */
-  private isCellReference(formula: string): boolean {
-    return /^[A-Z]+\d+$/.test(formula);
-  }
+  private resolveField(fieldName: string): FormulaValue {
+    const dataSource = this.getDataSource();
+    let value = resolveFieldPath(dataSource, fieldName);
 
-  /**
-   * Check if string is a field reference
-   */
-  private isFieldReference(formula: string): boolean {
-    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(formula);
-  }
+    if (value === undefined && /^[A-Z]+\d+$/.test(fieldName)) {
+      value = resolveFieldPath(dataSource, `field_${fieldName}`);
+    }
 
-  /**
-   * Evaluate mathematical expression
-   */
-  private evaluateMathematicalExpression(expression: string): FormulaResult {
-    try {
-      // Replace field references with values
-      let processedExpression = expression;
-      const fieldMatches = expression.match(/[A-Za-z_][A-Za-z0-9_]*/g) || [];
-      
-      // Handle both direct context and nested form data
-      const dataSource = this.context.formData || this.context;
-      
-      for (const field of fieldMatches) {
-        const fieldValue = dataSource[field];
-        if (fieldValue !== undefined) {
-          processedExpression = processedExpression.replace(
-            new RegExp(`\\b${field}\\b`, 'g'), 
-            String(fieldValue)
-          );
-        } else {
-          // Replace undefined fields with 0
-          processedExpression = processedExpression.replace(
-            new RegExp(`\\b${field}\\b`, 'g'), 
-            '0'
-          );
-        }
-      }
+    const unit = this.context.fieldUnits?.[fieldName];
+    if (value === undefined || value === null) {
+      return unit ? new Quantity(0, unit) : 0;
+    }
+    return unit ? this.withUnit(normalizeValue(value), unit) : normalizeValue(value);
+  }
 
-      // Safe evaluation using Function constructor
-      const result = new Function('return ' + processedExpression)();
-      
-      return {
-        value: isNaN(result) ? 0 : result,
-        type: 'number'
-      };
+  // Tag numbers (including those collected from a dotted path) with a field's unit
+  private withUnit(value: FormulaValue, unit: string): FormulaValue {
+    if (Array.isArray(value)) return value.map(item => this.withUnit(item, unit));
+    return typeof value === 'number' ? new Quantity(value, unit) : value;
+  }
 
-    } catch (error) {
-      return {
-        value: 0,
-        error: `Mathematical expression error: ${error instanceof Error ? error.message : String(error)}`,
-        type: 'error'
-      };
-    }
+  // Lookup tables: arrays written in the formula, or the name of a reference data list
+  private resolveTable(table: FormulaValue): LookupTable {
+    if (Array.isArray(table)) return table.map(row => (Array.isArray(row) ? row : [row]));
+    return getReferenceList(this.context.referenceData, String(table)).map(toReferenceRow);
   }
 
-  /**
-   * Evaluate cell reference (A1, B2, etc.)
-   */
-  private evaluateCellReference(cellRef: string): FormulaResult {
-    // For now, treat cell references as field references
-    // In a real implementation, you might want to map A1->field1, B2->field2, etc.
-    const fieldName = `field_${cellRef}`;
-    return this.evaluateFieldReference(fieldName);
+  // Lookup columns: arrays, or "list.column" in a reference data list
+  private resolveColumn(column: FormulaValue): FormulaValue[] {
+    if (Array.isArray(column)) return flattenValues(column);
+    return getReferenceColumn(this.context.referenceData, String(column));
   }
 
   /**
-   * Evaluate field reference
+   * Magnitudes of numeric arguments, expressed in the unit of the first quantity
+   * among them (plain numbers are taken to be in that unit). Throws when the
+   * arguments mix incompatible units.
    */
-  private evaluateFieldReference(fieldName: string): FormulaResult {
-    // Handle both direct context and nested form data
-    const dataSource = this.context.formData || this.context;
-    const value = dataSource[fieldName];
-    if (value === undefined) {
-      return { value: 0, type: 'number' };
-    }
-
-    const numValue = Number(value);
-    return {
-      value: isNaN(numValue) ? value : numValue,
-      type: isNaN(numValue) ? 'string' : 'number'
-    };
+  private toCommonUnit(args: any[]): { numbers: number[]; unit?: UnitDefinition } {
+    const values = flattenValues(args);
+    const first = values.find(isQuantity) as Quantity | undefined;
+    const numbers = values
+      .map(arg => (first && isQuantity(arg) ? arg.to(first.unit).value : toNumber(arg)))
+      .filter(num => !isNaN(num));
+    return { numbers, unit: first?.unit };
   }
 
-  // Legacy functions (for backward compatibility)
-  private countValues(value: string): FormulaResult {
-    let count = 0;
-    for (const key in this.context) {
-      if (this.context[key] === value) {
-        count++;
-      }
-    }
-    return { value: count, type: 'number' };
+  private withResultUnit(value: number, unit?: UnitDefinition): number | Quantity {
+    return unit ? new Quantity(value, unit) : value;
   }
 
-  // Enhanced COUNT function that works with form data structure
-  private countValuesInFormData(value: string): FormulaResult {
+  // Legacy COUNT('value'): count form fields holding exactly this value
+  private countValuesInFormData(value: string): number {
     let count = 0;
-    
-    // Handle both direct context and nested form data
-    const dataToSearch = this.context.formData || this.context;
-    
+    const dataToSearch = this.getDataSource();
+
     for (const key in dataToSearch) {
       if (dataToSearch[key] === value) {
         count++;
       }
     }
-    
-    return { value: count, type: 'number' };
-  }
-
-  private sumFields(fields: string[]): FormulaResult {
-    let sum = 0;
-    // Handle both direct context and nested form data
-    const dataSource = this.context.formData || this.context;
-    
-    for (const field of fields) {
-      const value = dataSource[field];
-      if (value !== undefined) {
-        const numValue = Number(value);
-        if (!isNaN(numValue)) {
-          sum += numValue;
-        }
-      }
-    }
-    return { value: sum, type: 'number' };
-  }
 
-  private getFieldValue(fieldName: string): FormulaResult {
-    // Handle both direct context and nested form data
-    const dataSource = this.context.formData || this.context;
-    const value = dataSource[fieldName];
-    if (value === undefined) {
-      return { value: 0, type: 'number' };
-    }
-    const numValue = Number(value);
-    return {
-      value: isNaN(numValue) ? value : numValue,
-      type: isNaN(numValue) ? 'string' : 'number'
-    };
+    return count;
   }
 
-  // Excel-like function implementations
-  private excelSum(args: any[]): number {
-    return args.reduce((sum, arg) => {
-      const num = Number(arg);
-      return sum + (isNaN(num) ? 0 : num);
-    }, 0);
+  // Excel-like function implementations (arrays passed as arguments act like ranges)
+  private excelSum(args: any[]): number | Quantity {
+    const { numbers, unit } = this.toCommonUnit(args);
+    return this.withResultUnit(numbers.reduce((sum, num) => sum + num, 0), unit);
   }
 
-  private excelAverage(args: any[]): number {
-    const validNumbers = args.filter(arg => !isNaN(Number(arg)));
-    if (validNumbers.length === 0) return 0;
-    return this.excelSum(validNumbers) / validNumbers.length;
+  private excelAverage(args: any[]): number | Quantity {
+    const { numbers, unit } = this.toCommonUnit(args);
+    if (numbers.length === 0) return 0;
+    return this.withResultUnit(numbers.reduce((sum, num) => sum + num, 0) / numbers.length, unit);
   }
 
   private excelCount(args: any[]): number {
-    return args.filter(arg => arg !== null && arg !== undefined && arg !== '').length;
+    // Legacy form: COUNT('yes') counts matching field values across the form
+    if (args.length === 1 && typeof args[0] === 'string') {
+      return this.countValuesInFormData(args[0]);
+    }
+    return flattenValues(args).filter(arg => arg !== null && arg !== undefined && arg !== '').length;
   }
 
   private excelCountIf(args: any[]): number {
     if (args.length < 2) return 0;
-    
-    // Handle field references in the first argument
-    let range = args[0];
-    if (typeof range === 'string' && this.isFieldReference(range)) {
-      // If it's a single field reference, get all form data values
-      const formData = this.context.formData || this.context;
-      range = Object.values(formData);
-    } else if (!Array.isArray(range)) {
-      range = [range];
-    }
-    
+
+    const range = Array.isArray(args[0]) ? flattenValues(args[0]) : [args[0]];
     const criteria = args[1];
-    
+
     return range.filter((item: any) => {
       if (typeof criteria === 'string') {
         return String(item) === criteria;
@@ -579,74 +472,65 @@ return {
     }).length;
   }
 
-  private excelRound(args: any[]): number {
+  private excelRound(args: any[]): number | Quantity {
     if (args.length < 1) return 0;
     const number = Number(args[0]);
     const decimals = args.length > 1 ? Number(args[1]) : 0;
-    return Math.round(number * Math.pow(10, decimals)) / Math.pow(10, decimals);
+    const rounded = Math.round(number * Math.pow(10, decimals)) / Math.pow(10, decimals);
+    return this.withResultUnit(rounded, isQuantity(args[0]) ? args[0].unit : undefined);
   }
 
-  private excelMax(args: any[]): number {
-    const numbers = args.map(arg => Number(arg)).filter(num => !isNaN(num));
-    return numbers.length > 0 ? Math.max(...numbers) : 0;
+  private excelMax(args: any[]): number | Quantity {
+    const { numbers, unit } = this.toCommonUnit(args);
+    return numbers.length > 0 ? this.withResultUnit(Math.max(...numbers), unit) : 0;
   }
 
-  private excelMin(args: any[]): number {
-    const numbers = args.map(arg => Number(arg)).filter(num => !isNaN(num));
-    return numbers.length > 0 ? Math.min(...numbers) : 0;
+  private excelMin(args: any[]): number | Quantity {
+    const { numbers, unit } = this.toCommonUnit(args);
+    return numbers.length > 0 ? this.withResultUnit(Math.min(...numbers), unit) : 0;
   }
 
-  private excelAbs(args: any[]): number {
+  private excelAbs(args: any[]): number | Quantity {
     if (args.length < 1) return 0;
-    return Math.abs(Number(args[0]));
+    return this.withResultUnit(Math.abs(Number(args[0])), isQuantity(args[0]) ? args[0].unit : undefined);
   }
 
-  private excelPower(args: any[]): number {
+  private excelPower(args: any[]): number | Quantity {
     if (args.length < 2) return 0;
+    if (isQuantity(args[0])) return powerQuantity(args[0], Number(args[1]));
     return Math.pow(Number(args[0]), Number(args[1]));
   }
 
-  private excelSqrt(args: any[]): number {
+  private excelSqrt(args: any[]): number | Quantity {
     if (args.length < 1) return 0;
+    if (isQuantity(args[0])) return powerQuantity(args[0], 0.5);
     return Math.sqrt(Number(args[0]));
   }
 
-  private excelIf(args: any[]): any {
-    if (args.length < 2) return false;
-    
-    // Handle string conditions like "q2 > 2"
-    let condition = args[0];
-    if (typeof condition === 'string') {
-      // Replace field references in condition
-      const fieldMatches = condition.match(/[A-Za-z_][A-Za-z0-9_]*/g) || [];
-      // Handle both direct context and nested form data
-      const dataSource = this.context.formData || this.context;
-      
-      for (const field of fieldMatches) {
-        const fieldValue = dataSource[field];
-        if (fieldValue !== undefined) {
-          condition = condition.replace(
-            new RegExp(`\\b${field}\\b`, 'g'), 
-            String(fieldValue)
-          );
-        } else {
-          condition = condition.replace(
-            new RegExp(`\\b${field}\\b`, 'g'), 
-            '0'
-          );
-        }
-      }
-      // Evaluate the condition
-      try {
-        condition = new Function('return ' + condition)();
-      } catch (error) {
-        condition = false;
-      }
+  /**
+   * Convert a value between units
+   * CONVERT(value, from, to), or CONVERT(quantity, to) for values that already have a unit
+   */
+  private excelConvert(args: any[]): Quantity {
+    if (args.length < 2) {
+      throw new Error('expects a value and a target unit');
     }
-    
-    const trueValue = args[1];
-    const falseValue = args.length > 2 ? args[2] : false;
-    return Boolean(condition) ? trueValue : falseValue;
+    const [value, ...units] = args;
+    const target = String(units[units.length - 1]);
+    const source = units.length > 1 ? String(units[0]) : undefined;
+
+    if (isQuantity(value)) {
+      // A value that already has a unit must match the stated source unit's dimension
+      return (source ? value.to(source) : value).to(target);
+    }
+    if (!source) {
+      throw new Error('needs a source unit for a value without a unit');
+    }
+    const number = toNumber(value);
+    if (isNaN(number)) {
+      throw new Error(`cannot convert "${value}"`);
+    }
+    return new Quantity(number, source).to(target);
   }
 
   private excelAnd(args: any[]): boolean {
@@ -697,7 +581,7 @@ return {
   }
 
   private excelMedian(args: any[]): number {
-    const numbers = args.map(arg => Number(arg)).filter(num => !isNaN(num)).sort((a, b) => a - b);
+    const numbers = flattenValues(args).map(arg => toNumber(arg)).filter(num => !isNaN(num)).sort((a, b) => a - b);
     if (numbers.length === 0) return 0;
     
     const mid = Math.floor(numbers.length / 2);
@@ -707,7 +591,7 @@ return {
   }
 
   private excelMode(args: any[]): number {
-    const numbers = args.map(arg => Number(arg)).filter(num => !isNaN(num));
+    const numbers = flattenValues(args).map(arg => toNumber(arg)).filter(num => !isNaN(num));
     if (numbers.length === 0) return 0;
     
     const frequency: { [key: number]: number } = {};
@@ -797,16 +681,9 @@ return {
    * Get field value from form data
    * FIELD(fieldName)
    */
-  private getFieldValueFromArgs(args: any[]): number {
+  private getFieldValueFromArgs(args: any[]): FormulaValue {
     if (args.length < 1) return 0;
-    
-    const fieldName = String(args[0]);
-    const formData = this.context.formData || {};
-    
-    // Remove quotes if present
-    const cleanFieldName = fieldName.replace(/['"]/g, '');
-    
-    return Number(formData[cleanFieldName]) || 0;
+    return this.resolveField(String(args[0]));
   }
 }
 
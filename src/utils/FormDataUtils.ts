@@ -61,6 +61,7 @@ return formData;
             watchField: (sectionOption as any).watchField,
             showWhen: (sectionOption as any).showWhen,
             showOnMatch: (sectionOption as any).showOnMatch,
+            visibleWhen: (sectionOption as any).visibleWhen,
             sectionOptionsUrl: (sectionOption as any).sectionOptionsUrl
           };
           if (!sectionGroups[sectionOption.id ?? '']) {
@@ -82,7 +83,8 @@ return formData;
             disabled: groupOption.disabled,
             watchField: groupOption.watchField,
             showWhen: groupOption.showWhen,
-            showOnMatch: groupOption.showOnMatch
+            showOnMatch: groupOption.showOnMatch,
+            visibleWhen: groupOption.visibleWhen
           };
           if (groupOption.sectionId) {
             if (!sectionGroups[groupOption.sectionId]) {
@@ -3,8 +3,19 @@
  * 
  * This utility provides formula evaluation capabilities for form gadgets.
  * It supports mathematical expressions and field counting operations.
+ * Formulas are parsed and interpreted by the shared formula engine.
  */
 
+import {
+  FormulaEnvironment,
+  FormulaFunction,
+  evaluateExpression,
+  findCalls,
+  parseFormula,
+  normalizeValue,
+  toNumber
+} from './formula';
+
 export interface FormulaContext {
   formData: Record<string, any>;
   fieldConfigs: Record<string, any>;
@@ -109,6 +120,30 @@ function getFieldValue(
   return formData[fieldPath] || 0;
 }
 
+const SUPPORTED_FUNCTIONS = ['COUNT', 'COUNT_IGNORE_CASE', 'SUM', 'FIELD'] as const;
+
+/**
+ * Build the formula engine environment for a form context
+ */
+function createEnvironment(context: FormulaContext): FormulaEnvironment {
+  const { formData, fieldConfigs } = context;
+  const text = (arg: any) => (arg === undefined || arg === null ? undefined : String(arg));
+
+  const functions: Record<(typeof SUPPORTED_FUNCTIONS)[number], FormulaFunction> = {
+    COUNT: (value: any, pattern?: any) =>
+      countFieldsByValue(formData, fieldConfigs, String(value), text(pattern)),
+    COUNT_IGNORE_CASE: (value: any, pattern?: any) =>
+      countFieldsByValueIgnoreCase(formData, fieldConfigs, String(value), text(pattern)),
+    SUM: (pattern?: any) => sumFields(formData, fieldConfigs, text(pattern)),
+    FIELD: (fieldPath: any) => normalizeValue(getFieldValue(formData, String(fieldPath)))
+  };
+
+  return {
+    resolveIdentifier: (name: string) => normalizeValue(getFieldValue(formData, name)),
+    getFunction: (name: string) => functions[name as (typeof SUPPORTED_FUNCTIONS)[number]]
+  };
+}
+
 /**
  * Evaluate a formula string
  */
@@ -117,68 +152,20 @@ export function evaluateFormula(
   context: FormulaContext
 ): FormulaResult {
   try {
-    const { formData, fieldConfigs, metadata } = context;
-    
-    // Create a safe evaluation environment
-    const safeEval = (expression: string): number => {
-      // Replace function calls with their implementations
-      let processedExpression = expression;
-      
-      // Handle COUNT functions
-      processedExpression = processedExpression.replace(
-        /COUNT\(([^)]+)\)/g,
-        (match, args) => {
-          const [value, pattern] = args.split(',').map((arg: string) => arg.trim().replace(/['"]/g, ''));
-          return countFieldsByValue(formData, fieldConfigs, value, pattern).toString();
-        }
-      );
-      
-      // Handle COUNT_IGNORE_CASE functions
-      processedExpression = processedExpression.replace(
-        /COUNT_IGNORE_CASE\(([^)]+)\)/g,
-        (match, args) => {
-          const [value, pattern] = args.split(',').map((arg: string) => arg.trim().replace(/['"]/g, ''));
-          return countFieldsByValueIgnoreCase(formData, fieldConfigs, value, pattern).toString();
-        }
-      );
-      
-      // Handle SUM functions
-      processedExpression = processedExpression.replace(
-        /SUM\(([^)]+)\)/g,
-        (match, args) => {
-          const pattern = args.trim().replace(/['"]/g, '');
-          return sumFields(formData, fieldConfigs, pattern).toString();
-        }
-      );
-      
-      // Handle FIELD functions
-      processedExpression = processedExpression.replace(
-        /FIELD\(([^)]+)\)/g,
-        (match, args) => {
-          const fieldPath = args.trim().replace(/['"]/g, '');
-          return getFieldValue(formData, fieldPath).toString();
-        }
-      );
-      
-      // Evaluate the processed expression
-      // Only allow basic mathematical operations
-      const allowedChars = /^[0-9+\-*/().\s]+$/;
-      if (!allowedChars.test(processedExpression)) {
-        throw new Error(`Invalid characters in expression: ${processedExpression}`);
-      }
-      
-      // Use Function constructor for safe evaluation
-      const result = new Function(`return ${processedExpression}`)();
-      return typeof result === 'number' ? result : 0;
-    };
-    
-    const result = safeEval(formula);
-    
+    const { formData, fieldConfigs } = context;
+
+    const numeric = toNumber(evaluateExpression(formula, createEnvironment(context)));
+    const result = isNaN(numeric) ? 0 : numeric;
+
+    if (!isFinite(result)) {
+      throw new Error('Result is not a finite number');
+    }
+
     return {
       value: result,
       details: {
         formula,
-        evaluatedFormula: formula, // This would be the processed formula in a real implementation
+        evaluatedFormula: formula,
         fieldCounts: {
           yes: countFieldsByValue(formData, fieldConfigs, 'yes'),
           no: countFieldsByValue(formData, fieldConfigs, 'no'),
@@ -243,7 +230,7 @@ export const FormulaTemplates = {
 export function validateFormula(formula: string): { isValid: boolean; error?: string } {
   try {
     // Basic validation - check for allowed functions and syntax
-    const allowedFunctions = ['COUNT', 'COUNT_IGNORE_CASE', 'SUM', 'FIELD'];
+    const allowedFunctions: readonly string[] = SUPPORTED_FUNCTIONS;
     const hasAllowedFunction = allowedFunctions.some(func => formula.includes(func));
     
     if (!hasAllowedFunction) {
@@ -253,19 +240,14 @@ export function validateFormula(formula: string): { isValid: boolean; error?: st
       };
     }
     
-    // Test with empty context
-    const testContext: FormulaContext = {
-      formData: {},
-      fieldConfigs: {},
-      metadata: {}
-    };
-    
-    const result = evaluateFormula(formula, testContext);
+    // Parse the formula and make sure every call targets a known function
+    const unknownFunction = findCalls(parseFormula(formula))
+      .find(call => !allowedFunctions.includes(call.name));
     
-    if (result.error) {
+    if (unknownFunction) {
       return {
         isValid: false,
-        error: result.error
+        error: `Unknown function: ${unknownFunction.name} at column ${unknownFunction.position + 1}`
       };
     }
     
@@ -277,4 +259,4 @@ export function validateFormula(formula: string): { isValid: boolean; error?: st
       error: `Formula validation error: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
-} 
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { WizardStep, WizardState, FormValidationResult, FieldConfig, FormSection, FormGroup } from '../components/library/gadgets/forms/types';
+import { isFieldRequired, isFormItemVisible } from './formRules';
 
 /**
  * Wizard utility functions for managing wizard state and navigation
@@ -137,8 +138,8 @@ const errors: Record<string, string> = {};
 return;
       }
 
-      // Required field validation
-      if (fieldConfig.required && (fieldValue === undefined || fieldValue === null || fieldValue === '' || (Array.isArray(fieldValue) && fieldValue.length === 0))) {
+      // Required field validation (required or requiredWhen)
+      if (isFieldRequired(fieldConfig, stepData) && (fieldValue === undefined || fieldValue === null || fieldValue === '' || (Array.isArray(fieldValue) && fieldValue.length === 0))) {
         errors[fieldId] = `${fieldConfig.label || fieldId} is required`;
         console.warn('WizardUtils: Required field validation failed:', fieldId);
       }
@@ -181,30 +182,7 @@ return result;
    * Check if a field should be validated based on conditional rendering
    */
   static shouldValidateField(fieldConfig: any, stepData: any): boolean {
-    if (!fieldConfig.watchField || fieldConfig.showWhen === undefined) {
-      return true;
-    }
-    
-    const watchedValue = stepData[fieldConfig.watchField];
-// Handle array values for showWhen
-    if (Array.isArray(fieldConfig.showWhen)) {
-      const isIncluded = fieldConfig.showWhen.includes(watchedValue);
-      const result = fieldConfig.showOnMatch !== false ? isIncluded : !isIncluded;
-return result;
-    }
-    
-    // Handle comma-separated string values for showWhen (e.g., "yes,planned")
-    if (typeof fieldConfig.showWhen === 'string' && fieldConfig.showWhen.includes(',')) {
-      const showWhenArray = fieldConfig.showWhen.split(',').map((s: string) => s.trim());
-      const isIncluded = showWhenArray.includes(watchedValue);
-      const result = fieldConfig.showOnMatch !== false ? isIncluded : !isIncluded;
-return result;
-    }
-    
-    // Handle single value for showWhen
-    const matches = watchedValue === fieldConfig.showWhen;
-    const result = fieldConfig.showOnMatch !== false ? matches : !matches;
-return result;
+    return isFormItemVisible(fieldConfig, stepData);
   }
 
   /**
@@ -0,0 +1,66 @@
+/**
+ * Asset Label PDF
+ *
+ * Draws a sheet of asset labels with jsPDF: the QR code on the left, an
+ * optional logo and the chosen fields on the right, text cut off where it
+ * would run past the label.
+ */
+
+import jsPDF from 'jspdf';
+import { LABEL_PADDING, LabelAsset, LabelTemplate, PAGE_SIZES, getLabelSheet, labelLines, labelPositions } from './assetLabels';
+
+/**
+ * PDF sheet of labels; qrImages holds a PNG data URL per asset id
+ */
+export function buildLabelPdf(assets: LabelAsset[], template: LabelTemplate, qrImages: Record<string, string>): jsPDF {
+  const sheet = getLabelSheet(template.sheetId);
+  const pdf = new jsPDF({ unit: 'mm', format: PAGE_SIZES[sheet.page], orientation: 'portrait' });
+  const positions = labelPositions(assets.length, sheet);
+
+  const codeSize = sheet.height - LABEL_PADDING * 2;
+  const textWidth = sheet.width - codeSize - LABEL_PADDING * 3;
+  const fontSize = Math.max(6, Math.min(10, sheet.height / 4.5));
+  const lineHeight = fontSize * 0.3528 * 1.25;
+  const logoHeight = template.logo ? Math.min(8, sheet.height / 4) : 0;
+
+  assets.forEach((asset, index) => {
+    const { page, x, y } = positions[index];
+    if (page > 0 && positions[index - 1].page !== page) {
+      pdf.addPage();
+    }
+
+    if (template.outline) {
+      pdf.setDrawColor(200);
+      pdf.setLineWidth(0.1);
+      pdf.rect(x, y, sheet.width, sheet.height);
+    }
+
+    const qr = qrImages[asset.id];
+    if (qr) {
+      pdf.addImage(qr, 'PNG', x + LABEL_PADDING, y + LABEL_PADDING, codeSize, codeSize);
+    }
+
+    const textX = x + codeSize + LABEL_PADDING * 2;
+    let textY = y + LABEL_PADDING;
+    if (template.logo) {
+      const props = pdf.getImageProperties(template.logo);
+      const logoWidth = Math.min(textWidth, (props.width / props.height) * logoHeight);
+      pdf.addImage(template.logo, props.fileType, textX, textY, logoWidth, logoHeight);
+      textY += logoHeight + 1;
+    }
+
+    const maxLines = Math.floor((y + sheet.height - LABEL_PADDING - textY) / lineHeight);
+    let printed = 0;
+    labelLines(asset, template.fields).forEach((line, lineIndex) => {
+      pdf.setFont('helvetica', lineIndex === 0 ? 'bold' : 'normal');
+      pdf.setFontSize(lineIndex === 0 ? fontSize : fontSize * 0.85);
+      (pdf.splitTextToSize(line, textWidth) as string[]).forEach(part => {
+        if (printed >= maxLines) return;
+        pdf.text(part, textX, textY + printed * lineHeight, { baseline: 'top' });
+        printed += 1;
+      });
+    });
+  });
+
+  return pdf;
+}
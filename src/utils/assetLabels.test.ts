@@ -0,0 +1,45 @@
+import { assetLink, getLabelSheet, labelLines, labelPositions, parseAssetLink } from './assetLabels';
+
+describe('assetLink', () => {
+  it('links to the asset workspace and reads back the id', () => {
+    const link = assetLink('asset 1/a', 'https://app.example.com');
+
+    expect(link).toBe('https://app.example.com/?workspace=asset-manager/asset-form&id=asset%201%2Fa');
+    expect(parseAssetLink(link)).toBe('asset 1/a');
+    expect(parseAssetLink(assetLink('asset_2', 'https://app.example.com', '/?workspace=assets/view&id={id}'))).toBe('asset_2');
+  });
+
+  it('ignores values that are not asset links', () => {
+    expect(parseAssetLink('P-100')).toBeNull();
+    expect(parseAssetLink('https://example.com/manual.pdf')).toBeNull();
+  });
+});
+
+describe('labelPositions', () => {
+  it('fills each sheet row by row and starts a new page when full', () => {
+    const sheet = getLabelSheet('a4-3x7');
+    const positions = labelPositions(23, sheet);
+
+    expect(positions[0]).toEqual({ page: 0, x: 7.2, y: 15.15 });
+    expect(positions[1]).toEqual({ page: 0, x: 7.2 + 63.5 + 2.5, y: 15.15 });
+    expect(positions[3]).toEqual({ page: 0, x: 7.2, y: 15.15 + 38.1 });
+    expect(positions[21]).toEqual({ page: 1, x: 7.2, y: 15.15 });
+    expect(positions[22].page).toBe(1);
+  });
+
+  it('falls back to the first sheet for an unknown id', () => {
+    expect(getLabelSheet('unknown').id).toBe('a4-3x7');
+  });
+});
+
+describe('labelLines', () => {
+  it('prints the first field alone, labels the rest and skips empty ones', () => {
+    const asset = { id: 'asset_1', asset_tag: 'P-100', name: 'Feed Pump', serial_number: ' ', asset_type: 'Pump' };
+
+    expect(labelLines(asset, ['asset_tag', 'name', 'serial_number', 'asset_type'])).toEqual([
+      'P-100',
+      'Name: Feed Pump',
+      'Type: Pump'
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Asset Labels
+ *
+ * Print-ready PDF sheets of QR asset labels. Each code encodes a deep link to
+ * the asset's workspace (?workspace=asset-manager/asset-form&id=...), which
+ * QRCodeScannerWidget reads back with parseAssetLink. Sheet sizes follow
+ * common label stock; positions are in millimetres from the page corner.
+ * The PDF itself is drawn by assetLabelPdf.
+ */
+
+export interface LabelSheet {
+  id: string;
+  label: string;
+  page: 'a4' | 'letter';
+  /** Label size (mm) */
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  /** Page margins and gaps between labels (mm) */
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_SHEETS: LabelSheet[] = [
+  { id: 'a4-3x7', label: 'A4 · 63.5 × 38.1 mm · 21 per sheet (L7160)', page: 'a4', width: 63.5, height: 38.1, columns: 3, rows: 7, marginTop: 15.15, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+  { id: 'a4-2x7', label: 'A4 · 99.1 × 38.1 mm · 14 per sheet (L7163)', page: 'a4', width: 99.1, height: 38.1, columns: 2, rows: 7, marginTop: 15.15, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'a4-2x4', label: 'A4 · 99.1 × 67.7 mm · 8 per sheet (L7165)', page: 'a4', width: 99.1, height: 67.7, columns: 2, rows: 4, marginTop: 13.1, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'letter-3x10', label: 'Letter · 2 5/8 × 1 in · 30 per sheet (5160)', page: 'letter', width: 66.7, height: 25.4, columns: 3, rows: 10, marginTop: 12.7, marginLeft: 4.8, gapX: 3.2, gapY: 0 },
+  { id: 'letter-2x5', label: 'Letter · 4 × 2 in · 10 per sheet (5163)', page: 'letter', width: 101.6, height: 50.8, columns: 2, rows: 5, marginTop: 12.7, marginLeft: 4.0, gapX: 4.0, gapY: 0 }
+];
+
+export const LABEL_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'asset_tag', label: 'Tag' },
+  { key: 'name', label: 'Name' },
+  { key: 'asset_type', label: 'Type' },
+  { key: 'serial_number', label: 'Serial No.' },
+  { key: 'manufacturer', label: 'Manufacturer' },
+  { key: 'location', label: 'Location' }
+];
+
+export interface LabelTemplate {
+  sheetId: string;
+  /** Asset fields printed next to the code, in order */
+  fields: string[];
+  /** Logo image (data URL) printed above the fields */
+  logo?: string | null;
+  /** Thin outline around each label, as a cutting guide */
+  outline?: boolean;
+}
+
+export const DEFAULT_LABEL_TEMPLATE: LabelTemplate = {
+  sheetId: 'a4-3x7',
+  fields: ['asset_tag', 'name'],
+  logo: null,
+  outline: false
+};
+
+export const ASSET_LINK_TEMPLATE = '/?workspace=asset-manager/asset-form&id={id}';
+
+/**
+ * At most this many labels per PDF
+ */
+export const MAX_LABELS = 500;
+
+export const PAGE_SIZES: Record<LabelSheet['page'], [number, number]> = {
+  a4: [210, 297],
+  letter: [215.9, 279.4]
+};
+
+/**
+ * Space around the code and text inside a label (mm)
+ */
+export const LABEL_PADDING = 2.5;
+
+export interface LabelAsset {
+  id: string;
+  [key: string]: any;
+}
+
+export const getLabelSheet = (sheetId: string): LabelSheet =>
+  LABEL_SHEETS.find(sheet => sheet.id === sheetId) || LABEL_SHEETS[0];
+
+/**
+ * Absolute link to an asset's workspace
+ */
+export function assetLink(assetId: string, origin: string, template: string = ASSET_LINK_TEMPLATE): string {
+  return new URL(template.replace('{id}', encodeURIComponent(assetId)), origin).toString();
+}
+
+/**
+ * Asset id of a scanned label link, or null when the value is not one
+ */
+export function parseAssetLink(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  return url.searchParams.get('workspace') ? url.searchParams.get('id') : null;
+}
+
+/**
+ * Position of each label: sheet page (0-based) and top-left corner (mm)
+ */
+export function labelPositions(count: number, sheet: LabelSheet): Array<{ page: number; x: number; y: number }> {
+  const perPage = sheet.columns * sheet.rows;
+  return Array.from({ length: count }, (_, index) => {
+    const slot = index % perPage;
+    const column = slot % sheet.columns;
+    const row = Math.floor(slot / sheet.columns);
+    return {
+      page: Math.floor(index / perPage),
+      x: sheet.marginLeft + column * (sheet.width + sheet.gapX),
+      y: sheet.marginTop + row * (sheet.height + sheet.gapY)
+    };
+  });
+}
+
+/**
+ * Text printed on an asset's label: the first field on its own, the rest as
+ * "Label: value"; empty fields are left out
+ */
+export function labelLines(asset: LabelAsset, fields: string[]): string[] {
+  return fields
+    .map((key, index) => {
+      const value = asset[key];
+      if (value === undefined || value === null || String(value).trim() === '') return null;
+      const text = String(value).trim();
+      if (index === 0) return text;
+      const field = LABEL_FIELDS.find(f => f.key === key);
+      return `${field ? field.label : key}: ${text}`;
+    })
+    .filter((line): line is string => line !== null);
+}
@@ -0,0 +1,165 @@
+/**
+ * Barcode Decoder
+ *
+ * Decodes QR, Code-128 and DataMatrix labels from camera frames and photos.
+ * The browser's Barcode Detection API is used where it supports the formats
+ * (Chrome and Edge on Android, macOS and ChromeOS, among others); elsewhere
+ * (Safari, Firefox, desktop Chrome on Windows and Linux) frames are drawn to
+ * a canvas and decoded with ZXing, which is loaded on first use. create()
+ * returns null only when neither can decode, and callers fall back to manual
+ * entry.
+ */
+
+export const DEFAULT_BARCODE_FORMATS = ['qr_code', 'code_128', 'data_matrix'];
+
+export interface ScannedCode {
+  value: string;
+  format: string;
+}
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+type BarcodeSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+interface BarcodeDetectorLike {
+  detect(source: BarcodeSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const getDetectorClass = (): BarcodeDetectorConstructor | undefined =>
+  typeof window !== 'undefined' ? (window as any).BarcodeDetector : undefined;
+
+/**
+ * First barcode with a value, trimmed
+ */
+export function firstCode(results: DetectedBarcode[]): ScannedCode | null {
+  const found = results.find(result => result.rawValue && result.rawValue.trim());
+  return found ? { value: found.rawValue.trim(), format: found.format } : null;
+}
+
+/**
+ * Width and height of a frame, photo or bitmap in pixels
+ */
+const sourceSize = (source: BarcodeSource): { width: number; height: number } => {
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  return { width: source.width, height: source.height };
+};
+
+const canvasAvailable = () => {
+  try {
+    return typeof document !== 'undefined' && !!document.createElement('canvas').getContext('2d');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * ZXing behind the BarcodeDetector interface; formats use the detector's
+ * names (qr_code, code_128, data_matrix)
+ */
+async function createZxingDetector(formats: string[]): Promise<{ detector: BarcodeDetectorLike; formats: string[] } | null> {
+  if (!canvasAvailable()) return null;
+
+  const [{ BrowserMultiFormatReader }, { BarcodeFormat, DecodeHintType }] = await Promise.all([
+    import('@zxing/browser'),
+    import('@zxing/library')
+  ]);
+  const usable = formats.filter(format => (BarcodeFormat as any)[format.toUpperCase()] !== undefined);
+  if (usable.length === 0) return null;
+
+  const hints = new Map<any, any>([
+    [DecodeHintType.POSSIBLE_FORMATS, usable.map(format => (BarcodeFormat as any)[format.toUpperCase()])],
+    [DecodeHintType.TRY_HARDER, true]
+  ]);
+  const reader = new BrowserMultiFormatReader(hints);
+  const canvas = document.createElement('canvas');
+
+  const detector: BarcodeDetectorLike = {
+    async detect(source) {
+      const { width, height } = sourceSize(source);
+      if (!width || !height) return [];
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')!.drawImage(source as CanvasImageSource, 0, 0, width, height);
+      try {
+        const result = reader.decodeFromCanvas(canvas);
+        return [{ rawValue: result.getText(), format: String(BarcodeFormat[result.getBarcodeFormat()]).toLowerCase() }];
+      } catch {
+        // ZXing throws when the frame holds no readable code
+        return [];
+      }
+    }
+  };
+  return { detector, formats: usable };
+}
+
+/**
+ * Photo as an image element, for browsers without createImageBitmap
+ */
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image'));
+    };
+    image.src = url;
+  });
+
+export class BarcodeDecoder {
+  private constructor(private detector: BarcodeDetectorLike, readonly formats: string[]) {}
+
+  /**
+   * Decoder for the requested formats: the browser's detector when it supports
+   * them, else ZXing; null when neither can decode here
+   */
+  static async create(formats: string[] = DEFAULT_BARCODE_FORMATS): Promise<BarcodeDecoder | null> {
+    const Detector = getDetectorClass();
+    const supported = Detector ? await Detector.getSupportedFormats().catch(() => [] as string[]) : [];
+    const native = formats.filter(format => supported.includes(format));
+    if (Detector && native.length === formats.length) {
+      return new BarcodeDecoder(new Detector({ formats: native }), native);
+    }
+
+    const zxing = await createZxingDetector(formats).catch(error => {
+      console.warn('ZXing barcode decoder unavailable:', error);
+      return null;
+    });
+    if (zxing) return new BarcodeDecoder(zxing.detector, zxing.formats);
+    // Without ZXing, the browser's detector still reads the formats it knows
+    return Detector && native.length > 0 ? new BarcodeDecoder(new Detector({ formats: native }), native) : null;
+  }
+
+  async decode(source: BarcodeSource): Promise<ScannedCode | null> {
+    return firstCode(await this.detector.detect(source));
+  }
+
+  async decodeFile(file: Blob): Promise<ScannedCode | null> {
+    if (typeof createImageBitmap === 'undefined') {
+      return this.decode(await loadImage(file));
+    }
+    const bitmap = await createImageBitmap(file);
+    try {
+      return await this.decode(bitmap);
+    } finally {
+      bitmap.close();
+    }
+  }
+}
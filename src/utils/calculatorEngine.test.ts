@@ -0,0 +1,85 @@
+/**
+ * Calculator Engine Tests
+ *
+ * Input validation, dependency-ordered formulas with units, and the report.
+ */
+
+import {
+  CalculatorExecutionMetadata,
+  formatCalculatorResultMarkdown,
+  isDeterministicCalculator,
+  runCalculator
+} from './calculatorEngine';
+
+describe('Calculator engine', () => {
+  const corrosion: CalculatorExecutionMetadata = {
+    mode: 'deterministic',
+    inputValidation: [
+      { field: 't_initial_mm', required: true, min: 0.1, max: 300, unit: 'mm' },
+      { field: 't_current_mm', required: true, min: 0, max: 300, unit: 'mm' },
+      { field: 'years_between', label: 'Years Between Readings', required: true, min: 0.1, unit: 'yr' }
+    ],
+    // Declared out of order on purpose: corrosion_rate depends on metal_loss
+    calculations: [
+      { id: 'corrosion_rate', label: 'Corrosion Rate', formula: '=metal_loss / years_between', unit: 'mm/yr', precision: 3 },
+      { id: 'metal_loss', label: 'Metal Loss', formula: '=t_initial_mm - t_current_mm', unit: 'mm', precision: 2 }
+    ],
+    outputs: [{ id: 'corrosion_rate' }]
+  };
+
+  test('evaluates calculations in dependency order and gives the same result every run', () => {
+    const data = { t_initial_mm: 12.7, t_current_mm: 11.05, years_between: 7 };
+    const result = runCalculator(corrosion, data, { t_initial_mm: 'Initial Thickness' });
+
+    expect(isDeterministicCalculator(corrosion)).toBe(true);
+    expect(result.valid).toBe(true);
+    expect(result.outputs).toEqual([{ id: 'corrosion_rate', label: 'Corrosion Rate', value: 0.236, unit: 'mm/yr' }]);
+    expect(result.steps.map(step => [step.id, step.value])).toEqual([
+      ['corrosion_rate', 0.236],
+      ['metal_loss', 1.65]
+    ]);
+    expect(result.steps[0].inputs.map(input => input.label)).toEqual(['Metal Loss', 'Years Between Readings']);
+    expect(result.steps[1].inputs[0]).toEqual({ field: 't_initial_mm', label: 'Initial Thickness', value: 12.7, unit: 'mm' });
+    expect(runCalculator(corrosion, data)).toEqual(runCalculator(corrosion, data));
+  });
+
+  test('reports missing and out-of-range inputs without calculating', () => {
+    const result = runCalculator(corrosion, { t_initial_mm: 400, years_between: '' });
+
+    expect(result.valid).toBe(false);
+    expect(result.steps).toEqual([]);
+    expect(result.issues).toEqual([
+      { field: 't_initial_mm', message: 't_initial_mm must be at most 300 mm' },
+      { field: 't_current_mm', message: 't_current_mm is required' },
+      { field: 'years_between', message: 'Years Between Readings is required' }
+    ]);
+  });
+
+  test('marks failed and cyclic calculations and lists formulas in the report', () => {
+    const result = runCalculator(
+      {
+        mode: 'deterministic',
+        calculations: [
+          { id: 'mixed', label: 'Mixed Units', formula: '=pressure + length' },
+          { id: 'downstream', formula: '=mixed * 2' },
+          { id: 'a', formula: '=b + 1' },
+          { id: 'b', formula: '=a + 1' }
+        ],
+        inputValidation: [
+          { field: 'pressure', unit: 'psi' },
+          { field: 'length', unit: 'in' }
+        ]
+      },
+      { pressure: 100, length: 2 }
+    );
+
+    expect(result.steps[0].error).toMatch(/Formula evaluation error/);
+    expect(result.steps[1].error).toBe('Depends on Mixed Units, which could not be calculated');
+    expect(result.steps[2].error).toMatch(/Circular formula reference/);
+    expect(result.outputs.every(output => output.value === null)).toBe(true);
+
+    const markdown = formatCalculatorResultMarkdown(result, 'Check');
+    expect(markdown).toContain('# Check');
+    expect(markdown).toContain('| Mixed Units | `=pressure + length` | pressure = 100 psi; length = 2 in |');
+  });
+});
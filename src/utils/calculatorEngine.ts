@@ -0,0 +1,285 @@
+/**
+ * Calculator Engine
+ *
+ * Deterministic execution of calculator metadata for DynamicCalculatorGadget.
+ * A calculator in "deterministic" mode declares its formulas, input ranges
+ * and output fields; values are computed by CommercialFormulaCalculator so
+ * the same inputs always give the same numbers. The AI step only adds a
+ * narrative on top of the computed values.
+ *
+ *   "mode": "deterministic",
+ *   "inputValidation": [
+ *     { "field": "t_initial_mm", "required": true, "min": 0.1, "max": 300, "unit": "mm" }
+ *   ],
+ *   "calculations": [
+ *     { "id": "metal_loss_mm", "label": "Metal Loss", "formula": "=t_initial_mm - t_current_mm", "unit": "mm" },
+ *     { "id": "corrosion_rate", "label": "Corrosion Rate", "formula": "=metal_loss_mm / years_between", "unit": "mm/yr", "precision": 3 }
+ *   ],
+ *   "outputs": [{ "id": "corrosion_rate" }],
+ *   "aiNarrative": { "enabled": true, "prompt": "Explain the corrosion rate for {asset_tag}." }
+ *
+ * Calculations may reference inputs and other calculations; they run in
+ * dependency order.
+ */
+
+import { CommercialFormulaCalculator, FormulaResult } from './CommercialFormulaCalculator';
+
+export type CalculatorMode = 'ai' | 'deterministic';
+
+export interface CalculatorInputRule {
+  field: string;
+  label?: string;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  /** Unit of the input; formulas convert between compatible units */
+  unit?: string;
+  /** Message shown instead of the generated one */
+  message?: string;
+}
+
+export interface CalculatorFormulaDefinition {
+  id: string;
+  label?: string;
+  formula: string;
+  /** Unit of the result; a result with another compatible unit is converted to it */
+  unit?: string;
+  /** Decimal places shown (the full value is used by later calculations) */
+  precision?: number;
+  description?: string;
+}
+
+export interface CalculatorOutputDefinition {
+  /** Calculation id */
+  id: string;
+  label?: string;
+  unit?: string;
+  precision?: number;
+}
+
+export interface CalculatorNarrativeConfig {
+  /** Whether the AI explanation is requested by default */
+  enabled?: boolean;
+  /** Prompt for the explanation; falls back to the calculator's aiPrompt */
+  prompt?: string;
+}
+
+export interface CalculatorExecutionMetadata {
+  mode?: CalculatorMode;
+  calculations?: CalculatorFormulaDefinition[];
+  inputValidation?: CalculatorInputRule[];
+  outputs?: CalculatorOutputDefinition[];
+  aiNarrative?: CalculatorNarrativeConfig;
+}
+
+export interface CalculatorInputIssue {
+  field: string;
+  message: string;
+}
+
+export interface CalculatorStepInput {
+  field: string;
+  label: string;
+  value: any;
+  unit?: string;
+}
+
+export interface CalculatorStep {
+  id: string;
+  label: string;
+  formula: string;
+  description?: string;
+  inputs: CalculatorStepInput[];
+  /** Rounded to the step precision; null when the formula failed */
+  value: number | string | boolean | null;
+  unit?: string;
+  error?: string;
+}
+
+export interface CalculatorOutputValue {
+  id: string;
+  label: string;
+  value: number | string | boolean | null;
+  unit?: string;
+}
+
+export interface CalculatorRunResult {
+  /** False when inputs failed validation; no calculations run then */
+  valid: boolean;
+  issues: CalculatorInputIssue[];
+  steps: CalculatorStep[];
+  outputs: CalculatorOutputValue[];
+  /** Inputs and unrounded calculation results */
+  values: Record<string, any>;
+}
+
+/**
+ * Outcome of one calculation: the formula result, or an error when an input
+ * calculation failed
+ */
+type StepResult = Pick<FormulaResult, 'error' | 'unit'> & { value: FormulaResult['value'] | null };
+
+const isBlank = (value: any) => value === undefined || value === null || value === '';
+
+export function isDeterministicCalculator(metadata: CalculatorExecutionMetadata | null | undefined): boolean {
+  return metadata?.mode === 'deterministic' && Array.isArray(metadata.calculations) && metadata.calculations.length > 0;
+}
+
+/**
+ * Check inputs against the declared required flags and ranges
+ */
+export function validateCalculatorInputs(
+  rules: CalculatorInputRule[] | undefined,
+  data: Record<string, any>,
+  labels: Record<string, string> = {}
+): CalculatorInputIssue[] {
+  const issues: CalculatorInputIssue[] = [];
+
+  (rules || []).forEach(rule => {
+    const label = rule.label || labels[rule.field] || rule.field;
+    const raw = data[rule.field];
+    const unit = rule.unit ? ` ${rule.unit}` : '';
+
+    if (isBlank(raw)) {
+      if (rule.required) issues.push({ field: rule.field, message: rule.message || `${label} is required` });
+      return;
+    }
+    if (rule.min === undefined && rule.max === undefined) return;
+
+    const value = Number(raw);
+    if (isNaN(value)) {
+      issues.push({ field: rule.field, message: rule.message || `${label} must be a number` });
+    } else if (rule.min !== undefined && value < rule.min) {
+      issues.push({ field: rule.field, message: rule.message || `${label} must be at least ${rule.min}${unit}` });
+    } else if (rule.max !== undefined && value > rule.max) {
+      issues.push({ field: rule.field, message: rule.message || `${label} must be at most ${rule.max}${unit}` });
+    }
+  });
+
+  return issues;
+}
+
+function round(value: any, precision?: number): any {
+  if (typeof value !== 'number' || precision === undefined) return value;
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Validate the inputs and evaluate every calculation in dependency order
+ */
+export function runCalculator(
+  metadata: CalculatorExecutionMetadata,
+  data: Record<string, any>,
+  labels: Record<string, string> = {}
+): CalculatorRunResult {
+  const calculations = metadata.calculations || [];
+  const issues = validateCalculatorInputs(metadata.inputValidation, data, labels);
+  if (issues.length > 0) {
+    return { valid: false, issues, steps: [], outputs: [], values: { ...data } };
+  }
+
+  const calculator = new CommercialFormulaCalculator();
+  const byId = new Map(calculations.map(calculation => [calculation.id, calculation]));
+  const fieldUnits: Record<string, string> = {};
+  const inputLabels: Record<string, string> = { ...labels };
+  (metadata.inputValidation || []).forEach(rule => {
+    if (rule.unit) fieldUnits[rule.field] = rule.unit;
+    if (rule.label) inputLabels[rule.field] = rule.label;
+  });
+
+  const graph = calculator.createDependencyGraph(
+    Object.fromEntries(calculations.map(calculation => [calculation.id, calculation.formula]))
+  );
+  const cycleErrors = graph.getCycleErrors();
+  const values: Record<string, any> = { ...data };
+  const stepsById = new Map<string, CalculatorStep>();
+
+  const describeInputs = (formula: string): CalculatorStepInput[] => {
+    const fields = Array.from(new Set(calculator.extractReferences(formula).fields.map(path => path.split('.')[0])));
+    return fields.map(field => ({
+      field,
+      label: byId.get(field)?.label || inputLabels[field] || field,
+      value: byId.has(field) ? stepsById.get(field)?.value ?? null : values[field] ?? null,
+      unit: fieldUnits[field]
+    }));
+  };
+
+  graph.order.forEach(id => {
+    const calculation = byId.get(id)!;
+    const inputs = describeInputs(calculation.formula);
+    const failedInput = inputs.find(input => byId.has(input.field) && stepsById.get(input.field)?.error);
+    const result: StepResult = failedInput
+      ? { value: null, error: `Depends on ${failedInput.label}, which could not be calculated` }
+      : calculator.evaluateWithContext(calculation.formula, { formData: values, fieldUnits }, calculation.unit);
+
+    const step: CalculatorStep = {
+      id,
+      label: calculation.label || id,
+      formula: calculation.formula,
+      description: calculation.description,
+      inputs,
+      value: result.error ? null : round(result.value, calculation.precision),
+      unit: calculation.unit || result.unit,
+      error: result.error
+    };
+    stepsById.set(id, step);
+    if (!result.error) {
+      values[id] = result.value;
+      if (step.unit) fieldUnits[id] = step.unit;
+    }
+  });
+
+  // Steps follow the declared order; cyclic calculations are reported, not run
+  const steps = calculations.map(
+    calculation =>
+      stepsById.get(calculation.id) || {
+        id: calculation.id,
+        label: calculation.label || calculation.id,
+        formula: calculation.formula,
+        description: calculation.description,
+        inputs: describeInputs(calculation.formula),
+        value: null,
+        unit: calculation.unit,
+        error: cycleErrors[calculation.id] || 'Calculation was not evaluated'
+      }
+  );
+
+  const outputDefinitions: CalculatorOutputDefinition[] =
+    metadata.outputs && metadata.outputs.length > 0 ? metadata.outputs : calculations.map(({ id }) => ({ id }));
+  const outputs = outputDefinitions.map(output => {
+    const step = stepsById.get(output.id) || steps.find(candidate => candidate.id === output.id);
+    const precision = output.precision ?? byId.get(output.id)?.precision;
+    return {
+      id: output.id,
+      label: output.label || step?.label || output.id,
+      value: step && !step.error ? round(values[output.id], precision) : null,
+      unit: output.unit || step?.unit
+    };
+  });
+
+  return { valid: true, issues: [], steps, outputs, values };
+}
+
+const formatValue = (value: any, unit?: string) =>
+  value === null || value === undefined || value === '' ? 'N/A' : `${value}${unit ? ` ${unit}` : ''}`;
+
+/**
+ * Markdown report of the computed outputs and the formulas behind them
+ */
+export function formatCalculatorResultMarkdown(result: CalculatorRunResult, title = 'Calculation Results'): string {
+  const escape = (text: string) => String(text).replace(/\|/g, '\\|');
+  const lines = [`# ${title}`, '', '## Results', '', '| Output | Value |', '| --- | --- |'];
+  result.outputs.forEach(output => {
+    lines.push(`| ${escape(output.label)} | **${escape(formatValue(output.value, output.unit))}** |`);
+  });
+
+  lines.push('', '## Calculations', '', '| Step | Formula | Inputs | Result |', '| --- | --- | --- | --- |');
+  result.steps.forEach(step => {
+    const inputs = step.inputs.map(input => `${input.label} = ${formatValue(input.value, input.unit)}`).join('; ');
+    const value = step.error ? `Error: ${step.error}` : formatValue(step.value, step.unit);
+    lines.push(`| ${escape(step.label)} | \`${escape(step.formula)}\` | ${escape(inputs || '—')} | ${escape(value)} |`);
+  });
+
+  return lines.join('\n');
+}
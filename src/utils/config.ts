@@ -7,8 +7,8 @@
 
 export interface AppConfig {
   openai: {
-    apiKey: string;
-    baseUrl: string;
+    // Provider key and base URL are held by the API gateway (/api/ai/gateway)
+    gatewayPath: string;
     timeout: number;
     retries: number;
   };
@@ -23,8 +23,7 @@ export interface AppConfig {
 const getConfig = (): AppConfig => {
   return {
     openai: {
-      apiKey: process.env.REACT_APP_OPENAI_API_KEY || '',
-      baseUrl: process.env.REACT_APP_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      gatewayPath: '/api/ai/gateway',
       timeout: parseInt(process.env.REACT_APP_OPENAI_TIMEOUT || '30000'),
       retries: parseInt(process.env.REACT_APP_OPENAI_RETRIES || '3'),
     },
@@ -42,8 +41,6 @@ export const config = getConfig();
 // OpenAI Configuration
 export const getOpenAIConfig = () => {
   return {
-    apiKey: process.env.REACT_APP_OPENAI_API_KEY || '',
-    baseUrl: process.env.REACT_APP_OPENAI_BASE_URL || 'https://api.openai.com/v1',
     timeout: 30000,
     retries: 3
   };
@@ -53,8 +50,8 @@ export const getOpenAIConfig = () => {
 export const validateConfig = (): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
   
-  if (!config.openai.apiKey) {
-    errors.push('OpenAI API key is not configured. Please set REACT_APP_OPENAI_API_KEY environment variable.');
+  if (!config.openai.gatewayPath) {
+    errors.push('AI gateway path is not configured.');
   }
   
   return {
@@ -67,8 +64,7 @@ export const validateConfig = (): { isValid: boolean; errors: string[] } => {
 export const getDevConfig = () => {
   if (config.app.environment === 'development') {
     return {
-      showApiKey: config.openai.apiKey ? `${config.openai.apiKey.substring(0, 8)}...` : 'Not set',
-      baseUrl: config.openai.baseUrl,
+      gatewayPath: config.openai.gatewayPath,
     };
   }
   return null;
@@ -0,0 +1,66 @@
+/**
+ * Workspace Filter Presets
+ *
+ * Named filter sets saved per user and workspace in localStorage.
+ * Presets are stored in their URL form (see filterUrlState) so applying one
+ * goes through the same validation as restoring a shared link.
+ */
+
+import type { FilterDefinition, WorkspaceFilters } from '../contexts/WorkspaceFilterContext';
+import { writeFiltersToSearch } from './filterUrlState';
+
+export interface FilterPreset {
+  name: string;
+  query: string;
+  savedAt: string;
+}
+
+const storageKey = (workspaceId: string, userId?: string) =>
+  `workspace-filter-presets:${userId || 'anonymous'}:${workspaceId}`;
+
+export function loadFilterPresets(workspaceId: string, userId?: string): FilterPreset[] {
+  try {
+    const stored = localStorage.getItem(storageKey(workspaceId, userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeFilterPresets(workspaceId: string, userId: string | undefined, presets: FilterPreset[]): void {
+  try {
+    localStorage.setItem(storageKey(workspaceId, userId), JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Failed to save filter presets to localStorage:', error);
+  }
+}
+
+/**
+ * Save (or replace) a named preset; returns the updated list
+ */
+export function saveFilterPreset(
+  workspaceId: string,
+  userId: string | undefined,
+  name: string,
+  filters: WorkspaceFilters,
+  definitions: FilterDefinition[]
+): FilterPreset[] {
+  const preset: FilterPreset = {
+    name,
+    query: writeFiltersToSearch('', filters, definitions),
+    savedAt: new Date().toISOString()
+  };
+  const presets = [
+    ...loadFilterPresets(workspaceId, userId).filter(existing => existing.name !== name),
+    preset
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  storeFilterPresets(workspaceId, userId, presets);
+  return presets;
+}
+
+export function deleteFilterPreset(workspaceId: string, userId: string | undefined, name: string): FilterPreset[] {
+  const presets = loadFilterPresets(workspaceId, userId).filter(preset => preset.name !== name);
+  storeFilterPresets(workspaceId, userId, presets);
+  return presets;
+}
@@ -0,0 +1,67 @@
+/**
+ * Filter URL State Tests
+ *
+ * Round-tripping workspace filters through the query string.
+ */
+
+import type { FilterDefinition } from '../contexts/WorkspaceFilterContext';
+import { orderByDependencies, readFiltersFromSearch, writeFiltersToSearch } from './filterUrlState';
+
+describe('Filter URL state', () => {
+  const definitions: FilterDefinition[] = [
+    { id: 'site', type: 'select', label: 'Site', optionsUrl: '/api/options/sites', dependsOn: 'company' },
+    { id: 'company', type: 'select', label: 'Company', optionsUrl: '/api/options/companies' },
+    {
+      id: 'status',
+      type: 'multiselect',
+      label: 'Status',
+      options: [
+        { label: 'Open', value: 'open' },
+        { label: 'Overdue', value: 'overdue' }
+      ]
+    },
+    { id: 'period', type: 'daterange', label: 'Period' },
+    { id: 'score', type: 'number', label: 'Score', validation: { min: 0, max: 100 } },
+    { id: 'priority', type: 'select', label: 'Priority', options: [{ label: 'High', value: 1 }, { label: 'Low', value: 2 }] }
+  ];
+
+  test('orders filters after the filters they depend on', () => {
+    expect(orderByDependencies(definitions).map(definition => definition.id).slice(0, 2)).toEqual(['company', 'site']);
+  });
+
+  test('round-trips every filter type', () => {
+    const filters = {
+      company: { value: 'c-1', operator: 'eq' as const },
+      site: { value: 's-9', operator: 'eq' as const },
+      status: { value: ['open', 'overdue'], operator: 'in' as const },
+      period: { value: ['2024-01-01', '2024-03-31'], operator: 'between' as const },
+      score: { value: [50, 80], operator: 'between' as const },
+      priority: { value: 1, operator: 'eq' as const, label: 'High' }
+    };
+
+    const search = writeFiltersToSearch('workspace=assets%2Foverview', filters, definitions);
+    expect(search).toBe(
+      'workspace=assets%2Foverview&f.company=c-1&f.site=s-9&f.status=open&f.status=overdue' +
+        '&f.period=2024-01-01..2024-03-31&f.score=50..80&f.priority=1'
+    );
+
+    const restored = readFiltersFromSearch(search, definitions);
+    expect(restored.issues).toEqual([]);
+    expect(restored.filters).toEqual(filters);
+  });
+
+  test('drops invalid values and orphaned dependents with a reason', () => {
+    const { filters, issues } = readFiltersFromSearch(
+      'f.site=s-9&f.status=open&f.status=closed&f.period=2024-02-30..2024-03-01&f.score=120',
+      definitions
+    );
+
+    expect(filters).toEqual({});
+    expect(issues.map(issue => [issue.filterId, issue.reason])).toEqual([
+      ['site', 'requires Company'],
+      ['status', 'unknown option closed'],
+      ['period', '"2024-02-30..2024-03-01" is not a date range (YYYY-MM-DD..YYYY-MM-DD)'],
+      ['score', '120 is above the maximum of 100']
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Workspace Filter URL State
+ *
+ * Serializes workspace filters to the query string and restores them, so a
+ * filtered workspace can be bookmarked, shared or survive a refresh.
+ *
+ * Each filter is stored as `f.<filterId>`:
+ * - select / text:  f.site=site-1
+ * - multiselect:    f.status=open&f.status=overdue
+ * - daterange:      f.period=2024-01-01..2024-03-31
+ * - number:         f.score=80 or a range f.score=50..80
+ *
+ * Restored values are checked against the filter definition (type, static
+ * options, validation) and dependent filters are only restored when the
+ * filters they depend on were restored too.
+ */
+
+import type { FilterDefinition, FilterValue, WorkspaceFilters } from '../contexts/WorkspaceFilterContext';
+
+export const FILTER_PARAM_PREFIX = 'f.';
+const RANGE_SEPARATOR = '..';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface FilterRestoreIssue {
+  filterId: string;
+  label: string;
+  value: string;
+  reason: string;
+}
+
+export interface FilterRestoreResult {
+  filters: WorkspaceFilters;
+  issues: FilterRestoreIssue[];
+}
+
+const paramName = (filterId: string) => `${FILTER_PARAM_PREFIX}${filterId}`;
+
+const toArray = (value?: string | string[]): string[] => (value ? (Array.isArray(value) ? value : [value]) : []);
+
+/**
+ * Filters this definition depends on (dependsOn and dependencies)
+ */
+export function getFilterDependencies(definition: FilterDefinition): string[] {
+  return Array.from(new Set([...toArray(definition.dependsOn), ...(definition.dependencies || [])]));
+}
+
+/**
+ * Definitions ordered so every filter comes after the filters it depends on.
+ * Filters in a dependency cycle keep their declared order at the end.
+ */
+export function orderByDependencies(definitions: FilterDefinition[]): FilterDefinition[] {
+  const byId = new Map(definitions.map(definition => [definition.id, definition]));
+  const ordered: FilterDefinition[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (definition: FilterDefinition): boolean => {
+    const current = state.get(definition.id);
+    if (current === 'done') return true;
+    if (current === 'visiting') return false;
+
+    state.set(definition.id, 'visiting');
+    const acyclic = getFilterDependencies(definition).every(id => {
+      const dependency = byId.get(id);
+      return !dependency || visit(dependency);
+    });
+    if (!acyclic) {
+      state.delete(definition.id);
+      return false;
+    }
+    state.set(definition.id, 'done');
+    ordered.push(definition);
+    return true;
+  };
+
+  definitions.forEach(visit);
+  return [...ordered, ...definitions.filter(definition => state.get(definition.id) !== 'done')];
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function checkNumber(definition: FilterDefinition, raw: string): number | string {
+  const value = Number(raw);
+  if (raw.trim() === '' || !isFinite(value)) return `"${raw}" is not a number`;
+  const { min, max } = definition.validation || {};
+  if (min !== undefined && value < min) return `${value} is below the minimum of ${min}`;
+  if (max !== undefined && value > max) return `${value} is above the maximum of ${max}`;
+  return value;
+}
+
+function findOption(definition: FilterDefinition, raw: string) {
+  return definition.options?.find(option => String(option.value) === raw);
+}
+
+/**
+ * Parse one filter's raw query values; returns the filter value or a reason it is invalid
+ */
+function parseFilterValue(definition: FilterDefinition, values: string[]): FilterValue | string {
+  const [raw] = values;
+
+  switch (definition.type) {
+    case 'multiselect': {
+      const items = values.filter(item => item !== '');
+      if (items.length === 0) return 'no values selected';
+      if (!definition.options?.length) return { value: items, operator: 'in' };
+
+      const unknown = items.filter(item => !findOption(definition, item));
+      if (unknown.length > 0) return `unknown option${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}`;
+      return { value: items.map(item => findOption(definition, item)!.value), operator: 'in' };
+    }
+
+    case 'select': {
+      if (!definition.options?.length) return { value: raw, operator: 'eq' };
+      const option = findOption(definition, raw);
+      return option ? { value: option.value, operator: 'eq', label: option.label } : `unknown option ${raw}`;
+    }
+
+    case 'daterange': {
+      const [start, end] = raw.split(RANGE_SEPARATOR);
+      if (!start || !end || !isValidDate(start) || !isValidDate(end)) {
+        return `"${raw}" is not a date range (YYYY-MM-DD..YYYY-MM-DD)`;
+      }
+      if (start > end) return 'start date is after end date';
+      return { value: [start, end], operator: 'between' };
+    }
+
+    case 'number': {
+      if (raw.includes(RANGE_SEPARATOR)) {
+        const bounds = raw.split(RANGE_SEPARATOR).map(bound => checkNumber(definition, bound));
+        const invalid = bounds.find(bound => typeof bound === 'string');
+        if (invalid !== undefined) return invalid as string;
+        if ((bounds[0] as number) > (bounds[1] as number)) return 'range start is above range end';
+        return { value: bounds, operator: 'between' };
+      }
+      const value = checkNumber(definition, raw);
+      return typeof value === 'string' ? value : { value, operator: 'eq' };
+    }
+
+    case 'text':
+    default: {
+      if (definition.validation?.pattern && !new RegExp(definition.validation.pattern).test(raw)) {
+        return `"${raw}" does not match the expected format`;
+      }
+      return { value: raw, operator: 'eq' };
+    }
+  }
+}
+
+/**
+ * Query values for one filter, or an empty list when the filter has no value
+ */
+export function serializeFilterValue(definition: FilterDefinition, filter?: FilterValue): string[] {
+  const value = filter?.value;
+  if (value === undefined || value === null || value === '') return [];
+
+  if (definition.type === 'multiselect') {
+    return toArray(value).map(String);
+  }
+  if (Array.isArray(value)) {
+    return value.length === 2 ? [`${value[0]}${RANGE_SEPARATOR}${value[1]}`] : [];
+  }
+  return [String(value)];
+}
+
+/**
+ * Write filters into a query string, keeping unrelated parameters
+ */
+export function writeFiltersToSearch(
+  search: string,
+  filters: WorkspaceFilters,
+  definitions: FilterDefinition[]
+): string {
+  const params = new URLSearchParams(search);
+  Array.from(params.keys())
+    .filter(key => key.startsWith(FILTER_PARAM_PREFIX))
+    .forEach(key => params.delete(key));
+
+  orderByDependencies(definitions).forEach(definition => {
+    serializeFilterValue(definition, filters[definition.id]).forEach(value => {
+      params.append(paramName(definition.id), value);
+    });
+  });
+
+  return params.toString();
+}
+
+/**
+ * Restore filters from a query string.
+ * Invalid values and dependents of missing filters are dropped and reported.
+ */
+export function readFiltersFromSearch(search: string, definitions: FilterDefinition[]): FilterRestoreResult {
+  const params = new URLSearchParams(search);
+  const filters: WorkspaceFilters = {};
+  const issues: FilterRestoreIssue[] = [];
+
+  orderByDependencies(definitions).forEach(definition => {
+    const values = params.getAll(paramName(definition.id));
+    if (values.length === 0) return;
+
+    const issue = (reason: string) =>
+      issues.push({ filterId: definition.id, label: definition.label, value: values.join(', '), reason });
+
+    const missing = getFilterDependencies(definition).filter(id => !filters[id]);
+    if (missing.length > 0) {
+      const labels = missing.map(id => definitions.find(candidate => candidate.id === id)?.label || id);
+      issue(`requires ${labels.join(', ')}`);
+      return;
+    }
+
+    const parsed = parseFilterValue(definition, values);
+    if (typeof parsed === 'string') {
+      issue(parsed);
+    } else {
+      filters[definition.id] = parsed;
+    }
+  });
+
+  return { filters, issues };
+}
+
+/**
+ * Whether the query string carries any workspace filter parameters
+ */
+export function hasFilterParams(search: string): boolean {
+  return Array.from(new URLSearchParams(search).keys()).some(key => key.startsWith(FILTER_PARAM_PREFIX));
+}
+
+/**
+ * Human-readable notice for dropped filter values
+ */
+export function describeRestoreIssues(issues: FilterRestoreIssue[]): string {
+  return `Some filters could not be restored: ${issues
+    .map(issue => `${issue.label} (${issue.reason})`)
+    .join('; ')}`;
+}
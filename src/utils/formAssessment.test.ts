@@ -0,0 +1,95 @@
+/**
+ * Form Assessment Tests
+ *
+ * Weighted scoring, thresholds, overrides and rule-based default values.
+ */
+
+import {
+  AssessmentConfig,
+  collectAutomaticUpdates,
+  describeAssessment,
+  evaluateAssessment,
+  resolveDefaultValue
+} from './formAssessment';
+
+describe('Form assessment', () => {
+  const config: AssessmentConfig = {
+    outcomeField: 'overall-assessment',
+    minCompleteness: 0.5,
+    criteria: [
+      { field: 'defects-found', weight: 3, scores: { no: 100, minor: 75, yes: 40 } },
+      { field: 'critical-findings', weight: 2, scores: { no: 100, yes: 0 } },
+      {
+        field: 'remaining-life-years',
+        weight: 1,
+        ranges: [{ min: 10, score: 100 }, { min: 2, score: 50 }, { score: 0 }]
+      }
+    ],
+    thresholds: [
+      { minScore: 0, outcome: 'repair-required', level: 'reject' },
+      { minScore: 90, outcome: 'acceptable', level: 'acceptable', label: 'Acceptable' },
+      { minScore: 60, outcome: 'conditional', level: 'conditional' }
+    ],
+    overrides: [{ when: { field: 'critical-findings', op: 'eq', value: 'yes' }, outcome: 'repair-required' }]
+  };
+
+  test('maps the weighted score of answered criteria to the highest matching threshold', () => {
+    const result = evaluateAssessment(config, { 'defects-found': 'minor', 'critical-findings': 'no', 'remaining-life-years': '4' });
+
+    expect(result.score).toBe(79.2);
+    expect(result.completeness).toBe(1);
+    expect(result).toMatchObject({ outcome: 'conditional', level: 'conditional', overridden: false });
+    expect(result.breakdown.map(item => item.score)).toEqual([75, 100, 50]);
+
+    expect(evaluateAssessment(config, { 'defects-found': 'no', 'critical-findings': 'no' })).toMatchObject({
+      score: 100,
+      outcome: 'acceptable',
+      label: 'Acceptable'
+    });
+  });
+
+  test('withholds the outcome below the minimum completeness unless an override applies', () => {
+    const partial = evaluateAssessment(config, { 'remaining-life-years': 25 });
+    expect(partial.score).toBe(100);
+    expect(partial.outcome).toBeUndefined();
+
+    expect(evaluateAssessment(config, {}).score).toBeNull();
+    expect(evaluateAssessment(config, { 'critical-findings': 'yes' })).toMatchObject({
+      outcome: 'repair-required',
+      level: 'reject',
+      overridden: true
+    });
+  });
+
+  test('resolves the first matching default rule, including relative dates', () => {
+    const rules = [
+      { when: { field: 'overall-assessment', op: 'eq' as const, value: 'acceptable' }, value: '5-years' },
+      { when: { field: 'overall-assessment', op: 'in' as const, value: ['conditional', 'repair-required'] }, value: '1-year' }
+    ];
+    expect(resolveDefaultValue(rules, { 'overall-assessment': 'repair-required' })).toBe('1-year');
+    expect(resolveDefaultValue(rules, {})).toBeUndefined();
+    expect(resolveDefaultValue([...rules, { value: 'as-required' }], {})).toBe('as-required');
+
+    const calibration = [{ when: { field: 'equipment-used', op: 'contains' as const, value: 'ut-gauge' }, date: 'today+6m' }];
+    const expected = new Date();
+    expected.setMonth(expected.getMonth() + 6);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    expect(resolveDefaultValue(calibration, { 'equipment-used': ['ut-gauge'] })).toBe(
+      `${expected.getFullYear()}-${pad(expected.getMonth() + 1)}-${pad(expected.getDate())}`
+    );
+  });
+
+  test('summarises the result and keeps values the user entered over computed ones', () => {
+    expect(describeAssessment(evaluateAssessment(config, { 'defects-found': 'no', 'critical-findings': 'no' }))).toBe(
+      'Score 100/100 · suggests Acceptable · 2 of 3 criteria answered'
+    );
+    expect(describeAssessment(evaluateAssessment(config, {}))).toBeNull();
+
+    const autoValues: Record<string, any> = {};
+    expect(collectAutomaticUpdates({ outcome: 'acceptable' }, {}, autoValues)).toEqual({ outcome: 'acceptable' });
+    expect(collectAutomaticUpdates({ outcome: 'conditional' }, { outcome: 'acceptable' }, autoValues)).toEqual({
+      outcome: 'conditional'
+    });
+    expect(collectAutomaticUpdates({ outcome: 'acceptable' }, { outcome: 'repair-required' }, autoValues)).toEqual({});
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Form Assessment
+ *
+ * Metadata-driven scoring, outcomes and default values for inspection forms,
+ * so each template declares its own assessment instead of FormRenderer
+ * hardcoding one.
+ *
+ * A document form gadget config declares an assessment:
+ *
+ *   "assessment": {
+ *     "outcomeField": "overall-assessment",
+ *     "criteria": [
+ *       { "field": "defects-found", "weight": 3, "scores": { "no": 100, "minor": 70, "yes": 30 } },
+ *       { "field": "remaining-life-years", "weight": 2, "ranges": [{ "min": 10, "score": 100 }, { "min": 4, "score": 60 }, { "score": 20 }] }
+ *     ],
+ *     "thresholds": [
+ *       { "minScore": 80, "outcome": "acceptable", "level": "acceptable" },
+ *       { "minScore": 50, "outcome": "conditional", "level": "conditional" },
+ *       { "minScore": 0, "outcome": "repair-required", "level": "reject" }
+ *     ],
+ *     "overrides": [{ "when": { "field": "critical-findings", "op": "eq", "value": "yes" }, "outcome": "repair-required" }]
+ *   }
+ *
+ * The score is the weighted average (0-100) of the answered criteria.
+ * Fields declare default values with `defaultRules`; the first matching rule wins:
+ *
+ *   "defaultRules": [
+ *     { "when": { "field": "overall-assessment", "op": "eq", "value": "acceptable" }, "value": "5-years" },
+ *     { "when": { "field": "overall-assessment", "op": "eq", "value": "conditional" }, "value": "1-year" }
+ *   ]
+ *
+ * A rule may set `date` ("today", "today+6m") instead of `value` for date fields.
+ */
+
+import { evaluateFormRule, FormRule, getFieldValue, resolveRelativeDate } from './formRules';
+
+export type AssessmentLevel = 'acceptable' | 'conditional' | 'reject';
+
+export interface DefaultValueRule {
+  /** Condition for this default; a rule without one always applies */
+  when?: FormRule;
+  value?: any;
+  /** Relative date expression, e.g. "today" or "today+1y" (yyyy-mm-dd result) */
+  date?: string;
+}
+
+export interface AssessmentCriterion {
+  field: string;
+  label?: string;
+  /** Relative weight (default 1) */
+  weight?: number;
+  /** Score (0-100) per field value */
+  scores?: Record<string, number>;
+  /** Score for numeric values; the first range containing the value wins */
+  ranges?: Array<{ min?: number; max?: number; score: number }>;
+  /** Score when a rule holds; checked after scores and ranges */
+  rules?: Array<{ when: FormRule; score: number }>;
+}
+
+export interface AssessmentThreshold {
+  /** Lowest score (inclusive) for this outcome */
+  minScore: number;
+  /** Outcome value, written to outcomeField */
+  outcome: string;
+  level?: AssessmentLevel;
+  label?: string;
+}
+
+export interface AssessmentOverride {
+  when: FormRule;
+  outcome: string;
+}
+
+export interface AssessmentConfig {
+  title?: string;
+  criteria: AssessmentCriterion[];
+  thresholds: AssessmentThreshold[];
+  /** Outcomes forced by a condition regardless of the score; the first match wins */
+  overrides?: AssessmentOverride[];
+  /** Field that receives the outcome (until the user picks another value) */
+  outcomeField?: string;
+  /** Field that receives the score */
+  scoreField?: string;
+  /** Share of the total weight (0-1) that must be answered before an outcome is given */
+  minCompleteness?: number;
+}
+
+export interface CriterionResult {
+  field: string;
+  label: string;
+  weight: number;
+  /** null when the criterion is unanswered or has no matching score */
+  score: number | null;
+}
+
+export interface AssessmentResult {
+  /** Weighted score (0-100), null when no criterion is answered */
+  score: number | null;
+  /** Answered share of the total weight (0-1) */
+  completeness: number;
+  outcome?: string;
+  level?: AssessmentLevel;
+  label?: string;
+  /** Whether the outcome comes from an override rather than the score */
+  overridden: boolean;
+  breakdown: CriterionResult[];
+}
+
+const isBlank = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Default value of a field from its rules; undefined when no rule applies
+ */
+export function resolveDefaultValue(rules: DefaultValueRule[] | undefined, data: Record<string, any>): any {
+  const rule = (rules || []).find(candidate => !candidate.when || evaluateFormRule(candidate.when, data));
+  if (!rule) return undefined;
+
+  if (rule.date !== undefined) {
+    const date = resolveRelativeDate(rule.date);
+    if (!date) {
+      console.warn(`[formAssessment] Invalid default date expression "${rule.date}"`);
+      return undefined;
+    }
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  return rule.value;
+}
+
+function scoreCriterion(criterion: AssessmentCriterion, data: Record<string, any>): number | null {
+  const value = getFieldValue(data, criterion.field);
+  if (isBlank(value)) return null;
+
+  if (criterion.scores && String(value) in criterion.scores) {
+    return criterion.scores[String(value)];
+  }
+  if (criterion.ranges) {
+    const number = Number(value);
+    const range = isNaN(number)
+      ? undefined
+      : criterion.ranges.find(
+          candidate =>
+            (candidate.min === undefined || number >= candidate.min) &&
+            (candidate.max === undefined || number <= candidate.max)
+        );
+    if (range) return range.score;
+  }
+  const rule = criterion.rules?.find(candidate => evaluateFormRule(candidate.when, data));
+  return rule ? rule.score : null;
+}
+
+/**
+ * Score the form data and map the score (or an override) to an outcome
+ */
+export function evaluateAssessment(config: AssessmentConfig, data: Record<string, any>): AssessmentResult {
+  const breakdown: CriterionResult[] = config.criteria.map(criterion => ({
+    field: criterion.field,
+    label: criterion.label || criterion.field,
+    weight: criterion.weight ?? 1,
+    score: scoreCriterion(criterion, data)
+  }));
+
+  const totalWeight = breakdown.reduce((sum, item) => sum + item.weight, 0);
+  const answered = breakdown.filter(item => item.score !== null);
+  const answeredWeight = answered.reduce((sum, item) => sum + item.weight, 0);
+  const completeness = totalWeight > 0 ? answeredWeight / totalWeight : 0;
+  const score =
+    answeredWeight > 0
+      ? Math.round((answered.reduce((sum, item) => sum + item.weight * item.score!, 0) / answeredWeight) * 10) / 10
+      : null;
+
+  const thresholds = [...config.thresholds].sort((a, b) => b.minScore - a.minScore);
+  const describe = (outcome: string) => thresholds.find(threshold => threshold.outcome === outcome);
+
+  const override = config.overrides?.find(candidate => evaluateFormRule(candidate.when, data));
+  if (override) {
+    const threshold = describe(override.outcome);
+    return {
+      score,
+      completeness,
+      outcome: override.outcome,
+      level: threshold?.level,
+      label: threshold?.label,
+      overridden: true,
+      breakdown
+    };
+  }
+
+  if (score === null || completeness < (config.minCompleteness ?? 0)) {
+    return { score, completeness, overridden: false, breakdown };
+  }
+
+  const threshold = thresholds.find(candidate => score >= candidate.minScore);
+  return {
+    score,
+    completeness,
+    outcome: threshold?.outcome,
+    level: threshold?.level,
+    label: threshold?.label,
+    overridden: false,
+    breakdown
+  };
+}
+
+/**
+ * One-line summary shown under the outcome field; null while nothing is scored
+ */
+export function describeAssessment(result: AssessmentResult | null): string | null {
+  if (!result || (result.score === null && !result.overridden)) return null;
+
+  const answered = result.breakdown.filter(item => item.score !== null).length;
+  const suggestion = result.outcome
+    ? ` · suggests ${result.label || result.outcome}${result.overridden ? ' (override)' : ''}`
+    : '';
+  const score = result.score !== null ? `Score ${result.score}/100` : 'Not scored';
+  return `${score}${suggestion} · ${answered} of ${result.breakdown.length} criteria answered`;
+}
+
+/**
+ * Computed values to write: a field takes its computed value while it is
+ * empty or still holds the value computed last time (tracked in autoValues),
+ * so a value the user entered is kept
+ */
+export function collectAutomaticUpdates(
+  values: Record<string, any>,
+  data: Record<string, any>,
+  autoValues: Record<string, any>
+): Record<string, any> {
+  const updates: Record<string, any> = {};
+  Object.entries(values).forEach(([field, value]) => {
+    if (value === undefined || value === null) return;
+    const current = data[field];
+    const isAutomatic = current === undefined || current === null || current === '' || current === autoValues[field];
+    if (!isAutomatic) return;
+
+    autoValues[field] = value;
+    if (current !== value) {
+      updates[field] = value;
+    }
+  });
+  return updates;
+}
@@ -0,0 +1,77 @@
+/**
+ * Form Rules Tests
+ *
+ * visibleWhen / requiredWhen / readOnlyWhen evaluation and dependency tracking.
+ */
+
+import {
+  buildRuleDependencies,
+  evaluateFormRule,
+  FormRule,
+  isFieldReadOnly,
+  isFieldRequired,
+  isFormItemVisible
+} from './formRules';
+
+describe('Form rules', () => {
+  const confinedSpaceLowOxygen: FormRule = {
+    all: [
+      { field: 'permit-type', op: 'eq', value: 'confined-space' },
+      { field: 'atmospheric-o2', op: 'lt', value: 19.5 }
+    ]
+  };
+
+  test('combines numeric comparisons with all / any / not', () => {
+    expect(evaluateFormRule(confinedSpaceLowOxygen, { 'permit-type': 'confined-space', 'atmospheric-o2': '18.9' })).toBe(true);
+    expect(evaluateFormRule(confinedSpaceLowOxygen, { 'permit-type': 'confined-space', 'atmospheric-o2': 20.9 })).toBe(false);
+    expect(evaluateFormRule(confinedSpaceLowOxygen, { 'permit-type': 'confined-space' })).toBe(false);
+
+    const anyFailed: FormRule = {
+      any: ['finding-shell', 'finding-heads'].map(field => ({ field, op: 'eq' as const, value: 'fail' }))
+    };
+    expect(evaluateFormRule(anyFailed, { 'finding-shell': 'pass', 'finding-heads': 'fail' })).toBe(true);
+    expect(evaluateFormRule({ not: anyFailed }, { 'finding-shell': 'pass' })).toBe(true);
+    expect(evaluateFormRule({ field: 'thickness', op: 'between', value: [5, 10] }, { thickness: 10 })).toBe(true);
+  });
+
+  test('compares dates by calendar day, relative to today or another field', () => {
+    const data = { 'last-inspection': '2020-05-01', 'next-inspection': '2020-05-01', 'permit-expiry': new Date(2000, 0, 1) };
+
+    expect(evaluateFormRule({ field: 'permit-expiry', op: 'before', value: 'today' }, data)).toBe(true);
+    expect(evaluateFormRule({ field: 'last-inspection', op: 'after', value: 'today-1y' }, data)).toBe(false);
+    expect(evaluateFormRule({ field: 'next-inspection', op: 'onOrAfter', valueField: 'last-inspection' }, data)).toBe(true);
+    expect(evaluateFormRule({ field: 'next-inspection', op: 'after', valueField: 'last-inspection' }, data)).toBe(false);
+  });
+
+  test('evaluates empty checks, lists and the legacy watchField / showWhen', () => {
+    expect(evaluateFormRule({ field: 'remarks', op: 'empty' }, { remarks: '  ' })).toBe(true);
+    expect(evaluateFormRule({ field: 'ppe', op: 'contains', value: 'respirator' }, { ppe: ['gloves', 'respirator'] })).toBe(true);
+    expect(evaluateFormRule({ field: 'scope', op: 'in', value: 'internal, external' }, { scope: 'external' })).toBe(true);
+
+    const legacy = { watchField: 'entry-type', showWhen: 'confined-space,internal', showOnMatch: false };
+    expect(isFormItemVisible(legacy, { 'entry-type': 'internal' })).toBe(false);
+    expect(isFormItemVisible(legacy, { 'entry-type': 'external' })).toBe(true);
+    expect(isFormItemVisible({ ...legacy, visibleWhen: { field: 'entry-type', op: 'notEmpty' } }, { 'entry-type': 'internal' })).toBe(true);
+  });
+
+  test('resolves required and read-only state and maps dependencies', () => {
+    const configs = {
+      'repair-plan': { requiredWhen: { field: 'assessment', op: 'eq' as const, value: 'repair' } },
+      'inspector-signature': { readOnlyWhen: { field: 'status', op: 'in' as const, value: ['approved', 'closed'] } },
+      'gas-remarks': { visibleWhen: confinedSpaceLowOxygen },
+      'ventilation-notes': { watchField: 'permit-type', showWhen: 'confined-space' }
+    };
+
+    expect(isFieldRequired(configs['repair-plan'], { assessment: 'repair' })).toBe(true);
+    expect(isFieldRequired({ ...configs['repair-plan'], required: true }, {})).toBe(true);
+    expect(isFieldReadOnly(configs['inspector-signature'], { status: 'draft' })).toBe(false);
+    expect(isFieldReadOnly(configs['inspector-signature'], { status: 'closed' })).toBe(true);
+
+    expect(buildRuleDependencies(configs)).toEqual({
+      assessment: ['repair-plan'],
+      status: ['inspector-signature'],
+      'permit-type': ['gas-remarks', 'ventilation-notes'],
+      'atmospheric-o2': ['gas-remarks']
+    });
+  });
+});
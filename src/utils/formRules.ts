@@ -0,0 +1,297 @@
+/**
+ * Form Rules
+ *
+ * Declarative conditions for form sections, groups and fields. A rule is a
+ * field comparison or a combination of rules:
+ *
+ *   "visibleWhen": {
+ *     "all": [
+ *       { "field": "permit-type", "op": "eq", "value": "confined-space" },
+ *       { "field": "atmospheric-o2", "op": "lt", "value": 19.5 }
+ *     ]
+ *   },
+ *   "requiredWhen": {
+ *     "any": [
+ *       { "field": "finding-shell", "op": "eq", "value": "fail" },
+ *       { "field": "finding-nozzles", "op": "eq", "value": "fail" }
+ *     ]
+ *   },
+ *   "readOnlyWhen": { "not": { "field": "status", "op": "in", "value": ["draft", "returned"] } }
+ *
+ * Operators:
+ * - eq / neq, in / notIn (array or comma-separated list), contains
+ * - gt / gte / lt / lte / between ([min, max], inclusive) on numbers
+ * - before / after / onOrBefore / onOrAfter on dates (day granularity);
+ *   the value may be "today" or relative like "today-30d" (d, w, m, y)
+ * - empty / notEmpty
+ *
+ * Instead of a fixed value, "valueField" compares against another field.
+ *
+ * The legacy watchField / showWhen / showOnMatch properties are still
+ * supported; visibleWhen takes precedence when both are present.
+ */
+
+export type FormRuleOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'before'
+  | 'after'
+  | 'onOrBefore'
+  | 'onOrAfter'
+  | 'empty'
+  | 'notEmpty';
+
+export interface FormFieldCondition {
+  field: string;
+  op: FormRuleOperator;
+  value?: any;
+  /** Compare against the value of another field instead of `value` */
+  valueField?: string;
+}
+
+export type FormRule =
+  | FormFieldCondition
+  | { all: FormRule[] }
+  | { any: FormRule[] }
+  | { not: FormRule };
+
+/**
+ * Rule-bearing properties of a section, group or field config
+ */
+export interface FormRuleConfig {
+  visibleWhen?: FormRule;
+  requiredWhen?: FormRule;
+  readOnlyWhen?: FormRule;
+  required?: boolean;
+  readOnly?: boolean;
+  watchField?: string;
+  showWhen?: any;
+  showOnMatch?: boolean;
+}
+
+const RELATIVE_DATE = /^today(?:\s*([+-])\s*(\d+)\s*([dwmy]))?$/i;
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Value of a field; flat keys first, then a dotted path
+ */
+export function getFieldValue(data: Record<string, any>, field: string): any {
+  if (!data) return undefined;
+  if (field in data) return data[field];
+  return field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data as any);
+}
+
+function isEmpty(value: any): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a == null || b == null || typeof a === 'object' || typeof b === 'object') return false;
+  return String(a) === String(b);
+}
+
+function toList(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.includes(',')) return value.split(',').map(item => item.trim());
+  return value === undefined ? [] : [value];
+}
+
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+function dayKey(date: Date): number {
+  return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
+
+/**
+ * Date of a relative expression such as "today", "today+6m" or "today-30d"; null otherwise
+ */
+export function resolveRelativeDate(expression: string): Date | null {
+  const relative = RELATIVE_DATE.exec(expression.trim());
+  if (!relative) return null;
+
+  const date = new Date();
+  if (relative[1]) {
+    const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1);
+    const unit = relative[3].toLowerCase();
+    if (unit === 'd') date.setDate(date.getDate() + amount);
+    if (unit === 'w') date.setDate(date.getDate() + amount * 7);
+    if (unit === 'm') date.setMonth(date.getMonth() + amount);
+    if (unit === 'y') date.setFullYear(date.getFullYear() + amount);
+  }
+  return date;
+}
+
+/**
+ * Calendar day (yyyymmdd) of a date value, "today" expression, Date or dayjs/moment object
+ */
+function toDayKey(value: any): number {
+  if (value == null || value === '') return NaN;
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+    const relative = resolveRelativeDate(text);
+    if (relative) return dayKey(relative);
+    // Date-only strings are calendar days, not UTC midnight
+    const dateOnly = DATE_ONLY.exec(text);
+    if (dateOnly) return Number(`${dateOnly[1]}${dateOnly[2]}${dateOnly[3]}`);
+  }
+
+  const date =
+    value instanceof Date ? value :
+    typeof value?.toDate === 'function' ? value.toDate() :
+    new Date(value);
+  return isNaN(date.getTime()) ? NaN : dayKey(date);
+}
+
+function compare(left: number, right: number, op: FormRuleOperator): boolean {
+  if (isNaN(left) || isNaN(right)) return false;
+  switch (op) {
+    case 'gt':
+    case 'after':
+      return left > right;
+    case 'gte':
+    case 'onOrAfter':
+      return left >= right;
+    case 'lt':
+    case 'before':
+      return left < right;
+    case 'lte':
+    case 'onOrBefore':
+      return left <= right;
+    default:
+      return false;
+  }
+}
+
+function evaluateCondition(condition: FormFieldCondition, data: Record<string, any>): boolean {
+  const actual = getFieldValue(data, condition.field);
+  const expected = condition.valueField !== undefined ? getFieldValue(data, condition.valueField) : condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return valuesEqual(actual, expected);
+    case 'neq':
+      return !valuesEqual(actual, expected);
+    case 'in':
+    case 'notIn': {
+      const options = toList(expected);
+      const found = toList(actual).some(item => options.some(option => valuesEqual(item, option)));
+      return condition.op === 'in' ? found : !found;
+    }
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => valuesEqual(item, expected));
+      return typeof actual === 'string' && expected != null && actual.includes(String(expected));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compare(toNumber(actual), toNumber(expected), condition.op);
+    case 'between': {
+      const [min, max] = Array.isArray(expected) ? expected : [];
+      const number = toNumber(actual);
+      return compare(number, toNumber(min), 'gte') && compare(number, toNumber(max), 'lte');
+    }
+    case 'before':
+    case 'after':
+    case 'onOrBefore':
+    case 'onOrAfter':
+      return compare(toDayKey(actual), toDayKey(expected), condition.op);
+    case 'empty':
+      return isEmpty(actual);
+    case 'notEmpty':
+      return !isEmpty(actual);
+    default:
+      console.warn(`[formRules] Unknown operator "${(condition as any).op}" on field ${condition.field}`);
+      return false;
+  }
+}
+
+/**
+ * Evaluate a rule against form data
+ */
+export function evaluateFormRule(rule: FormRule, data: Record<string, any>): boolean {
+  if ('all' in rule) return rule.all.every(child => evaluateFormRule(child, data));
+  if ('any' in rule) return rule.any.some(child => evaluateFormRule(child, data));
+  if ('not' in rule) return !evaluateFormRule(rule.not, data);
+  return evaluateCondition(rule, data);
+}
+
+/**
+ * Fields a rule reads (including valueField references)
+ */
+export function getFormRuleFields(rule: FormRule | undefined): string[] {
+  if (!rule) return [];
+  if ('all' in rule) return Array.from(new Set(rule.all.flatMap(getFormRuleFields)));
+  if ('any' in rule) return Array.from(new Set(rule.any.flatMap(getFormRuleFields)));
+  if ('not' in rule) return getFormRuleFields(rule.not);
+  return rule.valueField !== undefined ? [rule.field, rule.valueField] : [rule.field];
+}
+
+/**
+ * The legacy watchField / showWhen / showOnMatch condition as a rule
+ */
+export function legacyVisibilityRule(config: FormRuleConfig): FormRule | undefined {
+  if (!config.watchField || config.showWhen === undefined) return undefined;
+
+  const isList = Array.isArray(config.showWhen) || (typeof config.showWhen === 'string' && config.showWhen.includes(','));
+  const condition: FormRule = { field: config.watchField, op: isList ? 'in' : 'eq', value: config.showWhen };
+  return config.showOnMatch === false ? { not: condition } : condition;
+}
+
+function visibilityRule(config: FormRuleConfig): FormRule | undefined {
+  return config.visibleWhen || legacyVisibilityRule(config);
+}
+
+export function isFormItemVisible(config: FormRuleConfig, data: Record<string, any>): boolean {
+  const rule = visibilityRule(config);
+  return !rule || evaluateFormRule(rule, data);
+}
+
+export function isFieldRequired(config: FormRuleConfig, data: Record<string, any>): boolean {
+  return !!config.required || (!!config.requiredWhen && evaluateFormRule(config.requiredWhen, data));
+}
+
+export function isFieldReadOnly(config: FormRuleConfig, data: Record<string, any>): boolean {
+  return !!config.readOnly || (!!config.readOnlyWhen && evaluateFormRule(config.readOnlyWhen, data));
+}
+
+/**
+ * Fields each conditional item depends on, inverted: watched field -> dependent item ids
+ */
+export function buildRuleDependencies(configs: Record<string, FormRuleConfig>): Record<string, string[]> {
+  const dependencies: Record<string, string[]> = {};
+
+  Object.entries(configs).forEach(([id, config]) => {
+    const watched = new Set([
+      ...getFormRuleFields(visibilityRule(config)),
+      ...getFormRuleFields(config.requiredWhen),
+      ...getFormRuleFields(config.readOnlyWhen)
+    ]);
+    watched.forEach(field => {
+      if (!dependencies[field]) {
+        dependencies[field] = [];
+      }
+      dependencies[field].push(id);
+    });
+  });
+
+  return dependencies;
+}
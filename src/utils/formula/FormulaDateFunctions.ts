@@ -0,0 +1,115 @@
+/**
+ * Formula Date Functions
+ *
+ * Spreadsheet-style date helpers. Dates are handled as UTC calendar days so
+ * results do not shift with the browser's time zone.
+ */
+
+import { FormulaValue, flattenValues, toDate, toNumber } from './FormulaValue';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert an argument to a UTC calendar day. Numbers are days since 1970-01-01.
+ */
+export function toCalendarDay(value: FormulaValue, name = 'date'): Date {
+  const date = typeof value === 'number' ? new Date(value * MS_PER_DAY) : toDate(value);
+  if (!date) {
+    throw new Error(`${name} is not a valid date`);
+  }
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Today's date at 00:00 UTC
+ */
+export function today(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * The same day a number of months later (or earlier), clamped to the end of
+ * shorter months: EDATE(2024-01-31, 1) → 2024-02-29
+ */
+export function edate(start: FormulaValue, months: FormulaValue): Date {
+  const date = toCalendarDay(start, 'start_date');
+  const offset = Math.trunc(toNumber(months));
+  const monthIndex = date.getUTCMonth() + offset;
+  const year = date.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Whole months from start to end, counting a month only once its day is reached
+ */
+function wholeMonths(start: Date, end: Date): number {
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  if (end.getUTCDate() < start.getUTCDate()) months--;
+  return months;
+}
+
+/**
+ * Difference between two dates in the given unit, as in spreadsheets:
+ * Y (years), M (months), D (days), MD (days ignoring months and years),
+ * YM (months ignoring years), YD (days ignoring years)
+ */
+export function datedif(start: FormulaValue, end: FormulaValue, unit: FormulaValue): number {
+  const from = toCalendarDay(start, 'start_date');
+  const to = toCalendarDay(end, 'end_date');
+  if (to < from) {
+    throw new Error('start_date must not be after end_date');
+  }
+
+  const months = wholeMonths(from, to);
+  switch (String(unit).toUpperCase()) {
+    case 'Y':
+      return Math.floor(months / 12);
+    case 'M':
+      return months;
+    case 'D':
+      return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+    case 'MD': {
+      const anchor = edate(from, months);
+      return Math.round((to.getTime() - anchor.getTime()) / MS_PER_DAY);
+    }
+    case 'YM':
+      return months % 12;
+    case 'YD': {
+      const anchor = edate(from, Math.floor(months / 12) * 12);
+      return Math.round((to.getTime() - anchor.getTime()) / MS_PER_DAY);
+    }
+    default:
+      throw new Error(`unknown unit "${unit}" (use Y, M, D, MD, YM or YD)`);
+  }
+}
+
+/**
+ * Working days (Monday-Friday) between two dates, both included, excluding
+ * holidays. Negative when end is before start.
+ */
+export function networkdays(start: FormulaValue, end: FormulaValue, holidays: FormulaValue = []): number {
+  const from = toCalendarDay(start, 'start_date');
+  const to = toCalendarDay(end, 'end_date');
+  if (to < from) {
+    return -networkdays(end, start, holidays);
+  }
+
+  const excluded = new Set(
+    flattenValues([holidays])
+      .filter(holiday => holiday !== null && holiday !== '')
+      .map(holiday => toCalendarDay(holiday, 'holiday').getTime())
+  );
+
+  let count = 0;
+  for (let time = from.getTime(); time <= to.getTime(); time += MS_PER_DAY) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday !== 0 && weekday !== 6 && !excluded.has(time)) {
+      count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,88 @@
+/**
+ * Formula Dependency Graph Tests
+ */
+
+import { CommercialFormulaCalculator } from '../CommercialFormulaCalculator';
+import { FormulaDependencyGraph, extractFieldReferences } from './FormulaDependencyGraph';
+
+describe('FormulaDependencyGraph', () => {
+  const calculator = new CommercialFormulaCalculator();
+  let evaluated: string[] = [];
+  const evaluate = (formula: string, data: Record<string, any>) => {
+    evaluated.push(formula);
+    return calculator.evaluateWithContext(formula, { formData: data }).value;
+  };
+
+  beforeEach(() => {
+    evaluated = [];
+  });
+
+  test('extracts identifiers, FIELD() names and dotted paths', () => {
+    const refs = calculator.extractReferences("=a + FIELD('b') + SUM(lineItems.qty)");
+    expect(refs.fields.sort()).toEqual(['a', 'b', 'lineItems.qty']);
+    expect(refs.allFields).toBe(false);
+    expect(calculator.extractReferences("COUNT('yes')").allFields).toBe(true);
+    expect(extractFieldReferences('1 +').fields).toEqual([]);
+  });
+
+  test('orders chains regardless of declaration order', () => {
+    const graph = calculator.createDependencyGraph({
+      c: '=b * 2',
+      b: '=a + 1',
+      total: '=c + b'
+    });
+    expect(graph.order).toEqual(['b', 'c', 'total']);
+
+    const { data } = graph.recompute({ a: 1 }, evaluate);
+    expect(data).toEqual({ a: 1, b: 2, c: 4, total: 6 });
+  });
+
+  test('recomputes only the fields affected by a change', () => {
+    const graph = calculator.createDependencyGraph({
+      b: '=a + 1',
+      c: '=b * 2',
+      y: '=x * 10'
+    });
+    const { data } = graph.recompute({ a: 1, x: 1 }, evaluate);
+    evaluated = [];
+
+    const result = graph.recompute({ ...data, a: 5 }, evaluate, ['a']);
+    expect(evaluated).toEqual(['=a + 1', '=b * 2']);
+    expect(result.updated).toEqual(['b', 'c']);
+    expect(result.data.c).toBe(12);
+    expect(result.data.y).toBe(10);
+  });
+
+  test('runs whole-form formulas after the fields they count', () => {
+    const graph = calculator.createDependencyGraph({
+      compliance: "=totalYes / (totalYes + totalNo) * 100",
+      totalYes: "COUNT('yes')",
+      totalNo: "COUNT('no')",
+      q3: "=IF(q1 = 'yes', 'yes', 'no')"
+    });
+    expect(graph.cycles).toEqual([]);
+
+    const { data } = graph.recompute({ q1: 'yes', q2: 'no' }, evaluate);
+    expect(data.totalYes).toBe(2);
+    expect(data.compliance).toBeCloseTo(66.67, 2);
+    expect(graph.getAffectedFields(['anything'])).toEqual(expect.arrayContaining(['totalYes', 'compliance']));
+  });
+
+  test('reports cycles naming the fields involved', () => {
+    const graph = new FormulaDependencyGraph({
+      a: 'b + 1',
+      b: 'c + 1',
+      c: 'a + 1',
+      d: 'd + 1',
+      ok: 'x + 1'
+    });
+    expect(graph.order).toEqual(['ok']);
+    expect(graph.cycles).toEqual([['a', 'b', 'c'], ['d']]);
+    expect(graph.getCycleErrors()).toEqual({
+      a: 'Circular formula reference: a → b → c → a',
+      b: 'Circular formula reference: b → c → a → b',
+      c: 'Circular formula reference: c → a → b → c',
+      d: 'Circular formula reference: d → d'
+    });
+  });
+});
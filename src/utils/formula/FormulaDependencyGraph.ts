@@ -0,0 +1,309 @@
+/**
+ * Formula Dependency Graph
+ *
+ * Tracks which calculated fields read which other fields so that, after an
+ * edit, only the affected formulas are re-evaluated - and always in
+ * topological order, so chains like A → B → C settle in a single pass
+ * regardless of the order the fields were declared or rendered in.
+ * Circular references are detected up front and reported per field.
+ */
+
+import { FormulaNode, parseFormula } from './FormulaParser';
+
+type CallNode = Extract<FormulaNode, { type: 'call' }>;
+
+export interface FormulaReferences {
+  /** Field names / dotted paths read by the formula */
+  fields: string[];
+  /** True when the formula scans the whole form (e.g. COUNT('yes')) */
+  allFields: boolean;
+}
+
+export interface ReferenceRules {
+  /** Functions whose string-literal arguments are field names, e.g. FIELD('q2') */
+  fieldNameFunctions?: string[];
+  /** Calls that read every field in the form */
+  readsAllFields?: (call: CallNode) => boolean;
+}
+
+/**
+ * Extract the fields a formula reads. Formulas that do not parse reference nothing;
+ * their syntax error is reported when they are evaluated.
+ */
+export function extractFieldReferences(formula: string, rules: ReferenceRules = {}): FormulaReferences {
+  const fields = new Set<string>();
+  let allFields = false;
+  const fieldNameFunctions = rules.fieldNameFunctions || [];
+
+  const visit = (node: FormulaNode): void => {
+    switch (node.type) {
+      case 'identifier':
+        fields.add(node.name);
+        break;
+      case 'array':
+        node.elements.forEach(visit);
+        break;
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'call':
+        if (rules.readsAllFields && rules.readsAllFields(node)) {
+          allFields = true;
+        }
+        if (fieldNameFunctions.includes(node.name)) {
+          node.args.forEach(arg => {
+            if (arg.type === 'literal' && typeof arg.value === 'string') {
+              fields.add(arg.value);
+            }
+          });
+        }
+        node.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  try {
+    visit(parseFormula(formula));
+  } catch {
+    return { fields: [], allFields: false };
+  }
+
+  return { fields: Array.from(fields), allFields };
+}
+
+/** Top-level field a reference belongs to: lineItems.quantity → lineItems */
+const rootOf = (path: string) => path.split('.')[0];
+
+export interface RecomputeResult {
+  data: Record<string, any>;
+  /** Calculated fields whose value changed */
+  updated: string[];
+}
+
+export class FormulaDependencyGraph {
+  /** Calculated fields in evaluation order (cyclic fields excluded) */
+  readonly order: string[] = [];
+  /** Groups of calculated fields that reference each other in a loop */
+  readonly cycles: string[][] = [];
+
+  private formulas: Record<string, string>;
+  /** calculated field → calculated fields it must be evaluated after */
+  private dependencies = new Map<string, Set<string>>();
+  /** field root → calculated fields that read it */
+  private readers = new Map<string, Set<string>>();
+  /** calculated fields that read the whole form */
+  private wholeFormReaders: string[] = [];
+  private cyclePaths = new Map<string, string[]>();
+
+  constructor(
+    formulas: Record<string, string>,
+    extractReferences: (formula: string) => FormulaReferences = formula => extractFieldReferences(formula)
+  ) {
+    this.formulas = { ...formulas };
+    const calculatedFields = Object.keys(this.formulas);
+    const references = new Map<string, FormulaReferences>();
+
+    calculatedFields.forEach(field => {
+      const refs = extractReferences(this.formulas[field]);
+      references.set(field, refs);
+      if (refs.allFields) this.wholeFormReaders.push(field);
+    });
+
+    calculatedFields.forEach(field => {
+      const refs = references.get(field)!;
+      const deps = new Set<string>();
+
+      refs.fields.forEach(path => {
+        const root = rootOf(path);
+        if (!this.readers.has(root)) this.readers.set(root, new Set());
+        this.readers.get(root)!.add(field);
+        if (root in this.formulas) deps.add(root);
+      });
+
+      this.dependencies.set(field, deps);
+    });
+
+    // Whole-form formulas run after every ordinary calculated field they could read.
+    // Fields that themselves build on a whole-form formula (compliance = totalYes / ...)
+    // are left out, as are other whole-form formulas, so these never form false cycles.
+    const downstream = this.collectReaders(this.wholeFormReaders);
+    this.wholeFormReaders.forEach(field => {
+      calculatedFields.forEach(other => {
+        if (other !== field && !downstream.has(other)) {
+          this.dependencies.get(field)!.add(other);
+        }
+      });
+    });
+
+    this.sortTopologically(calculatedFields);
+  }
+
+  /**
+   * Calculated fields that must be re-evaluated after the given fields changed,
+   * in evaluation order
+   */
+  getAffectedFields(changedFields: Iterable<string>): string[] {
+    const changed = Array.from(changedFields);
+    if (changed.length === 0) return [];
+
+    // Any edit can change what a whole-form formula sees
+    const affected = this.collectReaders([...changed.map(rootOf), ...this.wholeFormReaders]);
+    return this.order.filter(field => affected.has(field));
+  }
+
+  /**
+   * Calculated fields that read any of the given fields, directly or through other
+   * calculated fields (the given fields themselves included)
+   */
+  private collectReaders(fields: string[]): Set<string> {
+    const result = new Set<string>(fields);
+    const queue = [...fields];
+    while (queue.length > 0) {
+      const readers = this.readers.get(queue.shift()!);
+      if (readers) {
+        readers.forEach(reader => {
+          if (!result.has(reader)) {
+            result.add(reader);
+            queue.push(reader);
+          }
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Calculated fields a calculated field must be evaluated after
+   */
+  getDependencies(field: string): string[] {
+    return Array.from(this.dependencies.get(field) || []);
+  }
+
+  /**
+   * Validation errors keyed by field for every field caught in a cycle
+   */
+  getCycleErrors(): Record<string, string> {
+    const errors: Record<string, string> = {};
+    this.cyclePaths.forEach((path, field) => {
+      errors[field] = `Circular formula reference: ${path.join(' → ')}`;
+    });
+    return errors;
+  }
+
+  /**
+   * Re-evaluate calculated fields. When changedFields is given only the affected
+   * formulas run; otherwise every formula runs. Each formula sees the values
+   * computed before it in the same pass.
+   */
+  recompute(
+    data: Record<string, any>,
+    evaluate: (formula: string, data: Record<string, any>, field: string) => any,
+    changedFields?: Iterable<string>
+  ): RecomputeResult {
+    const fields = changedFields ? this.getAffectedFields(changedFields) : this.order;
+    let next = data;
+    const updated: string[] = [];
+
+    fields.forEach(field => {
+      const value = evaluate(this.formulas[field], next, field);
+      if (next[field] !== value) {
+        if (next === data) next = { ...data };
+        next[field] = value;
+        updated.push(field);
+      }
+    });
+
+    return { data: next, updated };
+  }
+
+  /**
+   * Tarjan's strongly connected components. Components come out dependencies-first,
+   * which is exactly the evaluation order; components with more than one field
+   * (or a self reference) are cycles.
+   */
+  private sortTopologically(fields: string[]): void {
+    let counter = 0;
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+
+    const strongConnect = (field: string) => {
+      index.set(field, counter);
+      lowLink.set(field, counter);
+      counter++;
+      stack.push(field);
+      onStack.add(field);
+
+      this.dependencies.get(field)!.forEach(dep => {
+        if (!index.has(dep)) {
+          strongConnect(dep);
+          lowLink.set(field, Math.min(lowLink.get(field)!, lowLink.get(dep)!));
+        } else if (onStack.has(dep)) {
+          lowLink.set(field, Math.min(lowLink.get(field)!, index.get(dep)!));
+        }
+      });
+
+      if (lowLink.get(field) === index.get(field)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== field);
+
+        if (component.length > 1 || this.dependencies.get(field)!.has(field)) {
+          this.recordCycle(component);
+        } else {
+          this.order.push(field);
+        }
+      }
+    };
+
+    fields.forEach(field => {
+      if (!index.has(field)) strongConnect(field);
+    });
+  }
+
+  private recordCycle(component: string[]): void {
+    const members = new Set(component);
+    // Report in declaration order for stable messages
+    const ordered = Object.keys(this.formulas).filter(field => members.has(field));
+    this.cycles.push(ordered);
+
+    ordered.forEach(start => {
+      this.cyclePaths.set(start, this.findCyclePath(start, members));
+    });
+  }
+
+  /**
+   * Walk dependencies inside a cycle from a field back to itself
+   */
+  private findCyclePath(start: string, members: Set<string>): string[] {
+    const visited = new Set<string>();
+
+    const walk = (field: string, path: string[]): string[] | null => {
+      const deps = Array.from(this.dependencies.get(field) || []).filter(dep => members.has(dep));
+      if (deps.includes(start)) {
+        return [...path, start];
+      }
+      for (const dep of deps) {
+        if (!visited.has(dep)) {
+          visited.add(dep);
+          const found = walk(dep, [...path, dep]);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+
+    return walk(start, [start]) || [start, start];
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Formula Engine Errors
+ *
+ * Errors raised while tokenizing, parsing or evaluating a formula.
+ * Every error carries the 0-based offset into the original formula string
+ * so callers can point the author at the offending character.
+ */
+
+export class FormulaError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at column ${position + 1}`);
+    this.name = 'FormulaError';
+    this.position = position;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised by the tokenizer and parser for malformed formulas
+ */
+export class FormulaSyntaxError extends FormulaError {
+  constructor(message: string, position: number) {
+    super(message, position);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+/**
+ * Raised by the interpreter (unknown functions, type mismatches, division by zero)
+ */
+export class FormulaRuntimeError extends FormulaError {
+  constructor(message: string, position: number) {
+    super(message, position);
+    this.name = 'FormulaRuntimeError';
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Formula Function Library Tests
+ *
+ * Typed function signatures, lookup, interpolation and date functions.
+ */
+
+import { CommercialFormulaCalculator } from '../CommercialFormulaCalculator';
+
+describe('Formula function library', () => {
+  const calculator = new CommercialFormulaCalculator();
+  const referenceData = {
+    pipe_materials: [
+      { value: 'A106-B', label: 'Carbon steel A106 Gr. B', metadata: { allowable_stress: 20000 } },
+      { value: 'SS316', label: 'Stainless 316', metadata: { allowable_stress: 16700 } }
+    ]
+  };
+  const evaluate = (formula: string, formData: Record<string, any> = {}) =>
+    calculator.evaluateWithContext(formula, { formData, referenceData });
+
+  describe('signatures', () => {
+    test('validates calls before evaluation', () => {
+      expect(calculator.validate("=VLOOKUP(material, 'pipe_materials', 'allowable_stress')").valid).toBe(true);
+
+      const result = calculator.validate("=ROUND(1) + EDATE('soon', 1) + DATEDIF(a)");
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        { message: "EDATE: argument 1 (start_date) must be date", position: 18 },
+        {
+          message: 'DATEDIF: expects 3 arguments but got 1, DATEDIF(start_date, end_date, unit)',
+          position: 31
+        }
+      ]);
+      expect(calculator.validate('=NOPE(1)').errors[0].message).toBe('Unknown function: NOPE');
+      expect(calculator.validate('=1 +').errors[0].position).toBe(4);
+    });
+
+    test('checks arguments at runtime', () => {
+      const result = evaluate('=SQRT(status)', { status: 'open' });
+      expect(result.type).toBe('error');
+      expect(result.error).toContain('SQRT: argument 1 (number) must be number but was string');
+    });
+
+    test('registers custom functions with a signature', () => {
+      const custom = new CommercialFormulaCalculator();
+      custom.defineFunction({
+        name: 'hoop_stress',
+        parameters: [
+          { name: 'pressure', type: 'number' },
+          { name: 'diameter', type: 'number' },
+          { name: 'thickness', type: 'number' }
+        ],
+        returns: 'number',
+        implementation: (p: number, d: number, t: number) => (p * d) / (2 * t)
+      });
+      expect(custom.evaluate('=HOOP_STRESS(100, 10, 0.5)').value).toBe(1000);
+      expect(custom.validate('=HOOP_STRESS(100, 10)').valid).toBe(false);
+      expect(custom.getFunctionSignatures().map(signature => signature.name)).toContain('HOOP_STRESS');
+    });
+  });
+
+  describe('lookups', () => {
+    test('VLOOKUP reads reference data by column name or index', () => {
+      expect(evaluate("=VLOOKUP(material, 'pipe_materials', 'allowable_stress')", { material: 'ss316' }).value).toBe(16700);
+      expect(evaluate("=VLOOKUP('A106-B', 'pipe_materials', 2)").value).toBe('Carbon steel A106 Gr. B');
+      expect(evaluate("=VLOOKUP('X', 'pipe_materials', 2)").error).toContain('no match for "X"');
+    });
+
+    test('VLOOKUP supports inline tables and approximate matches', () => {
+      expect(evaluate("=VLOOKUP(15, [[0, 'low'], [10, 'medium'], [20, 'high']], 2, TRUE)").value).toBe('medium');
+    });
+
+    test('XLOOKUP matches columns with fallbacks', () => {
+      expect(evaluate("=XLOOKUP('SS316', 'pipe_materials.value', 'pipe_materials.allowable_stress')").value).toBe(16700);
+      expect(evaluate("=XLOOKUP('X', [1, 2], [3, 4], 'none')").value).toBe('none');
+      expect(evaluate('=XLOOKUP(1.5, [1, 2, 3], [10, 20, 30], 0, 1)').value).toBe(20);
+    });
+
+    test('INTERPOLATE between table points', () => {
+      expect(evaluate('=INTERPOLATE(150, [100, 200, 300], [20000, 18000, 15000])').value).toBe(19000);
+      expect(evaluate('=INTERPOLATE(400, [100, 200], [1, 2])').error).toContain('outside the table range');
+    });
+
+    test('reports reference lists used by a formula', () => {
+      expect(
+        calculator.getReferenceLists("=VLOOKUP(m, 'pipe_materials', 2) + INTERPOLATE(t, 'stress.temp', [1, 2])")
+      ).toEqual(['pipe_materials', 'stress']);
+    });
+  });
+
+  describe('dates', () => {
+    test('DATEDIF counts whole units', () => {
+      expect(evaluate("=DATEDIF('2020-03-15', '2025-03-14', 'Y')").value).toBe(4);
+      expect(evaluate("=DATEDIF('2020-03-15', '2025-03-14', 'M')").value).toBe(59);
+      expect(evaluate("=DATEDIF('2025-01-01', '2025-03-01', 'D')").value).toBe(59);
+      expect(evaluate("=DATEDIF('2025-01-31', '2025-03-01', 'MD')").value).toBe(1);
+    });
+
+    test('EDATE clamps to the end of the month', () => {
+      const result = evaluate("=EDATE('2024-01-31', 1)").value as Date;
+      expect(result.toISOString().slice(0, 10)).toBe('2024-02-29');
+      expect((evaluate("=EDATE('2024-03-15', -3)").value as Date).toISOString().slice(0, 10)).toBe('2023-12-15');
+    });
+
+    test('NETWORKDAYS skips weekends and holidays', () => {
+      expect(evaluate("=NETWORKDAYS('2025-06-02', '2025-06-13')").value).toBe(10);
+      expect(evaluate("=NETWORKDAYS('2025-06-02', '2025-06-13', ['2025-06-09'])").value).toBe(9);
+      expect(evaluate("=NETWORKDAYS('2025-06-13', '2025-06-02')").value).toBe(-10);
+    });
+
+    test('TODAY returns the current date', () => {
+      const result = evaluate('=TODAY()').value as Date;
+      expect(result.toISOString().slice(0, 10)).toBe(new Date().toISOString().slice(0, 10));
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Formula Function Signatures
+ *
+ * Functions registered with a signature declare their parameters, so calls
+ * can be checked twice: statically against the parsed formula (argument
+ * counts and literal argument types, for editors) and at runtime before the
+ * implementation runs.
+ */
+
+import { FormulaNode, findCalls, parseFormula } from './FormulaParser';
+import { FormulaError } from './FormulaErrors';
+import { FormulaValue, getValueType, isNumericString, toDate, toNumber } from './FormulaValue';
+import { FormulaFunction } from './FormulaInterpreter';
+
+export type FormulaArgType = 'number' | 'string' | 'boolean' | 'date' | 'array' | 'any';
+
+export interface FormulaParameter {
+  name: string;
+  /** Accepted type, or several */
+  type: FormulaArgType | FormulaArgType[];
+  optional?: boolean;
+  /** Accepts any number of further arguments (last parameter only) */
+  variadic?: boolean;
+  description?: string;
+}
+
+export interface FormulaFunctionSignature {
+  name: string;
+  parameters: FormulaParameter[];
+  returns: FormulaArgType;
+  description?: string;
+  category?: string;
+}
+
+export interface FormulaFunctionDefinition extends FormulaFunctionSignature {
+  implementation: FormulaFunction;
+}
+
+export interface FormulaValidationIssue {
+  message: string;
+  /** 0-based offset in the formula */
+  position: number;
+}
+
+export interface FormulaValidationResult {
+  valid: boolean;
+  errors: FormulaValidationIssue[];
+}
+
+/**
+ * IF is evaluated by the interpreter itself; its signature is declared here so
+ * it validates like any other function
+ */
+export const IF_SIGNATURE: FormulaFunctionSignature = {
+  name: 'IF',
+  parameters: [
+    { name: 'condition', type: 'any' },
+    { name: 'value_if_true', type: 'any' },
+    { name: 'value_if_false', type: 'any', optional: true }
+  ],
+  returns: 'any',
+  description: 'Return one value when the condition is true and another when it is false',
+  category: 'Logical'
+};
+
+const typesOf = (parameter: FormulaParameter): FormulaArgType[] =>
+  Array.isArray(parameter.type) ? parameter.type : [parameter.type];
+
+/**
+ * Smallest and largest number of arguments a signature accepts (max is Infinity for variadic functions)
+ */
+export function getArity(signature: FormulaFunctionSignature): { min: number; max: number } {
+  const required = signature.parameters.filter(parameter => !parameter.optional && !parameter.variadic);
+  const variadic = signature.parameters.some(parameter => parameter.variadic);
+  return { min: required.length, max: variadic ? Infinity : signature.parameters.length };
+}
+
+/**
+ * Parameter an argument binds to; arguments past the last parameter bind to it when it is variadic
+ */
+function parameterAt(signature: FormulaFunctionSignature, index: number): FormulaParameter | undefined {
+  const { parameters } = signature;
+  if (index < parameters.length) return parameters[index];
+  const last = parameters[parameters.length - 1];
+  return last && last.variadic ? last : undefined;
+}
+
+/**
+ * Human-readable signature, e.g. VLOOKUP(lookup_value, table, column, [approximate])
+ */
+export function formatSignature(signature: FormulaFunctionSignature): string {
+  const parameters = signature.parameters.map(parameter => {
+    const name = parameter.variadic ? `${parameter.name}...` : parameter.name;
+    return parameter.optional ? `[${name}]` : name;
+  });
+  return `${signature.name}(${parameters.join(', ')})`;
+}
+
+function arityMessage(signature: FormulaFunctionSignature, count: number): string | null {
+  const { min, max } = getArity(signature);
+  if (count >= min && count <= max) return null;
+  const expected =
+    max === Infinity ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`;
+  return `expects ${expected} argument${max === 1 ? '' : 's'} but got ${count}, ${formatSignature(signature)}`;
+}
+
+/**
+ * Whether a runtime value is acceptable for a parameter type.
+ * Conversions the functions perform themselves (numeric text, ISO date text) are accepted.
+ */
+function acceptsValue(type: FormulaArgType, value: FormulaValue): boolean {
+  const valueType = getValueType(value);
+  switch (type) {
+    case 'any':
+      return true;
+    case 'number':
+      return valueType !== 'array' && !isNaN(toNumber(value));
+    case 'date':
+      return toDate(value) !== null || valueType === 'number' || valueType === 'empty';
+    case 'string':
+      return valueType !== 'array';
+    case 'boolean':
+      return valueType !== 'array';
+    case 'array':
+      return valueType === 'array';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a literal written in the formula can be passed for a parameter type
+ */
+function acceptsLiteral(type: FormulaArgType, value: string | number | boolean): boolean {
+  if (type === 'number') {
+    return typeof value !== 'string' || isNumericString(value);
+  }
+  if (type === 'date') {
+    return typeof value === 'number' || (typeof value === 'string' && toDate(value) !== null);
+  }
+  return type !== 'array';
+}
+
+const describeTypes = (types: FormulaArgType[]) => types.join(' or ');
+
+/**
+ * Runtime check of evaluated arguments against a signature.
+ * Throws an Error describing the first mismatch.
+ */
+export function checkArguments(signature: FormulaFunctionSignature, args: FormulaValue[]): void {
+  const arity = arityMessage(signature, args.length);
+  if (arity) throw new Error(arity);
+
+  args.forEach((arg, index) => {
+    const parameter = parameterAt(signature, index);
+    if (!parameter) return;
+    const types = typesOf(parameter);
+    if (!types.some(type => acceptsValue(type, arg))) {
+      throw new Error(
+        `argument ${index + 1} (${parameter.name}) must be ${describeTypes(types)} but was ${getValueType(arg)}`
+      );
+    }
+  });
+}
+
+/**
+ * Check every call in a formula without evaluating it: unknown functions,
+ * argument counts and literal arguments of the wrong type.
+ * lookup returns the signature of a known function, null for a known function
+ * without a signature, or undefined for an unknown one.
+ */
+export function validateFormulaCalls(
+  formula: string,
+  lookup: (name: string) => FormulaFunctionSignature | null | undefined
+): FormulaValidationResult {
+  const errors: FormulaValidationIssue[] = [];
+
+  let ast: FormulaNode;
+  try {
+    ast = parseFormula(formula);
+  } catch (error) {
+    const position = error instanceof FormulaError ? error.position : 0;
+    const message = error instanceof Error ? error.message : String(error);
+    return { valid: false, errors: [{ message, position }] };
+  }
+
+  findCalls(ast).forEach(node => {
+    const signature = node.name === 'IF' ? IF_SIGNATURE : lookup(node.name);
+    if (signature === undefined) {
+      errors.push({ message: `Unknown function: ${node.name}`, position: node.position });
+      return;
+    }
+    if (!signature) return;
+
+    const arity = arityMessage(signature, node.args.length);
+    if (arity) {
+      errors.push({ message: `${node.name}: ${arity}`, position: node.position });
+    }
+    node.args.forEach((arg, index) => {
+      const parameter = parameterAt(signature, index);
+      if (!parameter || arg.type !== 'literal') return;
+      const types = typesOf(parameter);
+      if (!types.some(type => acceptsLiteral(type, arg.value))) {
+        errors.push({
+          message: `${node.name}: argument ${index + 1} (${parameter.name}) must be ${describeTypes(types)}`,
+          position: arg.position
+        });
+      }
+    });
+  });
+  return { valid: errors.length === 0, errors };
+}
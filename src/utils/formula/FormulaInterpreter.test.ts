@@ -0,0 +1,103 @@
+/**
+ * Formula Engine Tests
+ *
+ * Covers the tokenizer, parser and interpreter shared by both formula calculators.
+ */
+
+import { FormulaEnvironment, FormulaFunction, evaluateExpression } from './FormulaInterpreter';
+import { FormulaRuntimeError, FormulaSyntaxError } from './FormulaErrors';
+import { parseFormula } from './FormulaParser';
+import { flattenValues, normalizeValue, resolveFieldPath, toNumber } from './FormulaValue';
+
+describe('Formula engine', () => {
+  const data: Record<string, any> = {
+    a: 2,
+    b: '3',
+    status: 'pass',
+    inspected: new Date('2025-01-10T00:00:00Z'),
+    lineItems: [{ qty: 2 }, { qty: 5 }]
+  };
+
+  const functions: Record<string, FormulaFunction> = {
+    SUM: (...args: any[]) => flattenValues(args).reduce((sum: number, value) => sum + toNumber(value), 0),
+    CONCAT: (...args: any[]) => args.join('|')
+  };
+
+  const env: FormulaEnvironment = {
+    resolveIdentifier: name => normalizeValue(resolveFieldPath(data, name) ?? 0),
+    getFunction: name => functions[name]
+  };
+
+  const evaluate = (formula: string) => evaluateExpression(formula, env);
+
+  describe('operators', () => {
+    test('applies standard precedence', () => {
+      expect(evaluate('1 + 2 * 3')).toBe(7);
+      expect(evaluate('(1 + 2) * 3')).toBe(9);
+      expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+      expect(evaluate('-2 ^ 2')).toBe(-4);
+      expect(evaluate('10 % 4')).toBe(2);
+    });
+
+    test('evaluates comparison and logical operators', () => {
+      expect(evaluate('a < b && b <= 3')).toBe(true);
+      expect(evaluate('a = 3 || !(status <> "pass")')).toBe(true);
+      expect(evaluate('status == "fail"')).toBe(false);
+    });
+
+    test('concatenates text with &', () => {
+      expect(evaluate('status & "-" & a')).toBe('pass-2');
+    });
+
+    test('supports date arithmetic', () => {
+      const next = evaluate('inspected + 30') as Date;
+      expect(next.toISOString().slice(0, 10)).toBe('2025-02-09');
+      expect(evaluate('(inspected + 30) - inspected')).toBe(30);
+      expect(evaluate('inspected > "2025-01-01"')).toBe(true);
+    });
+
+    test('raises a runtime error on division by zero', () => {
+      expect(() => evaluate('a / 0')).toThrow(FormulaRuntimeError);
+    });
+  });
+
+  describe('functions', () => {
+    test('evaluates nested calls', () => {
+      expect(evaluate('SUM(IF(a > 1, 10, 0), [1, 2], a)')).toBe(15);
+    });
+
+    test('keeps commas and parentheses inside quoted arguments', () => {
+      expect(evaluate('CONCAT("a, b", \'(c)\')')).toBe('a, b|(c)');
+    });
+
+    test('only evaluates the IF branch that is taken', () => {
+      expect(evaluate('IF(a > 5, a / 0, "safe")')).toBe('safe');
+    });
+
+    test('resolves dotted paths across arrays', () => {
+      expect(evaluate('SUM(lineItems.qty)')).toBe(7);
+    });
+
+    test('reports unknown functions', () => {
+      expect(() => evaluate('NOPE(1)')).toThrow('Unknown function: NOPE at column 1');
+    });
+  });
+
+  describe('syntax errors', () => {
+    test.each([
+      ['1 + * 2', 4],
+      ['SUM(1, 2', 8],
+      ['"unterminated', 0],
+      ['a # b', 2],
+      ['(1 + 2))', 7]
+    ])('reports the position for %s', (formula, position) => {
+      const parse = () => parseFormula(formula as string);
+      expect(parse).toThrow(FormulaSyntaxError);
+      expect(parse).toThrow(expect.objectContaining({ position }));
+    });
+
+    test('rejects code that is not a formula', () => {
+      expect(() => parseFormula('constructor.constructor("alert(1)")()')).toThrow(FormulaSyntaxError);
+    });
+  });
+});
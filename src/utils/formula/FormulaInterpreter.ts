@@ -0,0 +1,278 @@
+/**
+ * Formula Interpreter
+ *
+ * Walks a parsed formula AST and computes its value. Field lookups and
+ * function implementations come from a FormulaEnvironment supplied by the
+ * calculator, so the interpreter itself has no knowledge of form data.
+ * Arithmetic on quantities converts between compatible units and raises a
+ * runtime error for incompatible ones.
+ *
+ * No formula text is ever handed to eval/new Function.
+ */
+
+import { FormulaError, FormulaRuntimeError } from './FormulaErrors';
+import { FormulaNode, parseFormula } from './FormulaParser';
+import { Quantity, addQuantities, combineQuantities, powerQuantity } from './FormulaUnits';
+import {
+  FormulaValue,
+  addDays,
+  compareValues,
+  diffDays,
+  getValueType,
+  toBoolean,
+  toDate,
+  toNumber,
+  toText,
+  valuesEqual
+} from './FormulaValue';
+
+export type FormulaFunction = (...args: any[]) => any;
+
+export interface FormulaEnvironment {
+  /** Resolve a bare identifier (field name or dotted path) to a value */
+  resolveIdentifier(name: string): FormulaValue;
+  /** Look up a function by its upper-case name */
+  getFunction(name: string): FormulaFunction | undefined;
+}
+
+/**
+ * Parse and evaluate a formula string
+ */
+export function evaluateExpression(source: string, env: FormulaEnvironment): FormulaValue {
+  return evaluateNode(parseFormula(source), env);
+}
+
+/**
+ * Evaluate an AST node
+ */
+export function evaluateNode(node: FormulaNode, env: FormulaEnvironment): FormulaValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return env.resolveIdentifier(node.name);
+
+    case 'array':
+      return node.elements.map(element => evaluateNode(element, env));
+
+    case 'unary':
+      return evaluateUnary(node.operator, evaluateNode(node.operand, env), node.position);
+
+    case 'binary':
+      return evaluateBinary(node, env);
+
+    case 'call':
+      return evaluateCall(node, env);
+
+    default:
+      throw new FormulaRuntimeError('Unsupported expression', (node as FormulaNode).position);
+  }
+}
+
+function numberOperand(value: FormulaValue, position: number): number {
+  const num = toNumber(value);
+  if (isNaN(num)) {
+    const type = getValueType(value);
+    const shown = type === 'string' ? `text "${value}"` : type;
+    throw new FormulaRuntimeError(`Expected a number but found ${shown}`, position);
+  }
+  return num;
+}
+
+/**
+ * Number of days to move a date by; time quantities are converted (2 wk → 14)
+ */
+function daysOperand(value: FormulaValue, position: number): number {
+  if (value instanceof Quantity) {
+    return withUnits(position, () => value.to('day').value) as number;
+  }
+  return numberOperand(value, position);
+}
+
+/**
+ * Run a unit-aware operation, reporting unit errors at the operator
+ */
+function withUnits(position: number, operation: () => FormulaValue): FormulaValue {
+  try {
+    return operation();
+  } catch (error) {
+    if (error instanceof FormulaError) throw error;
+    throw new FormulaRuntimeError(error instanceof Error ? error.message : String(error), position);
+  }
+}
+
+function evaluateUnary(operator: string, operand: FormulaValue, position: number): FormulaValue {
+  switch (operator) {
+    case '-':
+      if (operand instanceof Quantity) return new Quantity(-operand.value, operand.unit);
+      return -numberOperand(operand, position);
+    case '+':
+      if (operand instanceof Quantity) return operand;
+      return numberOperand(operand, position);
+    case '!':
+      return !toBoolean(operand);
+    default:
+      throw new FormulaRuntimeError(`Unknown operator '${operator}'`, position);
+  }
+}
+
+function evaluateBinary(
+  node: Extract<FormulaNode, { type: 'binary' }>,
+  env: FormulaEnvironment
+): FormulaValue {
+  const { operator, position } = node;
+
+  // Short-circuit logical operators
+  if (operator === '&&') {
+    return toBoolean(evaluateNode(node.left, env)) && toBoolean(evaluateNode(node.right, env));
+  }
+  if (operator === '||') {
+    return toBoolean(evaluateNode(node.left, env)) || toBoolean(evaluateNode(node.right, env));
+  }
+
+  const left = evaluateNode(node.left, env);
+  const right = evaluateNode(node.right, env);
+
+  const hasDate = left instanceof Date || right instanceof Date;
+  if ((left instanceof Quantity || right instanceof Quantity) && !hasDate && '+-*/%^'.includes(operator)) {
+    return evaluateQuantityArithmetic(node, left, right);
+  }
+
+  switch (operator) {
+    case '+': {
+      const leftDate = left instanceof Date ? left : null;
+      const rightDate = right instanceof Date ? right : null;
+      if (leftDate && !rightDate) return addDays(leftDate, daysOperand(right, node.right.position));
+      if (rightDate && !leftDate) return addDays(rightDate, daysOperand(left, node.left.position));
+      return numberOperand(left, node.left.position) + numberOperand(right, node.right.position);
+    }
+
+    case '-': {
+      if (left instanceof Date) {
+        const rightDate = toDate(right);
+        if (rightDate) return diffDays(left, rightDate);
+        return addDays(left, -daysOperand(right, node.right.position));
+      }
+      return numberOperand(left, node.left.position) - numberOperand(right, node.right.position);
+    }
+
+    case '*':
+      return numberOperand(left, node.left.position) * numberOperand(right, node.right.position);
+
+    case '/':
+    case '%': {
+      const dividend = numberOperand(left, node.left.position);
+      const divisor = numberOperand(right, node.right.position);
+      if (divisor === 0) {
+        throw new FormulaRuntimeError('Division by zero', position);
+      }
+      return operator === '/' ? dividend / divisor : dividend % divisor;
+    }
+
+    case '^':
+      return Math.pow(numberOperand(left, node.left.position), numberOperand(right, node.right.position));
+
+    case '&':
+      return toText(left) + toText(right);
+
+    case '=':
+    case '==':
+      return valuesEqual(left, right);
+
+    case '!=':
+    case '<>':
+      return !valuesEqual(left, right);
+
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const comparison = compareValues(left, right);
+      if (comparison === null && left instanceof Quantity && right instanceof Quantity) {
+        throw new FormulaRuntimeError(`Cannot compare ${left.unit.symbol} with ${right.unit.symbol}`, position);
+      }
+      if (comparison === null) {
+        throw new FormulaRuntimeError(`Cannot compare ${getValueType(left)} with ${getValueType(right)}`, position);
+      }
+      if (operator === '<') return comparison < 0;
+      if (operator === '<=') return comparison <= 0;
+      if (operator === '>') return comparison > 0;
+      return comparison >= 0;
+    }
+
+    default:
+      throw new FormulaRuntimeError(`Unknown operator '${operator}'`, position);
+  }
+}
+
+function evaluateQuantityArithmetic(
+  node: Extract<FormulaNode, { type: 'binary' }>,
+  left: FormulaValue,
+  right: FormulaValue
+): FormulaValue {
+  const { operator, position } = node;
+  const leftOperand = left instanceof Quantity ? left : numberOperand(left, node.left.position);
+  const rightOperand = right instanceof Quantity ? right : numberOperand(right, node.right.position);
+
+  return withUnits(position, () => {
+    switch (operator) {
+      case '+':
+      case '-':
+        return addQuantities(leftOperand, rightOperand, operator === '-');
+      case '*':
+        return combineQuantities(leftOperand, rightOperand);
+      case '/':
+      case '%': {
+        if (toNumber(rightOperand) === 0) {
+          throw new FormulaRuntimeError('Division by zero', position);
+        }
+        if (operator === '/') return combineQuantities(leftOperand, rightOperand, true);
+        // Remainder keeps the dividend's unit
+        const divisor = rightOperand instanceof Quantity && leftOperand instanceof Quantity
+          ? rightOperand.to(leftOperand.unit).value
+          : toNumber(rightOperand);
+        return leftOperand instanceof Quantity
+          ? new Quantity(leftOperand.value % divisor, leftOperand.unit)
+          : leftOperand % divisor;
+      }
+      default: {
+        if (rightOperand instanceof Quantity) {
+          throw new Error(`Exponent cannot have a unit (${rightOperand.unit.symbol})`);
+        }
+        return powerQuantity(leftOperand as Quantity, rightOperand);
+      }
+    }
+  });
+}
+
+function evaluateCall(
+  node: Extract<FormulaNode, { type: 'call' }>,
+  env: FormulaEnvironment
+): FormulaValue {
+  // IF is evaluated lazily so the branch not taken cannot fail (e.g. a / 0)
+  if (node.name === 'IF') {
+    if (node.args.length < 2) {
+      throw new FormulaRuntimeError('IF expects at least 2 arguments', node.position);
+    }
+    const condition = toBoolean(evaluateNode(node.args[0], env));
+    if (condition) return evaluateNode(node.args[1], env);
+    return node.args.length > 2 ? evaluateNode(node.args[2], env) : false;
+  }
+
+  const fn = env.getFunction(node.name);
+  if (!fn) {
+    throw new FormulaRuntimeError(`Unknown function: ${node.name}`, node.position);
+  }
+
+  const args = node.args.map(arg => evaluateNode(arg, env));
+
+  try {
+    const result = fn(...args);
+    return result === undefined ? null : result;
+  } catch (error) {
+    if (error instanceof FormulaError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new FormulaRuntimeError(`${node.name}: ${message}`, node.position);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Formula Lookup Functions
+ *
+ * VLOOKUP/XLOOKUP-style lookups and linear interpolation over tables.
+ * Tables are either arrays written in the formula ([[1, 'a'], [2, 'b']]) or
+ * reference data lists supplied by the caller, whose rows expose `value`,
+ * `label`, `description` and every key of the option's `metadata`.
+ */
+
+import { FormulaValue, compareValues, flattenValues, normalizeValue, toNumber, valuesEqual } from './FormulaValue';
+
+export type ReferenceRow = Record<string, any>;
+
+/** Reference data lists by name (e.g. the list types served by /api/reference-data) */
+export type ReferenceDataSet = Record<string, ReferenceRow[]>;
+
+export type LookupTable = FormulaValue[][] | ReferenceRow[];
+
+// Numeric column indexes into reference data rows, as if they were spreadsheet columns
+const REFERENCE_COLUMNS = ['value', 'label', 'description'];
+
+/**
+ * Flatten a reference data option ({ value, label, metadata: {...} }) into a lookup row
+ */
+export function toReferenceRow(option: ReferenceRow): ReferenceRow {
+  const { metadata, ...fields } = option;
+  return { ...(metadata && typeof metadata === 'object' ? metadata : {}), ...fields };
+}
+
+/**
+ * Look up a reference list by name
+ */
+export function getReferenceList(data: ReferenceDataSet | undefined, name: string): ReferenceRow[] {
+  const list = data ? data[name] : undefined;
+  if (!list) {
+    throw new Error(`reference list "${name}" is not loaded`);
+  }
+  return list;
+}
+
+/**
+ * Values of one column of a reference list, addressed as "list.column"
+ */
+export function getReferenceColumn(data: ReferenceDataSet | undefined, path: string): FormulaValue[] {
+  const separator = path.indexOf('.');
+  if (separator < 0) {
+    throw new Error(`"${path}" must name a list and a column, e.g. materials.value`);
+  }
+  const rows = getReferenceList(data, path.slice(0, separator));
+  const column = path.slice(separator + 1);
+  return rows.map(row => normalizeValue(toReferenceRow(row)[column]));
+}
+
+/**
+ * Read a cell from a table row by 1-based index or by column name
+ */
+function readCell(row: FormulaValue[] | ReferenceRow, column: FormulaValue): FormulaValue {
+  if (Array.isArray(row)) {
+    const index = toNumber(column);
+    if (isNaN(index) || index < 1 || index > row.length) {
+      throw new Error(`column ${column} is outside the table`);
+    }
+    return row[Math.trunc(index) - 1];
+  }
+
+  const key = typeof column === 'number' ? REFERENCE_COLUMNS[column - 1] : String(column);
+  if (!key || !(key in row)) {
+    throw new Error(`unknown column "${column}"`);
+  }
+  return normalizeValue(row[key]);
+}
+
+const firstCell = (row: FormulaValue[] | ReferenceRow): FormulaValue =>
+  Array.isArray(row) ? row[0] : normalizeValue(row.value);
+
+// Text matches ignore case, as in spreadsheets
+const comparable = (value: FormulaValue): FormulaValue =>
+  typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+const matches = (a: FormulaValue, b: FormulaValue) => valuesEqual(comparable(a), comparable(b));
+
+/**
+ * Index of the matching entry. matchMode 0 is an exact match; -1 falls back to
+ * the largest value below the lookup value and 1 to the smallest value above it.
+ */
+function findMatch(lookupValue: FormulaValue, keys: FormulaValue[], matchMode: number): number {
+  const exact = keys.findIndex(key => matches(key, lookupValue));
+  if (exact >= 0 || matchMode === 0) return exact;
+
+  let best = -1;
+  keys.forEach((key, index) => {
+    const difference = compareValues(comparable(key), comparable(lookupValue));
+    if (difference === null || Math.sign(difference) !== matchMode) return;
+    const better = best < 0 ? null : compareValues(comparable(key), comparable(keys[best]));
+    if (best < 0 || (better !== null && Math.sign(better) === -matchMode)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+const notFound = (lookupValue: FormulaValue) => new Error(`no match for "${lookupValue}"`);
+
+/**
+ * Find a row by its first column and return the value in another column.
+ * Approximate lookups return the row with the largest key not above the lookup value.
+ */
+export function vlookup(
+  lookupValue: FormulaValue,
+  table: LookupTable,
+  column: FormulaValue,
+  approximate = false
+): FormulaValue {
+  const rows = table as Array<FormulaValue[] | ReferenceRow>;
+  const index = findMatch(lookupValue, rows.map(firstCell), approximate ? -1 : 0);
+  if (index < 0) throw notFound(lookupValue);
+  return readCell(rows[index], column);
+}
+
+/**
+ * Find a value in one array and return the entry at the same position in another
+ */
+export function xlookup(
+  lookupValue: FormulaValue,
+  lookupArray: FormulaValue[],
+  returnArray: FormulaValue[],
+  ifNotFound?: FormulaValue,
+  matchMode = 0
+): FormulaValue {
+  if (lookupArray.length !== returnArray.length) {
+    throw new Error('lookup_array and return_array must be the same length');
+  }
+  if (![-1, 0, 1].includes(matchMode)) {
+    throw new Error('match_mode must be -1, 0 or 1');
+  }
+  const index = findMatch(lookupValue, lookupArray, matchMode);
+  if (index < 0) {
+    if (ifNotFound !== undefined) return ifNotFound;
+    throw notFound(lookupValue);
+  }
+  return returnArray[index];
+}
+
+/**
+ * Linear interpolation of y at x from a table of (x, y) points.
+ * Points may be in any order; x outside the table is an error.
+ */
+export function interpolate(x: FormulaValue, xs: FormulaValue[], ys: FormulaValue[]): number {
+  const xValues = flattenValues(xs).map(toNumber);
+  const yValues = flattenValues(ys).map(toNumber);
+  if (xValues.length !== yValues.length || xValues.length === 0) {
+    throw new Error('known_x and known_y must be non-empty and the same length');
+  }
+  if (xValues.some(isNaN) || yValues.some(isNaN)) {
+    throw new Error('table values must be numbers');
+  }
+
+  const target = toNumber(x);
+  const points = xValues.map((value, index) => ({ x: value, y: yValues[index] })).sort((a, b) => a.x - b.x);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (isNaN(target) || target < first.x || target > last.x) {
+    throw new Error(`${x} is outside the table range ${first.x} to ${last.x}`);
+  }
+
+  const upper = points.findIndex(point => point.x >= target);
+  const high = points[upper];
+  if (high.x === target || upper === 0) return high.y;
+  const low = points[upper - 1];
+  return low.y + ((target - low.x) * (high.y - low.y)) / (high.x - low.x);
+}
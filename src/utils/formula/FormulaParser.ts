@@ -0,0 +1,253 @@
+/**
+ * Formula Parser
+ *
+ * Recursive-descent parser that turns formula tokens into an AST.
+ *
+ * Precedence (lowest to highest):
+ *   ||  →  &&  →  = == != <> < <= > >=  →  &  →  + -  →  * / %  →  unary - + !  →  ^  →  primary
+ *
+ * A leading '=' (Excel style) is accepted and ignored.
+ */
+
+import { FormulaSyntaxError } from './FormulaErrors';
+import { FormulaToken, tokenize } from './FormulaTokenizer';
+
+export type FormulaNode =
+  | { type: 'literal'; value: number | string | boolean; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'array'; elements: FormulaNode[]; position: number }
+  | { type: 'unary'; operator: string; operand: FormulaNode; position: number }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+const COMPARISON_OPERATORS = ['=', '==', '!=', '<>', '<', '<=', '>', '>='];
+
+class Parser {
+  private tokens: FormulaToken[];
+  private index = 0;
+
+  constructor(tokens: FormulaToken[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): FormulaNode {
+    if (this.isOperator('=')) {
+      this.index++;
+    }
+    if (this.peek().type === 'eof') {
+      throw new FormulaSyntaxError('Empty formula', this.peek().position);
+    }
+    const node = this.parseOr();
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      throw new FormulaSyntaxError(`Unexpected ${describe(trailing)}`, trailing.position);
+    }
+    return node;
+  }
+
+  private peek(): FormulaToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): FormulaToken {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && operators.includes(token.value);
+  }
+
+  private expect(type: FormulaToken['type'], value: string): FormulaToken {
+    const token = this.peek();
+    if (token.type !== type || token.value !== value) {
+      throw new FormulaSyntaxError(`Expected '${value}' but found ${describe(token)}`, token.position);
+    }
+    return this.next();
+  }
+
+  private parseBinary(operators: string[], parseOperand: () => FormulaNode): FormulaNode {
+    let left = parseOperand();
+    while (this.isOperator(...operators)) {
+      const operator = this.next();
+      const right = parseOperand();
+      left = { type: 'binary', operator: operator.value, left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parseOr(): FormulaNode {
+    return this.parseBinary(['||'], () => this.parseAnd());
+  }
+
+  private parseAnd(): FormulaNode {
+    return this.parseBinary(['&&'], () => this.parseComparison());
+  }
+
+  private parseComparison(): FormulaNode {
+    return this.parseBinary(COMPARISON_OPERATORS, () => this.parseConcat());
+  }
+
+  private parseConcat(): FormulaNode {
+    return this.parseBinary(['&'], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): FormulaNode {
+    return this.parseBinary(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    return this.parseBinary(['*', '/', '%'], () => this.parseUnary());
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('-', '+', '!')) {
+      const operator = this.next();
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: operator.value, operand, position: operator.position };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary();
+    if (this.isOperator('^')) {
+      const operator = this.next();
+      // Right-associative, and allows 2 ^ -1
+      const exponent = this.parseUnary();
+      return { type: 'binary', operator: '^', left: base, right: exponent, position: operator.position };
+    }
+    return base;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { type: 'literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        this.next();
+        return { type: 'literal', value: token.value, position: token.position };
+
+      case 'identifier': {
+        this.next();
+        if (this.peek().type === 'paren' && this.peek().value === '(') {
+          return this.parseCall(token);
+        }
+        const upper = token.value.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') {
+          return { type: 'literal', value: upper === 'TRUE', position: token.position };
+        }
+        // $field is accepted as an alias for field
+        const name = token.value.startsWith('$') ? token.value.slice(1) : token.value;
+        return { type: 'identifier', name, position: token.position };
+      }
+
+      case 'paren':
+        if (token.value === '(') {
+          this.next();
+          const inner = this.parseOr();
+          this.expect('paren', ')');
+          return inner;
+        }
+        break;
+
+      case 'bracket':
+        if (token.value === '[') {
+          this.next();
+          const elements = this.parseList(']');
+          return { type: 'array', elements, position: token.position };
+        }
+        break;
+
+      default:
+        break;
+    }
+
+    if (token.type === 'eof') {
+      throw new FormulaSyntaxError('Unexpected end of formula', token.position);
+    }
+    throw new FormulaSyntaxError(`Unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseCall(nameToken: FormulaToken): FormulaNode {
+    this.expect('paren', '(');
+    const args = this.parseList(')');
+    return { type: 'call', name: nameToken.value.toUpperCase(), args, position: nameToken.position };
+  }
+
+  /**
+   * Parse a comma separated list up to (and including) the closing token
+   */
+  private parseList(closing: ')' | ']'): FormulaNode[] {
+    const closingType = closing === ')' ? 'paren' : 'bracket';
+    const items: FormulaNode[] = [];
+
+    if (this.peek().type === closingType && this.peek().value === closing) {
+      this.next();
+      return items;
+    }
+
+    for (;;) {
+      items.push(this.parseOr());
+      const token = this.peek();
+      if (token.type === 'comma') {
+        this.next();
+        continue;
+      }
+      if (token.type === closingType && token.value === closing) {
+        this.next();
+        return items;
+      }
+      throw new FormulaSyntaxError(`Expected ',' or '${closing}' but found ${describe(token)}`, token.position);
+    }
+  }
+}
+
+function describe(token: FormulaToken): string {
+  if (token.type === 'eof') return 'end of formula';
+  if (token.type === 'string') return `string "${token.value}"`;
+  return `'${token.value}'`;
+}
+
+// Parsed formulas are immutable, so repeated evaluations reuse the AST
+const MAX_CACHE_SIZE = 500;
+const astCache = new Map<string, FormulaNode>();
+
+/**
+ * Parse a formula string into an AST. Throws FormulaSyntaxError on invalid input.
+ */
+export function parseFormula(source: string): FormulaNode {
+  const cached = astCache.get(source);
+  if (cached) return cached;
+
+  const ast = new Parser(tokenize(source)).parse();
+
+  if (astCache.size >= MAX_CACHE_SIZE) {
+    const oldest = astCache.keys().next().value;
+    if (oldest !== undefined) astCache.delete(oldest);
+  }
+  astCache.set(source, ast);
+  return ast;
+}
+
+/**
+ * Collect every function call node in a formula AST
+ */
+export function findCalls(node: FormulaNode): Array<Extract<FormulaNode, { type: 'call' }>> {
+  switch (node.type) {
+    case 'call':
+      return [node, ...node.args.flatMap(findCalls)];
+    case 'array':
+      return node.elements.flatMap(findCalls);
+    case 'unary':
+      return findCalls(node.operand);
+    case 'binary':
+      return [...findCalls(node.left), ...findCalls(node.right)];
+    default:
+      return [];
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Formula Tokenizer
+ *
+ * Splits a formula string into tokens. Each token remembers its 0-based
+ * position in the source so parse errors can point at the exact character.
+ */
+
+import { FormulaSyntaxError } from './FormulaErrors';
+
+export type FormulaTokenType =
+  | 'number'
+  | 'string'
+  | 'identifier'
+  | 'operator'
+  | 'paren'
+  | 'bracket'
+  | 'comma'
+  | 'eof';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  value: string;
+  position: number;
+}
+
+// Longest operators first so '<=' wins over '<'
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '!'];
+
+const isDigit = (char: string) => char >= '0' && char <= '9';
+const isIdentifierStart = (char: string) => /[A-Za-z_$]/.test(char);
+const isIdentifierPart = (char: string) => /[A-Za-z0-9_$]/.test(char);
+
+const matchOperator = (source: string, index: number) =>
+  OPERATORS.find(op => source.startsWith(op, index));
+
+/**
+ * Tokenize a formula string
+ */
+export function tokenize(source: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Numbers: 12, 1.5, .5, 1e-3
+    if (isDigit(char) || (char === '.' && isDigit(source[index + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index));
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'number', value: text, position: index });
+      index += text.length;
+      continue;
+    }
+
+    // Strings: single or double quoted, backslash escapes or doubled quotes
+    if (char === '"' || char === "'") {
+      const start = index;
+      let text = '';
+      index++;
+      let closed = false;
+      while (index < source.length) {
+        const current = source[index];
+        if (current === '\\' && index + 1 < source.length) {
+          text += source[index + 1];
+          index += 2;
+          continue;
+        }
+        if (current === char) {
+          if (source[index + 1] === char) {
+            text += char;
+            index += 2;
+            continue;
+          }
+          closed = true;
+          index++;
+          break;
+        }
+        text += current;
+        index++;
+      }
+      if (!closed) {
+        throw new FormulaSyntaxError('Unterminated string', start);
+      }
+      tokens.push({ type: 'string', value: text, position: start });
+      continue;
+    }
+
+    // Identifiers: field names, dotted paths (lineItems.quantity), $field, function names
+    if (isIdentifierStart(char)) {
+      const start = index;
+      index++;
+      while (
+        index < source.length &&
+        (isIdentifierPart(source[index]) ||
+          (source[index] === '.' && isIdentifierStart(source[index + 1] || '')))
+      ) {
+        index++;
+      }
+      tokens.push({ type: 'identifier', value: source.slice(start, index), position: start });
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    if (char === '[' || char === ']') {
+      tokens.push({ type: 'bracket', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    const operator = matchOperator(source, index);
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
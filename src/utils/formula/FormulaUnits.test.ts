@@ -0,0 +1,54 @@
+/**
+ * Formula Units Tests
+ */
+
+import {
+  Quantity,
+  addQuantities,
+  combineQuantities,
+  convertUnits,
+  parseUnit,
+  powerQuantity
+} from './FormulaUnits';
+
+describe('Formula units', () => {
+  test('parses simple and compound units', () => {
+    expect(parseUnit('mm').factor).toBe(1e-3);
+    expect(parseUnit('mm/yr').dimension).toEqual([1, 0, -1, 0]);
+    expect(parseUnit('m2').dimension).toEqual([2, 0, 0, 0]);
+    expect(parseUnit('kg/m^3').dimension).toEqual([-3, 1, 0, 0]);
+    expect(() => parseUnit('furlong')).toThrow("Unknown unit 'furlong'");
+  });
+
+  test('converts between units, including offset temperatures', () => {
+    expect(convertUnits(1, 'ft', 'in')).toBeCloseTo(12, 10);
+    expect(convertUnits(100, '°C', '°F')).toBeCloseTo(212, 10);
+    expect(convertUnits(0, 'psig', 'psi')).toBeCloseTo(14.696, 3);
+    expect(() => convertUnits(1, 'psi', 'in')).toThrow('Cannot convert psi (pressure) to in (length)');
+  });
+
+  test('adds in the left unit and rejects incompatible dimensions', () => {
+    const sum = addQuantities(new Quantity(1, 'in'), new Quantity(25.4, 'mm'));
+    expect(sum.unit.symbol).toBe('in');
+    expect(sum.value).toBeCloseTo(2, 10);
+    expect(addQuantities(new Quantity(20, '°C'), new Quantity(9, '°F')).value).toBeCloseTo(25, 10);
+    expect(() => addQuantities(new Quantity(1, 'psi'), new Quantity(1, 'in'))).toThrow(
+      'Cannot add in (length) to psi (pressure)'
+    );
+  });
+
+  test('combines dimensions when multiplying and dividing', () => {
+    const work = combineQuantities(new Quantity(2, 'N'), new Quantity(3, 'm')) as Quantity;
+    expect(work.unit.symbol).toBe('J');
+    expect(work.value).toBe(6);
+    expect(combineQuantities(new Quantity(25.4, 'mm'), new Quantity(1, 'in'), true)).toBeCloseTo(1, 10);
+    expect(() => combineQuantities(new Quantity(20, '°C'), new Quantity(2, 'm'))).toThrow('Cannot multiply °C');
+  });
+
+  test('raises quantities to powers', () => {
+    const area = powerQuantity(new Quantity(3, 'm'), 2) as Quantity;
+    expect(area.unit.symbol).toBe('m^2');
+    expect((powerQuantity(area, 0.5) as Quantity).unit.symbol).toBe('m');
+    expect(() => powerQuantity(new Quantity(4, 'm'), 0.5)).toThrow('Cannot raise m to the power 0.5');
+  });
+});
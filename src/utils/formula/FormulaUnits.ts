@@ -0,0 +1,348 @@
+/**
+ * Formula Units
+ *
+ * Quantities carry a magnitude together with a unit. Units are described by
+ * a scale factor (and offset, for temperatures) to SI base units plus a
+ * dimension vector, so arithmetic can convert automatically between
+ * compatible units and reject incompatible ones (psi + in).
+ *
+ * Compound units are parsed on demand: "mm/yr", "m^2", "m2", "N*m", "kg/m^3".
+ */
+
+/** Exponents of length, mass, time and temperature */
+export type Dimension = readonly [number, number, number, number];
+
+export interface UnitDefinition {
+  symbol: string;
+  /** Multiply by this to convert a magnitude to SI base units */
+  factor: number;
+  /** Added after scaling, for units with a shifted zero (°C, °F, psig) */
+  offset: number;
+  dimension: Dimension;
+}
+
+const DIMENSIONLESS: Dimension = [0, 0, 0, 0];
+const LENGTH: Dimension = [1, 0, 0, 0];
+const MASS: Dimension = [0, 1, 0, 0];
+const TIME: Dimension = [0, 0, 1, 0];
+const TEMPERATURE: Dimension = [0, 0, 0, 1];
+const AREA: Dimension = [2, 0, 0, 0];
+const VOLUME: Dimension = [3, 0, 0, 0];
+const FORCE: Dimension = [1, 1, -2, 0];
+const PRESSURE: Dimension = [-1, 1, -2, 0];
+const ENERGY: Dimension = [2, 1, -2, 0];
+
+const DIMENSION_NAMES: Array<[Dimension, string]> = [
+  [DIMENSIONLESS, 'dimensionless'],
+  [LENGTH, 'length'],
+  [MASS, 'mass'],
+  [TIME, 'time'],
+  [TEMPERATURE, 'temperature'],
+  [AREA, 'area'],
+  [VOLUME, 'volume'],
+  [[1, 0, -1, 0], 'velocity'],
+  [FORCE, 'force'],
+  [PRESSURE, 'pressure'],
+  [ENERGY, 'energy']
+];
+
+const PSI = 6894.757293168;
+const ATMOSPHERE = 101325;
+
+const units = new Map<string, UnitDefinition>();
+const parsedUnits = new Map<string, UnitDefinition>();
+
+/**
+ * Register a unit (or an alias of one) that formulas and field metadata can use
+ */
+export function registerUnit(
+  symbol: string,
+  factor: number,
+  dimension: Dimension,
+  offset = 0,
+  aliases: string[] = []
+): void {
+  const definition: UnitDefinition = { symbol, factor, offset, dimension };
+  [symbol, ...aliases].forEach(name => units.set(name, definition));
+  parsedUnits.clear();
+}
+
+// Length
+registerUnit('m', 1, LENGTH);
+registerUnit('mm', 1e-3, LENGTH);
+registerUnit('cm', 1e-2, LENGTH);
+registerUnit('km', 1e3, LENGTH);
+registerUnit('µm', 1e-6, LENGTH, 0, ['um', 'μm']);
+registerUnit('in', 0.0254, LENGTH, 0, ['inch']);
+registerUnit('ft', 0.3048, LENGTH);
+registerUnit('yd', 0.9144, LENGTH);
+registerUnit('mi', 1609.344, LENGTH);
+registerUnit('mil', 2.54e-5, LENGTH, 0, ['mils']);
+
+// Mass
+registerUnit('kg', 1, MASS);
+registerUnit('g', 1e-3, MASS);
+registerUnit('t', 1e3, MASS);
+registerUnit('lb', 0.45359237, MASS, 0, ['lbm']);
+
+// Time (a year is 365.25 days)
+registerUnit('s', 1, TIME);
+registerUnit('min', 60, TIME);
+registerUnit('h', 3600, TIME, 0, ['hr']);
+registerUnit('day', 86400, TIME, 0, ['d', 'days']);
+registerUnit('wk', 604800, TIME);
+registerUnit('yr', 31557600, TIME, 0, ['y', 'year', 'years']);
+
+// Temperature
+registerUnit('K', 1, TEMPERATURE);
+registerUnit('°C', 1, TEMPERATURE, 273.15, ['degC', 'C']);
+registerUnit('°F', 5 / 9, TEMPERATURE, 273.15 - (32 * 5) / 9, ['degF', 'F']);
+
+// Area and volume
+registerUnit('L', 1e-3, VOLUME, 0, ['l']);
+registerUnit('mL', 1e-6, VOLUME, 0, ['ml']);
+registerUnit('gal', 0.003785411784, VOLUME);
+registerUnit('ha', 1e4, AREA);
+
+// Force, pressure and energy (psig is gauge pressure: zero at one atmosphere)
+registerUnit('N', 1, FORCE);
+registerUnit('kN', 1e3, FORCE);
+registerUnit('lbf', 4.4482216152605, FORCE);
+registerUnit('Pa', 1, PRESSURE);
+registerUnit('kPa', 1e3, PRESSURE);
+registerUnit('MPa', 1e6, PRESSURE);
+registerUnit('GPa', 1e9, PRESSURE);
+registerUnit('bar', 1e5, PRESSURE);
+registerUnit('mbar', 100, PRESSURE);
+registerUnit('psi', PSI, PRESSURE, 0, ['psia']);
+registerUnit('psig', PSI, PRESSURE, ATMOSPHERE);
+registerUnit('ksi', PSI * 1000, PRESSURE);
+registerUnit('atm', ATMOSPHERE, PRESSURE);
+registerUnit('J', 1, ENERGY);
+registerUnit('kJ', 1e3, ENERGY);
+
+const sameDimension = (a: Dimension, b: Dimension) => a.every((exponent, index) => exponent === b[index]);
+
+const combineDimensions = (a: Dimension, b: Dimension, sign: number): Dimension =>
+  a.map((exponent, index) => exponent + sign * b[index]) as unknown as Dimension;
+
+/**
+ * Human readable name of a unit's dimension, e.g. "pressure"
+ */
+export function describeDimension(dimension: Dimension): string {
+  const match = DIMENSION_NAMES.find(([known]) => sameDimension(known, dimension));
+  if (match) return match[1];
+  const symbols = ['L', 'M', 'T', 'Θ'];
+  return dimension
+    .map((exponent, index) => (exponent === 0 ? '' : exponent === 1 ? symbols[index] : `${symbols[index]}^${exponent}`))
+    .filter(Boolean)
+    .join('·');
+}
+
+/**
+ * Parse one factor of a compound unit: "mm", "m^2", "m2", "in^-1"
+ */
+function parseUnitTerm(term: string, source: string): { unit: UnitDefinition; exponent: number } {
+  const direct = units.get(term);
+  if (direct) return { unit: direct, exponent: 1 };
+
+  const match = /^(.+?)\^?(-?\d+)$/.exec(term);
+  const base = match ? units.get(match[1]) : undefined;
+  if (!match || !base) {
+    throw new Error(`Unknown unit '${source}'`);
+  }
+  return { unit: base, exponent: Number(match[2]) };
+}
+
+/**
+ * Resolve a unit symbol, parsing compound units such as "mm/yr" or "kg/m^3".
+ * Throws when any part of the unit is unknown.
+ */
+export function parseUnit(symbol: string): UnitDefinition {
+  const text = symbol.trim();
+  const known = units.get(text) || parsedUnits.get(text);
+  if (known) return known;
+
+  const [numerator, ...denominators] = text.split('/');
+  const terms: Array<{ term: string; sign: number }> = [];
+  numerator.split(/[*·]/).forEach(term => terms.push({ term: term.trim(), sign: 1 }));
+  denominators.forEach(part => part.split(/[*·]/).forEach(term => terms.push({ term: term.trim(), sign: -1 })));
+
+  let factor = 1;
+  let dimension: Dimension = DIMENSIONLESS;
+  terms.forEach(({ term, sign }) => {
+    // "1/s" style numerators
+    if (term === '1' && sign === 1) return;
+    if (!term) throw new Error(`Unknown unit '${text}'`);
+    const { unit, exponent } = parseUnitTerm(term, text);
+    if (unit.offset !== 0) {
+      throw new Error(`${unit.symbol} cannot be part of a compound unit`);
+    }
+    factor *= Math.pow(unit.factor, sign * exponent);
+    dimension = combineDimensions(dimension, unit.dimension, sign * exponent);
+  });
+
+  const definition: UnitDefinition = { symbol: text, factor, offset: 0, dimension };
+  parsedUnits.set(text, definition);
+  return definition;
+}
+
+/**
+ * A number with a unit. valueOf() returns the magnitude so code that only
+ * understands numbers keeps working.
+ */
+export class Quantity {
+  readonly value: number;
+  readonly unit: UnitDefinition;
+
+  constructor(value: number, unit: UnitDefinition | string) {
+    this.value = value;
+    this.unit = typeof unit === 'string' ? parseUnit(unit) : unit;
+  }
+
+  /** Magnitude in SI base units */
+  get baseValue(): number {
+    return this.value * this.unit.factor + this.unit.offset;
+  }
+
+  /**
+   * Express this quantity in another unit of the same dimension
+   */
+  to(unit: UnitDefinition | string): Quantity {
+    const target = typeof unit === 'string' ? parseUnit(unit) : unit;
+    if (!sameDimension(this.unit.dimension, target.dimension)) {
+      throw new Error(
+        `Cannot convert ${this.unit.symbol} (${describeDimension(this.unit.dimension)}) ` +
+          `to ${target.symbol} (${describeDimension(target.dimension)})`
+      );
+    }
+    return new Quantity((this.baseValue - target.offset) / target.factor, target);
+  }
+
+  valueOf(): number {
+    return this.value;
+  }
+
+  toString(): string {
+    return `${this.value} ${this.unit.symbol}`;
+  }
+}
+
+export const isQuantity = (value: unknown): value is Quantity => value instanceof Quantity;
+
+/**
+ * Convert a plain number between two units
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  return new Quantity(value, from).to(to).value;
+}
+
+/**
+ * Check whether two quantities can be compared or added
+ */
+export function isCompatible(a: Quantity, b: Quantity): boolean {
+  return sameDimension(a.unit.dimension, b.unit.dimension);
+}
+
+/**
+ * Add or subtract quantities. The result is expressed in the left operand's unit;
+ * plain numbers are taken to be in the other operand's unit. The right operand is
+ * converted as a difference, so 20 °C + 9 °F is 25 °C.
+ */
+export function addQuantities(left: Quantity | number, right: Quantity | number, subtract = false): Quantity {
+  const leftQuantity = isQuantity(left) ? left : new Quantity(left, (right as Quantity).unit);
+  const rightQuantity = isQuantity(right) ? right : new Quantity(right, leftQuantity.unit);
+
+  if (!isCompatible(leftQuantity, rightQuantity)) {
+    const verb = subtract ? 'subtract' : 'add';
+    const preposition = subtract ? 'from' : 'to';
+    throw new Error(
+      `Cannot ${verb} ${rightQuantity.unit.symbol} (${describeDimension(rightQuantity.unit.dimension)}) ` +
+        `${preposition} ${leftQuantity.unit.symbol} (${describeDimension(leftQuantity.unit.dimension)})`
+    );
+  }
+
+  const rightValue = (rightQuantity.value * rightQuantity.unit.factor) / leftQuantity.unit.factor;
+  return new Quantity(leftQuantity.value + (subtract ? -rightValue : rightValue), leftQuantity.unit);
+}
+
+/**
+ * Find a registered unit matching a derived dimension and scale (N·m → J)
+ */
+function findNamedUnit(factor: number, dimension: Dimension): UnitDefinition | undefined {
+  let found: UnitDefinition | undefined;
+  units.forEach(unit => {
+    if (
+      !found &&
+      unit.offset === 0 &&
+      sameDimension(unit.dimension, dimension) &&
+      Math.abs(unit.factor - factor) <= Math.abs(factor) * 1e-9
+    ) {
+      found = unit;
+    }
+  });
+  return found;
+}
+
+const wrapSymbol = (symbol: string) => (/[*/·^]/.test(symbol) ? `(${symbol})` : symbol);
+
+function deriveQuantity(value: number, factor: number, dimension: Dimension, symbol: string): Quantity | number {
+  if (sameDimension(dimension, DIMENSIONLESS)) {
+    return value * factor;
+  }
+  const unit = findNamedUnit(factor, dimension) || { symbol, factor, offset: 0, dimension };
+  return new Quantity(value, unit);
+}
+
+function assertNoOffset(quantity: Quantity, operation: string): void {
+  if (quantity.unit.offset !== 0) {
+    throw new Error(`Cannot ${operation} ${quantity.unit.symbol}; CONVERT it to an absolute unit first`);
+  }
+}
+
+/**
+ * Multiply or divide two values, combining their units. Results without a
+ * dimension (e.g. mm / in) are returned as plain numbers.
+ */
+export function combineQuantities(left: Quantity | number, right: Quantity | number, divide = false): Quantity | number {
+  const leftValue = isQuantity(left) ? left.value : left;
+  const rightValue = isQuantity(right) ? right.value : right;
+  const value = divide ? leftValue / rightValue : leftValue * rightValue;
+
+  // Scaling by a plain number keeps the unit as it is
+  if (!isQuantity(right)) return new Quantity(value, (left as Quantity).unit);
+  if (!isQuantity(left)) {
+    if (!divide) return new Quantity(value, right.unit);
+    assertNoOffset(right, 'divide by');
+    return deriveQuantity(value, 1 / right.unit.factor, combineDimensions(DIMENSIONLESS, right.unit.dimension, -1), `1/${wrapSymbol(right.unit.symbol)}`);
+  }
+
+  assertNoOffset(left, divide ? 'divide' : 'multiply');
+  assertNoOffset(right, divide ? 'divide by' : 'multiply by');
+
+  const sign = divide ? -1 : 1;
+  const factor = left.unit.factor * Math.pow(right.unit.factor, sign);
+  const dimension = combineDimensions(left.unit.dimension, right.unit.dimension, sign);
+  const symbol =
+    !divide && left.unit.symbol === right.unit.symbol
+      ? `${wrapSymbol(left.unit.symbol)}^2`
+      : `${wrapSymbol(left.unit.symbol)}${divide ? '/' : '*'}${wrapSymbol(right.unit.symbol)}`;
+  return deriveQuantity(value, factor, dimension, symbol);
+}
+
+/**
+ * Raise a quantity to a power; the unit's dimensions must stay whole (√m² is fine, √m is not)
+ */
+export function powerQuantity(base: Quantity, exponent: number): Quantity | number {
+  assertNoOffset(base, 'raise');
+  const dimension = base.unit.dimension.map(value => value * exponent) as unknown as Dimension;
+  if (dimension.some(value => !Number.isInteger(value))) {
+    throw new Error(`Cannot raise ${base.unit.symbol} to the power ${exponent}`);
+  }
+  return deriveQuantity(
+    Math.pow(base.value, exponent),
+    Math.pow(base.unit.factor, exponent),
+    dimension,
+    `${wrapSymbol(base.unit.symbol)}^${exponent}`
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * Formula Values
+ *
+ * Runtime value model shared by the formula interpreter and the calculators.
+ * Values are plain JavaScript values so registered functions can keep
+ * working with numbers, strings and arrays directly. Numbers with a unit
+ * are Quantity objects (see FormulaUnits).
+ */
+
+import { Quantity, isCompatible } from './FormulaUnits';
+
+export type FormulaValue =
+  | number
+  | string
+  | boolean
+  | Date
+  | Quantity
+  | null
+  | FormulaValue[];
+
+export type FormulaValueType = 'number' | 'string' | 'boolean' | 'date' | 'quantity' | 'array' | 'empty';
+
+const NUMERIC_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the formula type of a runtime value
+ */
+export function getValueType(value: FormulaValue): FormulaValueType {
+  if (value === null || value === undefined) return 'empty';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value instanceof Quantity) return 'quantity';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+}
+
+/**
+ * Check whether a string holds a plain numeric literal
+ */
+export function isNumericString(value: string): boolean {
+  return NUMERIC_PATTERN.test(value.trim());
+}
+
+/**
+ * Normalize a raw form/context value into a formula value.
+ * Numeric strings become numbers (form inputs store numbers as text),
+ * missing values become null and nested objects are left to the caller.
+ */
+export function normalizeValue(raw: any): FormulaValue {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw === 'number' || typeof raw === 'boolean' || raw instanceof Date || raw instanceof Quantity) {
+    return raw;
+  }
+  if (Array.isArray(raw)) return raw.map(normalizeValue);
+  if (typeof raw === 'string') return isNumericString(raw) ? Number(raw) : raw;
+  return String(raw);
+}
+
+/**
+ * Convert a value to a number. Returns NaN when the value has no numeric meaning.
+ */
+export function toNumber(value: FormulaValue): number {
+  switch (getValueType(value)) {
+    case 'empty':
+      return 0;
+    case 'number':
+      return value as number;
+    case 'quantity':
+      return (value as Quantity).value;
+    case 'boolean':
+      return value ? 1 : 0;
+    case 'date':
+      return (value as Date).getTime() / MS_PER_DAY;
+    case 'string': {
+      const text = (value as string).trim();
+      if (text === '') return 0;
+      return isNumericString(text) ? Number(text) : NaN;
+    }
+    default:
+      return NaN;
+  }
+}
+
+/**
+ * Convert a value to a boolean using spreadsheet-like truthiness
+ */
+export function toBoolean(value: FormulaValue): boolean {
+  switch (getValueType(value)) {
+    case 'empty':
+      return false;
+    case 'boolean':
+      return value as boolean;
+    case 'number':
+      return (value as number) !== 0;
+    case 'quantity':
+      return (value as Quantity).value !== 0;
+    case 'string': {
+      const text = (value as string).trim().toUpperCase();
+      if (text === 'FALSE' || text === '') return false;
+      if (isNumericString(text)) return Number(text) !== 0;
+      return true;
+    }
+    case 'array':
+      return (value as FormulaValue[]).length > 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Convert a value to display text
+ */
+export function toText(value: FormulaValue): string {
+  switch (getValueType(value)) {
+    case 'empty':
+      return '';
+    case 'boolean':
+      return value ? 'TRUE' : 'FALSE';
+    case 'date':
+      return (value as Date).toISOString().slice(0, 10);
+    case 'array':
+      return (value as FormulaValue[]).map(toText).join(', ');
+    case 'quantity':
+      return (value as Quantity).toString();
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Convert a value to a date. Returns null when the value is not a date.
+ */
+export function toDate(value: FormulaValue): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value.trim())) {
+    const parsed = new Date(value.trim());
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Add a number of days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Whole-day difference between two dates (a - b)
+ */
+export function diffDays(a: Date, b: Date): number {
+  return (a.getTime() - b.getTime()) / MS_PER_DAY;
+}
+
+/**
+ * Flatten nested arrays into a single list of scalar values
+ */
+export function flattenValues(values: FormulaValue[]): FormulaValue[] {
+  const result: FormulaValue[] = [];
+  values.forEach(value => {
+    if (Array.isArray(value)) {
+      result.push(...flattenValues(value));
+    } else {
+      result.push(value);
+    }
+  });
+  return result;
+}
+
+/**
+ * Compare two values. Returns a negative number, zero or a positive number,
+ * or null when the values cannot be ordered against each other.
+ */
+export function compareValues(left: FormulaValue, right: FormulaValue): number | null {
+  const leftDate = toDate(left);
+  const rightDate = toDate(right);
+  if (leftDate && rightDate && (left instanceof Date || right instanceof Date)) {
+    return leftDate.getTime() - rightDate.getTime();
+  }
+
+  // Quantities compare by their SI magnitude; a plain number is taken to be in the same unit
+  if (left instanceof Quantity && right instanceof Quantity) {
+    return isCompatible(left, right) ? left.baseValue - right.baseValue : null;
+  }
+
+  const leftType = getValueType(left);
+  const rightType = getValueType(right);
+
+  if (leftType === 'string' && rightType === 'string') {
+    const a = left as string;
+    const b = right as string;
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  if (leftType === 'array' || rightType === 'array') {
+    return null;
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isNaN(a) || isNaN(b)) {
+    // Mixed text and numbers: fall back to text comparison
+    const textA = toText(left);
+    const textB = toText(right);
+    return textA < textB ? -1 : textA > textB ? 1 : 0;
+  }
+  return a - b;
+}
+
+/**
+ * Equality used by the =, == and != operators
+ */
+export function valuesEqual(left: FormulaValue, right: FormulaValue): boolean {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (!Array.isArray(left) || !Array.isArray(right) || left.length !== right.length) {
+      return false;
+    }
+    return left.every((item, index) => valuesEqual(item, right[index]));
+  }
+  return compareValues(left, right) === 0;
+}
+
+/**
+ * Resolve a field name or dotted path (e.g. lineItems.quantity) against a data object.
+ * Paths that cross an array collect the value from every item.
+ * Returns undefined when the field does not exist.
+ */
+export function resolveFieldPath(data: Record<string, any>, path: string): any {
+  if (!data) return undefined;
+  if (Object.prototype.hasOwnProperty.call(data, path)) return data[path];
+
+  const segments = path.split('.');
+  if (segments.length === 1) return undefined;
+
+  const walk = (current: any, index: number): any => {
+    if (index === segments.length) return current;
+    if (current === undefined || current === null) return undefined;
+    if (Array.isArray(current)) {
+      return current.map(item => walk(item, index)).filter(item => item !== undefined);
+    }
+    if (typeof current !== 'object') return undefined;
+    return walk(current[segments[index]], index + 1);
+  };
+
+  return walk(data, 0);
+}
@@ -0,0 +1,17 @@
+/**
+ * Formula Engine
+ *
+ * Tokenizer, parser, AST interpreter and function library shared by FormulaCalculator and
+ * CommercialFormulaCalculator.
+ */
+
+export * from './FormulaErrors';
+export * from './FormulaValue';
+export * from './FormulaUnits';
+export * from './FormulaTokenizer';
+export * from './FormulaParser';
+export * from './FormulaInterpreter';
+export * from './FormulaDependencyGraph';
+export * from './FormulaFunctions';
+export * from './FormulaDateFunctions';
+export * from './FormulaLookupFunctions';
@@ -0,0 +1,56 @@
+import { combineArrays, diffRecords, mergeRecords } from './recordMerge';
+
+describe('recordMerge', () => {
+  const local = {
+    revision: 3,
+    inspectorName: 'Ina',
+    documentSummary: { inspectorName: 'Ina' },
+    wizardState: {
+      updatedAt: '2026-01-02',
+      sections: [
+        { id: 'general', formData: { location: 'North', notes: 'ok' } },
+        { id: 'readings', formData: { tmls: [{ id: 't1', thickness: 0.5 }] } }
+      ]
+    }
+  };
+  const server = {
+    revision: 4,
+    inspectorName: 'Rex',
+    documentSummary: { inspectorName: 'Rex' },
+    wizardState: {
+      updatedAt: '2026-01-03',
+      sections: [
+        { id: 'readings', formData: { tmls: [{ id: 't2', thickness: 0.48 }] } },
+        { id: 'general', formData: { location: 'South', notes: 'ok' } }
+      ]
+    }
+  };
+
+  it('reports differing fields once, matching sections by id and ignoring metadata', () => {
+    const conflicts = diffRecords(local, server);
+
+    expect(conflicts.map(conflict => conflict.label)).toEqual(['inspectorName', 'location', 'tmls']);
+    expect(conflicts[0].paths).toEqual([['inspectorName'], ['documentSummary', 'inspectorName']]);
+    expect(conflicts[1]).toMatchObject({ key: 'wizardState.sections.[general].formData.location', local: 'North', server: 'South', combinable: false });
+    expect(conflicts[2].combinable).toBe(true);
+  });
+
+  it('applies server, local and combined choices', () => {
+    const conflicts = diffRecords(local, server);
+    const merged: any = mergeRecords(local, conflicts, {
+      inspectorName: 'server',
+      'wizardState.sections.[readings].formData.tmls': 'both'
+    });
+
+    expect(merged.inspectorName).toBe('Rex');
+    expect(merged.documentSummary.inspectorName).toBe('Rex');
+    expect(merged.wizardState.sections[0].formData.location).toBe('North');
+    expect(merged.wizardState.sections[1].formData.tmls.map((row: any) => row.id)).toEqual(['t1', 't2']);
+    expect(local.inspectorName).toBe('Ina');
+  });
+
+  it('combines arrays without duplicating items', () => {
+    expect(combineArrays([{ uid: 'a' }, 'x'], [{ uid: 'a', note: 1 }, { uid: 'b' }, 'x', 'y']))
+      .toEqual([{ uid: 'a' }, 'x', { uid: 'b' }, 'y']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Record Merge
+ *
+ * Field-level comparison of a local record (the save that was rejected) with
+ * the server copy returned by a revision conflict, and the merge of the two
+ * once the user picked a side for every differing field.
+ *
+ * - Nested objects are compared field by field. Arrays whose items carry the
+ *   same set of `id`s on both sides (wizard sections) are matched by id;
+ *   other arrays (grid rows, photos) are compared as a whole and can be
+ *   combined ("both").
+ * - Only fields present in the local record are compared; fields the server
+ *   copy has on its own are kept by the save anyway.
+ * - The same value saved under several paths (summary fields are copied to
+ *   the root, documentSummary and sectionData) is reported once.
+ */
+
+export type MergeChoice = 'local' | 'server' | 'both';
+
+/**
+ * A save was made against an older revision; carries both copies for the merge
+ */
+export class RevisionConflictError extends Error {
+  constructor(public readonly local: any, public readonly server: any) {
+    super('This record was changed by someone else. Review the differences before saving again.');
+    this.name = 'RevisionConflictError';
+  }
+}
+
+/** Object key, or the id of an item in an array of objects */
+export type RecordPathSegment = string | { id: string };
+
+export interface FieldConflict {
+  key: string;
+  label: string;
+  paths: RecordPathSegment[][];
+  local: any;
+  server: any;
+  /** Both values are arrays, so "both" is offered */
+  combinable: boolean;
+}
+
+const IGNORED_KEYS = new Set([
+  '_id',
+  '__v',
+  'revision',
+  'last_updated',
+  'last_updated_by',
+  'created_date',
+  'created_by',
+  'updatedAt',
+  'lastSavedSectionId'
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const isKeyedArray = (value: unknown): value is Array<{ id: string }> =>
+  Array.isArray(value) && value.length > 0 && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameIds = (a: Array<{ id: string }>, b: Array<{ id: string }>) =>
+  same(a.map(item => item.id).sort(), b.map(item => item.id).sort());
+
+interface Leaf {
+  path: RecordPathSegment[];
+  local: any;
+  server: any;
+}
+
+const collectLeaves = (local: any, server: any, path: RecordPathSegment[], leaves: Leaf[]) => {
+  if (isPlainObject(local)) {
+    Object.keys(local)
+      .filter(key => !IGNORED_KEYS.has(key))
+      .forEach(key => collectLeaves(local[key], isPlainObject(server) ? server[key] : undefined, [...path, key], leaves));
+    return;
+  }
+  if (isKeyedArray(local) && isKeyedArray(server) && sameIds(local, server)) {
+    local.forEach(item => collectLeaves(item, server.find(candidate => candidate.id === item.id), [...path, { id: item.id }], leaves));
+    return;
+  }
+  leaves.push({ path, local, server });
+};
+
+/**
+ * Set a value in place, creating missing objects along the way
+ */
+export function setAtPath(target: any, path: RecordPathSegment[], value: any): void {
+  let current = target;
+  path.forEach((segment, index) => {
+    const last = index === path.length - 1;
+    if (typeof segment === 'string') {
+      if (last) {
+        current[segment] = value;
+      } else {
+        if (!current[segment] || typeof current[segment] !== 'object') current[segment] = {};
+        current = current[segment];
+      }
+      return;
+    }
+    const position = Array.isArray(current) ? current.findIndex(item => item?.id === segment.id) : -1;
+    if (position < 0) return;
+    if (last) current[position] = value;
+    else current = current[position];
+  });
+}
+
+const describePath = (path: RecordPathSegment[]) =>
+  path.map(segment => (typeof segment === 'string' ? segment : `[${segment.id}]`)).join('.');
+
+/**
+ * Fields whose local value differs from the server copy
+ */
+export function diffRecords(local: any, server: any): FieldConflict[] {
+  const leaves: Leaf[] = [];
+  collectLeaves(local, server, [], leaves);
+
+  const conflicts = new Map<string, FieldConflict>();
+  leaves.forEach(({ path, local: value, server: serverValue }) => {
+    if (serverValue === undefined || same(value, serverValue)) return;
+
+    const label = [...path].reverse().find((segment): segment is string => typeof segment === 'string') || describePath(path);
+    const groupKey = `${label}|${JSON.stringify(value)}|${JSON.stringify(serverValue)}`;
+    const existing = conflicts.get(groupKey);
+    if (existing) {
+      existing.paths.push(path);
+      return;
+    }
+    conflicts.set(groupKey, {
+      key: describePath(path),
+      label,
+      paths: [path],
+      local: value,
+      server: serverValue,
+      combinable: Array.isArray(value) && Array.isArray(serverValue)
+    });
+  });
+
+  return Array.from(conflicts.values());
+}
+
+const itemIdentity = (item: any) =>
+  isPlainObject(item) && (item.id || item.uid || item.gridfsId) ? String(item.id || item.uid || item.gridfsId) : JSON.stringify(item);
+
+/**
+ * Local items followed by the server items the local array does not have
+ */
+export function combineArrays(local: any[], server: any[]): any[] {
+  const seen = new Set(local.map(itemIdentity));
+  return [...local, ...server.filter(item => !seen.has(itemIdentity(item)))];
+}
+
+/**
+ * Apply the user's choices (default: keep local) to a copy of the local record
+ */
+export function mergeRecords<T = any>(
+  local: T,
+  conflicts: FieldConflict[],
+  choices: Record<string, MergeChoice>
+): T {
+  const merged = JSON.parse(JSON.stringify(local));
+  conflicts.forEach(conflict => {
+    const choice = choices[conflict.key] || 'local';
+    if (choice === 'local') return;
+    const value = choice === 'both' && conflict.combinable
+      ? combineArrays(conflict.local, conflict.server)
+      : conflict.server;
+    conflict.paths.forEach(path => setAtPath(merged, path, JSON.parse(JSON.stringify(value))));
+  });
+  return merged;
+}
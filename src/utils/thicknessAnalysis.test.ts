@@ -0,0 +1,102 @@
+/**
+ * Thickness Analysis Tests
+ *
+ * Corrosion rates, remaining life, half-life intervals, reading flags and
+ * form output mapping.
+ */
+
+import { analyzeThickness, getThicknessOutputValues, ThicknessReading } from './thicknessAnalysis';
+
+describe('Thickness analysis', () => {
+  const readings: ThicknessReading[] = [
+    { tmlId: 'TML-1', date: '2010-01-01', thickness: 0.5, location: 'Shell 3 o\'clock' },
+    { tmlId: 'TML-1', date: '2015-01-01', thickness: 0.45 },
+    { tmlId: 'TML-1', date: '2020-01-01', thickness: 0.42 },
+    { tmlId: 'TML-2', date: '2010-01-01', thickness: 0.5 },
+    { tmlId: 'TML-2', date: '2020-01-01', thickness: 0.48 },
+    { tmlId: 'TML-3', date: '2020-01-01', thickness: 0 }
+  ];
+
+  test('computes short- and long-term rates, remaining life and the half-life inspection date', () => {
+    const result = analyzeThickness(readings, { requiredThickness: 0.3 });
+
+    expect(result.tmls.map(tml => tml.tmlId)).toEqual(['TML-1', 'TML-2']);
+    expect(result.tmls[0]).toMatchObject({
+      location: 'Shell 3 o\'clock',
+      initialThickness: 0.5,
+      previousThickness: 0.45,
+      actualThickness: 0.42,
+      shortTermRate: 0.006,
+      longTermRate: 0.008,
+      governingRate: 0.008,
+      remainingLife: 15,
+      nextInspectionDate: '2027-06-01'
+    });
+    // 90 years of life left, so the interval is capped at 10 years
+    expect(result.tmls[1]).toMatchObject({ governingRate: 0.002, remainingLife: 90, nextInspectionDate: '2030-01-01' });
+
+    expect(result.governingTml?.tmlId).toBe('TML-1');
+    expect(result).toMatchObject({ corrosionRate: 0.008, remainingLife: 15, minimumThickness: 0.42 });
+    expect(result.nextInspectionDate).toBe('2027-06-01');
+    expect(result.trend).toEqual([
+      { date: '2010-01-01', minimumThickness: 0.5, averageThickness: 0.5, requiredThickness: 0.3 },
+      { date: '2015-01-01', minimumThickness: 0.45, averageThickness: 0.45, requiredThickness: 0.3 },
+      { date: '2020-01-01', minimumThickness: 0.42, averageThickness: 0.45, requiredThickness: 0.3 }
+    ]);
+  });
+
+  test('flags outlying rates, apparent growth and readings below the required thickness', () => {
+    const survey = (tmlId: string, before: number, after: number): ThicknessReading[] => [
+      { tmlId, date: '2015-01-01', thickness: before },
+      { tmlId, date: '2020-01-01', thickness: after }
+    ];
+    const result = analyzeThickness(
+      [
+        ...survey('A', 0.5, 0.49),
+        ...survey('B', 0.5, 0.488),
+        ...survey('C', 0.5, 0.491),
+        ...survey('D', 0.5, 0.489),
+        ...survey('E', 0.5, 0.29),
+        ...survey('F', 0.5, 0.52)
+      ],
+      { requiredThickness: 0.3 }
+    );
+
+    expect(result.flags.map(flag => [flag.tmlId, flag.reason])).toEqual([
+      ['E', 'below-required'],
+      ['F', 'growth'],
+      ['E', 'outlier'],
+      ['F', 'outlier']
+    ]);
+    expect(result.tmls.find(tml => tml.tmlId === 'E')?.remainingLife).toBe(0);
+    expect(result.tmls.find(tml => tml.tmlId === 'F')).toMatchObject({ governingRate: 0, remainingLife: null });
+  });
+
+  test('uses the baseline for long-term rates and maps results to form fields', () => {
+    const result = analyzeThickness([{ tmlId: 'N1', date: '2020-01-01', thickness: 0.45, requiredThickness: 0.35 }], {
+      baseline: { thickness: 0.5, date: '2010-01-01' }
+    });
+    expect(result.tmls[0]).toMatchObject({ shortTermRate: null, longTermRate: 0.005, requiredThickness: 0.35, remainingLife: 20 });
+    expect(analyzeThickness([{ tmlId: 'N1', date: '2020-01-01', thickness: 0.45 }]).nextInspectionDate).toBeNull();
+
+    expect(
+      getThicknessOutputValues(
+        {
+          readingsField: 'tml-readings',
+          rateUnit: 'mpy',
+          outputs: {
+            corrosionRate: 'corrosion-rate-measured',
+            remainingLife: ['remaining-life-calculation', 'remaining-life-years'],
+            governingTml: 'governing-tml'
+          }
+        },
+        result
+      )
+    ).toEqual({
+      'corrosion-rate-measured': 5,
+      'remaining-life-calculation': 20,
+      'remaining-life-years': 20,
+      'governing-tml': 'N1'
+    });
+  });
+});
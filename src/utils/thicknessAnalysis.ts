@@ -0,0 +1,382 @@
+/**
+ * Thickness Analysis
+ *
+ * Corrosion rates, remaining life and next inspection dates from thickness
+ * monitoring location (TML) readings, following the API 510 / API 570 method:
+ *
+ *   long-term rate  = (t_initial - t_actual) / years between them
+ *   short-term rate = (t_previous - t_actual) / years between them
+ *   remaining life  = (t_actual - t_required) / max(long-term, short-term)
+ *   next inspection = last reading + min(remaining life / 2, maxInterval),
+ *                     in whole months
+ *
+ * Readings are unit-agnostic (rates are thickness units per year). A document
+ * form gadget config declares where readings come from and where results go:
+ *
+ *   "thicknessAnalysis": {
+ *     "readingsField": "tml-readings",
+ *     "requiredThicknessField": "minimum-thickness",
+ *     "maxInterval": 10,
+ *     "rateUnit": "mpy",
+ *     "outputs": {
+ *       "corrosionRate": "corrosion-rate-measured",
+ *       "remainingLife": ["remaining-life-calculation", "remaining-life-years"],
+ *       "nextInspectionDate": "next-inspection-date"
+ *     }
+ *   }
+ *
+ * Readings whose interval rate lies outside the robust bounds of the asset's
+ * rates (median ± outlierThreshold scaled MADs) are flagged, as are apparent
+ * thickness growth and readings below the required thickness. Flagged
+ * readings are still used in the calculations; they are for review.
+ */
+
+export interface ThicknessReading {
+  tmlId: string;
+  /** Reading date (ISO string or Date) */
+  date: string | Date;
+  thickness: number | string;
+  location?: string;
+  /** Required thickness for this TML; overrides the analysis default */
+  requiredThickness?: number | string;
+}
+
+export interface ThicknessAnalysisOptions {
+  /** Required (minimum) thickness for TMLs without their own */
+  requiredThickness?: number;
+  /** Initial thickness (e.g. nominal at installation) for long-term rates; defaults to each TML's first reading */
+  baseline?: { thickness: number; date: string | Date };
+  /** Longest inspection interval in years (default 10) */
+  maxInterval?: number;
+  /** Modified z-score above which a reading's interval rate is an outlier (default 3.5) */
+  outlierThreshold?: number;
+  /** Thickness increase between readings accepted as measurement scatter (default 0) */
+  growthTolerance?: number;
+}
+
+export type ThicknessFlagReason = 'outlier' | 'growth' | 'below-required';
+
+export interface ThicknessReadingFlag {
+  tmlId: string;
+  date: string;
+  thickness: number;
+  reason: ThicknessFlagReason;
+  message: string;
+}
+
+export interface TmlAnalysis {
+  tmlId: string;
+  location?: string;
+  readingCount: number;
+  lastDate: string;
+  initialThickness: number;
+  previousThickness: number | null;
+  actualThickness: number;
+  requiredThickness: number | null;
+  /** Thickness units per year; null without an earlier reading */
+  shortTermRate: number | null;
+  longTermRate: number | null;
+  governingRate: number | null;
+  /** Years; null when the rate or required thickness is unknown, or the rate is zero */
+  remainingLife: number | null;
+  /** yyyy-mm-dd; null when the required thickness or rate is unknown */
+  nextInspectionDate: string | null;
+}
+
+export interface ThicknessTrendPoint {
+  date: string;
+  minimumThickness: number;
+  averageThickness: number;
+  requiredThickness: number | null;
+}
+
+export interface ThicknessAnalysisResult {
+  tmls: TmlAnalysis[];
+  /** TML with the shortest remaining life (or highest rate) */
+  governingTml: TmlAnalysis | null;
+  corrosionRate: number | null;
+  shortTermRate: number | null;
+  longTermRate: number | null;
+  remainingLife: number | null;
+  nextInspectionDate: string | null;
+  minimumThickness: number | null;
+  flags: ThicknessReadingFlag[];
+  /** Interval-rate bounds used for outlier flags; null with too few intervals */
+  rateBounds: { lower: number; upper: number } | null;
+  /** Chart rows for GenericChartGadget: thickness per survey date */
+  trend: ThicknessTrendPoint[];
+}
+
+export type ThicknessOutputKey =
+  | 'corrosionRate'
+  | 'shortTermRate'
+  | 'longTermRate'
+  | 'remainingLife'
+  | 'nextInspectionDate'
+  | 'minimumThickness'
+  | 'governingTml'
+  | 'flagCount';
+
+export interface ThicknessAnalysisConfig extends ThicknessAnalysisOptions {
+  /** Field holding the readings (e.g. an inline-editable-grid) */
+  readingsField: string;
+  /** Field holding the default required thickness */
+  requiredThicknessField?: string;
+  /** "mpy" writes rates in mils per year (readings in inches) */
+  rateUnit?: 'per-year' | 'mpy';
+  /** Result -> form field(s) that receive it */
+  outputs?: Partial<Record<ThicknessOutputKey, string | string[]>>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_INTERVALS_FOR_BOUNDS = 4;
+
+const toNumber = (value: any): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+const toDate = (value: string | Date): Date | null => {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const yearsBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / (365.25 * DAY_MS);
+
+// Rounded down, so the due date never falls after the computed interval
+const addWholeMonths = (date: Date, months: number) => {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() + Math.floor(months));
+  return result;
+};
+
+const round = (value: number | null, digits: number) =>
+  value === null ? null : Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Robust bounds (median ± threshold scaled MADs) of a set of rates
+ */
+function rateBounds(rates: number[], threshold: number): { lower: number; upper: number } | null {
+  if (rates.length < MIN_INTERVALS_FOR_BOUNDS) return null;
+  const center = median(rates);
+  const deviations = rates.map(rate => Math.abs(rate - center));
+  // Scaled MAD; falls back to the mean absolute deviation when half the rates are identical
+  let spread = median(deviations) / 0.6745;
+  if (spread === 0) {
+    spread = (deviations.reduce((sum, deviation) => sum + deviation, 0) / deviations.length) * 1.2533;
+  }
+  if (spread === 0) return null;
+  return { lower: center - threshold * spread, upper: center + threshold * spread };
+}
+
+/**
+ * Analyse TML readings of one asset
+ */
+export function analyzeThickness(
+  readings: ThicknessReading[],
+  options: ThicknessAnalysisOptions = {}
+): ThicknessAnalysisResult {
+  const maxInterval = options.maxInterval ?? 10;
+  const growthTolerance = options.growthTolerance ?? 0;
+  const baselineDate = options.baseline ? toDate(options.baseline.date) : null;
+
+  // Usable readings grouped by TML, oldest first; blank and zero thicknesses are ignored
+  const byTml = new Map<string, Array<{ date: Date; thickness: number; source: ThicknessReading }>>();
+  (readings || []).forEach(reading => {
+    const thickness = toNumber(reading.thickness);
+    const date = reading.date ? toDate(reading.date) : null;
+    if (!reading.tmlId || thickness === null || thickness <= 0 || !date) return;
+    const key = String(reading.tmlId);
+    if (!byTml.has(key)) byTml.set(key, []);
+    byTml.get(key)!.push({ date, thickness, source: reading });
+  });
+
+  const flags: ThicknessReadingFlag[] = [];
+  const intervals: Array<{ tmlId: string; date: Date; thickness: number; rate: number }> = [];
+
+  const tmls: TmlAnalysis[] = Array.from(byTml.entries()).map(([tmlId, series]) => {
+    series.sort((a, b) => a.date.getTime() - b.date.getTime());
+    const last = series[series.length - 1];
+    const previous = series.length > 1 ? series[series.length - 2] : null;
+    const first = baselineDate ? { date: baselineDate, thickness: options.baseline!.thickness } : series[0];
+    const requiredThickness =
+      toNumber(series.map(point => point.source.requiredThickness).reverse().find(value => toNumber(value) !== null)) ??
+      options.requiredThickness ??
+      null;
+
+    series.slice(1).forEach((point, index) => {
+      const before = series[index];
+      const years = yearsBetween(before.date, point.date);
+      if (years <= 0) return;
+      intervals.push({ tmlId, date: point.date, thickness: point.thickness, rate: (before.thickness - point.thickness) / years });
+      if (point.thickness - before.thickness > growthTolerance) {
+        flags.push({
+          tmlId,
+          date: formatDate(point.date),
+          thickness: point.thickness,
+          reason: 'growth',
+          message: `${tmlId}: ${point.thickness} is thicker than the previous reading (${before.thickness})`
+        });
+      }
+    });
+    if (requiredThickness !== null && last.thickness < requiredThickness) {
+      flags.push({
+        tmlId,
+        date: formatDate(last.date),
+        thickness: last.thickness,
+        reason: 'below-required',
+        message: `${tmlId}: ${last.thickness} is below the required thickness (${requiredThickness})`
+      });
+    }
+
+    // Negative rates (apparent growth) count as no corrosion
+    const rate = (from: { date: Date; thickness: number } | null) => {
+      if (!from || from === last) return null;
+      const years = yearsBetween(from.date, last.date);
+      return years > 0 ? Math.max((from.thickness - last.thickness) / years, 0) : null;
+    };
+    const shortTermRate = rate(previous);
+    const longTermRate = rate(first);
+    const known = [shortTermRate, longTermRate].filter((value): value is number => value !== null);
+    const governingRate = known.length > 0 ? Math.max(...known) : null;
+
+    let remainingLife: number | null = null;
+    let interval: number | null = null;
+    if (requiredThickness !== null && governingRate !== null) {
+      if (governingRate > 0) {
+        remainingLife = Math.max((last.thickness - requiredThickness) / governingRate, 0);
+        interval = Math.min(remainingLife / 2, maxInterval);
+      } else {
+        interval = maxInterval;
+      }
+    }
+
+    return {
+      tmlId,
+      location: series.map(point => point.source.location).reverse().find(Boolean),
+      readingCount: series.length,
+      lastDate: formatDate(last.date),
+      initialThickness: first.thickness,
+      previousThickness: previous ? previous.thickness : null,
+      actualThickness: last.thickness,
+      requiredThickness,
+      shortTermRate: round(shortTermRate, 5),
+      longTermRate: round(longTermRate, 5),
+      governingRate: round(governingRate, 5),
+      remainingLife: round(remainingLife, 1),
+      nextInspectionDate: interval === null ? null : formatDate(addWholeMonths(last.date, interval * 12))
+    };
+  });
+
+  const bounds = rateBounds(
+    intervals.map(interval => interval.rate),
+    options.outlierThreshold ?? 3.5
+  );
+  if (bounds) {
+    intervals
+      .filter(interval => interval.rate < bounds.lower || interval.rate > bounds.upper)
+      .forEach(interval =>
+        flags.push({
+          tmlId: interval.tmlId,
+          date: formatDate(interval.date),
+          thickness: interval.thickness,
+          reason: 'outlier',
+          message: `${interval.tmlId}: rate ${round(interval.rate, 5)} per year is outside the expected range (${round(
+            bounds.lower,
+            5
+          )} to ${round(bounds.upper, 5)})`
+        })
+      );
+  }
+
+  // Governing TML: shortest remaining life, then highest rate
+  const governingTml =
+    [...tmls].sort(
+      (a, b) =>
+        (a.remainingLife ?? Infinity) - (b.remainingLife ?? Infinity) ||
+        (b.governingRate ?? -1) - (a.governingRate ?? -1)
+    )[0] || null;
+  const maxOf = (values: Array<number | null>) => {
+    const known = values.filter((value): value is number => value !== null);
+    return known.length > 0 ? Math.max(...known) : null;
+  };
+  const minOf = (values: Array<number | null>) => {
+    const known = values.filter((value): value is number => value !== null);
+    return known.length > 0 ? Math.min(...known) : null;
+  };
+
+  const byDate = new Map<string, number[]>();
+  byTml.forEach(series =>
+    series.forEach(point => {
+      const key = formatDate(point.date);
+      byDate.set(key, [...(byDate.get(key) || []), point.thickness]);
+    })
+  );
+  const requiredForTrend = minOf(tmls.map(tml => tml.requiredThickness));
+  const trend = Array.from(byDate.keys())
+    .sort()
+    .map(date => {
+      const values = byDate.get(date)!;
+      return {
+        date,
+        minimumThickness: Math.min(...values),
+        averageThickness: round(values.reduce((sum, value) => sum + value, 0) / values.length, 4)!,
+        requiredThickness: requiredForTrend
+      };
+    });
+
+  const nextDates = tmls.map(tml => tml.nextInspectionDate).filter((date): date is string => !!date).sort();
+
+  return {
+    tmls,
+    governingTml,
+    corrosionRate: maxOf(tmls.map(tml => tml.governingRate)),
+    shortTermRate: maxOf(tmls.map(tml => tml.shortTermRate)),
+    longTermRate: maxOf(tmls.map(tml => tml.longTermRate)),
+    remainingLife: minOf(tmls.map(tml => tml.remainingLife)),
+    nextInspectionDate: nextDates[0] || null,
+    minimumThickness: minOf(tmls.map(tml => tml.actualThickness)),
+    flags,
+    rateBounds: bounds ? { lower: round(bounds.lower, 5)!, upper: round(bounds.upper, 5)! } : null,
+    trend
+  };
+}
+
+/**
+ * Form field values for the configured outputs
+ */
+export function getThicknessOutputValues(
+  config: ThicknessAnalysisConfig,
+  result: ThicknessAnalysisResult
+): Record<string, any> {
+  const scaleRate = (rate: number | null) => (rate !== null && config.rateUnit === 'mpy' ? round(rate * 1000, 2) : rate);
+  const values: Record<ThicknessOutputKey, any> = {
+    corrosionRate: scaleRate(result.corrosionRate),
+    shortTermRate: scaleRate(result.shortTermRate),
+    longTermRate: scaleRate(result.longTermRate),
+    remainingLife: result.remainingLife,
+    nextInspectionDate: result.nextInspectionDate,
+    minimumThickness: result.minimumThickness,
+    governingTml: result.governingTml?.tmlId ?? null,
+    flagCount: result.flags.length
+  };
+
+  const fieldValues: Record<string, any> = {};
+  Object.entries(config.outputs || {}).forEach(([key, fields]) => {
+    const value = values[key as ThicknessOutputKey];
+    if (value === undefined || value === null) return;
+    (Array.isArray(fields) ? fields : [fields]).forEach(field => {
+      if (field) fieldValues[field] = value;
+    });
+  });
+  return fieldValues;
+}